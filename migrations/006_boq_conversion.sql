@@ -0,0 +1,31 @@
+BEGIN;
+
+-- Link BOQs to the customer record and to the document they were converted into
+ALTER TABLE IF EXISTS boqs
+  ADD COLUMN IF NOT EXISTS customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS converted_to_type VARCHAR(20),
+  ADD COLUMN IF NOT EXISTS converted_to_id UUID,
+  ADD COLUMN IF NOT EXISTS converted_to_number VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS converted_at TIMESTAMPTZ;
+
+DO $$ BEGIN
+  ALTER TABLE boqs ADD CONSTRAINT boqs_converted_to_type_check
+    CHECK (converted_to_type IS NULL OR converted_to_type IN ('quotation','proforma','invoice'));
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+CREATE INDEX IF NOT EXISTS idx_boqs_customer_id ON boqs(customer_id);
+
+-- Carry BOQ units onto document lines
+ALTER TABLE IF EXISTS quotation_items
+  ADD COLUMN IF NOT EXISTS unit_of_measure VARCHAR(50);
+ALTER TABLE IF EXISTS invoice_items
+  ADD COLUMN IF NOT EXISTS unit_of_measure VARCHAR(50);
+ALTER TABLE IF EXISTS proforma_items
+  ADD COLUMN IF NOT EXISTS unit_of_measure VARCHAR(50);
+
+-- BOQ quantities are measured (e.g. 12.5 m2), so document lines must accept fractions
+ALTER TABLE IF EXISTS quotation_items ALTER COLUMN quantity TYPE NUMERIC(12,3);
+ALTER TABLE IF EXISTS invoice_items ALTER COLUMN quantity TYPE NUMERIC(12,3);
+ALTER TABLE IF EXISTS proforma_items ALTER COLUMN quantity TYPE NUMERIC(12,3);
+
+COMMIT;
@@ -0,0 +1,30 @@
+BEGIN;
+
+-- Every saved version of a BOQ's data is kept as a numbered revision (1 = Rev A, 2 = Rev B, ...)
+CREATE TABLE IF NOT EXISTS boq_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  boq_id UUID NOT NULL REFERENCES boqs(id) ON DELETE CASCADE,
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  data JSONB NOT NULL,
+  subtotal NUMERIC(15,2) DEFAULT 0,
+  total_amount NUMERIC(15,2) DEFAULT 0,
+  change_note TEXT,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(boq_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_boq_revisions_boq_id ON boq_revisions(boq_id);
+
+ALTER TABLE IF EXISTS boqs
+  ADD COLUMN IF NOT EXISTS current_revision INTEGER DEFAULT 1;
+
+-- Backfill Rev A for BOQs saved before revisions existed
+INSERT INTO boq_revisions (boq_id, company_id, revision_number, data, subtotal, total_amount, created_by, created_at)
+SELECT b.id, b.company_id, 1, b.data, b.subtotal, b.total_amount, b.created_by, b.created_at
+FROM boqs b
+WHERE b.data IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM boq_revisions r WHERE r.boq_id = b.id);
+
+COMMIT;
@@ -0,0 +1,35 @@
+BEGIN;
+
+-- Company-level library of standard BOQ rates that estimators pick from when building a BOQ
+CREATE TABLE IF NOT EXISTS boq_rates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+  description TEXT NOT NULL,
+  unit_id UUID REFERENCES units(id) ON DELETE SET NULL,
+  default_rate NUMERIC(15,2) NOT NULL DEFAULT 0,
+  product_id UUID REFERENCES products(id) ON DELETE SET NULL,
+  tags TEXT[] DEFAULT '{}',
+  is_active BOOLEAN DEFAULT TRUE,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_boq_rates_company_id ON boq_rates(company_id);
+CREATE INDEX IF NOT EXISTS idx_boq_rates_tags ON boq_rates USING GIN(tags);
+
+-- Draft BOQs are still being priced and are checked against the library; issued BOQs are left alone
+ALTER TABLE IF EXISTS boqs
+  ADD COLUMN IF NOT EXISTS status VARCHAR(20) DEFAULT 'draft';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'boqs_status_check') THEN
+    ALTER TABLE boqs ADD CONSTRAINT boqs_status_check CHECK (status IN ('draft', 'issued'));
+  END IF;
+END $$;
+
+-- BOQs already converted to a sales document have been issued
+UPDATE boqs SET status = 'issued' WHERE converted_to_id IS NOT NULL AND status = 'draft';
+
+COMMIT;
@@ -0,0 +1,32 @@
+BEGIN;
+
+-- Interim valuations of work done against an awarded BOQ. Each valuation holds cumulative progress per
+-- BOQ item (items JSONB) and the resulting payment certificate figures.
+CREATE TABLE IF NOT EXISTS boq_valuations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+  boq_id UUID NOT NULL REFERENCES boqs(id) ON DELETE CASCADE,
+  valuation_number INTEGER NOT NULL,
+  valuation_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'certified', 'invoiced')),
+  items JSONB NOT NULL DEFAULT '[]',
+  gross_value NUMERIC(15,2) DEFAULT 0,
+  retention_percentage NUMERIC(5,2) DEFAULT 0,
+  retention_amount NUMERIC(15,2) DEFAULT 0,
+  net_value NUMERIC(15,2) DEFAULT 0,
+  previous_certified NUMERIC(15,2) DEFAULT 0,
+  amount_due NUMERIC(15,2) DEFAULT 0,
+  notes TEXT,
+  certified_at TIMESTAMPTZ,
+  invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+  invoice_number VARCHAR(100),
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(boq_id, valuation_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_boq_valuations_boq_id ON boq_valuations(boq_id);
+CREATE INDEX IF NOT EXISTS idx_boq_valuations_company_id ON boq_valuations(company_id);
+
+COMMIT;
@@ -0,0 +1,87 @@
+BEGIN;
+
+-- Supplier master. LPOs previously pointed supplier_id at customers; suppliers now have their own table.
+CREATE TABLE IF NOT EXISTS suppliers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+  supplier_code VARCHAR(50) NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  email VARCHAR(255),
+  phone VARCHAR(50),
+  address TEXT,
+  city VARCHAR(100),
+  country VARCHAR(100) DEFAULT 'Kenya',
+  contacts JSONB NOT NULL DEFAULT '[]', -- [{ name, role, email, phone }]
+  payment_terms INTEGER DEFAULT 30,
+  tax_pin VARCHAR(50),
+  bank_name VARCHAR(255),
+  bank_branch VARCHAR(255),
+  bank_account_name VARCHAR(255),
+  bank_account_number VARCHAR(100),
+  bank_swift_code VARCHAR(50),
+  category_ids UUID[] NOT NULL DEFAULT '{}', -- product_categories supplied
+  notes TEXT,
+  is_active BOOLEAN DEFAULT TRUE,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(company_id, supplier_code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_suppliers_company_id ON suppliers(company_id);
+CREATE INDEX IF NOT EXISTS idx_suppliers_name ON suppliers(name);
+CREATE INDEX IF NOT EXISTS idx_suppliers_category_ids ON suppliers USING GIN (category_ids);
+
+-- Copy every customer referenced by an LPO into suppliers, keeping the same id so existing
+-- lpos.supplier_id values stay valid once the foreign key is switched over. customer_code is
+-- optional, so customers without one get a code from their id, and a code already taken in the
+-- company gets the id appended rather than the supplier being skipped.
+WITH source AS (
+  SELECT
+    c.*,
+    left(COALESCE(
+      CASE WHEN c.customer_code LIKE 'SUP-%' THEN c.customer_code ELSE 'SUP-' || c.customer_code END,
+      'SUP-' || left(c.id::text, 8)
+    ), 41) AS code
+  FROM customers c
+  WHERE c.id IN (SELECT DISTINCT supplier_id FROM lpos WHERE supplier_id IS NOT NULL)
+    AND NOT EXISTS (SELECT 1 FROM suppliers s WHERE s.id = c.id)
+), numbered AS (
+  SELECT source.*, row_number() OVER (PARTITION BY company_id, code ORDER BY created_at, id) AS code_rank
+  FROM source
+)
+INSERT INTO suppliers (id, company_id, supplier_code, name, email, phone, address, city, country, payment_terms, is_active, created_at)
+SELECT
+  n.id,
+  n.company_id,
+  CASE
+    WHEN n.code_rank > 1 OR EXISTS (
+      SELECT 1 FROM suppliers s WHERE s.company_id IS NOT DISTINCT FROM n.company_id AND s.supplier_code = n.code
+    ) THEN n.code || '-' || left(n.id::text, 8)
+    ELSE n.code
+  END,
+  n.name,
+  n.email,
+  n.phone,
+  n.address,
+  n.city,
+  n.country,
+  COALESCE(n.payment_terms, 30),
+  COALESCE(n.is_active, TRUE),
+  n.created_at
+FROM numbered n;
+
+ALTER TABLE lpos DROP CONSTRAINT IF EXISTS lpos_supplier_id_fkey;
+ALTER TABLE lpos
+  ADD CONSTRAINT lpos_supplier_id_fkey FOREIGN KEY (supplier_id) REFERENCES suppliers(id) ON DELETE RESTRICT;
+
+-- Customers created from the LPO screen only to act as suppliers (SUP- codes) with no sales history
+-- are retired from the customer list; the rows are kept for reference.
+UPDATE customers c
+SET is_active = FALSE
+WHERE c.customer_code LIKE 'SUP-%'
+  AND EXISTS (SELECT 1 FROM suppliers s WHERE s.id = c.id)
+  AND NOT EXISTS (SELECT 1 FROM invoices i WHERE i.customer_id = c.id)
+  AND NOT EXISTS (SELECT 1 FROM quotations q WHERE q.customer_id = c.id);
+
+COMMIT;
@@ -0,0 +1,61 @@
+-- New enum values cannot be used in the transaction that adds them, so this runs on its own
+ALTER TYPE lpo_status ADD VALUE IF NOT EXISTS 'partially_received' AFTER 'approved';
+
+BEGIN;
+
+-- Goods received against an LPO. An LPO can have several GRNs when it is delivered in parts.
+CREATE TABLE IF NOT EXISTS goods_received_notes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+  lpo_id UUID NOT NULL REFERENCES lpos(id) ON DELETE RESTRICT,
+  supplier_id UUID REFERENCES suppliers(id) ON DELETE RESTRICT,
+  grn_number VARCHAR(100) NOT NULL,
+  received_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  supplier_delivery_note VARCHAR(100), -- the supplier's own delivery note / waybill number
+  received_by VARCHAR(255),
+  notes TEXT,
+  total_value NUMERIC(15,2) DEFAULT 0,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(company_id, grn_number)
+);
+
+CREATE TABLE IF NOT EXISTS grn_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  grn_id UUID NOT NULL REFERENCES goods_received_notes(id) ON DELETE CASCADE,
+  lpo_item_id UUID NOT NULL REFERENCES lpo_items(id) ON DELETE RESTRICT,
+  product_id UUID REFERENCES products(id),
+  description TEXT NOT NULL,
+  quantity_received NUMERIC(10,3) NOT NULL CHECK (quantity_received > 0),
+  unit_cost NUMERIC(15,2) NOT NULL DEFAULT 0,
+  line_total NUMERIC(15,2) NOT NULL DEFAULT 0,
+  sort_order INTEGER DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_goods_received_notes_company_id ON goods_received_notes(company_id);
+CREATE INDEX IF NOT EXISTS idx_goods_received_notes_lpo_id ON goods_received_notes(lpo_id);
+CREATE INDEX IF NOT EXISTS idx_grn_items_grn_id ON grn_items(grn_id);
+CREATE INDEX IF NOT EXISTS idx_grn_items_lpo_item_id ON grn_items(lpo_item_id);
+
+-- Stock received on a GRN is recorded with reference_type 'GRN'
+ALTER TABLE stock_movements DROP CONSTRAINT IF EXISTS stock_movements_reference_type_check;
+ALTER TABLE stock_movements
+  ADD CONSTRAINT stock_movements_reference_type_check
+  CHECK (reference_type IN ('INVOICE', 'DELIVERY_NOTE', 'RESTOCK', 'ADJUSTMENT', 'CREDIT_NOTE', 'PURCHASE', 'GRN'));
+
+CREATE OR REPLACE FUNCTION generate_grn_number(company_uuid UUID)
+RETURNS TEXT AS $$
+DECLARE
+  grn_count INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO grn_count
+  FROM goods_received_notes
+  WHERE company_id = company_uuid
+    AND EXTRACT(YEAR FROM created_at) = EXTRACT(YEAR FROM CURRENT_DATE);
+
+  RETURN 'GRN-' || TO_CHAR(CURRENT_DATE, 'YYYY') || '-' || LPAD((grn_count + 1)::TEXT, 4, '0');
+END;
+$$ LANGUAGE plpgsql;
+
+COMMIT;
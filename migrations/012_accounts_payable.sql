@@ -0,0 +1,119 @@
+BEGIN;
+
+-- Bills received from suppliers. A bill can be raised against an LPO, in which case its lines are
+-- matched against the ordered quantities/prices and what has been received on GRNs.
+CREATE TABLE IF NOT EXISTS supplier_bills (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+  supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE RESTRICT,
+  lpo_id UUID REFERENCES lpos(id) ON DELETE SET NULL,
+  bill_number VARCHAR(100) NOT NULL,
+  supplier_invoice_number VARCHAR(100), -- the supplier's own invoice number
+  bill_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  due_date DATE,
+  status VARCHAR(20) NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'approved', 'partial', 'paid', 'cancelled')),
+  match_status VARCHAR(20) NOT NULL DEFAULT 'not_applicable'
+    CHECK (match_status IN ('not_applicable', 'matched', 'variance')),
+  variance_note TEXT, -- why a bill with match variances was approved
+  subtotal NUMERIC(15,2) DEFAULT 0,
+  tax_amount NUMERIC(15,2) DEFAULT 0,
+  total_amount NUMERIC(15,2) DEFAULT 0,
+  paid_amount NUMERIC(15,2) DEFAULT 0,
+  balance_due NUMERIC(15,2) DEFAULT 0,
+  notes TEXT,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(company_id, bill_number)
+);
+
+-- The same supplier invoice should only be entered once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_supplier_bills_supplier_invoice
+  ON supplier_bills(company_id, supplier_id, supplier_invoice_number)
+  WHERE supplier_invoice_number IS NOT NULL AND status <> 'cancelled';
+
+CREATE TABLE IF NOT EXISTS supplier_bill_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  bill_id UUID NOT NULL REFERENCES supplier_bills(id) ON DELETE CASCADE,
+  lpo_item_id UUID REFERENCES lpo_items(id) ON DELETE SET NULL,
+  product_id UUID REFERENCES products(id),
+  description TEXT NOT NULL,
+  quantity NUMERIC(10,3) NOT NULL DEFAULT 1,
+  unit_price NUMERIC(15,2) NOT NULL DEFAULT 0,
+  tax_percentage NUMERIC(6,3) DEFAULT 0,
+  tax_amount NUMERIC(15,2) DEFAULT 0,
+  line_total NUMERIC(15,2) DEFAULT 0,
+  -- Three-way match snapshot taken when the bill was entered
+  ordered_quantity NUMERIC(10,3),
+  received_quantity NUMERIC(10,3),
+  ordered_unit_price NUMERIC(15,2),
+  match_status VARCHAR(20) CHECK (match_status IN ('matched', 'quantity_variance', 'price_variance', 'variance')),
+  sort_order INTEGER DEFAULT 0
+);
+
+-- Money paid out to suppliers
+CREATE TABLE IF NOT EXISTS supplier_payments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+  supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE RESTRICT,
+  payment_number VARCHAR(100) NOT NULL,
+  payment_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  amount NUMERIC(15,2) NOT NULL CHECK (amount > 0),
+  payment_method VARCHAR(50),
+  reference_number VARCHAR(100),
+  notes TEXT,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(company_id, payment_number)
+);
+
+CREATE TABLE IF NOT EXISTS supplier_payment_allocations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  payment_id UUID NOT NULL REFERENCES supplier_payments(id) ON DELETE CASCADE,
+  bill_id UUID NOT NULL REFERENCES supplier_bills(id) ON DELETE RESTRICT,
+  amount_allocated NUMERIC(15,2) NOT NULL CHECK (amount_allocated > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(payment_id, bill_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_bills_company_id ON supplier_bills(company_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_bills_supplier_id ON supplier_bills(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_bills_lpo_id ON supplier_bills(lpo_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_bill_items_bill_id ON supplier_bill_items(bill_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_bill_items_lpo_item_id ON supplier_bill_items(lpo_item_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_payments_company_id ON supplier_payments(company_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_payments_supplier_id ON supplier_payments(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_payment_allocations_payment_id ON supplier_payment_allocations(payment_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_payment_allocations_bill_id ON supplier_payment_allocations(bill_id);
+
+CREATE OR REPLACE FUNCTION generate_supplier_bill_number(company_uuid UUID)
+RETURNS TEXT AS $$
+DECLARE
+  bill_count INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO bill_count
+  FROM supplier_bills
+  WHERE company_id = company_uuid
+    AND EXTRACT(YEAR FROM created_at) = EXTRACT(YEAR FROM CURRENT_DATE);
+
+  RETURN 'BILL-' || TO_CHAR(CURRENT_DATE, 'YYYY') || '-' || LPAD((bill_count + 1)::TEXT, 4, '0');
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION generate_supplier_payment_number(company_uuid UUID)
+RETURNS TEXT AS $$
+DECLARE
+  payment_count INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO payment_count
+  FROM supplier_payments
+  WHERE company_id = company_uuid
+    AND EXTRACT(YEAR FROM created_at) = EXTRACT(YEAR FROM CURRENT_DATE);
+
+  RETURN 'SPAY-' || TO_CHAR(CURRENT_DATE, 'YYYY') || '-' || LPAD((payment_count + 1)::TEXT, 4, '0');
+END;
+$$ LANGUAGE plpgsql;
+
+COMMIT;
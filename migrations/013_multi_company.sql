@@ -0,0 +1,31 @@
+BEGIN;
+
+-- A user can work for more than one registered entity, with a different role in each.
+-- profiles.company_id/role remain the user's home company and role for older code paths.
+CREATE TABLE IF NOT EXISTS user_companies (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  role user_role NOT NULL DEFAULT 'user',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, company_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_companies_user_id ON user_companies(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_companies_company_id ON user_companies(company_id);
+
+-- Every existing profile keeps access to its current company with its current role
+INSERT INTO user_companies (user_id, company_id, role)
+SELECT id, company_id, role
+FROM profiles
+WHERE company_id IS NOT NULL
+ON CONFLICT (user_id, company_id) DO NOTHING;
+
+-- The company the user last switched to, so the selection follows them across browsers
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS selected_company_id UUID REFERENCES companies(id) ON DELETE SET NULL;
+
+UPDATE profiles SET selected_company_id = company_id WHERE selected_company_id IS NULL;
+
+COMMIT;
@@ -0,0 +1,306 @@
+BEGIN;
+
+-- Default permission sets per role. Keep in sync with ROLE_DEFAULT_PERMISSIONS in
+-- src/utils/permissions.ts. Admins are granted everything by has_permission() itself.
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role user_role NOT NULL,
+  permission_name TEXT NOT NULL,
+  PRIMARY KEY (role, permission_name)
+);
+
+INSERT INTO role_permissions (role, permission_name)
+SELECT 'accountant'::user_role, unnest(ARRAY[
+  'quotation.view', 'quotation.create',
+  'invoice.view', 'invoice.create', 'invoice.void',
+  'credit_note.view', 'credit_note.create',
+  'payment.view', 'payment.record', 'payment.delete',
+  'customer.view', 'customer.manage',
+  'inventory.view', 'delivery_note.view',
+  'boq.view',
+  'purchase.view', 'payable.view', 'payable.manage', 'payable.pay',
+  'report.sales', 'report.inventory', 'report.payables',
+  'settings.view'
+])
+UNION ALL
+SELECT 'stock_manager'::user_role, unnest(ARRAY[
+  'quotation.view', 'invoice.view',
+  'customer.view',
+  'inventory.view', 'inventory.manage', 'inventory.adjust',
+  'delivery_note.view', 'delivery_note.create',
+  'boq.view',
+  'purchase.view', 'purchase.create', 'payable.view',
+  'report.inventory'
+])
+UNION ALL
+SELECT 'user'::user_role, unnest(ARRAY[
+  'quotation.view', 'quotation.create',
+  'invoice.view', 'invoice.create',
+  'credit_note.view',
+  'payment.view',
+  'customer.view', 'customer.manage',
+  'inventory.view', 'delivery_note.view',
+  'boq.view', 'boq.create',
+  'report.sales'
+])
+ON CONFLICT DO NOTHING;
+
+-- Overrides apply in one company. Existing rows move to the user's home company; rows for users
+-- without one no longer match any company and are ignored.
+ALTER TABLE user_permissions ADD COLUMN IF NOT EXISTS company_id UUID REFERENCES companies(id) ON DELETE CASCADE;
+
+UPDATE user_permissions up
+SET company_id = p.company_id
+FROM profiles p
+WHERE p.id = up.user_id AND up.company_id IS NULL;
+
+ALTER TABLE user_permissions DROP CONSTRAINT IF EXISTS user_permissions_user_id_permission_name_key;
+DO $$ BEGIN
+  ALTER TABLE user_permissions ADD CONSTRAINT user_permissions_user_company_permission_key
+    UNIQUE (user_id, company_id, permission_name);
+EXCEPTION WHEN duplicate_object OR duplicate_table THEN NULL; END $$;
+
+CREATE INDEX IF NOT EXISTS idx_user_permissions_user_id ON user_permissions(user_id, company_id);
+
+-- The caller's role in a company: their membership role, else their profile role for their home company
+CREATE OR REPLACE FUNCTION company_role(p_company_id UUID)
+RETURNS user_role AS $$
+  SELECT COALESCE(
+    (SELECT uc.role FROM user_companies uc WHERE uc.user_id = auth.uid() AND uc.company_id = p_company_id),
+    (SELECT p.role FROM profiles p WHERE p.id = auth.uid() AND (p.company_id = p_company_id OR p_company_id IS NULL))
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Effective permission for the caller in a company: admins have everything, the caller's override
+-- for that company in user_permissions wins next, otherwise the role default applies. Non-members
+-- have nothing.
+CREATE OR REPLACE FUNCTION has_permission(p_permission TEXT, p_company_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_role user_role;
+  v_override BOOLEAN;
+BEGIN
+  v_role := company_role(p_company_id);
+  IF v_role IS NULL THEN
+    RETURN FALSE;
+  END IF;
+  IF v_role = 'admin' THEN
+    RETURN TRUE;
+  END IF;
+
+  SELECT granted INTO v_override
+  FROM user_permissions
+  WHERE user_id = auth.uid() AND company_id = p_company_id AND permission_name = p_permission;
+
+  IF v_override IS NOT NULL THEN
+    RETURN v_override;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM role_permissions WHERE role = v_role AND permission_name = p_permission
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION has_any_permission(p_permissions TEXT[], p_company_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM unnest(p_permissions) AS p(name) WHERE has_permission(p.name, p_company_id));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Company-scoped documents: (table, select, insert, update, delete) permissions. Several permissions
+-- may unlock an action, e.g. recording a payment updates the balance on the invoice it settles.
+DO $$
+DECLARE
+  t RECORD;
+BEGIN
+  FOR t IN SELECT * FROM (VALUES
+    ('quotations', '{quotation.view}', '{quotation.create}', '{quotation.create,invoice.create}', '{quotation.delete}'),
+    ('invoices', '{invoice.view,payment.view,credit_note.view}', '{invoice.create}', '{invoice.create,invoice.void,payment.record,credit_note.create}', '{invoice.delete}'),
+    ('proforma_invoices', '{invoice.view}', '{invoice.create}', '{invoice.create}', '{invoice.delete}'),
+    ('credit_notes', '{credit_note.view}', '{credit_note.create}', '{credit_note.create}', '{credit_note.create}'),
+    ('payments', '{payment.view}', '{payment.record}', '{payment.record}', '{payment.delete}'),
+    ('remittance_advice', '{payment.view}', '{payment.record}', '{payment.record}', '{payment.record}'),
+    ('customers', '{customer.view,invoice.view,quotation.view}', '{customer.manage}', '{customer.manage}', '{customer.manage}'),
+    ('products', '{inventory.view,quotation.view,invoice.view,purchase.view}', '{inventory.manage}', '{inventory.manage,inventory.adjust,invoice.create,delivery_note.create,credit_note.create,purchase.create}', '{inventory.manage}'),
+    ('delivery_notes', '{delivery_note.view}', '{delivery_note.create}', '{delivery_note.create}', '{delivery_note.create}'),
+    ('boqs', '{boq.view}', '{boq.create}', '{boq.create}', '{boq.create}'),
+    ('boq_rates', '{boq.view}', '{boq.create}', '{boq.create}', '{boq.create}'),
+    ('boq_valuations', '{boq.view}', '{boq.create}', '{boq.create,invoice.create}', '{boq.create}'),
+    ('lpos', '{purchase.view,payable.view}', '{purchase.create}', '{purchase.create}', '{purchase.create}'),
+    ('suppliers', '{purchase.view,payable.view}', '{purchase.create}', '{purchase.create}', '{purchase.create}'),
+    ('goods_received_notes', '{purchase.view,payable.view}', '{purchase.create}', '{purchase.create}', '{purchase.create}'),
+    ('supplier_bills', '{payable.view}', '{payable.manage}', '{payable.manage,payable.pay}', '{payable.manage}'),
+    ('supplier_payments', '{payable.view}', '{payable.pay}', '{payable.pay}', '{payable.pay}'),
+    ('tax_settings', '{settings.view,invoice.create,quotation.create}', '{settings.edit}', '{settings.edit}', '{settings.edit}'),
+    ('units', '{settings.view,inventory.view,boq.view}', '{settings.edit,inventory.manage,boq.create}', '{settings.edit}', '{settings.edit}')
+  ) AS v(tbl, sel, ins, upd, del)
+  LOOP
+    CONTINUE WHEN to_regclass(t.tbl) IS NULL;
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', t.tbl);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t.tbl || '_select', t.tbl);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t.tbl || '_insert', t.tbl);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t.tbl || '_update', t.tbl);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t.tbl || '_delete', t.tbl);
+    EXECUTE format('CREATE POLICY %I ON %I FOR SELECT USING (has_any_permission(%L, company_id))', t.tbl || '_select', t.tbl, t.sel);
+    EXECUTE format('CREATE POLICY %I ON %I FOR INSERT WITH CHECK (has_any_permission(%L, company_id))', t.tbl || '_insert', t.tbl, t.ins);
+    EXECUTE format('CREATE POLICY %I ON %I FOR UPDATE USING (has_any_permission(%L, company_id))', t.tbl || '_update', t.tbl, t.upd);
+    EXECUTE format('CREATE POLICY %I ON %I FOR DELETE USING (has_any_permission(%L, company_id))', t.tbl || '_delete', t.tbl, t.del);
+  END LOOP;
+END $$;
+
+-- Line items and allocations follow their parent document: (table, parent key, parent table)
+DO $$
+DECLARE
+  t RECORD;
+BEGIN
+  FOR t IN SELECT * FROM (VALUES
+    ('quotation_items', 'quotation_id', 'quotations'),
+    ('invoice_items', 'invoice_id', 'invoices'),
+    ('proforma_items', 'proforma_invoice_id', 'proforma_invoices'),
+    ('credit_note_items', 'credit_note_id', 'credit_notes'),
+    ('credit_note_allocations', 'credit_note_id', 'credit_notes'),
+    ('payment_allocations', 'payment_id', 'payments'),
+    ('remittance_advice_items', 'remittance_advice_id', 'remittance_advice'),
+    ('delivery_note_items', 'delivery_note_id', 'delivery_notes'),
+    ('lpo_items', 'lpo_id', 'lpos'),
+    ('grn_items', 'grn_id', 'goods_received_notes'),
+    ('supplier_bill_items', 'bill_id', 'supplier_bills'),
+    ('supplier_payment_allocations', 'payment_id', 'supplier_payments')
+  ) AS v(tbl, fk, parent)
+  LOOP
+    CONTINUE WHEN to_regclass(t.tbl) IS NULL OR to_regclass(t.parent) IS NULL;
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', t.tbl);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t.tbl || '_via_parent', t.tbl);
+    -- Items are reachable whenever the parent is visible; the parent's own policies gate changes to the document
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR ALL USING (EXISTS (SELECT 1 FROM %I parent WHERE parent.id = %I.%I)) WITH CHECK (EXISTS (SELECT 1 FROM %I parent WHERE parent.id = %I.%I))',
+      t.tbl || '_via_parent', t.tbl, t.parent, t.tbl, t.fk, t.parent, t.tbl, t.fk
+    );
+  END LOOP;
+END $$;
+
+-- Manual restocks and adjustments need inventory.adjust; movements raised by documents only need membership
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS stock_movements_select ON stock_movements;
+DROP POLICY IF EXISTS stock_movements_insert ON stock_movements;
+CREATE POLICY stock_movements_select ON stock_movements
+  FOR SELECT USING (has_any_permission('{inventory.view,report.inventory}', company_id));
+CREATE POLICY stock_movements_insert ON stock_movements
+  FOR INSERT WITH CHECK (
+    CASE WHEN reference_type IN ('RESTOCK', 'ADJUSTMENT')
+      THEN has_permission('inventory.adjust', company_id)
+      ELSE company_role(company_id) IS NOT NULL
+    END
+  );
+
+-- Company details are visible to members and editable with settings.edit
+ALTER TABLE companies ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS companies_select ON companies;
+DROP POLICY IF EXISTS companies_insert ON companies;
+DROP POLICY IF EXISTS companies_update ON companies;
+CREATE POLICY companies_select ON companies
+  FOR SELECT USING (company_role(id) IS NOT NULL);
+-- Any signed-in user may register a company (first-run setup in Company Settings)
+CREATE POLICY companies_insert ON companies
+  FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+CREATE POLICY companies_update ON companies
+  FOR UPDATE USING (has_permission('settings.edit', id));
+
+-- Memberships: users see their own; user managers see and edit their company's other members.
+-- Only the company's admins may grant the admin role or touch an admin's membership, and nobody
+-- changes their own.
+ALTER TABLE user_companies ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS user_companies_select ON user_companies;
+DROP POLICY IF EXISTS user_companies_manage ON user_companies;
+DROP POLICY IF EXISTS user_companies_insert ON user_companies;
+DROP POLICY IF EXISTS user_companies_update ON user_companies;
+DROP POLICY IF EXISTS user_companies_delete ON user_companies;
+CREATE POLICY user_companies_select ON user_companies
+  FOR SELECT USING (user_id = auth.uid() OR has_permission('user.manage', company_id));
+CREATE POLICY user_companies_insert ON user_companies
+  FOR INSERT WITH CHECK (
+    user_id <> auth.uid()
+    AND has_permission('user.manage', company_id)
+    AND (role <> 'admin' OR company_role(company_id) = 'admin')
+  );
+CREATE POLICY user_companies_update ON user_companies
+  FOR UPDATE USING (
+    user_id <> auth.uid()
+    AND has_permission('user.manage', company_id)
+    AND (role <> 'admin' OR company_role(company_id) = 'admin')
+  )
+  WITH CHECK (
+    user_id <> auth.uid()
+    AND has_permission('user.manage', company_id)
+    AND (role <> 'admin' OR company_role(company_id) = 'admin')
+  );
+CREATE POLICY user_companies_delete ON user_companies
+  FOR DELETE USING (
+    user_id <> auth.uid()
+    AND has_permission('user.manage', company_id)
+    AND (role <> 'admin' OR company_role(company_id) = 'admin')
+  );
+
+-- A company always keeps at least one admin. Memberships removed because the company or the
+-- user's profile is being deleted are let through.
+CREATE OR REPLACE FUNCTION keep_company_admin()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.role <> 'admin' THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+  IF TG_OP = 'UPDATE' AND NEW.role = 'admin' AND NEW.company_id = OLD.company_id THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'DELETE' AND (
+    NOT EXISTS (SELECT 1 FROM companies c WHERE c.id = OLD.company_id)
+    OR NOT EXISTS (SELECT 1 FROM profiles p WHERE p.id = OLD.user_id)
+  ) THEN
+    RETURN OLD;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM user_companies uc
+    WHERE uc.company_id = OLD.company_id AND uc.role = 'admin' AND uc.id <> OLD.id
+  ) THEN
+    RAISE EXCEPTION 'A company must keep at least one admin';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS user_companies_keep_admin ON user_companies;
+CREATE TRIGGER user_companies_keep_admin
+  BEFORE UPDATE OR DELETE ON user_companies
+  FOR EACH ROW EXECUTE FUNCTION keep_company_admin();
+
+-- Overrides: users read their own; a company's overrides are edited with user.manage in that
+-- company, for other users who belong to it
+ALTER TABLE user_permissions ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Users can view their own permissions" ON user_permissions;
+DROP POLICY IF EXISTS "Admins can manage permissions in their company" ON user_permissions;
+DROP POLICY IF EXISTS user_permissions_select ON user_permissions;
+DROP POLICY IF EXISTS user_permissions_manage ON user_permissions;
+
+DROP FUNCTION IF EXISTS can_manage_user(UUID);
+CREATE OR REPLACE FUNCTION can_manage_user(p_user_id UUID, p_company_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT p_company_id IS NOT NULL
+    AND p_user_id <> auth.uid()
+    AND has_permission('user.manage', p_company_id)
+    AND (
+      EXISTS (SELECT 1 FROM user_companies uc WHERE uc.user_id = p_user_id AND uc.company_id = p_company_id)
+      OR EXISTS (SELECT 1 FROM profiles p WHERE p.id = p_user_id AND p.company_id = p_company_id)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY user_permissions_select ON user_permissions
+  FOR SELECT USING (user_id = auth.uid() OR can_manage_user(user_id, company_id));
+CREATE POLICY user_permissions_manage ON user_permissions
+  FOR ALL USING (can_manage_user(user_id, company_id))
+  WITH CHECK (can_manage_user(user_id, company_id));
+
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS role_permissions_select ON role_permissions;
+CREATE POLICY role_permissions_select ON role_permissions
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+COMMIT;
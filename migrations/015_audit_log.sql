@@ -0,0 +1,234 @@
+BEGIN;
+
+-- Append-only record of every change to financial documents and their master data. Rows are
+-- written by triggers, so changes made outside the app (SQL editor, RPCs) are captured as well.
+-- company_id and actor_id carry no foreign keys: a referential action would have to update or
+-- delete trail rows, which the trail refuses, and removing a user or company would then fail.
+CREATE TABLE IF NOT EXISTS audit_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID,
+  entity_type TEXT NOT NULL, -- table name, e.g. 'invoices'
+  entity_id UUID NOT NULL,
+  parent_type TEXT, -- for line items/allocations: the document they belong to
+  parent_id UUID,
+  action VARCHAR(30) NOT NULL, -- created, updated, sent, voided, cancelled, status_changed, deleted
+  actor_id UUID,
+  actor_name TEXT, -- snapshot so the trail still reads correctly after a user is removed
+  changes JSONB, -- { field: { "old": ..., "new": ... } } for updates; full row for creates/deletes
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_company_id_fkey;
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_actor_id_fkey;
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_parent ON audit_log(parent_type, parent_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_company_created ON audit_log(company_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor_id);
+
+-- Bookkeeping columns that change on every write and would only add noise to diffs
+CREATE OR REPLACE FUNCTION audit_ignored_columns()
+RETURNS TEXT[] AS $$
+  SELECT ARRAY['updated_at', 'created_at'];
+$$ LANGUAGE sql IMMUTABLE;
+
+-- BEFORE DELETE on parent documents: remembers the company for the rest of the transaction, so
+-- child rows removed by ON DELETE CASCADE (after the parent row is gone) are still attributed to it.
+CREATE OR REPLACE FUNCTION audit_remember_company()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM set_config('audit.company_' || replace(OLD.id::text, '-', ''), COALESCE(OLD.company_id::text, ''), true);
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger function. Optional arguments: parent key column and parent table, for child rows.
+CREATE OR REPLACE FUNCTION audit_row_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  v_new JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  v_row JSONB := COALESCE(v_new, v_old);
+  v_parent_column TEXT := TG_ARGV[0];
+  v_parent_table TEXT := TG_ARGV[1];
+  v_parent_id UUID;
+  v_company_id UUID;
+  v_changes JSONB;
+  v_action TEXT;
+  v_actor_name TEXT;
+  v_key TEXT;
+BEGIN
+  IF v_parent_column IS NOT NULL THEN
+    v_parent_id := (v_row ->> v_parent_column)::UUID;
+    -- Prefer the row's own company; otherwise the parent's, or the one remembered when a cascade
+    -- delete has already removed the parent
+    v_company_id := (v_row ->> 'company_id')::UUID;
+    IF v_company_id IS NULL AND v_parent_id IS NOT NULL THEN
+      EXECUTE format('SELECT company_id FROM %I WHERE id = $1', v_parent_table)
+        INTO v_company_id USING v_parent_id;
+      IF v_company_id IS NULL AND TG_OP = 'DELETE' THEN
+        v_company_id := NULLIF(current_setting('audit.company_' || replace(v_parent_id::text, '-', ''), true), '')::UUID;
+      END IF;
+    END IF;
+  ELSIF TG_TABLE_NAME = 'companies' THEN
+    v_company_id := (v_row ->> 'id')::UUID;
+  ELSE
+    v_company_id := (v_row ->> 'company_id')::UUID;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT jsonb_object_agg(n.key, jsonb_build_object('old', v_old -> n.key, 'new', n.value))
+      INTO v_changes
+    FROM jsonb_each(v_new) n
+    WHERE n.value IS DISTINCT FROM v_old -> n.key
+      AND n.key <> ALL (audit_ignored_columns());
+
+    -- Nothing but timestamps changed
+    IF v_changes IS NULL THEN
+      RETURN NEW;
+    END IF;
+
+    IF v_changes ? 'status' THEN
+      v_action := CASE v_new ->> 'status'
+        WHEN 'sent' THEN 'sent'
+        WHEN 'void' THEN 'voided'
+        WHEN 'voided' THEN 'voided'
+        WHEN 'cancelled' THEN 'cancelled'
+        ELSE 'status_changed'
+      END;
+    ELSE
+      v_action := 'updated';
+    END IF;
+  ELSE
+    v_action := CASE TG_OP WHEN 'INSERT' THEN 'created' ELSE 'deleted' END;
+    v_changes := v_row;
+    FOREACH v_key IN ARRAY audit_ignored_columns() LOOP
+      v_changes := v_changes - v_key;
+    END LOOP;
+  END IF;
+
+  SELECT COALESCE(p.full_name, p.email) INTO v_actor_name FROM profiles p WHERE p.id = auth.uid();
+
+  INSERT INTO audit_log (company_id, entity_type, entity_id, parent_type, parent_id, action, actor_id, actor_name, changes)
+  VALUES (
+    v_company_id,
+    TG_TABLE_NAME,
+    (v_row ->> 'id')::UUID,
+    CASE WHEN v_parent_column IS NOT NULL THEN v_parent_table END,
+    v_parent_id,
+    v_action,
+    (SELECT id FROM profiles WHERE id = auth.uid()),
+    COALESCE(v_actor_name, 'System'),
+    v_changes
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Attach to documents, their lines/allocations, and the master data they reference
+DO $$
+DECLARE
+  t RECORD;
+BEGIN
+  FOR t IN SELECT * FROM (VALUES
+    ('quotations', NULL, NULL),
+    ('quotation_items', 'quotation_id', 'quotations'),
+    ('invoices', NULL, NULL),
+    ('invoice_items', 'invoice_id', 'invoices'),
+    ('proforma_invoices', NULL, NULL),
+    ('proforma_items', 'proforma_invoice_id', 'proforma_invoices'),
+    ('credit_notes', NULL, NULL),
+    ('credit_note_items', 'credit_note_id', 'credit_notes'),
+    ('credit_note_allocations', 'credit_note_id', 'credit_notes'),
+    ('payments', NULL, NULL),
+    ('payment_allocations', 'payment_id', 'payments'),
+    ('remittance_advice', NULL, NULL),
+    ('remittance_advice_items', 'remittance_advice_id', 'remittance_advice'),
+    ('delivery_notes', NULL, NULL),
+    ('delivery_note_items', 'delivery_note_id', 'delivery_notes'),
+    ('lpos', NULL, NULL),
+    ('lpo_items', 'lpo_id', 'lpos'),
+    ('goods_received_notes', NULL, NULL),
+    ('grn_items', 'grn_id', 'goods_received_notes'),
+    ('supplier_bills', NULL, NULL),
+    ('supplier_bill_items', 'bill_id', 'supplier_bills'),
+    ('supplier_payments', NULL, NULL),
+    ('supplier_payment_allocations', 'payment_id', 'supplier_payments'),
+    ('customers', NULL, NULL),
+    ('suppliers', NULL, NULL),
+    ('products', NULL, NULL),
+    ('boqs', NULL, NULL),
+    ('companies', NULL, NULL)
+  ) AS v(tbl, parent_column, parent_table)
+  LOOP
+    CONTINUE WHEN to_regclass(t.tbl) IS NULL;
+    EXECUTE format('DROP TRIGGER IF EXISTS audit_%s ON %I', t.tbl, t.tbl);
+    IF t.parent_column IS NULL THEN
+      EXECUTE format(
+        'CREATE TRIGGER audit_%s AFTER INSERT OR UPDATE OR DELETE ON %I FOR EACH ROW EXECUTE FUNCTION audit_row_change()',
+        t.tbl, t.tbl
+      );
+    ELSE
+      EXECUTE format(
+        'CREATE TRIGGER audit_%s AFTER INSERT OR UPDATE OR DELETE ON %I FOR EACH ROW EXECUTE FUNCTION audit_row_change(%L, %L)',
+        t.tbl, t.tbl, t.parent_column, t.parent_table
+      );
+      CONTINUE WHEN to_regclass(t.parent_table) IS NULL;
+      EXECUTE format('DROP TRIGGER IF EXISTS audit_company_%s ON %I', t.parent_table, t.parent_table);
+      EXECUTE format(
+        'CREATE TRIGGER audit_company_%s BEFORE DELETE ON %I FOR EACH ROW EXECUTE FUNCTION audit_remember_company()',
+        t.parent_table, t.parent_table
+      );
+    END IF;
+  END LOOP;
+END $$;
+
+-- The trail is immutable: no edits or deletes, not even by admins
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_log_immutable ON audit_log;
+CREATE TRIGGER audit_log_immutable
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_changes();
+
+REVOKE UPDATE, DELETE, TRUNCATE ON audit_log FROM PUBLIC, anon, authenticated;
+
+-- The permission that lets a user read the history of a given entity type
+CREATE OR REPLACE FUNCTION audit_view_permission(p_entity_type TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE p_entity_type
+    WHEN 'quotations' THEN 'quotation.view'
+    WHEN 'invoices' THEN 'invoice.view'
+    WHEN 'proforma_invoices' THEN 'invoice.view'
+    WHEN 'credit_notes' THEN 'credit_note.view'
+    WHEN 'payments' THEN 'payment.view'
+    WHEN 'remittance_advice' THEN 'payment.view'
+    WHEN 'delivery_notes' THEN 'delivery_note.view'
+    WHEN 'lpos' THEN 'purchase.view'
+    WHEN 'goods_received_notes' THEN 'purchase.view'
+    WHEN 'suppliers' THEN 'purchase.view'
+    WHEN 'supplier_bills' THEN 'payable.view'
+    WHEN 'supplier_payments' THEN 'payable.view'
+    WHEN 'customers' THEN 'customer.view'
+    WHEN 'products' THEN 'inventory.view'
+    WHEN 'boqs' THEN 'boq.view'
+    ELSE 'audit.view'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Inserts only ever come from audit_row_change(), which runs as the table owner
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS audit_log_select ON audit_log;
+CREATE POLICY audit_log_select ON audit_log
+  FOR SELECT USING (
+    has_permission('audit.view', company_id)
+    OR has_permission(audit_view_permission(COALESCE(parent_type, entity_type)), company_id)
+  );
+
+COMMIT;
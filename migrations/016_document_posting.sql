@@ -0,0 +1,283 @@
+BEGIN;
+
+-- Posting lifecycle: invoices become read-only once sent or paid against, applied credit notes
+-- and received LPOs are frozen, and invoices are reversed by voiding rather than editing.
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS void_reason TEXT;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS voided_at TIMESTAMPTZ;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS voided_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+-- Columns that may still change on a posted document: balances kept up to date by payments and
+-- credit notes, status moves, and the void stamp. Later features extend this list.
+CREATE OR REPLACE FUNCTION posted_document_mutable_columns(p_table TEXT)
+RETURNS TEXT[] AS $$
+  SELECT CASE p_table
+    WHEN 'invoices' THEN ARRAY['status', 'paid_amount', 'balance_due', 'void_reason', 'voided_at', 'voided_by', 'updated_at']
+    WHEN 'credit_notes' THEN ARRAY['status', 'applied_amount', 'balance', 'updated_at']
+    WHEN 'lpos' THEN ARRAY['status', 'updated_at']
+    ELSE ARRAY['updated_at']
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION posted_document_changed(p_table TEXT, p_old JSONB, p_new JSONB)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_old JSONB := p_old;
+  v_new JSONB := p_new;
+  v_column TEXT;
+BEGIN
+  FOREACH v_column IN ARRAY posted_document_mutable_columns(p_table) LOOP
+    v_old := v_old - v_column;
+    v_new := v_new - v_column;
+  END LOOP;
+  RETURN v_old IS DISTINCT FROM v_new;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION invoice_is_posted(p_status TEXT, p_paid_amount NUMERIC)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(p_status, 'draft') <> 'draft' OR COALESCE(p_paid_amount, 0) > 0;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION credit_note_is_posted(p_status TEXT, p_applied_amount NUMERIC)
+RETURNS BOOLEAN AS $$
+  SELECT p_status = 'applied' OR COALESCE(p_applied_amount, 0) > 0;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Invoices
+CREATE OR REPLACE FUNCTION enforce_invoice_lock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'void' THEN
+    RAISE EXCEPTION 'Invoice % is void and cannot be changed', OLD.invoice_number;
+  END IF;
+
+  IF NOT invoice_is_posted(OLD.status, OLD.paid_amount) THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Invoice % has been posted and cannot be deleted; void it instead', OLD.invoice_number;
+  END IF;
+
+  IF NEW.status = 'draft' THEN
+    RAISE EXCEPTION 'Invoice % has been posted and cannot return to draft', OLD.invoice_number;
+  END IF;
+
+  IF posted_document_changed(TG_TABLE_NAME, to_jsonb(OLD), to_jsonb(NEW)) THEN
+    RAISE EXCEPTION 'Invoice % has been posted and is read-only; raise a credit note to correct it', OLD.invoice_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS invoices_posting_lock ON invoices;
+CREATE TRIGGER invoices_posting_lock
+  BEFORE UPDATE OR DELETE ON invoices
+  FOR EACH ROW EXECUTE FUNCTION enforce_invoice_lock();
+
+CREATE OR REPLACE FUNCTION enforce_invoice_items_lock()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_invoice RECORD;
+BEGIN
+  SELECT invoice_number, status, paid_amount INTO v_invoice
+  FROM invoices WHERE id = COALESCE(NEW.invoice_id, OLD.invoice_id);
+
+  IF FOUND AND (v_invoice.status = 'void' OR invoice_is_posted(v_invoice.status, v_invoice.paid_amount)) THEN
+    RAISE EXCEPTION 'Invoice % has been posted; its lines cannot be changed', v_invoice.invoice_number;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS invoice_items_posting_lock ON invoice_items;
+CREATE TRIGGER invoice_items_posting_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON invoice_items
+  FOR EACH ROW EXECUTE FUNCTION enforce_invoice_items_lock();
+
+-- Credit notes and LPOs (created outside the numbered migrations on some installs)
+CREATE OR REPLACE FUNCTION enforce_credit_note_lock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT credit_note_is_posted(OLD.status, OLD.applied_amount) THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Credit note % has been applied and cannot be deleted', OLD.credit_note_number;
+  END IF;
+
+  IF posted_document_changed(TG_TABLE_NAME, to_jsonb(OLD), to_jsonb(NEW)) THEN
+    RAISE EXCEPTION 'Credit note % has been applied and is read-only', OLD.credit_note_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION enforce_credit_note_items_lock()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_note RECORD;
+BEGIN
+  SELECT credit_note_number, status, applied_amount INTO v_note
+  FROM credit_notes WHERE id = COALESCE(NEW.credit_note_id, OLD.credit_note_id);
+
+  IF FOUND AND credit_note_is_posted(v_note.status, v_note.applied_amount) THEN
+    RAISE EXCEPTION 'Credit note % has been applied; its lines cannot be changed', v_note.credit_note_number;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION enforce_lpo_lock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status::TEXT <> 'received' THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'LPO % has been received and cannot be deleted', OLD.lpo_number;
+  END IF;
+
+  IF posted_document_changed(TG_TABLE_NAME, to_jsonb(OLD), to_jsonb(NEW)) THEN
+    RAISE EXCEPTION 'LPO % has been received and is read-only', OLD.lpo_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION enforce_lpo_items_lock()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_lpo RECORD;
+BEGIN
+  SELECT lpo_number, status INTO v_lpo FROM lpos WHERE id = COALESCE(NEW.lpo_id, OLD.lpo_id);
+
+  IF FOUND AND v_lpo.status::TEXT = 'received' THEN
+    RAISE EXCEPTION 'LPO % has been received; its lines cannot be changed', v_lpo.lpo_number;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+DECLARE
+  t RECORD;
+BEGIN
+  FOR t IN SELECT * FROM (VALUES
+    ('credit_notes', 'credit_notes_posting_lock', 'enforce_credit_note_lock', 'UPDATE OR DELETE'),
+    ('credit_note_items', 'credit_note_items_posting_lock', 'enforce_credit_note_items_lock', 'INSERT OR UPDATE OR DELETE'),
+    ('lpos', 'lpos_posting_lock', 'enforce_lpo_lock', 'UPDATE OR DELETE'),
+    ('lpo_items', 'lpo_items_posting_lock', 'enforce_lpo_items_lock', 'INSERT OR UPDATE OR DELETE')
+  ) AS v(tbl, trigger_name, fn, events)
+  LOOP
+    CONTINUE WHEN to_regclass(t.tbl) IS NULL;
+    EXECUTE format('DROP TRIGGER IF EXISTS %I ON %I', t.trigger_name, t.tbl);
+    EXECUTE format(
+      'CREATE TRIGGER %I BEFORE %s ON %I FOR EACH ROW EXECUTE FUNCTION %I()',
+      t.trigger_name, t.events, t.tbl, t.fn
+    );
+  END LOOP;
+END $$;
+
+-- Voids an invoice in one transaction: puts back the stock it took out, releases payment and
+-- credit note allocations (the payments stay on record as unallocated money), zeroes the balance
+-- and stamps who voided it and why.
+CREATE OR REPLACE FUNCTION void_invoice(p_invoice_id UUID, p_reason TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_invoice RECORD;
+  v_row RECORD;
+  v_restocked INTEGER := 0;
+  v_payments_released NUMERIC := 0;
+  v_credits_released NUMERIC := 0;
+BEGIN
+  IF NULLIF(TRIM(COALESCE(p_reason, '')), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to void an invoice';
+  END IF;
+
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF NOT has_permission('invoice.void', v_invoice.company_id) THEN
+    RAISE EXCEPTION 'You do not have permission to void invoices';
+  END IF;
+
+  IF v_invoice.status = 'void' THEN
+    RAISE EXCEPTION 'Invoice % is already void', v_invoice.invoice_number;
+  END IF;
+
+  -- Net quantity still out per product, including earlier edit reversals
+  FOR v_row IN
+    SELECT product_id,
+      SUM(CASE movement_type WHEN 'OUT' THEN ABS(quantity) WHEN 'IN' THEN -ABS(quantity) ELSE 0 END) AS quantity_out
+    FROM stock_movements
+    WHERE reference_id = p_invoice_id AND reference_type IN ('INVOICE', 'ADJUSTMENT')
+    GROUP BY product_id
+  LOOP
+    CONTINUE WHEN v_row.quantity_out <= 0;
+
+    INSERT INTO stock_movements (company_id, product_id, movement_type, reference_type, reference_id, quantity, notes)
+    VALUES (
+      v_invoice.company_id, v_row.product_id, 'IN', 'INVOICE', p_invoice_id, v_row.quantity_out,
+      format('Reversal for voided invoice %s', v_invoice.invoice_number)
+    );
+    PERFORM update_product_stock(v_row.product_id, 'IN', v_row.quantity_out);
+    v_restocked := v_restocked + 1;
+  END LOOP;
+
+  IF to_regclass('payment_allocations') IS NOT NULL THEN
+    WITH released AS (
+      DELETE FROM payment_allocations WHERE invoice_id = p_invoice_id RETURNING amount_allocated
+    )
+    SELECT COALESCE(SUM(amount_allocated), 0) INTO v_payments_released FROM released;
+  END IF;
+
+  IF to_regclass('credit_note_allocations') IS NOT NULL THEN
+    FOR v_row IN
+      DELETE FROM credit_note_allocations WHERE invoice_id = p_invoice_id
+      RETURNING credit_note_id, allocated_amount
+    LOOP
+      UPDATE credit_notes
+      SET applied_amount = GREATEST(COALESCE(applied_amount, 0) - v_row.allocated_amount, 0),
+          balance = COALESCE(balance, 0) + v_row.allocated_amount,
+          status = CASE WHEN status = 'applied' THEN 'sent' ELSE status END,
+          updated_at = NOW()
+      WHERE id = v_row.credit_note_id;
+      v_credits_released := v_credits_released + v_row.allocated_amount;
+    END LOOP;
+  END IF;
+
+  UPDATE invoices
+  SET status = 'void',
+      paid_amount = 0,
+      balance_due = 0,
+      void_reason = TRIM(p_reason),
+      voided_at = NOW(),
+      voided_by = (SELECT id FROM profiles WHERE id = auth.uid()),
+      updated_at = NOW()
+  WHERE id = p_invoice_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'invoice_id', p_invoice_id,
+    'products_restocked', v_restocked,
+    'payments_released', v_payments_released,
+    'credits_released', v_credits_released
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION void_invoice(UUID, TEXT) TO authenticated;
+
+COMMIT;
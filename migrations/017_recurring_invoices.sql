@@ -0,0 +1,137 @@
+BEGIN;
+
+-- Templates for invoices that are billed on a schedule (equipment hire, maintenance contracts)
+CREATE TABLE IF NOT EXISTS recurring_invoices (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE RESTRICT,
+  name VARCHAR(255) NOT NULL,
+  frequency VARCHAR(20) NOT NULL DEFAULT 'monthly'
+    CHECK (frequency IN ('weekly', 'monthly', 'quarterly', 'yearly')),
+  interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count > 0), -- e.g. every 2 months
+  start_date DATE NOT NULL,
+  end_date DATE,
+  next_run_date DATE, -- NULL once the schedule has finished
+  payment_terms_days INTEGER NOT NULL DEFAULT 30,
+  auto_send BOOLEAN NOT NULL DEFAULT FALSE, -- mark generated invoices as sent instead of leaving drafts
+  affects_inventory BOOLEAN NOT NULL DEFAULT FALSE,
+  lpo_number VARCHAR(100),
+  status VARCHAR(20) NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'paused', 'ended')),
+  subtotal NUMERIC(15,2) DEFAULT 0,
+  tax_amount NUMERIC(15,2) DEFAULT 0,
+  total_amount NUMERIC(15,2) DEFAULT 0,
+  notes TEXT,
+  terms_and_conditions TEXT,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE TABLE IF NOT EXISTS recurring_invoice_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  recurring_invoice_id UUID NOT NULL REFERENCES recurring_invoices(id) ON DELETE CASCADE,
+  product_id UUID REFERENCES products(id),
+  description TEXT NOT NULL,
+  quantity NUMERIC(10,3) NOT NULL DEFAULT 1,
+  unit_price NUMERIC(15,2) NOT NULL DEFAULT 0,
+  discount_before_vat NUMERIC(15,2) DEFAULT 0,
+  tax_percentage NUMERIC(5,2) DEFAULT 0,
+  tax_amount NUMERIC(15,2) DEFAULT 0,
+  tax_inclusive BOOLEAN DEFAULT FALSE,
+  line_total NUMERIC(15,2) NOT NULL DEFAULT 0,
+  sort_order INTEGER DEFAULT 0
+);
+
+-- One row per scheduled billing date. The unique key is what makes generation idempotent: a run
+-- is claimed by inserting its row before the invoice is created, so a second generator (another
+-- tab, another user) loses the insert and skips that date.
+CREATE TABLE IF NOT EXISTS recurring_invoice_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+  recurring_invoice_id UUID NOT NULL REFERENCES recurring_invoices(id) ON DELETE CASCADE,
+  run_date DATE NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'generated', 'failed', 'skipped')),
+  invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+  error_message TEXT,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  claimed_at TIMESTAMPTZ DEFAULT NOW(), -- when a generator last took the run; stale pending runs are taken over
+  completed_at TIMESTAMPTZ,
+  UNIQUE(recurring_invoice_id, run_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_invoices_company_next ON recurring_invoices(company_id, status, next_run_date);
+CREATE INDEX IF NOT EXISTS idx_recurring_invoice_items_parent ON recurring_invoice_items(recurring_invoice_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_invoice_runs_company ON recurring_invoice_runs(company_id, run_date DESC);
+
+-- Each run can produce at most one invoice, even if a generator retries after a partial failure
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS recurring_run_id UUID REFERENCES recurring_invoice_runs(id) ON DELETE SET NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_recurring_run ON invoices(recurring_run_id) WHERE recurring_run_id IS NOT NULL;
+
+-- Access follows invoices: viewing needs invoice.view, maintaining templates and generating needs invoice.create
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['recurring_invoices', 'recurring_invoice_runs'] LOOP
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_select', t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_insert', t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_update', t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_delete', t);
+    EXECUTE format('CREATE POLICY %I ON %I FOR SELECT USING (has_permission(''invoice.view'', company_id))', t || '_select', t);
+    EXECUTE format('CREATE POLICY %I ON %I FOR INSERT WITH CHECK (has_permission(''invoice.create'', company_id))', t || '_insert', t);
+    EXECUTE format('CREATE POLICY %I ON %I FOR UPDATE USING (has_permission(''invoice.create'', company_id))', t || '_update', t);
+    EXECUTE format('CREATE POLICY %I ON %I FOR DELETE USING (has_permission(''invoice.create'', company_id))', t || '_delete', t);
+  END LOOP;
+END $$;
+
+ALTER TABLE recurring_invoice_items ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS recurring_invoice_items_via_parent ON recurring_invoice_items;
+CREATE POLICY recurring_invoice_items_via_parent ON recurring_invoice_items
+  FOR ALL USING (EXISTS (SELECT 1 FROM recurring_invoices parent WHERE parent.id = recurring_invoice_items.recurring_invoice_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM recurring_invoices parent WHERE parent.id = recurring_invoice_items.recurring_invoice_id));
+
+-- Template changes show up in the audit trail alongside the invoices they produce
+DROP TRIGGER IF EXISTS audit_recurring_invoices ON recurring_invoices;
+CREATE TRIGGER audit_recurring_invoices
+  AFTER INSERT OR UPDATE OR DELETE ON recurring_invoices
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_recurring_invoice_items ON recurring_invoice_items;
+CREATE TRIGGER audit_recurring_invoice_items
+  AFTER INSERT OR UPDATE OR DELETE ON recurring_invoice_items
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change('recurring_invoice_id', 'recurring_invoices');
+
+DROP TRIGGER IF EXISTS audit_company_recurring_invoices ON recurring_invoices;
+CREATE TRIGGER audit_company_recurring_invoices
+  BEFORE DELETE ON recurring_invoices
+  FOR EACH ROW EXECUTE FUNCTION audit_remember_company();
+
+CREATE OR REPLACE FUNCTION audit_view_permission(p_entity_type TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE p_entity_type
+    WHEN 'quotations' THEN 'quotation.view'
+    WHEN 'invoices' THEN 'invoice.view'
+    WHEN 'proforma_invoices' THEN 'invoice.view'
+    WHEN 'recurring_invoices' THEN 'invoice.view'
+    WHEN 'credit_notes' THEN 'credit_note.view'
+    WHEN 'payments' THEN 'payment.view'
+    WHEN 'remittance_advice' THEN 'payment.view'
+    WHEN 'delivery_notes' THEN 'delivery_note.view'
+    WHEN 'lpos' THEN 'purchase.view'
+    WHEN 'goods_received_notes' THEN 'purchase.view'
+    WHEN 'suppliers' THEN 'purchase.view'
+    WHEN 'supplier_bills' THEN 'payable.view'
+    WHEN 'supplier_payments' THEN 'payable.view'
+    WHEN 'customers' THEN 'customer.view'
+    WHEN 'products' THEN 'inventory.view'
+    WHEN 'boqs' THEN 'boq.view'
+    ELSE 'audit.view'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+COMMIT;
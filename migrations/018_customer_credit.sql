@@ -0,0 +1,210 @@
+BEGIN;
+
+-- Customer deposits and overpayments: a payment no longer has to be allocated in full to one
+-- invoice. Whatever is not allocated stays on the payment as customer credit (amount minus its
+-- payment_allocations) and can be allocated to invoices later. Voiding an invoice
+-- (016_document_posting.sql) already releases its allocations into this pool.
+
+CREATE TABLE IF NOT EXISTS payment_allocations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  payment_id UUID REFERENCES payments(id) ON DELETE CASCADE,
+  invoice_id UUID REFERENCES invoices(id) ON DELETE CASCADE,
+  amount_allocated NUMERIC(15,2) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_allocations_payment_id ON payment_allocations(payment_id);
+CREATE INDEX IF NOT EXISTS idx_payment_allocations_invoice_id ON payment_allocations(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_payments_customer_id ON payments(customer_id);
+
+-- Money on a payment that has not been allocated to any invoice
+CREATE OR REPLACE FUNCTION payment_unallocated_amount(p_payment_id UUID)
+RETURNS NUMERIC AS $$
+  SELECT p.amount - COALESCE((SELECT SUM(pa.amount_allocated) FROM payment_allocations pa WHERE pa.payment_id = p.id), 0)
+  FROM payments p
+  WHERE p.id = p_payment_id;
+$$ LANGUAGE sql STABLE;
+
+-- Allocates part of a payment to one invoice and moves the invoice balance. Callers lock both
+-- rows and validate the amount first.
+CREATE OR REPLACE FUNCTION apply_payment_allocation(p_payment_id UUID, p_invoice_id UUID, p_amount NUMERIC)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO payment_allocations (payment_id, invoice_id, amount_allocated)
+  VALUES (p_payment_id, p_invoice_id, p_amount);
+
+  UPDATE invoices
+  SET paid_amount = COALESCE(paid_amount, 0) + p_amount,
+      balance_due = total_amount - (COALESCE(paid_amount, 0) + p_amount),
+      status = CASE
+        WHEN (COALESCE(paid_amount, 0) + p_amount) >= total_amount THEN 'paid'
+        WHEN (COALESCE(paid_amount, 0) + p_amount) > 0 THEN 'partial'
+        ELSE status
+      END,
+      updated_at = NOW()
+  WHERE id = p_invoice_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Replaces every earlier signature (the payment_method parameter was an enum in some installs)
+DO $$
+DECLARE
+  v_signature TEXT;
+BEGIN
+  FOR v_signature IN
+    SELECT p.oid::regprocedure::TEXT FROM pg_proc p
+    JOIN pg_namespace n ON n.oid = p.pronamespace
+    WHERE n.nspname = 'public' AND p.proname = 'record_payment_with_allocation'
+  LOOP
+    EXECUTE 'DROP FUNCTION ' || v_signature;
+  END LOOP;
+END $$;
+
+-- Records a payment and allocates it to p_invoice_id up to the invoice's balance. With no invoice
+-- the whole payment is a deposit; anything over the balance is kept as customer credit. Negative
+-- amounts (refunds and adjustments) are still allocated in full to the invoice they correct.
+CREATE OR REPLACE FUNCTION record_payment_with_allocation(
+  p_company_id UUID,
+  p_customer_id UUID,
+  p_invoice_id UUID,
+  p_payment_number VARCHAR,
+  p_payment_date DATE,
+  p_amount NUMERIC,
+  p_payment_method VARCHAR,
+  p_reference_number VARCHAR,
+  p_notes TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_invoice RECORD;
+  v_payment_id UUID;
+  v_customer_id UUID := p_customer_id;
+  v_allocated NUMERIC := 0;
+BEGIN
+  IF NOT has_permission('payment.record', p_company_id) THEN
+    RAISE EXCEPTION 'You do not have permission to record payments';
+  END IF;
+
+  IF p_invoice_id IS NOT NULL THEN
+    SELECT * INTO v_invoice FROM invoices
+    WHERE id = p_invoice_id AND company_id = p_company_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Invoice not found');
+    END IF;
+
+    IF v_invoice.status = 'void' THEN
+      RETURN jsonb_build_object('success', false, 'error', format('Invoice %s is void and cannot take payments', v_invoice.invoice_number));
+    END IF;
+
+    v_customer_id := COALESCE(v_customer_id, v_invoice.customer_id);
+    v_allocated := CASE
+      WHEN p_amount < 0 THEN p_amount
+      ELSE LEAST(p_amount, GREATEST(COALESCE(v_invoice.balance_due, v_invoice.total_amount - COALESCE(v_invoice.paid_amount, 0)), 0))
+    END;
+  ELSIF p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A payment without an invoice must be a positive amount');
+  END IF;
+
+  IF v_customer_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Select the customer this payment is from');
+  END IF;
+
+  INSERT INTO payments (
+    company_id, customer_id, payment_number, payment_date,
+    amount, payment_method, reference_number, notes
+  ) VALUES (
+    p_company_id, v_customer_id, p_payment_number, p_payment_date,
+    p_amount, p_payment_method, p_reference_number, p_notes
+  ) RETURNING id INTO v_payment_id;
+
+  IF v_allocated <> 0 THEN
+    PERFORM apply_payment_allocation(v_payment_id, p_invoice_id, v_allocated);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'payment_id', v_payment_id,
+    'invoice_id', p_invoice_id,
+    'amount_allocated', v_allocated,
+    'unallocated_amount', p_amount - v_allocated,
+    'invoice_balance', CASE WHEN p_invoice_id IS NULL THEN NULL
+      ELSE v_invoice.total_amount - (COALESCE(v_invoice.paid_amount, 0) + v_allocated) END
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Allocates a payment's unallocated credit across one or more invoices of the same customer.
+-- p_allocations is a JSON array of {invoice_id, amount}. The payment row is locked, so two users
+-- allocating the same credit at once cannot spend it twice.
+CREATE OR REPLACE FUNCTION allocate_payment(p_payment_id UUID, p_allocations JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_payment RECORD;
+  v_invoice RECORD;
+  v_line RECORD;
+  v_available NUMERIC;
+  v_balance NUMERIC;
+  v_total NUMERIC := 0;
+BEGIN
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF NOT has_permission('payment.record', v_payment.company_id) THEN
+    RAISE EXCEPTION 'You do not have permission to allocate payments';
+  END IF;
+
+  IF p_allocations IS NULL OR jsonb_typeof(p_allocations) <> 'array' OR jsonb_array_length(p_allocations) = 0 THEN
+    RAISE EXCEPTION 'Nothing to allocate';
+  END IF;
+
+  v_available := payment_unallocated_amount(p_payment_id);
+
+  FOR v_line IN
+    SELECT (e->>'invoice_id')::UUID AS invoice_id, ROUND((e->>'amount')::NUMERIC, 2) AS amount
+    FROM jsonb_array_elements(p_allocations) e
+  LOOP
+    IF v_line.amount IS NULL OR v_line.amount <= 0 THEN
+      RAISE EXCEPTION 'Allocation amounts must be greater than zero';
+    END IF;
+
+    SELECT * INTO v_invoice FROM invoices WHERE id = v_line.invoice_id FOR UPDATE;
+    IF NOT FOUND OR v_invoice.company_id <> v_payment.company_id THEN
+      RAISE EXCEPTION 'Invoice not found';
+    END IF;
+    IF v_payment.customer_id IS NOT NULL AND v_invoice.customer_id <> v_payment.customer_id THEN
+      RAISE EXCEPTION 'Invoice % belongs to a different customer', v_invoice.invoice_number;
+    END IF;
+    IF v_invoice.status = 'void' THEN
+      RAISE EXCEPTION 'Invoice % is void', v_invoice.invoice_number;
+    END IF;
+
+    v_balance := COALESCE(v_invoice.balance_due, v_invoice.total_amount - COALESCE(v_invoice.paid_amount, 0));
+    IF v_line.amount > v_balance THEN
+      RAISE EXCEPTION 'Allocation of % to invoice % exceeds its balance of %', v_line.amount, v_invoice.invoice_number, v_balance;
+    END IF;
+
+    v_total := v_total + v_line.amount;
+    IF v_total > v_available THEN
+      RAISE EXCEPTION 'Allocations total % but only % of this payment is unallocated', v_total, v_available;
+    END IF;
+
+    PERFORM apply_payment_allocation(p_payment_id, v_line.invoice_id, v_line.amount);
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'payment_id', p_payment_id,
+    'amount_allocated', v_total,
+    'unallocated_amount', v_available - v_total
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION record_payment_with_allocation(UUID, UUID, UUID, VARCHAR, DATE, NUMERIC, VARCHAR, VARCHAR, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION allocate_payment(UUID, JSONB) TO authenticated;
+
+COMMIT;
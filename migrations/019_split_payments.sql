@@ -0,0 +1,121 @@
+BEGIN;
+
+-- One payment split across several invoices: clients often settle a batch of invoices with a
+-- single bank transfer. record_payment_with_allocation takes an optional p_allocations array of
+-- {invoice_id, amount}; the payment row and every allocation are written in one transaction, so
+-- a rejected allocation leaves no orphaned payment behind. Whatever is not allocated stays on the
+-- payment as customer credit (018_customer_credit.sql).
+
+DROP FUNCTION IF EXISTS record_payment_with_allocation(UUID, UUID, UUID, VARCHAR, DATE, NUMERIC, VARCHAR, VARCHAR, TEXT);
+
+CREATE OR REPLACE FUNCTION record_payment_with_allocation(
+  p_company_id UUID,
+  p_customer_id UUID,
+  p_invoice_id UUID,
+  p_payment_number VARCHAR,
+  p_payment_date DATE,
+  p_amount NUMERIC,
+  p_payment_method VARCHAR,
+  p_reference_number VARCHAR,
+  p_notes TEXT,
+  p_allocations JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_invoice RECORD;
+  v_payment_id UUID;
+  v_customer_id UUID := p_customer_id;
+  v_allocated NUMERIC := 0;
+  v_split JSONB;
+BEGIN
+  IF NOT has_permission('payment.record', p_company_id) THEN
+    RAISE EXCEPTION 'You do not have permission to record payments';
+  END IF;
+
+  -- Split payment: allocate_payment() checks each line against the invoice balance, the
+  -- customer, and the running total against the payment amount
+  IF p_allocations IS NOT NULL AND jsonb_typeof(p_allocations) = 'array' AND jsonb_array_length(p_allocations) > 0 THEN
+    IF p_invoice_id IS NOT NULL THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Pass either one invoice or a list of allocations, not both');
+    END IF;
+    IF p_amount <= 0 THEN
+      RETURN jsonb_build_object('success', false, 'error', 'A payment split across invoices must be a positive amount');
+    END IF;
+    IF v_customer_id IS NULL THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Select the customer this payment is from');
+    END IF;
+
+    INSERT INTO payments (
+      company_id, customer_id, payment_number, payment_date,
+      amount, payment_method, reference_number, notes
+    ) VALUES (
+      p_company_id, v_customer_id, p_payment_number, p_payment_date,
+      p_amount, p_payment_method, p_reference_number, p_notes
+    ) RETURNING id INTO v_payment_id;
+
+    v_split := allocate_payment(v_payment_id, p_allocations);
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'payment_id', v_payment_id,
+      'invoice_id', NULL,
+      'invoice_ids', (SELECT jsonb_agg(e->>'invoice_id') FROM jsonb_array_elements(p_allocations) e),
+      'amount_allocated', v_split->'amount_allocated',
+      'unallocated_amount', v_split->'unallocated_amount',
+      'invoice_balance', NULL
+    );
+  END IF;
+
+  IF p_invoice_id IS NOT NULL THEN
+    SELECT * INTO v_invoice FROM invoices
+    WHERE id = p_invoice_id AND company_id = p_company_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Invoice not found');
+    END IF;
+
+    IF v_invoice.status = 'void' THEN
+      RETURN jsonb_build_object('success', false, 'error', format('Invoice %s is void and cannot take payments', v_invoice.invoice_number));
+    END IF;
+
+    v_customer_id := COALESCE(v_customer_id, v_invoice.customer_id);
+    v_allocated := CASE
+      WHEN p_amount < 0 THEN p_amount
+      ELSE LEAST(p_amount, GREATEST(COALESCE(v_invoice.balance_due, v_invoice.total_amount - COALESCE(v_invoice.paid_amount, 0)), 0))
+    END;
+  ELSIF p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A payment without an invoice must be a positive amount');
+  END IF;
+
+  IF v_customer_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Select the customer this payment is from');
+  END IF;
+
+  INSERT INTO payments (
+    company_id, customer_id, payment_number, payment_date,
+    amount, payment_method, reference_number, notes
+  ) VALUES (
+    p_company_id, v_customer_id, p_payment_number, p_payment_date,
+    p_amount, p_payment_method, p_reference_number, p_notes
+  ) RETURNING id INTO v_payment_id;
+
+  IF v_allocated <> 0 THEN
+    PERFORM apply_payment_allocation(v_payment_id, p_invoice_id, v_allocated);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'payment_id', v_payment_id,
+    'invoice_id', p_invoice_id,
+    'amount_allocated', v_allocated,
+    'unallocated_amount', p_amount - v_allocated,
+    'invoice_balance', CASE WHEN p_invoice_id IS NULL THEN NULL
+      ELSE v_invoice.total_amount - (COALESCE(v_invoice.paid_amount, 0) + v_allocated) END
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION record_payment_with_allocation(UUID, UUID, UUID, VARCHAR, DATE, NUMERIC, VARCHAR, VARCHAR, TEXT, JSONB) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,241 @@
+BEGIN;
+
+-- Bank reconciliation: statements imported from CSV or OFX files are stored line by line per bank
+-- account. Credits are matched to recorded customer payments; a reconciliation closes every line
+-- up to a statement date once the statement balance agrees with the imported transactions.
+
+CREATE TABLE IF NOT EXISTS bank_accounts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+  account_name VARCHAR(255) NOT NULL,
+  bank_name VARCHAR(255),
+  account_number VARCHAR(100),
+  currency VARCHAR(3) NOT NULL DEFAULT 'KES',
+  opening_balance NUMERIC(15,2) NOT NULL DEFAULT 0, -- balance before the first imported transaction
+  last_reconciled_date DATE,
+  last_reconciled_balance NUMERIC(15,2),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Which account a receipt was banked into; set when a payment is matched to a statement line
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS bank_account_id UUID REFERENCES bank_accounts(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS bank_statements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+  bank_account_id UUID NOT NULL REFERENCES bank_accounts(id) ON DELETE CASCADE,
+  file_name VARCHAR(255),
+  file_format VARCHAR(10) NOT NULL CHECK (file_format IN ('csv', 'ofx')),
+  period_start DATE,
+  period_end DATE,
+  closing_balance NUMERIC(15,2),
+  line_count INTEGER NOT NULL DEFAULT 0,
+  imported_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS bank_reconciliations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+  bank_account_id UUID NOT NULL REFERENCES bank_accounts(id) ON DELETE CASCADE,
+  statement_date DATE NOT NULL,
+  statement_balance NUMERIC(15,2) NOT NULL,
+  opening_balance NUMERIC(15,2) NOT NULL,   -- last reconciled balance (or the account opening balance)
+  total_credits NUMERIC(15,2) NOT NULL DEFAULT 0,
+  total_debits NUMERIC(15,2) NOT NULL DEFAULT 0,
+  line_count INTEGER NOT NULL DEFAULT 0,
+  notes TEXT,
+  reconciled_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(bank_account_id, statement_date)
+);
+
+-- amount is signed: credits (money in) are positive, debits negative
+CREATE TABLE IF NOT EXISTS bank_statement_lines (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+  bank_account_id UUID NOT NULL REFERENCES bank_accounts(id) ON DELETE CASCADE,
+  statement_id UUID REFERENCES bank_statements(id) ON DELETE CASCADE,
+  transaction_date DATE NOT NULL,
+  description TEXT,
+  reference VARCHAR(255),
+  amount NUMERIC(15,2) NOT NULL,
+  running_balance NUMERIC(15,2),
+  external_id VARCHAR(255) NOT NULL, -- OFX FITID, or a fingerprint of the CSV row
+  status VARCHAR(20) NOT NULL DEFAULT 'unmatched'
+    CHECK (status IN ('unmatched', 'matched', 'ignored')),
+  payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+  match_method VARCHAR(20) CHECK (match_method IN ('auto', 'manual', 'created')),
+  matched_at TIMESTAMPTZ,
+  reconciliation_id UUID REFERENCES bank_reconciliations(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  -- Re-importing an overlapping statement skips lines already on file
+  UNIQUE(bank_account_id, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_accounts_company ON bank_accounts(company_id);
+CREATE INDEX IF NOT EXISTS idx_bank_statements_account ON bank_statements(bank_account_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_account_date ON bank_statement_lines(bank_account_id, transaction_date);
+CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_payment ON bank_statement_lines(payment_id);
+CREATE INDEX IF NOT EXISTS idx_bank_reconciliations_account ON bank_reconciliations(bank_account_id, statement_date DESC);
+-- A payment can clear through the bank only once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bank_statement_lines_unique_payment ON bank_statement_lines(payment_id) WHERE payment_id IS NOT NULL;
+
+-- Access follows payments: viewing needs payment.view, importing and matching needs payment.record
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['bank_accounts', 'bank_statements', 'bank_statement_lines', 'bank_reconciliations'] LOOP
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_select', t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_insert', t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_update', t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_delete', t);
+    EXECUTE format('CREATE POLICY %I ON %I FOR SELECT USING (has_permission(''payment.view'', company_id))', t || '_select', t);
+    EXECUTE format('CREATE POLICY %I ON %I FOR INSERT WITH CHECK (has_permission(''payment.record'', company_id))', t || '_insert', t);
+    EXECUTE format('CREATE POLICY %I ON %I FOR UPDATE USING (has_permission(''payment.record'', company_id))', t || '_update', t);
+    EXECUTE format('CREATE POLICY %I ON %I FOR DELETE USING (has_permission(''payment.record'', company_id))', t || '_delete', t);
+  END LOOP;
+END $$;
+
+-- Reconciled lines are closed: their match can no longer change
+CREATE OR REPLACE FUNCTION protect_reconciled_statement_line()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.reconciliation_id IS NOT NULL THEN
+    IF TG_OP = 'DELETE' THEN
+      RAISE EXCEPTION 'Statement line of % has been reconciled and cannot be deleted', OLD.transaction_date;
+    END IF;
+    IF NEW.status IS DISTINCT FROM OLD.status OR NEW.payment_id IS DISTINCT FROM OLD.payment_id
+      OR NEW.amount IS DISTINCT FROM OLD.amount OR NEW.transaction_date IS DISTINCT FROM OLD.transaction_date THEN
+      RAISE EXCEPTION 'Statement line of % has been reconciled and cannot be changed', OLD.transaction_date;
+    END IF;
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_reconciled_statement_line ON bank_statement_lines;
+CREATE TRIGGER protect_reconciled_statement_line
+  BEFORE UPDATE OR DELETE ON bank_statement_lines
+  FOR EACH ROW EXECUTE FUNCTION protect_reconciled_statement_line();
+
+-- Closes every unreconciled line up to p_statement_date. Refuses while a credit is still
+-- unmatched, or when the opening balance plus the lines does not come to the statement balance
+-- (usually a statement that was only partly imported).
+CREATE OR REPLACE FUNCTION complete_bank_reconciliation(
+  p_bank_account_id UUID,
+  p_statement_date DATE,
+  p_statement_balance NUMERIC,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_account RECORD;
+  v_opening NUMERIC;
+  v_credits NUMERIC;
+  v_debits NUMERIC;
+  v_count INTEGER;
+  v_unmatched INTEGER;
+  v_reconciliation_id UUID;
+BEGIN
+  SELECT * INTO v_account FROM bank_accounts WHERE id = p_bank_account_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank account not found';
+  END IF;
+
+  IF NOT has_permission('payment.record', v_account.company_id) THEN
+    RAISE EXCEPTION 'You do not have permission to reconcile bank accounts';
+  END IF;
+
+  IF v_account.last_reconciled_date IS NOT NULL AND p_statement_date <= v_account.last_reconciled_date THEN
+    RAISE EXCEPTION 'This account is already reconciled to %', v_account.last_reconciled_date;
+  END IF;
+
+  SELECT COUNT(*) INTO v_unmatched FROM bank_statement_lines
+  WHERE bank_account_id = p_bank_account_id AND reconciliation_id IS NULL
+    AND transaction_date <= p_statement_date AND amount > 0 AND status = 'unmatched';
+  IF v_unmatched > 0 THEN
+    RAISE EXCEPTION '% credit(s) up to % are not matched to a payment. Match, record or ignore them first.', v_unmatched, p_statement_date;
+  END IF;
+
+  SELECT COALESCE(SUM(amount) FILTER (WHERE amount > 0), 0), COALESCE(SUM(-amount) FILTER (WHERE amount < 0), 0), COUNT(*)
+  INTO v_credits, v_debits, v_count
+  FROM bank_statement_lines
+  WHERE bank_account_id = p_bank_account_id AND reconciliation_id IS NULL AND transaction_date <= p_statement_date;
+
+  v_opening := COALESCE(v_account.last_reconciled_balance, v_account.opening_balance);
+  IF ROUND(v_opening + v_credits - v_debits, 2) <> ROUND(p_statement_balance, 2) THEN
+    RAISE EXCEPTION 'Statement balance % does not agree with the opening balance % plus imported transactions (%). Import any missing transactions first.',
+      p_statement_balance, v_opening, ROUND(v_opening + v_credits - v_debits, 2);
+  END IF;
+
+  INSERT INTO bank_reconciliations (
+    company_id, bank_account_id, statement_date, statement_balance, opening_balance,
+    total_credits, total_debits, line_count, notes, reconciled_by
+  ) VALUES (
+    v_account.company_id, p_bank_account_id, p_statement_date, p_statement_balance, v_opening,
+    v_credits, v_debits, v_count, p_notes, auth.uid()
+  ) RETURNING id INTO v_reconciliation_id;
+
+  UPDATE bank_statement_lines
+  SET reconciliation_id = v_reconciliation_id
+  WHERE bank_account_id = p_bank_account_id AND reconciliation_id IS NULL AND transaction_date <= p_statement_date;
+
+  UPDATE bank_accounts
+  SET last_reconciled_date = p_statement_date,
+      last_reconciled_balance = p_statement_balance,
+      updated_at = NOW()
+  WHERE id = p_bank_account_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'reconciliation_id', v_reconciliation_id,
+    'line_count', v_count,
+    'total_credits', v_credits,
+    'total_debits', v_debits
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION complete_bank_reconciliation(UUID, DATE, NUMERIC, TEXT) TO authenticated;
+
+DROP TRIGGER IF EXISTS audit_bank_accounts ON bank_accounts;
+CREATE TRIGGER audit_bank_accounts
+  AFTER INSERT OR UPDATE OR DELETE ON bank_accounts
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_bank_reconciliations ON bank_reconciliations;
+CREATE TRIGGER audit_bank_reconciliations
+  AFTER INSERT OR UPDATE OR DELETE ON bank_reconciliations
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+CREATE OR REPLACE FUNCTION audit_view_permission(p_entity_type TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE p_entity_type
+    WHEN 'quotations' THEN 'quotation.view'
+    WHEN 'invoices' THEN 'invoice.view'
+    WHEN 'proforma_invoices' THEN 'invoice.view'
+    WHEN 'recurring_invoices' THEN 'invoice.view'
+    WHEN 'credit_notes' THEN 'credit_note.view'
+    WHEN 'payments' THEN 'payment.view'
+    WHEN 'remittance_advice' THEN 'payment.view'
+    WHEN 'bank_accounts' THEN 'payment.view'
+    WHEN 'bank_reconciliations' THEN 'payment.view'
+    WHEN 'delivery_notes' THEN 'delivery_note.view'
+    WHEN 'lpos' THEN 'purchase.view'
+    WHEN 'goods_received_notes' THEN 'purchase.view'
+    WHEN 'suppliers' THEN 'purchase.view'
+    WHEN 'supplier_bills' THEN 'payable.view'
+    WHEN 'supplier_payments' THEN 'payable.view'
+    WHEN 'customers' THEN 'customer.view'
+    WHEN 'products' THEN 'inventory.view'
+    WHEN 'boqs' THEN 'boq.view'
+    ELSE 'audit.view'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+COMMIT;
@@ -0,0 +1,55 @@
+BEGIN;
+
+-- M-Pesa paybill receipts. Lines from a paybill statement export and C2B confirmation callbacks
+-- land in the same table, one row per M-Pesa receipt number. A receipt becomes a customer payment
+-- (reference_number = receipt number) once it is matched to an invoice or customer and recorded.
+
+-- Paybill short code the company collects on; C2B callbacks are routed to a company by it
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS mpesa_paybill_number VARCHAR(20);
+
+CREATE TABLE IF NOT EXISTS mpesa_transactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+  receipt_number VARCHAR(30) NOT NULL,
+  transaction_time TIMESTAMPTZ NOT NULL,
+  amount NUMERIC(15,2) NOT NULL CHECK (amount > 0),
+  account_reference VARCHAR(100),  -- what the customer typed as the paybill account number
+  payer_name VARCHAR(255),
+  payer_phone VARCHAR(30),         -- masked by Safaricom in statements and callbacks
+  paybill_number VARCHAR(20),
+  source VARCHAR(20) NOT NULL DEFAULT 'statement' CHECK (source IN ('statement', 'c2b')),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'recorded', 'duplicate', 'ignored')),
+  payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,  -- the payment created, or the one it duplicates
+  invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+  customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+  raw_payload JSONB,
+  imported_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  processed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  -- A receipt is only ever taken in once, whichever way it arrived
+  UNIQUE(company_id, receipt_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mpesa_transactions_company_status ON mpesa_transactions(company_id, status, transaction_time DESC);
+CREATE INDEX IF NOT EXISTS idx_payments_reference_number ON payments(company_id, reference_number);
+
+-- Access follows payments: viewing needs payment.view, importing and recording needs payment.record
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['mpesa_transactions'] LOOP
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_select', t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_insert', t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_update', t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_delete', t);
+    EXECUTE format('CREATE POLICY %I ON %I FOR SELECT USING (has_permission(''payment.view'', company_id))', t || '_select', t);
+    EXECUTE format('CREATE POLICY %I ON %I FOR INSERT WITH CHECK (has_permission(''payment.record'', company_id))', t || '_insert', t);
+    EXECUTE format('CREATE POLICY %I ON %I FOR UPDATE USING (has_permission(''payment.record'', company_id))', t || '_update', t);
+    EXECUTE format('CREATE POLICY %I ON %I FOR DELETE USING (has_permission(''payment.record'', company_id))', t || '_delete', t);
+  END LOOP;
+END $$;
+
+COMMIT;
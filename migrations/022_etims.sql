@@ -0,0 +1,134 @@
+BEGIN;
+
+-- KRA eTIMS: invoices and credit notes carry the control unit (CU) data returned when the document
+-- is submitted. With eTIMS switched on for a company an invoice cannot leave draft until the
+-- control unit has accepted it; failed submissions wait in etims_submissions to be retried.
+
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS etims_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS etims_adapter VARCHAR(30) NOT NULL DEFAULT 'stub';
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS etims_branch_id VARCHAR(10) NOT NULL DEFAULT '00';
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS etims_device_serial VARCHAR(50);
+
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['invoices', 'credit_notes'] LOOP
+    EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS etims_status VARCHAR(20) CHECK (etims_status IN (''queued'', ''submitted''))', t);
+    EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS etims_cu_serial_number VARCHAR(50)', t);
+    EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS etims_cu_invoice_number VARCHAR(100)', t);
+    EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS etims_signature VARCHAR(255)', t);
+    EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS etims_qr_code TEXT', t);
+    EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS etims_submitted_at TIMESTAMPTZ', t);
+  END LOOP;
+END $$;
+
+-- Submissions to the control unit; a 'queued' row failed and is waiting to be retried
+CREATE TABLE IF NOT EXISTS etims_submissions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+  document_type VARCHAR(20) NOT NULL CHECK (document_type IN ('invoice', 'credit_note')),
+  document_id UUID NOT NULL,
+  document_number VARCHAR(100) NOT NULL,
+  adapter VARCHAR(30) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'submitted', 'abandoned')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TIMESTAMPTZ,
+  payload JSONB,
+  payload_digest VARCHAR(64),    -- SHA-256 of the canonical payload the adapter signed
+  response JSONB,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  submitted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_etims_submissions_company_status ON etims_submissions(company_id, status, next_attempt_at);
+-- A document waits in the queue at most once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_etims_submissions_one_queued
+  ON etims_submissions(document_type, document_id) WHERE status = 'queued';
+
+-- Submitting follows the document: invoice.create for invoices, credit_note.create for credit notes
+ALTER TABLE etims_submissions ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS etims_submissions_select ON etims_submissions;
+DROP POLICY IF EXISTS etims_submissions_insert ON etims_submissions;
+DROP POLICY IF EXISTS etims_submissions_update ON etims_submissions;
+CREATE POLICY etims_submissions_select ON etims_submissions FOR SELECT
+  USING (has_permission('invoice.view', company_id) OR has_permission('credit_note.view', company_id));
+CREATE POLICY etims_submissions_insert ON etims_submissions FOR INSERT
+  WITH CHECK (has_permission(CASE document_type WHEN 'invoice' THEN 'invoice.create' ELSE 'credit_note.create' END, company_id));
+CREATE POLICY etims_submissions_update ON etims_submissions FOR UPDATE
+  USING (has_permission(CASE document_type WHEN 'invoice' THEN 'invoice.create' ELSE 'credit_note.create' END, company_id));
+
+-- CU data arrives after a credit note is applied, or after a failed invoice is retried, so the
+-- eTIMS columns stay writable on posted documents (see migrations/016_document_posting.sql).
+-- 'void_invoices' is what may still change once an invoice is void: only its eTIMS state, so an
+-- abandoned submission can be cleared.
+CREATE OR REPLACE FUNCTION posted_document_mutable_columns(p_table TEXT)
+RETURNS TEXT[] AS $$
+  SELECT CASE p_table
+    WHEN 'invoices' THEN ARRAY['status', 'paid_amount', 'balance_due', 'void_reason', 'voided_at', 'voided_by', 'updated_at',
+      'etims_status', 'etims_cu_serial_number', 'etims_cu_invoice_number', 'etims_signature', 'etims_qr_code', 'etims_submitted_at']
+    WHEN 'void_invoices' THEN ARRAY['updated_at',
+      'etims_status', 'etims_cu_serial_number', 'etims_cu_invoice_number', 'etims_signature', 'etims_qr_code', 'etims_submitted_at']
+    WHEN 'credit_notes' THEN ARRAY['status', 'applied_amount', 'balance', 'updated_at',
+      'etims_status', 'etims_cu_serial_number', 'etims_cu_invoice_number', 'etims_signature', 'etims_qr_code', 'etims_submitted_at']
+    WHEN 'lpos' THEN ARRAY['status', 'updated_at']
+    ELSE ARRAY['updated_at']
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION enforce_invoice_lock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'void' THEN
+    IF TG_OP = 'UPDATE' AND NOT posted_document_changed('void_invoices', to_jsonb(OLD), to_jsonb(NEW)) THEN
+      RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'Invoice % is void and cannot be changed', OLD.invoice_number;
+  END IF;
+
+  IF NOT invoice_is_posted(OLD.status, OLD.paid_amount) THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Invoice % has been posted and cannot be deleted; void it instead', OLD.invoice_number;
+  END IF;
+
+  IF NEW.status = 'draft' THEN
+    RAISE EXCEPTION 'Invoice % has been posted and cannot return to draft', OLD.invoice_number;
+  END IF;
+
+  IF posted_document_changed(TG_TABLE_NAME, to_jsonb(OLD), to_jsonb(NEW)) THEN
+    RAISE EXCEPTION 'Invoice % has been posted and is read-only; raise a credit note to correct it', OLD.invoice_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- An invoice of an eTIMS company is only posted (sent, paid, ...) with a CU invoice number
+CREATE OR REPLACE FUNCTION enforce_etims_before_posting()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IN ('draft', 'void') OR NEW.etims_cu_invoice_number IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND OLD.status <> 'draft' THEN
+    RETURN NEW;
+  END IF;
+  IF EXISTS (SELECT 1 FROM companies WHERE id = NEW.company_id AND etims_enabled) THEN
+    RAISE EXCEPTION 'Invoice % has not been accepted by KRA eTIMS and must stay in draft until it is', NEW.invoice_number;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_etims_before_posting ON invoices;
+CREATE TRIGGER enforce_etims_before_posting
+  BEFORE INSERT OR UPDATE ON invoices
+  FOR EACH ROW EXECUTE FUNCTION enforce_etims_before_posting();
+
+COMMIT;
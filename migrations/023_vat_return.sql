@@ -0,0 +1,14 @@
+BEGIN;
+
+-- VAT returns (src/pages/reports/VatReturn.tsx) need their own permission: they read sales and
+-- purchase documents together. Accountants get it by default, as in src/utils/permissions.ts.
+INSERT INTO role_permissions (role, permission_name)
+VALUES ('accountant'::user_role, 'report.tax')
+ON CONFLICT DO NOTHING;
+
+-- The return is read a month at a time
+CREATE INDEX IF NOT EXISTS idx_invoices_company_date ON invoices(company_id, invoice_date);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_company_date ON credit_notes(company_id, credit_note_date);
+CREATE INDEX IF NOT EXISTS idx_supplier_bills_company_date ON supplier_bills(company_id, bill_date);
+
+COMMIT;
@@ -0,0 +1,757 @@
+BEGIN;
+
+-- Double-entry general ledger. Posting an invoice, credit note, customer payment, stock movement,
+-- supplier bill or supplier payment writes a balanced journal entry from triggers, so every code
+-- path (the app, RPCs, scripts/mpesa_c2b_mock.cjs) posts the same way. Which account a line goes
+-- to comes from gl_account_mappings: per tax rate, payment method and product category, falling
+-- back to the company's control accounts. Journals are never edited: voids, cancellations and
+-- deletions post a reversing entry.
+
+CREATE TABLE IF NOT EXISTS gl_accounts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+  code VARCHAR(20) NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  account_type VARCHAR(20) NOT NULL CHECK (account_type IN ('asset', 'liability', 'equity', 'income', 'expense')),
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  is_system BOOLEAN NOT NULL DEFAULT FALSE,   -- seeded accounts; can be renamed but not deleted
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(company_id, code)
+);
+
+-- mapping_type / mapping_key:
+--   control            receivables, payables, sales, sales_returns, vat_output, vat_input, inventory,
+--                      cogs, purchases, grni, stock_adjustment, bank
+--   tax_rate           rate as text ('16', '8')          output VAT account for that rate
+--   payment_method     cash, bank_transfer, mobile_money, mpesa, cheque, card
+--   category_sales / category_inventory / category_cogs   product_categories.id
+CREATE TABLE IF NOT EXISTS gl_account_mappings (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+  mapping_type VARCHAR(30) NOT NULL
+    CHECK (mapping_type IN ('control', 'tax_rate', 'payment_method', 'category_sales', 'category_inventory', 'category_cogs')),
+  mapping_key VARCHAR(100) NOT NULL,
+  account_id UUID NOT NULL REFERENCES gl_accounts(id) ON DELETE RESTRICT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(company_id, mapping_type, mapping_key)
+);
+
+CREATE SEQUENCE IF NOT EXISTS journal_entry_number_seq;
+
+CREATE TABLE IF NOT EXISTS journal_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+  entry_number VARCHAR(30) NOT NULL DEFAULT 'JE-' || lpad(nextval('journal_entry_number_seq')::TEXT, 6, '0'),
+  entry_date DATE NOT NULL,
+  description TEXT,
+  source_type VARCHAR(30) NOT NULL
+    CHECK (source_type IN ('invoice', 'credit_note', 'payment', 'stock_movement', 'supplier_bill', 'supplier_payment')),
+  source_id UUID NOT NULL,
+  source_number VARCHAR(100),
+  status VARCHAR(20) NOT NULL DEFAULT 'posted' CHECK (status IN ('posted', 'reversed')),
+  reverses_entry_id UUID REFERENCES journal_entries(id),
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_company_date ON journal_entries(company_id, entry_date);
+CREATE INDEX IF NOT EXISTS idx_journal_entries_source ON journal_entries(source_type, source_id);
+-- A document has at most one live posting; reposting needs the previous one reversed first
+CREATE UNIQUE INDEX IF NOT EXISTS idx_journal_entries_one_live_posting
+  ON journal_entries(source_type, source_id) WHERE status = 'posted' AND reverses_entry_id IS NULL;
+
+CREATE TABLE IF NOT EXISTS journal_lines (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  entry_id UUID NOT NULL REFERENCES journal_entries(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES gl_accounts(id) ON DELETE RESTRICT,
+  debit NUMERIC(15,2) NOT NULL DEFAULT 0 CHECK (debit >= 0),
+  credit NUMERIC(15,2) NOT NULL DEFAULT 0 CHECK (credit >= 0),
+  description TEXT,
+  customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,   -- receivables sub-ledger
+  supplier_id UUID REFERENCES suppliers(id) ON DELETE SET NULL,   -- payables sub-ledger
+  sort_order INTEGER DEFAULT 0,
+  CHECK (debit = 0 OR credit = 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_journal_lines_entry ON journal_lines(entry_id);
+CREATE INDEX IF NOT EXISTS idx_journal_lines_account ON journal_lines(account_id);
+
+-- Default chart of accounts and mappings; existing rows are left alone
+CREATE OR REPLACE FUNCTION gl_seed_chart(p_company_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO gl_accounts (company_id, code, name, account_type, is_system)
+  VALUES
+    (p_company_id, '1000', 'Cash on Hand', 'asset', TRUE),
+    (p_company_id, '1010', 'Bank', 'asset', TRUE),
+    (p_company_id, '1020', 'M-Pesa', 'asset', TRUE),
+    (p_company_id, '1100', 'Accounts Receivable', 'asset', TRUE),
+    (p_company_id, '1200', 'Inventory', 'asset', TRUE),
+    (p_company_id, '1300', 'VAT Input', 'asset', TRUE),
+    (p_company_id, '2000', 'Accounts Payable', 'liability', TRUE),
+    (p_company_id, '2050', 'Goods Received Not Invoiced', 'liability', TRUE),
+    (p_company_id, '2100', 'VAT Output', 'liability', TRUE),
+    (p_company_id, '3000', 'Owner''s Equity', 'equity', TRUE),
+    (p_company_id, '3100', 'Retained Earnings', 'equity', TRUE),
+    (p_company_id, '4000', 'Sales', 'income', TRUE),
+    (p_company_id, '4100', 'Sales Returns', 'income', TRUE),
+    (p_company_id, '5000', 'Cost of Goods Sold', 'expense', TRUE),
+    (p_company_id, '5100', 'Purchases', 'expense', TRUE),
+    (p_company_id, '5200', 'Stock Adjustments', 'expense', TRUE)
+  ON CONFLICT (company_id, code) DO NOTHING;
+
+  INSERT INTO gl_account_mappings (company_id, mapping_type, mapping_key, account_id)
+  SELECT p_company_id, m.mapping_type, m.mapping_key, a.id
+  FROM (VALUES
+    ('control', 'bank', '1010'),
+    ('control', 'receivables', '1100'),
+    ('control', 'inventory', '1200'),
+    ('control', 'vat_input', '1300'),
+    ('control', 'payables', '2000'),
+    ('control', 'grni', '2050'),
+    ('control', 'vat_output', '2100'),
+    ('control', 'sales', '4000'),
+    ('control', 'sales_returns', '4100'),
+    ('control', 'cogs', '5000'),
+    ('control', 'purchases', '5100'),
+    ('control', 'stock_adjustment', '5200'),
+    ('payment_method', 'cash', '1000'),
+    ('payment_method', 'bank_transfer', '1010'),
+    ('payment_method', 'cheque', '1010'),
+    ('payment_method', 'card', '1010'),
+    ('payment_method', 'mobile_money', '1020'),
+    ('payment_method', 'mpesa', '1020')
+  ) AS m(mapping_type, mapping_key, code)
+  JOIN gl_accounts a ON a.company_id = p_company_id AND a.code = m.code
+  ON CONFLICT (company_id, mapping_type, mapping_key) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION gl_seed_new_company()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM gl_seed_chart(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS gl_seed_new_company ON companies;
+CREATE TRIGGER gl_seed_new_company
+  AFTER INSERT ON companies
+  FOR EACH ROW EXECUTE FUNCTION gl_seed_new_company();
+
+CREATE OR REPLACE FUNCTION gl_rate_key(p_rate NUMERIC)
+RETURNS TEXT AS $$
+  SELECT trim_scale(COALESCE(p_rate, 0))::TEXT;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The account for a mapping, else the control account it falls back to
+CREATE OR REPLACE FUNCTION gl_account(p_company_id UUID, p_mapping_type TEXT, p_mapping_key TEXT, p_control TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_account_id UUID;
+BEGIN
+  IF p_mapping_key IS NOT NULL AND p_mapping_key <> '' THEN
+    SELECT account_id INTO v_account_id FROM gl_account_mappings
+    WHERE company_id = p_company_id AND mapping_type = p_mapping_type AND mapping_key = p_mapping_key;
+  END IF;
+
+  IF v_account_id IS NULL THEN
+    SELECT account_id INTO v_account_id FROM gl_account_mappings
+    WHERE company_id = p_company_id AND mapping_type = 'control' AND mapping_key = p_control;
+  END IF;
+
+  IF v_account_id IS NULL THEN
+    RAISE EXCEPTION 'No ledger account is mapped for "%". Set it under General Ledger > Account Mappings', p_control;
+  END IF;
+  RETURN v_account_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Writes one balanced entry. p_lines is an array of
+-- {account_id, debit, credit, description, customer_id, supplier_id}; a negative amount moves to
+-- the other side and zero lines are dropped. Posting the same source twice is a no-op.
+CREATE OR REPLACE FUNCTION gl_post(
+  p_company_id UUID,
+  p_entry_date DATE,
+  p_source_type TEXT,
+  p_source_id UUID,
+  p_source_number TEXT,
+  p_description TEXT,
+  p_lines JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_entry_id UUID;
+  v_line JSONB;
+  v_amount NUMERIC;
+  v_debits NUMERIC := 0;
+  v_credits NUMERIC := 0;
+  v_order INTEGER := 0;
+BEGIN
+  SELECT id INTO v_entry_id FROM journal_entries
+  WHERE source_type = p_source_type AND source_id = p_source_id AND status = 'posted' AND reverses_entry_id IS NULL;
+  IF FOUND THEN
+    RETURN v_entry_id;
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    v_amount := round(COALESCE((v_line->>'debit')::NUMERIC, 0) - COALESCE((v_line->>'credit')::NUMERIC, 0), 2);
+    v_debits := v_debits + GREATEST(v_amount, 0);
+    v_credits := v_credits + GREATEST(-v_amount, 0);
+  END LOOP;
+
+  IF v_debits = 0 AND v_credits = 0 THEN
+    RETURN NULL;
+  END IF;
+  IF v_debits <> v_credits THEN
+    RAISE EXCEPTION 'Journal for % % does not balance: debits % and credits %', p_source_type, p_source_number, v_debits, v_credits;
+  END IF;
+
+  INSERT INTO journal_entries (company_id, entry_date, description, source_type, source_id, source_number, created_by)
+  VALUES (p_company_id, p_entry_date, p_description, p_source_type, p_source_id, p_source_number,
+    (SELECT id FROM profiles WHERE id = auth.uid()))
+  RETURNING id INTO v_entry_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    v_amount := round(COALESCE((v_line->>'debit')::NUMERIC, 0) - COALESCE((v_line->>'credit')::NUMERIC, 0), 2);
+    CONTINUE WHEN v_amount = 0;
+    v_order := v_order + 1;
+    INSERT INTO journal_lines (entry_id, account_id, debit, credit, description, customer_id, supplier_id, sort_order)
+    VALUES (
+      v_entry_id, (v_line->>'account_id')::UUID, GREATEST(v_amount, 0), GREATEST(-v_amount, 0),
+      v_line->>'description', NULLIF(v_line->>'customer_id', '')::UUID, NULLIF(v_line->>'supplier_id', '')::UUID, v_order
+    );
+  END LOOP;
+
+  RETURN v_entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Reverses the live posting of a source, dated p_entry_date; nothing happens if it was never posted
+CREATE OR REPLACE FUNCTION gl_reverse(p_source_type TEXT, p_source_id UUID, p_entry_date DATE, p_description TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_original journal_entries%ROWTYPE;
+  v_entry_id UUID;
+BEGIN
+  SELECT * INTO v_original FROM journal_entries
+  WHERE source_type = p_source_type AND source_id = p_source_id AND status = 'posted' AND reverses_entry_id IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE journal_entries SET status = 'reversed' WHERE id = v_original.id;
+
+  INSERT INTO journal_entries (company_id, entry_date, description, source_type, source_id, source_number, reverses_entry_id, created_by)
+  VALUES (v_original.company_id, GREATEST(p_entry_date, v_original.entry_date), p_description, p_source_type, p_source_id,
+    v_original.source_number, v_original.id, (SELECT id FROM profiles WHERE id = auth.uid()))
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO journal_lines (entry_id, account_id, debit, credit, description, customer_id, supplier_id, sort_order)
+  SELECT v_entry_id, account_id, credit, debit, description, customer_id, supplier_id, sort_order
+  FROM journal_lines WHERE entry_id = v_original.id;
+
+  RETURN v_entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Invoice: Dr receivables, Cr sales per product category, Cr output VAT per rate
+CREATE OR REPLACE FUNCTION gl_post_invoice(p_invoice_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_invoice RECORD;
+  v_item RECORD;
+  v_lines JSONB := '[]'::JSONB;
+  v_total NUMERIC := 0;
+  v_vat NUMERIC;
+  v_net NUMERIC;
+  v_count INTEGER := 0;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  FOR v_item IN
+    SELECT ii.*, p.category_id FROM invoice_items ii
+    LEFT JOIN products p ON p.id = ii.product_id
+    WHERE ii.invoice_id = p_invoice_id
+  LOOP
+    v_count := v_count + 1;
+    v_vat := COALESCE(v_item.tax_amount, 0);
+    v_net := COALESCE(v_item.line_total, COALESCE(v_item.quantity, 0) * COALESCE(v_item.unit_price, 0) + v_vat) - v_vat;
+    v_lines := v_lines || jsonb_build_object(
+      'account_id', gl_account(v_invoice.company_id, 'category_sales', v_item.category_id::TEXT, 'sales'),
+      'credit', v_net, 'description', v_item.description);
+    IF v_vat <> 0 THEN
+      v_lines := v_lines || jsonb_build_object(
+        'account_id', gl_account(v_invoice.company_id, 'tax_rate', gl_rate_key(v_item.tax_percentage), 'vat_output'),
+        'credit', v_vat, 'description', format('VAT %s%%', gl_rate_key(v_item.tax_percentage)));
+    END IF;
+    v_total := v_total + v_net + v_vat;
+  END LOOP;
+
+  -- Invoices without lines post from their header totals
+  IF v_count = 0 THEN
+    v_total := COALESCE(v_invoice.total_amount, 0);
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', gl_account(v_invoice.company_id, 'control', 'sales', 'sales'),
+        'credit', v_total - COALESCE(v_invoice.tax_amount, 0)),
+      jsonb_build_object('account_id', gl_account(v_invoice.company_id, 'control', 'vat_output', 'vat_output'),
+        'credit', COALESCE(v_invoice.tax_amount, 0)));
+  END IF;
+
+  v_lines := v_lines || jsonb_build_object(
+    'account_id', gl_account(v_invoice.company_id, 'control', 'receivables', 'receivables'),
+    'debit', v_total, 'customer_id', v_invoice.customer_id);
+
+  RETURN gl_post(v_invoice.company_id, COALESCE(v_invoice.invoice_date, CURRENT_DATE), 'invoice', p_invoice_id,
+    v_invoice.invoice_number, format('Invoice %s', v_invoice.invoice_number), v_lines);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Credit note: Dr sales returns, Dr output VAT per rate, Cr receivables
+CREATE OR REPLACE FUNCTION gl_post_credit_note(p_credit_note_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_note RECORD;
+  v_item RECORD;
+  v_lines JSONB := '[]'::JSONB;
+  v_total NUMERIC := 0;
+  v_vat NUMERIC;
+  v_net NUMERIC;
+BEGIN
+  SELECT * INTO v_note FROM credit_notes WHERE id = p_credit_note_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  FOR v_item IN SELECT * FROM credit_note_items WHERE credit_note_id = p_credit_note_id LOOP
+    v_vat := COALESCE(v_item.tax_amount, 0);
+    v_net := COALESCE(v_item.line_total, COALESCE(v_item.quantity, 0) * COALESCE(v_item.unit_price, 0) + v_vat) - v_vat;
+    v_lines := v_lines || jsonb_build_object(
+      'account_id', gl_account(v_note.company_id, 'control', 'sales_returns', 'sales_returns'),
+      'debit', v_net, 'description', v_item.description);
+    IF v_vat <> 0 THEN
+      v_lines := v_lines || jsonb_build_object(
+        'account_id', gl_account(v_note.company_id, 'tax_rate', gl_rate_key(v_item.tax_percentage), 'vat_output'),
+        'debit', v_vat, 'description', format('VAT %s%%', gl_rate_key(v_item.tax_percentage)));
+    END IF;
+    v_total := v_total + v_net + v_vat;
+  END LOOP;
+
+  v_lines := v_lines || jsonb_build_object(
+    'account_id', gl_account(v_note.company_id, 'control', 'receivables', 'receivables'),
+    'credit', v_total, 'customer_id', v_note.customer_id);
+
+  RETURN gl_post(v_note.company_id, COALESCE(v_note.credit_note_date, CURRENT_DATE), 'credit_note', p_credit_note_id,
+    v_note.credit_note_number, format('Credit note %s', v_note.credit_note_number), v_lines);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Customer payment: Dr the payment method's cash/bank account, Cr receivables. Allocation to
+-- invoices does not touch the ledger; unallocated money stays as a credit on the customer.
+CREATE OR REPLACE FUNCTION gl_post_payment(p_payment_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_payment RECORD;
+BEGIN
+  SELECT p.*, COALESCE(p.customer_id, i.customer_id) AS payer_id INTO v_payment
+  FROM payments p LEFT JOIN invoices i ON i.id = p.invoice_id
+  WHERE p.id = p_payment_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN gl_post(v_payment.company_id, COALESCE(v_payment.payment_date, CURRENT_DATE), 'payment', p_payment_id,
+    v_payment.payment_number, format('Payment %s', COALESCE(v_payment.payment_number, v_payment.reference_number, '')),
+    jsonb_build_array(
+      jsonb_build_object('account_id', gl_account(v_payment.company_id, 'payment_method', v_payment.payment_method::TEXT, 'bank'),
+        'debit', v_payment.amount, 'description', v_payment.reference_number),
+      jsonb_build_object('account_id', gl_account(v_payment.company_id, 'control', 'receivables', 'receivables'),
+        'credit', v_payment.amount, 'customer_id', v_payment.payer_id)
+    ));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Stock movement at cost: goods in from an LPO/GRN or restock against goods received not
+-- invoiced (valued at the movement's cost), sales and returns against cost of goods sold,
+-- anything else against stock adjustments (both at the product's cost price)
+CREATE OR REPLACE FUNCTION gl_post_stock_movement(p_movement_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_movement RECORD;
+  v_direction INTEGER;
+  v_unit_cost NUMERIC;
+  v_value NUMERIC;
+  v_counter UUID;
+  v_reference TEXT;
+BEGIN
+  SELECT m.*, p.cost_price, p.category_id, p.name AS product_name INTO v_movement
+  FROM stock_movements m LEFT JOIN products p ON p.id = m.product_id
+  WHERE m.id = p_movement_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_direction := CASE v_movement.movement_type::TEXT
+    WHEN 'IN' THEN 1
+    WHEN 'OUT' THEN -1
+    ELSE sign(COALESCE(v_movement.quantity, 0))::INTEGER
+  END;
+  v_reference := v_movement.reference_type::TEXT;
+
+  IF v_reference IN ('GRN', 'RESTOCK', 'PURCHASE') THEN
+    v_unit_cost := COALESCE(NULLIF(v_movement.cost_per_unit, 0), v_movement.cost_price, 0);
+    v_counter := gl_account(v_movement.company_id, 'control', 'grni', 'grni');
+  ELSIF v_reference IN ('INVOICE', 'DELIVERY_NOTE', 'CREDIT_NOTE')
+     OR (v_reference = 'ADJUSTMENT' AND EXISTS (SELECT 1 FROM invoices WHERE id = v_movement.reference_id)) THEN
+    v_unit_cost := COALESCE(v_movement.cost_price, 0);
+    v_counter := gl_account(v_movement.company_id, 'category_cogs', v_movement.category_id::TEXT, 'cogs');
+  ELSE
+    v_unit_cost := COALESCE(v_movement.cost_price, 0);
+    v_counter := gl_account(v_movement.company_id, 'control', 'stock_adjustment', 'stock_adjustment');
+  END IF;
+
+  v_value := round(abs(COALESCE(v_movement.quantity, 0)) * v_unit_cost, 2) * v_direction;
+
+  RETURN gl_post(v_movement.company_id, COALESCE(v_movement.created_at::DATE, CURRENT_DATE), 'stock_movement', p_movement_id,
+    v_reference, format('Stock %s %s: %s', lower(v_movement.movement_type::TEXT), lower(v_reference), COALESCE(v_movement.product_name, '')),
+    jsonb_build_array(
+      jsonb_build_object('account_id', gl_account(v_movement.company_id, 'category_inventory', v_movement.category_id::TEXT, 'inventory'),
+        'debit', v_value),
+      jsonb_build_object('account_id', v_counter, 'credit', v_value)
+    ));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Supplier bill: Dr goods received not invoiced (LPO bills) or purchases, Dr input VAT, Cr payables
+CREATE OR REPLACE FUNCTION gl_post_supplier_bill(p_bill_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_bill RECORD;
+  v_item RECORD;
+  v_lines JSONB := '[]'::JSONB;
+  v_total NUMERIC := 0;
+  v_vat NUMERIC;
+  v_net NUMERIC;
+BEGIN
+  SELECT * INTO v_bill FROM supplier_bills WHERE id = p_bill_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  FOR v_item IN SELECT * FROM supplier_bill_items WHERE bill_id = p_bill_id LOOP
+    v_vat := COALESCE(v_item.tax_amount, 0);
+    v_net := COALESCE(v_item.line_total, COALESCE(v_item.quantity, 0) * COALESCE(v_item.unit_price, 0) + v_vat) - v_vat;
+    v_lines := v_lines || jsonb_build_object(
+      'account_id', CASE WHEN v_bill.lpo_id IS NOT NULL
+        THEN gl_account(v_bill.company_id, 'control', 'grni', 'grni')
+        ELSE gl_account(v_bill.company_id, 'control', 'purchases', 'purchases') END,
+      'debit', v_net, 'description', v_item.description);
+    v_lines := v_lines || jsonb_build_object(
+      'account_id', gl_account(v_bill.company_id, 'control', 'vat_input', 'vat_input'), 'debit', v_vat);
+    v_total := v_total + v_net + v_vat;
+  END LOOP;
+
+  v_lines := v_lines || jsonb_build_object(
+    'account_id', gl_account(v_bill.company_id, 'control', 'payables', 'payables'),
+    'credit', v_total, 'supplier_id', v_bill.supplier_id);
+
+  RETURN gl_post(v_bill.company_id, COALESCE(v_bill.bill_date, CURRENT_DATE), 'supplier_bill', p_bill_id,
+    v_bill.bill_number, format('Supplier bill %s', COALESCE(v_bill.supplier_invoice_number, v_bill.bill_number)), v_lines);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Supplier payment: Dr payables, Cr the payment method's cash/bank account
+CREATE OR REPLACE FUNCTION gl_post_supplier_payment(p_payment_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_payment RECORD;
+BEGIN
+  SELECT * INTO v_payment FROM supplier_payments WHERE id = p_payment_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN gl_post(v_payment.company_id, COALESCE(v_payment.payment_date, CURRENT_DATE), 'supplier_payment', p_payment_id,
+    v_payment.payment_number, format('Supplier payment %s', v_payment.payment_number),
+    jsonb_build_array(
+      jsonb_build_object('account_id', gl_account(v_payment.company_id, 'control', 'payables', 'payables'),
+        'debit', v_payment.amount, 'supplier_id', v_payment.supplier_id),
+      jsonb_build_object('account_id', gl_account(v_payment.company_id, 'payment_method', v_payment.payment_method, 'bank'),
+        'credit', v_payment.amount, 'description', v_payment.reference_number)
+    ));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Triggers: post when a document is posted, reverse when it is voided, cancelled or deleted
+CREATE OR REPLACE FUNCTION gl_invoice_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'void' THEN
+    IF TG_OP = 'UPDATE' AND OLD.status <> 'void' THEN
+      PERFORM gl_reverse('invoice', NEW.id, CURRENT_DATE, format('Void of invoice %s', NEW.invoice_number));
+    END IF;
+  ELSIF invoice_is_posted(NEW.status, NEW.paid_amount)
+    AND (TG_OP = 'INSERT' OR NOT invoice_is_posted(OLD.status, OLD.paid_amount)) THEN
+    PERFORM gl_post_invoice(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION gl_credit_note_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'cancelled' THEN
+    IF TG_OP = 'UPDATE' AND OLD.status <> 'cancelled' THEN
+      PERFORM gl_reverse('credit_note', NEW.id, CURRENT_DATE, format('Cancellation of credit note %s', NEW.credit_note_number));
+    END IF;
+  ELSIF credit_note_is_posted(NEW.status, NEW.applied_amount)
+    AND (TG_OP = 'INSERT' OR NOT credit_note_is_posted(OLD.status, OLD.applied_amount)) THEN
+    PERFORM gl_post_credit_note(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION gl_payment_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    IF TG_OP = 'UPDATE' AND (OLD.amount, OLD.payment_method::TEXT, OLD.payment_date, OLD.customer_id)
+      IS NOT DISTINCT FROM (NEW.amount, NEW.payment_method::TEXT, NEW.payment_date, NEW.customer_id) THEN
+      RETURN NEW;
+    END IF;
+    PERFORM gl_reverse('payment', OLD.id, CURRENT_DATE,
+      format('%s of payment %s', CASE TG_OP WHEN 'DELETE' THEN 'Deletion' ELSE 'Correction' END, OLD.payment_number));
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM gl_post_payment(NEW.id);
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION gl_stock_movement_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM gl_reverse('stock_movement', OLD.id, CURRENT_DATE, 'Deleted stock movement');
+    RETURN OLD;
+  END IF;
+  PERFORM gl_post_stock_movement(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION gl_supplier_bill_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'cancelled' THEN
+    IF TG_OP = 'UPDATE' AND OLD.status <> 'cancelled' THEN
+      PERFORM gl_reverse('supplier_bill', NEW.id, CURRENT_DATE, format('Cancellation of supplier bill %s', NEW.bill_number));
+    END IF;
+  ELSIF NEW.status IN ('approved', 'partial', 'paid')
+    AND (TG_OP = 'INSERT' OR OLD.status NOT IN ('approved', 'partial', 'paid')) THEN
+    PERFORM gl_post_supplier_bill(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION gl_supplier_payment_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM gl_reverse('supplier_payment', OLD.id, CURRENT_DATE, format('Deletion of supplier payment %s', OLD.payment_number));
+    RETURN OLD;
+  END IF;
+  PERFORM gl_post_supplier_payment(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+DECLARE
+  t RECORD;
+BEGIN
+  FOR t IN SELECT * FROM (VALUES
+    ('invoices', 'gl_post_invoices', 'gl_invoice_trigger', 'INSERT OR UPDATE'),
+    ('credit_notes', 'gl_post_credit_notes', 'gl_credit_note_trigger', 'INSERT OR UPDATE'),
+    ('payments', 'gl_post_payments', 'gl_payment_trigger', 'INSERT OR UPDATE OR DELETE'),
+    ('stock_movements', 'gl_post_stock_movements', 'gl_stock_movement_trigger', 'INSERT OR DELETE'),
+    ('supplier_bills', 'gl_post_supplier_bills', 'gl_supplier_bill_trigger', 'INSERT OR UPDATE'),
+    ('supplier_payments', 'gl_post_supplier_payments', 'gl_supplier_payment_trigger', 'INSERT OR DELETE')
+  ) AS v(tbl, trigger_name, fn, events)
+  LOOP
+    CONTINUE WHEN to_regclass(t.tbl) IS NULL;
+    EXECUTE format('DROP TRIGGER IF EXISTS %I ON %I', t.trigger_name, t.tbl);
+    EXECUTE format(
+      'CREATE TRIGGER %I AFTER %s ON %I FOR EACH ROW EXECUTE FUNCTION %I()',
+      t.trigger_name, t.events, t.tbl, t.fn
+    );
+  END LOOP;
+END $$;
+
+-- Balances per account: movement before p_from (opening) and within p_from..p_to. A null
+-- p_from means from the beginning, so the opening balance is zero.
+CREATE OR REPLACE FUNCTION gl_account_balances(p_company_id UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (
+  account_id UUID,
+  code VARCHAR,
+  name VARCHAR,
+  account_type VARCHAR,
+  is_active BOOLEAN,
+  opening_balance NUMERIC,
+  debit NUMERIC,
+  credit NUMERIC
+) AS $$
+  SELECT a.id, a.code, a.name, a.account_type, a.is_active,
+    COALESCE(SUM(m.debit - m.credit) FILTER (WHERE p_from IS NOT NULL AND m.entry_date < p_from), 0),
+    COALESCE(SUM(m.debit) FILTER (WHERE p_from IS NULL OR m.entry_date >= p_from), 0),
+    COALESCE(SUM(m.credit) FILTER (WHERE p_from IS NULL OR m.entry_date >= p_from), 0)
+  FROM gl_accounts a
+  LEFT JOIN (
+    SELECT l.account_id, l.debit, l.credit, e.entry_date
+    FROM journal_lines l
+    JOIN journal_entries e ON e.id = l.entry_id
+    WHERE e.company_id = p_company_id AND e.entry_date <= p_to
+  ) m ON m.account_id = a.id
+  WHERE a.company_id = p_company_id
+  GROUP BY a.id, a.code, a.name, a.account_type, a.is_active
+  ORDER BY a.code;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION gl_account_balances(UUID, DATE, DATE) TO authenticated;
+
+-- Balance per customer (or supplier) on a control account, for reconciling it to the statements
+CREATE OR REPLACE FUNCTION gl_subledger_balances(p_company_id UUID, p_account_id UUID)
+RETURNS TABLE (customer_id UUID, supplier_id UUID, balance NUMERIC) AS $$
+  SELECT l.customer_id, l.supplier_id, SUM(l.debit - l.credit)
+  FROM journal_lines l
+  JOIN journal_entries e ON e.id = l.entry_id
+  WHERE e.company_id = p_company_id AND l.account_id = p_account_id
+  GROUP BY l.customer_id, l.supplier_id;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION gl_subledger_balances(UUID, UUID) TO authenticated;
+
+-- Access: ledger.view to read, ledger.manage to maintain accounts and mappings, as in
+-- src/utils/permissions.ts. Journals are written only by the posting functions above.
+INSERT INTO role_permissions (role, permission_name)
+VALUES ('accountant'::user_role, 'ledger.view'), ('accountant'::user_role, 'ledger.manage')
+ON CONFLICT DO NOTHING;
+
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['gl_accounts', 'gl_account_mappings'] LOOP
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_select', t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_insert', t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_update', t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_delete', t);
+    EXECUTE format('CREATE POLICY %I ON %I FOR SELECT USING (has_permission(''ledger.view'', company_id))', t || '_select', t);
+    EXECUTE format('CREATE POLICY %I ON %I FOR INSERT WITH CHECK (has_permission(''ledger.manage'', company_id))', t || '_insert', t);
+    EXECUTE format('CREATE POLICY %I ON %I FOR UPDATE USING (has_permission(''ledger.manage'', company_id))', t || '_update', t);
+    EXECUTE format('CREATE POLICY %I ON %I FOR DELETE USING (has_permission(''ledger.manage'', company_id))', t || '_delete', t);
+  END LOOP;
+END $$;
+
+ALTER TABLE journal_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE journal_lines ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS journal_entries_select ON journal_entries;
+DROP POLICY IF EXISTS journal_lines_select ON journal_lines;
+CREATE POLICY journal_entries_select ON journal_entries FOR SELECT
+  USING (has_permission('ledger.view', company_id));
+CREATE POLICY journal_lines_select ON journal_lines FOR SELECT
+  USING (EXISTS (SELECT 1 FROM journal_entries e WHERE e.id = entry_id AND has_permission('ledger.view', e.company_id)));
+
+-- Changes to the chart and its mappings move future postings, so they are audited
+DROP TRIGGER IF EXISTS audit_gl_accounts ON gl_accounts;
+CREATE TRIGGER audit_gl_accounts
+  AFTER INSERT OR UPDATE OR DELETE ON gl_accounts
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_gl_account_mappings ON gl_account_mappings;
+CREATE TRIGGER audit_gl_account_mappings
+  AFTER INSERT OR UPDATE OR DELETE ON gl_account_mappings
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+CREATE OR REPLACE FUNCTION audit_view_permission(p_entity_type TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE p_entity_type
+    WHEN 'quotations' THEN 'quotation.view'
+    WHEN 'invoices' THEN 'invoice.view'
+    WHEN 'proforma_invoices' THEN 'invoice.view'
+    WHEN 'recurring_invoices' THEN 'invoice.view'
+    WHEN 'credit_notes' THEN 'credit_note.view'
+    WHEN 'payments' THEN 'payment.view'
+    WHEN 'remittance_advice' THEN 'payment.view'
+    WHEN 'bank_accounts' THEN 'payment.view'
+    WHEN 'bank_reconciliations' THEN 'payment.view'
+    WHEN 'delivery_notes' THEN 'delivery_note.view'
+    WHEN 'lpos' THEN 'purchase.view'
+    WHEN 'goods_received_notes' THEN 'purchase.view'
+    WHEN 'suppliers' THEN 'purchase.view'
+    WHEN 'supplier_bills' THEN 'payable.view'
+    WHEN 'supplier_payments' THEN 'payable.view'
+    WHEN 'customers' THEN 'customer.view'
+    WHEN 'products' THEN 'inventory.view'
+    WHEN 'boqs' THEN 'boq.view'
+    WHEN 'gl_accounts' THEN 'ledger.view'
+    WHEN 'gl_account_mappings' THEN 'ledger.view'
+    ELSE 'audit.view'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Seed every company and post what is already on the books, oldest first, so the ledger agrees
+-- with the documents from day one
+DO $$
+DECLARE
+  r RECORD;
+BEGIN
+  FOR r IN SELECT id FROM companies LOOP
+    PERFORM gl_seed_chart(r.id);
+  END LOOP;
+
+  FOR r IN SELECT id FROM invoices
+    WHERE status <> 'void' AND invoice_is_posted(status, paid_amount) ORDER BY invoice_date, created_at LOOP
+    PERFORM gl_post_invoice(r.id);
+  END LOOP;
+
+  IF to_regclass('credit_notes') IS NOT NULL THEN
+    FOR r IN SELECT id FROM credit_notes
+      WHERE status <> 'cancelled' AND credit_note_is_posted(status, applied_amount) ORDER BY credit_note_date, created_at LOOP
+      PERFORM gl_post_credit_note(r.id);
+    END LOOP;
+  END IF;
+
+  FOR r IN SELECT id FROM payments ORDER BY payment_date, created_at LOOP
+    PERFORM gl_post_payment(r.id);
+  END LOOP;
+
+  IF to_regclass('stock_movements') IS NOT NULL THEN
+    FOR r IN SELECT id FROM stock_movements WHERE company_id IS NOT NULL ORDER BY created_at LOOP
+      PERFORM gl_post_stock_movement(r.id);
+    END LOOP;
+  END IF;
+
+  FOR r IN SELECT id FROM supplier_bills WHERE status IN ('approved', 'partial', 'paid') ORDER BY bill_date, created_at LOOP
+    PERFORM gl_post_supplier_bill(r.id);
+  END LOOP;
+
+  FOR r IN SELECT id FROM supplier_payments ORDER BY payment_date, created_at LOOP
+    PERFORM gl_post_supplier_payment(r.id);
+  END LOOP;
+END $$;
+
+COMMIT;
@@ -0,0 +1,119 @@
+BEGIN;
+
+-- Financial statements (src/pages/reports/FinancialStatements.tsx) take cost of sales from the
+-- ledger. Sales-side movements used to carry the selling price in stock_movements.cost_per_unit,
+-- so each movement now records its cost in unit_cost when it is written. cost_per_unit is left as
+-- it was, and movements already posted keep the cost the ledger recorded for them.
+
+-- Movements caused by selling or returning goods; the app never knows their cost
+CREATE OR REPLACE FUNCTION stock_movement_is_sales_side(p_reference_type TEXT, p_reference_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT p_reference_type IN ('INVOICE', 'DELIVERY_NOTE', 'CREDIT_NOTE')
+    OR (p_reference_type = 'ADJUSTMENT' AND EXISTS (SELECT 1 FROM invoices WHERE id = p_reference_id));
+$$ LANGUAGE sql STABLE;
+
+-- Cost at the time of the movement: the product's cost for sales-side movements, otherwise the
+-- cost the movement was recorded at
+CREATE OR REPLACE FUNCTION stamp_stock_movement_cost()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_cost_price NUMERIC;
+BEGIN
+  IF NEW.unit_cost IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT cost_price INTO v_cost_price FROM products WHERE id = NEW.product_id;
+
+  IF stock_movement_is_sales_side(NEW.reference_type::TEXT, NEW.reference_id) THEN
+    NEW.unit_cost := COALESCE(v_cost_price, 0);
+  ELSE
+    NEW.unit_cost := COALESCE(NULLIF(NEW.cost_per_unit, 0), v_cost_price, 0);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF to_regclass('stock_movements') IS NULL THEN
+    RETURN;
+  END IF;
+
+  ALTER TABLE stock_movements ADD COLUMN IF NOT EXISTS unit_cost NUMERIC(15,4);
+
+  DROP TRIGGER IF EXISTS stock_movements_stamp_cost ON stock_movements;
+  CREATE TRIGGER stock_movements_stamp_cost
+    BEFORE INSERT ON stock_movements
+    FOR EACH ROW EXECUTE FUNCTION stamp_stock_movement_cost();
+
+  -- Existing movements take the cost their live posting from 024 used, so closed periods are not
+  -- restated; movements that were never posted stay empty and fall back as 024 did
+  UPDATE stock_movements m
+  SET unit_cost = round(posted.value / abs(m.quantity), 4)
+  FROM (
+    SELECT e.source_id, SUM(l.debit) AS value
+    FROM journal_entries e JOIN journal_lines l ON l.entry_id = e.id
+    WHERE e.source_type = 'stock_movement' AND e.status = 'posted' AND e.reverses_entry_id IS NULL
+    GROUP BY e.source_id
+  ) posted
+  WHERE posted.source_id = m.id
+    AND m.unit_cost IS NULL
+    AND COALESCE(m.quantity, 0) <> 0;
+END $$;
+
+-- Every movement is valued at its own unit_cost; movements from before it was stamped fall back
+-- to the rules of 024
+CREATE OR REPLACE FUNCTION gl_post_stock_movement(p_movement_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_movement RECORD;
+  v_direction INTEGER;
+  v_value NUMERIC;
+  v_counter UUID;
+  v_reference TEXT;
+BEGIN
+  SELECT m.*, p.cost_price, p.category_id, p.name AS product_name INTO v_movement
+  FROM stock_movements m LEFT JOIN products p ON p.id = m.product_id
+  WHERE m.id = p_movement_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_direction := CASE v_movement.movement_type::TEXT
+    WHEN 'IN' THEN 1
+    WHEN 'OUT' THEN -1
+    ELSE sign(COALESCE(v_movement.quantity, 0))::INTEGER
+  END;
+  v_reference := v_movement.reference_type::TEXT;
+
+  IF v_reference IN ('GRN', 'RESTOCK', 'PURCHASE') THEN
+    v_counter := gl_account(v_movement.company_id, 'control', 'grni', 'grni');
+  ELSIF stock_movement_is_sales_side(v_reference, v_movement.reference_id) THEN
+    v_counter := gl_account(v_movement.company_id, 'category_cogs', v_movement.category_id::TEXT, 'cogs');
+  ELSE
+    v_counter := gl_account(v_movement.company_id, 'control', 'stock_adjustment', 'stock_adjustment');
+  END IF;
+
+  v_value := round(abs(COALESCE(v_movement.quantity, 0)) * COALESCE(
+    v_movement.unit_cost,
+    CASE WHEN v_reference IN ('GRN', 'RESTOCK', 'PURCHASE')
+      THEN COALESCE(NULLIF(v_movement.cost_per_unit, 0), v_movement.cost_price, 0)
+      ELSE COALESCE(v_movement.cost_price, 0)
+    END), 2) * v_direction;
+
+  RETURN gl_post(v_movement.company_id, COALESCE(v_movement.created_at::DATE, CURRENT_DATE), 'stock_movement', p_movement_id,
+    v_reference, format('Stock %s %s: %s', lower(v_movement.movement_type::TEXT), lower(v_reference), COALESCE(v_movement.product_name, '')),
+    jsonb_build_array(
+      jsonb_build_object('account_id', gl_account(v_movement.company_id, 'category_inventory', v_movement.category_id::TEXT, 'inventory'),
+        'debit', v_value),
+      jsonb_build_object('account_id', v_counter, 'credit', v_value)
+    ));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Statements are read a period at a time
+CREATE INDEX IF NOT EXISTS idx_journal_lines_account_entry ON journal_lines(account_id, entry_id);
+
+COMMIT;
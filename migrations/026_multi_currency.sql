@@ -0,0 +1,767 @@
+BEGIN;
+
+-- Multi-currency documents. Quotations, proformas, invoices, credit notes, LPOs, supplier bills
+-- and payments carry a currency and the exchange rate to the company's base currency
+-- (companies.currency), plus base-currency equivalents of their totals. Rates are kept per day in
+-- exchange_rates; a document without an explicit rate takes the latest one on or before its date.
+-- The ledger posts in base currency, and allocating a payment to a document raised at a different
+-- rate posts the realised exchange gain or loss.
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  currency_code VARCHAR(3) NOT NULL,
+  rate_date DATE NOT NULL,
+  rate NUMERIC(18,8) NOT NULL CHECK (rate > 0), -- base currency units per one unit of currency_code
+  source VARCHAR(10) NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'csv')),
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(company_id, currency_code, rate_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_lookup ON exchange_rates(company_id, currency_code, rate_date DESC);
+
+-- The rate in force on a date: the latest one entered on or before it
+CREATE OR REPLACE FUNCTION exchange_rate_on(p_company_id UUID, p_currency VARCHAR, p_date DATE)
+RETURNS NUMERIC AS $$
+  SELECT rate FROM exchange_rates
+  WHERE company_id = p_company_id AND currency_code = upper(p_currency) AND rate_date <= p_date
+  ORDER BY rate_date DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- Document columns. Existing documents are in their company's currency at a rate of 1; the
+-- posting locks and audit triggers are switched off while they are filled in.
+DO $$
+DECLARE
+  t RECORD;
+BEGIN
+  FOR t IN SELECT * FROM (VALUES
+    ('quotations', TRUE),
+    ('proforma_invoices', TRUE),
+    ('invoices', TRUE),
+    ('credit_notes', TRUE),
+    ('lpos', TRUE),
+    ('supplier_bills', TRUE),
+    ('payments', FALSE),
+    ('supplier_payments', FALSE)
+  ) AS v(tbl, has_totals)
+  LOOP
+    CONTINUE WHEN to_regclass(t.tbl) IS NULL;
+    EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS currency VARCHAR(3)', t.tbl);
+    EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(18,8)', t.tbl);
+    IF t.has_totals THEN
+      EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS base_subtotal NUMERIC(15,2)', t.tbl);
+      EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS base_tax_amount NUMERIC(15,2)', t.tbl);
+      EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS base_total_amount NUMERIC(15,2)', t.tbl);
+    ELSE
+      EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS base_amount NUMERIC(15,2)', t.tbl);
+    END IF;
+
+    EXECUTE format('ALTER TABLE %I DISABLE TRIGGER USER', t.tbl);
+    EXECUTE format(
+      'UPDATE %I d SET currency = COALESCE((SELECT c.currency FROM companies c WHERE c.id = d.company_id), ''KES''), exchange_rate = 1, %s WHERE d.currency IS NULL',
+      t.tbl,
+      CASE WHEN t.has_totals
+        THEN 'base_subtotal = COALESCE(subtotal, 0), base_tax_amount = COALESCE(tax_amount, 0), base_total_amount = COALESCE(total_amount, 0)'
+        ELSE 'base_amount = COALESCE(amount, 0)' END
+    );
+    EXECUTE format('ALTER TABLE %I ENABLE TRIGGER USER', t.tbl);
+  END LOOP;
+END $$;
+
+-- Fills in currency, exchange_rate and the base_* columns. TG_ARGV[0] is the document's date
+-- column. Without a currency a credit note takes its invoice's currency and rate, a payment its
+-- invoice's currency and a supplier bill its LPO's currency; otherwise the company's. Runs before
+-- the posting locks (trigger names sort before *_posting_lock), which keep posted rates fixed.
+CREATE OR REPLACE FUNCTION set_document_base_amounts()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_row JSONB := to_jsonb(NEW);
+  v_old JSONB;
+  v_base_currency VARCHAR;
+  v_currency VARCHAR;
+  v_rate NUMERIC;
+  v_date DATE;
+  v_parent_currency VARCHAR;
+  v_parent_rate NUMERIC;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    v_old := to_jsonb(OLD);
+    IF jsonb_build_array(v_row->'currency', v_row->'exchange_rate', v_row->'subtotal', v_row->'tax_amount', v_row->'total_amount', v_row->'amount')
+      = jsonb_build_array(v_old->'currency', v_old->'exchange_rate', v_old->'subtotal', v_old->'tax_amount', v_old->'total_amount', v_old->'amount') THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  SELECT COALESCE(currency, 'KES') INTO v_base_currency FROM companies WHERE id = NEW.company_id;
+  v_base_currency := COALESCE(v_base_currency, 'KES');
+  v_currency := upper(NULLIF(v_row->>'currency', ''));
+  v_rate := NULLIF(v_row->>'exchange_rate', '')::NUMERIC;
+  v_date := COALESCE(NULLIF(v_row->>TG_ARGV[0], '')::DATE, CURRENT_DATE);
+
+  IF TG_TABLE_NAME IN ('credit_notes', 'payments') AND v_row->>'invoice_id' IS NOT NULL THEN
+    SELECT currency, exchange_rate INTO v_parent_currency, v_parent_rate
+    FROM invoices WHERE id = (v_row->>'invoice_id')::UUID;
+  ELSIF TG_TABLE_NAME = 'supplier_bills' AND v_row->>'lpo_id' IS NOT NULL THEN
+    SELECT currency INTO v_parent_currency FROM lpos WHERE id = (v_row->>'lpo_id')::UUID;
+  END IF;
+
+  IF v_currency IS NULL THEN
+    v_currency := COALESCE(v_parent_currency, v_base_currency);
+    IF TG_TABLE_NAME = 'credit_notes' AND v_currency = v_parent_currency THEN
+      v_rate := COALESCE(v_rate, v_parent_rate);
+    END IF;
+  END IF;
+
+  -- A new currency without a new rate looks the rate up again
+  IF TG_OP = 'UPDATE' AND v_currency IS DISTINCT FROM v_old->>'currency'
+    AND v_rate IS NOT DISTINCT FROM NULLIF(v_old->>'exchange_rate', '')::NUMERIC THEN
+    v_rate := NULL;
+  END IF;
+
+  IF v_currency = v_base_currency THEN
+    v_rate := 1;
+  ELSIF v_rate IS NULL OR v_rate <= 0 THEN
+    v_rate := exchange_rate_on(NEW.company_id, v_currency, v_date);
+    IF v_rate IS NULL THEN
+      RAISE EXCEPTION 'No exchange rate for % on or before %; add one under Settings > Exchange Rates', v_currency, v_date;
+    END IF;
+  END IF;
+
+  IF v_row ? 'total_amount' THEN
+    NEW := jsonb_populate_record(NEW, jsonb_build_object(
+      'currency', v_currency,
+      'exchange_rate', v_rate,
+      'base_subtotal', round(COALESCE((v_row->>'subtotal')::NUMERIC, 0) * v_rate, 2),
+      'base_tax_amount', round(COALESCE((v_row->>'tax_amount')::NUMERIC, 0) * v_rate, 2),
+      'base_total_amount', round(COALESCE((v_row->>'total_amount')::NUMERIC, 0) * v_rate, 2)
+    ));
+  ELSE
+    NEW := jsonb_populate_record(NEW, jsonb_build_object(
+      'currency', v_currency,
+      'exchange_rate', v_rate,
+      'base_amount', round(COALESCE((v_row->>'amount')::NUMERIC, 0) * v_rate, 2)
+    ));
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+DECLARE
+  t RECORD;
+BEGIN
+  FOR t IN SELECT * FROM (VALUES
+    ('quotations', 'quotation_date'),
+    ('proforma_invoices', 'proforma_date'),
+    ('invoices', 'invoice_date'),
+    ('credit_notes', 'credit_note_date'),
+    ('lpos', 'lpo_date'),
+    ('supplier_bills', 'bill_date'),
+    ('payments', 'payment_date'),
+    ('supplier_payments', 'payment_date')
+  ) AS v(tbl, date_column)
+  LOOP
+    CONTINUE WHEN to_regclass(t.tbl) IS NULL;
+    EXECUTE format('DROP TRIGGER IF EXISTS %I ON %I', t.tbl || '_base_amounts', t.tbl);
+    EXECUTE format(
+      'CREATE TRIGGER %I BEFORE INSERT OR UPDATE ON %I FOR EACH ROW EXECUTE FUNCTION set_document_base_amounts(%L)',
+      t.tbl || '_base_amounts', t.tbl, t.date_column
+    );
+  END LOOP;
+END $$;
+
+-- Realised exchange difference on each allocation, in base currency. A customer payment worth more
+-- base currency than the invoice it settles is a gain; a supplier payment worth more than the
+-- bill is a loss. Both sides of an allocation must be in the same currency.
+ALTER TABLE payment_allocations ADD COLUMN IF NOT EXISTS realised_fx_gain_loss NUMERIC(15,2) NOT NULL DEFAULT 0;
+ALTER TABLE supplier_payment_allocations ADD COLUMN IF NOT EXISTS realised_fx_gain_loss NUMERIC(15,2) NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION set_allocation_fx_gain_loss()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_payment_number TEXT;
+  v_payment_currency VARCHAR;
+  v_payment_rate NUMERIC;
+  v_document_number TEXT;
+  v_document_currency VARCHAR;
+  v_document_rate NUMERIC;
+BEGIN
+  IF TG_TABLE_NAME = 'payment_allocations' THEN
+    SELECT payment_number, currency, COALESCE(exchange_rate, 1) INTO v_payment_number, v_payment_currency, v_payment_rate
+    FROM payments WHERE id = NEW.payment_id;
+    SELECT invoice_number, currency, COALESCE(exchange_rate, 1) INTO v_document_number, v_document_currency, v_document_rate
+    FROM invoices WHERE id = NEW.invoice_id;
+  ELSE
+    SELECT payment_number, currency, COALESCE(exchange_rate, 1) INTO v_payment_number, v_payment_currency, v_payment_rate
+    FROM supplier_payments WHERE id = NEW.payment_id;
+    SELECT bill_number, currency, COALESCE(exchange_rate, 1) INTO v_document_number, v_document_currency, v_document_rate
+    FROM supplier_bills WHERE id = NEW.bill_id;
+  END IF;
+
+  IF v_payment_currency IS DISTINCT FROM v_document_currency THEN
+    RAISE EXCEPTION 'Payment % is in % but % is in %; record the payment in the document''s currency',
+      COALESCE(v_payment_number, ''), v_payment_currency, v_document_number, v_document_currency;
+  END IF;
+
+  NEW.realised_fx_gain_loss := CASE TG_TABLE_NAME
+    WHEN 'payment_allocations' THEN round(NEW.amount_allocated * v_payment_rate, 2) - round(NEW.amount_allocated * v_document_rate, 2)
+    ELSE round(NEW.amount_allocated * v_document_rate, 2) - round(NEW.amount_allocated * v_payment_rate, 2)
+  END;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS payment_allocations_fx_gain_loss ON payment_allocations;
+CREATE TRIGGER payment_allocations_fx_gain_loss
+  BEFORE INSERT ON payment_allocations
+  FOR EACH ROW EXECUTE FUNCTION set_allocation_fx_gain_loss();
+
+DROP TRIGGER IF EXISTS supplier_payment_allocations_fx_gain_loss ON supplier_payment_allocations;
+CREATE TRIGGER supplier_payment_allocations_fx_gain_loss
+  BEFORE INSERT ON supplier_payment_allocations
+  FOR EACH ROW EXECUTE FUNCTION set_allocation_fx_gain_loss();
+
+-- Ledger: exchange differences get their own source types and a gain/loss account
+ALTER TABLE journal_entries DROP CONSTRAINT IF EXISTS journal_entries_source_type_check;
+ALTER TABLE journal_entries ADD CONSTRAINT journal_entries_source_type_check
+  CHECK (source_type IN ('invoice', 'credit_note', 'payment', 'stock_movement', 'supplier_bill', 'supplier_payment',
+    'payment_allocation', 'supplier_payment_allocation'));
+
+CREATE OR REPLACE FUNCTION gl_seed_chart(p_company_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO gl_accounts (company_id, code, name, account_type, is_system)
+  VALUES
+    (p_company_id, '1000', 'Cash on Hand', 'asset', TRUE),
+    (p_company_id, '1010', 'Bank', 'asset', TRUE),
+    (p_company_id, '1020', 'M-Pesa', 'asset', TRUE),
+    (p_company_id, '1100', 'Accounts Receivable', 'asset', TRUE),
+    (p_company_id, '1200', 'Inventory', 'asset', TRUE),
+    (p_company_id, '1300', 'VAT Input', 'asset', TRUE),
+    (p_company_id, '2000', 'Accounts Payable', 'liability', TRUE),
+    (p_company_id, '2050', 'Goods Received Not Invoiced', 'liability', TRUE),
+    (p_company_id, '2100', 'VAT Output', 'liability', TRUE),
+    (p_company_id, '3000', 'Owner''s Equity', 'equity', TRUE),
+    (p_company_id, '3100', 'Retained Earnings', 'equity', TRUE),
+    (p_company_id, '4000', 'Sales', 'income', TRUE),
+    (p_company_id, '4100', 'Sales Returns', 'income', TRUE),
+    (p_company_id, '4200', 'Foreign Exchange Gain/Loss', 'income', TRUE),
+    (p_company_id, '5000', 'Cost of Goods Sold', 'expense', TRUE),
+    (p_company_id, '5100', 'Purchases', 'expense', TRUE),
+    (p_company_id, '5200', 'Stock Adjustments', 'expense', TRUE)
+  ON CONFLICT (company_id, code) DO NOTHING;
+
+  INSERT INTO gl_account_mappings (company_id, mapping_type, mapping_key, account_id)
+  SELECT p_company_id, m.mapping_type, m.mapping_key, a.id
+  FROM (VALUES
+    ('control', 'bank', '1010'),
+    ('control', 'receivables', '1100'),
+    ('control', 'inventory', '1200'),
+    ('control', 'vat_input', '1300'),
+    ('control', 'payables', '2000'),
+    ('control', 'grni', '2050'),
+    ('control', 'vat_output', '2100'),
+    ('control', 'sales', '4000'),
+    ('control', 'sales_returns', '4100'),
+    ('control', 'fx_gain_loss', '4200'),
+    ('control', 'cogs', '5000'),
+    ('control', 'purchases', '5100'),
+    ('control', 'stock_adjustment', '5200'),
+    ('payment_method', 'cash', '1000'),
+    ('payment_method', 'bank_transfer', '1010'),
+    ('payment_method', 'cheque', '1010'),
+    ('payment_method', 'card', '1010'),
+    ('payment_method', 'mobile_money', '1020'),
+    ('payment_method', 'mpesa', '1020')
+  ) AS m(mapping_type, mapping_key, code)
+  JOIN gl_accounts a ON a.company_id = p_company_id AND a.code = m.code
+  ON CONFLICT (company_id, mapping_type, mapping_key) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+SELECT gl_seed_chart(id) FROM companies;
+
+-- Invoice in base currency: each line converted at the invoice's rate, with any rounding left
+-- between the lines and the converted total taken to sales
+CREATE OR REPLACE FUNCTION gl_post_invoice(p_invoice_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_invoice RECORD;
+  v_item RECORD;
+  v_lines JSONB := '[]'::JSONB;
+  v_rate NUMERIC;
+  v_total NUMERIC := 0;
+  v_posted NUMERIC := 0;
+  v_receivable NUMERIC;
+  v_vat NUMERIC;
+  v_net NUMERIC;
+  v_count INTEGER := 0;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+  v_rate := COALESCE(v_invoice.exchange_rate, 1);
+
+  FOR v_item IN
+    SELECT ii.*, p.category_id FROM invoice_items ii
+    LEFT JOIN products p ON p.id = ii.product_id
+    WHERE ii.invoice_id = p_invoice_id
+  LOOP
+    v_count := v_count + 1;
+    v_vat := COALESCE(v_item.tax_amount, 0);
+    v_net := COALESCE(v_item.line_total, COALESCE(v_item.quantity, 0) * COALESCE(v_item.unit_price, 0) + v_vat) - v_vat;
+    v_lines := v_lines || jsonb_build_object(
+      'account_id', gl_account(v_invoice.company_id, 'category_sales', v_item.category_id::TEXT, 'sales'),
+      'credit', round(v_net * v_rate, 2), 'description', v_item.description);
+    IF v_vat <> 0 THEN
+      v_lines := v_lines || jsonb_build_object(
+        'account_id', gl_account(v_invoice.company_id, 'tax_rate', gl_rate_key(v_item.tax_percentage), 'vat_output'),
+        'credit', round(v_vat * v_rate, 2), 'description', format('VAT %s%%', gl_rate_key(v_item.tax_percentage)));
+    END IF;
+    v_total := v_total + v_net + v_vat;
+    v_posted := v_posted + round(v_net * v_rate, 2) + round(v_vat * v_rate, 2);
+  END LOOP;
+
+  -- Invoices without lines post from their header totals
+  IF v_count = 0 THEN
+    v_receivable := COALESCE(v_invoice.base_total_amount, round(COALESCE(v_invoice.total_amount, 0) * v_rate, 2));
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', gl_account(v_invoice.company_id, 'control', 'sales', 'sales'),
+        'credit', v_receivable - COALESCE(v_invoice.base_tax_amount, round(COALESCE(v_invoice.tax_amount, 0) * v_rate, 2))),
+      jsonb_build_object('account_id', gl_account(v_invoice.company_id, 'control', 'vat_output', 'vat_output'),
+        'credit', COALESCE(v_invoice.base_tax_amount, round(COALESCE(v_invoice.tax_amount, 0) * v_rate, 2))));
+  ELSE
+    v_receivable := round(v_total * v_rate, 2);
+    IF v_receivable <> v_posted THEN
+      v_lines := v_lines || jsonb_build_object(
+        'account_id', gl_account(v_invoice.company_id, 'control', 'sales', 'sales'),
+        'credit', v_receivable - v_posted, 'description', 'Currency rounding');
+    END IF;
+  END IF;
+
+  v_lines := v_lines || jsonb_build_object(
+    'account_id', gl_account(v_invoice.company_id, 'control', 'receivables', 'receivables'),
+    'debit', v_receivable, 'customer_id', v_invoice.customer_id);
+
+  RETURN gl_post(v_invoice.company_id, COALESCE(v_invoice.invoice_date, CURRENT_DATE), 'invoice', p_invoice_id,
+    v_invoice.invoice_number, format('Invoice %s', v_invoice.invoice_number), v_lines);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION gl_post_credit_note(p_credit_note_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_note RECORD;
+  v_item RECORD;
+  v_lines JSONB := '[]'::JSONB;
+  v_rate NUMERIC;
+  v_total NUMERIC := 0;
+  v_posted NUMERIC := 0;
+  v_receivable NUMERIC;
+  v_vat NUMERIC;
+  v_net NUMERIC;
+BEGIN
+  SELECT * INTO v_note FROM credit_notes WHERE id = p_credit_note_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+  v_rate := COALESCE(v_note.exchange_rate, 1);
+
+  FOR v_item IN SELECT * FROM credit_note_items WHERE credit_note_id = p_credit_note_id LOOP
+    v_vat := COALESCE(v_item.tax_amount, 0);
+    v_net := COALESCE(v_item.line_total, COALESCE(v_item.quantity, 0) * COALESCE(v_item.unit_price, 0) + v_vat) - v_vat;
+    v_lines := v_lines || jsonb_build_object(
+      'account_id', gl_account(v_note.company_id, 'control', 'sales_returns', 'sales_returns'),
+      'debit', round(v_net * v_rate, 2), 'description', v_item.description);
+    IF v_vat <> 0 THEN
+      v_lines := v_lines || jsonb_build_object(
+        'account_id', gl_account(v_note.company_id, 'tax_rate', gl_rate_key(v_item.tax_percentage), 'vat_output'),
+        'debit', round(v_vat * v_rate, 2), 'description', format('VAT %s%%', gl_rate_key(v_item.tax_percentage)));
+    END IF;
+    v_total := v_total + v_net + v_vat;
+    v_posted := v_posted + round(v_net * v_rate, 2) + round(v_vat * v_rate, 2);
+  END LOOP;
+
+  v_receivable := round(v_total * v_rate, 2);
+  IF v_receivable <> v_posted THEN
+    v_lines := v_lines || jsonb_build_object(
+      'account_id', gl_account(v_note.company_id, 'control', 'sales_returns', 'sales_returns'),
+      'debit', v_receivable - v_posted, 'description', 'Currency rounding');
+  END IF;
+
+  v_lines := v_lines || jsonb_build_object(
+    'account_id', gl_account(v_note.company_id, 'control', 'receivables', 'receivables'),
+    'credit', v_receivable, 'customer_id', v_note.customer_id);
+
+  RETURN gl_post(v_note.company_id, COALESCE(v_note.credit_note_date, CURRENT_DATE), 'credit_note', p_credit_note_id,
+    v_note.credit_note_number, format('Credit note %s', v_note.credit_note_number), v_lines);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION gl_post_payment(p_payment_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_payment RECORD;
+  v_amount NUMERIC;
+BEGIN
+  SELECT p.*, COALESCE(p.customer_id, i.customer_id) AS payer_id INTO v_payment
+  FROM payments p LEFT JOIN invoices i ON i.id = p.invoice_id
+  WHERE p.id = p_payment_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+  v_amount := COALESCE(v_payment.base_amount, v_payment.amount);
+
+  RETURN gl_post(v_payment.company_id, COALESCE(v_payment.payment_date, CURRENT_DATE), 'payment', p_payment_id,
+    v_payment.payment_number, format('Payment %s', COALESCE(v_payment.payment_number, v_payment.reference_number, '')),
+    jsonb_build_array(
+      jsonb_build_object('account_id', gl_account(v_payment.company_id, 'payment_method', v_payment.payment_method::TEXT, 'bank'),
+        'debit', v_amount, 'description', v_payment.reference_number),
+      jsonb_build_object('account_id', gl_account(v_payment.company_id, 'control', 'receivables', 'receivables'),
+        'credit', v_amount, 'customer_id', v_payment.payer_id)
+    ));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION gl_post_supplier_bill(p_bill_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_bill RECORD;
+  v_item RECORD;
+  v_lines JSONB := '[]'::JSONB;
+  v_rate NUMERIC;
+  v_total NUMERIC := 0;
+  v_posted NUMERIC := 0;
+  v_payable NUMERIC;
+  v_vat NUMERIC;
+  v_net NUMERIC;
+BEGIN
+  SELECT * INTO v_bill FROM supplier_bills WHERE id = p_bill_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+  v_rate := COALESCE(v_bill.exchange_rate, 1);
+
+  FOR v_item IN SELECT * FROM supplier_bill_items WHERE bill_id = p_bill_id LOOP
+    v_vat := COALESCE(v_item.tax_amount, 0);
+    v_net := COALESCE(v_item.line_total, COALESCE(v_item.quantity, 0) * COALESCE(v_item.unit_price, 0) + v_vat) - v_vat;
+    v_lines := v_lines || jsonb_build_object(
+      'account_id', CASE WHEN v_bill.lpo_id IS NOT NULL
+        THEN gl_account(v_bill.company_id, 'control', 'grni', 'grni')
+        ELSE gl_account(v_bill.company_id, 'control', 'purchases', 'purchases') END,
+      'debit', round(v_net * v_rate, 2), 'description', v_item.description);
+    v_lines := v_lines || jsonb_build_object(
+      'account_id', gl_account(v_bill.company_id, 'control', 'vat_input', 'vat_input'), 'debit', round(v_vat * v_rate, 2));
+    v_total := v_total + v_net + v_vat;
+    v_posted := v_posted + round(v_net * v_rate, 2) + round(v_vat * v_rate, 2);
+  END LOOP;
+
+  v_payable := round(v_total * v_rate, 2);
+  IF v_payable <> v_posted THEN
+    v_lines := v_lines || jsonb_build_object(
+      'account_id', gl_account(v_bill.company_id, 'control', 'purchases', 'purchases'),
+      'debit', v_payable - v_posted, 'description', 'Currency rounding');
+  END IF;
+
+  v_lines := v_lines || jsonb_build_object(
+    'account_id', gl_account(v_bill.company_id, 'control', 'payables', 'payables'),
+    'credit', v_payable, 'supplier_id', v_bill.supplier_id);
+
+  RETURN gl_post(v_bill.company_id, COALESCE(v_bill.bill_date, CURRENT_DATE), 'supplier_bill', p_bill_id,
+    v_bill.bill_number, format('Supplier bill %s', COALESCE(v_bill.supplier_invoice_number, v_bill.bill_number)), v_lines);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION gl_post_supplier_payment(p_payment_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_payment RECORD;
+  v_amount NUMERIC;
+BEGIN
+  SELECT * INTO v_payment FROM supplier_payments WHERE id = p_payment_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+  v_amount := COALESCE(v_payment.base_amount, v_payment.amount);
+
+  RETURN gl_post(v_payment.company_id, COALESCE(v_payment.payment_date, CURRENT_DATE), 'supplier_payment', p_payment_id,
+    v_payment.payment_number, format('Supplier payment %s', v_payment.payment_number),
+    jsonb_build_array(
+      jsonb_build_object('account_id', gl_account(v_payment.company_id, 'control', 'payables', 'payables'),
+        'debit', v_amount, 'supplier_id', v_payment.supplier_id),
+      jsonb_build_object('account_id', gl_account(v_payment.company_id, 'payment_method', v_payment.payment_method, 'bank'),
+        'credit', v_amount, 'description', v_payment.reference_number)
+    ));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A payment is reposted when its base amount changes, not only its amount
+CREATE OR REPLACE FUNCTION gl_payment_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    IF TG_OP = 'UPDATE' AND (OLD.base_amount, OLD.payment_method::TEXT, OLD.payment_date, OLD.customer_id)
+      IS NOT DISTINCT FROM (NEW.base_amount, NEW.payment_method::TEXT, NEW.payment_date, NEW.customer_id) THEN
+      RETURN NEW;
+    END IF;
+    PERFORM gl_reverse('payment', OLD.id, CURRENT_DATE,
+      format('%s of payment %s', CASE TG_OP WHEN 'DELETE' THEN 'Deletion' ELSE 'Correction' END, OLD.payment_number));
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM gl_post_payment(NEW.id);
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Exchange difference on a customer allocation: clears what the two rates left on receivables
+CREATE OR REPLACE FUNCTION gl_post_payment_allocation(p_allocation_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_allocation RECORD;
+BEGIN
+  SELECT a.*, p.company_id, p.payment_number, p.payment_date, i.invoice_number, i.customer_id INTO v_allocation
+  FROM payment_allocations a
+  JOIN payments p ON p.id = a.payment_id
+  JOIN invoices i ON i.id = a.invoice_id
+  WHERE a.id = p_allocation_id;
+  IF NOT FOUND OR COALESCE(v_allocation.realised_fx_gain_loss, 0) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN gl_post(v_allocation.company_id, COALESCE(v_allocation.payment_date, CURRENT_DATE), 'payment_allocation', p_allocation_id,
+    v_allocation.payment_number, format('Exchange difference: payment %s to invoice %s', COALESCE(v_allocation.payment_number, ''), v_allocation.invoice_number),
+    jsonb_build_array(
+      jsonb_build_object('account_id', gl_account(v_allocation.company_id, 'control', 'receivables', 'receivables'),
+        'debit', v_allocation.realised_fx_gain_loss, 'customer_id', v_allocation.customer_id),
+      jsonb_build_object('account_id', gl_account(v_allocation.company_id, 'control', 'fx_gain_loss', 'fx_gain_loss'),
+        'credit', v_allocation.realised_fx_gain_loss)
+    ));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Exchange difference on a supplier allocation: clears what the two rates left on payables
+CREATE OR REPLACE FUNCTION gl_post_supplier_payment_allocation(p_allocation_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_allocation RECORD;
+BEGIN
+  SELECT a.*, p.company_id, p.payment_number, p.payment_date, b.bill_number, b.supplier_id INTO v_allocation
+  FROM supplier_payment_allocations a
+  JOIN supplier_payments p ON p.id = a.payment_id
+  JOIN supplier_bills b ON b.id = a.bill_id
+  WHERE a.id = p_allocation_id;
+  IF NOT FOUND OR COALESCE(v_allocation.realised_fx_gain_loss, 0) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN gl_post(v_allocation.company_id, COALESCE(v_allocation.payment_date, CURRENT_DATE), 'supplier_payment_allocation', p_allocation_id,
+    v_allocation.payment_number, format('Exchange difference: supplier payment %s to bill %s', v_allocation.payment_number, v_allocation.bill_number),
+    jsonb_build_array(
+      jsonb_build_object('account_id', gl_account(v_allocation.company_id, 'control', 'payables', 'payables'),
+        'debit', v_allocation.realised_fx_gain_loss, 'supplier_id', v_allocation.supplier_id),
+      jsonb_build_object('account_id', gl_account(v_allocation.company_id, 'control', 'fx_gain_loss', 'fx_gain_loss'),
+        'credit', v_allocation.realised_fx_gain_loss)
+    ));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION gl_allocation_fx_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM gl_reverse(TG_ARGV[0], OLD.id, CURRENT_DATE, 'Removed payment allocation');
+    RETURN OLD;
+  END IF;
+  IF TG_ARGV[0] = 'payment_allocation' THEN
+    PERFORM gl_post_payment_allocation(NEW.id);
+  ELSE
+    PERFORM gl_post_supplier_payment_allocation(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS gl_post_payment_allocations ON payment_allocations;
+CREATE TRIGGER gl_post_payment_allocations
+  AFTER INSERT OR DELETE ON payment_allocations
+  FOR EACH ROW EXECUTE FUNCTION gl_allocation_fx_trigger('payment_allocation');
+
+DROP TRIGGER IF EXISTS gl_post_supplier_payment_allocations ON supplier_payment_allocations;
+CREATE TRIGGER gl_post_supplier_payment_allocations
+  AFTER INSERT OR DELETE ON supplier_payment_allocations
+  FOR EACH ROW EXECUTE FUNCTION gl_allocation_fx_trigger('supplier_payment_allocation');
+
+-- Payments take a currency and rate; without one they are in the invoice's currency (the first
+-- invoice's for split payments) and the rate comes from exchange_rates
+DROP FUNCTION IF EXISTS record_payment_with_allocation(UUID, UUID, UUID, VARCHAR, DATE, NUMERIC, VARCHAR, VARCHAR, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION record_payment_with_allocation(
+  p_company_id UUID,
+  p_customer_id UUID,
+  p_invoice_id UUID,
+  p_payment_number VARCHAR,
+  p_payment_date DATE,
+  p_amount NUMERIC,
+  p_payment_method VARCHAR,
+  p_reference_number VARCHAR,
+  p_notes TEXT,
+  p_allocations JSONB DEFAULT NULL,
+  p_currency VARCHAR DEFAULT NULL,
+  p_exchange_rate NUMERIC DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_invoice RECORD;
+  v_payment_id UUID;
+  v_customer_id UUID := p_customer_id;
+  v_currency VARCHAR := p_currency;
+  v_allocated NUMERIC := 0;
+  v_split JSONB;
+BEGIN
+  IF NOT has_permission('payment.record', p_company_id) THEN
+    RAISE EXCEPTION 'You do not have permission to record payments';
+  END IF;
+
+  -- Split payment: allocate_payment() checks each line against the invoice balance, the
+  -- customer, and the running total against the payment amount
+  IF p_allocations IS NOT NULL AND jsonb_typeof(p_allocations) = 'array' AND jsonb_array_length(p_allocations) > 0 THEN
+    IF p_invoice_id IS NOT NULL THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Pass either one invoice or a list of allocations, not both');
+    END IF;
+    IF p_amount <= 0 THEN
+      RETURN jsonb_build_object('success', false, 'error', 'A payment split across invoices must be a positive amount');
+    END IF;
+    IF v_customer_id IS NULL THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Select the customer this payment is from');
+    END IF;
+
+    IF v_currency IS NULL THEN
+      SELECT currency INTO v_currency FROM invoices WHERE id = (p_allocations->0->>'invoice_id')::UUID;
+    END IF;
+
+    INSERT INTO payments (
+      company_id, customer_id, payment_number, payment_date,
+      amount, payment_method, reference_number, notes, currency, exchange_rate
+    ) VALUES (
+      p_company_id, v_customer_id, p_payment_number, p_payment_date,
+      p_amount, p_payment_method, p_reference_number, p_notes, v_currency, p_exchange_rate
+    ) RETURNING id INTO v_payment_id;
+
+    v_split := allocate_payment(v_payment_id, p_allocations);
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'payment_id', v_payment_id,
+      'invoice_id', NULL,
+      'invoice_ids', (SELECT jsonb_agg(e->>'invoice_id') FROM jsonb_array_elements(p_allocations) e),
+      'amount_allocated', v_split->'amount_allocated',
+      'unallocated_amount', v_split->'unallocated_amount',
+      'invoice_balance', NULL
+    );
+  END IF;
+
+  IF p_invoice_id IS NOT NULL THEN
+    SELECT * INTO v_invoice FROM invoices
+    WHERE id = p_invoice_id AND company_id = p_company_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Invoice not found');
+    END IF;
+
+    IF v_invoice.status = 'void' THEN
+      RETURN jsonb_build_object('success', false, 'error', format('Invoice %s is void and cannot take payments', v_invoice.invoice_number));
+    END IF;
+
+    v_customer_id := COALESCE(v_customer_id, v_invoice.customer_id);
+    v_currency := COALESCE(v_currency, v_invoice.currency);
+    v_allocated := CASE
+      WHEN p_amount < 0 THEN p_amount
+      ELSE LEAST(p_amount, GREATEST(COALESCE(v_invoice.balance_due, v_invoice.total_amount - COALESCE(v_invoice.paid_amount, 0)), 0))
+    END;
+  ELSIF p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A payment without an invoice must be a positive amount');
+  END IF;
+
+  IF v_customer_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Select the customer this payment is from');
+  END IF;
+
+  INSERT INTO payments (
+    company_id, customer_id, payment_number, payment_date,
+    amount, payment_method, reference_number, notes, currency, exchange_rate
+  ) VALUES (
+    p_company_id, v_customer_id, p_payment_number, p_payment_date,
+    p_amount, p_payment_method, p_reference_number, p_notes, v_currency, p_exchange_rate
+  ) RETURNING id INTO v_payment_id;
+
+  IF v_allocated <> 0 THEN
+    PERFORM apply_payment_allocation(v_payment_id, p_invoice_id, v_allocated);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'payment_id', v_payment_id,
+    'invoice_id', p_invoice_id,
+    'amount_allocated', v_allocated,
+    'unallocated_amount', p_amount - v_allocated,
+    'invoice_balance', CASE WHEN p_invoice_id IS NULL THEN NULL
+      ELSE v_invoice.total_amount - (COALESCE(v_invoice.paid_amount, 0) + v_allocated) END
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION record_payment_with_allocation(UUID, UUID, UUID, VARCHAR, DATE, NUMERIC, VARCHAR, VARCHAR, TEXT, JSONB, VARCHAR, NUMERIC) TO authenticated;
+
+-- Access: every member reads rates (documents need them); settings.edit maintains them
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS exchange_rates_select ON exchange_rates;
+DROP POLICY IF EXISTS exchange_rates_insert ON exchange_rates;
+DROP POLICY IF EXISTS exchange_rates_update ON exchange_rates;
+DROP POLICY IF EXISTS exchange_rates_delete ON exchange_rates;
+CREATE POLICY exchange_rates_select ON exchange_rates FOR SELECT USING (company_role(company_id) IS NOT NULL);
+CREATE POLICY exchange_rates_insert ON exchange_rates FOR INSERT WITH CHECK (has_permission('settings.edit', company_id));
+CREATE POLICY exchange_rates_update ON exchange_rates FOR UPDATE USING (has_permission('settings.edit', company_id));
+CREATE POLICY exchange_rates_delete ON exchange_rates FOR DELETE USING (has_permission('settings.edit', company_id));
+
+-- A changed rate moves the base value of every later document, so rates are audited
+DROP TRIGGER IF EXISTS audit_exchange_rates ON exchange_rates;
+CREATE TRIGGER audit_exchange_rates
+  AFTER INSERT OR UPDATE OR DELETE ON exchange_rates
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+CREATE OR REPLACE FUNCTION audit_view_permission(p_entity_type TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE p_entity_type
+    WHEN 'quotations' THEN 'quotation.view'
+    WHEN 'invoices' THEN 'invoice.view'
+    WHEN 'proforma_invoices' THEN 'invoice.view'
+    WHEN 'recurring_invoices' THEN 'invoice.view'
+    WHEN 'credit_notes' THEN 'credit_note.view'
+    WHEN 'payments' THEN 'payment.view'
+    WHEN 'remittance_advice' THEN 'payment.view'
+    WHEN 'bank_accounts' THEN 'payment.view'
+    WHEN 'bank_reconciliations' THEN 'payment.view'
+    WHEN 'delivery_notes' THEN 'delivery_note.view'
+    WHEN 'lpos' THEN 'purchase.view'
+    WHEN 'goods_received_notes' THEN 'purchase.view'
+    WHEN 'suppliers' THEN 'purchase.view'
+    WHEN 'supplier_bills' THEN 'payable.view'
+    WHEN 'supplier_payments' THEN 'payable.view'
+    WHEN 'customers' THEN 'customer.view'
+    WHEN 'products' THEN 'inventory.view'
+    WHEN 'boqs' THEN 'boq.view'
+    WHEN 'gl_accounts' THEN 'ledger.view'
+    WHEN 'gl_account_mappings' THEN 'ledger.view'
+    WHEN 'exchange_rates' THEN 'settings.view'
+    ELSE 'audit.view'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+COMMIT;
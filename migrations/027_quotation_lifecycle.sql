@@ -0,0 +1,218 @@
+BEGIN;
+
+-- Quotation lifecycle: numbered revisions (Q-0012 Rev 2) with earlier versions kept read-only,
+-- expiry once valid_until has passed, and the outcome of each quote (accepted, declined or lost
+-- to a competitor) with the reason given.
+
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS revision_number INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS status_reason TEXT;
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS competitor VARCHAR(255);
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ;
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS status_changed_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+-- 'rejected' was only ever set by hand; it is now 'declined', which records why
+UPDATE quotations SET status = 'declined' WHERE status = 'rejected';
+
+ALTER TABLE quotations DROP CONSTRAINT IF EXISTS quotations_status_check;
+ALTER TABLE quotations ADD CONSTRAINT quotations_status_check
+  CHECK (status IN ('draft', 'sent', 'accepted', 'declined', 'lost', 'expired', 'converted')) NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_quotations_status_valid_until ON quotations(company_id, status, valid_until);
+
+-- Earlier versions of a quotation. The current version is the quotation itself; revising it
+-- stores a snapshot of its header and lines here before the next revision is edited.
+CREATE TABLE IF NOT EXISTS quotation_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  quotation_id UUID NOT NULL REFERENCES quotations(id) ON DELETE CASCADE,
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  data JSONB NOT NULL,              -- { "quotation": {...}, "items": [...] }
+  status VARCHAR(50),               -- status of the version when it was superseded
+  subtotal NUMERIC(15,2) DEFAULT 0,
+  tax_amount NUMERIC(15,2) DEFAULT 0,
+  total_amount NUMERIC(15,2) DEFAULT 0,
+  currency VARCHAR(3),
+  change_note TEXT,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(quotation_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quotation_revisions_quotation_id ON quotation_revisions(quotation_id);
+
+-- A quotation is edited in place only while it is a draft; once sent its lines change through a
+-- new revision (see migrations/016_document_posting.sql for the invoice equivalent)
+CREATE OR REPLACE FUNCTION posted_document_mutable_columns(p_table TEXT)
+RETURNS TEXT[] AS $$
+  SELECT CASE p_table
+    WHEN 'invoices' THEN ARRAY['status', 'paid_amount', 'balance_due', 'void_reason', 'voided_at', 'voided_by', 'updated_at',
+      'etims_status', 'etims_cu_serial_number', 'etims_cu_invoice_number', 'etims_signature', 'etims_qr_code', 'etims_submitted_at']
+    WHEN 'void_invoices' THEN ARRAY['updated_at',
+      'etims_status', 'etims_cu_serial_number', 'etims_cu_invoice_number', 'etims_signature', 'etims_qr_code', 'etims_submitted_at']
+    WHEN 'credit_notes' THEN ARRAY['status', 'applied_amount', 'balance', 'updated_at',
+      'etims_status', 'etims_cu_serial_number', 'etims_cu_invoice_number', 'etims_signature', 'etims_qr_code', 'etims_submitted_at']
+    WHEN 'lpos' THEN ARRAY['status', 'updated_at']
+    WHEN 'quotations' THEN ARRAY['status', 'status_reason', 'competitor', 'status_changed_at', 'status_changed_by', 'updated_at']
+    ELSE ARRAY['updated_at']
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION enforce_quotation_lifecycle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status IS DISTINCT FROM 'draft'
+     AND NEW.revision_number = OLD.revision_number
+     AND posted_document_changed(TG_TABLE_NAME, to_jsonb(OLD), to_jsonb(NEW)) THEN
+    RAISE EXCEPTION 'Quotation % has been sent and is read-only; revise it to make changes', OLD.quotation_number;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status IN ('declined', 'lost') AND COALESCE(btrim(NEW.status_reason), '') = '' THEN
+      RAISE EXCEPTION 'A reason is required to mark quotation % as %', NEW.quotation_number, NEW.status;
+    END IF;
+    NEW.status_changed_at := NOW();
+    NEW.status_changed_by := COALESCE(auth.uid(), NEW.status_changed_by);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS quotations_lifecycle ON quotations;
+CREATE TRIGGER quotations_lifecycle
+  BEFORE INSERT OR UPDATE ON quotations
+  FOR EACH ROW EXECUTE FUNCTION enforce_quotation_lifecycle();
+
+CREATE OR REPLACE FUNCTION enforce_quotation_items_lock()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_quotation RECORD;
+BEGIN
+  SELECT quotation_number, status INTO v_quotation
+  FROM quotations WHERE id = COALESCE(NEW.quotation_id, OLD.quotation_id);
+
+  IF FOUND AND v_quotation.status IS DISTINCT FROM 'draft' THEN
+    RAISE EXCEPTION 'Quotation % has been sent; revise it to change its lines', v_quotation.quotation_number;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS quotation_items_lock ON quotation_items;
+CREATE TRIGGER quotation_items_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON quotation_items
+  FOR EACH ROW EXECUTE FUNCTION enforce_quotation_items_lock();
+
+-- Store the current version as a read-only revision and open the next one as a draft.
+-- Returns the new revision number.
+CREATE OR REPLACE FUNCTION revise_quotation(p_quotation_id UUID, p_change_note TEXT DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_quotation quotations%ROWTYPE;
+  v_items JSONB;
+BEGIN
+  SELECT * INTO v_quotation FROM quotations WHERE id = p_quotation_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quotation not found';
+  END IF;
+  IF NOT has_permission('quotation.create', v_quotation.company_id) THEN
+    RAISE EXCEPTION 'You do not have permission to revise quotations';
+  END IF;
+  IF v_quotation.status = 'converted' THEN
+    RAISE EXCEPTION 'Quotation % has been converted to an invoice and cannot be revised', v_quotation.quotation_number;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(qi) ORDER BY qi.sort_order, qi.created_at), '[]'::jsonb) INTO v_items
+  FROM quotation_items qi WHERE qi.quotation_id = p_quotation_id;
+
+  INSERT INTO quotation_revisions (
+    quotation_id, company_id, revision_number, data, status,
+    subtotal, tax_amount, total_amount, currency, change_note, created_by
+  ) VALUES (
+    v_quotation.id, v_quotation.company_id, v_quotation.revision_number,
+    jsonb_build_object('quotation', to_jsonb(v_quotation), 'items', v_items), v_quotation.status,
+    v_quotation.subtotal, v_quotation.tax_amount, v_quotation.total_amount, v_quotation.currency,
+    NULLIF(btrim(p_change_note), ''), auth.uid()
+  );
+
+  UPDATE quotations
+  SET revision_number = v_quotation.revision_number + 1,
+      status = 'draft',
+      status_reason = NULL,
+      competitor = NULL,
+      updated_at = NOW()
+  WHERE id = p_quotation_id;
+
+  RETURN v_quotation.revision_number + 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION revise_quotation(UUID, TEXT) TO authenticated;
+
+-- Draft and sent quotations whose valid_until has passed. Run when quotations are listed, so
+-- no scheduler is needed; returns how many were expired.
+CREATE OR REPLACE FUNCTION expire_quotations(p_company_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF company_role(p_company_id) IS NULL THEN
+    RAISE EXCEPTION 'You are not a member of this company';
+  END IF;
+
+  UPDATE quotations
+  SET status = 'expired', updated_at = NOW()
+  WHERE company_id = p_company_id
+    AND status IN ('draft', 'sent')
+    AND valid_until < CURRENT_DATE;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION expire_quotations(UUID) TO authenticated;
+
+-- Access: revisions are read by anyone who can see quotations and written only by
+-- revise_quotation, so there are no insert, update or delete policies
+ALTER TABLE quotation_revisions ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS quotation_revisions_select ON quotation_revisions;
+CREATE POLICY quotation_revisions_select ON quotation_revisions FOR SELECT USING (has_permission('quotation.view', company_id));
+
+DROP TRIGGER IF EXISTS audit_quotation_revisions ON quotation_revisions;
+CREATE TRIGGER audit_quotation_revisions
+  AFTER INSERT OR UPDATE OR DELETE ON quotation_revisions
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change('quotation_id', 'quotations');
+
+CREATE OR REPLACE FUNCTION audit_view_permission(p_entity_type TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE p_entity_type
+    WHEN 'quotations' THEN 'quotation.view'
+    WHEN 'quotation_revisions' THEN 'quotation.view'
+    WHEN 'invoices' THEN 'invoice.view'
+    WHEN 'proforma_invoices' THEN 'invoice.view'
+    WHEN 'recurring_invoices' THEN 'invoice.view'
+    WHEN 'credit_notes' THEN 'credit_note.view'
+    WHEN 'payments' THEN 'payment.view'
+    WHEN 'remittance_advice' THEN 'payment.view'
+    WHEN 'bank_accounts' THEN 'payment.view'
+    WHEN 'bank_reconciliations' THEN 'payment.view'
+    WHEN 'delivery_notes' THEN 'delivery_note.view'
+    WHEN 'lpos' THEN 'purchase.view'
+    WHEN 'goods_received_notes' THEN 'purchase.view'
+    WHEN 'suppliers' THEN 'purchase.view'
+    WHEN 'supplier_bills' THEN 'payable.view'
+    WHEN 'supplier_payments' THEN 'payable.view'
+    WHEN 'customers' THEN 'customer.view'
+    WHEN 'products' THEN 'inventory.view'
+    WHEN 'boqs' THEN 'boq.view'
+    WHEN 'gl_accounts' THEN 'ledger.view'
+    WHEN 'gl_account_mappings' THEN 'ledger.view'
+    WHEN 'exchange_rates' THEN 'settings.view'
+    ELSE 'audit.view'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+COMMIT;
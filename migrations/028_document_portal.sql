@@ -0,0 +1,334 @@
+BEGIN;
+
+-- Customer portal: a quotation, proforma or invoice is shared through a link carrying a random
+-- token. Anyone holding an active link can view the document without signing in, and answer a
+-- quotation; links expire on a set date and can be revoked at any time.
+
+CREATE TABLE IF NOT EXISTS document_share_links (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  document_type VARCHAR(20) NOT NULL CHECK (document_type IN ('quotation', 'proforma', 'invoice')),
+  document_id UUID NOT NULL,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(24), 'hex'),
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  revoked_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TIMESTAMPTZ,
+  -- The customer's answer to a shared quotation
+  response VARCHAR(20) CHECK (response IN ('accepted', 'declined')),
+  responder_name VARCHAR(255),
+  response_comment TEXT,
+  responded_at TIMESTAMPTZ,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_share_links_document ON document_share_links(document_type, document_id);
+
+-- In-app notifications for a user, written by database functions (portal responses, ...)
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type VARCHAR(50) NOT NULL,
+  title TEXT NOT NULL,
+  message TEXT,
+  link TEXT,
+  entity_type VARCHAR(50),
+  entity_id UUID,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id, created_at DESC);
+
+-- A link always points at the same document until it expires; a revoked link stays revoked
+CREATE OR REPLACE FUNCTION enforce_share_link_immutable()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.company_id IS DISTINCT FROM OLD.company_id
+     OR NEW.document_type IS DISTINCT FROM OLD.document_type
+     OR NEW.document_id IS DISTINCT FROM OLD.document_id
+     OR NEW.token IS DISTINCT FROM OLD.token
+     OR NEW.expires_at IS DISTINCT FROM OLD.expires_at THEN
+    RAISE EXCEPTION 'A shared link cannot be changed; revoke it and share the document again';
+  END IF;
+  IF OLD.revoked_at IS NOT NULL AND NEW.revoked_at IS NULL THEN
+    RAISE EXCEPTION 'A revoked link cannot be restored';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS document_share_links_immutable ON document_share_links;
+CREATE TRIGGER document_share_links_immutable
+  BEFORE UPDATE ON document_share_links
+  FOR EACH ROW EXECUTE FUNCTION enforce_share_link_immutable();
+
+-- A link may only point at a document of its own company. The insert policy checks the company,
+-- so without this a user could share another company's document through their own.
+CREATE OR REPLACE FUNCTION enforce_share_link_document()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT CASE NEW.document_type
+    WHEN 'quotation' THEN EXISTS (SELECT 1 FROM quotations WHERE id = NEW.document_id AND company_id = NEW.company_id)
+    WHEN 'proforma' THEN EXISTS (SELECT 1 FROM proforma_invoices WHERE id = NEW.document_id AND company_id = NEW.company_id)
+    WHEN 'invoice' THEN EXISTS (SELECT 1 FROM invoices WHERE id = NEW.document_id AND company_id = NEW.company_id)
+    ELSE FALSE
+  END THEN
+    RAISE EXCEPTION 'The % to share was not found in this company', NEW.document_type;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS document_share_links_document ON document_share_links;
+CREATE TRIGGER document_share_links_document
+  BEFORE INSERT ON document_share_links
+  FOR EACH ROW EXECUTE FUNCTION enforce_share_link_document();
+
+-- The active link for a token, or an error the portal can show as is
+CREATE OR REPLACE FUNCTION active_share_link(p_token TEXT)
+RETURNS document_share_links AS $$
+DECLARE
+  v_link document_share_links%ROWTYPE;
+BEGIN
+  SELECT * INTO v_link FROM document_share_links WHERE token = p_token;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This link is not valid';
+  END IF;
+  IF v_link.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This link has been withdrawn; please ask for a new one';
+  END IF;
+  IF v_link.expires_at < NOW() THEN
+    RAISE EXCEPTION 'This link expired on %; please ask for a new one', to_char(v_link.expires_at, 'DD Mon YYYY');
+  END IF;
+  RETURN v_link;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The listed fields of a row, and nothing else. The portal is public, so documents are built from
+-- what is printed on them rather than from whole rows.
+CREATE OR REPLACE FUNCTION shared_document_fields(p_row JSONB, p_fields TEXT[])
+RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb) FROM jsonb_each(p_row) WHERE key = ANY(p_fields);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Everything the portal shows for a link: the document and its lines, the customer, and the
+-- company's contact and payment details. Each call counts as a view. Documents are read only
+-- from the link's own company.
+CREATE OR REPLACE FUNCTION get_shared_document(p_token TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_link document_share_links%ROWTYPE;
+  v_document JSONB;
+  v_items JSONB;
+  v_customer_id UUID;
+  v_totals TEXT[] := ARRAY['id', 'status', 'currency', 'subtotal', 'tax_amount', 'total_amount', 'notes', 'terms_and_conditions'];
+  v_item_fields TEXT[] := ARRAY['product_name', 'description', 'quantity', 'unit_price', 'discount_percentage',
+    'discount_before_vat', 'tax_percentage', 'tax_amount', 'tax_inclusive', 'line_total', 'unit_of_measure', 'sort_order'];
+BEGIN
+  v_link := active_share_link(p_token);
+
+  IF v_link.document_type = 'quotation' THEN
+    SELECT shared_document_fields(to_jsonb(q), v_totals || ARRAY['quotation_number', 'quotation_date', 'valid_until', 'revision_number']),
+      q.customer_id
+    INTO v_document, v_customer_id
+    FROM quotations q WHERE q.id = v_link.document_id AND q.company_id = v_link.company_id;
+    SELECT COALESCE(jsonb_agg(shared_document_fields(to_jsonb(qi), v_item_fields)
+      || jsonb_build_object('products', jsonb_build_object('name', p.name, 'unit_of_measure', p.unit_of_measure))
+      ORDER BY qi.sort_order, qi.created_at), '[]'::jsonb) INTO v_items
+    FROM quotation_items qi LEFT JOIN products p ON p.id = qi.product_id
+    WHERE qi.quotation_id = v_link.document_id;
+  ELSIF v_link.document_type = 'proforma' THEN
+    SELECT shared_document_fields(to_jsonb(pf), v_totals || ARRAY['proforma_number', 'proforma_date', 'valid_until']),
+      pf.customer_id
+    INTO v_document, v_customer_id
+    FROM proforma_invoices pf WHERE pf.id = v_link.document_id AND pf.company_id = v_link.company_id;
+    SELECT COALESCE(jsonb_agg(shared_document_fields(to_jsonb(pi), v_item_fields)
+      || jsonb_build_object('products', jsonb_build_object('name', p.name, 'unit_of_measure', p.unit_of_measure))
+      ORDER BY pi.sort_order, pi.created_at), '[]'::jsonb) INTO v_items
+    FROM proforma_items pi LEFT JOIN products p ON p.id = pi.product_id
+    WHERE pi.proforma_invoice_id = v_link.document_id;
+  ELSE
+    SELECT shared_document_fields(to_jsonb(i), v_totals || ARRAY['invoice_number', 'invoice_date', 'due_date', 'lpo_number',
+        'paid_amount', 'balance_due', 'etims_cu_serial_number', 'etims_cu_invoice_number', 'etims_signature', 'etims_qr_code']),
+      i.customer_id
+    INTO v_document, v_customer_id
+    FROM invoices i WHERE i.id = v_link.document_id AND i.company_id = v_link.company_id;
+    IF v_document->>'status' = 'void' THEN
+      RAISE EXCEPTION 'This invoice has been cancelled';
+    END IF;
+    SELECT COALESCE(jsonb_agg(shared_document_fields(to_jsonb(ii), v_item_fields)
+      || jsonb_build_object('products', jsonb_build_object('name', p.name, 'unit_of_measure', p.unit_of_measure))
+      ORDER BY ii.sort_order, ii.id), '[]'::jsonb) INTO v_items
+    FROM invoice_items ii LEFT JOIN products p ON p.id = ii.product_id
+    WHERE ii.invoice_id = v_link.document_id;
+  END IF;
+
+  IF v_document IS NULL THEN
+    RAISE EXCEPTION 'This document is no longer available';
+  END IF;
+
+  UPDATE document_share_links
+  SET view_count = view_count + 1, last_viewed_at = NOW()
+  WHERE id = v_link.id;
+
+  RETURN jsonb_build_object(
+    'link', jsonb_build_object(
+      'document_type', v_link.document_type,
+      'expires_at', v_link.expires_at,
+      'response', v_link.response,
+      'responder_name', v_link.responder_name,
+      'response_comment', v_link.response_comment,
+      'responded_at', v_link.responded_at
+    ),
+    'document', v_document,
+    'items', v_items,
+    'customer', (SELECT jsonb_build_object('name', c.name, 'email', c.email, 'phone', c.phone,
+        'address', c.address, 'city', c.city, 'country', c.country)
+      FROM customers c WHERE c.id = v_customer_id),
+    'company', (SELECT jsonb_build_object('name', co.name, 'address', co.address, 'city', co.city,
+        'country', co.country, 'phone', co.phone, 'email', co.email, 'tax_number', co.tax_number,
+        'logo_url', co.logo_url, 'currency', co.currency, 'mpesa_paybill_number', co.mpesa_paybill_number)
+      FROM companies co WHERE co.id = v_link.company_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_shared_document(TEXT) TO anon, authenticated;
+
+-- The customer accepts or declines a shared quotation. The quotation takes the answer as its
+-- status (see migrations/027_quotation_lifecycle.sql) and whoever raised it is notified.
+CREATE OR REPLACE FUNCTION respond_to_shared_quotation(p_token TEXT, p_response TEXT, p_name TEXT, p_comment TEXT DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+  v_link document_share_links%ROWTYPE;
+  v_quotation quotations%ROWTYPE;
+  v_name TEXT := btrim(COALESCE(p_name, ''));
+  v_comment TEXT := NULLIF(btrim(COALESCE(p_comment, '')), '');
+  v_number TEXT;
+  v_recipient UUID;
+BEGIN
+  v_link := active_share_link(p_token);
+
+  IF v_link.document_type <> 'quotation' THEN
+    RAISE EXCEPTION 'Only quotations can be accepted or declined';
+  END IF;
+  IF p_response NOT IN ('accepted', 'declined') THEN
+    RAISE EXCEPTION 'Choose to accept or decline the quotation';
+  END IF;
+  IF v_name = '' THEN
+    RAISE EXCEPTION 'Enter your name';
+  END IF;
+  IF v_link.response IS NOT NULL THEN
+    RAISE EXCEPTION 'This quotation was already % by %', v_link.response, v_link.responder_name;
+  END IF;
+
+  SELECT * INTO v_quotation FROM quotations
+  WHERE id = v_link.document_id AND company_id = v_link.company_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This document is no longer available';
+  END IF;
+  IF v_quotation.status NOT IN ('draft', 'sent') THEN
+    RAISE EXCEPTION 'This quotation is % and can no longer be answered online', v_quotation.status;
+  END IF;
+  IF v_quotation.valid_until < CURRENT_DATE THEN
+    RAISE EXCEPTION 'This quotation expired on %; please ask for an updated quotation', to_char(v_quotation.valid_until, 'DD Mon YYYY');
+  END IF;
+
+  v_number := v_quotation.quotation_number
+    || CASE WHEN COALESCE(v_quotation.revision_number, 1) > 1 THEN ' Rev ' || v_quotation.revision_number ELSE '' END;
+
+  UPDATE quotations
+  SET status = p_response,
+      status_reason = format('%s online by %s', initcap(p_response), v_name) || COALESCE(': ' || v_comment, ''),
+      competitor = NULL,
+      status_changed_by = NULL,
+      updated_at = NOW()
+  WHERE id = v_quotation.id;
+
+  UPDATE document_share_links
+  SET response = p_response, responder_name = v_name, response_comment = v_comment, responded_at = NOW()
+  WHERE id = v_link.id;
+
+  v_recipient := COALESCE(v_quotation.created_by, v_link.created_by);
+  IF v_recipient IS NOT NULL THEN
+    INSERT INTO notifications (company_id, user_id, type, title, message, link, entity_type, entity_id)
+    VALUES (
+      v_quotation.company_id, v_recipient, 'quotation_' || p_response,
+      format('Quotation %s %s', v_number, p_response),
+      format('%s %s the quotation online', v_name, p_response) || COALESCE(': ' || v_comment, ''),
+      '/quotations', 'quotations', v_quotation.id
+    );
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'status', p_response, 'quotation_number', v_number);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION respond_to_shared_quotation(TEXT, TEXT, TEXT, TEXT) TO anon, authenticated;
+
+-- Access: links are managed by whoever may view and raise the document type; the portal reads
+-- them only through the functions above. Notifications belong to their recipient.
+CREATE OR REPLACE FUNCTION share_link_permission(p_document_type TEXT, p_action TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE p_document_type WHEN 'quotation' THEN 'quotation.' ELSE 'invoice.' END || p_action;
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE document_share_links ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS document_share_links_select ON document_share_links;
+DROP POLICY IF EXISTS document_share_links_insert ON document_share_links;
+DROP POLICY IF EXISTS document_share_links_update ON document_share_links;
+CREATE POLICY document_share_links_select ON document_share_links FOR SELECT
+  USING (has_permission(share_link_permission(document_type, 'view'), company_id));
+CREATE POLICY document_share_links_insert ON document_share_links FOR INSERT
+  WITH CHECK (has_permission(share_link_permission(document_type, 'create'), company_id));
+CREATE POLICY document_share_links_update ON document_share_links FOR UPDATE
+  USING (has_permission(share_link_permission(document_type, 'create'), company_id));
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS notifications_select ON notifications;
+DROP POLICY IF EXISTS notifications_update ON notifications;
+CREATE POLICY notifications_select ON notifications FOR SELECT USING (user_id = auth.uid());
+CREATE POLICY notifications_update ON notifications FOR UPDATE USING (user_id = auth.uid());
+
+-- Sharing, revoking and the customer's answer are audited; views only move the counters
+DROP TRIGGER IF EXISTS audit_document_share_links ON document_share_links;
+CREATE TRIGGER audit_document_share_links
+  AFTER INSERT OR UPDATE OF revoked_at, response OR DELETE ON document_share_links
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+CREATE OR REPLACE FUNCTION audit_view_permission(p_entity_type TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE p_entity_type
+    WHEN 'quotations' THEN 'quotation.view'
+    WHEN 'quotation_revisions' THEN 'quotation.view'
+    WHEN 'invoices' THEN 'invoice.view'
+    WHEN 'proforma_invoices' THEN 'invoice.view'
+    WHEN 'recurring_invoices' THEN 'invoice.view'
+    WHEN 'document_share_links' THEN 'invoice.view'
+    WHEN 'credit_notes' THEN 'credit_note.view'
+    WHEN 'payments' THEN 'payment.view'
+    WHEN 'remittance_advice' THEN 'payment.view'
+    WHEN 'bank_accounts' THEN 'payment.view'
+    WHEN 'bank_reconciliations' THEN 'payment.view'
+    WHEN 'delivery_notes' THEN 'delivery_note.view'
+    WHEN 'lpos' THEN 'purchase.view'
+    WHEN 'goods_received_notes' THEN 'purchase.view'
+    WHEN 'suppliers' THEN 'purchase.view'
+    WHEN 'supplier_bills' THEN 'payable.view'
+    WHEN 'supplier_payments' THEN 'payable.view'
+    WHEN 'customers' THEN 'customer.view'
+    WHEN 'products' THEN 'inventory.view'
+    WHEN 'boqs' THEN 'boq.view'
+    WHEN 'gl_accounts' THEN 'ledger.view'
+    WHEN 'gl_account_mappings' THEN 'ledger.view'
+    WHEN 'exchange_rates' THEN 'settings.view'
+    ELSE 'audit.view'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+COMMIT;
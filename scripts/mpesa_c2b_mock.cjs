@@ -0,0 +1,164 @@
+// Local stand-in for the M-Pesa C2B callback endpoints, for testing paybill receipts end to end
+// without Safaricom. Confirmations are stored in mpesa_transactions exactly like statement imports,
+// and are then matched and recorded from the M-Pesa Receipts page.
+//
+//   DATABASE_URL=... node scripts/mpesa_c2b_mock.cjs
+//       Listens on MPESA_MOCK_PORT (default 8787) for
+//         POST /mpesa/c2b/validation    always accepts
+//         POST /mpesa/c2b/confirmation  stores the payment
+//       The company is the one whose mpesa_paybill_number is the BusinessShortCode, or MPESA_COMPANY_ID.
+//
+//   node scripts/mpesa_c2b_mock.cjs simulate <account reference> <amount> [short code] [receipt]
+//       Posts a sample confirmation to the running mock, like Daraja's C2B simulate call.
+//       Re-sending the same receipt shows how duplicates are handled.
+
+const http = require('http');
+const { Client } = require('pg');
+
+const port = Number(process.env.MPESA_MOCK_PORT || 8787);
+
+const pad = (n) => String(n).padStart(2, '0');
+
+// TransTime is YYYYMMDDHHmmss in East Africa Time
+function transTimeToIso(value) {
+  const m = String(value || '').match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/);
+  if (!m) return null;
+  return `${m[1]}-${m[2]}-${m[3]}T${m[4]}:${m[5]}:${m[6]}+03:00`;
+}
+
+function eatNow() {
+  const d = new Date(Date.now() + 3 * 60 * 60 * 1000);
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}`;
+}
+
+function readJson(req) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      try { resolve(JSON.parse(body || '{}')); } catch (e) { reject(new Error('Body is not valid JSON')); }
+    });
+    req.on('error', reject);
+  });
+}
+
+function reply(res, status, payload) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
+
+async function storeConfirmation(client, payload) {
+  const receipt = String(payload.TransID || '').trim().toUpperCase();
+  const time = transTimeToIso(payload.TransTime);
+  const amount = Number(payload.TransAmount);
+  if (!receipt || !time || !(amount > 0)) {
+    throw new Error('TransID, TransTime and a positive TransAmount are required');
+  }
+
+  const shortCode = String(payload.BusinessShortCode || '').trim();
+  const { rows: companies } = await client.query(
+    'SELECT id FROM companies WHERE mpesa_paybill_number = $1 LIMIT 1',
+    [shortCode]
+  );
+  const companyId = companies[0]?.id || process.env.MPESA_COMPANY_ID;
+  if (!companyId) {
+    throw new Error(`No company collects on paybill ${shortCode}. Set it in Company Settings or set MPESA_COMPANY_ID.`);
+  }
+
+  // A receipt someone already typed into Record Payment is kept but flagged
+  const { rows: existing } = await client.query(
+    'SELECT id FROM payments WHERE company_id = $1 AND upper(reference_number) = $2 LIMIT 1',
+    [companyId, receipt]
+  );
+
+  const payerName = [payload.FirstName, payload.MiddleName, payload.LastName].filter(Boolean).join(' ');
+  const { rows: inserted } = await client.query(
+    `INSERT INTO mpesa_transactions (
+       company_id, receipt_number, transaction_time, amount, account_reference, payer_name, payer_phone,
+       paybill_number, source, status, payment_id, raw_payload
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'c2b', $9, $10, $11)
+     ON CONFLICT (company_id, receipt_number) DO NOTHING
+     RETURNING id, status`,
+    [
+      companyId, receipt, time, amount, String(payload.BillRefNumber || '').trim() || null, payerName || null,
+      payload.MSISDN ? String(payload.MSISDN) : null, shortCode || null,
+      existing.length > 0 ? 'duplicate' : 'pending', existing[0]?.id || null, payload,
+    ]
+  );
+
+  return inserted[0] ? { receipt, status: inserted[0].status } : { receipt, status: 'already received' };
+}
+
+async function serve() {
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    console.error('Missing DATABASE_URL');
+    process.exit(1);
+  }
+  const client = new Client({ connectionString, ssl: { rejectUnauthorized: false } });
+  await client.connect();
+
+  const server = http.createServer(async (req, res) => {
+    if (req.method !== 'POST') return reply(res, 405, { ResultCode: 'C2B00016', ResultDesc: 'Method not allowed' });
+
+    try {
+      const payload = await readJson(req);
+      if (req.url === '/mpesa/c2b/validation') {
+        console.log(`Validation ${payload.TransID || ''} ${payload.BillRefNumber || ''} ${payload.TransAmount || ''}`);
+        return reply(res, 200, { ResultCode: '0', ResultDesc: 'Accepted' });
+      }
+      if (req.url === '/mpesa/c2b/confirmation') {
+        const result = await storeConfirmation(client, payload);
+        console.log(`Confirmation ${result.receipt}: ${result.status}`);
+        return reply(res, 200, { ResultCode: 0, ResultDesc: 'Accepted' });
+      }
+      return reply(res, 404, { ResultCode: 'C2B00016', ResultDesc: 'Not found' });
+    } catch (e) {
+      console.error(e.message || e);
+      return reply(res, 400, { ResultCode: 'C2B00016', ResultDesc: e.message || 'Rejected' });
+    }
+  });
+
+  const shutdown = () => server.close(() => client.end().then(() => process.exit(0)));
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  server.listen(port, () => {
+    console.log(`M-Pesa C2B mock listening on http://localhost:${port}/mpesa/c2b/confirmation`);
+  });
+}
+
+async function simulate([account, amount, shortCode, receipt]) {
+  if (!account || !amount) {
+    console.error('Usage: node scripts/mpesa_c2b_mock.cjs simulate <account reference> <amount> [short code] [receipt]');
+    process.exit(1);
+  }
+  const payload = {
+    TransactionType: 'Pay Bill',
+    TransID: receipt || `S${Date.now().toString(36).toUpperCase().slice(-9)}`,
+    TransTime: eatNow(),
+    TransAmount: String(amount),
+    BusinessShortCode: shortCode || process.env.MPESA_SHORTCODE || '600000',
+    BillRefNumber: account,
+    InvoiceNumber: '',
+    OrgAccountBalance: '',
+    ThirdPartyTransID: '',
+    MSISDN: '2547 ***** 126',
+    FirstName: 'TEST',
+    MiddleName: '',
+    LastName: 'CUSTOMER',
+  };
+
+  const res = await fetch(`http://localhost:${port}/mpesa/c2b/confirmation`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  console.log(`Sent ${payload.TransID} (${account}, ${amount}):`, res.status, await res.text());
+}
+
+const [command, ...args] = process.argv.slice(2);
+(command === 'simulate' ? simulate(args) : serve()).catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -9,7 +9,10 @@ import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
 import Index from "./pages/Index";
 import Quotations from "./pages/Quotations";
 import Invoices from "./pages/Invoices";
+import RecurringInvoices from "./pages/RecurringInvoices";
 import Payments from "./pages/Payments";
+import BankReconciliation from "./pages/BankReconciliation";
+import MpesaReceipts from "./pages/MpesaReceipts";
 import Inventory from "./pages/Inventory";
 import Customers from "./pages/Customers";
 import DeliveryNotes from "./pages/DeliveryNotes";
@@ -17,13 +20,25 @@ import Proforma from "./pages/Proforma";
 import SalesReports from "./pages/reports/SalesReports";
 import InventoryReports from "./pages/reports/InventoryReports";
 import StatementOfAccounts from "./pages/reports/StatementOfAccounts";
+import SupplierAging from "./pages/reports/SupplierAging";
+import VatReturn from "./pages/reports/VatReturn";
+import FinancialStatements from "./pages/reports/FinancialStatements";
+import GeneralLedger from "./pages/GeneralLedger";
 import CompanySettings from "./pages/settings/CompanySettings";
 import UserManagement from "./pages/settings/UserManagement";
+import AuditLog from "./pages/settings/AuditLog";
 import UnitsSettings from "./pages/settings/Units";
+import DocumentPortal from "./pages/DocumentPortal";
 import UnitsNormalize from "./pages/settings/UnitsNormalize";
+import ExchangeRates from "./pages/settings/ExchangeRates";
 import RemittanceAdvice from "./pages/RemittanceAdvice";
 import LPOs from "./pages/LPOs";
+import Suppliers from "./pages/Suppliers";
+import GoodsReceivedNotes from "./pages/GoodsReceivedNotes";
+import SupplierBills from "./pages/SupplierBills";
+import SupplierPayments from "./pages/SupplierPayments";
 import BOQs from "./pages/BOQs";
+import BOQRateLibrary from "./pages/BOQRateLibrary";
 import CreditNotes from "./pages/CreditNotes";
 import NotFound from "./pages/NotFound";
 import PaymentSynchronizationPage from "./pages/PaymentSynchronization";
@@ -62,7 +77,7 @@ const App = () => {
           <Route 
             path="/quotations" 
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="quotation.view">
                 <Quotations />
               </ProtectedRoute>
             } 
@@ -70,7 +85,7 @@ const App = () => {
           <Route 
             path="/quotations/new" 
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="quotation.create">
                 <Quotations />
               </ProtectedRoute>
             } 
@@ -78,7 +93,7 @@ const App = () => {
           <Route 
             path="/customers" 
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="customer.view">
                 <Customers />
               </ProtectedRoute>
             } 
@@ -86,7 +101,7 @@ const App = () => {
           <Route 
             path="/customers/new" 
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="customer.manage">
                 <Customers />
               </ProtectedRoute>
             } 
@@ -96,7 +111,7 @@ const App = () => {
           <Route 
             path="/invoices" 
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="invoice.view">
                 <Invoices />
               </ProtectedRoute>
             } 
@@ -104,23 +119,47 @@ const App = () => {
           <Route 
             path="/invoices/new" 
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="invoice.create">
                 <Invoices />
               </ProtectedRoute>
             } 
           />
+          <Route 
+            path="/recurring-invoices" 
+            element={
+              <ProtectedRoute permission="invoice.view">
+                <RecurringInvoices />
+              </ProtectedRoute>
+            } 
+          />
           <Route 
             path="/payments" 
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="payment.view">
                 <Payments />
               </ProtectedRoute>
             } 
           />
+          <Route 
+            path="/bank-reconciliation" 
+            element={
+              <ProtectedRoute permission="payment.view">
+                <BankReconciliation />
+              </ProtectedRoute>
+            } 
+          />
+          <Route 
+            path="/mpesa" 
+            element={
+              <ProtectedRoute permission="payment.view">
+                <MpesaReceipts />
+              </ProtectedRoute>
+            } 
+          />
           <Route 
             path="/payments/new" 
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="payment.record">
                 <Payments />
               </ProtectedRoute>
             } 
@@ -128,7 +167,7 @@ const App = () => {
           <Route 
             path="/credit-notes" 
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="credit_note.view">
                 <CreditNotes />
               </ProtectedRoute>
             } 
@@ -136,7 +175,7 @@ const App = () => {
           <Route 
             path="/credit-notes/new" 
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="credit_note.create">
                 <CreditNotes />
               </ProtectedRoute>
             } 
@@ -144,7 +183,7 @@ const App = () => {
           <Route 
             path="/proforma" 
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="invoice.view">
                 <Proforma />
               </ProtectedRoute>
             } 
@@ -154,15 +193,23 @@ const App = () => {
           <Route
             path="/boqs"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="boq.view">
                 <BOQs />
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/boqs/rates"
+            element={
+              <ProtectedRoute permission="boq.view">
+                <BOQRateLibrary />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/lpos"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="purchase.view">
                 <LPOs />
               </ProtectedRoute>
             }
@@ -170,15 +217,47 @@ const App = () => {
           <Route 
             path="/lpos/new" 
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="purchase.create">
                 <LPOs />
               </ProtectedRoute>
             } 
           />
+          <Route
+            path="/suppliers"
+            element={
+              <ProtectedRoute permission="purchase.view">
+                <Suppliers />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/grns"
+            element={
+              <ProtectedRoute permission="purchase.view">
+                <GoodsReceivedNotes />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/supplier-bills"
+            element={
+              <ProtectedRoute permission="payable.view">
+                <SupplierBills />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/supplier-payments"
+            element={
+              <ProtectedRoute permission="payable.view">
+                <SupplierPayments />
+              </ProtectedRoute>
+            }
+          />
           <Route 
             path="/inventory" 
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="inventory.view">
                 <Inventory />
               </ProtectedRoute>
             } 
@@ -186,7 +265,7 @@ const App = () => {
           <Route 
             path="/inventory/new" 
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="inventory.manage">
                 <Inventory />
               </ProtectedRoute>
             } 
@@ -194,7 +273,7 @@ const App = () => {
           <Route 
             path="/delivery-notes" 
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="delivery_note.view">
                 <DeliveryNotes />
               </ProtectedRoute>
             } 
@@ -204,7 +283,7 @@ const App = () => {
           <Route 
             path="/remittance" 
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="payment.view">
                 <RemittanceAdvice />
               </ProtectedRoute>
             } 
@@ -214,7 +293,7 @@ const App = () => {
           <Route 
             path="/reports/sales" 
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="report.sales">
                 <SalesReports />
               </ProtectedRoute>
             } 
@@ -222,7 +301,7 @@ const App = () => {
           <Route 
             path="/reports/inventory" 
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="report.inventory">
                 <InventoryReports />
               </ProtectedRoute>
             } 
@@ -230,17 +309,51 @@ const App = () => {
           <Route 
             path="/reports/statements" 
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="report.sales">
                 <StatementOfAccounts />
               </ProtectedRoute>
             } 
           />
+          <Route
+            path="/reports/supplier-aging"
+            element={
+              <ProtectedRoute permission="report.payables">
+                <SupplierAging />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/reports/vat"
+            element={
+              <ProtectedRoute permission="report.tax">
+                <VatReturn />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/reports/financial"
+            element={
+              <ProtectedRoute permission="ledger.view">
+                <FinancialStatements />
+              </ProtectedRoute>
+            }
+          />
+
+          {/* Accounting */}
+          <Route
+            path="/ledger"
+            element={
+              <ProtectedRoute permission="ledger.view">
+                <GeneralLedger />
+              </ProtectedRoute>
+            }
+          />
 
           {/* Settings */}
           <Route
             path="/settings/company"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="settings.view">
                 <CompanySettings />
               </ProtectedRoute>
             }
@@ -248,15 +361,31 @@ const App = () => {
           <Route
             path="/settings/users"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="user.manage">
                 <UserManagement />
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/settings/audit-log"
+            element={
+              <ProtectedRoute permission="audit.view">
+                <AuditLog />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/settings/exchange-rates"
+            element={
+              <ProtectedRoute permission="settings.view">
+                <ExchangeRates />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/settings/units"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="settings.edit">
                 <UnitsSettings />
               </ProtectedRoute>
             }
@@ -264,7 +393,7 @@ const App = () => {
           <Route
             path="/settings/units/normalize"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="settings.edit">
                 <UnitsNormalize />
               </ProtectedRoute>
             }
@@ -291,7 +420,7 @@ const App = () => {
           <Route
             path="/optimized-inventory"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="inventory.view">
                 <OptimizedInventory />
               </ProtectedRoute>
             }
@@ -305,7 +434,7 @@ const App = () => {
           <Route
             path="/optimized-customers"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="customer.view">
                 <OptimizedCustomers />
               </ProtectedRoute>
             }
@@ -317,6 +446,9 @@ const App = () => {
 
 
 
+          {/* Customer portal - shared documents, no sign-in */}
+          <Route path="/portal/:token" element={<DocumentPortal />} />
+
           {/* 404 Page */}
           <Route path="*" element={<NotFound />} />
         </Routes>
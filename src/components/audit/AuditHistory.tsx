@@ -0,0 +1,105 @@
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { History, Loader2, User } from 'lucide-react';
+import { useEntityAuditLog } from '@/hooks/useAuditLog';
+import {
+  AuditLogEntry,
+  auditActionColor,
+  auditActionLabel,
+  auditChangeRows,
+  auditEntityLabel,
+  auditFieldLabel,
+  formatAuditValue,
+} from '@/utils/auditLog';
+
+export function AuditChanges({ entry }: { entry: AuditLogEntry }) {
+  const rows = auditChangeRows(entry);
+  if (rows.length === 0) return null;
+
+  const showOld = entry.action !== 'created';
+  const showNew = entry.action !== 'deleted';
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-1/4">Field</TableHead>
+          {showOld && <TableHead>{showNew ? 'Before' : 'Value'}</TableHead>}
+          {showNew && <TableHead>{showOld ? 'After' : 'Value'}</TableHead>}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(row => (
+          <TableRow key={row.field}>
+            <TableCell className="font-medium">{auditFieldLabel(row.field)}</TableCell>
+            {showOld && <TableCell className="text-muted-foreground break-all">{formatAuditValue(row.old)}</TableCell>}
+            {showNew && <TableCell className="break-all">{formatAuditValue(row.new)}</TableCell>}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+interface AuditHistoryProps {
+  entityType: string;
+  entityId: string | undefined;
+}
+
+// Timeline of changes to a document, shown in the History tab of the View*Modals
+export function AuditHistory({ entityType, entityId }: AuditHistoryProps) {
+  const { data: entries = [], isLoading, error } = useEntityAuditLog(entityType, entityId);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin mr-2" />
+        Loading history...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="py-8 text-center text-sm text-destructive">
+        Could not load history: {(error as Error).message}
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="py-8 text-center text-muted-foreground">
+        <History className="h-8 w-8 mx-auto mb-2" />
+        No recorded changes yet
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {entries.map(entry => (
+        <div key={entry.id} className="border rounded-lg p-4 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center space-x-2">
+              <Badge variant="outline" className={auditActionColor(entry.action)}>
+                {auditActionLabel(entry.action)}
+              </Badge>
+              {entry.entity_type !== entityType && (
+                <span className="text-sm text-muted-foreground">{auditEntityLabel(entry.entity_type)}</span>
+              )}
+            </div>
+            <div className="flex items-center space-x-3 text-sm text-muted-foreground">
+              <span className="flex items-center">
+                <User className="h-3 w-3 mr-1" />
+                {entry.actor_name || 'System'}
+              </span>
+              <span>{new Date(entry.created_at).toLocaleString()}</span>
+            </div>
+          </div>
+          <AuditChanges entry={entry} />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,24 +1,29 @@
 import { ReactNode } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/usePermissions';
+import { Permission } from '@/utils/permissions';
 import { Card, CardContent } from '@/components/ui/card';
-import { Lock } from 'lucide-react';
+import { Lock, ShieldOff } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
 interface ProtectedRouteProps {
   children: ReactNode;
   fallback?: ReactNode;
   requireAuth?: boolean;
+  permission?: Permission;
 }
 
 export function ProtectedRoute({
   children,
   fallback,
   requireAuth = true,
+  permission,
 }: ProtectedRouteProps) {
   const { isAuthenticated, loading } = useAuth();
+  const { can, isLoading: permissionsLoading } = usePermissions();
 
   // Show loading state
-  if (loading) {
+  if (loading || (permission && isAuthenticated && permissionsLoading)) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
         <div className="text-center">
@@ -49,6 +54,23 @@ export function ProtectedRoute({
     );
   }
 
+  // Check permission for the selected company
+  if (permission && isAuthenticated && !can(permission)) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Card className="w-full max-w-md text-center">
+          <CardContent className="pt-6">
+            <ShieldOff className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-semibold mb-2">Access Denied</h3>
+            <p className="text-muted-foreground">
+              You do not have permission to view this page. Ask an administrator to grant you access.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 }
 
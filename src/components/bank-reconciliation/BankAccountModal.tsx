@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Landmark } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import {
+  useCreateBankAccount,
+  useUpdateBankAccount,
+  type BankAccount,
+  type BankAccountInput,
+} from '@/hooks/useBankReconciliation';
+
+interface BankAccountModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  account?: BankAccount | null;
+  onSaved?: (account: BankAccount) => void;
+}
+
+const emptyAccount = (currency = 'KES'): BankAccountInput => ({
+  account_name: '',
+  bank_name: '',
+  account_number: '',
+  currency,
+  opening_balance: 0,
+  is_active: true,
+});
+
+export function BankAccountModal({ open, onOpenChange, account, onSaved }: BankAccountModalProps) {
+  const { currentCompany } = useCurrentCompany();
+  const createAccount = useCreateBankAccount();
+  const updateAccount = useUpdateBankAccount();
+  const [form, setForm] = useState<BankAccountInput>(emptyAccount(currentCompany?.currency));
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(account ? {
+      account_name: account.account_name,
+      bank_name: account.bank_name || '',
+      account_number: account.account_number || '',
+      currency: account.currency,
+      opening_balance: Number(account.opening_balance || 0),
+      is_active: account.is_active,
+    } : emptyAccount(currentCompany?.currency));
+  }, [open, account, currentCompany?.currency]);
+
+  const isSaving = createAccount.isPending || updateAccount.isPending;
+  // Moving the opening balance after a reconciliation would break every later one
+  const openingLocked = !!account?.last_reconciled_date;
+
+  const handleSave = async () => {
+    if (!form.account_name.trim()) {
+      toast.error('Please enter an account name');
+      return;
+    }
+    if (!currentCompany?.id) {
+      toast.error('Company not found. Please refresh and try again.');
+      return;
+    }
+
+    try {
+      const saved = account
+        ? await updateAccount.mutateAsync({ id: account.id, account: openingLocked ? { ...form, opening_balance: account.opening_balance } : form })
+        : await createAccount.mutateAsync({ companyId: currentCompany.id, account: form });
+      toast.success(`Bank account ${saved.account_name} saved`);
+      onSaved?.(saved);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving bank account:', error);
+      toast.error((error as { message?: string })?.message || 'Failed to save bank account');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Landmark className="h-5 w-5 text-primary" />
+            <span>{account ? 'Edit Bank Account' : 'Add Bank Account'}</span>
+          </DialogTitle>
+          <DialogDescription>
+            Statements are imported and reconciled per bank account.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="account_name">Account Name *</Label>
+            <Input
+              id="account_name"
+              value={form.account_name}
+              onChange={(e) => setForm(prev => ({ ...prev, account_name: e.target.value }))}
+              placeholder="e.g. Equity Current Account"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="bank_name">Bank</Label>
+              <Input
+                id="bank_name"
+                value={form.bank_name || ''}
+                onChange={(e) => setForm(prev => ({ ...prev, bank_name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="account_number">Account Number</Label>
+              <Input
+                id="account_number"
+                value={form.account_number || ''}
+                onChange={(e) => setForm(prev => ({ ...prev, account_number: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="currency">Currency</Label>
+              <Input
+                id="currency"
+                value={form.currency}
+                maxLength={3}
+                onChange={(e) => setForm(prev => ({ ...prev, currency: e.target.value.toUpperCase() }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="opening_balance">Opening Balance</Label>
+              <Input
+                id="opening_balance"
+                type="number"
+                step="0.01"
+                value={form.opening_balance}
+                disabled={openingLocked}
+                onChange={(e) => setForm(prev => ({ ...prev, opening_balance: parseFloat(e.target.value) || 0 }))}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {openingLocked
+              ? 'The opening balance is fixed once the account has been reconciled.'
+              : 'The balance before the first transaction you will import.'}
+          </p>
+          {account && (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="is_active">Active</Label>
+              <Switch
+                id="is_active"
+                checked={form.is_active}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, is_active: checked }))}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Account'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FileUp, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useImportBankStatement, type BankAccount } from '@/hooks/useBankReconciliation';
+import { readBankStatementFile, type ParsedStatement } from '@/utils/bankStatementImport';
+
+interface ImportStatementModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  account: BankAccount;
+  onImported?: () => void;
+}
+
+const PREVIEW_ROWS = 50;
+
+export function ImportStatementModal({ open, onOpenChange, account, onImported }: ImportStatementModalProps) {
+  const { profile } = useAuth();
+  const importStatement = useImportBankStatement();
+  const [fileName, setFileName] = useState('');
+  const [statement, setStatement] = useState<ParsedStatement | null>(null);
+  const [reading, setReading] = useState(false);
+
+  const formatCurrency = (amount: number) => new Intl.NumberFormat('en-KE', { style: 'currency', currency: account.currency || 'KES' }).format(amount);
+
+  const reset = () => {
+    setFileName('');
+    setStatement(null);
+  };
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setReading(true);
+    try {
+      setStatement(await readBankStatementFile(file));
+      setFileName(file.name);
+    } catch (err) {
+      console.error('Failed to read bank statement', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to read file');
+      setStatement(null);
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!statement || statement.lines.length === 0) { toast.error('Nothing to import'); return; }
+
+    try {
+      const result = await importStatement.mutateAsync({
+        companyId: account.company_id,
+        bankAccountId: account.id,
+        fileName,
+        statement,
+        importedBy: profile?.id || null,
+      });
+      toast.success(`Imported ${result.imported} transaction${result.imported === 1 ? '' : 's'} into ${account.account_name}`, result.skipped > 0 ? {
+        description: `${result.skipped} already imported from an earlier statement were skipped.`
+      } : undefined);
+      reset();
+      onImported?.();
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Failed to import bank statement', err);
+      toast.error((err as { message?: string })?.message || 'Failed to import bank statement');
+    }
+  };
+
+  const credits = statement?.lines.filter(l => l.amount > 0) || [];
+  const debits = statement?.lines.filter(l => l.amount < 0) || [];
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { if (!o) reset(); onOpenChange(o); }}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <FileUp className="h-5 w-5 text-primary" />
+            <span>Import Statement — {account.account_name}</span>
+          </DialogTitle>
+          <DialogDescription>
+            Upload a CSV export or an OFX/QFX download from the bank. Transactions already imported are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div>
+            <Label>Statement File</Label>
+            <Input type="file" accept=".csv,.ofx,.qfx" disabled={reading} onChange={e => handleFile(e.target.files?.[0])} />
+            {reading && <p className="text-sm text-muted-foreground mt-1">Reading file...</p>}
+          </div>
+
+          {statement && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <span className="text-muted-foreground">Period</span>
+                  <div className="font-medium">
+                    {statement.period_start ? new Date(statement.period_start).toLocaleDateString() : '-'} – {statement.period_end ? new Date(statement.period_end).toLocaleDateString() : '-'}
+                  </div>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Credits</span>
+                  <div className="font-medium text-success">
+                    {credits.length} • {formatCurrency(credits.reduce((sum, l) => sum + l.amount, 0))}
+                  </div>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Debits</span>
+                  <div className="font-medium text-destructive">
+                    {debits.length} • {formatCurrency(Math.abs(debits.reduce((sum, l) => sum + l.amount, 0)))}
+                  </div>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Closing Balance</span>
+                  <div className="font-medium">
+                    {statement.closing_balance === null ? 'Not in file' : formatCurrency(statement.closing_balance)}
+                  </div>
+                </div>
+              </div>
+
+              {statement.errors.length > 0 && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    {statement.errors.length} row{statement.errors.length === 1 ? '' : 's'} could not be read and will be left out:
+                    <ul className="list-disc ml-5 mt-1">
+                      {statement.errors.slice(0, 5).map((e, i) => (
+                        <li key={i}>Row {e.row}: {e.reason}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statement.lines.slice(0, PREVIEW_ROWS).map((line) => (
+                    <TableRow key={line.external_id}>
+                      <TableCell>{new Date(line.transaction_date).toLocaleDateString()}</TableCell>
+                      <TableCell className="max-w-xs truncate">{line.description}</TableCell>
+                      <TableCell>{line.reference || '-'}</TableCell>
+                      <TableCell className={`text-right font-medium ${line.amount > 0 ? 'text-success' : 'text-destructive'}`}>
+                        {formatCurrency(line.amount)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {line.running_balance === null ? '-' : formatCurrency(line.running_balance)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {statement.lines.length > PREVIEW_ROWS && (
+                <p className="text-sm text-muted-foreground">
+                  Showing the first {PREVIEW_ROWS} of <Badge variant="outline">{statement.lines.length}</Badge> transactions.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={importStatement.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={importStatement.isPending || !statement || statement.lines.length === 0}>
+            {importStatement.isPending ? 'Importing...' : `Import ${statement?.lines.length || 0} Transactions`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
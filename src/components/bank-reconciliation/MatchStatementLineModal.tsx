@@ -0,0 +1,213 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Link2, Plus, Receipt } from 'lucide-react';
+import { toast } from 'sonner';
+import { useMatchStatementLine, type BankStatementLine } from '@/hooks/useBankReconciliation';
+import {
+  MATCH_DATE_WINDOW_DAYS,
+  paymentCandidates,
+  referenceMatches,
+  suggestInvoicesForLine,
+  type MatchablePayment,
+  type SuggestableInvoice,
+} from '@/utils/bankReconciliation';
+import { invoiceOpenBalance } from '@/utils/customerCredit';
+
+// Widened window offered when nothing matches within MATCH_DATE_WINDOW_DAYS
+const WIDE_WINDOW_DAYS = 30;
+
+type CandidatePayment = MatchablePayment & { customers?: { name?: string | null } | null };
+
+interface MatchStatementLineModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  line: BankStatementLine;
+  payments: CandidatePayment[]; // banked payments not yet matched to any statement line
+  invoices: SuggestableInvoice[];
+  currency?: string;
+  canRecord: boolean;
+  onRecordPayment: (invoice: SuggestableInvoice | null) => void;
+}
+
+export function MatchStatementLineModal({
+  open,
+  onOpenChange,
+  line,
+  payments,
+  invoices,
+  currency = 'KES',
+  canRecord,
+  onRecordPayment
+}: MatchStatementLineModalProps) {
+  const matchLine = useMatchStatementLine();
+  const [wideWindow, setWideWindow] = useState(false);
+
+  const candidates = useMemo(
+    () => paymentCandidates(line, payments, wideWindow ? WIDE_WINDOW_DAYS : MATCH_DATE_WINDOW_DAYS),
+    [line, payments, wideWindow]
+  );
+  const suggestions = useMemo(() => suggestInvoicesForLine(line, invoices), [line, invoices]);
+
+  const formatCurrency = (amount: number) => new Intl.NumberFormat('en-KE', { style: 'currency', currency }).format(amount);
+
+  const handleMatch = async (payment: CandidatePayment) => {
+    try {
+      await matchLine.mutateAsync({ line, paymentId: payment.id, method: 'manual' });
+      toast.success(`Statement line matched to payment ${payment.payment_number}`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error matching statement line:', error);
+      toast.error((error as { message?: string })?.message || 'Failed to match statement line');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Link2 className="h-5 w-5 text-primary" />
+            <span>Match Statement Credit</span>
+          </DialogTitle>
+          <DialogDescription>
+            {new Date(line.transaction_date).toLocaleDateString()} • {formatCurrency(Number(line.amount))}
+            {line.reference ? ` • Ref ${line.reference}` : ''}
+            {line.description ? ` • ${line.description}` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Recorded Payments</CardTitle>
+              <CardDescription>
+                Payments of the same amount within {wideWindow ? WIDE_WINDOW_DAYS : MATCH_DATE_WINDOW_DAYS} days that have not cleared through the bank yet
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {candidates.length === 0 ? (
+                <div className="flex items-center justify-between text-sm text-muted-foreground">
+                  <span>No recorded payment matches this credit.</span>
+                  {!wideWindow && (
+                    <Button variant="outline" size="sm" onClick={() => setWideWindow(true)}>
+                      Search {WIDE_WINDOW_DAYS} Days
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Payment</TableHead>
+                      <TableHead>Customer</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Reference</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {candidates.map(payment => (
+                      <TableRow key={payment.id}>
+                        <TableCell className="font-medium">{payment.payment_number}</TableCell>
+                        <TableCell>{payment.customers?.name || '-'}</TableCell>
+                        <TableCell>{new Date(payment.payment_date).toLocaleDateString()}</TableCell>
+                        <TableCell>
+                          {payment.reference_number || '-'}
+                          {referenceMatches(line, payment) && (
+                            <Badge variant="outline" className="ml-2 bg-success-light text-success border-success/20">Ref match</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(Number(payment.amount))}</TableCell>
+                        <TableCell className="text-right">
+                          {canRecord && (
+                            <Button size="sm" onClick={() => handleMatch(payment)} disabled={matchLine.isPending}>
+                              Match
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Suggested Invoices</CardTitle>
+              <CardDescription>
+                Not recorded yet? Create the payment from this statement line
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {suggestions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No open invoice stands out for this credit. Record the payment and choose the invoice yourself.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Invoice</TableHead>
+                      <TableHead>Customer</TableHead>
+                      <TableHead className="text-right">Balance Due</TableHead>
+                      <TableHead>Why</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {suggestions.map(({ invoice, reasons }) => (
+                      <TableRow key={invoice.id}>
+                        <TableCell className="font-medium">{invoice.invoice_number}</TableCell>
+                        <TableCell>{invoice.customers?.name || '-'}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(invoiceOpenBalance(invoice))}</TableCell>
+                        <TableCell className="space-x-1">
+                          {reasons.map(reason => (
+                            <Badge key={reason} variant="outline">{reason}</Badge>
+                          ))}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {canRecord && (
+                            <Button size="sm" variant="outline" onClick={() => onRecordPayment(invoice)}>
+                              <Receipt className="h-4 w-4 mr-1" />
+                              Record
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {canRecord && (
+            <Button onClick={() => onRecordPayment(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Record Payment
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
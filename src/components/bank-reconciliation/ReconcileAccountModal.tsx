@@ -0,0 +1,170 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  useCompleteBankReconciliation,
+  type BankAccount,
+  type BankStatementLine,
+} from '@/hooks/useBankReconciliation';
+import { buildReconciliationReport } from '@/utils/bankReconciliation';
+
+interface ReconcileAccountModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  account: BankAccount;
+  lines: BankStatementLine[];
+  defaultDate: string;
+  defaultBalance: number | null;
+}
+
+export function ReconcileAccountModal({ open, onOpenChange, account, lines, defaultDate, defaultBalance }: ReconcileAccountModalProps) {
+  const completeReconciliation = useCompleteBankReconciliation();
+  const [statementDate, setStatementDate] = useState(defaultDate);
+  const [statementBalance, setStatementBalance] = useState('');
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setStatementDate(defaultDate);
+    setStatementBalance(defaultBalance === null ? '' : defaultBalance.toFixed(2));
+    setNotes('');
+  }, [open, defaultDate, defaultBalance]);
+
+  const balance = statementBalance === '' ? null : Number(statementBalance);
+  const report = useMemo(
+    () => buildReconciliationReport(account, lines, statementDate, balance),
+    [account, lines, statementDate, balance]
+  );
+  const newLines = lines.filter(l => !l.reconciliation_id && l.transaction_date <= statementDate).length;
+
+  const formatCurrency = (amount: number) => new Intl.NumberFormat('en-KE', { style: 'currency', currency: account.currency || 'KES' }).format(amount);
+
+  const blocker = !statementDate
+    ? 'Choose the statement date'
+    : account.last_reconciled_date && statementDate <= account.last_reconciled_date
+      ? `Already reconciled to ${new Date(account.last_reconciled_date).toLocaleDateString()}`
+      : balance === null || isNaN(balance)
+        ? 'Enter the closing balance shown on the statement'
+        : report.unmatched_lines.length > 0
+          ? `${report.unmatched_lines.length} credit${report.unmatched_lines.length === 1 ? ' is' : 's are'} still unmatched`
+          : report.difference !== 0
+            ? `Out of balance by ${formatCurrency(report.difference || 0)}`
+            : null;
+
+  const handleComplete = async () => {
+    if (blocker || balance === null) {
+      toast.error(blocker);
+      return;
+    }
+
+    try {
+      const result = await completeReconciliation.mutateAsync({
+        bankAccountId: account.id,
+        statementDate,
+        statementBalance: balance,
+        notes,
+      });
+      toast.success(`${account.account_name} reconciled to ${new Date(statementDate).toLocaleDateString()}`, {
+        description: `${result?.line_count ?? newLines} statement lines closed.`
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error completing reconciliation:', error);
+      toast.error((error as { message?: string })?.message || 'Failed to complete reconciliation');
+    }
+  };
+
+  const row = (label: string, value: number, className = '') => (
+    <div className={`flex justify-between ${className}`}>
+      <span>{label}</span>
+      <span className="font-semibold">{formatCurrency(value)}</span>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <CheckCircle className="h-5 w-5 text-success" />
+            <span>Reconcile {account.account_name}</span>
+          </DialogTitle>
+          <DialogDescription>
+            Closes every imported line up to the statement date once the balances agree.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="statement_date">Statement Date *</Label>
+              <Input id="statement_date" type="date" value={statementDate} onChange={(e) => setStatementDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="statement_balance">Statement Balance *</Label>
+              <Input
+                id="statement_balance"
+                type="number"
+                step="0.01"
+                value={statementBalance}
+                onChange={(e) => setStatementBalance(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="bg-muted/50 p-4 rounded-lg space-y-1 text-sm">
+            {row('Opening balance', report.opening_balance)}
+            {row('Matched receipts', report.matched_credits)}
+            {row('Unmatched credits', report.unmatched_credits, report.unmatched_credits > 0 ? 'text-warning' : '')}
+            {row('Other credits (ignored)', report.ignored_credits)}
+            {row('Debits', report.debits)}
+            <div className="border-t pt-1">
+              {row('Balance per imported lines', report.computed_balance)}
+            </div>
+            {report.difference !== null && row('Difference', report.difference, report.difference !== 0 ? 'text-destructive' : 'text-success')}
+          </div>
+
+          {blocker ? (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{blocker}</AlertDescription>
+            </Alert>
+          ) : (
+            <p className="text-sm text-muted-foreground">{newLines} statement lines will be marked reconciled.</p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="reconciliation_notes">Notes</Label>
+            <Textarea id="reconciliation_notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={completeReconciliation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleComplete}
+            disabled={completeReconciliation.isPending || !!blocker}
+            className="bg-success hover:bg-success/90"
+          >
+            {completeReconciliation.isPending ? 'Reconciling...' : 'Complete Reconciliation'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { BookOpen } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCreateBOQRate, useProducts, useUnits, useUpdateBOQRate, type BOQRate } from '@/hooks/useDatabase';
+import { parseRateTags } from '@/utils/boqRateLibrary';
+
+interface BOQRateModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rate?: BOQRate | null; // existing library entry to edit
+  initial?: { description?: string; unit_id?: string; default_rate?: number }; // prefill when saving a typed BOQ line
+  onSaved?: (rate: BOQRate) => void;
+}
+
+const NO_VALUE = '__none';
+
+export function BOQRateModal({ open, onOpenChange, rate, initial, onSaved }: BOQRateModalProps) {
+  const { currentCompany } = useCurrentCompany();
+  const { profile } = useAuth();
+  const { data: units = [] } = useUnits(currentCompany?.id);
+  const { data: products = [] } = useProducts(currentCompany?.id);
+  const createRate = useCreateBOQRate();
+  const updateRate = useUpdateBOQRate();
+
+  const [description, setDescription] = useState('');
+  const [unitId, setUnitId] = useState(NO_VALUE);
+  const [defaultRate, setDefaultRate] = useState(0);
+  const [productId, setProductId] = useState(NO_VALUE);
+  const [tags, setTags] = useState('');
+  const [isActive, setIsActive] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setDescription(rate?.description || initial?.description || '');
+    setUnitId(rate?.unit_id || initial?.unit_id || NO_VALUE);
+    setDefaultRate(Number(rate?.default_rate ?? initial?.default_rate ?? 0));
+    setProductId(rate?.product_id || NO_VALUE);
+    setTags((rate?.tags || []).join(', '));
+    setIsActive(rate ? rate.is_active !== false : true);
+  }, [open, rate, initial]);
+
+  const handleProductChange = (value: string) => {
+    setProductId(value);
+    const product = products.find(p => p.id === value);
+    if (!product) return;
+    if (!description.trim()) setDescription(product.description || product.name);
+    if (!defaultRate) setDefaultRate(Number(product.selling_price || 0));
+  };
+
+  const handleSave = async () => {
+    if (!description.trim()) { toast.error('Description is required'); return; }
+    if (defaultRate < 0) { toast.error('Rate cannot be negative'); return; }
+
+    const payload = {
+      description: description.trim(),
+      unit_id: unitId === NO_VALUE ? null : unitId,
+      default_rate: defaultRate,
+      product_id: productId === NO_VALUE ? null : productId,
+      tags: parseRateTags(tags),
+      is_active: isActive,
+    };
+
+    setSaving(true);
+    try {
+      const saved = rate
+        ? await updateRate.mutateAsync({ id: rate.id, updates: payload })
+        : await createRate.mutateAsync({
+          ...payload,
+          company_id: currentCompany?.id || null,
+          created_by: profile?.id || null,
+        });
+      toast.success(rate ? 'Library rate updated' : 'Rate added to library');
+      onOpenChange(false);
+      if (onSaved) onSaved(saved);
+    } catch (err) {
+      console.error('Failed to save library rate', err);
+      toast.error('Failed to save library rate');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <BookOpen className="h-5 w-5 text-primary" />
+            <span>{rate ? 'Edit Library Rate' : 'Add to Rate Library'}</span>
+          </DialogTitle>
+          <DialogDescription>
+            Standard rates are offered to estimators when they add BOQ items.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Description</Label>
+            <Input value={description} onChange={e => setDescription(e.target.value)} placeholder="e.g. 200mm thick natural stone walling" />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Unit</Label>
+              <Select value={unitId} onValueChange={setUnitId}>
+                <SelectTrigger><SelectValue placeholder="Unit" /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_VALUE}>No unit</SelectItem>
+                  {units.map(u => (
+                    <SelectItem key={u.id} value={u.id}>{u.name}{u.abbreviation ? ` (${u.abbreviation})` : ''}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Default Rate</Label>
+              <Input type="number" min={0} step="0.01" value={defaultRate} onChange={e => setDefaultRate(Number(e.target.value))} />
+            </div>
+          </div>
+          <div>
+            <Label>Linked Product (optional)</Label>
+            <Select value={productId} onValueChange={handleProductChange}>
+              <SelectTrigger><SelectValue placeholder="No product" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_VALUE}>No product</SelectItem>
+                {products.map(p => (
+                  <SelectItem key={p.id} value={p.id}>{p.name}{p.product_code ? ` (${p.product_code})` : ''}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Tags</Label>
+            <Input value={tags} onChange={e => setTags(e.target.value)} placeholder="masonry, walling" />
+          </div>
+          {rate && (
+            <div className="flex items-center space-x-2">
+              <Switch id="rate-active" checked={isActive} onCheckedChange={setIsActive} />
+              <Label htmlFor="rate-active">Active</Label>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving}>{saving ? 'Saving...' : 'Save'}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,279 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { History, Eye, Download, GitCompare } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { useBOQRevisions, useUnits, type BOQ, type BOQRevision } from '@/hooks/useDatabase';
+import { downloadBOQPDF, type BoqItem } from '@/utils/boqPdfGenerator';
+import { resolveBoqUnit } from '@/utils/boqConverter';
+import { diffBoqRevisions, revisionLabel, BoqChangeType } from '@/utils/boqRevisions';
+import { boqItemKind, computeBoqTotals } from '@/utils/boqTotals';
+
+interface BOQRevisionsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  boq: BOQ | null;
+}
+
+const CHANGE_STYLES: Record<BoqChangeType, string> = {
+  added: 'bg-success-light text-success border-success/20',
+  removed: 'bg-destructive-light text-destructive border-destructive/20',
+  changed: 'bg-warning-light text-warning border-warning/20',
+  unchanged: 'bg-muted text-muted-foreground border-muted-foreground/20',
+};
+
+export function BOQRevisionsModal({ open, onOpenChange, boq }: BOQRevisionsModalProps) {
+  const { currentCompany } = useCurrentCompany();
+  const { data: revisions = [], isLoading } = useBOQRevisions(open ? boq?.id : undefined);
+  const { data: units = [] } = useUnits(currentCompany?.id);
+
+  const [tab, setTab] = useState('history');
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [compareFrom, setCompareFrom] = useState('');
+  const [compareTo, setCompareTo] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setTab('history');
+    setViewingId(null);
+  }, [open]);
+
+  // Default the comparison to the two most recent revisions
+  const latestId = revisions[0]?.id || '';
+  const previousId = revisions[1]?.id || latestId;
+  useEffect(() => {
+    setCompareTo(latestId);
+    setCompareFrom(previousId);
+  }, [latestId, previousId]);
+
+  const viewing = revisions.find(r => r.id === viewingId) || null;
+  const fromRevision = revisions.find(r => r.id === compareFrom);
+  const toRevision = revisions.find(r => r.id === compareTo);
+
+  const diff = useMemo(
+    () => (fromRevision && toRevision ? diffBoqRevisions(fromRevision.data, toRevision.data) : []),
+    [fromRevision, toRevision]
+  );
+
+  const formatCurrency = (amount: number) => new Intl.NumberFormat('en-KE', {
+    style: 'currency',
+    currency: boq?.currency || 'KES',
+  }).format(Number(amount || 0));
+
+  const viewingTotals = useMemo(() => (viewing ? computeBoqTotals(viewing.data || { sections: [] }) : null), [viewing]);
+
+  const describeItem = (it: BoqItem) => {
+    const kind = boqItemKind(it);
+    if (kind === 'percentage') return `${it.percentage}%`;
+    if (kind !== 'measured') return `Sum ${formatCurrency(it.rate || 0)}`;
+    return `${it.quantity ?? 1} ${resolveBoqUnit(it, units)} @ ${formatCurrency(it.rate || 0)}`;
+  };
+
+  const authorName = (revision: BOQRevision) => revision.author?.full_name || revision.author?.email || 'Unknown';
+
+  const handleDownload = async (revision: BOQRevision) => {
+    try {
+      const doc = { ...revision.data, number: `${revision.data?.number || boq.number} ${revisionLabel(revision.revision_number)}` };
+      await downloadBOQPDF(doc, currentCompany ? {
+        name: currentCompany.name,
+        logo_url: currentCompany.logo_url || undefined,
+        address: currentCompany.address || undefined,
+        city: currentCompany.city || undefined,
+        country: currentCompany.country || undefined,
+        phone: currentCompany.phone || undefined,
+        email: currentCompany.email || undefined,
+      } : undefined);
+      toast.success(`${revisionLabel(revision.revision_number)} downloaded`);
+    } catch (err) {
+      console.error('Download failed', err);
+      toast.error('Failed to download revision');
+    }
+  };
+
+  if (!boq) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <History className="h-5 w-5 text-primary" />
+            <span>BOQ {boq.number} Revisions</span>
+          </DialogTitle>
+          <DialogDescription>
+            Every saved version of this BOQ. View, compare or print any revision.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={setTab}>
+          <TabsList>
+            <TabsTrigger value="history">History</TabsTrigger>
+            <TabsTrigger value="compare" disabled={revisions.length < 2}>Compare</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="history" className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Revision</TableHead>
+                  <TableHead>Saved</TableHead>
+                  <TableHead>Author</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow><TableCell colSpan={6}>Loading...</TableCell></TableRow>
+                ) : revisions.length === 0 ? (
+                  <TableRow><TableCell colSpan={6}>No revisions recorded yet</TableCell></TableRow>
+                ) : revisions.map(r => (
+                  <TableRow key={r.id}>
+                    <TableCell>
+                      <span className="font-medium">{revisionLabel(r.revision_number)}</span>
+                      {r.revision_number === boq.current_revision && <Badge variant="outline" className="ml-2">Current</Badge>}
+                    </TableCell>
+                    <TableCell>{new Date(r.created_at).toLocaleString()}</TableCell>
+                    <TableCell>{authorName(r)}</TableCell>
+                    <TableCell>{r.change_note || '-'}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(r.total_amount)}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Button size="icon" variant="ghost" onClick={() => setViewingId(viewingId === r.id ? null : r.id)} title="View">
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" onClick={() => handleDownload(r)} title="Download">
+                          <Download className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {viewing && (
+              <div className="space-y-4 border border-border rounded-lg p-4">
+                <div className="font-semibold">{revisionLabel(viewing.revision_number)} — {viewing.data?.project_title || boq.project_title || boq.number}</div>
+                {(viewing.data?.sections || []).map((sec, idx) => (
+                  <div key={idx}>
+                    <div className="font-medium">{sec.title || `Section ${idx + 1}`}</div>
+                    <table className="w-full text-sm mt-2">
+                      <thead>
+                        <tr className="text-left text-muted-foreground border-b">
+                          <th>Description</th><th>Qty</th><th>Unit</th><th>Rate</th><th>Amount</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {(sec.items || []).map((it, i) => (
+                          <tr key={i}>
+                            <td>{it.description}</td>
+                            <td>{boqItemKind(it) === 'percentage' ? `${it.percentage}%` : it.quantity}</td>
+                            <td>{boqItemKind(it) === 'measured' ? resolveBoqUnit(it, units) : boqItemKind(it) === 'percentage' ? '' : 'Sum'}</td>
+                            <td>{boqItemKind(it) === 'percentage' ? '' : formatCurrency(it.rate)}</td>
+                            <td>{formatCurrency(viewingTotals?.sections[idx]?.itemAmounts[i] || 0)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="compare" className="space-y-4">
+            <div className="flex items-end gap-4">
+              <div className="w-48">
+                <Label>From</Label>
+                <Select value={compareFrom} onValueChange={setCompareFrom}>
+                  <SelectTrigger><SelectValue placeholder="Revision" /></SelectTrigger>
+                  <SelectContent>
+                    {revisions.map(r => (
+                      <SelectItem key={r.id} value={r.id}>{revisionLabel(r.revision_number)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <GitCompare className="h-5 w-5 mb-2 text-muted-foreground" />
+              <div className="w-48">
+                <Label>To</Label>
+                <Select value={compareTo} onValueChange={setCompareTo}>
+                  <SelectTrigger><SelectValue placeholder="Revision" /></SelectTrigger>
+                  <SelectContent>
+                    {revisions.map(r => (
+                      <SelectItem key={r.id} value={r.id}>{revisionLabel(r.revision_number)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {fromRevision && toRevision && (
+                <div className="ml-auto text-sm">
+                  Total change: <span className="font-semibold">{formatCurrency(Number(toRevision.total_amount || 0) - Number(fromRevision.total_amount || 0))}</span>
+                </div>
+              )}
+            </div>
+
+            {diff.map((section, idx) => (
+              <div key={idx} className="border border-border rounded-lg p-4 space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{section.title}</span>
+                    <Badge variant="outline" className={CHANGE_STYLES[section.type]}>{section.type}</Badge>
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {formatCurrency(section.totalBefore)} → {formatCurrency(section.totalAfter)}
+                  </div>
+                </div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground border-b">
+                      <th>Item</th><th>Change</th><th>Before</th><th>After</th><th className="text-right">Amount Δ</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {section.items.filter(i => i.type !== 'unchanged').map((item, i) => (
+                      <tr key={i}>
+                        <td>{item.description}</td>
+                        <td>
+                          <Badge variant="outline" className={CHANGE_STYLES[item.type]}>
+                            {item.type === 'changed' ? item.changedFields.join(', ') : item.type}
+                          </Badge>
+                        </td>
+                        <td>{item.before ? describeItem(item.before) : '-'}</td>
+                        <td>{item.after ? describeItem(item.after) : '-'}</td>
+                        <td className="text-right">{formatCurrency(item.amountDelta)}</td>
+                      </tr>
+                    ))}
+                    {section.items.every(i => i.type === 'unchanged') && (
+                      <tr><td colSpan={5} className="text-muted-foreground">No item changes</td></tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
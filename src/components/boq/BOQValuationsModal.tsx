@@ -0,0 +1,526 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ClipboardCheck, Plus, Edit, Download, Trash2, CheckCircle, Receipt, AlertTriangle, ArrowLeft } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  useBOQValuations,
+  useCreateBOQValuation,
+  useCustomers,
+  useDeleteBOQValuation,
+  useGenerateDocumentNumber,
+  useTaxSettings,
+  useUnits,
+  useUpdateBOQValuation,
+  type BOQ,
+  type BOQValuation,
+} from '@/hooks/useDatabase';
+import { useCreateInvoiceWithItems } from '@/hooks/useQuotationItems';
+import { downloadValuationCertificatePDF } from '@/utils/boqPdfGenerator';
+import { calculateItemTax } from '@/utils/taxCalculation';
+import {
+  buildValuationLines,
+  certificateLabel,
+  computeCertificate,
+  ValuationLine,
+  ValuationMode,
+  valuationLineValue,
+  valuationLineWarning,
+} from '@/utils/boqValuation';
+
+interface BOQValuationsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  boq: BOQ | null;
+}
+
+interface ValuationDraft {
+  id?: string;
+  valuation_number?: number;
+  valuation_date: string;
+  retention_percentage: number;
+  notes: string;
+  lines: ValuationLine[];
+  previous_certified: number;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  draft: 'bg-muted text-muted-foreground border-muted-foreground/20',
+  certified: 'bg-warning-light text-warning border-warning/20',
+  invoiced: 'bg-success-light text-success border-success/20',
+};
+
+const addDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+export function BOQValuationsModal({ open, onOpenChange, boq }: BOQValuationsModalProps) {
+  const { currentCompany } = useCurrentCompany();
+  const companyId = currentCompany?.id;
+  const { profile } = useAuth();
+  const { data: valuations = [], isLoading } = useBOQValuations(open ? boq?.id : undefined);
+  const { data: units = [] } = useUnits(companyId);
+  const { data: customers = [] } = useCustomers(companyId);
+  const { data: taxSettings = [] } = useTaxSettings(companyId);
+  const createValuation = useCreateBOQValuation();
+  const updateValuation = useUpdateBOQValuation();
+  const deleteValuation = useDeleteBOQValuation();
+  const generateDocNumber = useGenerateDocumentNumber();
+  const createInvoice = useCreateInvoiceWithItems();
+
+  const [draft, setDraft] = useState<ValuationDraft | null>(null);
+  const [invoicing, setInvoicing] = useState<BOQValuation | null>(null);
+  const [customerId, setCustomerId] = useState('');
+  const [invoiceDate, setInvoiceDate] = useState(addDays(0));
+  const [dueDate, setDueDate] = useState(addDays(30));
+  const [applyTax, setApplyTax] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  const defaultTax = taxSettings.find(t => t.is_default && t.is_active);
+  const taxRate = applyTax ? Number(defaultTax?.rate ?? 16) : 0;
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(null);
+    setInvoicing(null);
+  }, [open]);
+
+  const latest = valuations[valuations.length - 1];
+  const canStartNew = !latest || latest.status !== 'draft';
+
+  const sumCertifiedBefore = (valuationNumber?: number) => valuations
+    .filter(v => valuationNumber === undefined || v.valuation_number < valuationNumber)
+    .reduce((sum, v) => sum + Number(v.amount_due || 0), 0);
+
+  const certificate = useMemo(
+    () => (draft ? computeCertificate(draft.lines, draft.retention_percentage, draft.previous_certified) : null),
+    [draft]
+  );
+
+  const formatCurrency = (amount: number) => new Intl.NumberFormat('en-KE', {
+    style: 'currency',
+    currency: boq?.currency || 'KES',
+  }).format(Number(amount || 0));
+
+  const companyDetails = currentCompany ? {
+    name: currentCompany.name,
+    logo_url: currentCompany.logo_url || undefined,
+    address: currentCompany.address || undefined,
+    city: currentCompany.city || undefined,
+    country: currentCompany.country || undefined,
+    phone: currentCompany.phone || undefined,
+    email: currentCompany.email || undefined,
+  } : undefined;
+
+  const startNew = () => {
+    if (!boq?.data) { toast.error('This BOQ has no items to value'); return; }
+    setDraft({
+      valuation_date: addDays(0),
+      retention_percentage: Number(latest?.retention_percentage ?? 10),
+      notes: '',
+      lines: buildValuationLines(boq.data, units, latest?.items || []),
+      previous_certified: sumCertifiedBefore(),
+    });
+  };
+
+  const startEdit = (valuation: BOQValuation) => {
+    setDraft({
+      id: valuation.id,
+      valuation_number: valuation.valuation_number,
+      valuation_date: valuation.valuation_date,
+      retention_percentage: Number(valuation.retention_percentage || 0),
+      notes: valuation.notes || '',
+      lines: valuation.items || [],
+      previous_certified: sumCertifiedBefore(valuation.valuation_number),
+    });
+  };
+
+  const updateLine = (key: string, patch: Partial<ValuationLine>) => {
+    setDraft(prev => prev ? { ...prev, lines: prev.lines.map(l => l.key === key ? { ...l, ...patch } : l) } : prev);
+  };
+
+  const handleSave = async () => {
+    if (!draft || !certificate || !boq) return;
+    if (!draft.valuation_date) { toast.error('Valuation date is required'); return; }
+    if (draft.retention_percentage < 0 || draft.retention_percentage > 100) { toast.error('Retention must be between 0 and 100%'); return; }
+
+    const payload = {
+      valuation_date: draft.valuation_date,
+      retention_percentage: draft.retention_percentage,
+      notes: draft.notes || null,
+      items: draft.lines,
+      gross_value: certificate.gross_value,
+      retention_amount: certificate.retention_amount,
+      net_value: certificate.net_value,
+      previous_certified: certificate.previous_certified,
+      amount_due: certificate.amount_due,
+    };
+
+    setSubmitting(true);
+    try {
+      if (draft.id) {
+        await updateValuation.mutateAsync({ id: draft.id, updates: payload });
+      } else {
+        await createValuation.mutateAsync({
+          ...payload,
+          company_id: companyId || null,
+          boq_id: boq.id,
+          status: 'draft',
+          created_by: profile?.id || null,
+        });
+      }
+      toast.success('Valuation saved');
+      setDraft(null);
+    } catch (err) {
+      console.error('Failed to save valuation', err);
+      toast.error('Failed to save valuation');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCertify = async (valuation: BOQValuation) => {
+    if (!confirm(`Certify ${certificateLabel(valuation.valuation_number)}? Certified valuations can no longer be edited.`)) return;
+    try {
+      await updateValuation.mutateAsync({ id: valuation.id, updates: { status: 'certified', certified_at: new Date().toISOString() } });
+      toast.success(`${certificateLabel(valuation.valuation_number)} certified`);
+    } catch (err) {
+      console.error('Failed to certify valuation', err);
+      toast.error('Failed to certify valuation');
+    }
+  };
+
+  const handleDelete = async (valuation: BOQValuation) => {
+    if (!confirm(`Delete draft ${certificateLabel(valuation.valuation_number)}?`)) return;
+    try {
+      await deleteValuation.mutateAsync(valuation.id);
+      toast.success('Valuation deleted');
+    } catch (err) {
+      console.error('Failed to delete valuation', err);
+      toast.error('Failed to delete valuation');
+    }
+  };
+
+  const handleDownload = async (valuation: BOQValuation) => {
+    try {
+      await downloadValuationCertificatePDF(valuation, boq, companyDetails);
+      toast.success(`${certificateLabel(valuation.valuation_number)} downloaded`);
+    } catch (err) {
+      console.error('Download failed', err);
+      toast.error('Failed to download certificate');
+    }
+  };
+
+  const startInvoice = (valuation: BOQValuation) => {
+    const match = boq.customer_id
+      ? customers.find(c => c.id === boq.customer_id)
+      : customers.find(c => c.name?.trim().toLowerCase() === String(boq.client_name || '').trim().toLowerCase());
+    setCustomerId(match?.id || '');
+    setInvoiceDate(addDays(0));
+    setDueDate(addDays(30));
+    setInvoicing(valuation);
+  };
+
+  const handleCreateInvoice = async () => {
+    if (!invoicing || !boq) return;
+    if (!companyId) { toast.error('No company selected. Please ensure you are associated with a company.'); return; }
+    if (!customerId) { toast.error('Please select the customer to invoice'); return; }
+    const amountDue = Number(invoicing.amount_due || 0);
+    if (amountDue <= 0) { toast.error('Nothing is due on this certificate'); return; }
+
+    setSubmitting(true);
+    try {
+      const invoiceNumber = await generateDocNumber.mutateAsync({ companyId, type: 'invoice' });
+      const calculated = calculateItemTax({
+        quantity: 1,
+        unit_price: amountDue,
+        tax_percentage: taxRate,
+        tax_inclusive: taxRate > 0,
+      });
+      const label = certificateLabel(invoicing.valuation_number);
+
+      const created = await createInvoice.mutateAsync({
+        invoice: {
+          company_id: companyId,
+          customer_id: customerId,
+          invoice_number: invoiceNumber,
+          invoice_date: invoiceDate,
+          due_date: dueDate,
+          status: 'draft',
+          subtotal: amountDue,
+          tax_amount: calculated.tax_amount,
+          total_amount: calculated.line_total,
+          paid_amount: 0,
+          balance_due: calculated.line_total,
+          notes: `${label} against BOQ ${boq.number}${boq.project_title ? ` - ${boq.project_title}` : ''}`,
+          created_by: profile?.id || null,
+        },
+        items: [{
+          description: `${label}: work done to ${new Date(invoicing.valuation_date).toLocaleDateString()} less retention and previous certificates`,
+          quantity: 1,
+          unit_price: amountDue,
+          unit_of_measure: 'Sum',
+          tax_percentage: taxRate,
+          tax_amount: calculated.tax_amount,
+          tax_inclusive: taxRate > 0,
+          line_total: calculated.line_total,
+        }],
+      });
+
+      await updateValuation.mutateAsync({
+        id: invoicing.id,
+        updates: { status: 'invoiced', invoice_id: created.id, invoice_number: invoiceNumber },
+      });
+
+      toast.success(`${label} invoiced as ${invoiceNumber}`);
+      setInvoicing(null);
+    } catch (err) {
+      console.error('Failed to invoice certificate', err);
+      const message = err instanceof Error ? err.message : (err as { message?: string })?.message || 'Please try again.';
+      toast.error(`Failed to create invoice: ${message}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!boq) return null;
+
+  const sectionTitles = draft ? Array.from(new Set(draft.lines.map(l => l.section_title))) : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <ClipboardCheck className="h-5 w-5 text-primary" />
+            <span>BOQ {boq.number} Valuations</span>
+          </DialogTitle>
+          <DialogDescription>
+            Record work done to date, issue interim payment certificates and invoice the amount due.
+          </DialogDescription>
+        </DialogHeader>
+
+        {draft ? (
+          <div className="space-y-6">
+            <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+              <ArrowLeft className="h-4 w-4 mr-2" /> Back to valuations
+            </Button>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label>Valuation Date</Label>
+                <Input type="date" value={draft.valuation_date} onChange={e => setDraft({ ...draft, valuation_date: e.target.value })} />
+              </div>
+              <div>
+                <Label>Retention (%)</Label>
+                <Input type="number" min={0} max={100} step="0.5" value={draft.retention_percentage} onChange={e => setDraft({ ...draft, retention_percentage: Number(e.target.value) })} />
+              </div>
+              <div>
+                <Label>Certificate</Label>
+                <Input value={draft.valuation_number ? certificateLabel(draft.valuation_number) : certificateLabel((latest?.valuation_number || 0) + 1)} disabled />
+              </div>
+            </div>
+
+            {sectionTitles.map(title => (
+              <div key={title} className="border border-border rounded-lg p-4 space-y-2">
+                <div className="font-medium">{title}</div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-1/3">Description</TableHead>
+                      <TableHead className="text-right">Contract</TableHead>
+                      <TableHead className="w-28">Measure By</TableHead>
+                      <TableHead className="w-32">Cumulative</TableHead>
+                      <TableHead className="text-right">Previous</TableHead>
+                      <TableHead className="text-right">This Period</TableHead>
+                      <TableHead className="text-right">To Date</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {draft.lines.filter(l => l.section_title === title).map(line => {
+                      const toDate = valuationLineValue(line);
+                      const warning = valuationLineWarning(line);
+                      return (
+                        <TableRow key={line.key}>
+                          <TableCell>
+                            <div>{line.description}</div>
+                            <div className="text-xs text-muted-foreground">{line.contract_quantity} {line.unit} @ {formatCurrency(line.rate)}</div>
+                            {warning && (
+                              <div className="flex items-center gap-1 text-xs text-warning"><AlertTriangle className="h-3 w-3" /> {warning}</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{formatCurrency(line.contract_amount)}</TableCell>
+                          <TableCell>
+                            <Select value={line.mode} onValueChange={(val) => updateLine(line.key, { mode: val as ValuationMode })}>
+                              <SelectTrigger><SelectValue /></SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="quantity">Quantity</SelectItem>
+                                <SelectItem value="percent">Percent</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            {line.mode === 'percent' ? (
+                              <Input type="number" min={0} max={100} value={line.cumulative_percent} onChange={e => updateLine(line.key, { cumulative_percent: Number(e.target.value) })} />
+                            ) : (
+                              <Input type="number" min={0} value={line.cumulative_quantity} onChange={e => updateLine(line.key, { cumulative_quantity: Number(e.target.value) })} />
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{formatCurrency(line.previous_value)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(toDate - line.previous_value)}</TableCell>
+                          <TableCell className="text-right font-medium">{formatCurrency(toDate)}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            ))}
+
+            {certificate && (
+              <div className="ml-auto w-full md:w-1/2 space-y-1 text-sm">
+                <div className="flex justify-between"><span>Gross value to date</span><span>{formatCurrency(certificate.gross_value)}</span></div>
+                <div className="flex justify-between text-muted-foreground"><span>(Work done this period)</span><span>{formatCurrency(certificate.period_value)}</span></div>
+                <div className="flex justify-between"><span>Less retention ({draft.retention_percentage}%)</span><span>({formatCurrency(certificate.retention_amount)})</span></div>
+                <div className="flex justify-between"><span>Net value to date</span><span>{formatCurrency(certificate.net_value)}</span></div>
+                <div className="flex justify-between"><span>Less previous certificates</span><span>({formatCurrency(certificate.previous_certified)})</span></div>
+                <div className="flex justify-between text-lg font-semibold border-t pt-2"><span>Amount due</span><span>{formatCurrency(certificate.amount_due)}</span></div>
+              </div>
+            )}
+
+            <div>
+              <Label>Notes</Label>
+              <Textarea value={draft.notes} onChange={e => setDraft({ ...draft, notes: e.target.value })} rows={3} />
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+              <Button onClick={handleSave} disabled={submitting}>{submitting ? 'Saving...' : 'Save Valuation'}</Button>
+            </DialogFooter>
+          </div>
+        ) : invoicing ? (
+          <div className="space-y-6">
+            <Button variant="ghost" size="sm" onClick={() => setInvoicing(null)}>
+              <ArrowLeft className="h-4 w-4 mr-2" /> Back to valuations
+            </Button>
+            <div className="text-sm">
+              Invoice {certificateLabel(invoicing.valuation_number)} for <span className="font-semibold">{formatCurrency(invoicing.amount_due)}</span>
+              {taxRate > 0 && <> plus VAT of {formatCurrency(Number(invoicing.amount_due || 0) * taxRate / 100)}</>}.
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label>Customer</Label>
+                <Select value={customerId} onValueChange={setCustomerId}>
+                  <SelectTrigger><SelectValue placeholder="Select customer" /></SelectTrigger>
+                  <SelectContent>
+                    {customers.map(c => (
+                      <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Invoice Date</Label>
+                <Input type="date" value={invoiceDate} onChange={e => setInvoiceDate(e.target.value)} />
+              </div>
+              <div>
+                <Label>Due Date</Label>
+                <Input type="date" value={dueDate} onChange={e => setDueDate(e.target.value)} />
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox id="valuation-apply-tax" checked={applyTax} onCheckedChange={(c) => setApplyTax(c === true)} />
+              <Label htmlFor="valuation-apply-tax">Apply VAT ({Number(defaultTax?.rate ?? 16)}%)</Label>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setInvoicing(null)}>Cancel</Button>
+              <Button onClick={handleCreateInvoice} disabled={submitting}>
+                <Receipt className="h-4 w-4 mr-2" />
+                {submitting ? 'Creating...' : 'Create Invoice'}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex justify-end">
+              <Button onClick={startNew} disabled={!canStartNew} title={canStartNew ? undefined : 'Certify the current draft first'}>
+                <Plus className="h-4 w-4 mr-2" /> New Valuation
+              </Button>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Certificate</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead className="text-right">Gross to Date</TableHead>
+                  <TableHead className="text-right">Retention</TableHead>
+                  <TableHead className="text-right">Previous</TableHead>
+                  <TableHead className="text-right">Amount Due</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow><TableCell colSpan={8}>Loading...</TableCell></TableRow>
+                ) : valuations.length === 0 ? (
+                  <TableRow><TableCell colSpan={8}>No valuations recorded yet</TableCell></TableRow>
+                ) : valuations.map(v => (
+                  <TableRow key={v.id}>
+                    <TableCell className="font-medium">{certificateLabel(v.valuation_number)}</TableCell>
+                    <TableCell>{new Date(v.valuation_date).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(v.gross_value)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(v.retention_amount)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(v.previous_certified)}</TableCell>
+                    <TableCell className="text-right font-semibold">{formatCurrency(v.amount_due)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={`capitalize ${STATUS_STYLES[v.status] || ''}`}>{v.status}</Badge>
+                      {v.invoice_number && <div className="text-xs text-muted-foreground mt-1">{v.invoice_number}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {v.status === 'draft' && (
+                          <>
+                            <Button size="icon" variant="ghost" onClick={() => startEdit(v)} title="Edit"><Edit className="h-4 w-4" /></Button>
+                            <Button size="icon" variant="ghost" onClick={() => handleCertify(v)} title="Certify"><CheckCircle className="h-4 w-4" /></Button>
+                          </>
+                        )}
+                        <Button size="icon" variant="ghost" onClick={() => handleDownload(v)} title="Download certificate"><Download className="h-4 w-4" /></Button>
+                        {v.status === 'certified' && (
+                          <Button size="icon" variant="ghost" onClick={() => startInvoice(v)} title="Create invoice"><Receipt className="h-4 w-4" /></Button>
+                        )}
+                        {v.status === 'draft' && v.id === latest?.id && (
+                          <Button size="icon" variant="destructive" onClick={() => handleDelete(v)} title="Delete"><Trash2 className="h-4 w-4" /></Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,320 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowRightLeft } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  useCustomers,
+  useGenerateDocumentNumber,
+  useMarkBOQConverted,
+  useTaxSettings,
+  useUnits,
+  type BOQ,
+} from '@/hooks/useDatabase';
+import {
+  useCreateInvoiceWithItems,
+  useCreateProformaWithItems,
+  useCreateQuotationWithItems,
+} from '@/hooks/useQuotationItems';
+import {
+  BoqConversionTarget,
+  flattenBoqToLineItems,
+  totalBoqLineItems,
+} from '@/utils/boqConverter';
+
+interface ConvertBOQModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  boq: BOQ | null;
+  onConverted?: (type: BoqConversionTarget, documentNumber: string) => void;
+}
+
+const TARGET_LABELS: Record<BoqConversionTarget, string> = {
+  quotation: 'Quotation',
+  proforma: 'Proforma Invoice',
+  invoice: 'Invoice',
+};
+
+const addDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+export function ConvertBOQModal({ open, onOpenChange, boq, onConverted }: ConvertBOQModalProps) {
+  const { currentCompany } = useCurrentCompany();
+  const companyId = currentCompany?.id;
+  const { profile } = useAuth();
+  const { data: customers = [] } = useCustomers(companyId);
+  const { data: units = [] } = useUnits(companyId);
+  const { data: taxSettings = [] } = useTaxSettings(companyId);
+
+  const generateDocNumber = useGenerateDocumentNumber();
+  const createQuotation = useCreateQuotationWithItems();
+  const createProforma = useCreateProformaWithItems();
+  const createInvoice = useCreateInvoiceWithItems();
+  const markConverted = useMarkBOQConverted();
+
+  const defaultTax = taxSettings.find(t => t.is_default && t.is_active);
+
+  const [target, setTarget] = useState<BoqConversionTarget>('quotation');
+  const [customerId, setCustomerId] = useState('');
+  const [documentDate, setDocumentDate] = useState(addDays(0));
+  const [secondaryDate, setSecondaryDate] = useState(addDays(30));
+  const [applyTax, setApplyTax] = useState(true);
+  const [prefixSections, setPrefixSections] = useState(true);
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Pre-select the BOQ client, falling back to a name match for BOQs saved before customer_id was stored
+  useEffect(() => {
+    if (!open || !boq) return;
+    const match = boq.customer_id
+      ? customers.find(c => c.id === boq.customer_id)
+      : customers.find(c => c.name?.trim().toLowerCase() === String(boq.client_name || '').trim().toLowerCase());
+    setCustomerId(match?.id || '');
+    setNotes(`Converted from BOQ ${boq.number}${boq.project_title ? ` - ${boq.project_title}` : ''}`);
+  }, [open, boq, customers]);
+
+  const tax = applyTax ? defaultTax ?? null : null;
+
+  const lines = useMemo(
+    () => (boq?.data ? flattenBoqToLineItems(boq.data, units, { tax, prefixSectionTitles: prefixSections }) : []),
+    [boq, units, tax, prefixSections]
+  );
+  const totals = useMemo(() => totalBoqLineItems(lines), [lines]);
+
+  const formatCurrency = (amount: number) => new Intl.NumberFormat('en-KE', {
+    style: 'currency',
+    currency: boq?.currency || 'KES',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+
+  const handleConvert = async () => {
+    if (!boq) return;
+    if (!companyId) { toast.error('No company selected. Please ensure you are associated with a company.'); return; }
+    if (!customerId) { toast.error('Please select the customer for this document'); return; }
+    if (lines.length === 0) { toast.error('This BOQ has no items to convert'); return; }
+    if (applyTax && !defaultTax) { toast.error('No default tax rate is set. Set one under Settings > Company or untick Apply VAT.'); return; }
+
+    setSubmitting(true);
+    try {
+      const documentNumber = await generateDocNumber.mutateAsync({ companyId, type: target });
+
+      const items = lines.map(line => ({
+        description: line.description,
+        quantity: line.quantity,
+        unit_price: line.unit_price,
+        unit_of_measure: line.unit_of_measure,
+        tax_setting_id: line.tax_setting_id,
+        tax_percentage: line.tax_percentage,
+        tax_amount: line.tax_amount,
+        tax_inclusive: line.tax_inclusive,
+        line_total: line.line_total,
+      }));
+
+      const common = {
+        company_id: companyId,
+        customer_id: customerId,
+        status: 'draft',
+        // The document's rate is looked up for its date from Settings > Exchange Rates
+        ...(boq.currency ? { currency: boq.currency } : {}),
+        subtotal: totals.subtotal,
+        tax_amount: totals.tax_amount,
+        total_amount: totals.total_amount,
+        notes,
+        created_by: profile?.id || null,
+      };
+
+      let created: { id: string };
+      if (target === 'quotation') {
+        created = await createQuotation.mutateAsync({
+          quotation: {
+            ...common,
+            quotation_number: documentNumber,
+            quotation_date: documentDate,
+            valid_until: secondaryDate,
+          },
+          items,
+        });
+      } else if (target === 'proforma') {
+        created = await createProforma.mutateAsync({
+          proforma: {
+            ...common,
+            proforma_number: documentNumber,
+            proforma_date: documentDate,
+            valid_until: secondaryDate,
+          },
+          items,
+        });
+      } else {
+        created = await createInvoice.mutateAsync({
+          invoice: {
+            ...common,
+            invoice_number: documentNumber,
+            invoice_date: documentDate,
+            due_date: secondaryDate,
+            paid_amount: 0,
+            balance_due: totals.total_amount,
+          },
+          items,
+        });
+      }
+
+      await markConverted.mutateAsync({
+        id: boq.id,
+        type: target,
+        documentId: created.id,
+        documentNumber,
+      });
+
+      toast.success(`BOQ ${boq.number} converted to ${TARGET_LABELS[target].toLowerCase()} ${documentNumber}`);
+      onConverted?.(target, documentNumber);
+      onOpenChange(false);
+    } catch (err) {
+      console.error('BOQ conversion failed', err);
+      const message = err instanceof Error ? err.message : (err as { message?: string })?.message || 'Please try again.';
+      toast.error(`Failed to convert BOQ: ${message}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!boq) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <ArrowRightLeft className="h-5 w-5 text-primary" />
+            <span>Convert BOQ {boq.number}</span>
+          </DialogTitle>
+          <DialogDescription>
+            Create a quotation, proforma or invoice from this BOQ. Each BOQ item becomes a line item.
+          </DialogDescription>
+        </DialogHeader>
+
+        {boq.converted_to_number && (
+          <div className="rounded-md border border-warning/30 bg-warning-light p-3 text-sm text-warning">
+            This BOQ was already converted to {boq.converted_to_type} {boq.converted_to_number}. Converting again will create another document.
+          </div>
+        )}
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <Label>Convert To</Label>
+              <Select value={target} onValueChange={(v) => setTarget(v as BoqConversionTarget)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TARGET_LABELS) as BoqConversionTarget[]).map(t => (
+                    <SelectItem key={t} value={t}>{TARGET_LABELS[t]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Customer</Label>
+              <Select value={customerId} onValueChange={setCustomerId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select customer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {customers.map(c => (
+                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>{TARGET_LABELS[target]} Date</Label>
+              <Input type="date" value={documentDate} onChange={e => setDocumentDate(e.target.value)} />
+            </div>
+            <div>
+              <Label>{target === 'invoice' ? 'Due Date' : 'Valid Until'}</Label>
+              <Input type="date" value={secondaryDate} onChange={e => setSecondaryDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-6 text-sm">
+            <label className="flex items-center gap-2">
+              <Checkbox checked={applyTax} onCheckedChange={(v) => setApplyTax(!!v)} />
+              {defaultTax ? `Apply VAT (${Number(defaultTax.rate)}%)` : 'Apply VAT (no default tax rate set)'}
+            </label>
+            <label className="flex items-center gap-2">
+              <Checkbox checked={prefixSections} onCheckedChange={(v) => setPrefixSections(!!v)} />
+              Prefix descriptions with section titles
+            </label>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-1/2">Description</TableHead>
+                <TableHead className="text-right">Qty</TableHead>
+                <TableHead>Unit</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead className="text-right">Tax</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.length === 0 ? (
+                <TableRow><TableCell colSpan={6}>No items found in this BOQ</TableCell></TableRow>
+              ) : lines.map((line, idx) => (
+                <TableRow key={idx}>
+                  <TableCell>{line.description}</TableCell>
+                  <TableCell className="text-right">{line.quantity}</TableCell>
+                  <TableCell>{line.unit_of_measure}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(line.unit_price)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(line.tax_amount)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(line.line_total)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="flex flex-col items-end gap-1 text-sm">
+            <div>Subtotal: {formatCurrency(totals.subtotal)}</div>
+            <div>Tax: {formatCurrency(totals.tax_amount)}</div>
+            <div className="text-lg font-semibold">Total: {formatCurrency(totals.total_amount)}</div>
+          </div>
+
+          <div>
+            <Label>Notes</Label>
+            <Textarea value={notes} onChange={e => setNotes(e.target.value)} rows={3} />
+          </div>
+        </div>
+
+        <DialogFooter className="mt-6">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleConvert} disabled={submitting || lines.length === 0}>
+            <ArrowRightLeft className="h-4 w-4 mr-2" />
+            {submitting ? 'Converting...' : `Create ${TARGET_LABELS[target]}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
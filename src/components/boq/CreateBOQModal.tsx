@@ -1,4 +1,4 @@
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -20,17 +20,24 @@ import {
 } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Plus, Trash2, Calculator, Layers } from 'lucide-react';
-import { useCompanies, useCustomers, useUnits } from '@/hooks/useDatabase';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Plus, Trash2, Calculator, Layers, Save, Search, BookmarkPlus, AlertTriangle } from 'lucide-react';
+import { useBOQRates, useCreateBOQ, useCustomers, useUnits, useUpdateBOQ, type BOQ, type BOQRate } from '@/hooks/useDatabase';
 import { CreateUnitModal } from '@/components/units/CreateUnitModal';
+import { BOQRateModal } from '@/components/boq/BOQRateModal';
 import { toast } from 'sonner';
-import { downloadBOQPDF, BoqDocument } from '@/utils/boqPdfGenerator';
-import { supabase } from '@/integrations/supabase/client';
+import { downloadBOQPDF, BoqDocument, BoqItemKind, BoqSection } from '@/utils/boqPdfGenerator';
+import { BOQ_ITEM_KIND_LABELS, boqPercentageBasis, computeBoqTotals } from '@/utils/boqTotals';
+import { findRateDrift, searchBoqRates } from '@/utils/boqRateLibrary';
 import { useAuth } from '@/contexts/AuthContext';
+import { revisionLabel } from '@/utils/boqRevisions';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
 
 interface CreateBOQModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  boq?: BOQ | null; // when provided the modal edits this BOQ and saves a new revision
 }
 
 interface BOQItemRow {
@@ -38,7 +45,11 @@ interface BOQItemRow {
   description: string;
   quantity: number;
   unit: string; // will store unit id
-  rate: number;
+  rate: number; // the sum itself for provisional and PC items
+  kind: BoqItemKind;
+  percentage: number; // percentage lines only
+  basis: string[]; // section ids a percentage line applies to; empty = all bills
+  libraryId: string; // rate library entry the rate came from
 }
 
 interface BOQSectionRow {
@@ -53,6 +64,10 @@ const defaultItem = (): BOQItemRow => ({
   quantity: 1,
   unit: '',
   rate: 0,
+  kind: 'measured',
+  percentage: 0,
+  basis: [],
+  libraryId: '',
 });
 
 const defaultSection = (): BOQSectionRow => ({
@@ -61,15 +76,21 @@ const defaultSection = (): BOQSectionRow => ({
   items: [defaultItem()],
 });
 
-export function CreateBOQModal({ open, onOpenChange }: CreateBOQModalProps) {
-  const { data: companies } = useCompanies();
-  const currentCompany = companies?.[0];
+export function CreateBOQModal({ open, onOpenChange, boq }: CreateBOQModalProps) {
+  const isEditing = !!boq;
+  const { currentCompany } = useCurrentCompany();
   const { data: customers = [] } = useCustomers(currentCompany?.id);
   const { data: units = [] } = useUnits(currentCompany?.id);
+  const { data: libraryRates = [] } = useBOQRates(currentCompany?.id);
   const { profile } = useAuth();
+  const createBOQ = useCreateBOQ();
+  const updateBOQ = useUpdateBOQ();
 
   const [unitModalOpen, setUnitModalOpen] = useState(false);
   const [pendingUnitTarget, setPendingUnitTarget] = useState<{ sectionId: string; itemId: string } | null>(null);
+  const [librarySearch, setLibrarySearch] = useState('');
+  const [libraryTarget, setLibraryTarget] = useState('');
+  const [saveToLibrary, setSaveToLibrary] = useState<{ sectionId: string; row: BOQItemRow } | null>(null);
 
   const todayISO = new Date().toISOString().split('T')[0];
   const defaultNumber = useMemo(() => {
@@ -89,8 +110,41 @@ export function CreateBOQModal({ open, onOpenChange }: CreateBOQModalProps) {
   const [contractor, setContractor] = useState('');
   const [notes, setNotes] = useState('');
   const [sections, setSections] = useState<BOQSectionRow[]>([defaultSection()]);
+  const [changeNote, setChangeNote] = useState('');
   const [submitting, setSubmitting] = useState(false);
 
+  // Load the BOQ being edited into the form
+  useEffect(() => {
+    if (!open || !boq) return;
+    const data: Partial<BoqDocument> = boq.data || {};
+    setBoqNumber(boq.number || data.number || defaultNumber);
+    setBoqDate(boq.boq_date || data.date || todayISO);
+    const client = boq.customer_id
+      ? customers.find(c => c.id === boq.customer_id)
+      : customers.find(c => c.name?.trim().toLowerCase() === String(boq.client_name || '').trim().toLowerCase());
+    setClientId(client?.id || '');
+    setProjectTitle(boq.project_title || data.project_title || '');
+    setContractor(boq.contractor || data.contractor || '');
+    setNotes(data.notes || '');
+    setChangeNote('');
+    const loaded = (data.sections || []).map(sec => ({
+      id: sec.id || `section-${crypto.randomUUID()}`,
+      title: sec.title || '',
+      items: (sec.items || []).map(it => ({
+        id: `item-${crypto.randomUUID()}`,
+        description: it.description || '',
+        quantity: Number(it.quantity ?? 1),
+        unit: it.unit_id || '',
+        rate: Number(it.rate ?? it.amount ?? 0),
+        kind: it.kind || 'measured',
+        percentage: Number(it.percentage ?? 0),
+        basis: it.basis_section_ids || [],
+        libraryId: it.rate_library_id || '',
+      })),
+    }));
+    setSections(loaded.length > 0 ? loaded : [defaultSection()]);
+  }, [open, boq, customers, defaultNumber, todayISO]);
+
   const selectedClient = useMemo(() => customers.find(c => c.id === clientId), [customers, clientId]);
 
   const addSection = () => {
@@ -98,7 +152,10 @@ export function CreateBOQModal({ open, onOpenChange }: CreateBOQModalProps) {
   };
 
   const removeSection = (sectionId: string) => {
-    setSections(prev => prev.filter(s => s.id !== sectionId));
+    // Drop the removed bill from any percentage line that referenced it
+    setSections(prev => prev
+      .filter(s => s.id !== sectionId)
+      .map(s => ({ ...s, items: s.items.map(i => i.basis.includes(sectionId) ? { ...i, basis: i.basis.filter(b => b !== sectionId) } : i) })));
   };
 
   const updateSectionTitle = (sectionId: string, title: string) => {
@@ -123,84 +180,144 @@ export function CreateBOQModal({ open, onOpenChange }: CreateBOQModalProps) {
     }));
   };
 
+  const patchItem = (sectionId: string, itemId: string, patch: Partial<BOQItemRow>) => {
+    setSections(prev => prev.map(s => s.id !== sectionId ? s : { ...s, items: s.items.map(i => i.id === itemId ? { ...i, ...patch } : i) }));
+  };
+
+  const toggleBasis = (sectionId: string, row: BOQItemRow, basisId: string, checked: boolean) => {
+    patchItem(sectionId, row.id, { basis: checked ? [...row.basis, basisId] : row.basis.filter(b => b !== basisId) });
+  };
+
   const formatCurrency = (amount: number) => new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES', minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(amount);
 
+  const docSections = useMemo<BoqSection[]>(() => sections.map(s => ({
+    id: s.id,
+    title: s.title || undefined,
+    items: s.items.map(i => {
+      if (i.kind === 'percentage') {
+        return { description: i.description, kind: i.kind, percentage: i.percentage, basis_section_ids: i.basis };
+      }
+      if (i.kind === 'provisional' || i.kind === 'prime_cost') {
+        return { description: i.description, kind: i.kind, quantity: 1, rate: i.rate };
+      }
+      // lookup unit name from units list
+      const unitObj = units.find(u => u.id === i.unit);
+      return {
+        description: i.description,
+        quantity: i.quantity,
+        unit_id: i.unit || null,
+        unit_name: unitObj ? unitObj.name : i.unit || null,
+        rate: i.rate,
+        ...(i.libraryId ? { rate_library_id: i.libraryId } : {}),
+      };
+    })
+  })), [sections, units]);
+
+  const libraryMatches = useMemo(() => searchBoqRates(libraryRates, librarySearch).slice(0, 8), [libraryRates, librarySearch]);
+
+  // Only drafts are checked against the library; an issued BOQ keeps the rates it was issued with
+  const isDraft = !boq || (boq.status || 'draft') === 'draft';
+  const rateDrift = useMemo(() => {
+    if (!isDraft) return new Map<string, number>();
+    const drift = findRateDrift({ sections: docSections }, libraryRates);
+    return new Map(drift.map(d => [sections[d.sectionIndex].items[d.itemIndex].id, d.libraryRate]));
+  }, [isDraft, docSections, libraryRates, sections]);
+
+  const saveToLibraryInitial = useMemo(() => saveToLibrary ? {
+    description: saveToLibrary.row.description,
+    unit_id: saveToLibrary.row.unit || undefined,
+    default_rate: saveToLibrary.row.rate,
+  } : undefined, [saveToLibrary]);
+
+  const addFromLibrary = (rate: BOQRate) => {
+    const targetId = sections.some(s => s.id === libraryTarget) ? libraryTarget : sections[sections.length - 1].id;
+    const item: BOQItemRow = {
+      ...defaultItem(),
+      description: rate.description,
+      unit: rate.unit_id || '',
+      rate: Number(rate.default_rate || 0),
+      libraryId: rate.id,
+    };
+    // Fill a blank row if the bill has one, otherwise append
+    setSections(prev => prev.map(s => {
+      if (s.id !== targetId) return s;
+      const blank = s.items.find(i => !i.description && i.kind === 'measured');
+      return blank
+        ? { ...s, items: s.items.map(i => i.id === blank.id ? { ...item, id: blank.id, quantity: blank.quantity } : i) }
+        : { ...s, items: [...s.items, item] };
+    }));
+  };
+
   const totals = useMemo(() => {
-    let subtotal = 0;
-    sections.forEach(sec => sec.items.forEach(it => { subtotal += (it.quantity || 0) * (it.rate || 0); }));
-    return { subtotal };
-  }, [sections]);
+    const computed = computeBoqTotals({ sections: docSections });
+    return { ...computed, subtotal: computed.total };
+  }, [docSections]);
 
   const validate = () => {
     if (!clientId) { toast.error('Please select a client'); return false; }
     if (!boqNumber || !boqDate) { toast.error('BOQ number and date are required'); return false; }
     const hasItems = sections.some(s => s.items.length > 0);
     if (!hasItems) { toast.error('Add at least one item'); return false; }
-    const hasInvalid = sections.some(s => s.items.some(i => !i.description || i.quantity <= 0 || i.rate < 0));
+    const hasInvalid = sections.some(s => s.items.some(i => !i.description || (i.kind === 'measured' && i.quantity <= 0) || i.rate < 0));
     if (hasInvalid) { toast.error('Each item needs description, quantity > 0, and non-negative rate'); return false; }
+    const badPercentage = sections.some(s => s.items.some(i => i.kind === 'percentage' && !(i.percentage > 0)));
+    if (badPercentage) { toast.error('Percentage lines need a percentage above zero'); return false; }
     return true;
   };
 
+  const buildDocument = (): BoqDocument => ({
+    number: boqNumber,
+    date: boqDate,
+    client: {
+      name: selectedClient.name,
+      email: selectedClient.email || undefined,
+      phone: selectedClient.phone || undefined,
+      address: selectedClient.address || undefined,
+      city: selectedClient.city || undefined,
+      country: selectedClient.country || undefined,
+    },
+    contractor: contractor || undefined,
+    project_title: projectTitle || undefined,
+    sections: docSections,
+    notes: notes || undefined,
+  });
+
+  const buildPayload = (doc: BoqDocument) => ({
+    number: boqNumber,
+    boq_date: boqDate,
+    customer_id: selectedClient.id,
+    client_name: selectedClient.name,
+    client_email: selectedClient.email || null,
+    client_phone: selectedClient.phone || null,
+    client_address: selectedClient.address || null,
+    client_city: selectedClient.city || null,
+    client_country: selectedClient.country || null,
+    contractor: contractor || null,
+    project_title: projectTitle || null,
+    subtotal: totals.subtotal,
+    tax_amount: 0,
+    total_amount: totals.subtotal,
+    data: doc,
+  });
+
   const handleGenerate = async () => {
     if (!validate()) return;
     if (!selectedClient) { toast.error('Invalid client'); return; }
 
     setSubmitting(true);
     try {
-      const doc: BoqDocument = {
-        number: boqNumber,
-        date: boqDate,
-        client: {
-          name: selectedClient.name,
-          email: selectedClient.email || undefined,
-          phone: selectedClient.phone || undefined,
-          address: selectedClient.address || undefined,
-          city: selectedClient.city || undefined,
-          country: selectedClient.country || undefined,
-        },
-        contractor: contractor || undefined,
-        project_title: projectTitle || undefined,
-        sections: sections.map(s => ({
-          title: s.title || undefined,
-          items: s.items.map(i => {
-            // lookup unit name from units list
-            const unitObj = units.find((u: any) => u.id === i.unit);
-            return {
-              description: i.description,
-              quantity: i.quantity,
-              unit_id: i.unit || null,
-              unit_name: unitObj ? unitObj.name : i.unit || null,
-              rate: i.rate,
-            };
-          })
-        })),
-        notes: notes || undefined,
-      };
+      const doc = buildDocument();
 
       // Store BOQ in database
-      const payload = {
-        company_id: currentCompany?.id || null,
-        number: boqNumber,
-        boq_date: boqDate,
-        client_name: selectedClient.name,
-        client_email: selectedClient.email || null,
-        client_phone: selectedClient.phone || null,
-        client_address: selectedClient.address || null,
-        client_city: selectedClient.city || null,
-        client_country: selectedClient.country || null,
-        contractor: contractor || null,
-        project_title: projectTitle || null,
-        currency: currentCompany?.currency || 'KES',
-        subtotal: totals.subtotal,
-        tax_amount: 0,
-        total_amount: totals.subtotal,
-        attachment_url: null,
-        data: doc,
-        created_by: profile?.id || null,
-      };
-
-      const { error: insertError } = await supabase.from('boqs').insert([payload]);
-      if (insertError) {
+      try {
+        await createBOQ.mutateAsync({
+          ...buildPayload(doc),
+          company_id: currentCompany?.id || null,
+          currency: currentCompany?.currency || 'KES',
+          attachment_url: null,
+          created_by: profile?.id || null,
+        });
+      } catch (insertError) {
         console.warn('Failed to store BOQ:', insertError);
         toast.error('BOQ generated but failed to save to database');
       }
@@ -225,16 +342,41 @@ export function CreateBOQModal({ open, onOpenChange }: CreateBOQModalProps) {
     }
   };
 
+  const handleSaveRevision = async () => {
+    if (!boq) return;
+    if (!validate()) return;
+    if (!selectedClient) { toast.error('Invalid client'); return; }
+
+    setSubmitting(true);
+    try {
+      const updated = await updateBOQ.mutateAsync({
+        id: boq.id,
+        updates: buildPayload(buildDocument()),
+        changeNote: changeNote.trim() || undefined,
+        updatedBy: profile?.id || null,
+      });
+      toast.success(`BOQ ${boqNumber} saved as ${revisionLabel(updated.current_revision)}`);
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Failed to save BOQ revision', err);
+      toast.error('Failed to save BOQ changes');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center space-x-2">
             <Layers className="h-5 w-5 text-primary" />
-            <span>Create Bill of Quantities</span>
+            <span>{isEditing ? `Edit BOQ ${boq.number}` : 'Create Bill of Quantities'}</span>
           </DialogTitle>
           <DialogDescription>
-            Build a detailed BOQ, save it to the database and download a branded PDF.
+            {isEditing
+              ? `Saving creates ${revisionLabel((boq.current_revision || 1) + 1)}; earlier revisions stay available in the history.`
+              : 'Build a detailed BOQ, save it to the database and download a branded PDF.'}
           </DialogDescription>
         </DialogHeader>
 
@@ -274,6 +416,54 @@ export function CreateBOQModal({ open, onOpenChange }: CreateBOQModalProps) {
             </div>
           </div>
 
+          <Card>
+            <CardHeader>
+              <CardTitle>Rate Library</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex items-center gap-3">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                  <Input placeholder="Search library by description or tag..." value={librarySearch} onChange={e => setLibrarySearch(e.target.value)} className="pl-10" />
+                </div>
+                <div className="w-64">
+                  <Select value={libraryTarget} onValueChange={setLibraryTarget}>
+                    <SelectTrigger><SelectValue placeholder="Add to last section" /></SelectTrigger>
+                    <SelectContent>
+                      {sections.map((s, idx) => (
+                        <SelectItem key={s.id} value={s.id}>{s.title || `Section ${idx + 1}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {librarySearch.trim() && (
+                <div className="max-h-64 overflow-y-auto border rounded-lg">
+                  {libraryMatches.length === 0 ? (
+                    <div className="p-4 text-center text-muted-foreground">No library rates found</div>
+                  ) : libraryMatches.map(rate => (
+                    <div
+                      key={rate.id}
+                      className="p-3 hover:bg-muted/50 cursor-pointer border-b last:border-b-0 transition-smooth"
+                      onClick={() => addFromLibrary(rate)}
+                    >
+                      <div className="flex justify-between items-start">
+                        <div>
+                          <div className="font-medium">{rate.description}</div>
+                          <div className="text-xs text-muted-foreground">{(rate.tags || []).join(', ')}</div>
+                        </div>
+                        <div className="text-right">
+                          <div className="font-semibold">{formatCurrency(Number(rate.default_rate || 0))}</div>
+                          <div className="text-xs text-muted-foreground">per {rate.units?.abbreviation || rate.units?.name || 'item'}</div>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader className="flex flex-row items-center justify-between">
               <CardTitle>Sections & Items</CardTitle>
@@ -295,7 +485,8 @@ export function CreateBOQModal({ open, onOpenChange }: CreateBOQModalProps) {
                   <Table>
                     <TableHeader>
                       <TableRow>
-                        <TableHead className="w-1/2">Item Description</TableHead>
+                        <TableHead className="w-2/5">Item Description</TableHead>
+                        <TableHead className="w-36">Type</TableHead>
                         <TableHead className="w-24">Qty</TableHead>
                         <TableHead className="w-28">Unit</TableHead>
                         <TableHead className="w-32">Rate</TableHead>
@@ -304,70 +495,180 @@ export function CreateBOQModal({ open, onOpenChange }: CreateBOQModalProps) {
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {section.items.map(row => (
+                      {section.items.map((row, iIdx) => (
                         <TableRow key={row.id}>
                           <TableCell>
-                            <Input value={row.description} onChange={e => updateItem(section.id, row.id, 'description', e.target.value)} placeholder="Describe item" />
+                            <Input value={row.description} onChange={e => updateItem(section.id, row.id, 'description', e.target.value)} placeholder={row.kind === 'percentage' ? 'e.g. Contingencies' : 'Describe item'} />
                           </TableCell>
                           <TableCell>
-                            <Input type="number" min={0} value={row.quantity} onChange={e => updateItem(section.id, row.id, 'quantity', Number(e.target.value))} />
-                          </TableCell>
-                          <TableCell>
-                            <Select value={row.unit} onValueChange={(val) => {
-                              if (val === '__add_unit') {
-                                setPendingUnitTarget({ sectionId: section.id, itemId: row.id });
-                                setUnitModalOpen(true);
-                              } else {
-                                updateItem(section.id, row.id, 'unit', val);
-                              }
-                            }}>
+                            <Select value={row.kind} onValueChange={(val) => patchItem(section.id, row.id, { kind: val as BoqItemKind })}>
                               <SelectTrigger>
-                                <SelectValue placeholder="Unit" />
+                                <SelectValue />
                               </SelectTrigger>
                               <SelectContent>
-                                {units.map((u: any) => (
-                                  <SelectItem key={u.id} value={u.id}>{u.name}{u.abbreviation ? ` (${u.abbreviation})` : ''}</SelectItem>
+                                {(Object.keys(BOQ_ITEM_KIND_LABELS) as BoqItemKind[]).map(k => (
+                                  <SelectItem key={k} value={k}>{BOQ_ITEM_KIND_LABELS[k]}</SelectItem>
                                 ))}
-                                <SelectItem value="__add_unit">+ Add unit...</SelectItem>
                               </SelectContent>
                             </Select>
-
-                            {/* Unit creation modal */}
-                            <CreateUnitModal open={unitModalOpen} onOpenChange={setUnitModalOpen} onCreated={(unitName) => {
-                              // set the new unit on the pending target
-                              if (pendingUnitTarget) {
-                                updateItem(pendingUnitTarget.sectionId, pendingUnitTarget.itemId, 'unit', unitName);
-                                setPendingUnitTarget(null);
-                              }
-                            }} />
-                          </TableCell>
-                          <TableCell>
-                            <Input type="number" min={0} value={row.rate} onChange={e => updateItem(section.id, row.id, 'rate', Number(e.target.value))} />
                           </TableCell>
+                          {row.kind === 'percentage' ? (
+                            <>
+                              <TableCell>
+                                <Input type="number" min={0} step="0.01" value={row.percentage} onChange={e => patchItem(section.id, row.id, { percentage: Number(e.target.value) })} placeholder="%" />
+                              </TableCell>
+                              <TableCell>
+                                <Popover>
+                                  <PopoverTrigger asChild>
+                                    <Button variant="outline" size="sm" className="w-full">
+                                      {row.basis.length === 0 ? 'All bills' : `${row.basis.length} bill${row.basis.length === 1 ? '' : 's'}`}
+                                    </Button>
+                                  </PopoverTrigger>
+                                  <PopoverContent className="w-72">
+                                    <div className="space-y-2">
+                                      <Label>Percentage of</Label>
+                                      {sections.map((basisSection, bIdx) => (
+                                        <div key={basisSection.id} className="flex items-center space-x-2">
+                                          <Checkbox
+                                            id={`${row.id}-${basisSection.id}`}
+                                            checked={row.basis.includes(basisSection.id)}
+                                            onCheckedChange={(checked) => toggleBasis(section.id, row, basisSection.id, checked === true)}
+                                          />
+                                          <Label htmlFor={`${row.id}-${basisSection.id}`} className="font-normal">{basisSection.title || `Bill ${bIdx + 1}`}</Label>
+                                        </div>
+                                      ))}
+                                      <p className="text-xs text-muted-foreground">Leave all unticked to apply to every bill. Other percentage lines are never included.</p>
+                                    </div>
+                                  </PopoverContent>
+                                </Popover>
+                              </TableCell>
+                              <TableCell className="text-sm text-muted-foreground">
+                                of {formatCurrency(boqPercentageBasis({ sections: docSections }, docSections[sIdx].items[iIdx]))}
+                              </TableCell>
+                            </>
+                          ) : row.kind === 'provisional' || row.kind === 'prime_cost' ? (
+                            <>
+                              <TableCell className="text-muted-foreground">1</TableCell>
+                              <TableCell className="text-muted-foreground">Sum</TableCell>
+                              <TableCell>
+                                <Input type="number" min={0} value={row.rate} onChange={e => updateItem(section.id, row.id, 'rate', Number(e.target.value))} placeholder="Sum" />
+                              </TableCell>
+                            </>
+                          ) : (
+                            <>
+                              <TableCell>
+                                <Input type="number" min={0} value={row.quantity} onChange={e => updateItem(section.id, row.id, 'quantity', Number(e.target.value))} />
+                              </TableCell>
+                              <TableCell>
+                                <Select value={row.unit} onValueChange={(val) => {
+                                  if (val === '__add_unit') {
+                                    setPendingUnitTarget({ sectionId: section.id, itemId: row.id });
+                                    setUnitModalOpen(true);
+                                  } else {
+                                    updateItem(section.id, row.id, 'unit', val);
+                                  }
+                                }}>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Unit" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {units.map(u => (
+                                      <SelectItem key={u.id} value={u.id}>{u.name}{u.abbreviation ? ` (${u.abbreviation})` : ''}</SelectItem>
+                                    ))}
+                                    <SelectItem value="__add_unit">+ Add unit...</SelectItem>
+                                  </SelectContent>
+                                </Select>
+
+                                {/* Unit creation modal */}
+                                <CreateUnitModal open={unitModalOpen} onOpenChange={setUnitModalOpen} onCreated={(unitName) => {
+                                  // set the new unit on the pending target
+                                  if (pendingUnitTarget) {
+                                    updateItem(pendingUnitTarget.sectionId, pendingUnitTarget.itemId, 'unit', unitName);
+                                    setPendingUnitTarget(null);
+                                  }
+                                }} />
+                              </TableCell>
+                              <TableCell>
+                                <Input type="number" min={0} value={row.rate} onChange={e => updateItem(section.id, row.id, 'rate', Number(e.target.value))} />
+                                {rateDrift.has(row.id) && (
+                                  <button
+                                    type="button"
+                                    className="mt-1 flex items-center gap-1 text-xs text-warning"
+                                    title="Use the current library rate"
+                                    onClick={() => updateItem(section.id, row.id, 'rate', rateDrift.get(row.id))}
+                                  >
+                                    <AlertTriangle className="h-3 w-3" /> Library: {formatCurrency(rateDrift.get(row.id))}
+                                  </button>
+                                )}
+                              </TableCell>
+                            </>
+                          )}
                           <TableCell className="text-right">
-                            {formatCurrency((row.quantity || 0) * (row.rate || 0))}
+                            {formatCurrency(totals.sections[sIdx]?.itemAmounts[iIdx] || 0)}
                           </TableCell>
                           <TableCell className="text-right">
-                            <Button variant="ghost" size="icon" onClick={() => removeItem(section.id, row.id)}>
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
+                            <div className="flex items-center justify-end">
+                              {row.kind === 'measured' && !row.libraryId && row.description && (
+                                <Button variant="ghost" size="icon" title="Save to rate library" onClick={() => setSaveToLibrary({ sectionId: section.id, row })}>
+                                  <BookmarkPlus className="h-4 w-4" />
+                                </Button>
+                              )}
+                              <Button variant="ghost" size="icon" onClick={() => removeItem(section.id, row.id)}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
                           </TableCell>
                         </TableRow>
                       ))}
                       <TableRow>
-                        <TableCell colSpan={6}>
+                        <TableCell colSpan={5}>
                           <Button variant="outline" onClick={() => addItem(section.id)}>
                             <Plus className="h-4 w-4 mr-2" /> Add Item
                           </Button>
                         </TableCell>
+                        <TableCell className="text-right font-semibold">
+                          {formatCurrency(totals.sections[sIdx]?.subtotal || 0)}
+                        </TableCell>
+                        <TableCell></TableCell>
                       </TableRow>
                     </TableBody>
                   </Table>
                 </div>
               ))}
 
-              <div className="flex items-center justify-end gap-6 pt-4">
-                <div className="text-lg font-semibold">Subtotal: {formatCurrency(totals.subtotal)}</div>
+              <div className="space-y-2 pt-4">
+                <div className="font-semibold">Collection</div>
+                <Table>
+                  <TableBody>
+                    {totals.sections.map((sec, idx) => (
+                      <TableRow key={idx}>
+                        <TableCell>{sec.title}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(sec.subtotal)}</TableCell>
+                      </TableRow>
+                    ))}
+                    {totals.provisional > 0 && (
+                      <TableRow className="text-muted-foreground">
+                        <TableCell>Includes provisional sums</TableCell>
+                        <TableCell className="text-right">{formatCurrency(totals.provisional)}</TableCell>
+                      </TableRow>
+                    )}
+                    {totals.primeCost > 0 && (
+                      <TableRow className="text-muted-foreground">
+                        <TableCell>Includes prime cost sums</TableCell>
+                        <TableCell className="text-right">{formatCurrency(totals.primeCost)}</TableCell>
+                      </TableRow>
+                    )}
+                    {totals.percentage > 0 && (
+                      <TableRow className="text-muted-foreground">
+                        <TableCell>Includes percentage additions</TableCell>
+                        <TableCell className="text-right">{formatCurrency(totals.percentage)}</TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+                <div className="flex items-center justify-end gap-6">
+                  <div className="text-lg font-semibold">Total: {formatCurrency(totals.subtotal)}</div>
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -376,14 +677,42 @@ export function CreateBOQModal({ open, onOpenChange }: CreateBOQModalProps) {
             <Label>Notes</Label>
             <Textarea value={notes} onChange={e => setNotes(e.target.value)} rows={4} placeholder="Any special notes or terms" />
           </div>
+
+          {rateDrift.size > 0 && (
+            <div className="flex items-center gap-2 text-sm text-warning">
+              <AlertTriangle className="h-4 w-4" />
+              {rateDrift.size} item{rateDrift.size === 1 ? '' : 's'} priced differently from the current rate library.
+            </div>
+          )}
+
+          {isEditing && (
+            <div>
+              <Label>Revision Note</Label>
+              <Input value={changeNote} onChange={e => setChangeNote(e.target.value)} placeholder="What changed in this revision (optional)" />
+            </div>
+          )}
         </div>
 
+        <BOQRateModal
+          open={!!saveToLibrary}
+          onOpenChange={(o) => { if (!o) setSaveToLibrary(null); }}
+          initial={saveToLibraryInitial}
+          onSaved={(rate) => { if (saveToLibrary) patchItem(saveToLibrary.sectionId, saveToLibrary.row.id, { libraryId: rate.id }); }}
+        />
+
         <DialogFooter className="mt-6">
           <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
-          <Button onClick={handleGenerate} disabled={submitting}>
-            <Calculator className="h-4 w-4 mr-2" />
-            {submitting ? 'Generating...' : 'Download BOQ PDF'}
-          </Button>
+          {isEditing ? (
+            <Button onClick={handleSaveRevision} disabled={submitting}>
+              <Save className="h-4 w-4 mr-2" />
+              {submitting ? 'Saving...' : 'Save Revision'}
+            </Button>
+          ) : (
+            <Button onClick={handleGenerate} disabled={submitting}>
+              <Calculator className="h-4 w-4 mr-2" />
+              {submitting ? 'Generating...' : 'Download BOQ PDF'}
+            </Button>
+          )}
         </DialogFooter>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,315 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FileUp, AlertTriangle, Plus, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCreateBOQ, useCreateUnit, useCustomers, useUnits } from '@/hooks/useDatabase';
+import type { BoqDocument } from '@/utils/boqPdfGenerator';
+import { computeBoqTotals } from '@/utils/boqTotals';
+import { parseBoqRows, readBoqSpreadsheet, SpreadsheetRow } from '@/utils/boqImport';
+
+interface ImportBOQModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const defaultNumber = () => {
+  const d = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `BOQ-${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}`;
+};
+
+export function ImportBOQModal({ open, onOpenChange }: ImportBOQModalProps) {
+  const { currentCompany } = useCurrentCompany();
+  const companyId = currentCompany?.id;
+  const { profile } = useAuth();
+  const { data: customers = [] } = useCustomers(companyId);
+  const { data: units = [] } = useUnits(companyId);
+  const createUnit = useCreateUnit();
+  const createBOQ = useCreateBOQ();
+
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<SpreadsheetRow[] | null>(null);
+  const [reading, setReading] = useState(false);
+  const [boqNumber, setBoqNumber] = useState(defaultNumber());
+  const [boqDate, setBoqDate] = useState(new Date().toISOString().split('T')[0]);
+  const [clientId, setClientId] = useState('');
+  const [projectTitle, setProjectTitle] = useState('');
+  const [creatingUnits, setCreatingUnits] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Re-parse whenever units change so newly created units are picked up
+  const result = useMemo(() => (rows ? parseBoqRows(rows, units) : null), [rows, units]);
+
+  const subtotal = useMemo(
+    () => computeBoqTotals({ sections: result?.sections || [] }).total,
+    [result]
+  );
+
+  const formatCurrency = (amount: number) => new Intl.NumberFormat('en-KE', { style: 'currency', currency: currentCompany?.currency || 'KES' }).format(amount);
+
+  const reset = () => {
+    setFileName('');
+    setRows(null);
+    setBoqNumber(defaultNumber());
+    setClientId('');
+    setProjectTitle('');
+  };
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setReading(true);
+    try {
+      const parsed = await readBoqSpreadsheet(file);
+      setRows(parsed);
+      setFileName(file.name);
+      if (!projectTitle) setProjectTitle(file.name.replace(/\.(csv|xlsx)$/i, ''));
+    } catch (err) {
+      console.error('Failed to read BOQ spreadsheet', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to read file');
+      setRows(null);
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleCreateUnits = async (names: string[]) => {
+    if (!companyId || names.length === 0) return;
+    setCreatingUnits(true);
+    try {
+      for (const name of names) {
+        await createUnit.mutateAsync({
+          company_id: companyId,
+          name,
+          abbreviation: name.length <= 6 ? name : null,
+          created_by: profile?.id || null,
+        });
+      }
+      toast.success(`${names.length} unit${names.length === 1 ? '' : 's'} created`);
+    } catch (err) {
+      console.error('Failed to create units', err);
+      toast.error('Failed to create one or more units');
+    } finally {
+      setCreatingUnits(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!result || result.itemCount === 0) { toast.error('Nothing to import'); return; }
+    const client = customers.find(c => c.id === clientId);
+    if (!client) { toast.error('Please select a client'); return; }
+    if (!boqNumber || !boqDate) { toast.error('BOQ number and date are required'); return; }
+
+    setSaving(true);
+    try {
+      const doc: BoqDocument = {
+        number: boqNumber,
+        date: boqDate,
+        client: {
+          name: client.name,
+          email: client.email || undefined,
+          phone: client.phone || undefined,
+          address: client.address || undefined,
+          city: client.city || undefined,
+          country: client.country || undefined,
+        },
+        project_title: projectTitle || undefined,
+        sections: result.sections,
+        notes: `Imported from ${fileName}`,
+      };
+
+      await createBOQ.mutateAsync({
+        company_id: companyId || null,
+        number: boqNumber,
+        boq_date: boqDate,
+        customer_id: client.id,
+        client_name: client.name,
+        client_email: client.email || null,
+        client_phone: client.phone || null,
+        client_address: client.address || null,
+        client_city: client.city || null,
+        client_country: client.country || null,
+        project_title: projectTitle || null,
+        currency: currentCompany?.currency || 'KES',
+        subtotal,
+        tax_amount: 0,
+        total_amount: subtotal,
+        attachment_url: null,
+        data: doc,
+        created_by: profile?.id || null,
+      });
+
+      toast.success(`BOQ ${boqNumber} imported with ${result.itemCount} items`);
+      reset();
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Failed to save imported BOQ', err);
+      toast.error('Failed to save imported BOQ');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { if (!o) reset(); onOpenChange(o); }}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <FileUp className="h-5 w-5 text-primary" />
+            <span>Import BOQ from Spreadsheet</span>
+          </DialogTitle>
+          <DialogDescription>
+            Upload a CSV or XLSX bill. Headings such as "BILL NO. 01" become sections; review the preview before saving.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div>
+            <Label>Spreadsheet File</Label>
+            <Input type="file" accept=".csv,.xlsx" disabled={reading} onChange={e => handleFile(e.target.files?.[0])} />
+            {reading && <p className="text-sm text-muted-foreground mt-1">Reading file...</p>}
+          </div>
+
+          {result && (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <Label>BOQ Number</Label>
+                  <Input value={boqNumber} onChange={e => setBoqNumber(e.target.value)} />
+                </div>
+                <div>
+                  <Label>Date</Label>
+                  <Input type="date" value={boqDate} onChange={e => setBoqDate(e.target.value)} />
+                </div>
+                <div>
+                  <Label>Client</Label>
+                  <Select value={clientId} onValueChange={setClientId}>
+                    <SelectTrigger><SelectValue placeholder="Select client" /></SelectTrigger>
+                    <SelectContent>
+                      {customers.map(c => (
+                        <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Project Title</Label>
+                  <Input value={projectTitle} onChange={e => setProjectTitle(e.target.value)} />
+                </div>
+              </div>
+
+              {result.unmatchedUnits.length > 0 && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription className="space-y-2">
+                    <div>These units are not in your units list and will be stored as plain text unless created:</div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      {result.unmatchedUnits.map(u => (
+                        <Button key={u} size="sm" variant="outline" disabled={creatingUnits} onClick={() => handleCreateUnits([u])}>
+                          <Plus className="h-3 w-3 mr-1" /> {u}
+                        </Button>
+                      ))}
+                      <Button size="sm" disabled={creatingUnits} onClick={() => handleCreateUnits(result.unmatchedUnits)}>
+                        {creatingUnits ? 'Creating...' : 'Create all'}
+                      </Button>
+                    </div>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div className="font-medium">Preview: {result.sections.length} sections, {result.itemCount} items</div>
+                  <div className="font-semibold">Subtotal: {formatCurrency(subtotal)}</div>
+                </div>
+                {result.sections.map((section, idx) => (
+                  <div key={idx} className="border border-border rounded-lg p-4">
+                    <div className="font-medium mb-2">{section.title}</div>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-1/2">Description</TableHead>
+                          <TableHead className="text-right">Qty</TableHead>
+                          <TableHead>Unit</TableHead>
+                          <TableHead className="text-right">Rate</TableHead>
+                          <TableHead className="text-right">Amount</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {section.items.map((it, i) => (
+                          <TableRow key={i}>
+                            <TableCell>{it.description}</TableCell>
+                            <TableCell className="text-right">{it.quantity}</TableCell>
+                            <TableCell>
+                              {it.unit_name || '-'}
+                              {it.unit_name && !it.unit_id && <Badge variant="outline" className="ml-2">new</Badge>}
+                            </TableCell>
+                            <TableCell className="text-right">{formatCurrency(it.rate || 0)}</TableCell>
+                            <TableCell className="text-right">{formatCurrency((it.quantity || 0) * (it.rate || 0))}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                ))}
+              </div>
+
+              {result.errors.length > 0 && (
+                <div className="space-y-2">
+                  <div className="font-medium text-destructive">{result.errors.length} rows could not be imported</div>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">Row</TableHead>
+                        <TableHead>Reason</TableHead>
+                        <TableHead>Content</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.errors.map((e, i) => (
+                        <TableRow key={i}>
+                          <TableCell>{e.row}</TableCell>
+                          <TableCell>{e.reason}</TableCell>
+                          <TableCell className="text-muted-foreground">{e.raw}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="mt-6">
+          <Button variant="outline" onClick={() => { reset(); onOpenChange(false); }}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving || !result || result.itemCount === 0}>
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? 'Saving...' : 'Save BOQ'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -22,6 +22,8 @@ import {
 } from 'lucide-react';
 import type { CreditNote } from '@/hooks/useCreditNotes';
 import { useCreditNotePDFDownload } from '@/hooks/useCreditNotePDF';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AuditHistory } from '@/components/audit/AuditHistory';
 
 interface ViewCreditNoteModalProps {
   open: boolean;
@@ -74,208 +76,221 @@ export function ViewCreditNoteModal({ open, onOpenChange, creditNote }: ViewCred
           </DialogDescription>
         </DialogHeader>
 
-        <div className="space-y-6">
-          {/* Header Information */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <Card>
-              <CardHeader className="pb-3">
-                <CardTitle className="text-lg flex items-center">
-                  <User className="h-4 w-4 mr-2 text-primary" />
-                  Customer Information
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-2">
-                <div>
-                  <div className="font-semibold">{creditNote.customers?.name || 'Unknown Customer'}</div>
-                  {creditNote.customers?.email && (
-                    <div className="text-sm text-muted-foreground">{creditNote.customers.email}</div>
-                  )}
-                  {creditNote.customers?.phone && (
-                    <div className="text-sm text-muted-foreground">{creditNote.customers.phone}</div>
+        <Tabs defaultValue="details">
+          <TabsList>
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="details" className="space-y-4">
+            <div className="space-y-6">
+              {/* Header Information */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-lg flex items-center">
+                      <User className="h-4 w-4 mr-2 text-primary" />
+                      Customer Information
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    <div>
+                      <div className="font-semibold">{creditNote.customers?.name || 'Unknown Customer'}</div>
+                      {creditNote.customers?.email && (
+                        <div className="text-sm text-muted-foreground">{creditNote.customers.email}</div>
+                      )}
+                      {creditNote.customers?.phone && (
+                        <div className="text-sm text-muted-foreground">{creditNote.customers.phone}</div>
+                      )}
+                      <div className="text-xs text-muted-foreground mt-1">
+                        Code: {creditNote.customers?.customer_code}
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-lg flex items-center">
+                      <Calendar className="h-4 w-4 mr-2 text-primary" />
+                      Credit Note Details
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    <div className="flex justify-between">
+                      <span className="text-sm text-muted-foreground">Date:</span>
+                      <span className="text-sm font-medium">
+                        {new Date(creditNote.credit_note_date).toLocaleDateString()}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-sm text-muted-foreground">Reason:</span>
+                      <span className="text-sm font-medium">{creditNote.reason || 'Not specified'}</span>
+                    </div>
+                    {creditNote.invoice_id && creditNote.invoices && (
+                      <div className="flex justify-between">
+                        <span className="text-sm text-muted-foreground">Related Invoice:</span>
+                        <span className="text-sm font-medium">{creditNote.invoices.invoice_number}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between">
+                      <span className="text-sm text-muted-foreground">Affects Inventory:</span>
+                      <span className="text-sm font-medium">
+                        {creditNote.affects_inventory ? 'Yes' : 'No'}
+                      </span>
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+
+              {/* Credit Note Items */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <Package className="h-4 w-4 mr-2 text-primary" />
+                    Items
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {creditNote.credit_note_items && creditNote.credit_note_items.length > 0 ? (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Description</TableHead>
+                          <TableHead className="text-right">Quantity</TableHead>
+                          <TableHead className="text-right">Unit Price</TableHead>
+                          <TableHead className="text-right">Tax %</TableHead>
+                          <TableHead className="text-right">Line Total</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {creditNote.credit_note_items.map((item) => (
+                          <TableRow key={item.id}>
+                            <TableCell>
+                              <div>
+                                <div className="font-medium">{item.description}</div>
+                                {item.products && (
+                                  <div className="text-sm text-muted-foreground">
+                                    {item.products.name} ({item.products.product_code})
+                                  </div>
+                                )}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-right">{item.quantity}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(item.unit_price)}</TableCell>
+                            <TableCell className="text-right">{item.tax_percentage}%</TableCell>
+                            <TableCell className="text-right font-semibold">
+                              {formatCurrency(item.line_total)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  ) : (
+                    <div className="text-center py-8 text-muted-foreground">
+                      No items found for this credit note
+                    </div>
                   )}
-                  <div className="text-xs text-muted-foreground mt-1">
-                    Code: {creditNote.customers?.customer_code}
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+                </CardContent>
+              </Card>
 
-            <Card>
-              <CardHeader className="pb-3">
-                <CardTitle className="text-lg flex items-center">
-                  <Calendar className="h-4 w-4 mr-2 text-primary" />
-                  Credit Note Details
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-2">
-                <div className="flex justify-between">
-                  <span className="text-sm text-muted-foreground">Date:</span>
-                  <span className="text-sm font-medium">
-                    {new Date(creditNote.credit_note_date).toLocaleDateString()}
-                  </span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-sm text-muted-foreground">Reason:</span>
-                  <span className="text-sm font-medium">{creditNote.reason || 'Not specified'}</span>
-                </div>
-                {creditNote.invoice_id && creditNote.invoices && (
-                  <div className="flex justify-between">
-                    <span className="text-sm text-muted-foreground">Related Invoice:</span>
-                    <span className="text-sm font-medium">{creditNote.invoices.invoice_number}</span>
+              {/* Financial Summary */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <DollarSign className="h-4 w-4 mr-2 text-primary" />
+                    Financial Summary
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    <div className="flex justify-between">
+                      <span>Subtotal:</span>
+                      <span className="font-semibold">{formatCurrency(creditNote.subtotal)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Tax Amount:</span>
+                      <span className="font-semibold">{formatCurrency(creditNote.tax_amount)}</span>
+                    </div>
+                    <Separator />
+                    <div className="flex justify-between text-lg">
+                      <span className="font-bold">Total Credit:</span>
+                      <span className="font-bold text-success">{formatCurrency(creditNote.total_amount)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-warning">Applied Amount:</span>
+                      <span className="font-semibold text-warning">{formatCurrency(creditNote.applied_amount)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-primary">Remaining Balance:</span>
+                      <span className="font-semibold text-primary">{formatCurrency(creditNote.balance)}</span>
+                    </div>
                   </div>
-                )}
-                <div className="flex justify-between">
-                  <span className="text-sm text-muted-foreground">Affects Inventory:</span>
-                  <span className="text-sm font-medium">
-                    {creditNote.affects_inventory ? 'Yes' : 'No'}
-                  </span>
-                </div>
-              </CardContent>
-            </Card>
-          </div>
+                </CardContent>
+              </Card>
 
-          {/* Credit Note Items */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center">
-                <Package className="h-4 w-4 mr-2 text-primary" />
-                Items
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              {creditNote.credit_note_items && creditNote.credit_note_items.length > 0 ? (
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Description</TableHead>
-                      <TableHead className="text-right">Quantity</TableHead>
-                      <TableHead className="text-right">Unit Price</TableHead>
-                      <TableHead className="text-right">Tax %</TableHead>
-                      <TableHead className="text-right">Line Total</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {creditNote.credit_note_items.map((item) => (
-                      <TableRow key={item.id}>
-                        <TableCell>
-                          <div>
-                            <div className="font-medium">{item.description}</div>
-                            {item.products && (
-                              <div className="text-sm text-muted-foreground">
-                                {item.products.name} ({item.products.product_code})
-                              </div>
-                            )}
-                          </div>
-                        </TableCell>
-                        <TableCell className="text-right">{item.quantity}</TableCell>
-                        <TableCell className="text-right">{formatCurrency(item.unit_price)}</TableCell>
-                        <TableCell className="text-right">{item.tax_percentage}%</TableCell>
-                        <TableCell className="text-right font-semibold">
-                          {formatCurrency(item.line_total)}
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              ) : (
-                <div className="text-center py-8 text-muted-foreground">
-                  No items found for this credit note
-                </div>
+              {/* Notes */}
+              {(creditNote.notes || creditNote.terms_and_conditions) && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Additional Information</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {creditNote.notes && (
+                      <div>
+                        <h4 className="font-medium mb-2">Notes:</h4>
+                        <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                          {creditNote.notes}
+                        </p>
+                      </div>
+                    )}
+                    {creditNote.terms_and_conditions && (
+                      <div>
+                        <h4 className="font-medium mb-2">Terms and Conditions:</h4>
+                        <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                          {creditNote.terms_and_conditions}
+                        </p>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
               )}
-            </CardContent>
-          </Card>
 
-          {/* Financial Summary */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center">
-                <DollarSign className="h-4 w-4 mr-2 text-primary" />
-                Financial Summary
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-2">
-                <div className="flex justify-between">
-                  <span>Subtotal:</span>
-                  <span className="font-semibold">{formatCurrency(creditNote.subtotal)}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span>Tax Amount:</span>
-                  <span className="font-semibold">{formatCurrency(creditNote.tax_amount)}</span>
-                </div>
-                <Separator />
-                <div className="flex justify-between text-lg">
-                  <span className="font-bold">Total Credit:</span>
-                  <span className="font-bold text-success">{formatCurrency(creditNote.total_amount)}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-warning">Applied Amount:</span>
-                  <span className="font-semibold text-warning">{formatCurrency(creditNote.applied_amount)}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-primary">Remaining Balance:</span>
-                  <span className="font-semibold text-primary">{formatCurrency(creditNote.balance)}</span>
+              {/* Action Buttons */}
+              <div className="flex justify-between items-center pt-4 border-t">
+                <div className="flex space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => downloadPDF.mutate(creditNote)}
+                    disabled={downloadPDF.isPending}
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    {downloadPDF.isPending ? 'Generating...' : 'Download PDF'}
+                  </Button>
+                  <Button variant="outline" size="sm">
+                    <Printer className="h-4 w-4 mr-2" />
+                    Print
+                  </Button>
+                  {creditNote.status === 'draft' && (
+                    <Button variant="outline" size="sm">
+                      <Send className="h-4 w-4 mr-2" />
+                      Send to Customer
+                    </Button>
+                  )}
                 </div>
-              </div>
-            </CardContent>
-          </Card>
 
-          {/* Notes */}
-          {(creditNote.notes || creditNote.terms_and_conditions) && (
-            <Card>
-              <CardHeader>
-                <CardTitle>Additional Information</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                {creditNote.notes && (
-                  <div>
-                    <h4 className="font-medium mb-2">Notes:</h4>
-                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">
-                      {creditNote.notes}
-                    </p>
-                  </div>
-                )}
-                {creditNote.terms_and_conditions && (
-                  <div>
-                    <h4 className="font-medium mb-2">Terms and Conditions:</h4>
-                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">
-                      {creditNote.terms_and_conditions}
-                    </p>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          )}
-
-          {/* Action Buttons */}
-          <div className="flex justify-between items-center pt-4 border-t">
-            <div className="flex space-x-2">
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => downloadPDF.mutate(creditNote)}
-                disabled={downloadPDF.isPending}
-              >
-                <Download className="h-4 w-4 mr-2" />
-                {downloadPDF.isPending ? 'Generating...' : 'Download PDF'}
-              </Button>
-              <Button variant="outline" size="sm">
-                <Printer className="h-4 w-4 mr-2" />
-                Print
-              </Button>
-              {creditNote.status === 'draft' && (
-                <Button variant="outline" size="sm">
-                  <Send className="h-4 w-4 mr-2" />
-                  Send to Customer
+                <Button variant="outline" onClick={() => onOpenChange(false)}>
+                  Close
                 </Button>
-              )}
+              </div>
             </div>
-            
-            <Button variant="outline" onClick={() => onOpenChange(false)}>
-              Close
-            </Button>
-          </div>
-        </div>
+          </TabsContent>
+
+          <TabsContent value="history">
+            <AuditHistory entityType="credit_notes" entityId={creditNote.id} />
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,91 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { SUPPORTED_CURRENCIES, baseCurrencyOf, rateOn, type DocumentCurrencyValue } from '@/utils/currency';
+
+interface DocumentCurrencyFieldsProps {
+  value: DocumentCurrencyValue;
+  onChange: (value: DocumentCurrencyValue) => void;
+  documentDate: string;
+  disabled?: boolean;
+  lockCurrency?: boolean;   // the currency is set by another document, only the rate can change
+}
+
+// Currency select and exchange rate for a document. Picking a currency fills in the latest rate on
+// or before the document date from Settings > Exchange Rates; the rate can then be overridden.
+export function DocumentCurrencyFields({ value, onChange, documentDate, disabled, lockCurrency }: DocumentCurrencyFieldsProps) {
+  const { currentCompany } = useCurrentCompany();
+  const { data: rates = [] } = useExchangeRates(currentCompany?.id);
+  const baseCurrency = baseCurrencyOf(currentCompany);
+  const isBase = value.currency === baseCurrency;
+  const rateForDate = rateOn(rates, value.currency, documentDate, baseCurrency);
+
+  const handleCurrencyChange = (currency: string) => {
+    onChange({ currency, exchange_rate: rateOn(rates, currency, documentDate, baseCurrency) });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor="document_currency">Currency</Label>
+        <Select value={value.currency} onValueChange={handleCurrencyChange} disabled={disabled || lockCurrency}>
+          <SelectTrigger id="document_currency">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SUPPORTED_CURRENCIES.map(currency => (
+              <SelectItem key={currency.code} value={currency.code}>
+                {currency.code} - {currency.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="document_exchange_rate">Exchange Rate{!isBase && ` (${baseCurrency} per ${value.currency})`}</Label>
+        <Input
+          id="document_exchange_rate"
+          type="number"
+          min="0"
+          step="0.0001"
+          value={isBase ? 1 : value.exchange_rate ?? ''}
+          onChange={(e) => onChange({ ...value, exchange_rate: e.target.value === '' ? null : Number(e.target.value) })}
+          disabled={disabled || isBase}
+          placeholder="No rate on file"
+        />
+        {!isBase && (
+          <div className="text-xs text-muted-foreground">
+            {rateForDate === null ? (
+              <span className="text-destructive">No {value.currency} rate on or before this date; enter one</span>
+            ) : rateForDate !== value.exchange_rate ? (
+              <span>
+                Rate on file: 1 {value.currency} = {rateForDate} {baseCurrency}{' '}
+                {!disabled && (
+                  <Button
+                    type="button"
+                    variant="link"
+                    className="h-auto p-0 text-xs"
+                    onClick={() => onChange({ ...value, exchange_rate: rateForDate })}
+                  >
+                    Use it
+                  </Button>
+                )}
+              </span>
+            ) : (
+              <span>1 {value.currency} = {rateForDate} {baseCurrency}</span>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
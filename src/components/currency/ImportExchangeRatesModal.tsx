@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FileUp, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useSaveExchangeRates } from '@/hooks/useExchangeRates';
+import { parseExchangeRateCSV, type ExchangeRate, type ParsedExchangeRates } from '@/utils/currency';
+
+interface ImportExchangeRatesModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  companyId: string;
+  baseCurrency: string;
+  rates: ExchangeRate[];   // rates already on file
+}
+
+const PREVIEW_ROWS = 50;
+
+export function ImportExchangeRatesModal({ open, onOpenChange, companyId, baseCurrency, rates }: ImportExchangeRatesModalProps) {
+  const saveRates = useSaveExchangeRates();
+  const [parsed, setParsed] = useState<ParsedExchangeRates | null>(null);
+  const [reading, setReading] = useState(false);
+
+  const onFile = new Map(rates.map(rate => [`${rate.currency_code}|${rate.rate_date}`, Number(rate.rate)]));
+  const replacing = parsed?.rates.filter(rate => onFile.has(`${rate.currency_code}|${rate.rate_date}`)).length || 0;
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setReading(true);
+    try {
+      setParsed(parseExchangeRateCSV(await file.text(), baseCurrency));
+    } catch (err) {
+      console.error('Failed to read exchange rates', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to read file');
+      setParsed(null);
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!parsed || parsed.rates.length === 0) { toast.error('Nothing to import'); return; }
+
+    try {
+      const count = await saveRates.mutateAsync({ companyId, rates: parsed.rates, source: 'csv' });
+      toast.success(`Imported ${count} exchange rate${count === 1 ? '' : 's'}`,
+        replacing > 0 ? { description: `${replacing} replaced rates already on file for the same day.` } : undefined);
+      setParsed(null);
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Failed to import exchange rates', err);
+      toast.error((err as { message?: string })?.message || 'Failed to import exchange rates');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { if (!o) setParsed(null); onOpenChange(o); }}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <FileUp className="h-5 w-5 text-primary" />
+            <span>Import Exchange Rates</span>
+          </DialogTitle>
+          <DialogDescription>
+            Upload a CSV with date, currency and rate columns, such as the CBK indicative rates download. Rates are {baseCurrency} per unit of currency.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div>
+            <Label>Rates File</Label>
+            <Input type="file" accept=".csv" disabled={reading} onChange={e => handleFile(e.target.files?.[0])} />
+            {reading && <p className="text-sm text-muted-foreground mt-1">Reading file...</p>}
+          </div>
+
+          {parsed && (
+            <>
+              {parsed.errors.length > 0 && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    {parsed.errors.length} row{parsed.errors.length === 1 ? '' : 's'} could not be read and will be left out:
+                    <ul className="list-disc ml-5 mt-1">
+                      {parsed.errors.slice(0, 5).map((e, i) => (
+                        <li key={i}>Row {e.row}: {e.reason}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Currency</TableHead>
+                    <TableHead className="text-right">Rate ({baseCurrency})</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {parsed.rates.slice(0, PREVIEW_ROWS).map(rate => {
+                    const existing = onFile.get(`${rate.currency_code}|${rate.rate_date}`);
+                    return (
+                      <TableRow key={`${rate.currency_code}|${rate.rate_date}`}>
+                        <TableCell>{new Date(rate.rate_date).toLocaleDateString()}</TableCell>
+                        <TableCell className="font-medium">{rate.currency_code}</TableCell>
+                        <TableCell className="text-right">
+                          {rate.rate}
+                          {existing !== undefined && existing !== rate.rate && (
+                            <Badge variant="outline" className="ml-2 bg-warning-light text-warning border-warning/20">
+                              Replaces {existing}
+                            </Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              {parsed.rates.length > PREVIEW_ROWS && (
+                <p className="text-sm text-muted-foreground">
+                  Showing the first {PREVIEW_ROWS} of <Badge variant="outline">{parsed.rates.length}</Badge> rates.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saveRates.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={saveRates.isPending || !parsed || parsed.rates.length === 0}>
+            {saveRates.isPending ? 'Importing...' : `Import ${parsed?.rates.length || 0} Rates`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -30,7 +30,8 @@ import {
   Plus
 } from 'lucide-react';
 import { toast } from 'sonner';
-import { useCreateCustomer, useCustomers, useCompanies } from '@/hooks/useDatabase';
+import { useCreateCustomer, useCustomers } from '@/hooks/useDatabase';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
 
 interface CreateCustomerModalProps {
   open: boolean;
@@ -52,8 +53,7 @@ export function CreateCustomerModal({ open, onOpenChange, onSuccess }: CreateCus
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const { data: companies } = useCompanies();
-  const currentCompany = companies?.[0];
+  const { currentCompany } = useCurrentCompany();
   const { data: customers } = useCustomers(currentCompany?.id);
   const createCustomer = useCreateCustomer();
 
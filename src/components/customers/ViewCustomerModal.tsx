@@ -23,6 +23,8 @@ import {
   Activity
 } from 'lucide-react';
 import { useCustomerInvoices, useCustomerPayments } from '@/hooks/useDatabase';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AuditHistory } from '@/components/audit/AuditHistory';
 
 interface Customer {
   id: string;
@@ -104,132 +106,145 @@ export function ViewCustomerModal({ open, onOpenChange, customer, onEdit, onCrea
           </DialogDescription>
         </DialogHeader>
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {/* Contact Information */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg flex items-center space-x-2">
-                <User className="h-4 w-4" />
-                <span>Contact Information</span>
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              {customer.email && (
-                <div className="flex items-center space-x-3">
-                  <Mail className="h-4 w-4 text-muted-foreground" />
-                  <div>
-                    <div className="font-medium">{customer.email}</div>
-                    <div className="text-sm text-muted-foreground">Email Address</div>
-                  </div>
-                </div>
-              )}
+        <Tabs defaultValue="details">
+          <TabsList>
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
 
-              {customer.phone && (
-                <div className="flex items-center space-x-3">
-                  <Phone className="h-4 w-4 text-muted-foreground" />
-                  <div>
-                    <div className="font-medium">{customer.phone}</div>
-                    <div className="text-sm text-muted-foreground">Phone Number</div>
-                  </div>
-                </div>
-              )}
+          <TabsContent value="details" className="space-y-4">
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Contact Information */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center space-x-2">
+                    <User className="h-4 w-4" />
+                    <span>Contact Information</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {customer.email && (
+                    <div className="flex items-center space-x-3">
+                      <Mail className="h-4 w-4 text-muted-foreground" />
+                      <div>
+                        <div className="font-medium">{customer.email}</div>
+                        <div className="text-sm text-muted-foreground">Email Address</div>
+                      </div>
+                    </div>
+                  )}
 
-              {customer.address && (
-                <div className="flex items-start space-x-3">
-                  <MapPin className="h-4 w-4 text-muted-foreground mt-1" />
-                  <div>
-                    <div className="font-medium">{customer.address}</div>
-                    <div className="text-sm text-muted-foreground">
-                      {customer.city && customer.country 
-                        ? `${customer.city}, ${customer.country}`
-                        : customer.city || customer.country || 'Address'
-                      }
+                  {customer.phone && (
+                    <div className="flex items-center space-x-3">
+                      <Phone className="h-4 w-4 text-muted-foreground" />
+                      <div>
+                        <div className="font-medium">{customer.phone}</div>
+                        <div className="text-sm text-muted-foreground">Phone Number</div>
+                      </div>
                     </div>
-                  </div>
-                </div>
-              )}
+                  )}
+
+                  {customer.address && (
+                    <div className="flex items-start space-x-3">
+                      <MapPin className="h-4 w-4 text-muted-foreground mt-1" />
+                      <div>
+                        <div className="font-medium">{customer.address}</div>
+                        <div className="text-sm text-muted-foreground">
+                          {customer.city && customer.country 
+                            ? `${customer.city}, ${customer.country}`
+                            : customer.city || customer.country || 'Address'
+                          }
+                        </div>
+                      </div>
+                    </div>
+                  )}
 
-              {customer.created_at && (
-                <div className="flex items-center space-x-3">
-                  <Calendar className="h-4 w-4 text-muted-foreground" />
-                  <div>
-                    <div className="font-medium">{formatDate(customer.created_at)}</div>
-                    <div className="text-sm text-muted-foreground">Customer Since</div>
+                  {customer.created_at && (
+                    <div className="flex items-center space-x-3">
+                      <Calendar className="h-4 w-4 text-muted-foreground" />
+                      <div>
+                        <div className="font-medium">{formatDate(customer.created_at)}</div>
+                        <div className="text-sm text-muted-foreground">Customer Since</div>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Business Information */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center space-x-2">
+                    <Building2 className="h-4 w-4" />
+                    <span>Business Information</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-center space-x-3">
+                    <CreditCard className="h-4 w-4 text-muted-foreground" />
+                    <div>
+                      <div className="font-medium">{formatCurrency(customer.credit_limit || 0)}</div>
+                      <div className="text-sm text-muted-foreground">Credit Limit</div>
+                    </div>
                   </div>
-                </div>
-              )}
-            </CardContent>
-          </Card>
 
-          {/* Business Information */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg flex items-center space-x-2">
-                <Building2 className="h-4 w-4" />
-                <span>Business Information</span>
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="flex items-center space-x-3">
-                <CreditCard className="h-4 w-4 text-muted-foreground" />
-                <div>
-                  <div className="font-medium">{formatCurrency(customer.credit_limit || 0)}</div>
-                  <div className="text-sm text-muted-foreground">Credit Limit</div>
-                </div>
-              </div>
+                  <div className="flex items-center space-x-3">
+                    <Calendar className="h-4 w-4 text-muted-foreground" />
+                    <div>
+                      <div className="font-medium">{customer.payment_terms || 30} days</div>
+                      <div className="text-sm text-muted-foreground">Payment Terms</div>
+                    </div>
+                  </div>
 
-              <div className="flex items-center space-x-3">
-                <Calendar className="h-4 w-4 text-muted-foreground" />
-                <div>
-                  <div className="font-medium">{customer.payment_terms || 30} days</div>
-                  <div className="text-sm text-muted-foreground">Payment Terms</div>
-                </div>
-              </div>
+                  <div className="flex items-center space-x-3">
+                    <Activity className="h-4 w-4 text-muted-foreground" />
+                    <div>
+                      <div className="font-medium">
+                        <Badge variant="outline" className={customer.is_active !== false ? 'bg-success-light text-success border-success/20' : 'bg-destructive-light text-destructive border-destructive/20'}>
+                          {customer.is_active !== false ? 'Active Account' : 'Inactive Account'}
+                        </Badge>
+                      </div>
+                      <div className="text-sm text-muted-foreground">Account Status</div>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
 
-              <div className="flex items-center space-x-3">
-                <Activity className="h-4 w-4 text-muted-foreground" />
-                <div>
-                  <div className="font-medium">
-                    <Badge variant="outline" className={customer.is_active !== false ? 'bg-success-light text-success border-success/20' : 'bg-destructive-light text-destructive border-destructive/20'}>
-                      {customer.is_active !== false ? 'Active Account' : 'Inactive Account'}
-                    </Badge>
+              {/* Account Summary */}
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center space-x-2">
+                    <DollarSign className="h-4 w-4" />
+                    <span>Account Summary</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <div className="text-center p-4 bg-primary-light rounded-lg">
+                      <div className="text-2xl font-bold text-primary">{totalInvoices}</div>
+                      <div className="text-sm text-muted-foreground">Total Invoices</div>
+                    </div>
+                    <div className="text-center p-4 bg-success-light rounded-lg">
+                      <div className="text-2xl font-bold text-success">{formatCurrency(totalInvoiced)}</div>
+                      <div className="text-sm text-muted-foreground">Total Sales</div>
+                    </div>
+                    <div className="text-center p-4 bg-warning-light rounded-lg">
+                      <div className="text-2xl font-bold text-warning">{formatCurrency(outstandingBalance)}</div>
+                      <div className="text-sm text-muted-foreground">Outstanding</div>
+                    </div>
+                    <div className="text-center p-4 bg-secondary-light rounded-lg">
+                      <div className="text-2xl font-bold text-secondary">{totalPayments}</div>
+                      <div className="text-sm text-muted-foreground">Payments</div>
+                    </div>
                   </div>
-                  <div className="text-sm text-muted-foreground">Account Status</div>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
 
-          {/* Account Summary */}
-          <Card className="lg:col-span-2">
-            <CardHeader>
-              <CardTitle className="text-lg flex items-center space-x-2">
-                <DollarSign className="h-4 w-4" />
-                <span>Account Summary</span>
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-                <div className="text-center p-4 bg-primary-light rounded-lg">
-                  <div className="text-2xl font-bold text-primary">{totalInvoices}</div>
-                  <div className="text-sm text-muted-foreground">Total Invoices</div>
-                </div>
-                <div className="text-center p-4 bg-success-light rounded-lg">
-                  <div className="text-2xl font-bold text-success">{formatCurrency(totalInvoiced)}</div>
-                  <div className="text-sm text-muted-foreground">Total Sales</div>
-                </div>
-                <div className="text-center p-4 bg-warning-light rounded-lg">
-                  <div className="text-2xl font-bold text-warning">{formatCurrency(outstandingBalance)}</div>
-                  <div className="text-sm text-muted-foreground">Outstanding</div>
-                </div>
-                <div className="text-center p-4 bg-secondary-light rounded-lg">
-                  <div className="text-2xl font-bold text-secondary">{totalPayments}</div>
-                  <div className="text-sm text-muted-foreground">Payments</div>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        </div>
+          <TabsContent value="history">
+            <AuditHistory entityType="customers" entityId={customer.id} />
+          </TabsContent>
+        </Tabs>
 
         <DialogFooter className="flex justify-between">
           <div className="flex space-x-2">
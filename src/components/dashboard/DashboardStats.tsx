@@ -1,7 +1,8 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { TrendingUp, TrendingDown, DollarSign, FileText, Package, Users, AlertTriangle, CheckCircle } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { useDashboardStats, useCompanies } from '@/hooks/useDatabase';
+import { useDashboardStats } from '@/hooks/useDatabase';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
 
 interface StatCardProps {
   title: string;
@@ -58,8 +59,7 @@ function StatCard({ title, value, change, changeType, icon: Icon, alert }: StatC
 }
 
 export function DashboardStats() {
-  const { data: companies } = useCompanies();
-  const currentCompany = companies?.[0];
+  const { currentCompany } = useCurrentCompany();
   const { data: stats, isLoading } = useDashboardStats(currentCompany?.id);
 
   if (isLoading) {
@@ -2,9 +2,10 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { formatDistanceToNow } from 'date-fns';
-import { usePayments, useRemittanceAdvice, useCompanies } from '@/hooks/useDatabase';
+import { usePayments, useRemittanceAdvice } from '@/hooks/useDatabase';
 import { useInvoicesFixed as useInvoices } from '@/hooks/useInvoicesFixed';
 import { Skeleton } from '@/components/ui/skeleton';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
 
 interface Activity {
   id: string;
@@ -48,8 +49,7 @@ function getTypeIcon(type: Activity['type']) {
 }
 
 export function RecentActivity() {
-  const { data: companies } = useCompanies();
-  const currentCompany = companies?.[0];
+  const { currentCompany } = useCurrentCompany();
   const { data: invoices, isLoading: invoicesLoading } = useInvoices(currentCompany?.id);
   const { data: payments, isLoading: paymentsLoading } = usePayments(currentCompany?.id);
   const { data: remittances, isLoading: remittancesLoading } = useRemittanceAdvice(currentCompany?.id);
@@ -24,6 +24,8 @@ import {
   Clock,
   AlertTriangle
 } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AuditHistory } from '@/components/audit/AuditHistory';
 
 interface DeliveryItem {
   id: string;
@@ -140,213 +142,226 @@ export const ViewDeliveryNoteModal = ({
           </DialogDescription>
         </DialogHeader>
 
-        <div className="space-y-6">
-          {/* Header Information */}
-          <Card>
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <CardTitle className="flex items-center gap-2">
-                  <Package className="h-4 w-4" />
-                  Delivery Details
-                </CardTitle>
-                {getStatusBadge(mappedDeliveryNote.status)}
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">Delivery Note #</p>
-                  <p className="text-sm">{noteNumber}</p>
-                </div>
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">Delivery Date</p>
-                  <p className="text-sm flex items-center gap-1">
-                    <Calendar className="h-3 w-3" />
-                    {formatDate(mappedDeliveryNote.delivery_date)}
-                  </p>
-                </div>
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">Delivery Method</p>
-                  <p className="text-sm">{getDeliveryMethodDisplay(mappedDeliveryNote.delivery_method)}</p>
-                </div>
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">Items Status</p>
-                  <p className="text-sm">
-                    {totalItemsDelivered}/{totalItemsOrdered} items
-                    {isPartialDelivery && <span className="text-warning"> (Partial)</span>}
-                  </p>
-                </div>
-              </div>
-
-              {(mappedDeliveryNote.invoice_number || mappedDeliveryNote.invoices?.invoice_number) && (
-                <div className="mt-4 pt-4 border-t">
-                  <div>
-                    <p className="text-sm font-medium text-muted-foreground">Related Invoice</p>
-                    <p className="text-sm font-semibold text-primary">
-                      {mappedDeliveryNote.invoice_number || mappedDeliveryNote.invoices?.invoice_number}
-                    </p>
-                  </div>
-                </div>
-              )}
-            </CardContent>
-          </Card>
+        <Tabs defaultValue="details">
+          <TabsList>
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
 
-          {/* Customer and Shipping Info */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {/* Customer Information */}
-            {mappedDeliveryNote.customers && (
+          <TabsContent value="details" className="space-y-4">
+            <div className="space-y-6">
+              {/* Header Information */}
               <Card>
                 <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <User className="h-4 w-4" />
-                    Customer Information
-                  </CardTitle>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="flex items-center gap-2">
+                      <Package className="h-4 w-4" />
+                      Delivery Details
+                    </CardTitle>
+                    {getStatusBadge(mappedDeliveryNote.status)}
+                  </div>
                 </CardHeader>
                 <CardContent>
-                  <div className="space-y-2">
-                    <p className="font-medium">{mappedDeliveryNote.customers.name}</p>
-                    {mappedDeliveryNote.customers.email && (
-                      <p className="text-sm text-muted-foreground">{mappedDeliveryNote.customers.email}</p>
-                    )}
-                    {mappedDeliveryNote.customers.phone && (
-                      <p className="text-sm text-muted-foreground">{mappedDeliveryNote.customers.phone}</p>
-                    )}
-                  </div>
-                </CardContent>
-              </Card>
-            )}
-
-            {/* Shipping Information */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <MapPin className="h-4 w-4" />
-                  Shipping Information
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-2">
-                  <div>
-                    <p className="text-sm font-medium text-muted-foreground">Delivery Address</p>
-                    <p className="text-sm whitespace-pre-wrap">{mappedDeliveryNote.delivery_address}</p>
-                  </div>
-                  {mappedDeliveryNote.carrier && (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                     <div>
-                      <p className="text-sm font-medium text-muted-foreground">Carrier</p>
-                      <p className="text-sm">{mappedDeliveryNote.carrier}</p>
+                      <p className="text-sm font-medium text-muted-foreground">Delivery Note #</p>
+                      <p className="text-sm">{noteNumber}</p>
                     </div>
-                  )}
-                  {mappedDeliveryNote.tracking_number && (
                     <div>
-                      <p className="text-sm font-medium text-muted-foreground">Tracking Number</p>
-                      <p className="text-sm font-mono">{mappedDeliveryNote.tracking_number}</p>
+                      <p className="text-sm font-medium text-muted-foreground">Delivery Date</p>
+                      <p className="text-sm flex items-center gap-1">
+                        <Calendar className="h-3 w-3" />
+                        {formatDate(mappedDeliveryNote.delivery_date)}
+                      </p>
                     </div>
-                  )}
-                </div>
-              </CardContent>
-            </Card>
-          </div>
-
-          {/* Items */}
-          {mappedDeliveryNote.delivery_items && mappedDeliveryNote.delivery_items.length > 0 && (
-            <Card>
-              <CardHeader>
-                <CardTitle>Items for Delivery</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Product</TableHead>
-                      <TableHead>Description</TableHead>
-                      <TableHead>Ordered</TableHead>
-                      <TableHead>Delivered</TableHead>
-                      <TableHead>Unit</TableHead>
-                      <TableHead>Status</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {mappedDeliveryNote.delivery_items.map((item) => {
-                      const isFullyDelivered = item.quantity_delivered >= item.quantity_ordered;
-                      const isPartiallyDelivered = item.quantity_delivered > 0 && item.quantity_delivered < item.quantity_ordered;
-                      
-                      return (
-                        <TableRow key={item.id}>
-                          <TableCell className="font-medium">{item.product_name}</TableCell>
-                          <TableCell>{item.description}</TableCell>
-                          <TableCell>{item.quantity_ordered}</TableCell>
-                          <TableCell className={
-                            isFullyDelivered ? 'text-success' : 
-                            isPartiallyDelivered ? 'text-warning' : 'text-muted-foreground'
-                          }>
-                            {item.quantity_delivered}
-                          </TableCell>
-                          <TableCell>{item.unit_of_measure}</TableCell>
-                          <TableCell>
-                            {isFullyDelivered ? (
-                              <Badge className="text-xs bg-success text-success-foreground">
-                                <CheckCircle className="h-3 w-3 mr-1" />
-                                Complete
-                              </Badge>
-                            ) : isPartiallyDelivered ? (
-                              <Badge className="text-xs bg-warning text-warning-foreground">
-                                <AlertTriangle className="h-3 w-3 mr-1" />
-                                Partial
-                              </Badge>
-                            ) : (
-                              <Badge variant="outline" className="text-xs">
-                                <Clock className="h-3 w-3 mr-1" />
-                                Pending
-                              </Badge>
-                            )}
-                          </TableCell>
-                        </TableRow>
-                      );
-                    })}
-                  </TableBody>
-                </Table>
-              </CardContent>
-            </Card>
-          )}
-
-          {/* Delivery Personnel and Notes */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {(mappedDeliveryNote.delivered_by || mappedDeliveryNote.received_by) && (
-              <Card>
-                <CardHeader>
-                  <CardTitle className="text-sm">Personnel</CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-2">
-                  {mappedDeliveryNote.delivered_by && (
                     <div>
-                      <p className="text-sm font-medium text-muted-foreground">Delivered By</p>
-                      <p className="text-sm">{mappedDeliveryNote.delivered_by}</p>
+                      <p className="text-sm font-medium text-muted-foreground">Delivery Method</p>
+                      <p className="text-sm">{getDeliveryMethodDisplay(mappedDeliveryNote.delivery_method)}</p>
                     </div>
-                  )}
-                  {mappedDeliveryNote.received_by && (
                     <div>
-                      <p className="text-sm font-medium text-muted-foreground">Received By</p>
-                      <p className="text-sm">{mappedDeliveryNote.received_by}</p>
+                      <p className="text-sm font-medium text-muted-foreground">Items Status</p>
+                      <p className="text-sm">
+                        {totalItemsDelivered}/{totalItemsOrdered} items
+                        {isPartialDelivery && <span className="text-warning"> (Partial)</span>}
+                      </p>
+                    </div>
+                  </div>
+
+                  {(mappedDeliveryNote.invoice_number || mappedDeliveryNote.invoices?.invoice_number) && (
+                    <div className="mt-4 pt-4 border-t">
+                      <div>
+                        <p className="text-sm font-medium text-muted-foreground">Related Invoice</p>
+                        <p className="text-sm font-semibold text-primary">
+                          {mappedDeliveryNote.invoice_number || mappedDeliveryNote.invoices?.invoice_number}
+                        </p>
+                      </div>
                     </div>
                   )}
                 </CardContent>
               </Card>
-            )}
-            
-            {mappedDeliveryNote.notes && (
-              <Card>
-                <CardHeader>
-                  <CardTitle className="text-sm">Delivery Notes</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <p className="text-sm text-muted-foreground whitespace-pre-wrap">
-                    {mappedDeliveryNote.notes}
-                  </p>
-                </CardContent>
-              </Card>
-            )}
-          </div>
-        </div>
+
+              {/* Customer and Shipping Info */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {/* Customer Information */}
+                {mappedDeliveryNote.customers && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <User className="h-4 w-4" />
+                        Customer Information
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="space-y-2">
+                        <p className="font-medium">{mappedDeliveryNote.customers.name}</p>
+                        {mappedDeliveryNote.customers.email && (
+                          <p className="text-sm text-muted-foreground">{mappedDeliveryNote.customers.email}</p>
+                        )}
+                        {mappedDeliveryNote.customers.phone && (
+                          <p className="text-sm text-muted-foreground">{mappedDeliveryNote.customers.phone}</p>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Shipping Information */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <MapPin className="h-4 w-4" />
+                      Shipping Information
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-2">
+                      <div>
+                        <p className="text-sm font-medium text-muted-foreground">Delivery Address</p>
+                        <p className="text-sm whitespace-pre-wrap">{mappedDeliveryNote.delivery_address}</p>
+                      </div>
+                      {mappedDeliveryNote.carrier && (
+                        <div>
+                          <p className="text-sm font-medium text-muted-foreground">Carrier</p>
+                          <p className="text-sm">{mappedDeliveryNote.carrier}</p>
+                        </div>
+                      )}
+                      {mappedDeliveryNote.tracking_number && (
+                        <div>
+                          <p className="text-sm font-medium text-muted-foreground">Tracking Number</p>
+                          <p className="text-sm font-mono">{mappedDeliveryNote.tracking_number}</p>
+                        </div>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+
+              {/* Items */}
+              {mappedDeliveryNote.delivery_items && mappedDeliveryNote.delivery_items.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Items for Delivery</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Product</TableHead>
+                          <TableHead>Description</TableHead>
+                          <TableHead>Ordered</TableHead>
+                          <TableHead>Delivered</TableHead>
+                          <TableHead>Unit</TableHead>
+                          <TableHead>Status</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {mappedDeliveryNote.delivery_items.map((item) => {
+                          const isFullyDelivered = item.quantity_delivered >= item.quantity_ordered;
+                          const isPartiallyDelivered = item.quantity_delivered > 0 && item.quantity_delivered < item.quantity_ordered;
+
+                          return (
+                            <TableRow key={item.id}>
+                              <TableCell className="font-medium">{item.product_name}</TableCell>
+                              <TableCell>{item.description}</TableCell>
+                              <TableCell>{item.quantity_ordered}</TableCell>
+                              <TableCell className={
+                                isFullyDelivered ? 'text-success' : 
+                                isPartiallyDelivered ? 'text-warning' : 'text-muted-foreground'
+                              }>
+                                {item.quantity_delivered}
+                              </TableCell>
+                              <TableCell>{item.unit_of_measure}</TableCell>
+                              <TableCell>
+                                {isFullyDelivered ? (
+                                  <Badge className="text-xs bg-success text-success-foreground">
+                                    <CheckCircle className="h-3 w-3 mr-1" />
+                                    Complete
+                                  </Badge>
+                                ) : isPartiallyDelivered ? (
+                                  <Badge className="text-xs bg-warning text-warning-foreground">
+                                    <AlertTriangle className="h-3 w-3 mr-1" />
+                                    Partial
+                                  </Badge>
+                                ) : (
+                                  <Badge variant="outline" className="text-xs">
+                                    <Clock className="h-3 w-3 mr-1" />
+                                    Pending
+                                  </Badge>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Delivery Personnel and Notes */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {(mappedDeliveryNote.delivered_by || mappedDeliveryNote.received_by) && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-sm">Personnel</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                      {mappedDeliveryNote.delivered_by && (
+                        <div>
+                          <p className="text-sm font-medium text-muted-foreground">Delivered By</p>
+                          <p className="text-sm">{mappedDeliveryNote.delivered_by}</p>
+                        </div>
+                      )}
+                      {mappedDeliveryNote.received_by && (
+                        <div>
+                          <p className="text-sm font-medium text-muted-foreground">Received By</p>
+                          <p className="text-sm">{mappedDeliveryNote.received_by}</p>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+
+                {mappedDeliveryNote.notes && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-sm">Delivery Notes</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                        {mappedDeliveryNote.notes}
+                      </p>
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="history">
+            <AuditHistory entityType="delivery_notes" entityId={deliveryNote.id} />
+          </TabsContent>
+        </Tabs>
 
         <DialogFooter>
           <div className="flex flex-wrap gap-2">
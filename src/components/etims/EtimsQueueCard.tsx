@@ -0,0 +1,140 @@
+import { useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, RefreshCw, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import {
+  useAbandonEtimsSubmission,
+  useEtimsQueue,
+  useRetryEtimsQueue,
+  type EtimsSubmission,
+} from '@/hooks/useEtims';
+import type { EtimsDocumentType } from '@/utils/etims';
+
+interface EtimsQueueCardProps {
+  documentType: EtimsDocumentType;
+  canSubmit: boolean;
+}
+
+const RETRY_INTERVAL_MS = 60 * 1000;
+
+// Submissions KRA eTIMS has not accepted yet. While the page is open, entries whose back-off has
+// elapsed are retried every minute; "Retry now" tries them all straight away.
+export function EtimsQueueCard({ documentType, canSubmit }: EtimsQueueCardProps) {
+  const { currentCompany } = useCurrentCompany();
+  const etimsEnabled = !!currentCompany?.etims_enabled;
+  const { data: queue } = useEtimsQueue(etimsEnabled ? currentCompany?.id : undefined);
+  const retryQueue = useRetryEtimsQueue();
+  const abandonSubmission = useAbandonEtimsSubmission();
+
+  const entries = (queue || []).filter(entry => entry.document_type === documentType);
+  const label = documentType === 'invoice' ? 'invoice' : 'credit note';
+
+  const retrying = useRef(false);
+  const { mutateAsync: retryDue } = retryQueue;
+
+  useEffect(() => {
+    const due = (queue || []).filter(entry => entry.document_type === documentType);
+    if (!canSubmit || due.length === 0) return;
+    const timer = setInterval(() => {
+      if (retrying.current) return;
+      retrying.current = true;
+      retryDue({ submissions: due })
+        .catch(error => console.error('Error retrying eTIMS queue:', error))
+        .finally(() => { retrying.current = false; });
+    }, RETRY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [canSubmit, queue, documentType, retryDue]);
+
+  if (!etimsEnabled || entries.length === 0) return null;
+
+  const handleRetryAll = async () => {
+    try {
+      const result = await retryQueue.mutateAsync({ submissions: entries, force: true });
+      if (result.submitted.length > 0) {
+        toast.success(`Accepted by eTIMS: ${result.submitted.join(', ')}`);
+      }
+      if (result.failed.length > 0) {
+        toast.error(`${result.failed.length} ${label}(s) still not accepted by eTIMS`);
+      }
+    } catch (error) {
+      console.error('Error retrying eTIMS queue:', error);
+      toast.error((error as { message?: string })?.message || 'Failed to retry eTIMS submissions');
+    }
+  };
+
+  const handleAbandon = async (entry: EtimsSubmission) => {
+    if (!confirm(`Stop retrying ${entry.document_number}? It will not be sent to eTIMS unless submitted again.`)) return;
+    try {
+      await abandonSubmission.mutateAsync(entry);
+      toast.success(`${entry.document_number} removed from the eTIMS queue`);
+    } catch (error) {
+      console.error('Error abandoning eTIMS submission:', error);
+      toast.error((error as { message?: string })?.message || 'Failed to remove the submission from the queue');
+    }
+  };
+
+  return (
+    <Card className="shadow-card border-warning/40">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center space-x-2 text-base">
+          <AlertTriangle className="h-5 w-5 text-warning" />
+          <span>Waiting for KRA eTIMS ({entries.length})</span>
+        </CardTitle>
+        {canSubmit && (
+          <Button variant="outline" size="sm" onClick={handleRetryAll} disabled={retryQueue.isPending}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${retryQueue.isPending ? 'animate-spin' : ''}`} />
+            Retry now
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Document</TableHead>
+              <TableHead>Attempts</TableHead>
+              <TableHead>Last Error</TableHead>
+              <TableHead>Next Retry</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map(entry => (
+              <TableRow key={entry.id}>
+                <TableCell className="font-medium">{entry.document_number}</TableCell>
+                <TableCell>
+                  <Badge variant="outline" className="bg-warning-light text-warning border-warning/20">
+                    {entry.attempts}
+                  </Badge>
+                </TableCell>
+                <TableCell className="max-w-md truncate text-sm text-muted-foreground" title={entry.last_error || ''}>
+                  {entry.last_error || '—'}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {entry.next_attempt_at ? new Date(entry.next_attempt_at).toLocaleString() : '—'}
+                </TableCell>
+                <TableCell className="text-right">
+                  {canSubmit && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleAbandon(entry)}
+                      disabled={abandonSubmission.isPending}
+                      title="Stop retrying"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
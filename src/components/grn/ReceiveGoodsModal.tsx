@@ -0,0 +1,263 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { PackageCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  useCreateGoodsReceivedNote,
+  useGenerateDocumentNumber,
+  useLPOReceipts,
+  useLPOs,
+  type GoodsReceivedNote,
+  type LPO,
+} from '@/hooks/useDatabase';
+import { RECEIVABLE_LPO_STATUSES, summarizeLpoReceipts } from '@/utils/grnReceipts';
+
+interface ReceiveGoodsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  lpo?: LPO | null; // preselected LPO when opened from the LPO screens
+  onSuccess?: (grn: GoodsReceivedNote) => void;
+}
+
+export function ReceiveGoodsModal({ open, onOpenChange, lpo, onSuccess }: ReceiveGoodsModalProps) {
+  const { currentCompany } = useCurrentCompany();
+  const { profile } = useAuth();
+  const { data: lpos = [] } = useLPOs(currentCompany?.id);
+  const generateDocNumber = useGenerateDocumentNumber();
+  const createGRN = useCreateGoodsReceivedNote();
+
+  const [lpoId, setLpoId] = useState('');
+  const [receivedDate, setReceivedDate] = useState(new Date().toISOString().split('T')[0]);
+  const [supplierDeliveryNote, setSupplierDeliveryNote] = useState('');
+  const [receivedBy, setReceivedBy] = useState('');
+  const [notes, setNotes] = useState('');
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const receivableLPOs = lpos.filter(l => RECEIVABLE_LPO_STATUSES.includes(l.status));
+  const selectedLPO = lpos.find(l => l.id === lpoId) || (lpo?.id === lpoId ? lpo : null);
+  const { data: previousReceipts, isLoading: loadingReceipts } = useLPOReceipts(open && lpoId ? lpoId : undefined);
+
+  const receipts = useMemo(
+    () => summarizeLpoReceipts(selectedLPO?.lpo_items || [], previousReceipts || []),
+    [selectedLPO, previousReceipts]
+  );
+
+  useEffect(() => {
+    if (!open) return;
+    setLpoId(lpo?.id || '');
+    setReceivedDate(new Date().toISOString().split('T')[0]);
+    setSupplierDeliveryNote('');
+    setReceivedBy(profile?.full_name || '');
+    setNotes('');
+  }, [open, lpo?.id, profile?.full_name]);
+
+  // Default each line to everything still outstanding
+  useEffect(() => {
+    if (loadingReceipts) return;
+    setQuantities(Object.fromEntries(receipts.map(r => [r.lpo_item_id, r.outstanding])));
+  }, [receipts, loadingReceipts]);
+
+  const totalValue = receipts.reduce((sum, r) => sum + (quantities[r.lpo_item_id] || 0) * r.unit_cost, 0);
+
+  const formatCurrency = (amount: number) => new Intl.NumberFormat('en-KE', {
+    style: 'currency',
+    currency: 'KES',
+  }).format(amount);
+
+  const handleSubmit = async () => {
+    if (!currentCompany?.id) {
+      toast.error('Company not found. Please refresh and try again.');
+      return;
+    }
+    if (!selectedLPO) {
+      toast.error('Select the LPO being received');
+      return;
+    }
+    const over = receipts.find(r => (quantities[r.lpo_item_id] || 0) > r.outstanding);
+    if (over) {
+      toast.error(`Only ${over.outstanding} outstanding for "${over.description}"`);
+      return;
+    }
+    if (!receipts.some(r => (quantities[r.lpo_item_id] || 0) > 0)) {
+      toast.error('Enter a received quantity for at least one item');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const grnNumber = await generateDocNumber.mutateAsync({ companyId: currentCompany.id, type: 'grn' });
+      const result = await createGRN.mutateAsync({
+        grn: {
+          company_id: currentCompany.id,
+          lpo_id: selectedLPO.id,
+          supplier_id: selectedLPO.supplier_id || null,
+          grn_number: grnNumber,
+          received_date: receivedDate,
+          supplier_delivery_note: supplierDeliveryNote.trim() || null,
+          received_by: receivedBy.trim() || null,
+          notes: notes.trim() || null,
+          created_by: profile?.id || null,
+        },
+        items: receipts.map(r => ({ lpo_item_id: r.lpo_item_id, quantity_received: quantities[r.lpo_item_id] || 0 })),
+      });
+
+      toast.success(`${grnNumber} recorded. LPO ${selectedLPO.lpo_number} is now ${result.lpoStatus === 'received' ? 'fully received' : 'partially received'}.`);
+      if (result.stockUpdateFailures > 0) {
+        toast.warning(`Stock levels for ${result.stockUpdateFailures} product(s) could not be updated. Check inventory.`);
+      }
+      onSuccess?.(result.grn);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error recording goods received:', error);
+      const message = error instanceof Error ? error.message : (error as { message?: string })?.message || 'Please try again.';
+      toast.error(`Failed to record goods received: ${message}`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <PackageCheck className="h-5 w-5 text-primary" />
+            <span>Receive Goods</span>
+          </DialogTitle>
+          <DialogDescription>
+            Record what was delivered against an approved purchase order. Stock is updated at the LPO price.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Purchase Order *</Label>
+              <Select value={lpoId} onValueChange={setLpoId} disabled={!!lpo}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select approved LPO" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(lpo && !receivableLPOs.some(l => l.id === lpo.id) ? [lpo, ...receivableLPOs] : receivableLPOs).map(l => (
+                    <SelectItem key={l.id} value={l.id}>
+                      {l.lpo_number} - {l.suppliers?.name || 'Unknown supplier'}
+                    </SelectItem>
+                  ))}
+                  {receivableLPOs.length === 0 && !lpo && (
+                    <div className="px-2 py-2 text-xs text-muted-foreground text-center">
+                      No approved LPOs awaiting delivery
+                    </div>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="received_date">Received Date</Label>
+              <Input id="received_date" type="date" value={receivedDate} onChange={(e) => setReceivedDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier_delivery_note">Supplier Delivery Note #</Label>
+              <Input id="supplier_delivery_note" value={supplierDeliveryNote} onChange={(e) => setSupplierDeliveryNote(e.target.value)} placeholder="Supplier's DN or waybill number" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="received_by">Received By</Label>
+              <Input id="received_by" value={receivedBy} onChange={(e) => setReceivedBy(e.target.value)} />
+            </div>
+          </div>
+
+          {selectedLPO && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Ordered</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
+                  <TableHead className="w-32">Receive Now</TableHead>
+                  <TableHead className="text-right">Unit Cost</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {receipts.map(r => {
+                  const qty = quantities[r.lpo_item_id] || 0;
+                  return (
+                    <TableRow key={r.lpo_item_id}>
+                      <TableCell>
+                        <div className="font-medium">{r.description}</div>
+                        {!r.product_id && <div className="text-xs text-muted-foreground">Not a stock item</div>}
+                      </TableCell>
+                      <TableCell className="text-right">{r.ordered} {r.unit_of_measure || ''}</TableCell>
+                      <TableCell className="text-right">{r.received}</TableCell>
+                      <TableCell className="text-right">{r.outstanding}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={r.outstanding}
+                          step="any"
+                          value={qty}
+                          disabled={r.outstanding <= 0}
+                          className={qty > r.outstanding ? 'border-destructive' : ''}
+                          onChange={(e) => setQuantities(prev => ({ ...prev, [r.lpo_item_id]: Math.max(0, Number(e.target.value) || 0) }))}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(r.unit_cost)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(qty * r.unit_cost)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          {selectedLPO && (
+            <div className="flex justify-between items-center">
+              <Button type="button" variant="outline" size="sm" onClick={() => setQuantities({})}>
+                Clear Quantities
+              </Button>
+              <div className="text-lg font-semibold">Value received: {formatCurrency(totalValue)}</div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="grn_notes">Notes</Label>
+            <Textarea id="grn_notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} placeholder="Condition of goods, shortages, damages..." />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !selectedLPO || loadingReceipts}>
+            <PackageCheck className="h-4 w-4 mr-2" />
+            {isSubmitting ? 'Recording...' : 'Record Goods Received'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -20,6 +20,8 @@ import {
   TrendingUp,
   Calendar
 } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AuditHistory } from '@/components/audit/AuditHistory';
 
 interface InventoryItem {
   id: string;
@@ -115,194 +117,207 @@ export function ViewInventoryItemModal({ open, onOpenChange, item, onEdit, onRes
           </DialogDescription>
         </DialogHeader>
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {/* Product Information */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg flex items-center space-x-2">
-                <Tag className="h-4 w-4" />
-                <span>Product Information</span>
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="grid grid-cols-2 gap-4 text-sm">
-                <div>
-                  <span className="text-muted-foreground">Product Code:</span>
-                  <div className="font-medium flex items-center space-x-2">
-                    <Barcode className="h-4 w-4" />
-                    <span>{item.sku}</span>
-                  </div>
-                </div>
-                <div>
-                  <span className="text-muted-foreground">Category:</span>
-                  <div className="font-medium">{item.category?.name || 'No category'}</div>
-                </div>
-                <div>
-                  <span className="text-muted-foreground">Unit of Measure:</span>
-                  <div className="font-medium">{item.unitOfMeasure || 'pieces'}</div>
-                </div>
-              </div>
-
-              {item.description && (
-                <div>
-                  <span className="text-muted-foreground text-sm">Description:</span>
-                  <div className="text-sm mt-1 p-2 bg-muted/50 rounded">
-                    {item.description}
-                  </div>
-                </div>
-              )}
+        <Tabs defaultValue="details">
+          <TabsList>
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
 
-              {item.location && (
-                <div className="flex items-center space-x-2">
-                  <Warehouse className="h-4 w-4 text-muted-foreground" />
-                  <div>
-                    <span className="text-muted-foreground text-sm">Location: </span>
-                    <span className="font-medium">{item.location}</span>
-                  </div>
-                </div>
-              )}
-
-              {item.lastRestocked && (
-                <div className="flex items-center space-x-2">
-                  <Calendar className="h-4 w-4 text-muted-foreground" />
-                  <div>
-                    <span className="text-muted-foreground text-sm">Last Restocked: </span>
-                    <span className="font-medium">{new Date(item.lastRestocked).toLocaleDateString()}</span>
+          <TabsContent value="details" className="space-y-4">
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Product Information */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center space-x-2">
+                    <Tag className="h-4 w-4" />
+                    <span>Product Information</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <span className="text-muted-foreground">Product Code:</span>
+                      <div className="font-medium flex items-center space-x-2">
+                        <Barcode className="h-4 w-4" />
+                        <span>{item.sku}</span>
+                      </div>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Category:</span>
+                      <div className="font-medium">{item.category?.name || 'No category'}</div>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Unit of Measure:</span>
+                      <div className="font-medium">{item.unitOfMeasure || 'pieces'}</div>
+                    </div>
                   </div>
-                </div>
-              )}
-            </CardContent>
-          </Card>
-
-          {/* Stock and Pricing */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg flex items-center space-x-2">
-                <Warehouse className="h-4 w-4" />
-                <span>Stock & Pricing</span>
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              {/* Stock Levels */}
-              <div className="space-y-3">
-                <div className="flex justify-between items-center">
-                  <span className="text-muted-foreground">Current Stock:</span>
-                  <span className="font-bold text-2xl">{item.currentStock}</span>
-                </div>
-                
-                <div className="w-full bg-muted rounded-full h-2">
-                  <div 
-                    className={`h-2 rounded-full transition-all ${
-                      item.status === 'out_of_stock' ? 'bg-destructive' :
-                      item.status === 'low_stock' ? 'bg-warning' : 'bg-success'
-                    }`}
-                    style={{ width: `${Math.min(stockPercentage, 100)}%` }}
-                  />
-                </div>
 
-                <div className="grid grid-cols-2 gap-4 text-sm">
-                  <div>
-                    <span className="text-muted-foreground">Min Level:</span>
-                    <div className="font-medium">{item.minStock}</div>
-                  </div>
-                  {item.maxStock && (
+                  {item.description && (
                     <div>
-                      <span className="text-muted-foreground">Max Level:</span>
-                      <div className="font-medium">{item.maxStock}</div>
+                      <span className="text-muted-foreground text-sm">Description:</span>
+                      <div className="text-sm mt-1 p-2 bg-muted/50 rounded">
+                        {item.description}
+                      </div>
                     </div>
                   )}
-                </div>
 
-                {item.currentStock <= item.minStock && (
-                  <div className="flex items-center space-x-2 p-3 bg-warning-light rounded-lg">
-                    <AlertTriangle className="h-4 w-4 text-warning" />
-                    <span className="text-warning text-sm font-medium">
-                      Stock level is below minimum threshold
-                    </span>
-                  </div>
-                )}
-              </div>
+                  {item.location && (
+                    <div className="flex items-center space-x-2">
+                      <Warehouse className="h-4 w-4 text-muted-foreground" />
+                      <div>
+                        <span className="text-muted-foreground text-sm">Location: </span>
+                        <span className="font-medium">{item.location}</span>
+                      </div>
+                    </div>
+                  )}
 
-              {/* Pricing */}
-              <div className="border-t pt-4 space-y-3">
-                <div className="grid grid-cols-2 gap-4">
-                  {item.costPrice && (
-                    <div>
-                      <span className="text-muted-foreground text-sm">Cost Price:</span>
-                      <div className="font-medium">{formatCurrency(item.costPrice)}</div>
+                  {item.lastRestocked && (
+                    <div className="flex items-center space-x-2">
+                      <Calendar className="h-4 w-4 text-muted-foreground" />
+                      <div>
+                        <span className="text-muted-foreground text-sm">Last Restocked: </span>
+                        <span className="font-medium">{new Date(item.lastRestocked).toLocaleDateString()}</span>
+                      </div>
                     </div>
                   )}
-                  <div>
-                    <span className="text-muted-foreground text-sm">Selling Price:</span>
-                    <div className="font-medium">{formatCurrency(item.unitPrice)}</div>
-                  </div>
-                </div>
+                </CardContent>
+              </Card>
 
-                <div>
-                  <span className="text-muted-foreground text-sm">Total Value:</span>
-                  <div className="font-bold text-xl text-primary flex items-center space-x-2">
-                    <TrendingUp className="h-5 w-5" />
-                    <span>{formatCurrency(item.totalValue)}</span>
-                  </div>
-                </div>
+              {/* Stock and Pricing */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center space-x-2">
+                    <Warehouse className="h-4 w-4" />
+                    <span>Stock & Pricing</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {/* Stock Levels */}
+                  <div className="space-y-3">
+                    <div className="flex justify-between items-center">
+                      <span className="text-muted-foreground">Current Stock:</span>
+                      <span className="font-bold text-2xl">{item.currentStock}</span>
+                    </div>
 
-                {item.costPrice && (
-                  <div className="p-3 bg-muted/50 rounded-lg">
-                    <div className="text-sm space-y-1">
-                      <div className="flex justify-between">
-                        <span>Margin per unit:</span>
-                        <span className="font-medium">
-                          {formatCurrency(
-                            parseFloat(item.unitPrice.replace(/[^0-9.-]+/g, '')) - 
-                            parseFloat(item.costPrice.replace(/[^0-9.-]+/g, ''))
-                          )}
-                        </span>
+                    <div className="w-full bg-muted rounded-full h-2">
+                      <div 
+                        className={`h-2 rounded-full transition-all ${
+                          item.status === 'out_of_stock' ? 'bg-destructive' :
+                          item.status === 'low_stock' ? 'bg-warning' : 'bg-success'
+                        }`}
+                        style={{ width: `${Math.min(stockPercentage, 100)}%` }}
+                      />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4 text-sm">
+                      <div>
+                        <span className="text-muted-foreground">Min Level:</span>
+                        <div className="font-medium">{item.minStock}</div>
                       </div>
-                      <div className="flex justify-between">
-                        <span>Markup:</span>
-                        <span className="font-medium">
-                          {(((parseFloat(item.unitPrice.replace(/[^0-9.-]+/g, '')) - 
-                             parseFloat(item.costPrice.replace(/[^0-9.-]+/g, ''))) / 
-                             parseFloat(item.costPrice.replace(/[^0-9.-]+/g, ''))) * 100).toFixed(1)}%
+                      {item.maxStock && (
+                        <div>
+                          <span className="text-muted-foreground">Max Level:</span>
+                          <div className="font-medium">{item.maxStock}</div>
+                        </div>
+                      )}
+                    </div>
+
+                    {item.currentStock <= item.minStock && (
+                      <div className="flex items-center space-x-2 p-3 bg-warning-light rounded-lg">
+                        <AlertTriangle className="h-4 w-4 text-warning" />
+                        <span className="text-warning text-sm font-medium">
+                          Stock level is below minimum threshold
                         </span>
                       </div>
-                    </div>
+                    )}
                   </div>
-                )}
-              </div>
-            </CardContent>
-          </Card>
-        </div>
 
-        {/* Stock Movement Summary */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center space-x-2">
-              <TrendingUp className="h-4 w-4" />
-              <span>Stock Summary</span>
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-              <div className="text-center p-4 bg-muted/50 rounded-lg">
-                <div className="text-2xl font-bold text-primary">{item.currentStock}</div>
-                <div className="text-sm text-muted-foreground">Current Stock</div>
-              </div>
-              <div className="text-center p-4 bg-muted/50 rounded-lg">
-                <div className="text-2xl font-bold text-success">{formatCurrency(item.totalValue)}</div>
-                <div className="text-sm text-muted-foreground">Total Value</div>
-              </div>
-              <div className="text-center p-4 bg-muted/50 rounded-lg">
-                <div className="text-2xl font-bold text-warning">0</div>
-                <div className="text-sm text-muted-foreground">Orders Pending</div>
-              </div>
-              <div className="text-center p-4 bg-muted/50 rounded-lg">
-                <div className="text-2xl font-bold text-muted-foreground">0</div>
-                <div className="text-sm text-muted-foreground">Reserved Stock</div>
-              </div>
+                  {/* Pricing */}
+                  <div className="border-t pt-4 space-y-3">
+                    <div className="grid grid-cols-2 gap-4">
+                      {item.costPrice && (
+                        <div>
+                          <span className="text-muted-foreground text-sm">Cost Price:</span>
+                          <div className="font-medium">{formatCurrency(item.costPrice)}</div>
+                        </div>
+                      )}
+                      <div>
+                        <span className="text-muted-foreground text-sm">Selling Price:</span>
+                        <div className="font-medium">{formatCurrency(item.unitPrice)}</div>
+                      </div>
+                    </div>
+
+                    <div>
+                      <span className="text-muted-foreground text-sm">Total Value:</span>
+                      <div className="font-bold text-xl text-primary flex items-center space-x-2">
+                        <TrendingUp className="h-5 w-5" />
+                        <span>{formatCurrency(item.totalValue)}</span>
+                      </div>
+                    </div>
+
+                    {item.costPrice && (
+                      <div className="p-3 bg-muted/50 rounded-lg">
+                        <div className="text-sm space-y-1">
+                          <div className="flex justify-between">
+                            <span>Margin per unit:</span>
+                            <span className="font-medium">
+                              {formatCurrency(
+                                parseFloat(item.unitPrice.replace(/[^0-9.-]+/g, '')) - 
+                                parseFloat(item.costPrice.replace(/[^0-9.-]+/g, ''))
+                              )}
+                            </span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span>Markup:</span>
+                            <span className="font-medium">
+                              {(((parseFloat(item.unitPrice.replace(/[^0-9.-]+/g, '')) - 
+                                 parseFloat(item.costPrice.replace(/[^0-9.-]+/g, ''))) / 
+                                 parseFloat(item.costPrice.replace(/[^0-9.-]+/g, ''))) * 100).toFixed(1)}%
+                            </span>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
             </div>
-          </CardContent>
-        </Card>
+
+            {/* Stock Movement Summary */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <TrendingUp className="h-4 w-4" />
+                  <span>Stock Summary</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div className="text-center p-4 bg-muted/50 rounded-lg">
+                    <div className="text-2xl font-bold text-primary">{item.currentStock}</div>
+                    <div className="text-sm text-muted-foreground">Current Stock</div>
+                  </div>
+                  <div className="text-center p-4 bg-muted/50 rounded-lg">
+                    <div className="text-2xl font-bold text-success">{formatCurrency(item.totalValue)}</div>
+                    <div className="text-sm text-muted-foreground">Total Value</div>
+                  </div>
+                  <div className="text-center p-4 bg-muted/50 rounded-lg">
+                    <div className="text-2xl font-bold text-warning">0</div>
+                    <div className="text-sm text-muted-foreground">Orders Pending</div>
+                  </div>
+                  <div className="text-center p-4 bg-muted/50 rounded-lg">
+                    <div className="text-2xl font-bold text-muted-foreground">0</div>
+                    <div className="text-sm text-muted-foreground">Reserved Stock</div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="history">
+            <AuditHistory entityType="products" entityId={item.id} />
+          </TabsContent>
+        </Tabs>
 
         <DialogFooter className="flex justify-between">
           <div className="flex space-x-2">
@@ -30,11 +30,15 @@ import {
   Receipt,
   Loader2
 } from 'lucide-react';
-import { useCustomers, useGenerateDocumentNumber, useTaxSettings, useCompanies } from '@/hooks/useDatabase';
+import { useCustomers, useGenerateDocumentNumber, useTaxSettings } from '@/hooks/useDatabase';
 import { useOptimizedProductSearch, usePopularProducts } from '@/hooks/useOptimizedProducts';
 import { useCreateInvoiceWithItems } from '@/hooks/useQuotationItems';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { useDocumentCurrency } from '@/hooks/useExchangeRates';
+import { DocumentCurrencyFields } from '@/components/currency/DocumentCurrencyFields';
+import { formatMoney, fromBase, toBase } from '@/utils/currency';
 
 interface InvoiceItem {
   id: string;
@@ -66,6 +70,7 @@ export function CreateInvoiceModal({ open, onOpenChange, onSuccess, preSelectedC
   const [lpoNumber, setLpoNumber] = useState('');
   const [notes, setNotes] = useState('');
   const [termsAndConditions, setTermsAndConditions] = useState('Payment due within 30 days of invoice date.');
+  const documentCurrency = useDocumentCurrency();
   
   const [items, setItems] = useState<InvoiceItem[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -77,8 +82,7 @@ export function CreateInvoiceModal({ open, onOpenChange, onSuccess, preSelectedC
 
   // Get current user and company from context
   const { profile, loading: authLoading } = useAuth();
-  const { data: companies } = useCompanies();
-  const currentCompany = companies?.[0];
+  const { currentCompany } = useCurrentCompany();
   const { data: customers, isLoading: loadingCustomers } = useCustomers(currentCompany?.id);
   const {
     data: searchedProducts,
@@ -114,8 +118,9 @@ export function CreateInvoiceModal({ open, onOpenChange, onSuccess, preSelectedC
       return;
     }
 
-    // Use defensive price fallback - try selling_price first, then unit_price
-    const price = Number(product.selling_price || product.unit_price || 0);
+    // Use defensive price fallback - try selling_price first, then unit_price. Product prices are
+    // in base currency, so they are converted for an invoice in another currency.
+    const price = fromBase(Number(product.selling_price || product.unit_price || 0), documentCurrency.columns.exchange_rate);
     if (isNaN(price) || price === 0) {
       console.warn('Product price missing or invalid for product:', product);
       toast.warning(`Product "${product.name}" has no price set`);
@@ -255,14 +260,7 @@ export function CreateInvoiceModal({ open, onOpenChange, onSuccess, preSelectedC
     setItems(items.filter(item => item.id !== itemId));
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-KE', {
-      style: 'currency',
-      currency: 'KES',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(amount);
-  };
+  const formatCurrency = (amount: number) => formatMoney(amount, documentCurrency.value.currency);
 
   const subtotal = items.reduce((sum, item) => {
     // Calculate subtotal as base amount minus discounts
@@ -341,6 +339,7 @@ export function CreateInvoiceModal({ open, onOpenChange, onSuccess, preSelectedC
         invoice_date: invoiceDate,
         due_date: dueDate,
         lpo_number: lpoNumber || null,
+        ...documentCurrency.columns,
         status: 'draft',
         subtotal: subtotal,
         tax_amount: taxAmount,
@@ -427,6 +426,7 @@ export function CreateInvoiceModal({ open, onOpenChange, onSuccess, preSelectedC
     setLpoNumber('');
     setNotes('');
     setTermsAndConditions('Payment due within 30 days of invoice date.');
+    documentCurrency.reset();
     setItems([]);
     setSearchProduct('');
   };
@@ -495,6 +495,12 @@ export function CreateInvoiceModal({ open, onOpenChange, onSuccess, preSelectedC
                   </div>
                 </div>
 
+                <DocumentCurrencyFields
+                  value={documentCurrency.value}
+                  onChange={documentCurrency.setValue}
+                  documentDate={invoiceDate}
+                />
+
                 {/* LPO Number */}
                 <div className="space-y-2">
                   <Label htmlFor="lpo_number">LPO Number (Optional)</Label>
@@ -575,7 +581,7 @@ export function CreateInvoiceModal({ open, onOpenChange, onSuccess, preSelectedC
                               <div className="text-sm text-muted-foreground">{product.product_code}</div>
                             </div>
                             <div className="text-right">
-                              <div className="font-semibold">{formatCurrency(product.unit_price)}</div>
+                              <div className="font-semibold">{formatMoney(product.unit_price, documentCurrency.baseCurrency)}</div>
                               <div className="text-xs text-muted-foreground">Stock: {product.stock_quantity}</div>
                               {product.category_name && (
                                 <div className="text-xs text-muted-foreground">{product.category_name}</div>
@@ -728,6 +734,12 @@ export function CreateInvoiceModal({ open, onOpenChange, onSuccess, preSelectedC
                       <span className="font-bold">Total:</span>
                       <span className="font-bold text-primary">{formatCurrency(totalAmount)}</span>
                     </div>
+                    {documentCurrency.value.currency !== documentCurrency.baseCurrency && documentCurrency.value.exchange_rate && (
+                      <div className="flex justify-between text-sm text-muted-foreground">
+                        <span>In {documentCurrency.baseCurrency}:</span>
+                        <span>{formatMoney(toBase(totalAmount, documentCurrency.value.exchange_rate), documentCurrency.baseCurrency)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between text-sm text-muted-foreground">
                       <span>Items: {items.length}</span>
                       <span>Balance Due: {formatCurrency(balanceDue)}</span>
@@ -32,6 +32,9 @@ import {
 import { useCustomers, useProducts, useTaxSettings } from '@/hooks/useDatabase';
 import { useUpdateInvoiceWithItems } from '@/hooks/useQuotationItems';
 import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { useDocumentCurrency } from '@/hooks/useExchangeRates';
+import { DocumentCurrencyFields } from '@/components/currency/DocumentCurrencyFields';
+import { formatMoney, fromBase, toBase } from '@/utils/currency';
 import { toast } from 'sonner';
 
 interface InvoiceItem {
@@ -63,6 +66,8 @@ export function EditInvoiceModal({ open, onOpenChange, onSuccess, invoice }: Edi
   const [lpoNumber, setLpoNumber] = useState('');
   const [notes, setNotes] = useState('');
   const [termsAndConditions, setTermsAndConditions] = useState('');
+  const documentCurrency = useDocumentCurrency();
+  const { reset: resetDocumentCurrency } = documentCurrency;
   
   const [items, setItems] = useState<InvoiceItem[]>([]);
   const [searchProduct, setSearchProduct] = useState('');
@@ -87,6 +92,7 @@ export function EditInvoiceModal({ open, onOpenChange, onSuccess, invoice }: Edi
       setLpoNumber(invoice.lpo_number || '');
       setNotes(invoice.notes || '');
       setTermsAndConditions(invoice.terms_and_conditions || '');
+      resetDocumentCurrency(invoice);
 
       // Convert invoice items to local format
       const invoiceItems = (invoice.invoice_items || []).map((item: any, index: number) => ({
@@ -106,7 +112,7 @@ export function EditInvoiceModal({ open, onOpenChange, onSuccess, invoice }: Edi
       
       setItems(invoiceItems);
     }
-  }, [invoice, open]);
+  }, [invoice, open, resetDocumentCurrency]);
 
   const filteredProducts = products?.filter(product =>
     product.name.toLowerCase().includes(searchProduct.toLowerCase()) ||
@@ -153,13 +159,13 @@ export function EditInvoiceModal({ open, onOpenChange, onSuccess, invoice }: Edi
       product_name: product.name,
       description: product.description || product.name,
       quantity: 1,
-      unit_price: product.selling_price,
+      unit_price: fromBase(product.selling_price, documentCurrency.columns.exchange_rate),
       discount_percentage: 0,
       discount_before_vat: 0,
       tax_percentage: 0,
       tax_amount: 0,
       tax_inclusive: false,
-      line_total: product.selling_price
+      line_total: fromBase(product.selling_price, documentCurrency.columns.exchange_rate)
     };
 
     const { lineTotal, taxAmount } = calculateLineTotal(newItem);
@@ -257,14 +263,7 @@ export function EditInvoiceModal({ open, onOpenChange, onSuccess, invoice }: Edi
     setItems(items.filter(item => item.id !== itemId));
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-KE', {
-      style: 'currency',
-      currency: 'KES',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(amount);
-  };
+  const formatCurrency = (amount: number) => formatMoney(amount, documentCurrency.value.currency);
 
   const subtotal = items.reduce((sum, item) => {
     // Always use base amount for subtotal (unit price × quantity × discount)
@@ -294,6 +293,7 @@ export function EditInvoiceModal({ open, onOpenChange, onSuccess, invoice }: Edi
         invoice_date: invoiceDate,
         due_date: dueDate,
         lpo_number: lpoNumber || null,
+        ...documentCurrency.columns,
         subtotal: subtotal,
         tax_amount: taxAmount,
         total_amount: totalAmount,
@@ -396,6 +396,12 @@ export function EditInvoiceModal({ open, onOpenChange, onSuccess, invoice }: Edi
                   </div>
                 </div>
 
+                <DocumentCurrencyFields
+                  value={documentCurrency.value}
+                  onChange={documentCurrency.setValue}
+                  documentDate={invoiceDate}
+                />
+
                 {/* LPO Number */}
                 <div className="space-y-2">
                   <Label htmlFor="lpo_number">LPO Number (Optional)</Label>
@@ -476,7 +482,7 @@ export function EditInvoiceModal({ open, onOpenChange, onSuccess, invoice }: Edi
                                 )}
                               </div>
                               <div className="text-right">
-                                <div className="font-semibold">{formatCurrency(product.selling_price)}</div>
+                                <div className="font-semibold">{formatMoney(product.selling_price, documentCurrency.baseCurrency)}</div>
                                 <div className="text-xs text-muted-foreground">Stock: {product.stock_quantity}</div>
                               </div>
                             </div>
@@ -621,6 +627,12 @@ export function EditInvoiceModal({ open, onOpenChange, onSuccess, invoice }: Edi
                       <span className="font-bold">Total:</span>
                       <span className="font-bold text-primary">{formatCurrency(totalAmount)}</span>
                     </div>
+                    {documentCurrency.value.currency !== documentCurrency.baseCurrency && documentCurrency.value.exchange_rate && (
+                      <div className="flex justify-between text-sm text-muted-foreground">
+                        <span>In {documentCurrency.baseCurrency}:</span>
+                        <span>{formatMoney(toBase(totalAmount, documentCurrency.value.exchange_rate), documentCurrency.baseCurrency)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between text-sm text-muted-foreground">
                       <span>Paid:</span>
                       <span>{formatCurrency(invoice?.paid_amount || 0)}</span>
@@ -21,8 +21,15 @@ import {
   Download,
   Send,
   DollarSign,
-  Edit
+  Edit,
+  Ban,
+  Lock
 } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AuditHistory } from '@/components/audit/AuditHistory';
+import { canVoidInvoice, isInvoicePosted, isInvoiceVoid } from '@/utils/documentLocks';
+import { formatMoney } from '@/utils/currency';
 
 interface ViewInvoiceModalProps {
   open: boolean;
@@ -32,6 +39,7 @@ interface ViewInvoiceModalProps {
   onDownload: () => void;
   onSend: () => void;
   onRecordPayment: () => void;
+  onVoid?: () => void;
 }
 
 export function ViewInvoiceModal({ 
@@ -41,18 +49,12 @@ export function ViewInvoiceModal({
   onEdit, 
   onDownload, 
   onSend, 
-  onRecordPayment 
+  onRecordPayment,
+  onVoid
 }: ViewInvoiceModalProps) {
   if (!invoice) return null;
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-KE', {
-      style: 'currency',
-      currency: 'KES',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(amount);
-  };
+  const formatCurrency = (amount: number) => formatMoney(amount, invoice.currency || 'KES');
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-GB', {
@@ -74,6 +76,8 @@ export function ViewInvoiceModal({
         return 'bg-primary-light text-primary border-primary/20';
       case 'overdue':
         return 'bg-destructive-light text-destructive border-destructive/20';
+      case 'void':
+        return 'bg-muted text-muted-foreground border-muted-foreground/20 line-through';
       default:
         return 'bg-muted text-muted-foreground border-muted-foreground/20';
     }
@@ -100,7 +104,7 @@ export function ViewInvoiceModal({
             </div>
             
             <div className="flex space-x-2">
-              {invoice.status === 'draft' && (
+              {!isInvoicePosted(invoice) && (
                 <Button variant="outline" size="sm" onClick={onEdit}>
                   <Edit className="h-4 w-4 mr-2" />
                   Edit
@@ -116,10 +120,18 @@ export function ViewInvoiceModal({
                   Send
                 </Button>
               )}
-              <Button size="sm" onClick={onRecordPayment}>
-                <DollarSign className="h-4 w-4 mr-2" />
-                {(invoice.balance_due || 0) > 0 ? 'Record Payment' : 'Payment Adjustment'}
-              </Button>
+              {!isInvoiceVoid(invoice) && (
+                <Button size="sm" onClick={onRecordPayment}>
+                  <DollarSign className="h-4 w-4 mr-2" />
+                  {(invoice.balance_due || 0) > 0 ? 'Record Payment' : 'Payment Adjustment'}
+                </Button>
+              )}
+              {onVoid && canVoidInvoice(invoice) && (
+                <Button variant="outline" size="sm" onClick={onVoid} className="text-destructive">
+                  <Ban className="h-4 w-4 mr-2" />
+                  Void
+                </Button>
+              )}
             </div>
           </DialogTitle>
           <DialogDescription>
@@ -127,185 +139,237 @@ export function ViewInvoiceModal({
           </DialogDescription>
         </DialogHeader>
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {/* Customer Information */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg flex items-center space-x-2">
-                <User className="h-4 w-4" />
-                <span>Customer Information</span>
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div>
-                <div className="font-medium text-lg">{invoice.customers?.name || 'Unknown Customer'}</div>
-                <div className="text-sm text-muted-foreground">{invoice.customers?.customer_code || 'N/A'}</div>
-              </div>
+        <Tabs defaultValue="details">
+          <TabsList>
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
 
-              {invoice.customers?.email && (
-                <div className="flex items-center space-x-2">
-                  <Mail className="h-4 w-4 text-muted-foreground" />
-                  <span className="text-sm">{invoice.customers.email}</span>
-                </div>
-              )}
-
-              {invoice.customers?.phone && (
-                <div className="flex items-center space-x-2">
-                  <Phone className="h-4 w-4 text-muted-foreground" />
-                  <span className="text-sm">{invoice.customers.phone}</span>
-                </div>
-              )}
+          <TabsContent value="details" className="space-y-4">
+            {isInvoiceVoid(invoice) ? (
+              <Alert variant="destructive">
+                <Ban className="h-4 w-4" />
+                <AlertTitle>Void</AlertTitle>
+                <AlertDescription>
+                  {invoice.voided_at ? `Voided on ${formatDate(invoice.voided_at)}` : 'This invoice has been voided'}
+                  {invoice.void_reason ? `: ${invoice.void_reason}` : ''}
+                </AlertDescription>
+              </Alert>
+            ) : isInvoicePosted(invoice) && (
+              <Alert>
+                <Lock className="h-4 w-4" />
+                <AlertTitle>Posted</AlertTitle>
+                <AlertDescription>
+                  This invoice is read-only. Correct it with a credit note, or void it to reverse it completely.
+                </AlertDescription>
+              </Alert>
+            )}
 
-              {invoice.customers?.address && (
-                <div className="flex items-start space-x-2">
-                  <MapPin className="h-4 w-4 text-muted-foreground mt-0.5" />
-                  <div className="text-sm">
-                    <div>{invoice.customers.address}</div>
-                    {invoice.customers.city && (
-                      <div className="text-muted-foreground">
-                        {invoice.customers.city}, {invoice.customers.country || 'Kenya'}
-                      </div>
-                    )}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Customer Information */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center space-x-2">
+                    <User className="h-4 w-4" />
+                    <span>Customer Information</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div>
+                    <div className="font-medium text-lg">{invoice.customers?.name || 'Unknown Customer'}</div>
+                    <div className="text-sm text-muted-foreground">{invoice.customers?.customer_code || 'N/A'}</div>
                   </div>
-                </div>
-              )}
-            </CardContent>
-          </Card>
 
-          {/* Invoice Details */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg flex items-center space-x-2">
-                <FileText className="h-4 w-4" />
-                <span>Invoice Details</span>
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="grid grid-cols-2 gap-4 text-sm">
-                <div>
-                  <span className="text-muted-foreground">Invoice Date:</span>
-                  <div className="font-medium flex items-center space-x-2">
-                    <Calendar className="h-4 w-4" />
-                    <span>{formatDate(invoice.invoice_date)}</span>
-                  </div>
-                </div>
-                <div>
-                  <span className="text-muted-foreground">Due Date:</span>
-                  <div className="font-medium flex items-center space-x-2">
-                    <Calendar className="h-4 w-4" />
-                    <span>{formatDate(invoice.due_date)}</span>
-                  </div>
-                </div>
-                <div>
-                  <span className="text-muted-foreground">Total Amount:</span>
-                  <div className="font-bold text-lg text-primary">
-                    {formatCurrency(invoice.total_amount || 0)}
-                  </div>
-                </div>
-                <div>
-                  <span className="text-muted-foreground">Balance Due:</span>
-                  <div className={`font-bold text-lg ${(invoice.balance_due || 0) > 0 ? 'text-destructive' : 'text-success'}`}>
-                    {formatCurrency(invoice.balance_due || 0)}
-                  </div>
-                </div>
-              </div>
+                  {invoice.customers?.email && (
+                    <div className="flex items-center space-x-2">
+                      <Mail className="h-4 w-4 text-muted-foreground" />
+                      <span className="text-sm">{invoice.customers.email}</span>
+                    </div>
+                  )}
 
-              {invoice.notes && (
-                <div>
-                  <span className="text-muted-foreground text-sm">Notes:</span>
-                  <div className="text-sm mt-1 p-2 bg-muted/50 rounded">
-                    {invoice.notes}
-                  </div>
-                </div>
-              )}
-            </CardContent>
-          </Card>
-        </div>
+                  {invoice.customers?.phone && (
+                    <div className="flex items-center space-x-2">
+                      <Phone className="h-4 w-4 text-muted-foreground" />
+                      <span className="text-sm">{invoice.customers.phone}</span>
+                    </div>
+                  )}
 
-        {/* Invoice Items */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center justify-between">
-              <span>Invoice Items</span>
-              <Badge variant="outline">
-                {invoice.invoice_items?.length || 0} items
-              </Badge>
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            {!invoice.invoice_items || invoice.invoice_items.length === 0 ? (
-              <div className="text-center py-8 text-muted-foreground">
-                No items found for this invoice
-              </div>
-            ) : (
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Product</TableHead>
-                    <TableHead>Qty</TableHead>
-                    <TableHead>Unit Price</TableHead>
-                    <TableHead>Discount %</TableHead>
-                    <TableHead>Tax %</TableHead>
-                    <TableHead className="text-right">Line Total</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {invoice.invoice_items.map((item: any, index: number) => (
-                    <TableRow key={item.id || index}>
-                      <TableCell>
-                        <div>
-                          <div className="font-medium">
-                            {item.products?.name || item.description || 'Unknown Product'}
+                  {invoice.customers?.address && (
+                    <div className="flex items-start space-x-2">
+                      <MapPin className="h-4 w-4 text-muted-foreground mt-0.5" />
+                      <div className="text-sm">
+                        <div>{invoice.customers.address}</div>
+                        {invoice.customers.city && (
+                          <div className="text-muted-foreground">
+                            {invoice.customers.city}, {invoice.customers.country || 'Kenya'}
                           </div>
-                          {item.description && item.description !== item.products?.name && (
-                            <div className="text-sm text-muted-foreground">{item.description}</div>
-                          )}
-                        </div>
-                      </TableCell>
-                      <TableCell>{item.quantity}</TableCell>
-                      <TableCell>{formatCurrency(item.unit_price)}</TableCell>
-                      <TableCell>{item.discount_percentage || 0}%</TableCell>
-                      <TableCell>{item.tax_percentage || 0}%</TableCell>
-                      <TableCell className="text-right font-semibold">
-                        {formatCurrency(item.line_total)}
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            )}
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
 
-            {/* Invoice Totals */}
-            <div className="mt-6 border-t pt-4">
-              <div className="flex justify-end">
-                <div className="w-80 space-y-2">
-                  <div className="flex justify-between">
-                    <span>Subtotal:</span>
-                    <span className="font-semibold">{formatCurrency(invoice.subtotal || 0)}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span>Tax:</span>
-                    <span className="font-semibold">{formatCurrency(invoice.tax_amount || 0)}</span>
-                  </div>
-                  <div className="flex justify-between text-lg border-t pt-2">
-                    <span className="font-bold">Total:</span>
-                    <span className="font-bold text-primary">{formatCurrency(invoice.total_amount || 0)}</span>
+              {/* Invoice Details */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center space-x-2">
+                    <FileText className="h-4 w-4" />
+                    <span>Invoice Details</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <span className="text-muted-foreground">Invoice Date:</span>
+                      <div className="font-medium flex items-center space-x-2">
+                        <Calendar className="h-4 w-4" />
+                        <span>{formatDate(invoice.invoice_date)}</span>
+                      </div>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Due Date:</span>
+                      <div className="font-medium flex items-center space-x-2">
+                        <Calendar className="h-4 w-4" />
+                        <span>{formatDate(invoice.due_date)}</span>
+                      </div>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Total Amount:</span>
+                      <div className="font-bold text-lg text-primary">
+                        {formatCurrency(invoice.total_amount || 0)}
+                      </div>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Balance Due:</span>
+                      <div className={`font-bold text-lg ${(invoice.balance_due || 0) > 0 ? 'text-destructive' : 'text-success'}`}>
+                        {formatCurrency(invoice.balance_due || 0)}
+                      </div>
+                    </div>
                   </div>
-                  <div className="flex justify-between text-sm text-muted-foreground">
-                    <span>Paid:</span>
-                    <span>{formatCurrency(invoice.paid_amount || 0)}</span>
+
+                  {invoice.etims_cu_invoice_number ? (
+                    <div className="text-sm">
+                      <span className="text-muted-foreground">KRA eTIMS:</span>
+                      <div className="font-medium">{invoice.etims_cu_invoice_number}</div>
+                      <div className="text-xs text-muted-foreground">
+                        CU {invoice.etims_cu_serial_number} • Signature {invoice.etims_signature}
+                      </div>
+                    </div>
+                  ) : invoice.etims_status === 'queued' && (
+                    <div className="text-sm text-warning">
+                      Waiting for KRA eTIMS; the invoice stays in draft until it is accepted
+                    </div>
+                  )}
+
+                  {invoice.notes && (
+                    <div>
+                      <span className="text-muted-foreground text-sm">Notes:</span>
+                      <div className="text-sm mt-1 p-2 bg-muted/50 rounded">
+                        {invoice.notes}
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Invoice Items */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span>Invoice Items</span>
+                  <Badge variant="outline">
+                    {invoice.invoice_items?.length || 0} items
+                  </Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {!invoice.invoice_items || invoice.invoice_items.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    No items found for this invoice
                   </div>
-                  <div className="flex justify-between text-lg border-t pt-2">
-                    <span className="font-bold">Balance Due:</span>
-                    <span className={`font-bold ${(invoice.balance_due || 0) > 0 ? 'text-destructive' : 'text-success'}`}>
-                      {formatCurrency(invoice.balance_due || 0)}
-                    </span>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Product</TableHead>
+                        <TableHead>Qty</TableHead>
+                        <TableHead>Unit Price</TableHead>
+                        <TableHead>Discount %</TableHead>
+                        <TableHead>Tax %</TableHead>
+                        <TableHead className="text-right">Line Total</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {invoice.invoice_items.map((item: any, index: number) => (
+                        <TableRow key={item.id || index}>
+                          <TableCell>
+                            <div>
+                              <div className="font-medium">
+                                {item.products?.name || item.description || 'Unknown Product'}
+                              </div>
+                              {item.description && item.description !== item.products?.name && (
+                                <div className="text-sm text-muted-foreground">{item.description}</div>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>{item.quantity}</TableCell>
+                          <TableCell>{formatCurrency(item.unit_price)}</TableCell>
+                          <TableCell>{item.discount_percentage || 0}%</TableCell>
+                          <TableCell>{item.tax_percentage || 0}%</TableCell>
+                          <TableCell className="text-right font-semibold">
+                            {formatCurrency(item.line_total)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+
+                {/* Invoice Totals */}
+                <div className="mt-6 border-t pt-4">
+                  <div className="flex justify-end">
+                    <div className="w-80 space-y-2">
+                      <div className="flex justify-between">
+                        <span>Subtotal:</span>
+                        <span className="font-semibold">{formatCurrency(invoice.subtotal || 0)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Tax:</span>
+                        <span className="font-semibold">{formatCurrency(invoice.tax_amount || 0)}</span>
+                      </div>
+                      <div className="flex justify-between text-lg border-t pt-2">
+                        <span className="font-bold">Total:</span>
+                        <span className="font-bold text-primary">{formatCurrency(invoice.total_amount || 0)}</span>
+                      </div>
+                      {Number(invoice.exchange_rate || 1) !== 1 && (
+                        <div className="flex justify-between text-sm text-muted-foreground">
+                          <span>In base currency at {Number(invoice.exchange_rate)}:</span>
+                          <span>{Number(invoice.base_total_amount || 0).toLocaleString('en-KE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                        </div>
+                      )}
+                      <div className="flex justify-between text-sm text-muted-foreground">
+                        <span>Paid:</span>
+                        <span>{formatCurrency(invoice.paid_amount || 0)}</span>
+                      </div>
+                      <div className="flex justify-between text-lg border-t pt-2">
+                        <span className="font-bold">Balance Due:</span>
+                        <span className={`font-bold ${(invoice.balance_due || 0) > 0 ? 'text-destructive' : 'text-success'}`}>
+                          {formatCurrency(invoice.balance_due || 0)}
+                        </span>
+                      </div>
+                    </div>
                   </div>
                 </div>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="history">
+            <AuditHistory entityType="invoices" entityId={invoice.id} />
+          </TabsContent>
+        </Tabs>
 
         <DialogFooter>
           <Button variant="outline" onClick={() => onOpenChange(false)}>
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Ban, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useVoidInvoice, type Invoice } from '@/hooks/useDatabase';
+
+interface VoidInvoiceModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+  invoice: Pick<Invoice, 'id' | 'invoice_number'> | null;
+}
+
+export function VoidInvoiceModal({ open, onOpenChange, onSuccess, invoice }: VoidInvoiceModalProps) {
+  const [reason, setReason] = useState('');
+  const voidInvoice = useVoidInvoice();
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setReason('');
+    onOpenChange(next);
+  };
+
+  const handleVoid = async () => {
+    if (!reason.trim()) {
+      toast.error('Please enter a reason for voiding this invoice');
+      return;
+    }
+
+    try {
+      const result = await voidInvoice.mutateAsync({ invoiceId: invoice.id, reason });
+      const released = Number(result?.payments_released || 0) + Number(result?.credits_released || 0);
+      toast.success(
+        released > 0
+          ? `Invoice ${invoice.invoice_number} voided; ${released.toLocaleString()} in payments and credits released`
+          : `Invoice ${invoice.invoice_number} voided`
+      );
+      handleOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      console.error('Error voiding invoice:', error);
+      toast.error((error as { message?: string })?.message || 'Failed to void invoice');
+    }
+  };
+
+  if (!invoice) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Ban className="h-5 w-5 text-destructive" />
+            <span>Void Invoice {invoice.invoice_number}</span>
+          </DialogTitle>
+          <DialogDescription>
+            Voiding cannot be undone. Stock taken out by this invoice is returned, and any payments or
+            credit notes allocated to it are released so they can be allocated elsewhere.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="void-reason">Reason *</Label>
+          <Textarea
+            id="void-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Raised against the wrong customer"
+            rows={3}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={voidInvoice.isPending}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleVoid} disabled={voidInvoice.isPending || !reason.trim()}>
+            {voidInvoice.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Ban className="h-4 w-4 mr-2" />
+            )}
+            Void Invoice
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
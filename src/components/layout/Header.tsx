@@ -1,5 +1,6 @@
 import { useState } from 'react';
-import { Bell, Search, User, LogOut, LogIn } from 'lucide-react';
+import { toast } from 'sonner';
+import { Search, User, LogOut, LogIn, Building2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import {
@@ -10,16 +11,35 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
 import { SignInModal } from '@/components/auth/SignInModal';
 import { ForgotPasswordModal } from '@/components/auth/ForgotPasswordModal';
+import { NotificationsMenu } from './NotificationsMenu';
 
 export function Header() {
   const { user, profile, signOut, isAuthenticated } = useAuth();
+  const { currentCompany, companies, currentRole, switchCompany } = useCurrentCompany();
   const [authModal, setAuthModal] = useState<'signin' | 'forgot' | null>(null);
 
+  const handleSwitchCompany = async (companyId: string) => {
+    try {
+      await switchCompany(companyId);
+    } catch (err) {
+      console.error('Failed to save selected company', err);
+      toast.error(`Switched company, but it could not be saved as your default: ${(err as Error)?.message || 'unknown error'}`);
+    }
+  };
+
   const getInitials = (name: string) => {
     return name
       .split(' ')
@@ -81,13 +101,27 @@ export function Header() {
         <div className="flex items-center space-x-4">
           {isAuthenticated && (
             <>
+              {/* Company Switcher */}
+              {companies.length > 1 && (
+                <Select value={currentCompany?.id} onValueChange={handleSwitchCompany}>
+                  <SelectTrigger className="w-56">
+                    <div className="flex items-center space-x-2 truncate">
+                      <Building2 className="h-4 w-4 text-muted-foreground" />
+                      <SelectValue placeholder="Select company" />
+                    </div>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {companies.map(company => (
+                      <SelectItem key={company.id} value={company.id}>
+                        {company.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
               {/* Notifications */}
-              <Button variant="ghost" size="icon" className="relative">
-                <Bell className="h-5 w-5" />
-                <span className="absolute -top-1 -right-1 h-4 w-4 rounded-full bg-destructive text-xs text-destructive-foreground flex items-center justify-center">
-                  3
-                </span>
-              </Button>
+              <NotificationsMenu />
 
               {/* User Menu */}
               <DropdownMenu>
@@ -104,14 +138,14 @@ export function Header() {
                       </span>
                       <div className="flex items-center space-x-2">
                         <span className="text-xs text-muted-foreground">
-                          {profile?.role ? getRoleDisplay(profile.role) : 'User'}
+                          {currentRole ? getRoleDisplay(currentRole) : 'User'}
                         </span>
-                        {profile?.role && (
+                        {currentRole && (
                           <Badge 
                             variant="outline" 
-                            className={`text-xs px-1 py-0 h-4 ${getRoleColor(profile.role)}`}
+                            className={`text-xs px-1 py-0 h-4 ${getRoleColor(currentRole)}`}
                           >
-                            {profile.role.toUpperCase()}
+                            {currentRole.toUpperCase()}
                           </Badge>
                         )}
                       </div>
@@ -134,7 +168,7 @@ export function Header() {
                     <User className="mr-2 h-4 w-4" />
                     Profile Settings
                   </DropdownMenuItem>
-                  {profile?.role === 'admin' && (
+                  {currentRole === 'admin' && (
                     <DropdownMenuItem>
                       Company Settings
                     </DropdownMenuItem>
@@ -16,7 +16,7 @@ export function Layout({ children }: LayoutProps) {
 
   // Routes that don't require authentication
   const publicRoutes = ['/auth-test', '/manual-setup', '/database-fix-page', '/auto-fix', '/audit', '/auto-payment-sync', '/payment-sync'];
-  const isPublicRoute = publicRoutes.includes(location.pathname);
+  const isPublicRoute = publicRoutes.includes(location.pathname) || location.pathname.startsWith('/portal/');
 
   // Show login after initial auth completes to avoid redirect bounce
   if (!loading && !isAuthenticated && !isPublicRoute) {
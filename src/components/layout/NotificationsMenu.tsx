@@ -0,0 +1,79 @@
+import { Bell } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useAuth } from '@/contexts/AuthContext';
+import { useMarkNotificationsRead, useNotifications, type AppNotification } from '@/hooks/useNotifications';
+
+export function NotificationsMenu() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { data: notifications = [] } = useNotifications(user?.id);
+  const markRead = useMarkNotificationsRead();
+
+  const unread = notifications.filter(n => !n.read_at);
+
+  const handleOpen = (notification: AppNotification) => {
+    if (!notification.read_at) markRead.mutate([notification.id]);
+    if (notification.link) navigate(notification.link);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative">
+          <Bell className="h-5 w-5" />
+          {unread.length > 0 && (
+            <span className="absolute -top-1 -right-1 h-4 min-w-4 px-1 rounded-full bg-destructive text-xs text-destructive-foreground flex items-center justify-center">
+              {unread.length > 9 ? '9+' : unread.length}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Notifications</span>
+          {unread.length > 0 && (
+            <button
+              type="button"
+              className="text-xs font-normal text-primary hover:underline"
+              onClick={() => markRead.mutate(unread.map(n => n.id))}
+            >
+              Mark all read
+            </button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <div className="px-2 py-4 text-sm text-center text-muted-foreground">No notifications</div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(notification => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="flex flex-col items-start space-y-1 cursor-pointer"
+                onClick={() => handleOpen(notification)}
+              >
+                <div className="flex w-full items-center justify-between">
+                  <span className={`text-sm ${notification.read_at ? '' : 'font-semibold'}`}>{notification.title}</span>
+                  {!notification.read_at && <span className="h-2 w-2 rounded-full bg-primary" />}
+                </div>
+                {notification.message && (
+                  <span className="text-xs text-muted-foreground line-clamp-2">{notification.message}</span>
+                )}
+                <span className="text-xs text-muted-foreground">{new Date(notification.created_at).toLocaleString()}</span>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
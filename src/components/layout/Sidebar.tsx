@@ -18,14 +18,31 @@ import {
   CreditCard,
   FileSpreadsheet,
   ShoppingCart,
-  RotateCcw
+  RotateCcw,
+  BookOpen,
+  PackageCheck,
+  FileInput,
+  Banknote,
+  Hourglass,
+  History,
+  Repeat,
+  Landmark,
+  Smartphone,
+  Percent,
+  Calculator,
+  Scale,
+  TrendingUp,
+  Coins
 } from 'lucide-react';
 import { BiolegendLogo } from '@/components/ui/biolegend-logo';
+import { usePermissions } from '@/hooks/usePermissions';
+import { Permission } from '@/utils/permissions';
 
 interface SidebarItem {
   title: string;
   icon: React.ComponentType<{ className?: string }>;
   href?: string;
+  permission?: Permission;
   children?: SidebarItem[];
 }
 
@@ -39,67 +56,95 @@ const sidebarItems: SidebarItem[] = [
     title: 'Sales',
     icon: Receipt,
     children: [
-      { title: 'Quotations', icon: FileText, href: '/quotations' },
-      { title: 'Invoices', icon: Receipt, href: '/invoices' },
-      { title: 'Proforma Invoices', icon: FileCheck, href: '/proforma' },
-      { title: 'Credit Notes', icon: RotateCcw, href: '/credit-notes' }
+      { title: 'Quotations', icon: FileText, href: '/quotations', permission: 'quotation.view' },
+      { title: 'Invoices', icon: Receipt, href: '/invoices', permission: 'invoice.view' },
+      { title: 'Recurring Invoices', icon: Repeat, href: '/recurring-invoices', permission: 'invoice.view' },
+      { title: 'Proforma Invoices', icon: FileCheck, href: '/proforma', permission: 'invoice.view' },
+      { title: 'Credit Notes', icon: RotateCcw, href: '/credit-notes', permission: 'credit_note.view' }
     ]
   },
   {
     title: 'Payments',
     icon: DollarSign,
     children: [
-      { title: 'Payments', icon: DollarSign, href: '/payments' },
-      { title: 'Remittance Advice', icon: CreditCard, href: '/remittance' }
+      { title: 'Payments', icon: DollarSign, href: '/payments', permission: 'payment.view' },
+      { title: 'Remittance Advice', icon: CreditCard, href: '/remittance', permission: 'payment.view' },
+      { title: 'Bank Reconciliation', icon: Landmark, href: '/bank-reconciliation', permission: 'payment.view' },
+      { title: 'M-Pesa Receipts', icon: Smartphone, href: '/mpesa', permission: 'payment.view' }
     ]
   },
   {
     title: 'Inventory',
     icon: Package,
-    href: '/inventory'
+    href: '/inventory',
+    permission: 'inventory.view'
   },
   {
     title: 'Delivery Notes',
     icon: Truck,
-    href: '/delivery-notes'
+    href: '/delivery-notes',
+    permission: 'delivery_note.view'
   },
   {
     title: 'Customers',
     icon: Users,
-    href: '/customers'
+    href: '/customers',
+    permission: 'customer.view'
   },
   {
     title: 'BOQs',
     icon: FileSpreadsheet,
-    href: '/boqs'
+    children: [
+      { title: 'BOQs', icon: FileSpreadsheet, href: '/boqs', permission: 'boq.view' },
+      { title: 'Rate Library', icon: BookOpen, href: '/boqs/rates', permission: 'boq.view' }
+    ]
   },
   {
-    title: 'Purchase Orders',
+    title: 'Purchasing',
     icon: ShoppingCart,
-    href: '/lpos'
+    children: [
+      { title: 'Purchase Orders', icon: ShoppingCart, href: '/lpos', permission: 'purchase.view' },
+      { title: 'Goods Received', icon: PackageCheck, href: '/grns', permission: 'purchase.view' },
+      { title: 'Supplier Bills', icon: FileInput, href: '/supplier-bills', permission: 'payable.view' },
+      { title: 'Supplier Payments', icon: Banknote, href: '/supplier-payments', permission: 'payable.view' },
+      { title: 'Suppliers', icon: Truck, href: '/suppliers', permission: 'purchase.view' }
+    ]
   },
   {
     title: 'Reports',
     icon: BarChart3,
     children: [
-      { title: 'Sales Reports', icon: BarChart3, href: '/reports/sales' },
-      { title: 'Inventory Reports', icon: Package, href: '/reports/inventory' },
-      { title: 'Customer Statements', icon: FileSpreadsheet, href: '/reports/statements' }
+      { title: 'Sales Reports', icon: BarChart3, href: '/reports/sales', permission: 'report.sales' },
+      { title: 'Inventory Reports', icon: Package, href: '/reports/inventory', permission: 'report.inventory' },
+      { title: 'Customer Statements', icon: FileSpreadsheet, href: '/reports/statements', permission: 'report.sales' },
+      { title: 'Supplier Aging', icon: Hourglass, href: '/reports/supplier-aging', permission: 'report.payables' },
+      { title: 'VAT Return', icon: Percent, href: '/reports/vat', permission: 'report.tax' },
+      { title: 'Financial Statements', icon: TrendingUp, href: '/reports/financial', permission: 'ledger.view' }
+    ]
+  },
+  {
+    title: 'Accounting',
+    icon: Calculator,
+    children: [
+      { title: 'General Ledger', icon: Scale, href: '/ledger', permission: 'ledger.view' }
     ]
   },
   {
     title: 'Settings',
     icon: Settings,
     children: [
-      { title: 'Company Settings', icon: Building2, href: '/settings/company' },
-      { title: 'User Management', icon: Users, href: '/settings/users' },
-      { title: 'Database Setup', icon: Package, href: '/database-setup' }
+      { title: 'Company Settings', icon: Building2, href: '/settings/company', permission: 'settings.view' },
+      { title: 'Exchange Rates', icon: Coins, href: '/settings/exchange-rates', permission: 'settings.view' },
+      { title: 'User Management', icon: Users, href: '/settings/users', permission: 'user.manage' },
+      { title: 'Audit Log', icon: History, href: '/settings/audit-log', permission: 'audit.view' },
+      { title: 'Database Setup', icon: Package, href: '/database-setup', permission: 'settings.edit' }
     ]
   }
 ];
 
 export function Sidebar() {
   const location = useLocation();
+  const { can } = usePermissions();
   const [expandedItems, setExpandedItems] = useState<string[]>(['Sales', 'Reports']);
 
   const toggleExpanded = (title: string) => {
@@ -189,6 +234,13 @@ export function Sidebar() {
     );
   };
 
+  // Hide links the user cannot open, and groups left with no links
+  const visibleItems = sidebarItems
+    .map(item => item.children
+      ? { ...item, children: item.children.filter(child => !child.permission || can(child.permission)) }
+      : item)
+    .filter(item => item.children ? item.children.length > 0 : !item.permission || can(item.permission));
+
   return (
     <div className="flex h-full w-64 flex-col bg-sidebar border-r border-sidebar-border">
       {/* Company Logo/Header */}
@@ -198,7 +250,7 @@ export function Sidebar() {
 
       {/* Navigation */}
       <nav className="flex-1 space-y-2 p-4 custom-scrollbar overflow-y-auto">
-        {sidebarItems.map(renderSidebarItem)}
+        {visibleItems.map(renderSidebarItem)}
       </nav>
 
       {/* Company Info */}
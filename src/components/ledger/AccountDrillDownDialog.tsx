@@ -0,0 +1,124 @@
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ExternalLink } from 'lucide-react';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { useJournalEntries } from '@/hooks/useLedger';
+import { JOURNAL_SOURCE_LABELS, type JournalSourceType } from '@/utils/ledger';
+
+interface AccountDrillDownDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  account: { id: string; label: string } | null;
+  from?: string;
+  to: string;
+}
+
+// Pages listing each kind of source document
+const SOURCE_ROUTES: Record<JournalSourceType, string> = {
+  invoice: '/invoices',
+  credit_note: '/credit-notes',
+  payment: '/payments',
+  stock_movement: '/inventory',
+  supplier_bill: '/supplier-bills',
+  supplier_payment: '/supplier-payments',
+  payment_allocation: '/payments',
+  supplier_payment_allocation: '/supplier-payments',
+};
+
+// The documents behind one account's figure: every journal line on it in the period
+export function AccountDrillDownDialog({ open, onOpenChange, account, from, to }: AccountDrillDownDialogProps) {
+  const { currentCompany } = useCurrentCompany();
+  const { data: entries = [], isLoading } = useJournalEntries(
+    open && account ? currentCompany?.id : undefined, from, to, account?.id
+  );
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-KE', {
+      style: 'currency',
+      currency: 'KES',
+      minimumFractionDigits: 2
+    }).format(amount);
+  };
+
+  const lines = entries.flatMap(entry => (entry.journal_lines || [])
+    .filter(line => line.account_id === account?.id)
+    .map(line => ({ entry, line })));
+  const totalDebit = lines.reduce((sum, { line }) => sum + Number(line.debit || 0), 0);
+  const totalCredit = lines.reduce((sum, { line }) => sum + Number(line.credit || 0), 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{account?.label}</DialogTitle>
+          <DialogDescription>
+            Postings {from ? `from ${new Date(from).toLocaleDateString()} ` : ''}to {new Date(to).toLocaleDateString()}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Source Document</TableHead>
+              <TableHead>Details</TableHead>
+              <TableHead className="text-right">Debit</TableHead>
+              <TableHead className="text-right">Credit</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-muted-foreground text-sm">Loading...</TableCell>
+              </TableRow>
+            ) : lines.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-muted-foreground text-sm">No postings in this period</TableCell>
+              </TableRow>
+            ) : (
+              <>
+                {lines.map(({ entry, line }) => (
+                  <TableRow key={line.id}>
+                    <TableCell className="text-sm">{new Date(entry.entry_date).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <Link
+                        to={SOURCE_ROUTES[entry.source_type]}
+                        className="inline-flex items-center space-x-1 text-primary hover:underline"
+                        onClick={() => onOpenChange(false)}
+                      >
+                        <span>{JOURNAL_SOURCE_LABELS[entry.source_type]} {entry.source_number}</span>
+                        <ExternalLink className="h-3 w-3" />
+                      </Link>
+                      <div className="text-xs text-muted-foreground">{entry.entry_number}</div>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {[line.description || entry.description, line.customers?.name, line.suppliers?.name].filter(Boolean).join(' • ')}
+                      {entry.reverses_entry_id && (
+                        <Badge variant="outline" className="ml-2 bg-warning-light text-warning border-warning/20">Reversal</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">{Number(line.debit) ? formatCurrency(Number(line.debit)) : ''}</TableCell>
+                    <TableCell className="text-right text-sm">{Number(line.credit) ? formatCurrency(Number(line.credit)) : ''}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="font-bold">
+                  <TableCell colSpan={3}>Total</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totalDebit)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totalCredit)}</TableCell>
+                </TableRow>
+              </>
+            )}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  );
+}
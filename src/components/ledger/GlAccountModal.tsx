@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { BookOpen } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { useCreateGlAccount, useUpdateGlAccount, type GlAccountInput } from '@/hooks/useLedger';
+import { ACCOUNT_TYPE_LABELS, type GlAccount, type GlAccountType } from '@/utils/ledger';
+
+interface GlAccountModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  account?: GlAccount | null;
+}
+
+const emptyAccount = (): GlAccountInput => ({
+  code: '',
+  name: '',
+  account_type: 'expense',
+  description: '',
+  is_active: true,
+});
+
+export function GlAccountModal({ open, onOpenChange, account }: GlAccountModalProps) {
+  const { currentCompany } = useCurrentCompany();
+  const createAccount = useCreateGlAccount();
+  const updateAccount = useUpdateGlAccount();
+  const [form, setForm] = useState<GlAccountInput>(emptyAccount());
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(account ? {
+      code: account.code,
+      name: account.name,
+      account_type: account.account_type,
+      description: account.description || '',
+      is_active: account.is_active,
+    } : emptyAccount());
+  }, [open, account]);
+
+  const isSaving = createAccount.isPending || updateAccount.isPending;
+  // The type of a seeded account decides where it lands in the statements; keep it fixed
+  const typeLocked = !!account?.is_system;
+
+  const handleSave = async () => {
+    if (!form.code.trim() || !form.name.trim()) {
+      toast.error('Please enter an account code and name');
+      return;
+    }
+    if (!currentCompany?.id) {
+      toast.error('Company not found. Please refresh and try again.');
+      return;
+    }
+
+    const values = { ...form, code: form.code.trim(), name: form.name.trim() };
+    try {
+      const saved = account
+        ? await updateAccount.mutateAsync({ id: account.id, account: typeLocked ? { ...values, account_type: account.account_type } : values })
+        : await createAccount.mutateAsync({ companyId: currentCompany.id, account: values });
+      toast.success(`Account ${saved.code} ${saved.name} saved`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving ledger account:', error);
+      toast.error(error?.code === '23505' ? `Account code ${values.code} is already in use` : (error as { message?: string })?.message || 'Failed to save account');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <BookOpen className="h-5 w-5 text-primary" />
+            <span>{account ? 'Edit Account' : 'Add Account'}</span>
+          </DialogTitle>
+          <DialogDescription>
+            Accounts in the chart can be picked in the account mappings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="gl_code">Code *</Label>
+              <Input
+                id="gl_code"
+                value={form.code}
+                onChange={(e) => setForm(prev => ({ ...prev, code: e.target.value }))}
+                placeholder="e.g. 6100"
+              />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="gl_name">Name *</Label>
+              <Input
+                id="gl_name"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Transport Costs"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select
+              value={form.account_type}
+              onValueChange={(value) => setForm(prev => ({ ...prev, account_type: value as GlAccountType }))}
+              disabled={typeLocked}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ACCOUNT_TYPE_LABELS) as GlAccountType[]).map(type => (
+                  <SelectItem key={type} value={type}>{ACCOUNT_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="gl_description">Description</Label>
+            <Textarea
+              id="gl_description"
+              value={form.description || ''}
+              onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+              rows={2}
+            />
+          </div>
+          {account && (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="gl_is_active">Active</Label>
+              <Switch
+                id="gl_is_active"
+                checked={form.is_active}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, is_active: checked }))}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Account'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
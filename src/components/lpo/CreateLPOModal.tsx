@@ -20,22 +20,22 @@ import {
 } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import {
   Plus,
   Trash2,
   Search,
   ShoppingCart,
   Package,
-  User,
   Building2,
-  Calendar,
-  AlertTriangle
+  Calendar
 } from 'lucide-react';
-import { useCreateLPO, useGenerateLPONumber, useAllSuppliersAndCustomers, useProducts, useCompanies, useCreateCustomer } from '@/hooks/useDatabase';
+import { useCreateLPO, useGenerateLPONumber, useSuppliers, useProducts } from '@/hooks/useDatabase';
 import { toast } from 'sonner';
 import { validateLPO } from '@/utils/lpoValidation';
-import { validateSupplierSelection, ValidationResult } from '@/utils/customerSupplierValidation';
+import { CreateSupplierModal } from '@/components/suppliers/CreateSupplierModal';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { useDocumentCurrency } from '@/hooks/useExchangeRates';
+import { DocumentCurrencyFields } from '@/components/currency/DocumentCurrencyFields';
 
 interface LPOItem {
   id: string;
@@ -72,33 +72,20 @@ export const CreateLPOModal = ({
     terms_and_conditions: 'Payment terms: Net 30 days\nDelivery: As per agreed schedule\nQuality: All items must meet specified standards',
   });
 
+  const documentCurrency = useDocumentCurrency();
   const [items, setItems] = useState<LPOItem[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [showProductSearch, setShowProductSearch] = useState(false);
   const [lpoNumber, setLpoNumber] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [supplierValidation, setSupplierValidation] = useState<ValidationResult | null>(null);
-  const [isValidatingSupplier, setIsValidatingSupplier] = useState(false);
   const [showCreateSupplier, setShowCreateSupplier] = useState(false);
-  const [newSupplierData, setNewSupplierData] = useState({
-    name: '',
-    email: '',
-    phone: '',
-    address: '',
-    city: '',
-    country: ''
-  });
-  const [isCreatingSupplier, setIsCreatingSupplier] = useState(false);
-  const [newlyCreatedSupplierId, setNewlyCreatedSupplierId] = useState<string | null>(null);
 
-  const { data: companies } = useCompanies();
-  const currentCompany = companies?.[0];
-  const { data: supplierData } = useAllSuppliersAndCustomers(currentCompany?.id);
-  const suppliers = supplierData?.all || [];
+  const { currentCompany } = useCurrentCompany();
+  const { data: allSuppliers } = useSuppliers(currentCompany?.id);
+  const suppliers = allSuppliers?.filter(s => s.is_active !== false) || [];
   const { data: products } = useProducts(currentCompany?.id);
   const createLPO = useCreateLPO();
   const generateLPONumber = useGenerateLPONumber();
-  const createCustomer = useCreateCustomer();
 
   useEffect(() => {
     if (open && currentCompany?.id) {
@@ -123,95 +110,6 @@ export const CreateLPOModal = ({
     product.product_code.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
-  // Validate supplier selection for customer/supplier conflicts
-  // Create new supplier (customer) function
-  const handleCreateNewSupplier = async () => {
-    if (!currentCompany?.id) {
-      toast.error('Company not found');
-      return;
-    }
-
-    if (!newSupplierData.name.trim()) {
-      toast.error('Supplier name is required');
-      return;
-    }
-
-    setIsCreatingSupplier(true);
-    try {
-      // Generate customer code
-      const customerCode = `SUP-${newSupplierData.name.slice(0, 3).toUpperCase()}-${Date.now().toString().slice(-6)}`;
-
-      const customerData = {
-        company_id: currentCompany.id,
-        customer_code: customerCode,
-        name: newSupplierData.name.trim(),
-        email: newSupplierData.email.trim() || null,
-        phone: newSupplierData.phone.trim() || null,
-        address: newSupplierData.address.trim() || null,
-        city: newSupplierData.city.trim() || null,
-        country: newSupplierData.country.trim() || null,
-        is_active: true
-      };
-
-      const newCustomer = await createCustomer.mutateAsync(customerData);
-
-      // Set as selected supplier and mark as newly created
-      setFormData(prev => ({ ...prev, supplier_id: newCustomer.id }));
-      setNewlyCreatedSupplierId(newCustomer.id);
-
-      // Reset form
-      setNewSupplierData({
-        name: '',
-        email: '',
-        phone: '',
-        address: '',
-        city: '',
-        country: ''
-      });
-      setShowCreateSupplier(false);
-
-      toast.success(`Supplier "${newCustomer.name}" created and selected!`);
-
-      // Validate the new supplier selection (mark as newly created)
-      await validateSupplier(newCustomer.id, true);
-
-    } catch (error) {
-      console.error('Error creating supplier:', error);
-      toast.error('Failed to create supplier. Please try again.');
-    } finally {
-      setIsCreatingSupplier(false);
-    }
-  };
-
-  const validateSupplier = async (supplierId: string, isNewlyCreated: boolean = false) => {
-    if (!supplierId || !currentCompany?.id) return;
-
-    setIsValidatingSupplier(true);
-    try {
-      const supplier = suppliers?.find(s => s.id === supplierId);
-      const result = await validateSupplierSelection(
-        supplierId,
-        currentCompany.id,
-        supplier?.name,
-        isNewlyCreated
-      );
-      setSupplierValidation(result);
-
-      // Show toast for critical errors only
-      if (!result.isValid && result.errors.length > 0) {
-        toast.error('Supplier validation failed: ' + result.errors[0]);
-      } else if (result.warnings.length > 0 && !isNewlyCreated) {
-        // Only show warning toast for existing suppliers with conflicts
-        toast.warning('Supplier conflict detected - please review the warnings below');
-      }
-    } catch (error) {
-      console.error('Error validating supplier:', error);
-      toast.error('Failed to validate supplier selection');
-    } finally {
-      setIsValidatingSupplier(false);
-    }
-  };
-
   const addItem = (product: any) => {
     const newItem: LPOItem = {
       id: `item-${Date.now()}`,
@@ -283,24 +181,6 @@ export const CreateLPOModal = ({
       return;
     }
 
-    // Check supplier validation - only block on critical errors
-    if (supplierValidation && !supplierValidation.isValid && supplierValidation.errors.length > 0) {
-      toast.error('Please resolve supplier validation errors before creating LPO');
-      return;
-    }
-
-    // Show final warning for supplier conflicts (only for existing suppliers with significant conflicts)
-    if (supplierValidation && supplierValidation.warnings.length > 0 &&
-        supplierValidation.conflictData?.customerInvoiceCount &&
-        supplierValidation.conflictData.customerInvoiceCount >= 5 &&
-        formData.supplier_id !== newlyCreatedSupplierId) {
-      const proceed = window.confirm(
-        `WARNING: This supplier "${supplierValidation.conflictData.entityName}" has ${supplierValidation.conflictData.customerInvoiceCount} invoice(s) as a customer. ` +
-        `This creates a customer/supplier conflict. Do you want to proceed anyway?`
-      );
-      if (!proceed) return;
-    }
-
     setIsSubmitting(true);
     try {
       const lpoData = {
@@ -309,6 +189,7 @@ export const CreateLPOModal = ({
         lpo_number: lpoNumber,
         lpo_date: formData.lpo_date,
         delivery_date: formData.delivery_date || null,
+        ...documentCurrency.columns,
         status: 'draft' as const,
         subtotal,
         tax_amount: totalTax,
@@ -353,15 +234,15 @@ export const CreateLPOModal = ({
       return;
     }
 
-    setFormData(prev => ({ ...prev, supplier_id: supplierId }));
-
-    // Clear previous validation and validate new supplier
-    setSupplierValidation(null);
-    if (supplierId) {
-      // Check if this is the newly created supplier
-      const isNewlyCreated = supplierId === newlyCreatedSupplierId;
-      validateSupplier(supplierId, isNewlyCreated);
-    }
+    // Default the contact fields from the supplier's primary contact
+    const supplier = suppliers.find(s => s.id === supplierId);
+    const primaryContact = supplier?.contacts?.[0];
+    setFormData(prev => ({
+      ...prev,
+      supplier_id: supplierId,
+      contact_person: prev.contact_person || primaryContact?.name || '',
+      contact_phone: prev.contact_phone || primaryContact?.phone || supplier?.phone || '',
+    }));
   };
 
   const handleClose = () => {
@@ -375,20 +256,11 @@ export const CreateLPOModal = ({
       notes: '',
       terms_and_conditions: 'Payment terms: Net 30 days\nDelivery: As per agreed schedule\nQuality: All items must meet specified standards',
     });
+    documentCurrency.reset();
     setItems([]);
     setSearchTerm('');
     setShowProductSearch(false);
-    setSupplierValidation(null);
-    setNewlyCreatedSupplierId(null);
     setShowCreateSupplier(false);
-    setNewSupplierData({
-      name: '',
-      email: '',
-      phone: '',
-      address: '',
-      city: '',
-      country: ''
-    });
     onOpenChange(false);
   };
 
@@ -422,60 +294,29 @@ export const CreateLPOModal = ({
               <Select
                 value={formData.supplier_id}
                 onValueChange={handleSupplierChange}
-                disabled={isValidatingSupplier}
               >
                 <SelectTrigger>
                   <SelectValue placeholder="Select supplier" />
                 </SelectTrigger>
                 <SelectContent>
-                  {supplierData?.existing && supplierData.existing.length > 0 && (
-                    <>
-                      <div className="px-2 py-1 text-xs font-semibold text-green-600 bg-green-50 border-b">
-                        ✓ Current Suppliers
-                      </div>
-                      {supplierData.existing.map((supplier) => (
-                        <SelectItem key={supplier.id} value={supplier.id}>
-                          <div className="flex items-center gap-2">
-                            <span className="w-2 h-2 bg-green-500 rounded-full"></span>
-                            {supplier.name}
-                          </div>
-                        </SelectItem>
-                      ))}
-                    </>
-                  )}
+                  {suppliers.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>
+                      {supplier.name} ({supplier.supplier_code})
+                    </SelectItem>
+                  ))}
 
-                  {supplierData?.potential && supplierData.potential.length > 0 && (
-                    <>
-                      <div className="px-2 py-1 text-xs font-semibold text-orange-600 bg-orange-50 border-b border-t">
-                        ⚠ Customers (Will Create Supplier Role)
-                      </div>
-                      {supplierData.potential.map((customer) => (
-                        <SelectItem key={customer.id} value={customer.id}>
-                          <div className="flex items-center gap-2">
-                            <span className="w-2 h-2 bg-orange-500 rounded-full"></span>
-                            {customer.name}
-                          </div>
-                        </SelectItem>
-                      ))}
-                    </>
+                  {suppliers.length === 0 && (
+                    <div className="px-2 py-2 text-xs text-muted-foreground text-center">
+                      No suppliers found. Use "Create New Supplier" below to add one.
+                    </div>
                   )}
 
-                  {/* Create New Supplier Option */}
-                  <div className="px-2 py-1 text-xs font-semibold text-blue-600 bg-blue-50 border-b border-t">
-                    ➕ Add New Supplier
-                  </div>
                   <SelectItem value="__create_new__">
                     <div className="flex items-center gap-2">
-                      <span className="w-2 h-2 bg-blue-500 rounded-full"></span>
+                      <Plus className="h-3 w-3" />
                       Create New Supplier...
                     </div>
                   </SelectItem>
-
-                  {(!supplierData?.existing?.length && !supplierData?.potential?.length) && (
-                    <div className="px-2 py-2 text-xs text-muted-foreground text-center">
-                      No existing suppliers found. Use "Create New Supplier" above to add one.
-                    </div>
-                  )}
                 </SelectContent>
               </Select>
             </div>
@@ -490,223 +331,11 @@ export const CreateLPOModal = ({
             </div>
           </div>
 
-          {/* Supplier Validation Alerts */}
-          {supplierValidation && (supplierValidation.warnings.length > 0 || supplierValidation.errors.length > 0) && (
-            <div className="space-y-3">
-              {supplierValidation.errors.length > 0 && (
-                <Alert className="border-red-500 bg-red-50">
-                  <AlertTriangle className="h-4 w-4 text-red-600" />
-                  <AlertTitle className="text-red-800">⚠️ Critical Issue - Action Required</AlertTitle>
-                  <AlertDescription>
-                    <div className="space-y-2">
-                      {supplierValidation.errors.map((error, index) => (
-                        <div key={index} className="text-sm text-red-700 bg-red-100 p-2 rounded">
-                          {error}
-                        </div>
-                      ))}
-                      <div className="text-xs text-red-600 font-medium mt-2">
-                        ⛔ You must resolve these issues before creating the LPO.
-                      </div>
-                    </div>
-                  </AlertDescription>
-                </Alert>
-              )}
-
-              {supplierValidation.warnings.length > 0 && (
-                <div className="space-y-2">
-                  {supplierValidation.warnings.map((warning, index) => {
-                    // Determine alert type based on warning content
-                    const isDataModelNotice = warning.includes('DATA MODEL NOTICE');
-                    const isMinorConflict = warning.includes('MINOR CONFLICT');
-                    const isModerateConflict = warning.includes('MODERATE CONFLICT');
-                    const isTip = warning.includes('TIP:');
-
-                    if (isDataModelNotice) {
-                      return (
-                        <Alert key={index} className="border-blue-300 bg-blue-50">
-                          <AlertTriangle className="h-4 w-4 text-blue-600" />
-                          <AlertTitle className="text-blue-800">ℹ️ System Information</AlertTitle>
-                          <AlertDescription className="text-sm text-blue-700">
-                            {warning}
-                          </AlertDescription>
-                        </Alert>
-                      );
-                    } else if (isMinorConflict) {
-                      return (
-                        <Alert key={index} className="border-yellow-300 bg-yellow-50">
-                          <AlertTriangle className="h-4 w-4 text-yellow-600" />
-                          <AlertTitle className="text-yellow-800">ℹ️ Minor Conflict - Informational</AlertTitle>
-                          <AlertDescription className="text-sm text-yellow-700">
-                            {warning}
-                          </AlertDescription>
-                        </Alert>
-                      );
-                    } else if (isModerateConflict) {
-                      return (
-                        <Alert key={index} className="border-orange-400 bg-orange-50">
-                          <AlertTriangle className="h-4 w-4 text-orange-600" />
-                          <AlertTitle className="text-orange-800">⚠️ Moderate Conflict - Please Review</AlertTitle>
-                          <AlertDescription className="text-sm text-orange-700">
-                            {warning}
-                          </AlertDescription>
-                        </Alert>
-                      );
-                    } else if (isTip) {
-                      return (
-                        <Alert key={index} className="border-green-300 bg-green-50">
-                          <AlertTriangle className="h-4 w-4 text-green-600" />
-                          <AlertTitle className="text-green-800">💡 Helpful Suggestion</AlertTitle>
-                          <AlertDescription className="text-sm text-green-700">
-                            {warning}
-                          </AlertDescription>
-                        </Alert>
-                      );
-                    } else {
-                      return (
-                        <Alert key={index} className="border-orange-500 bg-orange-50">
-                          <AlertTriangle className="h-4 w-4 text-orange-600" />
-                          <AlertTitle className="text-orange-800">⚠️ Warning</AlertTitle>
-                          <AlertDescription className="text-sm text-orange-700">
-                            {warning}
-                          </AlertDescription>
-                        </Alert>
-                      );
-                    }
-                  })}
-
-                  {supplierValidation.conflictData && supplierValidation.conflictData.customerInvoiceCount > 0 && (
-                    <div className="mt-3 p-3 bg-gray-50 rounded border border-gray-200">
-                      <p className="font-medium text-sm text-gray-800">📊 Conflict Summary:</p>
-                      <div className="grid grid-cols-2 gap-2 text-xs mt-2">
-                        <div className="bg-white p-2 rounded">
-                          <div className="font-medium text-gray-600">Entity Name</div>
-                          <div className="text-gray-800">{supplierValidation.conflictData.entityName}</div>
-                        </div>
-                        <div className="bg-white p-2 rounded">
-                          <div className="font-medium text-gray-600">Customer Invoices</div>
-                          <div className="text-gray-800">{supplierValidation.conflictData.customerInvoiceCount}</div>
-                        </div>
-                      </div>
-                    </div>
-                  )}
-                </div>
-              )}
-            </div>
-          )}
-
-          {/* Create New Supplier Form */}
-          {showCreateSupplier && (
-            <Card className="border-blue-500 bg-blue-50">
-              <CardHeader>
-                <CardTitle className="flex items-center justify-between text-blue-700">
-                  <span className="flex items-center gap-2">
-                    <User className="h-4 w-4" />
-                    Create New Supplier
-                  </span>
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => {
-                      setShowCreateSupplier(false);
-                      setNewSupplierData({
-                        name: '',
-                        email: '',
-                        phone: '',
-                        address: '',
-                        city: '',
-                        country: ''
-                      });
-                    }}
-                  >
-                    ✕
-                  </Button>
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="new_supplier_name">Supplier Name *</Label>
-                    <Input
-                      id="new_supplier_name"
-                      value={newSupplierData.name}
-                      onChange={(e) => setNewSupplierData(prev => ({ ...prev, name: e.target.value }))}
-                      placeholder="Enter supplier name"
-                      disabled={isCreatingSupplier}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="new_supplier_email">Email</Label>
-                    <Input
-                      id="new_supplier_email"
-                      type="email"
-                      value={newSupplierData.email}
-                      onChange={(e) => setNewSupplierData(prev => ({ ...prev, email: e.target.value }))}
-                      placeholder="supplier@example.com"
-                      disabled={isCreatingSupplier}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="new_supplier_phone">Phone</Label>
-                    <Input
-                      id="new_supplier_phone"
-                      value={newSupplierData.phone}
-                      onChange={(e) => setNewSupplierData(prev => ({ ...prev, phone: e.target.value }))}
-                      placeholder="+254 700 000000"
-                      disabled={isCreatingSupplier}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="new_supplier_city">City</Label>
-                    <Input
-                      id="new_supplier_city"
-                      value={newSupplierData.city}
-                      onChange={(e) => setNewSupplierData(prev => ({ ...prev, city: e.target.value }))}
-                      placeholder="Nairobi"
-                      disabled={isCreatingSupplier}
-                    />
-                  </div>
-                  <div className="space-y-2 md:col-span-2">
-                    <Label htmlFor="new_supplier_address">Address</Label>
-                    <Input
-                      id="new_supplier_address"
-                      value={newSupplierData.address}
-                      onChange={(e) => setNewSupplierData(prev => ({ ...prev, address: e.target.value }))}
-                      placeholder="Street address"
-                      disabled={isCreatingSupplier}
-                    />
-                  </div>
-                </div>
-                <div className="flex justify-end gap-2 mt-4">
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={() => {
-                      setShowCreateSupplier(false);
-                      setNewSupplierData({
-                        name: '',
-                        email: '',
-                        phone: '',
-                        address: '',
-                        city: '',
-                        country: ''
-                      });
-                    }}
-                    disabled={isCreatingSupplier}
-                  >
-                    Cancel
-                  </Button>
-                  <Button
-                    type="button"
-                    onClick={handleCreateNewSupplier}
-                    disabled={isCreatingSupplier || !newSupplierData.name.trim()}
-                  >
-                    {isCreatingSupplier ? 'Creating...' : 'Create Supplier'}
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
-          )}
+          <DocumentCurrencyFields
+            value={documentCurrency.value}
+            onChange={documentCurrency.setValue}
+            documentDate={formData.lpo_date}
+          />
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
@@ -887,7 +516,7 @@ export const CreateLPOModal = ({
                             />
                           </TableCell>
                           <TableCell className="font-medium">
-                            KES {item.line_total.toFixed(2)}
+                            {documentCurrency.value.currency} {item.line_total.toFixed(2)}
                           </TableCell>
                           <TableCell>
                             <Button
@@ -910,15 +539,15 @@ export const CreateLPOModal = ({
                     <div className="w-64 space-y-2">
                       <div className="flex justify-between">
                         <span>Subtotal:</span>
-                        <span>KES {subtotal.toFixed(2)}</span>
+                        <span>{documentCurrency.value.currency} {subtotal.toFixed(2)}</span>
                       </div>
                       <div className="flex justify-between">
                         <span>Tax:</span>
-                        <span>KES {totalTax.toFixed(2)}</span>
+                        <span>{documentCurrency.value.currency} {totalTax.toFixed(2)}</span>
                       </div>
                       <div className="flex justify-between font-bold text-lg border-t pt-2">
                         <span>Total:</span>
-                        <span>KES {totalAmount.toFixed(2)}</span>
+                        <span>{documentCurrency.value.currency} {totalAmount.toFixed(2)}</span>
                       </div>
                     </div>
                   </div>
@@ -961,6 +590,12 @@ export const CreateLPOModal = ({
           </DialogFooter>
         </form>
       </DialogContent>
+
+      <CreateSupplierModal
+        open={showCreateSupplier}
+        onOpenChange={setShowCreateSupplier}
+        onSuccess={(supplier) => handleSupplierChange(supplier.id)}
+      />
     </Dialog>
   );
 };
@@ -28,9 +28,12 @@ import {
   Package,
   Edit
 } from 'lucide-react';
-import { useUpdateLPOWithItems, useAllSuppliersAndCustomers, useProducts, useCompanies } from '@/hooks/useDatabase';
+import { useUpdateLPOWithItems, useSuppliers, useProducts } from '@/hooks/useDatabase';
 import { toast } from 'sonner';
 import { validateLPOEdit } from '@/utils/lpoValidation';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { useDocumentCurrency } from '@/hooks/useExchangeRates';
+import { DocumentCurrencyFields } from '@/components/currency/DocumentCurrencyFields';
 
 interface LPOItem {
   id: string;
@@ -70,15 +73,17 @@ export const EditLPOModal = ({
     status: 'draft',
   });
 
+  const documentCurrency = useDocumentCurrency();
+  const { reset: resetDocumentCurrency } = documentCurrency;
   const [items, setItems] = useState<LPOItem[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [showProductSearch, setShowProductSearch] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const { data: companies } = useCompanies();
-  const currentCompany = companies?.[0];
-  const { data: supplierData } = useAllSuppliersAndCustomers(currentCompany?.id);
-  const suppliers = supplierData?.all || [];
+  const { currentCompany } = useCurrentCompany();
+  const { data: allSuppliers } = useSuppliers(currentCompany?.id);
+  // Inactive suppliers are hidden unless already on this LPO
+  const suppliers = allSuppliers?.filter(s => s.is_active !== false || s.id === lpo?.supplier_id) || [];
   const { data: products } = useProducts(currentCompany?.id);
   const updateLPOWithItems = useUpdateLPOWithItems();
 
@@ -95,6 +100,7 @@ export const EditLPOModal = ({
         terms_and_conditions: lpo.terms_and_conditions || '',
         status: lpo.status || 'draft',
       });
+      resetDocumentCurrency(lpo);
 
       if (lpo.lpo_items) {
         const lpoItems: LPOItem[] = lpo.lpo_items.map((item: any) => ({
@@ -112,7 +118,7 @@ export const EditLPOModal = ({
         setItems(lpoItems);
       }
     }
-  }, [lpo, open]);
+  }, [lpo, open, resetDocumentCurrency]);
 
   const filteredProducts = products?.filter(product =>
     product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -197,6 +203,7 @@ export const EditLPOModal = ({
         supplier_id: formData.supplier_id,
         lpo_date: formData.lpo_date,
         delivery_date: formData.delivery_date || null,
+        ...documentCurrency.columns,
         status: formData.status,
         subtotal,
         tax_amount: totalTax,
@@ -280,7 +287,7 @@ export const EditLPOModal = ({
                 <SelectContent>
                   {suppliers?.map((supplier) => (
                     <SelectItem key={supplier.id} value={supplier.id}>
-                      {supplier.name}
+                      {supplier.name} ({supplier.supplier_code})
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -327,6 +334,12 @@ export const EditLPOModal = ({
             </div>
           </div>
 
+          <DocumentCurrencyFields
+            value={documentCurrency.value}
+            onChange={documentCurrency.setValue}
+            documentDate={formData.lpo_date}
+          />
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="contact_person">Contact Person</Label>
@@ -492,7 +505,7 @@ export const EditLPOModal = ({
                             />
                           </TableCell>
                           <TableCell className="font-medium">
-                            KES {item.line_total.toFixed(2)}
+                            {documentCurrency.value.currency} {item.line_total.toFixed(2)}
                           </TableCell>
                           <TableCell>
                             <Button
@@ -514,15 +527,15 @@ export const EditLPOModal = ({
                     <div className="w-64 space-y-2">
                       <div className="flex justify-between">
                         <span>Subtotal:</span>
-                        <span>KES {subtotal.toFixed(2)}</span>
+                        <span>{documentCurrency.value.currency} {subtotal.toFixed(2)}</span>
                       </div>
                       <div className="flex justify-between">
                         <span>Tax:</span>
-                        <span>KES {totalTax.toFixed(2)}</span>
+                        <span>{documentCurrency.value.currency} {totalTax.toFixed(2)}</span>
                       </div>
                       <div className="flex justify-between font-bold text-lg border-t pt-2">
                         <span>Total:</span>
-                        <span>KES {totalAmount.toFixed(2)}</span>
+                        <span>{documentCurrency.value.currency} {totalAmount.toFixed(2)}</span>
                       </div>
                     </div>
                   </div>
@@ -1,3 +1,4 @@
+import { useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -26,6 +27,12 @@ import {
   Phone,
   Edit
 } from 'lucide-react';
+import { useLPOReceipts, type LPO } from '@/hooks/useDatabase';
+import { summarizeLpoReceipts } from '@/utils/grnReceipts';
+import { isLPOLocked } from '@/utils/documentLocks';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AuditHistory } from '@/components/audit/AuditHistory';
+import { formatMoney } from '@/utils/currency';
 
 interface ViewLPOModalProps {
   open: boolean;
@@ -35,6 +42,7 @@ interface ViewLPOModalProps {
   onDownloadPDF?: (lpo: any) => void;
   onSendEmail?: (lpo: any) => void;
   onUpdateStatus?: (lpo: any, status: string) => void;
+  onReceiveGoods?: (lpo: LPO) => void;
 }
 
 export const ViewLPOModal = ({ 
@@ -44,8 +52,15 @@ export const ViewLPOModal = ({
   onEdit,
   onDownloadPDF,
   onSendEmail,
-  onUpdateStatus
+  onUpdateStatus,
+  onReceiveGoods
 }: ViewLPOModalProps) => {
+  const { data: receivedItems } = useLPOReceipts(open ? lpo?.id : undefined);
+  const receivedByItem = useMemo(
+    () => new Map(summarizeLpoReceipts(lpo?.lpo_items || [], receivedItems || []).map(r => [r.lpo_item_id, r.received])),
+    [lpo?.lpo_items, receivedItems]
+  );
+
   if (!lpo) return null;
 
   const getStatusBadge = (status: string) => {
@@ -56,6 +71,8 @@ export const ViewLPOModal = ({
         return <Badge variant="outline" className="bg-primary-light text-primary border-primary/20"><Send className="h-3 w-3 mr-1" />Sent</Badge>;
       case 'approved':
         return <Badge variant="outline" className="bg-success-light text-success border-success/20"><CheckCircle className="h-3 w-3 mr-1" />Approved</Badge>;
+      case 'partially_received':
+        return <Badge variant="outline" className="bg-warning-light text-warning border-warning/20"><Package className="h-3 w-3 mr-1" />Partially Received</Badge>;
       case 'received':
         return <Badge variant="outline" className="bg-success text-success-foreground"><Package className="h-3 w-3 mr-1" />Received</Badge>;
       case 'cancelled':
@@ -74,14 +91,7 @@ export const ViewLPOModal = ({
     });
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-KE', {
-      style: 'currency',
-      currency: 'KES',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(amount);
-  };
+  const formatCurrency = (amount: number) => formatMoney(amount, lpo?.currency || 'KES');
 
   const handleDownload = () => {
     onDownloadPDF?.(lpo);
@@ -99,7 +109,9 @@ export const ViewLPOModal = ({
     const statusFlow = {
       'draft': ['sent', 'cancelled'],
       'sent': ['approved', 'cancelled'],
-      'approved': ['received', 'cancelled'],
+      // Receiving is done through goods received notes, which move the status on automatically
+      'approved': ['cancelled'],
+      'partially_received': ['cancelled'],
       'received': [],
       'cancelled': []
     };
@@ -119,207 +131,224 @@ export const ViewLPOModal = ({
           </DialogDescription>
         </DialogHeader>
 
-        <div className="space-y-6">
-          {/* Header Information */}
-          <Card>
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <CardTitle className="flex items-center gap-2">
-                  <FileText className="h-4 w-4" />
-                  Purchase Order Details
-                </CardTitle>
-                {getStatusBadge(lpo.status)}
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">LPO Number</p>
-                  <p className="text-sm">{lpo.lpo_number}</p>
-                </div>
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">LPO Date</p>
-                  <p className="text-sm flex items-center gap-1">
-                    <Calendar className="h-3 w-3" />
-                    {formatDate(lpo.lpo_date)}
-                  </p>
-                </div>
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">Delivery Date</p>
-                  <p className="text-sm flex items-center gap-1">
-                    <Calendar className="h-3 w-3" />
-                    {formatDate(lpo.delivery_date)}
-                  </p>
-                </div>
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">Total Amount</p>
-                  <p className="text-sm font-bold text-primary">{formatCurrency(lpo.total_amount)}</p>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
+        <Tabs defaultValue="details">
+          <TabsList>
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
 
-          {/* Supplier and Contact Info */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {/* Supplier Information */}
-            {lpo.suppliers && (
+          <TabsContent value="details" className="space-y-4">
+            <div className="space-y-6">
+              {/* Header Information */}
               <Card>
                 <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <User className="h-4 w-4" />
-                    Supplier Information
-                  </CardTitle>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="flex items-center gap-2">
+                      <FileText className="h-4 w-4" />
+                      Purchase Order Details
+                    </CardTitle>
+                    {getStatusBadge(lpo.status)}
+                  </div>
                 </CardHeader>
                 <CardContent>
-                  <div className="space-y-2">
-                    <p className="font-medium">{lpo.suppliers.name}</p>
-                    {lpo.suppliers.email && (
-                      <p className="text-sm text-muted-foreground">{lpo.suppliers.email}</p>
-                    )}
-                    {lpo.suppliers.phone && (
-                      <p className="text-sm text-muted-foreground">{lpo.suppliers.phone}</p>
-                    )}
-                    {lpo.suppliers.address && (
-                      <p className="text-sm text-muted-foreground">{lpo.suppliers.address}</p>
-                    )}
-                  </div>
-                </CardContent>
-              </Card>
-            )}
-
-            {/* Delivery Information */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <MapPin className="h-4 w-4" />
-                  Delivery Information
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-2">
-                  {lpo.delivery_address && (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                     <div>
-                      <p className="text-sm font-medium text-muted-foreground">Delivery Address</p>
-                      <p className="text-sm whitespace-pre-wrap">{lpo.delivery_address}</p>
+                      <p className="text-sm font-medium text-muted-foreground">LPO Number</p>
+                      <p className="text-sm">{lpo.lpo_number}</p>
                     </div>
-                  )}
-                  {lpo.contact_person && (
                     <div>
-                      <p className="text-sm font-medium text-muted-foreground">Contact Person</p>
-                      <p className="text-sm">{lpo.contact_person}</p>
+                      <p className="text-sm font-medium text-muted-foreground">LPO Date</p>
+                      <p className="text-sm flex items-center gap-1">
+                        <Calendar className="h-3 w-3" />
+                        {formatDate(lpo.lpo_date)}
+                      </p>
                     </div>
-                  )}
-                  {lpo.contact_phone && (
                     <div>
-                      <p className="text-sm font-medium text-muted-foreground">Contact Phone</p>
+                      <p className="text-sm font-medium text-muted-foreground">Delivery Date</p>
                       <p className="text-sm flex items-center gap-1">
-                        <Phone className="h-3 w-3" />
-                        {lpo.contact_phone}
+                        <Calendar className="h-3 w-3" />
+                        {formatDate(lpo.delivery_date)}
                       </p>
                     </div>
-                  )}
-                </div>
-              </CardContent>
-            </Card>
-          </div>
-
-          {/* Items */}
-          {lpo.lpo_items && lpo.lpo_items.length > 0 && (
-            <Card>
-              <CardHeader>
-                <CardTitle>Items Ordered</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Product</TableHead>
-                      <TableHead>Description</TableHead>
-                      <TableHead>Quantity</TableHead>
-                      <TableHead>Unit Price</TableHead>
-                      <TableHead>Tax Rate</TableHead>
-                      <TableHead>Tax Amount</TableHead>
-                      <TableHead>Total</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {lpo.lpo_items.map((item: any) => (
-                      <TableRow key={item.id}>
-                        <TableCell className="font-medium">
-                          {item.products?.name || 'Unknown Product'}
-                          {item.products?.product_code && (
-                            <div className="text-xs text-muted-foreground">
-                              {item.products.product_code}
-                            </div>
-                          )}
-                        </TableCell>
-                        <TableCell>{item.description}</TableCell>
-                        <TableCell>
-                          {item.quantity} {item.products?.unit_of_measure || 'pcs'}
-                        </TableCell>
-                        <TableCell>{formatCurrency(item.unit_price)}</TableCell>
-                        <TableCell>{item.tax_rate}%</TableCell>
-                        <TableCell>{formatCurrency(item.tax_amount)}</TableCell>
-                        <TableCell className="font-medium">
-                          {formatCurrency(item.line_total)}
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Total Amount</p>
+                      <p className="text-sm font-bold text-primary">{formatCurrency(lpo.total_amount)}</p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
 
-                <Separator className="my-4" />
+              {/* Supplier and Contact Info */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {/* Supplier Information */}
+                {lpo.suppliers && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <User className="h-4 w-4" />
+                        Supplier Information
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="space-y-2">
+                        <p className="font-medium">{lpo.suppliers.name}</p>
+                        {lpo.suppliers.email && (
+                          <p className="text-sm text-muted-foreground">{lpo.suppliers.email}</p>
+                        )}
+                        {lpo.suppliers.phone && (
+                          <p className="text-sm text-muted-foreground">{lpo.suppliers.phone}</p>
+                        )}
+                        {lpo.suppliers.address && (
+                          <p className="text-sm text-muted-foreground">{lpo.suppliers.address}</p>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
 
-                {/* Totals Summary */}
-                <div className="flex justify-end">
-                  <div className="w-64 space-y-2">
-                    <div className="flex justify-between">
-                      <span>Subtotal:</span>
-                      <span>{formatCurrency(lpo.subtotal)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>Tax:</span>
-                      <span>{formatCurrency(lpo.tax_amount)}</span>
+                {/* Delivery Information */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <MapPin className="h-4 w-4" />
+                      Delivery Information
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-2">
+                      {lpo.delivery_address && (
+                        <div>
+                          <p className="text-sm font-medium text-muted-foreground">Delivery Address</p>
+                          <p className="text-sm whitespace-pre-wrap">{lpo.delivery_address}</p>
+                        </div>
+                      )}
+                      {lpo.contact_person && (
+                        <div>
+                          <p className="text-sm font-medium text-muted-foreground">Contact Person</p>
+                          <p className="text-sm">{lpo.contact_person}</p>
+                        </div>
+                      )}
+                      {lpo.contact_phone && (
+                        <div>
+                          <p className="text-sm font-medium text-muted-foreground">Contact Phone</p>
+                          <p className="text-sm flex items-center gap-1">
+                            <Phone className="h-3 w-3" />
+                            {lpo.contact_phone}
+                          </p>
+                        </div>
+                      )}
                     </div>
-                    <div className="flex justify-between font-bold text-lg border-t pt-2">
-                      <span>Total:</span>
-                      <span>{formatCurrency(lpo.total_amount)}</span>
+                  </CardContent>
+                </Card>
+              </div>
+
+              {/* Items */}
+              {lpo.lpo_items && lpo.lpo_items.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Items Ordered</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Product</TableHead>
+                          <TableHead>Description</TableHead>
+                          <TableHead>Quantity</TableHead>
+                          <TableHead>Received</TableHead>
+                          <TableHead>Unit Price</TableHead>
+                          <TableHead>Tax Rate</TableHead>
+                          <TableHead>Tax Amount</TableHead>
+                          <TableHead>Total</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {lpo.lpo_items.map((item: any) => (
+                          <TableRow key={item.id}>
+                            <TableCell className="font-medium">
+                              {item.products?.name || 'Unknown Product'}
+                              {item.products?.product_code && (
+                                <div className="text-xs text-muted-foreground">
+                                  {item.products.product_code}
+                                </div>
+                              )}
+                            </TableCell>
+                            <TableCell>{item.description}</TableCell>
+                            <TableCell>
+                              {item.quantity} {item.products?.unit_of_measure || 'pcs'}
+                            </TableCell>
+                            <TableCell className={(receivedByItem.get(item.id) || 0) >= Number(item.quantity) ? 'text-success' : ''}>
+                              {receivedByItem.get(item.id) || 0}
+                            </TableCell>
+                            <TableCell>{formatCurrency(item.unit_price)}</TableCell>
+                            <TableCell>{item.tax_rate}%</TableCell>
+                            <TableCell>{formatCurrency(item.tax_amount)}</TableCell>
+                            <TableCell className="font-medium">
+                              {formatCurrency(item.line_total)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+
+                    <Separator className="my-4" />
+
+                    {/* Totals Summary */}
+                    <div className="flex justify-end">
+                      <div className="w-64 space-y-2">
+                        <div className="flex justify-between">
+                          <span>Subtotal:</span>
+                          <span>{formatCurrency(lpo.subtotal)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span>Tax:</span>
+                          <span>{formatCurrency(lpo.tax_amount)}</span>
+                        </div>
+                        <div className="flex justify-between font-bold text-lg border-t pt-2">
+                          <span>Total:</span>
+                          <span>{formatCurrency(lpo.total_amount)}</span>
+                        </div>
+                      </div>
                     </div>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          )}
+                  </CardContent>
+                </Card>
+              )}
 
-          {/* Notes and Terms */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {lpo.notes && (
-              <Card>
-                <CardHeader>
-                  <CardTitle className="text-sm">Notes</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <p className="text-sm text-muted-foreground whitespace-pre-wrap">
-                    {lpo.notes}
-                  </p>
-                </CardContent>
-              </Card>
-            )}
-            
-            {lpo.terms_and_conditions && (
-              <Card>
-                <CardHeader>
-                  <CardTitle className="text-sm">Terms & Conditions</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <p className="text-sm text-muted-foreground whitespace-pre-wrap">
-                    {lpo.terms_and_conditions}
-                  </p>
-                </CardContent>
-              </Card>
-            )}
-          </div>
-        </div>
+              {/* Notes and Terms */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {lpo.notes && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-sm">Notes</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                        {lpo.notes}
+                      </p>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {lpo.terms_and_conditions && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-sm">Terms & Conditions</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                        {lpo.terms_and_conditions}
+                      </p>
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="history">
+            <AuditHistory entityType="lpos" entityId={lpo.id} />
+          </TabsContent>
+        </Tabs>
 
         <DialogFooter>
           <div className="flex flex-wrap gap-2 w-full justify-between">
@@ -345,14 +374,14 @@ export const ViewLPOModal = ({
                   Approve
                 </Button>
               )}
-              {canUpdateToStatus('received') && (
+              {(lpo.status === 'approved' || lpo.status === 'partially_received') && onReceiveGoods && (
                 <Button 
                   variant="outline" 
-                  onClick={() => handleStatusUpdate('received')}
+                  onClick={() => onReceiveGoods(lpo)}
                   className="bg-success text-success-foreground"
                 >
                   <Package className="h-4 w-4 mr-2" />
-                  Mark as Received
+                  Receive Goods
                 </Button>
               )}
               {canUpdateToStatus('cancelled') && (
@@ -377,10 +406,12 @@ export const ViewLPOModal = ({
                 <Send className="h-4 w-4 mr-2" />
                 Send Email
               </Button>
-              <Button variant="outline" onClick={onEdit}>
-                <Edit className="h-4 w-4 mr-2" />
-                Edit
-              </Button>
+              {!isLPOLocked(lpo) && (
+                <Button variant="outline" onClick={onEdit}>
+                  <Edit className="h-4 w-4 mr-2" />
+                  Edit
+                </Button>
+              )}
               <Button variant="outline" onClick={() => onOpenChange(false)}>
                 Close
               </Button>
@@ -0,0 +1,251 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FileUp, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useImportMpesaStatement, type MpesaTransaction } from '@/hooks/useMpesa';
+import {
+  matchAccountReference,
+  readMpesaStatementFile,
+  type MatchCustomer,
+  type MatchInvoice,
+  type ParsedMpesaStatement,
+} from '@/utils/mpesaImport';
+
+type RecordedPayment = { id: string; payment_number: string; reference_number?: string | null };
+
+interface ImportMpesaStatementModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  companyId: string;
+  paybillNumber?: string | null;
+  transactions: MpesaTransaction[];   // receipts already on file
+  payments: RecordedPayment[];
+  invoices: MatchInvoice[];
+  customers: Array<MatchCustomer & { name: string }>;
+}
+
+const PREVIEW_ROWS = 50;
+
+export function ImportMpesaStatementModal({
+  open,
+  onOpenChange,
+  companyId,
+  paybillNumber,
+  transactions,
+  payments,
+  invoices,
+  customers
+}: ImportMpesaStatementModalProps) {
+  const { profile } = useAuth();
+  const importStatement = useImportMpesaStatement();
+  const [statement, setStatement] = useState<ParsedMpesaStatement | null>(null);
+  const [reading, setReading] = useState(false);
+
+  const formatCurrency = (amount: number) => new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES' }).format(amount);
+
+  const onFile = useMemo(() => new Set(transactions.map(t => t.receipt_number.toUpperCase())), [transactions]);
+  const paymentByReference = useMemo(() => {
+    const map = new Map<string, RecordedPayment>();
+    payments.forEach(p => { if (p.reference_number) map.set(String(p.reference_number).toUpperCase(), p); });
+    return map;
+  }, [payments]);
+
+  const paybillMismatch = !!(statement?.paybill_number && paybillNumber && statement.paybill_number !== paybillNumber);
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setReading(true);
+    try {
+      setStatement(await readMpesaStatementFile(file));
+    } catch (err) {
+      console.error('Failed to read M-Pesa statement', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to read file');
+      setStatement(null);
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!statement || statement.receipts.length === 0) { toast.error('Nothing to import'); return; }
+
+    try {
+      const result = await importStatement.mutateAsync({
+        companyId,
+        receipts: statement.receipts,
+        paybillNumber: statement.paybill_number || paybillNumber,
+        importedBy: profile?.id || null,
+      });
+      const notes = [
+        result.duplicates > 0 ? `${result.duplicates} already recorded as payments were flagged as duplicates.` : '',
+        result.skipped > 0 ? `${result.skipped} already imported were skipped.` : '',
+      ].filter(Boolean).join(' ');
+      toast.success(`Imported ${result.imported} M-Pesa receipt${result.imported === 1 ? '' : 's'}`, notes ? { description: notes } : undefined);
+      setStatement(null);
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Failed to import M-Pesa statement', err);
+      toast.error((err as { message?: string })?.message || 'Failed to import M-Pesa statement');
+    }
+  };
+
+  const total = statement?.receipts.reduce((sum, r) => sum + r.amount, 0) || 0;
+  const matched = statement?.receipts.filter(r => matchAccountReference(r.account_reference, invoices, customers).customer).length || 0;
+  const flagged = statement?.receipts.filter(r => onFile.has(r.receipt_number) || paymentByReference.has(r.receipt_number)).length || 0;
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { if (!o) setStatement(null); onOpenChange(o); }}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <FileUp className="h-5 w-5 text-primary" />
+            <span>Import M-Pesa Statement</span>
+          </DialogTitle>
+          <DialogDescription>
+            Upload the paybill statement CSV from the M-Pesa org portal. Account references are matched to invoice numbers and customer codes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div>
+            <Label>Statement File</Label>
+            <Input type="file" accept=".csv" disabled={reading} onChange={e => handleFile(e.target.files?.[0])} />
+            {reading && <p className="text-sm text-muted-foreground mt-1">Reading file...</p>}
+          </div>
+
+          {statement && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <span className="text-muted-foreground">Paybill</span>
+                  <div className="font-medium">{statement.paybill_number || paybillNumber || '-'}</div>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Receipts</span>
+                  <div className="font-medium text-success">
+                    {statement.receipts.length} • {formatCurrency(total)}
+                  </div>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Matched</span>
+                  <div className="font-medium">{matched} of {statement.receipts.length}</div>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Duplicates</span>
+                  <div className={`font-medium ${flagged + statement.duplicate_receipts.length > 0 ? 'text-warning' : ''}`}>
+                    {flagged + statement.duplicate_receipts.length}
+                  </div>
+                </div>
+              </div>
+
+              {paybillMismatch && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    This statement is for paybill {statement.paybill_number}, but the company collects on {paybillNumber}.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {(statement.errors.length > 0 || statement.duplicate_receipts.length > 0) && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    {statement.duplicate_receipts.length > 0 && (
+                      <p>
+                        Receipt{statement.duplicate_receipts.length === 1 ? '' : 's'} {statement.duplicate_receipts.slice(0, 5).join(', ')} appear more than once in the file and will be imported once.
+                      </p>
+                    )}
+                    {statement.errors.length > 0 && (
+                      <>
+                        {statement.errors.length} row{statement.errors.length === 1 ? '' : 's'} could not be read and will be left out:
+                        <ul className="list-disc ml-5 mt-1">
+                          {statement.errors.slice(0, 5).map((e, i) => (
+                            <li key={i}>Row {e.row}: {e.reason}</li>
+                          ))}
+                        </ul>
+                      </>
+                    )}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Receipt</TableHead>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Payer</TableHead>
+                    <TableHead>Account</TableHead>
+                    <TableHead>Match</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statement.receipts.slice(0, PREVIEW_ROWS).map((receipt) => {
+                    const match = matchAccountReference(receipt.account_reference, invoices, customers);
+                    const existingPayment = paymentByReference.get(receipt.receipt_number);
+                    return (
+                      <TableRow key={receipt.receipt_number}>
+                        <TableCell className="font-medium">
+                          {receipt.receipt_number}
+                          {onFile.has(receipt.receipt_number) ? (
+                            <Badge variant="outline" className="ml-2 bg-muted text-muted-foreground border-muted-foreground/20">Already imported</Badge>
+                          ) : existingPayment && (
+                            <Badge variant="outline" className="ml-2 bg-warning-light text-warning border-warning/20">
+                              Duplicate of {existingPayment.payment_number}
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>{new Date(receipt.transaction_time).toLocaleString()}</TableCell>
+                        <TableCell>
+                          <div>{receipt.payer_name || '-'}</div>
+                          {receipt.payer_phone && <div className="text-sm text-muted-foreground">{receipt.payer_phone}</div>}
+                        </TableCell>
+                        <TableCell>{receipt.account_reference || '-'}</TableCell>
+                        <TableCell>
+                          {match.invoice ? match.invoice.invoice_number
+                            : match.customer ? `${match.customer.name} (credit)`
+                            : <span className="text-muted-foreground">No match</span>}
+                        </TableCell>
+                        <TableCell className="text-right font-medium text-success">{formatCurrency(receipt.amount)}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              {statement.receipts.length > PREVIEW_ROWS && (
+                <p className="text-sm text-muted-foreground">
+                  Showing the first {PREVIEW_ROWS} of <Badge variant="outline">{statement.receipts.length}</Badge> receipts.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={importStatement.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={importStatement.isPending || !statement || statement.receipts.length === 0}>
+            {importStatement.isPending ? 'Importing...' : `Import ${statement?.receipts.length || 0} Receipts`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -20,6 +20,14 @@ import {
 } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
 import { 
   DollarSign,
   CreditCard,
@@ -30,30 +38,67 @@ import {
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { parseErrorMessageWithCodes } from '@/utils/errorHelpers';
-import { useCreatePayment } from '@/hooks/useDatabase';
+import { useCreatePayment, useCustomers } from '@/hooks/useDatabase';
 import { useInvoicesFixed as useInvoices } from '@/hooks/useInvoicesFixed';
 import { useCurrentCompany } from '@/contexts/CompanyContext';
 import { PaymentAllocationQuickFix } from './PaymentAllocationQuickFix';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { DocumentCurrencyFields } from '@/components/currency/DocumentCurrencyFields';
+import {
+  baseCurrencyOf,
+  documentCurrency,
+  formatMoney,
+  rateOn,
+  realisedFxGainLoss,
+  type DocumentCurrencyValue
+} from '@/utils/currency';
+import {
+  autoAllocateOldestFirst,
+  invoiceOpenBalance,
+  openInvoicesForCredit,
+  validateCreditAllocations
+} from '@/utils/customerCredit';
+
+// Select value for a payment taken before there is an invoice to pay (a deposit)
+const NO_INVOICE = '__deposit__';
+// Select value for one payment spread over several of the customer's invoices
+const SPLIT = '__split__';
 
 interface RecordPaymentModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSuccess: () => void;
   invoice?: any;
+  // Starting values taken from elsewhere, e.g. a bank statement line being recorded as a payment
+  prefill?: {
+    amount: number;
+    payment_date: string;
+    payment_method?: string;
+    reference_number?: string;
+    notes?: string;
+  };
+  onRecorded?: (paymentId: string) => void;
 }
 
-export function RecordPaymentModal({ open, onOpenChange, onSuccess, invoice }: RecordPaymentModalProps) {
-  const [paymentData, setPaymentData] = useState({
+export function RecordPaymentModal({ open, onOpenChange, onSuccess, invoice, prefill, onRecorded }: RecordPaymentModalProps) {
+  const initialPaymentData = () => ({
     invoice_id: invoice?.id || '',
-    amount: invoice?.balance_due || 0,
-    payment_date: new Date().toISOString().split('T')[0],
-    payment_method: 'bank_transfer',
-    reference_number: '',
-    notes: '',
-    customer_name: invoice?.customers?.name || ''
+    amount: prefill?.amount ?? (invoice?.balance_due || 0),
+    payment_date: prefill?.payment_date || new Date().toISOString().split('T')[0],
+    payment_method: prefill?.payment_method || 'bank_transfer',
+    reference_number: prefill?.reference_number || '',
+    notes: prefill?.notes || '',
+    customer_name: invoice?.customers?.name || '',
+    customer_id: invoice?.customer_id || ''
   });
+  const [paymentData, setPaymentData] = useState(initialPaymentData);
+  // Per-invoice amounts for a split payment, keyed by invoice id
+  const [splitAmounts, setSplitAmounts] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [allocationFailed, setAllocationFailed] = useState(false);
+  // Currency picked for a deposit or split payment, and a rate typed over the one on file
+  const [chosenCurrency, setChosenCurrency] = useState<string | null>(null);
+  const [enteredRate, setEnteredRate] = useState<number | null | undefined>(undefined);
 
   // Reset allocation failed state when modal closes
   useEffect(() => {
@@ -65,22 +110,16 @@ export function RecordPaymentModal({ open, onOpenChange, onSuccess, invoice }: R
   // Fetch all available invoices for selection
   const { currentCompany } = useCurrentCompany();
   const { data: invoices = [] } = useInvoices(currentCompany?.id);
+  const { data: customers = [] } = useCustomers(currentCompany?.id);
+  const { data: rates = [] } = useExchangeRates(currentCompany?.id);
   const createPaymentMutation = useCreatePayment();
+  const baseCurrency = baseCurrencyOf(currentCompany);
   
   // Include all invoices for manual payment adjustments (including fully paid ones)
   const availableInvoices = invoices.filter(inv =>
     inv.total_amount !== null && inv.total_amount !== undefined
   );
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-KE', {
-      style: 'currency',
-      currency: 'KES',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(amount);
-  };
-
   const handleInputChange = (field: string, value: any) => {
     setPaymentData(prev => ({
       ...prev,
@@ -88,26 +127,114 @@ export function RecordPaymentModal({ open, onOpenChange, onSuccess, invoice }: R
     }));
   };
 
+  const isDeposit = paymentData.invoice_id === NO_INVOICE;
+  const isSplit = paymentData.invoice_id === SPLIT;
+  const hasTarget = isDeposit || isSplit ? !!paymentData.customer_id : !!paymentData.invoice_id;
+  const selectedInvoiceForDisplay = invoice || availableInvoices.find(inv => inv.id === paymentData.invoice_id);
+
+  // A payment against one invoice is in that invoice's currency; deposits and split payments are in
+  // the one chosen. The rate is the one on file for the payment date unless another is entered.
+  const paymentCurrency = !isDeposit && !isSplit && selectedInvoiceForDisplay
+    ? documentCurrency(selectedInvoiceForDisplay, baseCurrency)
+    : chosenCurrency || baseCurrency;
+  const currencyValue: DocumentCurrencyValue = {
+    currency: paymentCurrency,
+    exchange_rate: enteredRate !== undefined ? enteredRate : rateOn(rates, paymentCurrency, paymentData.payment_date, baseCurrency),
+  };
+  const handleCurrencyChange = (value: DocumentCurrencyValue) => {
+    if (value.currency !== currencyValue.currency) setSplitAmounts({});
+    setEnteredRate(value.currency === currencyValue.currency ? value.exchange_rate : undefined);
+    setChosenCurrency(value.currency);
+  };
+
+  const formatCurrency = (amount: number) => formatMoney(amount, paymentCurrency);
+
+  const customerOpenInvoices = useMemo(
+    () => openInvoicesForCredit(invoices.filter(inv =>
+      inv.customer_id === paymentData.customer_id && documentCurrency(inv, baseCurrency) === paymentCurrency)),
+    [invoices, paymentData.customer_id, baseCurrency, paymentCurrency]
+  );
+  const splitAllocations = Object.entries(splitAmounts)
+    .map(([invoice_id, value]) => ({ invoice_id, amount: Number(value) || 0 }))
+    .filter(a => a.amount !== 0);
+  const splitTotal = Math.round(splitAllocations.reduce((sum, a) => sum + a.amount, 0) * 100) / 100;
+  const splitError = isSplit && splitAllocations.length > 0
+    ? validateCreditAllocations(splitAllocations, paymentData.amount, customerOpenInvoices)
+    : null;
+  const selectedInvoiceBalance = selectedInvoiceForDisplay
+    ? selectedInvoiceForDisplay.balance_due || (selectedInvoiceForDisplay.total_amount || 0) - (selectedInvoiceForDisplay.paid_amount || 0)
+    : 0;
+  // Part of the payment that is not allocated and stays with the customer as credit
+  const creditRemainder = isDeposit
+    ? Math.max(0, paymentData.amount)
+    : isSplit
+      ? Math.max(0, paymentData.amount - splitTotal)
+      : Math.max(0, paymentData.amount - Math.max(0, selectedInvoiceBalance));
+  // Exchange difference on the part of the payment that settles the selected invoice
+  const fxDifference = !isDeposit && !isSplit && selectedInvoiceForDisplay && paymentCurrency !== baseCurrency && currencyValue.exchange_rate
+    ? realisedFxGainLoss(
+        Math.min(Math.max(0, paymentData.amount), Math.max(0, selectedInvoiceBalance)),
+        currencyValue.exchange_rate,
+        Number(selectedInvoiceForDisplay.exchange_rate || 1))
+    : 0;
+
+  const selectCustomer = (customerId: string) => {
+    handleInputChange('customer_id', customerId);
+    handleInputChange('customer_name', customers.find(c => c.id === customerId)?.name || '');
+    setSplitAmounts({});
+  };
+
+  const handleAutoAllocate = () => {
+    const next: Record<string, string> = {};
+    autoAllocateOldestFirst(paymentData.amount, customerOpenInvoices).forEach(a => {
+      next[a.invoice_id] = a.amount.toFixed(2);
+    });
+    setSplitAmounts(next);
+  };
+
+  // Opened from an invoice: keep that invoice's balance and let the rest go to other invoices
+  const startSplitFromInvoice = () => {
+    handleInputChange('invoice_id', SPLIT);
+    setChosenCurrency(paymentCurrency);
+    setSplitAmounts(invoice?.id ? { [invoice.id]: Math.min(paymentData.amount, Math.max(0, selectedInvoiceBalance)).toFixed(2) } : {});
+  };
+
   const handleSubmit = async () => {
-    // Validate that an invoice is selected
     if (!paymentData.invoice_id) {
-      toast.error('Please select an invoice. Payments can only be made against invoices.');
+      toast.error('Please select an invoice, or record the payment as a customer deposit.');
       return;
     }
 
-    if (!paymentData.amount || paymentData.amount === 0) {
-      toast.error('Please enter a valid payment amount (can be negative for refunds/adjustments)');
+    if (isDeposit && !paymentData.customer_id) {
+      toast.error('Please select the customer this deposit is from');
+      return;
+    }
+
+    if (isSplit && !paymentData.customer_id) {
+      toast.error('Please select the customer this payment is from');
+      return;
+    }
+
+    if ((isDeposit || isSplit) && paymentData.amount < 0) {
+      toast.error('Refunds and adjustments must be recorded against an invoice');
       return;
     }
 
-    const selectedInvoice = availableInvoices.find(inv => inv.id === paymentData.invoice_id);
-    const currentBalance = selectedInvoice?.balance_due || (selectedInvoice?.total_amount || 0) - (selectedInvoice?.paid_amount || 0);
+    if (isSplit) {
+      const validationError = validateCreditAllocations(splitAllocations, paymentData.amount, customerOpenInvoices);
+      if (validationError) {
+        toast.error(validationError);
+        return;
+      }
+    }
 
-    // Allow manual adjustments: warn about overpayments but don't prevent them
-    if (paymentData.amount > currentBalance && currentBalance > 0) {
-      console.warn(`Payment amount (${paymentData.amount}) exceeds outstanding balance (${currentBalance}) - this will create an overpayment`);
+    if (!paymentData.amount || paymentData.amount === 0) {
+      toast.error('Please enter a valid payment amount (can be negative for refunds/adjustments)');
+      return;
     }
 
+    const selectedInvoice = isDeposit || isSplit ? undefined : availableInvoices.find(inv => inv.id === paymentData.invoice_id);
+
     if (!paymentData.payment_method) {
       toast.error('Please select a payment method');
       return;
@@ -135,14 +262,17 @@ export function RecordPaymentModal({ open, onOpenChange, onSuccess, invoice }: R
 
       const paymentRecord = {
         company_id: selectedInvoice?.company_id || currentCompany.id,
-        customer_id: selectedInvoice?.customer_id || null,
-        invoice_id: paymentData.invoice_id, // Required for payment allocation
+        customer_id: isDeposit || isSplit ? paymentData.customer_id : selectedInvoice?.customer_id || null,
+        invoice_id: isDeposit || isSplit ? null : paymentData.invoice_id,
+        allocations: isSplit ? splitAllocations : undefined,
         payment_number: paymentNumber,
         payment_date: paymentData.payment_date,
         amount: paymentData.amount,
         payment_method: mapPaymentMethod(paymentData.payment_method),
         reference_number: paymentData.reference_number || paymentNumber,
-        notes: paymentData.notes
+        notes: paymentData.notes,
+        currency: currencyValue.currency,
+        exchange_rate: currencyValue.currency === baseCurrency ? 1 : currencyValue.exchange_rate
       };
 
       const result = await createPaymentMutation.mutateAsync(paymentRecord);
@@ -160,9 +290,14 @@ export function RecordPaymentModal({ open, onOpenChange, onSuccess, invoice }: R
           });
         }
       } else {
-        toast.success(`Payment of ${formatCurrency(paymentData.amount)} recorded successfully!`);
+        const unallocated = Number(result.unallocated_amount || 0);
+        const spread = isSplit ? ` across ${splitAllocations.length} invoice${splitAllocations.length === 1 ? '' : 's'}` : '';
+        toast.success(`Payment of ${formatCurrency(paymentData.amount)} recorded${spread} successfully!`, unallocated > 0 ? {
+          description: `${formatCurrency(unallocated)} is held as customer credit and can be allocated from the payment later.`
+        } : undefined);
         setAllocationFailed(false);
       }
+      if (result.payment_id) onRecorded?.(result.payment_id);
       onSuccess();
       onOpenChange(false);
       resetForm();
@@ -182,15 +317,10 @@ export function RecordPaymentModal({ open, onOpenChange, onSuccess, invoice }: R
   };
 
   const resetForm = () => {
-    setPaymentData({
-      invoice_id: invoice?.id || '',
-      amount: invoice?.balance_due || 0,
-      payment_date: new Date().toISOString().split('T')[0],
-      payment_method: 'bank_transfer',
-      reference_number: '',
-      notes: '',
-      customer_name: invoice?.customers?.name || ''
-    });
+    setPaymentData(initialPaymentData());
+    setSplitAmounts({});
+    setChosenCurrency(null);
+    setEnteredRate(undefined);
     setAllocationFailed(false);
   };
 
@@ -218,19 +348,9 @@ export function RecordPaymentModal({ open, onOpenChange, onSuccess, invoice }: R
             <span>Record Payment</span>
           </DialogTitle>
           <DialogDescription>
-            Record a payment against an invoice. All payments must be linked to an invoice.
+            Record a payment against one or several invoices, or take a deposit from a customer.
+            Anything not allocated to an invoice is kept as customer credit.
           </DialogDescription>
-          {!invoice && (
-            <div className="bg-warning-light border border-warning/20 rounded-lg p-3 mt-2">
-              <div className="flex items-center space-x-2">
-                <AlertTriangle className="h-4 w-4 text-warning" />
-                <span className="text-sm font-medium text-warning">Invoice Required</span>
-              </div>
-              <p className="text-xs text-warning mt-1">
-                Payments can only be recorded against existing invoices. Please select an invoice below.
-              </p>
-            </div>
-          )}
         </DialogHeader>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -251,20 +371,27 @@ export function RecordPaymentModal({ open, onOpenChange, onSuccess, invoice }: R
                     onValueChange={(value) => {
                       const selectedInv = availableInvoices.find(inv => inv.id === value);
                       handleInputChange('invoice_id', value);
-                      handleInputChange('amount', selectedInv?.balance_due || selectedInv?.total_amount || 0);
+                      setSplitAmounts({});
+                      setEnteredRate(undefined);
+                      // Switching to a split keeps the customer already chosen
+                      if (value === SPLIT) return;
+                      handleInputChange('amount', prefill?.amount ?? (selectedInv?.balance_due || selectedInv?.total_amount || 0));
                       handleInputChange('customer_name', selectedInv?.customers?.name || '');
+                      handleInputChange('customer_id', selectedInv?.customer_id || '');
                     }}
                   >
                     <SelectTrigger>
                       <SelectValue placeholder="Choose an invoice to pay" />
                     </SelectTrigger>
                     <SelectContent>
+                      <SelectItem value={NO_INVOICE}>No invoice (customer deposit / payment on account)</SelectItem>
+                      <SelectItem value={SPLIT}>Several invoices (split one payment)</SelectItem>
                       {availableInvoices.map((inv) => (
                         <SelectItem key={inv.id} value={inv.id}>
                           <div className="flex justify-between items-center w-full">
                             <span>{inv.invoice_number} - {inv.customers?.name}</span>
                             <span className="ml-2 text-sm text-muted-foreground">
-                              {formatCurrency(inv.balance_due || inv.total_amount || 0)}
+                              {formatMoney(inv.balance_due || inv.total_amount || 0, documentCurrency(inv, baseCurrency))}
                             </span>
                           </div>
                         </SelectItem>
@@ -278,8 +405,97 @@ export function RecordPaymentModal({ open, onOpenChange, onSuccess, invoice }: R
                   )}
                 </div>
               )}
-              
-              {(invoice || paymentData.invoice_id) && (() => {
+
+              {(isDeposit || (isSplit && !invoice)) && (
+                <div className="space-y-2">
+                  <Label htmlFor="deposit_customer">Customer *</Label>
+                  <Select
+                    value={paymentData.customer_id}
+                    onValueChange={selectCustomer}
+                  >
+                    <SelectTrigger id="deposit_customer">
+                      <SelectValue placeholder="Choose the paying customer" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {customers.map(customer => (
+                        <SelectItem key={customer.id} value={customer.id}>
+                          {customer.name} ({customer.customer_code})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {isDeposit && (
+                    <p className="text-xs text-muted-foreground">
+                      The full amount is held as credit on the customer's account and can be allocated to
+                      invoices later from the payment.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {isSplit && paymentData.customer_id && (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label>Allocate to Invoices</Label>
+                    <div className="flex items-center gap-2">
+                      {invoice && (
+                        <Button variant="ghost" size="sm" onClick={() => handleInputChange('invoice_id', invoice.id)}>
+                          Single Invoice
+                        </Button>
+                      )}
+                      {customerOpenInvoices.length > 0 && (
+                        <Button variant="outline" size="sm" onClick={handleAutoAllocate} disabled={paymentData.amount <= 0}>
+                          Auto-allocate Oldest First
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  {customerOpenInvoices.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      {paymentData.customer_name || 'This customer'} has no open invoices. Record the payment as a deposit instead.
+                    </p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Invoice</TableHead>
+                          <TableHead className="text-right">Balance Due</TableHead>
+                          <TableHead className="w-32">Amount</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {customerOpenInvoices.map(inv => (
+                          <TableRow key={inv.id}>
+                            <TableCell>
+                              <div className="font-medium">{inv.invoice_number}</div>
+                              <div className="text-xs text-muted-foreground">
+                                Due {inv.due_date ? new Date(inv.due_date).toLocaleDateString() : 'N/A'}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-right">{formatCurrency(invoiceOpenBalance(inv))}</TableCell>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                max={invoiceOpenBalance(inv)}
+                                value={splitAmounts[inv.id] ?? ''}
+                                onChange={(e) => setSplitAmounts(prev => ({ ...prev, [inv.id]: e.target.value }))}
+                                placeholder="0.00"
+                              />
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                  <div className={`text-xs ${splitError ? 'text-destructive' : 'text-muted-foreground'}`}>
+                    {splitError || `Allocating ${formatCurrency(splitTotal)} of ${formatCurrency(paymentData.amount)}`}
+                  </div>
+                </div>
+              )}
+
+              {(invoice || (paymentData.invoice_id && !isDeposit)) && !isSplit && (() => {
                 const displayInvoice = invoice || availableInvoices.find(inv => inv.id === paymentData.invoice_id);
                 return (
                   <>
@@ -322,6 +538,12 @@ export function RecordPaymentModal({ open, onOpenChange, onSuccess, invoice }: R
                         </div>
                       </div>
                     </div>
+
+                    {invoice && creditRemainder > 0 && customerOpenInvoices.some(inv => inv.id !== invoice.id) && (
+                      <Button variant="outline" size="sm" onClick={startSplitFromInvoice}>
+                        Split Across Other Invoices
+                      </Button>
+                    )}
                   </>
                 );
               })()}
@@ -339,7 +561,7 @@ export function RecordPaymentModal({ open, onOpenChange, onSuccess, invoice }: R
             <CardContent className="space-y-4">
               {/* Payment Amount */}
               <div className="space-y-2">
-                <Label htmlFor="amount">Payment Amount (KES) *</Label>
+                <Label htmlFor="amount">Payment Amount ({paymentCurrency}) *</Label>
                 <Input
                   id="amount"
                   type="number"
@@ -349,18 +571,25 @@ export function RecordPaymentModal({ open, onOpenChange, onSuccess, invoice }: R
                   max={undefined}
                   step="0.01"
                   placeholder="0.00"
-                  disabled={!paymentData.invoice_id}
+                  disabled={!hasTarget}
                 />
                 <div className="text-xs text-muted-foreground">
-                  {paymentData.invoice_id ? (
-                    <>Outstanding: {formatCurrency((() => {
-                      const selectedInv = invoice || availableInvoices.find(inv => inv.id === paymentData.invoice_id);
-                      return selectedInv?.balance_due || (selectedInv?.total_amount || 0) - (selectedInv?.paid_amount || 0);
-                    })())} • Use negative amounts for refunds/adjustments</>
+                  {isDeposit ? (
+                    'Deposit held as customer credit'
+                  ) : isSplit ? (
+                    'Total received; spread it over the invoices with their amounts'
+                  ) : paymentData.invoice_id ? (
+                    <>Outstanding: {formatCurrency(selectedInvoiceBalance)} • Use negative amounts for refunds/adjustments</>
                   ) : (
                     'Select an invoice first'
                   )}
                 </div>
+                {!isDeposit && !isSplit && paymentData.invoice_id && creditRemainder > 0 && (
+                  <div className="flex items-center space-x-2 text-xs text-warning">
+                    <AlertTriangle className="h-3 w-3" />
+                    <span>{formatCurrency(creditRemainder)} more than the balance will be kept as customer credit</span>
+                  </div>
+                )}
               </div>
 
               {/* Payment Date */}
@@ -374,6 +603,20 @@ export function RecordPaymentModal({ open, onOpenChange, onSuccess, invoice }: R
                 />
               </div>
 
+              <DocumentCurrencyFields
+                value={currencyValue}
+                onChange={handleCurrencyChange}
+                documentDate={paymentData.payment_date}
+                disabled={!hasTarget}
+                lockCurrency={!isDeposit && !isSplit}
+              />
+              {fxDifference !== 0 && (
+                <div className="text-xs text-muted-foreground">
+                  Realised exchange {fxDifference > 0 ? 'gain' : 'loss'} of {formatMoney(Math.abs(fxDifference), baseCurrency)} against
+                  the invoice rate of {Number(selectedInvoiceForDisplay?.exchange_rate || 1)}
+                </div>
+              )}
+
               {/* Payment Method */}
               <div className="space-y-2">
                 <Label htmlFor="payment_method">Payment Method *</Label>
@@ -434,7 +677,7 @@ export function RecordPaymentModal({ open, onOpenChange, onSuccess, invoice }: R
               </div>
 
               {/* Payment Summary */}
-              {paymentData.invoice_id && (
+              {hasTarget && (
                 <div className="border-t pt-4 bg-muted/50 p-4 rounded-lg">
                   <h4 className="font-medium mb-2">Payment Summary</h4>
                   <div className="space-y-1 text-sm">
@@ -442,16 +685,26 @@ export function RecordPaymentModal({ open, onOpenChange, onSuccess, invoice }: R
                       <span>Payment Amount:</span>
                       <span className="font-semibold">{formatCurrency(paymentData.amount)}</span>
                     </div>
-                    <div className="flex justify-between">
-                      <span>Remaining Balance:</span>
-                      <span className="font-semibold">
-                        {formatCurrency((() => {
-                          const selectedInv = invoice || availableInvoices.find(inv => inv.id === paymentData.invoice_id);
-                          const balance = selectedInv?.balance_due || selectedInv?.total_amount || 0;
-                          return Math.max(0, balance - paymentData.amount);
-                        })())}
-                      </span>
-                    </div>
+                    {isSplit && (
+                      <div className="flex justify-between">
+                        <span>Allocated to {splitAllocations.length} Invoice{splitAllocations.length === 1 ? '' : 's'}:</span>
+                        <span className="font-semibold">{formatCurrency(splitTotal)}</span>
+                      </div>
+                    )}
+                    {!isDeposit && !isSplit && (
+                      <div className="flex justify-between">
+                        <span>Remaining Balance:</span>
+                        <span className="font-semibold">
+                          {formatCurrency(Math.max(0, selectedInvoiceBalance - paymentData.amount))}
+                        </span>
+                      </div>
+                    )}
+                    {creditRemainder > 0 && (
+                      <div className="flex justify-between text-warning">
+                        <span>Customer Credit:</span>
+                        <span className="font-semibold">{formatCurrency(creditRemainder)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between">
                       <span>Payment Method:</span>
                       <div className="flex items-center space-x-1">
@@ -479,11 +732,11 @@ export function RecordPaymentModal({ open, onOpenChange, onSuccess, invoice }: R
           </Button>
           <Button
             onClick={handleSubmit}
-            disabled={isSubmitting || !paymentData.amount || paymentData.amount === 0 || !paymentData.invoice_id}
+            disabled={isSubmitting || !paymentData.amount || paymentData.amount === 0 || !hasTarget || !!splitError || (isSplit && splitAllocations.length === 0)}
             className="bg-success hover:bg-success/90"
           >
             <DollarSign className="h-4 w-4 mr-2" />
-            {isSubmitting ? 'Recording...' : !paymentData.invoice_id ? 'Select Invoice First' : paymentData.amount < 0 ? 'Record Adjustment/Refund' : 'Record Payment'}
+            {isSubmitting ? 'Recording...' : !paymentData.invoice_id ? 'Select Invoice First' : isDeposit ? 'Record Deposit' : isSplit ? 'Record Split Payment' : paymentData.amount < 0 ? 'Record Adjustment/Refund' : 'Record Payment'}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -1,5 +1,7 @@
+import { useEffect, useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import {
   Dialog,
   DialogContent,
@@ -20,8 +22,24 @@ import {
   DollarSign,
   FileText,
   CheckCircle,
-  Receipt
+  Receipt,
+  Wallet
 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AuditHistory } from '@/components/audit/AuditHistory';
+import { useAllocatePayment } from '@/hooks/useDatabase';
+import { useInvoicesFixed } from '@/hooks/useInvoicesFixed';
+import { usePermission } from '@/hooks/usePermissions';
+import {
+  autoAllocateOldestFirst,
+  invoiceOpenBalance,
+  openInvoicesForCredit,
+  paymentAllocatedAmount,
+  paymentUnallocatedAmount,
+  validateCreditAllocations
+} from '@/utils/customerCredit';
+import { formatMoney } from '@/utils/currency';
 
 interface PaymentAllocation {
   id: string;
@@ -32,9 +50,12 @@ interface PaymentAllocation {
 
 interface Payment {
   id: string;
+  company_id?: string;
+  customer_id?: string;
   payment_number: string;
   payment_date: string;
   amount: number;
+  currency?: string;
   payment_method: string;
   reference_number?: string;
   notes?: string;
@@ -61,6 +82,22 @@ export const ViewPaymentModal = ({
   onDownloadReceipt,
   onSendReceipt
 }: ViewPaymentModalProps) => {
+  const canRecordPayments = usePermission('payment.record');
+  const allocatePayment = useAllocatePayment();
+  const { data: invoices = [] } = useInvoicesFixed(open ? payment?.company_id : undefined);
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setAmounts({});
+  }, [payment?.id, open]);
+
+  const customerOpenInvoices = useMemo(
+    // Credit only settles invoices in the payment's own currency
+    () => openInvoicesForCredit(invoices.filter(inv =>
+      inv.customer_id === payment?.customer_id && (!payment?.currency || inv.currency === payment.currency))),
+    [invoices, payment?.customer_id, payment?.currency]
+  );
+
   if (!payment) return null;
 
   const getPaymentMethodBadge = (method: string) => {
@@ -82,14 +119,7 @@ export const ViewPaymentModal = ({
     return new Date(dateString).toLocaleDateString();
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-KE', {
-      style: 'currency',
-      currency: 'KES',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(amount);
-  };
+  const formatCurrency = (amount: number) => formatMoney(amount, payment.currency || 'KES');
 
   const handleDownload = () => {
     onDownloadReceipt?.(payment);
@@ -99,11 +129,38 @@ export const ViewPaymentModal = ({
     onSendReceipt?.(payment);
   };
 
-  const totalAllocated = payment.payment_allocations?.reduce((sum, allocation) => 
-    sum + allocation.allocated_amount, 0
-  ) || 0;
+  const totalAllocated = paymentAllocatedAmount(payment);
+  const unallocatedAmount = paymentUnallocatedAmount(payment);
+
+  const allocations = Object.entries(amounts)
+    .map(([invoice_id, value]) => ({ invoice_id, amount: Number(value) || 0 }))
+    .filter(a => a.amount !== 0);
+  const allocationTotal = allocations.reduce((sum, a) => sum + a.amount, 0);
 
-  const unallocatedAmount = payment.amount - totalAllocated;
+  const handleAutoAllocate = () => {
+    const next: Record<string, string> = {};
+    autoAllocateOldestFirst(unallocatedAmount, customerOpenInvoices).forEach(a => {
+      next[a.invoice_id] = a.amount.toFixed(2);
+    });
+    setAmounts(next);
+  };
+
+  const handleAllocate = async () => {
+    const validationError = validateCreditAllocations(allocations, unallocatedAmount, customerOpenInvoices);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    try {
+      const result = await allocatePayment.mutateAsync({ paymentId: payment.id, allocations });
+      toast.success(`${formatCurrency(result?.amount_allocated ?? allocationTotal)} allocated from payment ${payment.payment_number}`);
+      setAmounts({});
+    } catch (error) {
+      console.error('Error allocating payment:', error);
+      toast.error((error as { message?: string })?.message || 'Failed to allocate payment');
+    }
+  };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -118,188 +175,277 @@ export const ViewPaymentModal = ({
           </DialogDescription>
         </DialogHeader>
 
-        <div className="space-y-6">
-          {/* Payment Header Information */}
-          <Card>
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <CardTitle className="flex items-center gap-2">
-                  <CreditCard className="h-4 w-4" />
-                  Payment Details
-                </CardTitle>
-                <div className="flex items-center gap-2">
-                  {getPaymentMethodBadge(payment.payment_method)}
-                  <Badge variant="destructive">
-                    <CheckCircle className="h-3 w-3 mr-1" />
-                    Received
-                  </Badge>
-                </div>
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">Payment Number</p>
-                  <p className="text-sm font-mono">{payment.payment_number}</p>
-                </div>
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">Payment Date</p>
-                  <p className="text-sm flex items-center gap-1">
-                    <Calendar className="h-3 w-3" />
-                    {formatDate(payment.payment_date)}
-                  </p>
-                </div>
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">Amount (KES)</p>
-                  <p className="text-sm flex items-center gap-1 font-medium">
-                    <DollarSign className="h-3 w-3" />
-                    {formatCurrency(payment.amount)}
-                  </p>
-                </div>
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">Payment Method</p>
-                  <p className="text-sm">{payment.payment_method.replace('_', ' ')}</p>
-                </div>
-              </div>
+        <Tabs defaultValue="details">
+          <TabsList>
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
 
-              {payment.reference_number && (
-                <div className="mt-4 pt-4 border-t">
-                  <div>
-                    <p className="text-sm font-medium text-muted-foreground">Reference Number</p>
-                    <p className="text-sm font-mono">{payment.reference_number}</p>
+          <TabsContent value="details" className="space-y-4">
+            <div className="space-y-6">
+              {/* Payment Header Information */}
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="flex items-center gap-2">
+                      <CreditCard className="h-4 w-4" />
+                      Payment Details
+                    </CardTitle>
+                    <div className="flex items-center gap-2">
+                      {getPaymentMethodBadge(payment.payment_method)}
+                      <Badge variant="destructive">
+                        <CheckCircle className="h-3 w-3 mr-1" />
+                        Received
+                      </Badge>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Payment Number</p>
+                      <p className="text-sm font-mono">{payment.payment_number}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Payment Date</p>
+                      <p className="text-sm flex items-center gap-1">
+                        <Calendar className="h-3 w-3" />
+                        {formatDate(payment.payment_date)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Amount (KES)</p>
+                      <p className="text-sm flex items-center gap-1 font-medium">
+                        <DollarSign className="h-3 w-3" />
+                        {formatCurrency(payment.amount)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Payment Method</p>
+                      <p className="text-sm">{payment.payment_method.replace('_', ' ')}</p>
+                    </div>
                   </div>
-                </div>
-              )}
-            </CardContent>
-          </Card>
 
-          {/* Customer Information */}
-          {payment.customers && (
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <User className="h-4 w-4" />
-                  Customer Information
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-2">
-                  <p className="font-medium">{payment.customers.name}</p>
-                  {payment.customers.email && (
-                    <p className="text-sm text-muted-foreground">{payment.customers.email}</p>
-                  )}
-                  {payment.customers.phone && (
-                    <p className="text-sm text-muted-foreground">{payment.customers.phone}</p>
+                  {payment.reference_number && (
+                    <div className="mt-4 pt-4 border-t">
+                      <div>
+                        <p className="text-sm font-medium text-muted-foreground">Reference Number</p>
+                        <p className="text-sm font-mono">{payment.reference_number}</p>
+                      </div>
+                    </div>
                   )}
-                </div>
-              </CardContent>
-            </Card>
-          )}
+                </CardContent>
+              </Card>
 
-          {/* Payment Allocations */}
-          {payment.payment_allocations && payment.payment_allocations.length > 0 && (
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <FileText className="h-4 w-4" />
-                  Invoice Allocations
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Invoice Number</TableHead>
-                      <TableHead>Invoice Total</TableHead>
-                      <TableHead>Allocated Amount</TableHead>
-                      <TableHead>Remaining Balance</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {payment.payment_allocations.map((allocation) => (
-                      <TableRow key={allocation.id}>
-                        <TableCell className="font-medium">{allocation.invoice_number}</TableCell>
-                        <TableCell>{formatCurrency(allocation.invoice_total)}</TableCell>
-                        <TableCell className="font-medium text-success">
-                          {formatCurrency(allocation.allocated_amount)}
-                        </TableCell>
-                        <TableCell>
-                          {formatCurrency(allocation.invoice_total - allocation.allocated_amount)}
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
+              {/* Customer Information */}
+              {payment.customers && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <User className="h-4 w-4" />
+                      Customer Information
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-2">
+                      <p className="font-medium">{payment.customers.name}</p>
+                      {payment.customers.email && (
+                        <p className="text-sm text-muted-foreground">{payment.customers.email}</p>
+                      )}
+                      {payment.customers.phone && (
+                        <p className="text-sm text-muted-foreground">{payment.customers.phone}</p>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
 
-                <Separator className="my-4" />
+              {/* Payment Allocations */}
+              {payment.payment_allocations && payment.payment_allocations.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <FileText className="h-4 w-4" />
+                      Invoice Allocations
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Invoice Number</TableHead>
+                          <TableHead>Invoice Total</TableHead>
+                          <TableHead>Allocated Amount</TableHead>
+                          <TableHead>Remaining Balance</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {payment.payment_allocations.map((allocation) => (
+                          <TableRow key={allocation.id}>
+                            <TableCell className="font-medium">{allocation.invoice_number}</TableCell>
+                            <TableCell>{formatCurrency(allocation.invoice_total)}</TableCell>
+                            <TableCell className="font-medium text-success">
+                              {formatCurrency(allocation.allocated_amount)}
+                            </TableCell>
+                            <TableCell>
+                              {formatCurrency(allocation.invoice_total - allocation.allocated_amount)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
 
-                {/* Allocation Summary */}
-                <div className="space-y-2 max-w-sm ml-auto">
-                  <div className="flex justify-between">
-                    <span className="text-sm">Payment Amount:</span>
-                    <span className="text-sm font-medium">{formatCurrency(payment.amount)}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-sm">Allocated:</span>
-                    <span className="text-sm">{formatCurrency(totalAllocated)}</span>
-                  </div>
-                  {unallocatedAmount > 0 && (
-                    <div className="flex justify-between text-warning">
-                      <span className="text-sm">Unallocated:</span>
-                      <span className="text-sm font-medium">{formatCurrency(unallocatedAmount)}</span>
+                    <Separator className="my-4" />
+
+                    {/* Allocation Summary */}
+                    <div className="space-y-2 max-w-sm ml-auto">
+                      <div className="flex justify-between">
+                        <span className="text-sm">Payment Amount:</span>
+                        <span className="text-sm font-medium">{formatCurrency(payment.amount)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-sm">Allocated:</span>
+                        <span className="text-sm">{formatCurrency(totalAllocated)}</span>
+                      </div>
+                      {unallocatedAmount > 0 && (
+                        <div className="flex justify-between text-warning">
+                          <span className="text-sm">Unallocated:</span>
+                          <span className="text-sm font-medium">{formatCurrency(unallocatedAmount)}</span>
+                        </div>
+                      )}
+                      <Separator />
+                      <div className="flex justify-between font-semibold">
+                        <span>Status:</span>
+                        <span className={unallocatedAmount === 0 ? 'text-success' : 'text-warning'}>
+                          {unallocatedAmount === 0 ? 'Fully Allocated' : 'Partially Allocated'}
+                        </span>
+                      </div>
                     </div>
-                  )}
-                  <Separator />
-                  <div className="flex justify-between font-semibold">
-                    <span>Status:</span>
-                    <span className="text-success">
-                      {unallocatedAmount === 0 ? 'Fully Allocated' : 'Partially Allocated'}
-                    </span>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          )}
+                  </CardContent>
+                </Card>
+              )}
 
-          {/* Payment Notes */}
-          {payment.notes && (
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-sm">Payment Notes</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <p className="text-sm text-muted-foreground whitespace-pre-wrap">
-                  {payment.notes}
-                </p>
-              </CardContent>
-            </Card>
-          )}
+              {/* Allocate unallocated credit to the customer's open invoices */}
+              {unallocatedAmount > 0 && (
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="flex items-center gap-2">
+                        <Wallet className="h-4 w-4" />
+                        Unallocated Credit: {formatCurrency(unallocatedAmount)}
+                      </CardTitle>
+                      {canRecordPayments && customerOpenInvoices.length > 0 && (
+                        <Button variant="outline" size="sm" onClick={handleAutoAllocate}>
+                          Fill Oldest First
+                        </Button>
+                      )}
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    {!payment.customer_id ? (
+                      <p className="text-sm text-muted-foreground">This payment has no customer, so its credit cannot be allocated.</p>
+                    ) : customerOpenInvoices.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">
+                        {payment.customers?.name || 'This customer'} has no open invoices. The credit stays on account until one is raised.
+                      </p>
+                    ) : (
+                      <>
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Invoice</TableHead>
+                              <TableHead>Due Date</TableHead>
+                              <TableHead className="text-right">Balance Due</TableHead>
+                              {canRecordPayments && <TableHead className="w-40">Allocate</TableHead>}
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {customerOpenInvoices.map(invoice => (
+                              <TableRow key={invoice.id}>
+                                <TableCell className="font-medium">{invoice.invoice_number}</TableCell>
+                                <TableCell>{invoice.due_date ? formatDate(invoice.due_date) : '-'}</TableCell>
+                                <TableCell className="text-right">{formatCurrency(invoiceOpenBalance(invoice))}</TableCell>
+                                {canRecordPayments && (
+                                  <TableCell>
+                                    <Input
+                                      type="number"
+                                      min="0"
+                                      step="0.01"
+                                      max={invoiceOpenBalance(invoice)}
+                                      value={amounts[invoice.id] ?? ''}
+                                      onChange={(e) => setAmounts(prev => ({ ...prev, [invoice.id]: e.target.value }))}
+                                      placeholder="0.00"
+                                    />
+                                  </TableCell>
+                                )}
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                        {canRecordPayments && (
+                          <div className="flex items-center justify-end gap-4 mt-4">
+                            <span className={`text-sm ${allocationTotal > unallocatedAmount ? 'text-destructive' : 'text-muted-foreground'}`}>
+                              Allocating {formatCurrency(allocationTotal)} of {formatCurrency(unallocatedAmount)}
+                            </span>
+                            <Button
+                              onClick={handleAllocate}
+                              disabled={allocatePayment.isPending || allocations.length === 0}
+                            >
+                              {allocatePayment.isPending ? 'Allocating...' : 'Allocate Credit'}
+                            </Button>
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
 
-          {/* Summary Information */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-sm">Payment Summary</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-                <div className="text-center">
-                  <p className="text-2xl font-bold text-success">{formatCurrency(payment.amount)}</p>
-                  <p className="text-xs text-muted-foreground">Total Payment</p>
-                </div>
-                <div className="text-center">
-                  <p className="text-2xl font-bold text-primary">{formatCurrency(totalAllocated)}</p>
-                  <p className="text-xs text-muted-foreground">Allocated</p>
-                </div>
-                {unallocatedAmount > 0 && (
-                  <div className="text-center">
-                    <p className="text-2xl font-bold text-warning">{formatCurrency(unallocatedAmount)}</p>
-                    <p className="text-xs text-muted-foreground">Unallocated</p>
+              {/* Payment Notes */}
+              {payment.notes && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-sm">Payment Notes</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                      {payment.notes}
+                    </p>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Summary Information */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-sm">Payment Summary</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                    <div className="text-center">
+                      <p className="text-2xl font-bold text-success">{formatCurrency(payment.amount)}</p>
+                      <p className="text-xs text-muted-foreground">Total Payment</p>
+                    </div>
+                    <div className="text-center">
+                      <p className="text-2xl font-bold text-primary">{formatCurrency(totalAllocated)}</p>
+                      <p className="text-xs text-muted-foreground">Allocated</p>
+                    </div>
+                    {unallocatedAmount > 0 && (
+                      <div className="text-center">
+                        <p className="text-2xl font-bold text-warning">{formatCurrency(unallocatedAmount)}</p>
+                        <p className="text-xs text-muted-foreground">Unallocated</p>
+                      </div>
+                    )}
                   </div>
-                )}
-              </div>
-            </CardContent>
-          </Card>
-        </div>
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="history">
+            <AuditHistory entityType="payments" entityId={payment.id} />
+          </TabsContent>
+        </Tabs>
 
         <DialogFooter>
           <div className="flex flex-wrap gap-2">
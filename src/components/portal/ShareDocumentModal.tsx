@@ -0,0 +1,219 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Link2, Copy, Ban } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import {
+  useCreateDocumentShareLink,
+  useDocumentShareLinks,
+  useRevokeDocumentShareLink,
+} from '@/hooks/useDocumentPortal';
+import {
+  DEFAULT_SHARE_LINK_EXPIRY_DAYS,
+  SHARED_DOCUMENT_LABELS,
+  SHARE_LINK_EXPIRY_OPTIONS,
+  portalUrl,
+  sharedDocumentNumber,
+  shareLinkStatus,
+  type SharedDocumentType,
+} from '@/utils/documentPortal';
+
+interface ShareDocumentModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  documentType: SharedDocumentType;
+  document: {
+    id?: string;
+    company_id?: string;
+    quotation_number?: string;
+    proforma_number?: string;
+    invoice_number?: string;
+  } | null;
+}
+
+const STATUS_CLASSES = {
+  active: 'bg-success-light text-success border-success/20',
+  expired: 'bg-muted text-muted-foreground border-muted-foreground/20',
+  revoked: 'bg-destructive-light text-destructive border-destructive/20',
+};
+
+// Portal links for a document: issue one for the customer, copy it, or withdraw it
+export function ShareDocumentModal({ open, onOpenChange, documentType, document }: ShareDocumentModalProps) {
+  const { currentCompany } = useCurrentCompany();
+  const { data: links = [], isLoading } = useDocumentShareLinks(documentType, open ? document?.id : undefined);
+  const createLink = useCreateDocumentShareLink();
+  const revokeLink = useRevokeDocumentShareLink();
+  const [expiresInDays, setExpiresInDays] = useState(String(DEFAULT_SHARE_LINK_EXPIRY_DAYS));
+
+  useEffect(() => {
+    if (open) setExpiresInDays(String(DEFAULT_SHARE_LINK_EXPIRY_DAYS));
+  }, [open]);
+
+  if (!document) return null;
+
+  const label = SHARED_DOCUMENT_LABELS[documentType];
+  const number = sharedDocumentNumber(documentType, document);
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(portalUrl(token));
+      toast.success('Link copied to clipboard');
+    } catch (err) {
+      console.error('Copy failed', err);
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const handleCreate = async () => {
+    const companyId = document.company_id || currentCompany?.id;
+    if (!companyId) {
+      toast.error('No company selected');
+      return;
+    }
+    try {
+      const link = await createLink.mutateAsync({
+        companyId,
+        documentType,
+        documentId: document.id,
+        expiresInDays: Number(expiresInDays),
+      });
+      toast.success(`Customer link created for ${label.toLowerCase()} ${number}`);
+      await copyLink(link.token);
+    } catch (err) {
+      console.error('Failed to create share link', err);
+      toast.error((err as { message?: string })?.message || 'Failed to create link');
+    }
+  };
+
+  const handleRevoke = async (linkId: string) => {
+    if (!confirm('Revoke this link? The customer will no longer be able to open it.')) return;
+    try {
+      await revokeLink.mutateAsync(linkId);
+      toast.success('Link revoked');
+    } catch (err) {
+      console.error('Failed to revoke share link', err);
+      toast.error((err as { message?: string })?.message || 'Failed to revoke link');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Link2 className="h-5 w-5 text-primary" />
+            <span>Share {label} {number}</span>
+          </DialogTitle>
+          <DialogDescription>
+            Anyone with the link can view this {label.toLowerCase()} without signing in
+            {documentType === 'quotation' ? ' and accept or decline it' : ''} until it expires or is revoked.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="share_link_expiry">Expires after</Label>
+            <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+              <SelectTrigger id="share_link_expiry" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SHARE_LINK_EXPIRY_OPTIONS.map(days => (
+                  <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleCreate} disabled={createLink.isPending}>
+            <Link2 className="h-4 w-4 mr-2" />
+            {createLink.isPending ? 'Creating...' : 'Create Link'}
+          </Button>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Created</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead>Views</TableHead>
+              {documentType === 'quotation' && <TableHead>Response</TableHead>}
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {links.map(link => {
+              const status = shareLinkStatus(link);
+              return (
+                <TableRow key={link.id}>
+                  <TableCell>{new Date(link.created_at).toLocaleString()}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={STATUS_CLASSES[status]}>
+                      {status.charAt(0).toUpperCase() + status.slice(1)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{new Date(link.expires_at).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    {link.view_count}
+                    {link.last_viewed_at && (
+                      <div className="text-xs text-muted-foreground">last {new Date(link.last_viewed_at).toLocaleString()}</div>
+                    )}
+                  </TableCell>
+                  {documentType === 'quotation' && (
+                    <TableCell>
+                      {link.response ? (
+                        <div>
+                          <span className="font-medium capitalize">{link.response}</span> by {link.responder_name}
+                          {link.response_comment && (
+                            <div className="text-xs text-muted-foreground">{link.response_comment}</div>
+                          )}
+                        </div>
+                      ) : '-'}
+                    </TableCell>
+                  )}
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Button size="icon" variant="ghost" onClick={() => copyLink(link.token)} disabled={status !== 'active'} title="Copy link">
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => handleRevoke(link.id)} disabled={status !== 'active' || revokeLink.isPending} title="Revoke link">
+                        <Ban className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {!isLoading && links.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  No links yet
+                </TableCell>
+              </TableRow>
+            )}
+            {isLoading && (
+              <TableRow><TableCell colSpan={6}>Loading links...</TableCell></TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  );
+}
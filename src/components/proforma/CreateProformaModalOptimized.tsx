@@ -35,6 +35,9 @@ import { calculateItemTax, calculateDocumentTotals, formatCurrency, type Taxable
 import { generateNextProformaNumber } from '@/utils/improvedProformaFix';
 import { ProformaErrorSolution } from '@/components/fixes/ProformaErrorSolution';
 import { toast } from 'sonner';
+import { useDocumentCurrency } from '@/hooks/useExchangeRates';
+import { DocumentCurrencyFields } from '@/components/currency/DocumentCurrencyFields';
+import { fromBase } from '@/utils/currency';
 
 interface CreateProformaModalOptimizedProps {
   open: boolean;
@@ -57,6 +60,7 @@ export const CreateProformaModalOptimized = ({
     terms_and_conditions: '',
   });
 
+  const documentCurrency = useDocumentCurrency();
   const [items, setItems] = useState<ProformaItem[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [showProductSearch, setShowProductSearch] = useState(false);
@@ -131,7 +135,8 @@ export const CreateProformaModalOptimized = ({
       product_name: product.name,
       description: product.description || '',
       quantity: 1,
-      unit_price: product.selling_price,
+      // Product prices are in base currency
+      unit_price: fromBase(product.selling_price, documentCurrency.columns.exchange_rate),
       discount_percentage: 0,
       discount_amount: 0,
       tax_percentage: defaultTaxRate,
@@ -218,6 +223,7 @@ export const CreateProformaModalOptimized = ({
         proforma_number: proformaNumber,
         proforma_date: formData.proforma_date,
         valid_until: formData.valid_until,
+        ...documentCurrency.columns,
         status: 'draft' as const,
         subtotal: totals.subtotal,
         tax_amount: totals.tax_total,
@@ -250,6 +256,7 @@ export const CreateProformaModalOptimized = ({
       notes: '',
       terms_and_conditions: '',
     });
+    documentCurrency.reset();
     setItems([]);
     setSearchTerm('');
     setShowProductSearch(false);
@@ -356,6 +363,12 @@ export const CreateProformaModalOptimized = ({
               </div>
             </div>
 
+            <DocumentCurrencyFields
+              value={documentCurrency.value}
+              onChange={documentCurrency.setValue}
+              documentDate={formData.proforma_date}
+            />
+
             {/* Items Section */}
             <Card>
               <CardHeader>
@@ -402,7 +415,7 @@ export const CreateProformaModalOptimized = ({
                               <div>
                                 <p className="font-medium">{product.name}</p>
                                 <p className="text-sm text-muted-foreground">
-                                  {product.product_code} • {formatCurrency(product.selling_price)}
+                                  {product.product_code} • {formatCurrency(product.selling_price, 'en-KE', documentCurrency.baseCurrency)}
                                 </p>
                               </div>
                               <Button size="sm" variant="ghost">
@@ -491,7 +504,7 @@ export const CreateProformaModalOptimized = ({
                               onCheckedChange={(checked) => updateItem(item.id!, 'tax_inclusive', checked)}
                             />
                           </TableCell>
-                          <TableCell>{formatCurrency(item.line_total)}</TableCell>
+                          <TableCell>{formatCurrency(item.line_total, 'en-KE', documentCurrency.value.currency)}</TableCell>
                           <TableCell>
                             <Button
                               type="button"
@@ -513,15 +526,15 @@ export const CreateProformaModalOptimized = ({
                   <div className="mt-6 space-y-2 max-w-sm ml-auto">
                     <div className="flex justify-between">
                       <span>Subtotal:</span>
-                      <span>{formatCurrency(totals.subtotal)}</span>
+                      <span>{formatCurrency(totals.subtotal, 'en-KE', documentCurrency.value.currency)}</span>
                     </div>
                     <div className="flex justify-between">
                       <span>Tax:</span>
-                      <span>{formatCurrency(totals.tax_total)}</span>
+                      <span>{formatCurrency(totals.tax_total, 'en-KE', documentCurrency.value.currency)}</span>
                     </div>
                     <div className="flex justify-between font-semibold text-lg border-t pt-2">
                       <span>Total:</span>
-                      <span>{formatCurrency(totals.total_amount)}</span>
+                      <span>{formatCurrency(totals.total_amount, 'en-KE', documentCurrency.value.currency)}</span>
                     </div>
                   </div>
                 )}
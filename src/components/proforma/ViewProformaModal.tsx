@@ -20,6 +20,8 @@ import {
   Receipt,
   DollarSign
 } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AuditHistory } from '@/components/audit/AuditHistory';
 
 interface ProformaItem {
   id: string;
@@ -117,161 +119,174 @@ export const ViewProformaModal = ({
           </DialogDescription>
         </DialogHeader>
 
-        <div className="space-y-6">
-          {/* Header Information */}
-          <Card>
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <CardTitle className="flex items-center gap-2">
-                  <FileText className="h-4 w-4" />
-                  Proforma Details
-                </CardTitle>
-                {getStatusBadge(proforma.status)}
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">Proforma Number</p>
-                  <p className="text-sm">{proforma.proforma_number}</p>
-                </div>
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">Date</p>
-                  <p className="text-sm flex items-center gap-1">
-                    <Calendar className="h-3 w-3" />
-                    {formatDate(proforma.proforma_date)}
-                  </p>
-                </div>
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">Valid Until</p>
-                  <p className="text-sm flex items-center gap-1">
-                    <Calendar className="h-3 w-3" />
-                    {formatDate(proforma.valid_until)}
-                  </p>
-                </div>
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">Amount</p>
-                  <p className="text-sm flex items-center gap-1">
-                    <DollarSign className="h-3 w-3" />
-                    ${proforma.total_amount?.toFixed(2)}
-                  </p>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Customer Information */}
-          {proforma.customers && (
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <User className="h-4 w-4" />
-                  Customer Information
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-2">
-                  <p className="font-medium">{proforma.customers.name}</p>
-                  {proforma.customers.email && (
-                    <p className="text-sm text-muted-foreground">{proforma.customers.email}</p>
-                  )}
-                  {proforma.customers.phone && (
-                    <p className="text-sm text-muted-foreground">{proforma.customers.phone}</p>
-                  )}
-                  {proforma.customers.address && (
-                    <p className="text-sm text-muted-foreground">{proforma.customers.address}</p>
-                  )}
-                </div>
-              </CardContent>
-            </Card>
-          )}
-
-          {/* Items */}
-          {proforma.proforma_items && proforma.proforma_items.length > 0 && (
-            <Card>
-              <CardHeader>
-                <CardTitle>Items</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Product</TableHead>
-                      <TableHead>Description</TableHead>
-                      <TableHead>Quantity</TableHead>
-                      <TableHead>Unit Price</TableHead>
-                      <TableHead>Tax %</TableHead>
-                      <TableHead>Tax Amount</TableHead>
-                      <TableHead className="text-right">Total</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {proforma.proforma_items.map((item) => (
-                      <TableRow key={item.id}>
-                        <TableCell className="font-medium">{item.product_name}</TableCell>
-                        <TableCell>{item.description}</TableCell>
-                        <TableCell>{item.quantity}</TableCell>
-                        <TableCell>${item.unit_price.toFixed(2)}</TableCell>
-                        <TableCell>{item.tax_percentage}%</TableCell>
-                        <TableCell>${item.tax_amount.toFixed(2)}</TableCell>
-                        <TableCell className="text-right">${item.line_total.toFixed(2)}</TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-
-                <Separator className="my-4" />
+        <Tabs defaultValue="details">
+          <TabsList>
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
 
-                {/* Totals */}
-                <div className="space-y-2 max-w-sm ml-auto">
-                  <div className="flex justify-between">
-                    <span className="text-sm">Subtotal:</span>
-                    <span className="text-sm">${proforma.subtotal?.toFixed(2)}</span>
+          <TabsContent value="details" className="space-y-4">
+            <div className="space-y-6">
+              {/* Header Information */}
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="flex items-center gap-2">
+                      <FileText className="h-4 w-4" />
+                      Proforma Details
+                    </CardTitle>
+                    {getStatusBadge(proforma.status)}
                   </div>
-                  <div className="flex justify-between">
-                    <span className="text-sm">Tax:</span>
-                    <span className="text-sm">${proforma.tax_amount?.toFixed(2)}</span>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Proforma Number</p>
+                      <p className="text-sm">{proforma.proforma_number}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Date</p>
+                      <p className="text-sm flex items-center gap-1">
+                        <Calendar className="h-3 w-3" />
+                        {formatDate(proforma.proforma_date)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Valid Until</p>
+                      <p className="text-sm flex items-center gap-1">
+                        <Calendar className="h-3 w-3" />
+                        {formatDate(proforma.valid_until)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Amount</p>
+                      <p className="text-sm flex items-center gap-1">
+                        <DollarSign className="h-3 w-3" />
+                        ${proforma.total_amount?.toFixed(2)}
+                      </p>
+                    </div>
                   </div>
-                  <Separator />
-                  <div className="flex justify-between font-semibold">
-                    <span>Total:</span>
-                    <span>${proforma.total_amount?.toFixed(2)}</span>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          )}
+                </CardContent>
+              </Card>
 
-          {/* Notes and Terms */}
-          {(proforma.notes || proforma.terms_and_conditions) && (
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {proforma.notes && (
+              {/* Customer Information */}
+              {proforma.customers && (
                 <Card>
                   <CardHeader>
-                    <CardTitle className="text-sm">Notes</CardTitle>
+                    <CardTitle className="flex items-center gap-2">
+                      <User className="h-4 w-4" />
+                      Customer Information
+                    </CardTitle>
                   </CardHeader>
                   <CardContent>
-                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">
-                      {proforma.notes}
-                    </p>
+                    <div className="space-y-2">
+                      <p className="font-medium">{proforma.customers.name}</p>
+                      {proforma.customers.email && (
+                        <p className="text-sm text-muted-foreground">{proforma.customers.email}</p>
+                      )}
+                      {proforma.customers.phone && (
+                        <p className="text-sm text-muted-foreground">{proforma.customers.phone}</p>
+                      )}
+                      {proforma.customers.address && (
+                        <p className="text-sm text-muted-foreground">{proforma.customers.address}</p>
+                      )}
+                    </div>
                   </CardContent>
                 </Card>
               )}
-              {proforma.terms_and_conditions && (
+
+              {/* Items */}
+              {proforma.proforma_items && proforma.proforma_items.length > 0 && (
                 <Card>
                   <CardHeader>
-                    <CardTitle className="text-sm">Terms & Conditions</CardTitle>
+                    <CardTitle>Items</CardTitle>
                   </CardHeader>
                   <CardContent>
-                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">
-                      {proforma.terms_and_conditions}
-                    </p>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Product</TableHead>
+                          <TableHead>Description</TableHead>
+                          <TableHead>Quantity</TableHead>
+                          <TableHead>Unit Price</TableHead>
+                          <TableHead>Tax %</TableHead>
+                          <TableHead>Tax Amount</TableHead>
+                          <TableHead className="text-right">Total</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {proforma.proforma_items.map((item) => (
+                          <TableRow key={item.id}>
+                            <TableCell className="font-medium">{item.product_name}</TableCell>
+                            <TableCell>{item.description}</TableCell>
+                            <TableCell>{item.quantity}</TableCell>
+                            <TableCell>${item.unit_price.toFixed(2)}</TableCell>
+                            <TableCell>{item.tax_percentage}%</TableCell>
+                            <TableCell>${item.tax_amount.toFixed(2)}</TableCell>
+                            <TableCell className="text-right">${item.line_total.toFixed(2)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+
+                    <Separator className="my-4" />
+
+                    {/* Totals */}
+                    <div className="space-y-2 max-w-sm ml-auto">
+                      <div className="flex justify-between">
+                        <span className="text-sm">Subtotal:</span>
+                        <span className="text-sm">${proforma.subtotal?.toFixed(2)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-sm">Tax:</span>
+                        <span className="text-sm">${proforma.tax_amount?.toFixed(2)}</span>
+                      </div>
+                      <Separator />
+                      <div className="flex justify-between font-semibold">
+                        <span>Total:</span>
+                        <span>${proforma.total_amount?.toFixed(2)}</span>
+                      </div>
+                    </div>
                   </CardContent>
                 </Card>
               )}
+
+              {/* Notes and Terms */}
+              {(proforma.notes || proforma.terms_and_conditions) && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {proforma.notes && (
+                    <Card>
+                      <CardHeader>
+                        <CardTitle className="text-sm">Notes</CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                          {proforma.notes}
+                        </p>
+                      </CardContent>
+                    </Card>
+                  )}
+                  {proforma.terms_and_conditions && (
+                    <Card>
+                      <CardHeader>
+                        <CardTitle className="text-sm">Terms & Conditions</CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                          {proforma.terms_and_conditions}
+                        </p>
+                      </CardContent>
+                    </Card>
+                  )}
+                </div>
+              )}
             </div>
-          )}
-        </div>
+          </TabsContent>
+
+          <TabsContent value="history">
+            <AuditHistory entityType="proforma_invoices" entityId={proforma.id} />
+          </TabsContent>
+        </Tabs>
 
         <DialogFooter>
           <div className="flex flex-wrap gap-2">
@@ -28,10 +28,14 @@ import {
   Search,
   Calculator
 } from 'lucide-react';
-import { useCustomers, useProducts, useGenerateDocumentNumber, useTaxSettings, useCompanies } from '@/hooks/useDatabase';
+import { useCustomers, useProducts, useGenerateDocumentNumber, useTaxSettings } from '@/hooks/useDatabase';
 import { useCreateQuotationWithItems } from '@/hooks/useQuotationItems';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { useDocumentCurrency } from '@/hooks/useExchangeRates';
+import { DocumentCurrencyFields } from '@/components/currency/DocumentCurrencyFields';
+import { formatMoney, fromBase, toBase } from '@/utils/currency';
 
 interface QuotationItem {
   id: string;
@@ -59,6 +63,7 @@ export function CreateQuotationModal({ open, onOpenChange, onSuccess }: CreateQu
   );
   const [notes, setNotes] = useState('');
   const [termsAndConditions, setTermsAndConditions] = useState('Payment due within 30 days of invoice date.');
+  const documentCurrency = useDocumentCurrency();
   
   const [items, setItems] = useState<QuotationItem[]>([]);
   const [searchProduct, setSearchProduct] = useState('');
@@ -66,8 +71,7 @@ export function CreateQuotationModal({ open, onOpenChange, onSuccess }: CreateQu
 
   // Get current user and company from context
   const { profile, loading: authLoading } = useAuth();
-  const { data: companies } = useCompanies();
-  const currentCompany = companies?.[0];
+  const { currentCompany } = useCurrentCompany();
   const { data: customers, isLoading: loadingCustomers } = useCustomers(currentCompany?.id);
   const { data: products, isLoading: loadingProducts } = useProducts(currentCompany?.id);
   const { data: taxSettings } = useTaxSettings(currentCompany?.id);
@@ -122,16 +126,18 @@ export function CreateQuotationModal({ open, onOpenChange, onSuccess }: CreateQu
       return;
     }
 
+    // Product prices are in base currency, so they are converted for a quotation in another currency
+    const price = fromBase(product.selling_price, documentCurrency.columns.exchange_rate);
     const newItem: QuotationItem = {
       id: `temp-${Date.now()}`,
       product_id: product.id,
       product_name: product.name,
       description: product.description || product.name,
       quantity: 1,
-      unit_price: product.selling_price,
+      unit_price: price,
       vat_percentage: 0,
       vat_inclusive: false,
-      line_total: calculateItemTotal(1, product.selling_price, 0, false)
+      line_total: calculateItemTotal(1, price, 0, false)
     };
 
     setItems([...items, newItem]);
@@ -197,14 +203,7 @@ export function CreateQuotationModal({ open, onOpenChange, onSuccess }: CreateQu
     setItems(items.filter(item => item.id !== itemId));
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-KE', {
-      style: 'currency',
-      currency: 'KES',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(amount);
-  };
+  const formatCurrency = (amount: number) => formatMoney(amount, documentCurrency.value.currency);
 
   const subtotal = items.reduce((sum, item) => {
     // Unit prices are always tax-exclusive, so subtotal is always the base amount
@@ -276,6 +275,7 @@ export function CreateQuotationModal({ open, onOpenChange, onSuccess }: CreateQu
         quotation_number: quotationNumber,
         quotation_date: quotationDate,
         valid_until: validUntil,
+        ...documentCurrency.columns,
         status: 'draft',
         subtotal: subtotal,
         tax_amount: taxAmount,
@@ -386,6 +386,7 @@ export function CreateQuotationModal({ open, onOpenChange, onSuccess }: CreateQu
     setValidUntil(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]);
     setNotes('');
     setTermsAndConditions('Payment due within 30 days of invoice date.');
+    documentCurrency.reset();
     setItems([]);
     setSearchProduct('');
   };
@@ -459,6 +460,12 @@ export function CreateQuotationModal({ open, onOpenChange, onSuccess }: CreateQu
                   </div>
                 </div>
 
+                <DocumentCurrencyFields
+                  value={documentCurrency.value}
+                  onChange={documentCurrency.setValue}
+                  documentDate={quotationDate}
+                />
+
                 {/* Notes */}
                 <div className="space-y-2">
                   <Label htmlFor="notes">Notes</Label>
@@ -527,7 +534,7 @@ export function CreateQuotationModal({ open, onOpenChange, onSuccess }: CreateQu
                                 )}
                               </div>
                               <div className="text-right">
-                                <div className="font-semibold">{formatCurrency(product.selling_price)}</div>
+                                <div className="font-semibold">{formatMoney(product.selling_price, documentCurrency.baseCurrency)}</div>
                                 <div className="text-xs text-muted-foreground">Stock: {product.stock_quantity}</div>
                               </div>
                             </div>
@@ -650,6 +657,12 @@ export function CreateQuotationModal({ open, onOpenChange, onSuccess }: CreateQu
                       <span className="font-bold">Total:</span>
                       <span className="font-bold text-primary">{formatCurrency(totalAmount)}</span>
                     </div>
+                    {documentCurrency.value.currency !== documentCurrency.baseCurrency && documentCurrency.value.exchange_rate && (
+                      <div className="flex justify-between text-sm text-muted-foreground">
+                        <span>In {documentCurrency.baseCurrency}:</span>
+                        <span>{formatMoney(toBase(totalAmount, documentCurrency.value.exchange_rate), documentCurrency.baseCurrency)}</span>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -22,15 +22,21 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { 
   Plus, 
   Trash2, 
   Search,
   Calculator,
-  FileText
+  FileText,
+  History
 } from 'lucide-react';
-import { useCustomers, useProducts, useTaxSettings, useCompanies } from '@/hooks/useDatabase';
+import { useCustomers, useProducts, useTaxSettings } from '@/hooks/useDatabase';
 import { toast } from 'sonner';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { baseCurrencyOf, documentCurrency, formatMoney } from '@/utils/currency';
+import { useUpdateQuotationWithItems } from '@/hooks/useQuotationItems';
+import { canReviseQuotation, isQuotationEditable, quotationDisplayNumber, quotationStatusLabel } from '@/utils/quotationLifecycle';
 
 interface QuotationItem {
   id: string;
@@ -44,6 +50,7 @@ interface QuotationItem {
   tax_amount: number;
   tax_inclusive: boolean;
   line_total: number;
+  unit_of_measure?: string;
 }
 
 interface EditQuotationModalProps {
@@ -63,9 +70,15 @@ export function EditQuotationModal({ open, onOpenChange, onSuccess, quotation }:
   const [items, setItems] = useState<QuotationItem[]>([]);
   const [searchProduct, setSearchProduct] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [changeNote, setChangeNote] = useState('');
 
-  const { data: companies } = useCompanies();
-  const currentCompany = companies?.[0];
+  const { currentCompany } = useCurrentCompany();
+  const updateQuotation = useUpdateQuotationWithItems();
+
+  // A sent quotation is not edited in place: saving keeps the current version and opens the next revision
+  const revising = !isQuotationEditable(quotation);
+  const canSave = !revising || canReviseQuotation(quotation);
+  const nextRevision = Number(quotation?.revision_number || 1) + 1;
   const { data: customers, isLoading: loadingCustomers } = useCustomers(currentCompany?.id);
   const { data: products, isLoading: loadingProducts } = useProducts(currentCompany?.id);
   const { data: taxSettings } = useTaxSettings(currentCompany?.id);
@@ -82,6 +95,7 @@ export function EditQuotationModal({ open, onOpenChange, onSuccess, quotation }:
       setValidUntil(quotation.valid_until || '');
       setNotes(quotation.notes || '');
       setTermsAndConditions(quotation.terms_and_conditions || '');
+      setChangeNote('');
       
       // Convert quotation items to local format
       const quotationItems = (quotation.quotation_items || []).map((item: any, index: number) => ({
@@ -96,6 +110,7 @@ export function EditQuotationModal({ open, onOpenChange, onSuccess, quotation }:
         tax_amount: item.tax_amount || 0,
         tax_inclusive: item.tax_inclusive || false,
         line_total: item.line_total || 0,
+        unit_of_measure: item.unit_of_measure || item.products?.unit_of_measure || undefined,
       }));
       
       setItems(quotationItems);
@@ -192,14 +207,8 @@ export function EditQuotationModal({ open, onOpenChange, onSuccess, quotation }:
     setItems(items.filter(item => item.id !== itemId));
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-KE', {
-      style: 'currency',
-      currency: 'KES',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(amount);
-  };
+  const formatCurrency = (amount: number) =>
+    formatMoney(amount, documentCurrency(quotation, baseCurrencyOf(currentCompany)));
 
   const subtotal = items.reduce((sum, item) => {
     // Always use base amount for subtotal (unit price × quantity × discount)
@@ -223,10 +232,38 @@ export function EditQuotationModal({ open, onOpenChange, onSuccess, quotation }:
 
     setIsSubmitting(true);
     try {
-      // TODO: Implement actual update API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await updateQuotation.mutateAsync({
+        quotationId: quotation.id,
+        quotation: {
+          customer_id: selectedCustomerId,
+          quotation_date: quotationDate,
+          valid_until: validUntil || null,
+          subtotal,
+          tax_amount: taxAmount,
+          total_amount: totalAmount,
+          notes,
+          terms_and_conditions: termsAndConditions,
+        },
+        items: items.map(item => ({
+          quotation_id: quotation.id,
+          product_id: item.product_id || undefined,
+          description: item.description || item.product_name,
+          quantity: item.quantity,
+          unit_price: item.unit_price,
+          unit_of_measure: item.unit_of_measure,
+          discount_percentage: item.discount_percentage,
+          tax_percentage: item.tax_percentage,
+          tax_amount: item.tax_amount,
+          tax_inclusive: item.tax_inclusive,
+          line_total: item.line_total,
+        })),
+        revise: revising,
+        changeNote,
+      });
       
-      toast.success(`Quotation ${quotation.quotation_number} updated successfully!`);
+      toast.success(revising
+        ? `${quotationDisplayNumber(quotation, nextRevision)} saved; Rev ${nextRevision - 1} is kept in the quotation's history`
+        : `Quotation ${quotationDisplayNumber(quotation)} updated successfully!`);
       onSuccess();
       onOpenChange(false);
     } catch (error) {
@@ -262,13 +299,24 @@ export function EditQuotationModal({ open, onOpenChange, onSuccess, quotation }:
         <DialogHeader>
           <DialogTitle className="flex items-center space-x-2">
             <FileText className="h-5 w-5 text-primary" />
-            <span>Edit Quotation {quotation?.quotation_number}</span>
+            <span>{revising ? 'Revise' : 'Edit'} Quotation {quotation ? quotationDisplayNumber(quotation) : ''}</span>
           </DialogTitle>
           <DialogDescription>
-            Update quotation details and items
+            {revising ? `Changes are saved as Rev ${nextRevision}; the current version stays read-only` : 'Update quotation details and items'}
           </DialogDescription>
         </DialogHeader>
 
+        {revising && (
+          <Alert>
+            <History className="h-4 w-4" />
+            <AlertDescription>
+              {canSave
+                ? `This quotation is ${quotationStatusLabel(quotation?.status).toLowerCase()}. Saving keeps the current version in its history and returns the quotation to draft as ${quotationDisplayNumber(quotation, nextRevision)}.`
+                : 'This quotation has been converted to an invoice and can no longer be revised.'}
+            </AlertDescription>
+          </Alert>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Left Column - Quotation Details */}
           <div className="space-y-4">
@@ -342,6 +390,18 @@ export function EditQuotationModal({ open, onOpenChange, onSuccess, quotation }:
                     rows={3}
                   />
                 </div>
+
+                {revising && (
+                  <div className="space-y-2">
+                    <Label htmlFor="change_note">What changed in this revision</Label>
+                    <Input
+                      id="change_note"
+                      value={changeNote}
+                      onChange={(e) => setChangeNote(e.target.value)}
+                      placeholder="e.g. Reduced quantities after site visit"
+                    />
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -499,9 +559,9 @@ export function EditQuotationModal({ open, onOpenChange, onSuccess, quotation }:
           <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
             Cancel
           </Button>
-          <Button onClick={handleSubmit} disabled={isSubmitting || !selectedCustomerId}>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !selectedCustomerId || !canSave}>
             <Calculator className="h-4 w-4 mr-2" />
-            {isSubmitting ? 'Updating...' : 'Update Quotation'}
+            {isSubmitting ? 'Updating...' : revising ? `Save as Rev ${nextRevision}` : 'Update Quotation'}
           </Button>
         </DialogFooter>
       </DialogContent>
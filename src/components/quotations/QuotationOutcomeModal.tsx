@@ -0,0 +1,175 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Trophy } from 'lucide-react';
+import { toast } from 'sonner';
+import { useSetQuotationStatus } from '@/hooks/useQuotationLifecycle';
+import {
+  QUOTATION_LOSS_REASONS,
+  quotationDisplayNumber,
+  quotationOutcomeNeedsReason,
+  type QuotationOutcome,
+} from '@/utils/quotationLifecycle';
+
+interface QuotationOutcomeModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  quotation: {
+    id: string;
+    quotation_number: string;
+    revision_number?: number | null;
+    customers?: { name?: string } | null;
+  } | null;
+  initialOutcome?: QuotationOutcome;
+}
+
+const OUTCOMES: { value: QuotationOutcome; label: string; description: string }[] = [
+  { value: 'accepted', label: 'Accepted', description: 'The customer accepted this quotation' },
+  { value: 'declined', label: 'Declined', description: 'The customer turned the quotation down' },
+  { value: 'lost', label: 'Lost', description: 'The work went to a competitor' },
+];
+
+// Close a quotation as accepted, declined or lost, with the reason the customer gave
+export function QuotationOutcomeModal({ open, onOpenChange, quotation, initialOutcome = 'accepted' }: QuotationOutcomeModalProps) {
+  const setStatus = useSetQuotationStatus();
+  const [outcome, setOutcome] = useState<QuotationOutcome>(initialOutcome);
+  const [reason, setReason] = useState('');
+  const [details, setDetails] = useState('');
+  const [competitor, setCompetitor] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setOutcome(initialOutcome);
+    setReason('');
+    setDetails('');
+    setCompetitor('');
+  }, [open, initialOutcome]);
+
+  const needsReason = quotationOutcomeNeedsReason(outcome);
+
+  const handleSave = async () => {
+    if (!quotation) return;
+    if (needsReason && !reason) {
+      toast.error(`Select why the quotation was ${outcome}`);
+      return;
+    }
+
+    const statusReason = needsReason
+      ? [reason, details.trim()].filter(Boolean).join(': ')
+      : details.trim();
+
+    try {
+      await setStatus.mutateAsync({
+        quotationId: quotation.id,
+        status: outcome,
+        reason: statusReason,
+        competitor,
+      });
+      toast.success(`${quotationDisplayNumber(quotation)} marked as ${outcome}`);
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Failed to record quotation outcome', err);
+      toast.error((err as { message?: string })?.message || 'Failed to update quotation');
+    }
+  };
+
+  if (!quotation) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Trophy className="h-5 w-5 text-primary" />
+            <span>Outcome of {quotationDisplayNumber(quotation)}</span>
+          </DialogTitle>
+          <DialogDescription>
+            {quotation.customers?.name || 'Unknown Customer'}. Outcomes feed the quotation conversion report.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="quotation_outcome">Outcome</Label>
+            <Select value={outcome} onValueChange={(value) => setOutcome(value as QuotationOutcome)}>
+              <SelectTrigger id="quotation_outcome">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OUTCOMES.map(o => (
+                  <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{OUTCOMES.find(o => o.value === outcome)?.description}</p>
+          </div>
+
+          {needsReason && (
+            <div className="space-y-2">
+              <Label htmlFor="quotation_reason">Reason *</Label>
+              <Select value={reason} onValueChange={setReason}>
+                <SelectTrigger id="quotation_reason">
+                  <SelectValue placeholder="Select a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {QUOTATION_LOSS_REASONS.map(r => (
+                    <SelectItem key={r} value={r}>{r}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {outcome === 'lost' && (
+            <div className="space-y-2">
+              <Label htmlFor="quotation_competitor">Competitor</Label>
+              <Input
+                id="quotation_competitor"
+                value={competitor}
+                onChange={(e) => setCompetitor(e.target.value)}
+                placeholder="Who won the work, if known"
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="quotation_outcome_details">{needsReason ? 'Details' : 'Note'}</Label>
+            <Textarea
+              id="quotation_outcome_details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              rows={3}
+              placeholder={needsReason ? 'Anything else the customer said' : 'Optional, e.g. accepted by phone'}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={setStatus.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={setStatus.isPending}>
+            {setStatus.isPending ? 'Saving...' : 'Save Outcome'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
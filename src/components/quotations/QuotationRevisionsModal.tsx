@@ -0,0 +1,209 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { History, Eye, Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { useQuotationRevisions } from '@/hooks/useQuotationLifecycle';
+import { downloadQuotationPDF } from '@/utils/pdfGenerator';
+import { formatMoney } from '@/utils/currency';
+import { quotationDisplayNumber, quotationStatusColor, quotationStatusLabel } from '@/utils/quotationLifecycle';
+
+interface QuotationVersionItem {
+  description?: string;
+  quantity: number;
+  unit_price: number;
+  tax_percentage?: number | null;
+  line_total: number;
+  products?: { name?: string } | null;
+}
+
+interface RevisableQuotation {
+  id: string;
+  quotation_number: string;
+  quotation_date?: string;
+  valid_until?: string | null;
+  status: string;
+  revision_number?: number | null;
+  total_amount: number;
+  currency?: string | null;
+  notes?: string | null;
+  updated_at?: string;
+  customers?: object | null;
+  quotation_items?: QuotationVersionItem[];
+}
+
+// quotation_revisions.data: the header and lines as they were when the revision was replaced
+type RevisionSnapshot = {
+  quotation?: Partial<RevisableQuotation>;
+  items?: QuotationVersionItem[];
+};
+
+interface QuotationRevisionsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  quotation: RevisableQuotation | null;
+}
+
+interface QuotationVersion {
+  id: string;
+  revision_number: number;
+  status: string | null;
+  created_at?: string | null;
+  total_amount: number | null;
+  change_note: string | null;
+  author: { full_name?: string | null; email?: string | null } | null;
+  document: Partial<RevisableQuotation>;
+}
+
+// The current version followed by the read-only versions it replaced
+export function QuotationRevisionsModal({ open, onOpenChange, quotation }: QuotationRevisionsModalProps) {
+  const { currentCompany } = useCurrentCompany();
+  const { data: revisions = [], isLoading } = useQuotationRevisions(open ? quotation?.id : undefined);
+  const [viewingId, setViewingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) setViewingId(null);
+  }, [open]);
+
+  if (!quotation) return null;
+
+  // A stored revision as a quotation, with the customer as it is today
+  const asQuotation = (snapshot: RevisionSnapshot | null): Partial<RevisableQuotation> => ({
+    ...(snapshot?.quotation || {}),
+    customers: quotation.customers,
+    quotation_items: snapshot?.items || [],
+  });
+
+  const versions: QuotationVersion[] = [
+    { id: 'current', revision_number: quotation.revision_number || 1, status: quotation.status, created_at: quotation.updated_at, total_amount: quotation.total_amount, change_note: null, author: null, document: quotation },
+    ...revisions.map(r => ({ ...r, document: asQuotation(r.data as unknown as RevisionSnapshot) })),
+  ];
+
+  const viewing = versions.find(v => v.id === viewingId) || null;
+  const formatCurrency = (amount: number, currency?: string | null) => formatMoney(Number(amount || 0), currency || quotation.currency || 'KES');
+  const authorName = (version: QuotationVersion) => version.author?.full_name || version.author?.email || '-';
+
+  const handleDownload = async (version: QuotationVersion) => {
+    try {
+      await downloadQuotationPDF(version.document, currentCompany ? {
+        name: currentCompany.name,
+        address: currentCompany.address,
+        city: currentCompany.city,
+        country: currentCompany.country,
+        phone: currentCompany.phone,
+        email: currentCompany.email,
+        tax_number: currentCompany.tax_number,
+        logo_url: currentCompany.logo_url
+      } : undefined);
+      toast.success(`${quotationDisplayNumber(quotation, version.revision_number)} downloaded`);
+    } catch (err) {
+      console.error('Download failed', err);
+      toast.error('Failed to download revision');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <History className="h-5 w-5 text-primary" />
+            <span>Quotation {quotation.quotation_number} Revisions</span>
+          </DialogTitle>
+          <DialogDescription>
+            Earlier revisions are read-only. View or print any version as it was sent.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Revision</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Saved</TableHead>
+              <TableHead>Revised By</TableHead>
+              <TableHead>Note</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {versions.map(v => (
+              <TableRow key={v.id}>
+                <TableCell>
+                  <span className="font-medium">Rev {v.revision_number}</span>
+                  {v.id === 'current' && <Badge variant="outline" className="ml-2">Current</Badge>}
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline" className={quotationStatusColor(v.status)}>{quotationStatusLabel(v.status)}</Badge>
+                </TableCell>
+                <TableCell>{v.created_at ? new Date(v.created_at).toLocaleString() : '-'}</TableCell>
+                <TableCell>{authorName(v)}</TableCell>
+                <TableCell>{v.change_note || '-'}</TableCell>
+                <TableCell className="text-right">{formatCurrency(v.total_amount, v.document?.currency)}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <Button size="icon" variant="ghost" onClick={() => setViewingId(viewingId === v.id ? null : v.id)} title="View">
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" onClick={() => handleDownload(v)} title="Download PDF">
+                      <Download className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+            {isLoading && (
+              <TableRow><TableCell colSpan={7}>Loading earlier revisions...</TableCell></TableRow>
+            )}
+          </TableBody>
+        </Table>
+
+        {viewing && (
+          <div className="space-y-3 border border-border rounded-lg p-4">
+            <div className="flex justify-between">
+              <span className="font-semibold">{quotationDisplayNumber(quotation, viewing.revision_number)}</span>
+              <span className="text-sm text-muted-foreground">
+                {viewing.document?.quotation_date ? new Date(viewing.document.quotation_date).toLocaleDateString() : ''}
+                {viewing.document?.valid_until ? ` · valid until ${new Date(viewing.document.valid_until).toLocaleDateString()}` : ''}
+              </span>
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b">
+                  <th>Description</th><th>Qty</th><th>Unit Price</th><th>VAT %</th><th className="text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(viewing.document?.quotation_items || []).map((it, i) => (
+                  <tr key={i}>
+                    <td>{it.description || it.products?.name}</td>
+                    <td>{it.quantity}</td>
+                    <td>{formatCurrency(it.unit_price, viewing.document?.currency)}</td>
+                    <td>{it.tax_percentage || 0}</td>
+                    <td className="text-right">{formatCurrency(it.line_total, viewing.document?.currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="text-right font-semibold">
+              Total: {formatCurrency(viewing.document?.total_amount, viewing.document?.currency)}
+            </div>
+            {viewing.document?.notes && (
+              <p className="text-sm text-muted-foreground whitespace-pre-wrap">{viewing.document.notes}</p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -22,7 +22,11 @@ import {
   Send
 } from 'lucide-react';
 import { BiolegendLogo } from '@/components/ui/biolegend-logo';
-import { useCompanies } from '@/hooks/useDatabase';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AuditHistory } from '@/components/audit/AuditHistory';
+import { formatMoney } from '@/utils/currency';
+import { quotationDisplayNumber, quotationStatusColor, quotationStatusLabel } from '@/utils/quotationLifecycle';
 
 interface ViewQuotationModalProps {
   open: boolean;
@@ -41,20 +45,12 @@ export function ViewQuotationModal({
   onDownload,
   onSend
 }: ViewQuotationModalProps) {
-  if (!quotation) return null;
-
   // Get company data for logo
-  const { data: companies } = useCompanies();
-  const currentCompany = companies?.[0];
+  const { currentCompany } = useCurrentCompany();
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-KE', {
-      style: 'currency',
-      currency: 'KES',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(amount);
-  };
+  if (!quotation) return null;
+
+  const formatCurrency = (amount: number) => formatMoney(amount, quotation?.currency || 'KES');
 
   const formatDate = (date: string) => {
     return new Date(date).toLocaleDateString('en-GB', {
@@ -64,23 +60,6 @@ export function ViewQuotationModal({
     });
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'draft':
-        return 'bg-muted text-muted-foreground border-muted-foreground/20';
-      case 'sent':
-        return 'bg-warning-light text-warning border-warning/20';
-      case 'accepted':
-        return 'bg-success-light text-success border-success/20';
-      case 'rejected':
-        return 'bg-destructive-light text-destructive border-destructive/20';
-      case 'expired':
-        return 'bg-destructive-light text-destructive border-destructive/20';
-      default:
-        return 'bg-muted text-muted-foreground border-muted-foreground/20';
-    }
-  };
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
@@ -88,11 +67,11 @@ export function ViewQuotationModal({
           <DialogTitle className="flex items-center justify-between">
             <div className="flex items-center space-x-2">
               <FileText className="h-5 w-5 text-primary" />
-              <span>Quotation {quotation.quotation_number}</span>
+              <span>Quotation {quotationDisplayNumber(quotation)}</span>
             </div>
             <div className="flex items-center space-x-2">
-              <Badge variant="outline" className={getStatusColor(quotation.status)}>
-                {quotation.status.charAt(0).toUpperCase() + quotation.status.slice(1)}
+              <Badge variant="outline" className={quotationStatusColor(quotation.status)}>
+                {quotationStatusLabel(quotation.status)}
               </Badge>
               <div className="flex space-x-1">
                 <Button variant="outline" size="sm" onClick={onEdit}>
@@ -114,261 +93,286 @@ export function ViewQuotationModal({
           </DialogDescription>
         </DialogHeader>
 
-        {/* Quotation Content - Styled consistently with brand invoice */}
-        <div className="bg-background border rounded-lg p-6 space-y-6">
-          {/* Header */}
-          <div className="flex justify-between items-start">
-            <div className="space-y-2">
-              {currentCompany?.logo_url ? (
-                <div className="flex items-center space-x-3">
-                  <img
-                    src={currentCompany.logo_url}
-                    alt={`${currentCompany.name} Logo`}
-                    className="h-20 w-auto object-contain"
-                    onError={(e) => {
-                      // Fallback to BiolegendLogo if company logo fails to load
-                      (e.target as HTMLImageElement).style.display = 'none';
-                      (e.target as HTMLElement).nextElementSibling?.setAttribute('style', 'display: block');
-                    }}
-                  />
-                  <BiolegendLogo size="lg" showText={true} style={{ display: 'none' }} />
-                </div>
-              ) : (
-                <BiolegendLogo size="lg" showText={true} />
-              )}
-              <div className="text-sm text-muted-foreground space-y-1">
-                {currentCompany ? (
-                  <>
-                    {currentCompany.tax_number && <div>PIN: {currentCompany.tax_number}</div>}
-                    {currentCompany.address && <div>{currentCompany.address}</div>}
-                    {(currentCompany.city || currentCompany.country) && (
-                      <div>
-                        {currentCompany.city}{currentCompany.city && currentCompany.country ? ', ' : ''}{currentCompany.country}
-                      </div>
-                    )}
-                    {currentCompany.phone && <div>Tel: {currentCompany.phone}</div>}
-                    {currentCompany.email && <div>Email: {currentCompany.email}</div>}
-                    {currentCompany.website && <div>Website: {currentCompany.website}</div>}
-                  </>
-                ) : (
-                  <>
-                    <div>P.O Box 85988-00200, Nairobi, Kenya</div>
-                    <div>Tel: 0741 207 690/0780 165 490</div>
-                    <div>Email: biolegend@biolegendscientific.co.ke/info@biolegendscientific.co.ke</div>
-                    <div>Website: www.biolegendscientific.co.ke</div>
-                    <div className="text-xs italic text-primary/70">Delivering Discoveries.... and more</div>
-                  </>
-                )}
-              </div>
-            </div>
-            
-            <div className="text-right space-y-2">
-              <h1 className="text-2xl font-bold text-primary">QUOTATION</h1>
-              <div className="space-y-1 text-sm">
-                <div><span className="font-semibold">Quote No:</span> {quotation.quotation_number}</div>
-                <div><span className="font-semibold">Date:</span> {formatDate(quotation.quotation_date)}</div>
-                {quotation.valid_until && (
-                  <div><span className="font-semibold">Valid Until:</span> {formatDate(quotation.valid_until)}</div>
-                )}
-              </div>
-            </div>
-          </div>
-
-          <Separator />
+        <Tabs defaultValue="details">
+          <TabsList>
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
 
-          {/* Customer Information */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <Card>
-              <CardHeader className="pb-3">
-                <CardTitle className="text-lg flex items-center space-x-2">
-                  <User className="h-5 w-5 text-primary" />
-                  <span>Quote To:</span>
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-2">
-                <div className="font-semibold text-lg">{quotation.customers?.name}</div>
-                {quotation.customers?.email && (
-                  <div className="flex items-center space-x-2 text-sm">
-                    <Mail className="h-4 w-4 text-muted-foreground" />
-                    <span>{quotation.customers.email}</span>
-                  </div>
-                )}
-                {quotation.customers?.phone && (
-                  <div className="flex items-center space-x-2 text-sm">
-                    <Phone className="h-4 w-4 text-muted-foreground" />
-                    <span>{quotation.customers.phone}</span>
-                  </div>
-                )}
-                {quotation.customers?.address && (
-                  <div className="flex items-start space-x-2 text-sm">
-                    <MapPin className="h-4 w-4 text-muted-foreground mt-0.5" />
-                    <div>
-                      <div>{quotation.customers.address}</div>
-                      {quotation.customers?.city && (
-                        <div>{quotation.customers.city}, {quotation.customers?.country || 'Kenya'}</div>
-                      )}
+          <TabsContent value="details" className="space-y-4">
+            {/* Quotation Content - Styled consistently with brand invoice */}
+            <div className="bg-background border rounded-lg p-6 space-y-6">
+              {/* Header */}
+              <div className="flex justify-between items-start">
+                <div className="space-y-2">
+                  {currentCompany?.logo_url ? (
+                    <div className="flex items-center space-x-3">
+                      <img
+                        src={currentCompany.logo_url}
+                        alt={`${currentCompany.name} Logo`}
+                        className="h-20 w-auto object-contain"
+                        onError={(e) => {
+                          // Fallback to BiolegendLogo if company logo fails to load
+                          (e.target as HTMLImageElement).style.display = 'none';
+                          (e.target as HTMLElement).nextElementSibling?.setAttribute('style', 'display: block');
+                        }}
+                      />
+                      <BiolegendLogo size="lg" showText={true} style={{ display: 'none' }} />
                     </div>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader className="pb-3">
-                <CardTitle className="text-lg flex items-center space-x-2">
-                  <Calendar className="h-5 w-5 text-primary" />
-                  <span>Quotation Details</span>
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-2 text-sm">
-                <div className="flex justify-between">
-                  <span className="text-muted-foreground">Status:</span>
-                  <Badge variant="outline" className={getStatusColor(quotation.status)}>
-                    {quotation.status.charAt(0).toUpperCase() + quotation.status.slice(1)}
-                  </Badge>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-muted-foreground">Quote Date:</span>
-                  <span>{formatDate(quotation.quotation_date)}</span>
-                </div>
-                {quotation.valid_until && (
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">Valid Until:</span>
-                    <span>{formatDate(quotation.valid_until)}</span>
-                  </div>
-                )}
-                <div className="flex justify-between">
-                  <span className="text-muted-foreground">Total Amount:</span>
-                  <span className="font-semibold text-primary">{formatCurrency(quotation.total_amount || 0)}</span>
-                </div>
-              </CardContent>
-            </Card>
-          </div>
-
-          {/* Items Table */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Items</CardTitle>
-            </CardHeader>
-            <CardContent>
-              {quotation.quotation_items && quotation.quotation_items.length > 0 ? (
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Item Description</TableHead>
-                      <TableHead className="text-center">Qty</TableHead>
-                      <TableHead className="text-center">Unit Pack</TableHead>
-                      <TableHead className="text-right">Unit Price</TableHead>
-                      <TableHead className="text-center">Discount %</TableHead>
-                      <TableHead className="text-right">Total Price</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {quotation.quotation_items.map((item: any, index: number) => (
-                      <TableRow key={index}>
-                        <TableCell>
+                  ) : (
+                    <BiolegendLogo size="lg" showText={true} />
+                  )}
+                  <div className="text-sm text-muted-foreground space-y-1">
+                    {currentCompany ? (
+                      <>
+                        {currentCompany.tax_number && <div>PIN: {currentCompany.tax_number}</div>}
+                        {currentCompany.address && <div>{currentCompany.address}</div>}
+                        {(currentCompany.city || currentCompany.country) && (
                           <div>
-                            <div className="font-medium">{item.description}</div>
-                            {item.products?.name && item.products.name !== item.description && (
-                              <div className="text-sm text-muted-foreground">{item.products.name}</div>
-                            )}
+                            {currentCompany.city}{currentCompany.city && currentCompany.country ? ', ' : ''}{currentCompany.country}
                           </div>
-                        </TableCell>
-                        <TableCell className="text-center">{item.quantity}</TableCell>
-                        <TableCell className="text-center">{item.products?.unit_of_measure || 'Each'}</TableCell>
-                        <TableCell className="text-right">{formatCurrency(item.unit_price)}</TableCell>
-                        <TableCell className="text-center">{item.discount_percentage || 0}%</TableCell>
-                        <TableCell className="text-right font-semibold">{formatCurrency(item.line_total)}</TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              ) : (
-                <div className="text-center py-8 text-muted-foreground">
-                  No items found for this quotation
+                        )}
+                        {currentCompany.phone && <div>Tel: {currentCompany.phone}</div>}
+                        {currentCompany.email && <div>Email: {currentCompany.email}</div>}
+                        {currentCompany.website && <div>Website: {currentCompany.website}</div>}
+                      </>
+                    ) : (
+                      <>
+                        <div>P.O Box 85988-00200, Nairobi, Kenya</div>
+                        <div>Tel: 0741 207 690/0780 165 490</div>
+                        <div>Email: biolegend@biolegendscientific.co.ke/info@biolegendscientific.co.ke</div>
+                        <div>Website: www.biolegendscientific.co.ke</div>
+                        <div className="text-xs italic text-primary/70">Delivering Discoveries.... and more</div>
+                      </>
+                    )}
+                  </div>
                 </div>
-              )}
 
-              {/* Totals */}
-              <div className="mt-6 border-t pt-4">
-                <div className="flex justify-end">
-                  <div className="w-80 space-y-2">
-                    <div className="flex justify-between">
-                      <span>Subtotal:</span>
-                      <span className="font-semibold">{formatCurrency(quotation.subtotal || 0)}</span>
-                    </div>
-                    {quotation.discount_amount > 0 && (
-                      <div className="flex justify-between">
-                        <span>Discount:</span>
-                        <span className="font-semibold text-destructive">-{formatCurrency(quotation.discount_amount)}</span>
-                      </div>
+                <div className="text-right space-y-2">
+                  <h1 className="text-2xl font-bold text-primary">QUOTATION</h1>
+                  <div className="space-y-1 text-sm">
+                    <div><span className="font-semibold">Quote No:</span> {quotationDisplayNumber(quotation)}</div>
+                    <div><span className="font-semibold">Date:</span> {formatDate(quotation.quotation_date)}</div>
+                    {quotation.valid_until && (
+                      <div><span className="font-semibold">Valid Until:</span> {formatDate(quotation.valid_until)}</div>
                     )}
-                    <div className="flex justify-between">
-                      <span>Tax:</span>
-                      <span className="font-semibold">{formatCurrency(quotation.tax_amount || 0)}</span>
-                    </div>
-                    <div className="flex justify-between text-lg border-t pt-2">
-                      <span className="font-bold">Total Amount:</span>
-                      <span className="font-bold text-primary">{formatCurrency(quotation.total_amount || 0)}</span>
-                    </div>
                   </div>
                 </div>
               </div>
-            </CardContent>
-          </Card>
 
-          {/* Notes and Terms */}
-          {(quotation.notes || quotation.terms_and_conditions) && (
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              {quotation.notes && (
+              <Separator />
+
+              {/* Customer Information */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <Card>
                   <CardHeader className="pb-3">
-                    <CardTitle className="text-lg">Notes</CardTitle>
+                    <CardTitle className="text-lg flex items-center space-x-2">
+                      <User className="h-5 w-5 text-primary" />
+                      <span>Quote To:</span>
+                    </CardTitle>
                   </CardHeader>
-                  <CardContent>
-                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">{quotation.notes}</p>
+                  <CardContent className="space-y-2">
+                    <div className="font-semibold text-lg">{quotation.customers?.name}</div>
+                    {quotation.customers?.email && (
+                      <div className="flex items-center space-x-2 text-sm">
+                        <Mail className="h-4 w-4 text-muted-foreground" />
+                        <span>{quotation.customers.email}</span>
+                      </div>
+                    )}
+                    {quotation.customers?.phone && (
+                      <div className="flex items-center space-x-2 text-sm">
+                        <Phone className="h-4 w-4 text-muted-foreground" />
+                        <span>{quotation.customers.phone}</span>
+                      </div>
+                    )}
+                    {quotation.customers?.address && (
+                      <div className="flex items-start space-x-2 text-sm">
+                        <MapPin className="h-4 w-4 text-muted-foreground mt-0.5" />
+                        <div>
+                          <div>{quotation.customers.address}</div>
+                          {quotation.customers?.city && (
+                            <div>{quotation.customers.city}, {quotation.customers?.country || 'Kenya'}</div>
+                          )}
+                        </div>
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
-              )}
 
-              {quotation.terms_and_conditions && (
                 <Card>
                   <CardHeader className="pb-3">
-                    <CardTitle className="text-lg">Terms and Conditions</CardTitle>
+                    <CardTitle className="text-lg flex items-center space-x-2">
+                      <Calendar className="h-5 w-5 text-primary" />
+                      <span>Quotation Details</span>
+                    </CardTitle>
                   </CardHeader>
-                  <CardContent>
-                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">{quotation.terms_and_conditions}</p>
+                  <CardContent className="space-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Status:</span>
+                      <Badge variant="outline" className={quotationStatusColor(quotation.status)}>
+                        {quotationStatusLabel(quotation.status)}
+                      </Badge>
+                    </div>
+                    {quotation.status_reason && (
+                      <div className="flex justify-between gap-4">
+                        <span className="text-muted-foreground">{quotation.status === 'accepted' ? 'Note:' : 'Reason:'}</span>
+                        <span className="text-right">{quotation.status_reason}</span>
+                      </div>
+                    )}
+                    {quotation.competitor && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Competitor:</span>
+                        <span>{quotation.competitor}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Quote Date:</span>
+                      <span>{formatDate(quotation.quotation_date)}</span>
+                    </div>
+                    {quotation.valid_until && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Valid Until:</span>
+                        <span>{formatDate(quotation.valid_until)}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Total Amount:</span>
+                      <span className="font-semibold text-primary">{formatCurrency(quotation.total_amount || 0)}</span>
+                    </div>
                   </CardContent>
                 </Card>
+              </div>
+
+              {/* Items Table */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Items</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {quotation.quotation_items && quotation.quotation_items.length > 0 ? (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Item Description</TableHead>
+                          <TableHead className="text-center">Qty</TableHead>
+                          <TableHead className="text-center">Unit Pack</TableHead>
+                          <TableHead className="text-right">Unit Price</TableHead>
+                          <TableHead className="text-center">Discount %</TableHead>
+                          <TableHead className="text-right">Total Price</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {quotation.quotation_items.map((item: any, index: number) => (
+                          <TableRow key={index}>
+                            <TableCell>
+                              <div>
+                                <div className="font-medium">{item.description}</div>
+                                {item.products?.name && item.products.name !== item.description && (
+                                  <div className="text-sm text-muted-foreground">{item.products.name}</div>
+                                )}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-center">{item.quantity}</TableCell>
+                            <TableCell className="text-center">{item.products?.unit_of_measure || 'Each'}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(item.unit_price)}</TableCell>
+                            <TableCell className="text-center">{item.discount_percentage || 0}%</TableCell>
+                            <TableCell className="text-right font-semibold">{formatCurrency(item.line_total)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  ) : (
+                    <div className="text-center py-8 text-muted-foreground">
+                      No items found for this quotation
+                    </div>
+                  )}
+
+                  {/* Totals */}
+                  <div className="mt-6 border-t pt-4">
+                    <div className="flex justify-end">
+                      <div className="w-80 space-y-2">
+                        <div className="flex justify-between">
+                          <span>Subtotal:</span>
+                          <span className="font-semibold">{formatCurrency(quotation.subtotal || 0)}</span>
+                        </div>
+                        {quotation.discount_amount > 0 && (
+                          <div className="flex justify-between">
+                            <span>Discount:</span>
+                            <span className="font-semibold text-destructive">-{formatCurrency(quotation.discount_amount)}</span>
+                          </div>
+                        )}
+                        <div className="flex justify-between">
+                          <span>Tax:</span>
+                          <span className="font-semibold">{formatCurrency(quotation.tax_amount || 0)}</span>
+                        </div>
+                        <div className="flex justify-between text-lg border-t pt-2">
+                          <span className="font-bold">Total Amount:</span>
+                          <span className="font-bold text-primary">{formatCurrency(quotation.total_amount || 0)}</span>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Notes and Terms */}
+              {(quotation.notes || quotation.terms_and_conditions) && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {quotation.notes && (
+                    <Card>
+                      <CardHeader className="pb-3">
+                        <CardTitle className="text-lg">Notes</CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <p className="text-sm text-muted-foreground whitespace-pre-wrap">{quotation.notes}</p>
+                      </CardContent>
+                    </Card>
+                  )}
+
+                  {quotation.terms_and_conditions && (
+                    <Card>
+                      <CardHeader className="pb-3">
+                        <CardTitle className="text-lg">Terms and Conditions</CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <p className="text-sm text-muted-foreground whitespace-pre-wrap">{quotation.terms_and_conditions}</p>
+                      </CardContent>
+                    </Card>
+                  )}
+                </div>
               )}
-            </div>
-          )}
 
-          {/* Footer */}
-          <div className="text-center text-sm text-muted-foreground pt-6 border-t">
-            <div className="mb-2 flex justify-center">
-              {currentCompany?.logo_url ? (
-                <img
-                  src={currentCompany.logo_url}
-                  alt={`${currentCompany.name} Logo`}
-                  className="h-12 w-auto object-contain"
-                  onError={(e) => {
-                    // Fallback to BiolegendLogo if company logo fails to load
-                    (e.target as HTMLImageElement).style.display = 'none';
-                    (e.target as HTMLElement).nextElementSibling?.setAttribute('style', 'display: block');
-                  }}
-                />
-              ) : null}
-              <BiolegendLogo size="sm" showText={true} className="justify-center" style={{ display: currentCompany?.logo_url ? 'none' : 'block' }} />
+              {/* Footer */}
+              <div className="text-center text-sm text-muted-foreground pt-6 border-t">
+                <div className="mb-2 flex justify-center">
+                  {currentCompany?.logo_url ? (
+                    <img
+                      src={currentCompany.logo_url}
+                      alt={`${currentCompany.name} Logo`}
+                      className="h-12 w-auto object-contain"
+                      onError={(e) => {
+                        // Fallback to BiolegendLogo if company logo fails to load
+                        (e.target as HTMLImageElement).style.display = 'none';
+                        (e.target as HTMLElement).nextElementSibling?.setAttribute('style', 'display: block');
+                      }}
+                    />
+                  ) : null}
+                  <BiolegendLogo size="sm" showText={true} className="justify-center" style={{ display: currentCompany?.logo_url ? 'none' : 'block' }} />
+                </div>
+                <div>{currentCompany?.name || 'Your Medical & Laboratory Supplies Partner'}</div>
+                {currentCompany?.business_description ? (
+                  <div className="mt-1">{currentCompany.business_description}</div>
+                ) : (
+                  <div className="mt-1">Medical Supplies • Laboratory Supplies • Technical Equipment</div>
+                )}
+              </div>
             </div>
-            <div>{currentCompany?.name || 'Your Medical & Laboratory Supplies Partner'}</div>
-            {currentCompany?.business_description ? (
-              <div className="mt-1">{currentCompany.business_description}</div>
-            ) : (
-              <div className="mt-1">Medical Supplies • Laboratory Supplies • Technical Equipment</div>
-            )}
-          </div>
-        </div>
+          </TabsContent>
+
+          <TabsContent value="history">
+            <AuditHistory entityType="quotations" entityId={quotation.id} />
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,412 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Repeat, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { useCustomers, useProducts, useTaxSettings } from '@/hooks/useDatabase';
+import {
+  useCreateRecurringInvoice,
+  useUpdateRecurringInvoice,
+  type RecurringInvoice,
+  type RecurringInvoiceItem,
+} from '@/hooks/useRecurringInvoices';
+import {
+  firstRunOnOrAfter,
+  RECURRING_FREQUENCIES,
+  recurringLineTotals,
+  recurringTotals,
+  todayString,
+  upcomingRunDates,
+  type RecurringFrequency,
+} from '@/utils/recurringInvoices';
+
+interface RecurringInvoiceModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  recurringInvoice?: RecurringInvoice | null;
+}
+
+const NO_PRODUCT = '__none__';
+
+const formatCurrency = (amount: number) => new Intl.NumberFormat('en-KE', {
+  style: 'currency',
+  currency: 'KES',
+}).format(Number(amount || 0));
+
+export function RecurringInvoiceModal({ open, onOpenChange, recurringInvoice }: RecurringInvoiceModalProps) {
+  const { currentCompany } = useCurrentCompany();
+  const { data: customers = [] } = useCustomers(currentCompany?.id);
+  const { data: products = [] } = useProducts(currentCompany?.id);
+  const { data: taxSettings } = useTaxSettings(currentCompany?.id);
+  const createRecurring = useCreateRecurringInvoice();
+  const updateRecurring = useUpdateRecurringInvoice();
+
+  const defaultTaxRate = taxSettings?.find(tax => tax.is_default && tax.is_active)?.rate ?? 16;
+  const emptyLine = useCallback((): RecurringInvoiceItem => ({
+    product_id: null,
+    description: '',
+    quantity: 1,
+    unit_price: 0,
+    discount_before_vat: 0,
+    tax_percentage: defaultTaxRate,
+    tax_inclusive: true,
+  }), [defaultTaxRate]);
+
+  const [customerId, setCustomerId] = useState('');
+  const [name, setName] = useState('');
+  const [frequency, setFrequency] = useState<RecurringFrequency>('monthly');
+  const [intervalCount, setIntervalCount] = useState(1);
+  const [startDate, setStartDate] = useState(todayString());
+  const [endDate, setEndDate] = useState('');
+  const [paymentTermsDays, setPaymentTermsDays] = useState(30);
+  const [autoSend, setAutoSend] = useState(false);
+  const [affectsInventory, setAffectsInventory] = useState(false);
+  const [lpoNumber, setLpoNumber] = useState('');
+  const [notes, setNotes] = useState('');
+  const [termsAndConditions, setTermsAndConditions] = useState('Payment due within 30 days of invoice date.');
+  const [lines, setLines] = useState<RecurringInvoiceItem[]>([]);
+
+  const isEditing = !!recurringInvoice;
+  const isSubmitting = createRecurring.isPending || updateRecurring.isPending;
+
+  useEffect(() => {
+    if (!open) return;
+    if (recurringInvoice) {
+      setCustomerId(recurringInvoice.customer_id);
+      setName(recurringInvoice.name);
+      setFrequency(recurringInvoice.frequency);
+      setIntervalCount(recurringInvoice.interval_count || 1);
+      setStartDate(recurringInvoice.start_date);
+      setEndDate(recurringInvoice.end_date || '');
+      setPaymentTermsDays(recurringInvoice.payment_terms_days ?? 30);
+      setAutoSend(!!recurringInvoice.auto_send);
+      setAffectsInventory(!!recurringInvoice.affects_inventory);
+      setLpoNumber(recurringInvoice.lpo_number || '');
+      setNotes(recurringInvoice.notes || '');
+      setTermsAndConditions(recurringInvoice.terms_and_conditions || '');
+      setLines(
+        [...(recurringInvoice.recurring_invoice_items || [])]
+          .sort((a, b) => (a.sort_order || 0) - (b.sort_order || 0))
+          .map(item => ({
+            product_id: item.product_id || null,
+            description: item.description,
+            quantity: Number(item.quantity),
+            unit_price: Number(item.unit_price),
+            discount_before_vat: Number(item.discount_before_vat || 0),
+            tax_percentage: Number(item.tax_percentage || 0),
+            tax_inclusive: !!item.tax_inclusive,
+          }))
+      );
+    } else {
+      setCustomerId('');
+      setName('');
+      setFrequency('monthly');
+      setIntervalCount(1);
+      setStartDate(todayString());
+      setEndDate('');
+      setPaymentTermsDays(30);
+      setAutoSend(false);
+      setAffectsInventory(false);
+      setLpoNumber('');
+      setNotes('');
+      setTermsAndConditions('Payment due within 30 days of invoice date.');
+      setLines([emptyLine()]);
+    }
+  }, [open, recurringInvoice, emptyLine]);
+
+  const totals = useMemo(() => recurringTotals(lines), [lines]);
+
+  const schedule = { frequency, interval_count: intervalCount, start_date: startDate, end_date: endDate || null };
+  const preview = startDate
+    ? upcomingRunDates({ ...schedule, next_run_date: firstRunOnOrAfter(schedule, isEditing ? todayString() : startDate) }, 4)
+    : [];
+
+  const updateLine = (index: number, changes: Partial<RecurringInvoiceItem>) => {
+    setLines(prev => prev.map((line, i) => i === index ? { ...line, ...changes } : line));
+  };
+
+  const handleProductChange = (index: number, productId: string) => {
+    if (productId === NO_PRODUCT) {
+      updateLine(index, { product_id: null });
+      return;
+    }
+    const product = products.find(p => p.id === productId);
+    if (!product) return;
+    updateLine(index, {
+      product_id: product.id,
+      description: product.description || product.name,
+      unit_price: Number(product.selling_price || 0),
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!currentCompany?.id) {
+      toast.error('Company not found. Please refresh and try again.');
+      return;
+    }
+    if (!customerId) {
+      toast.error('Select the customer to bill');
+      return;
+    }
+    if (!name.trim()) {
+      toast.error('Give this recurring invoice a name');
+      return;
+    }
+    if (endDate && endDate < startDate) {
+      toast.error('End date cannot be before the start date');
+      return;
+    }
+    const billable = lines.filter(l => Number(l.quantity) > 0);
+    if (billable.length === 0) {
+      toast.error('Add at least one line with a quantity');
+      return;
+    }
+    if (billable.some(l => !l.description.trim())) {
+      toast.error('Every line needs a description');
+      return;
+    }
+
+    const template = {
+      company_id: currentCompany.id,
+      customer_id: customerId,
+      name: name.trim(),
+      frequency,
+      interval_count: Math.max(1, Number(intervalCount) || 1),
+      start_date: startDate,
+      end_date: endDate || null,
+      payment_terms_days: Math.max(0, Number(paymentTermsDays) || 0),
+      auto_send: autoSend,
+      affects_inventory: affectsInventory,
+      lpo_number: lpoNumber.trim() || null,
+      notes: notes.trim() || null,
+      terms_and_conditions: termsAndConditions.trim() || null,
+      status: recurringInvoice?.status,
+    };
+
+    try {
+      if (recurringInvoice) {
+        await updateRecurring.mutateAsync({ id: recurringInvoice.id, template, items: billable });
+      } else {
+        await createRecurring.mutateAsync({ template, items: billable });
+      }
+      onOpenChange(false);
+    } catch {
+      // Errors are reported by the mutation hooks
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Repeat className="h-5 w-5 text-primary" />
+            <span>{isEditing ? `Edit ${recurringInvoice?.name}` : 'New Recurring Invoice'}</span>
+          </DialogTitle>
+          <DialogDescription>
+            An invoice with these lines is raised for the customer on every billing date in the schedule.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Customer *</Label>
+              <Select value={customerId} onValueChange={setCustomerId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select customer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {customers.map(c => (
+                    <SelectItem key={c.id} value={c.id}>{c.name} ({c.customer_code})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurring_name">Name *</Label>
+              <Input id="recurring_name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Generator hire - monthly" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurring_lpo">LPO Number</Label>
+              <Input id="recurring_lpo" value={lpoNumber} onChange={(e) => setLpoNumber(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Frequency</Label>
+              <div className="flex space-x-2">
+                <Input
+                  type="number"
+                  min={1}
+                  className="w-20"
+                  value={intervalCount}
+                  onChange={(e) => setIntervalCount(Number(e.target.value) || 1)}
+                  title="Every how many periods"
+                />
+                <Select value={frequency} onValueChange={(value) => setFrequency(value as RecurringFrequency)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RECURRING_FREQUENCIES.map(f => (
+                      <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurring_start">Start Date *</Label>
+              <Input id="recurring_start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurring_end">End Date</Label>
+              <Input id="recurring_end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurring_terms_days">Payment Terms (days)</Label>
+              <Input
+                id="recurring_terms_days"
+                type="number"
+                min={0}
+                value={paymentTermsDays}
+                onChange={(e) => setPaymentTermsDays(Number(e.target.value) || 0)}
+              />
+            </div>
+            <div className="space-y-3 md:col-span-2 pt-6">
+              <div className="flex items-center space-x-2">
+                <Checkbox id="recurring_auto_send" checked={autoSend} onCheckedChange={(checked) => setAutoSend(!!checked)} />
+                <Label htmlFor="recurring_auto_send" className="font-normal">
+                  Mark generated invoices as sent (otherwise they are left as drafts for review)
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox id="recurring_affects_inventory" checked={affectsInventory} onCheckedChange={(checked) => setAffectsInventory(!!checked)} />
+                <Label htmlFor="recurring_affects_inventory" className="font-normal">
+                  Deduct stock for product lines on each invoice
+                </Label>
+              </div>
+            </div>
+          </div>
+
+          {preview.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Next billing dates: {preview.map(d => new Date(d).toLocaleDateString()).join(', ')}
+            </p>
+          )}
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-48">Product</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="w-24">Qty</TableHead>
+                <TableHead className="w-32">Unit Price</TableHead>
+                <TableHead className="w-24">Disc. %</TableHead>
+                <TableHead className="w-20">VAT %</TableHead>
+                <TableHead className="w-16">VAT</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.map((line, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <Select value={line.product_id || NO_PRODUCT} onValueChange={(value) => handleProductChange(index, value)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_PRODUCT}>Service / other</SelectItem>
+                        {products.map(p => (
+                          <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input value={line.description} onChange={(e) => updateLine(index, { description: e.target.value })} placeholder="Item or service" />
+                  </TableCell>
+                  <TableCell>
+                    <Input type="number" min={0} step="any" value={line.quantity} onChange={(e) => updateLine(index, { quantity: Number(e.target.value) || 0 })} />
+                  </TableCell>
+                  <TableCell>
+                    <Input type="number" min={0} step="0.01" value={line.unit_price} onChange={(e) => updateLine(index, { unit_price: Number(e.target.value) || 0 })} />
+                  </TableCell>
+                  <TableCell>
+                    <Input type="number" min={0} max={100} step="any" value={line.discount_before_vat || 0} onChange={(e) => updateLine(index, { discount_before_vat: Number(e.target.value) || 0 })} />
+                  </TableCell>
+                  <TableCell>
+                    <Input type="number" min={0} step="any" value={line.tax_percentage} onChange={(e) => updateLine(index, { tax_percentage: Number(e.target.value) || 0 })} />
+                  </TableCell>
+                  <TableCell>
+                    <Checkbox checked={line.tax_inclusive} onCheckedChange={(checked) => updateLine(index, { tax_inclusive: !!checked })} />
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(recurringLineTotals(line).line_total)}</TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="icon" onClick={() => setLines(prev => prev.filter((_, i) => i !== index))} disabled={lines.length === 1}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="flex justify-between items-start">
+            <Button type="button" variant="outline" size="sm" onClick={() => setLines(prev => [...prev, emptyLine()])}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Line
+            </Button>
+            <div className="space-y-1 text-right">
+              <div className="text-sm">Subtotal: {formatCurrency(totals.subtotal)}</div>
+              <div className="text-sm">VAT: {formatCurrency(totals.tax_amount)}</div>
+              <div className="text-lg font-semibold">Per invoice: {formatCurrency(totals.total_amount)}</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recurring_notes">Notes</Label>
+              <Textarea id="recurring_notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurring_terms">Terms and Conditions</Label>
+              <Textarea id="recurring_terms" value={termsAndConditions} onChange={(e) => setTermsAndConditions(e.target.value)} rows={3} />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !customerId}>
+            <Repeat className="h-4 w-4 mr-2" />
+            {isSubmitting ? 'Saving...' : isEditing ? 'Save Changes' : 'Create Schedule'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
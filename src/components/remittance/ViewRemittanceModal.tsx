@@ -21,6 +21,8 @@ import {
 } from 'lucide-react';
 import { downloadRemittancePDF } from '@/utils/pdfGenerator';
 import { toast } from 'sonner';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AuditHistory } from '@/components/audit/AuditHistory';
 
 interface ViewRemittanceModalProps {
   open: boolean;
@@ -106,177 +108,190 @@ export function ViewRemittanceModal({
           </DialogDescription>
         </DialogHeader>
 
-        <div className="space-y-6">
-          {/* Header Information */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center justify-between">
-                <div className="flex items-center space-x-2">
-                  <CreditCard className="h-5 w-5 text-primary" />
-                  <span>Remittance Advice #{remittance.advice_number || remittance.adviceNumber}</span>
-                </div>
-                <Badge className={getStatusColor(remittance.status || 'draft')}>
-                  {(remittance.status || 'draft').charAt(0).toUpperCase() + (remittance.status || 'draft').slice(1)}
-                </Badge>
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-2 gap-6">
-                <div className="space-y-4">
-                  <div className="flex items-center space-x-2">
-                    <Calendar className="h-4 w-4 text-muted-foreground" />
-                    <span className="font-medium">Date:</span>
-                    <span>{formatDate(remittance.advice_date || remittance.date || new Date())}</span>
-                  </div>
-                  
-                  <div className="flex items-center space-x-2">
-                    <DollarSign className="h-4 w-4 text-muted-foreground" />
-                    <span className="font-medium">Total Payment:</span>
-                    <span className="text-lg font-bold text-primary">
-                      {formatCurrency(remittance.total_payment || remittance.totalPayment || 0)}
-                    </span>
-                  </div>
-                </div>
+        <Tabs defaultValue="details">
+          <TabsList>
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
 
-                <div className="space-y-4">
-                  <div>
-                    <div className="flex items-center space-x-2 mb-2">
-                      <User className="h-4 w-4 text-muted-foreground" />
-                      <span className="font-medium">Customer:</span>
+          <TabsContent value="details" className="space-y-4">
+            <div className="space-y-6">
+              {/* Header Information */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <CreditCard className="h-5 w-5 text-primary" />
+                      <span>Remittance Advice #{remittance.advice_number || remittance.adviceNumber}</span>
                     </div>
-                    <div className="ml-6">
-                      <div className="font-semibold">
-                        {remittance.customers?.name || remittance.customerName || 'N/A'}
+                    <Badge className={getStatusColor(remittance.status || 'draft')}>
+                      {(remittance.status || 'draft').charAt(0).toUpperCase() + (remittance.status || 'draft').slice(1)}
+                    </Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 gap-6">
+                    <div className="space-y-4">
+                      <div className="flex items-center space-x-2">
+                        <Calendar className="h-4 w-4 text-muted-foreground" />
+                        <span className="font-medium">Date:</span>
+                        <span>{formatDate(remittance.advice_date || remittance.date || new Date())}</span>
+                      </div>
+
+                      <div className="flex items-center space-x-2">
+                        <DollarSign className="h-4 w-4 text-muted-foreground" />
+                        <span className="font-medium">Total Payment:</span>
+                        <span className="text-lg font-bold text-primary">
+                          {formatCurrency(remittance.total_payment || remittance.totalPayment || 0)}
+                        </span>
                       </div>
-                      <div className="text-sm text-muted-foreground">
-                        {remittance.customers?.address || remittance.customerAddress || 'N/A'}
+                    </div>
+
+                    <div className="space-y-4">
+                      <div>
+                        <div className="flex items-center space-x-2 mb-2">
+                          <User className="h-4 w-4 text-muted-foreground" />
+                          <span className="font-medium">Customer:</span>
+                        </div>
+                        <div className="ml-6">
+                          <div className="font-semibold">
+                            {remittance.customers?.name || remittance.customerName || 'N/A'}
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            {remittance.customers?.address || remittance.customerAddress || 'N/A'}
+                          </div>
+                        </div>
                       </div>
                     </div>
                   </div>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
+                </CardContent>
+              </Card>
 
-          {/* Company Information */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center space-x-2">
-                <Building2 className="h-5 w-5 text-primary" />
-                <span>From: Layons Construction Limited</span>
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-2 text-sm">
-                <div>P.O BOX, Nairobi, Kenya</div>
-                <div>Tel: 0720717463</div>
-                <div>Email: layonscoltd@gmail.com</div>
-                <div>Website: </div>
-                <div className="text-xs italic text-primary/70"></div>
-              </div>
-            </CardContent>
-          </Card>
+              {/* Company Information */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Building2 className="h-5 w-5 text-primary" />
+                    <span>From: Layons Construction Limited</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2 text-sm">
+                    <div>P.O BOX, Nairobi, Kenya</div>
+                    <div>Tel: 0720717463</div>
+                    <div>Email: layonscoltd@gmail.com</div>
+                    <div>Website: </div>
+                    <div className="text-xs italic text-primary/70"></div>
+                  </div>
+                </CardContent>
+              </Card>
 
-          {/* Payment Items */}
-          {((remittance.remittance_advice_items && remittance.remittance_advice_items.length > 0) ||
-            (remittance.items && remittance.items.length > 0)) && (
-            <Card>
-              <CardHeader>
-                <CardTitle>Payment Details</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Date</TableHead>
-                      <TableHead>Document Number</TableHead>
-                      <TableHead>Document Type</TableHead>
-                      <TableHead className="text-right">Invoice Amount</TableHead>
-                      <TableHead className="text-right">Credit Amount</TableHead>
-                      <TableHead className="text-right">Payment</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {/* Display database items (remittance_advice_items) if available */}
-                    {(remittance.remittance_advice_items || []).map((item: any, index: number) => (
-                      <TableRow key={item.id || index}>
-                        <TableCell>{formatDate(item.document_date)}</TableCell>
-                        <TableCell>{item.document_number || 'N/A'}</TableCell>
-                        <TableCell>
-                          <Badge variant="outline">
-                            {item.document_type?.charAt(0).toUpperCase() + item.document_type?.slice(1) || 'Payment'}
-                          </Badge>
-                        </TableCell>
-                        <TableCell className="text-right">
-                          {item.invoice_amount ? formatCurrency(item.invoice_amount) : ''}
-                        </TableCell>
-                        <TableCell className="text-right">
-                          {item.credit_amount ? formatCurrency(item.credit_amount) : ''}
-                        </TableCell>
-                        <TableCell className="text-right font-medium">
-                          {formatCurrency(item.payment_amount || 0)}
-                        </TableCell>
-                      </TableRow>
-                    ))}
+              {/* Payment Items */}
+              {((remittance.remittance_advice_items && remittance.remittance_advice_items.length > 0) ||
+                (remittance.items && remittance.items.length > 0)) && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Payment Details</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Document Number</TableHead>
+                          <TableHead>Document Type</TableHead>
+                          <TableHead className="text-right">Invoice Amount</TableHead>
+                          <TableHead className="text-right">Credit Amount</TableHead>
+                          <TableHead className="text-right">Payment</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {/* Display database items (remittance_advice_items) if available */}
+                        {(remittance.remittance_advice_items || []).map((item: any, index: number) => (
+                          <TableRow key={item.id || index}>
+                            <TableCell>{formatDate(item.document_date)}</TableCell>
+                            <TableCell>{item.document_number || 'N/A'}</TableCell>
+                            <TableCell>
+                              <Badge variant="outline">
+                                {item.document_type?.charAt(0).toUpperCase() + item.document_type?.slice(1) || 'Payment'}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {item.invoice_amount ? formatCurrency(item.invoice_amount) : ''}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {item.credit_amount ? formatCurrency(item.credit_amount) : ''}
+                            </TableCell>
+                            <TableCell className="text-right font-medium">
+                              {formatCurrency(item.payment_amount || 0)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
 
-                    {/* Fallback to legacy items format if no database items */}
-                    {(!remittance.remittance_advice_items || remittance.remittance_advice_items.length === 0) &&
-                     (remittance.items || []).map((item: any, index: number) => (
-                      <TableRow key={index}>
-                        <TableCell>{formatDate(item.date)}</TableCell>
-                        <TableCell>{item.invoiceNumber || item.creditNote || 'N/A'}</TableCell>
-                        <TableCell>
-                          <Badge variant="outline">
-                            {item.invoiceNumber ? 'Invoice' : item.creditNote ? 'Credit Note' : 'Payment'}
-                          </Badge>
-                        </TableCell>
-                        <TableCell className="text-right">
-                          {item.invoiceAmount ? formatCurrency(item.invoiceAmount) : ''}
-                        </TableCell>
-                        <TableCell className="text-right">
-                          {item.creditAmount ? formatCurrency(item.creditAmount) : ''}
-                        </TableCell>
-                        <TableCell className="text-right font-medium">
-                          {formatCurrency(item.payment || 0)}
-                        </TableCell>
-                      </TableRow>
-                    ))}
+                        {/* Fallback to legacy items format if no database items */}
+                        {(!remittance.remittance_advice_items || remittance.remittance_advice_items.length === 0) &&
+                         (remittance.items || []).map((item: any, index: number) => (
+                          <TableRow key={index}>
+                            <TableCell>{formatDate(item.date)}</TableCell>
+                            <TableCell>{item.invoiceNumber || item.creditNote || 'N/A'}</TableCell>
+                            <TableCell>
+                              <Badge variant="outline">
+                                {item.invoiceNumber ? 'Invoice' : item.creditNote ? 'Credit Note' : 'Payment'}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {item.invoiceAmount ? formatCurrency(item.invoiceAmount) : ''}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {item.creditAmount ? formatCurrency(item.creditAmount) : ''}
+                            </TableCell>
+                            <TableCell className="text-right font-medium">
+                              {formatCurrency(item.payment || 0)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
 
-                    <TableRow className="border-t-2">
-                      <TableCell colSpan={5} className="font-semibold">Total Payment</TableCell>
-                      <TableCell className="text-right font-bold text-lg">
-                        {formatCurrency(remittance.total_payment || remittance.totalPayment || 0)}
-                      </TableCell>
-                    </TableRow>
-                  </TableBody>
-                </Table>
-              </CardContent>
-            </Card>
-          )}
+                        <TableRow className="border-t-2">
+                          <TableCell colSpan={5} className="font-semibold">Total Payment</TableCell>
+                          <TableCell className="text-right font-bold text-lg">
+                            {formatCurrency(remittance.total_payment || remittance.totalPayment || 0)}
+                          </TableCell>
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              )}
 
-          {/* Notes */}
-          {remittance.notes && (
-            <Card>
-              <CardHeader>
-                <CardTitle>Notes</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <p className="text-sm whitespace-pre-wrap">{remittance.notes}</p>
-              </CardContent>
-            </Card>
-          )}
+              {/* Notes */}
+              {remittance.notes && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Notes</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-sm whitespace-pre-wrap">{remittance.notes}</p>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Actions */}
+              <div className="flex justify-end space-x-4">
+                <Button variant="outline" onClick={() => onOpenChange(false)}>
+                  Close
+                </Button>
+                <Button onClick={handleDownload}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download PDF
+                </Button>
+              </div>
+            </div>
+          </TabsContent>
 
-          {/* Actions */}
-          <div className="flex justify-end space-x-4">
-            <Button variant="outline" onClick={() => onOpenChange(false)}>
-              Close
-            </Button>
-            <Button onClick={handleDownload}>
-              <Download className="h-4 w-4 mr-2" />
-              Download PDF
-            </Button>
-          </div>
-        </div>
+          <TabsContent value="history">
+            <AuditHistory entityType="remittance_advice" entityId={remittance.id} />
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
@@ -4,9 +4,11 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Download, Send, X, AlertCircle, CheckCircle, Clock } from 'lucide-react';
-import { usePayments, useCompanies } from '@/hooks/useDatabase';
+import { usePayments } from '@/hooks/useDatabase';
 import { useInvoicesFixed as useInvoices } from '@/hooks/useInvoicesFixed';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
 import { generateCustomerStatementPDF } from '@/utils/pdfGenerator';
+import { customerUnallocatedCredit } from '@/utils/customerCredit';
 import { toast } from 'sonner';
 
 interface CustomerStatementPreviewModalProps {
@@ -33,13 +35,14 @@ export default function CustomerStatementPreviewModal({
   customer,
   statementDate = new Date().toISOString().split('T')[0]
 }: CustomerStatementPreviewModalProps) {
-  const { data: companies } = useCompanies();
-  const { data: invoices } = useInvoices();
-  const { data: payments } = usePayments();
+  const { currentCompany } = useCurrentCompany();
+  const { data: invoices } = useInvoices(currentCompany?.id);
+  const { data: payments } = usePayments(currentCompany?.id);
 
   // Get customer's invoices and payments
   const customerInvoices = invoices?.filter(inv => inv.customer_id === customer.customer_id) || [];
   const customerPayments = payments?.filter(pay => pay.customer_id === customer.customer_id) || [];
+  const unallocatedCredit = customerUnallocatedCredit(customerPayments);
   
   // Get outstanding invoices
   const outstandingInvoices = customerInvoices.filter(inv => 
@@ -94,15 +97,15 @@ export default function CustomerStatementPreviewModal({
       };
       
       // Get current company details for PDF
-      const companyDetails = companies?.[0] ? {
-        name: companies[0].name,
-        address: companies[0].address,
-        city: companies[0].city,
-        country: companies[0].country,
-        phone: companies[0].phone,
-        email: companies[0].email,
-        tax_number: companies[0].tax_number,
-        logo_url: companies[0].logo_url
+      const companyDetails = currentCompany ? {
+        name: currentCompany.name,
+        address: currentCompany.address,
+        city: currentCompany.city,
+        country: currentCompany.country,
+        phone: currentCompany.phone,
+        email: currentCompany.email,
+        tax_number: currentCompany.tax_number,
+        logo_url: currentCompany.logo_url
       } : undefined;
 
       await generateCustomerStatementPDF(customerData, customerInvoices, customerPayments, {
@@ -163,6 +166,14 @@ export default function CustomerStatementPreviewModal({
                   <p className="font-medium">{customer.days_overdue > 0 ? `${customer.days_overdue} days` : 'Current'}</p>
                 </div>
               </div>
+              {unallocatedCredit > 0 && (
+                <div className="mt-4 pt-4 border-t flex items-center justify-between">
+                  <p className="text-sm text-muted-foreground">
+                    Unallocated credit on account (deposits and overpayments not yet applied to an invoice)
+                  </p>
+                  <p className="font-bold text-base text-success">${unallocatedCredit.toFixed(2)}</p>
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -0,0 +1,364 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FileInput, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  useApproveSupplierBill,
+  useCreateSupplierBill,
+  useGenerateDocumentNumber,
+  useLPOBilledItems,
+  useLPOReceipts,
+  useLPOs,
+  useSuppliers,
+  type SupplierBill
+} from '@/hooks/useDatabase';
+import {
+  billLinesFromLPO,
+  billLineTotals,
+  billMatchStatus,
+  billTotals,
+  matchBillLine,
+  SupplierBillLine,
+  unbilledReceived
+} from '@/utils/accountsPayable';
+
+interface CreateSupplierBillModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: (bill: SupplierBill) => void;
+}
+
+// LPOs a supplier can bill against
+const BILLABLE_LPO_STATUSES = ['approved', 'partially_received', 'received'];
+const NO_LPO = '__none__';
+
+const addDays = (date: string, days: number) => {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d.toISOString().split('T')[0];
+};
+
+const emptyLine = (): SupplierBillLine => ({ description: '', quantity: 1, unit_price: 0, tax_percentage: 0 });
+
+export function CreateSupplierBillModal({ open, onOpenChange, onSuccess }: CreateSupplierBillModalProps) {
+  const { currentCompany } = useCurrentCompany();
+  const { profile } = useAuth();
+  const { data: suppliers = [] } = useSuppliers(currentCompany?.id);
+  const { data: lpos = [] } = useLPOs(currentCompany?.id);
+  const generateDocNumber = useGenerateDocumentNumber();
+  const createBill = useCreateSupplierBill();
+  const approveBill = useApproveSupplierBill();
+
+  const [supplierId, setSupplierId] = useState('');
+  const [lpoId, setLpoId] = useState(NO_LPO);
+  const [supplierInvoiceNumber, setSupplierInvoiceNumber] = useState('');
+  const [billDate, setBillDate] = useState(new Date().toISOString().split('T')[0]);
+  const [dueDate, setDueDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<SupplierBillLine[]>([emptyLine()]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const selectedLPOId = lpoId !== NO_LPO ? lpoId : undefined;
+  const { data: receivedItems, isLoading: loadingReceipts } = useLPOReceipts(open ? selectedLPOId : undefined);
+  const { data: billedItems, isLoading: loadingBilled } = useLPOBilledItems(open ? selectedLPOId : undefined);
+
+  const supplier = suppliers.find(s => s.id === supplierId);
+  const supplierLPOs = lpos.filter(l => l.supplier_id === supplierId && BILLABLE_LPO_STATUSES.includes(l.status));
+  const selectedLPO = lpos.find(l => l.id === selectedLPOId);
+
+  useEffect(() => {
+    if (!open) return;
+    const today = new Date().toISOString().split('T')[0];
+    setSupplierId('');
+    setLpoId(NO_LPO);
+    setSupplierInvoiceNumber('');
+    setBillDate(today);
+    setDueDate(today);
+    setNotes('');
+    setLines([emptyLine()]);
+  }, [open]);
+
+  // Due date follows the supplier's payment terms
+  useEffect(() => {
+    setDueDate(addDays(billDate, Number(supplier?.payment_terms || 0)));
+  }, [billDate, supplier?.payment_terms]);
+
+  // Picking an LPO replaces the lines with whatever has been received and not yet billed
+  useEffect(() => {
+    if (!selectedLPO || loadingReceipts || loadingBilled) return;
+    setLines(billLinesFromLPO(selectedLPO.lpo_items || [], receivedItems || [], billedItems || []));
+  }, [selectedLPO, receivedItems, billedItems, loadingReceipts, loadingBilled]);
+
+  const totals = useMemo(() => billTotals(lines.filter(l => Number(l.quantity) > 0)), [lines]);
+  const matchStatus = billMatchStatus(lines.filter(l => Number(l.quantity) > 0));
+
+  const formatCurrency = (amount: number) => new Intl.NumberFormat('en-KE', {
+    style: 'currency',
+    currency: 'KES',
+  }).format(amount);
+
+  const updateLine = (index: number, field: keyof SupplierBillLine, value: string | number) => {
+    setLines(prev => prev.map((line, i) => i === index ? { ...line, [field]: value } : line));
+  };
+
+  const handleSupplierChange = (value: string) => {
+    setSupplierId(value);
+    setLpoId(NO_LPO);
+    setLines([emptyLine()]);
+  };
+
+  const handleLPOChange = (value: string) => {
+    setLpoId(value);
+    if (value === NO_LPO) setLines([emptyLine()]);
+  };
+
+  const handleSubmit = async (approve: boolean) => {
+    if (!currentCompany?.id) {
+      toast.error('Company not found. Please refresh and try again.');
+      return;
+    }
+    if (!supplierId) {
+      toast.error('Select the supplier this bill is from');
+      return;
+    }
+    const billable = lines.filter(l => Number(l.quantity) > 0);
+    if (billable.length === 0) {
+      toast.error('Add at least one bill line with a quantity');
+      return;
+    }
+    if (billable.some(l => !l.description.trim())) {
+      toast.error('Every bill line needs a description');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const billNumber = await generateDocNumber.mutateAsync({ companyId: currentCompany.id, type: 'supplier_bill' });
+      const bill = await createBill.mutateAsync({
+        bill: {
+          company_id: currentCompany.id,
+          supplier_id: supplierId,
+          lpo_id: selectedLPOId || null,
+          bill_number: billNumber,
+          supplier_invoice_number: supplierInvoiceNumber.trim() || null,
+          bill_date: billDate,
+          due_date: dueDate || null,
+          notes: notes.trim() || null,
+          created_by: profile?.id || null,
+        },
+        items: billable,
+      });
+
+      if (approve) {
+        await approveBill.mutateAsync({ id: bill.id });
+        toast.success(`Bill ${billNumber} recorded and approved for payment`);
+      } else {
+        toast.success(`Bill ${billNumber} saved as draft`);
+      }
+      onSuccess?.(bill);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error creating supplier bill:', error);
+      const message = error instanceof Error ? error.message : (error as { message?: string })?.message || 'Please try again.';
+      toast.error(`Failed to save bill: ${message}`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const getMatchBadge = (line: SupplierBillLine) => {
+    switch (matchBillLine(line)) {
+      case 'matched':
+        return <Badge variant="outline" className="bg-success-light text-success border-success/20">Matched</Badge>;
+      case 'quantity_variance':
+        return <Badge variant="outline" className="bg-warning-light text-warning border-warning/20">Qty &gt; received</Badge>;
+      case 'price_variance':
+        return <Badge variant="outline" className="bg-warning-light text-warning border-warning/20">Price differs</Badge>;
+      case 'variance':
+        return <Badge variant="outline" className="bg-destructive-light text-destructive border-destructive/20">Qty &amp; price</Badge>;
+      default:
+        return <span className="text-xs text-muted-foreground">No LPO</span>;
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <FileInput className="h-5 w-5 text-primary" />
+            <span>Enter Supplier Bill</span>
+          </DialogTitle>
+          <DialogDescription>
+            Record a supplier invoice. Bills raised from an LPO are matched against what was ordered and received.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Supplier *</Label>
+              <Select value={supplierId} onValueChange={handleSupplierChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers.filter(s => s.is_active !== false).map(s => (
+                    <SelectItem key={s.id} value={s.id}>{s.name} ({s.supplier_code})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Purchase Order</Label>
+              <Select value={lpoId} onValueChange={handleLPOChange} disabled={!supplierId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_LPO}>No LPO (enter lines manually)</SelectItem>
+                  {supplierLPOs.map(l => (
+                    <SelectItem key={l.id} value={l.id}>{l.lpo_number} ({l.status.replace('_', ' ')})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier_invoice_number">Supplier Invoice #</Label>
+              <Input id="supplier_invoice_number" value={supplierInvoiceNumber} onChange={(e) => setSupplierInvoiceNumber(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bill_date">Bill Date</Label>
+              <Input id="bill_date" type="date" value={billDate} onChange={(e) => setBillDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bill_due_date">Due Date</Label>
+              <Input id="bill_due_date" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+              {supplier && (
+                <p className="text-xs text-muted-foreground">
+                  Terms: {supplier.payment_terms ? `${supplier.payment_terms} days` : 'COD'}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Description</TableHead>
+                {selectedLPO && <TableHead className="text-right">Ordered</TableHead>}
+                {selectedLPO && <TableHead className="text-right">Received</TableHead>}
+                {selectedLPO && <TableHead className="text-right">Billed</TableHead>}
+                <TableHead className="w-24">Qty</TableHead>
+                <TableHead className="w-32">Unit Price</TableHead>
+                <TableHead className="w-20">Tax %</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                {selectedLPO ? <TableHead>Match</TableHead> : <TableHead className="w-10" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.map((line, index) => (
+                <TableRow key={line.lpo_item_id || index}>
+                  <TableCell>
+                    {line.lpo_item_id ? (
+                      <span className="font-medium">{line.description}</span>
+                    ) : (
+                      <Input value={line.description} onChange={(e) => updateLine(index, 'description', e.target.value)} placeholder="Item or service" />
+                    )}
+                  </TableCell>
+                  {selectedLPO && <TableCell className="text-right">{line.ordered_quantity}</TableCell>}
+                  {selectedLPO && <TableCell className="text-right">{line.received_quantity}</TableCell>}
+                  {selectedLPO && (
+                    <TableCell className="text-right" title={`${unbilledReceived(line)} received and not yet billed`}>
+                      {line.previously_billed}
+                    </TableCell>
+                  )}
+                  <TableCell>
+                    <Input type="number" min={0} step="any" value={line.quantity} onChange={(e) => updateLine(index, 'quantity', Number(e.target.value) || 0)} />
+                  </TableCell>
+                  <TableCell>
+                    <Input type="number" min={0} step="0.01" value={line.unit_price} onChange={(e) => updateLine(index, 'unit_price', Number(e.target.value) || 0)} />
+                  </TableCell>
+                  <TableCell>
+                    <Input type="number" min={0} step="any" value={line.tax_percentage} onChange={(e) => updateLine(index, 'tax_percentage', Number(e.target.value) || 0)} />
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(billLineTotals(line).total)}</TableCell>
+                  {selectedLPO ? (
+                    <TableCell>{Number(line.quantity) > 0 ? getMatchBadge(line) : <span className="text-xs text-muted-foreground">Not billed</span>}</TableCell>
+                  ) : (
+                    <TableCell>
+                      <Button variant="ghost" size="icon" onClick={() => setLines(prev => prev.filter((_, i) => i !== index))} disabled={lines.length === 1}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="flex justify-between items-start">
+            <div>
+              {!selectedLPO && (
+                <Button type="button" variant="outline" size="sm" onClick={() => setLines(prev => [...prev, emptyLine()])}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Line
+                </Button>
+              )}
+              {matchStatus === 'variance' && (
+                <p className="text-sm text-warning mt-2">
+                  This bill does not match the LPO and goods received. It will need a variance note before it can be approved.
+                </p>
+              )}
+            </div>
+            <div className="space-y-1 text-right">
+              <div className="text-sm">Subtotal: {formatCurrency(totals.subtotal)}</div>
+              <div className="text-sm">Tax: {formatCurrency(totals.tax_amount)}</div>
+              <div className="text-lg font-semibold">Total: {formatCurrency(totals.total_amount)}</div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="bill_notes">Notes</Label>
+            <Textarea id="bill_notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button variant="outline" onClick={() => handleSubmit(false)} disabled={isSubmitting || !supplierId}>
+            Save Draft
+          </Button>
+          <Button onClick={() => handleSubmit(true)} disabled={isSubmitting || !supplierId || matchStatus === 'variance'}>
+            <FileInput className="h-4 w-4 mr-2" />
+            {isSubmitting ? 'Saving...' : 'Save & Approve'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
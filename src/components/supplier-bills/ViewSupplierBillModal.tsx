@@ -0,0 +1,299 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Banknote, CheckCircle, FileInput, Trash2, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useApproveSupplierBill, useCancelSupplierBill, useDeleteSupplierBill, type SupplierBill } from '@/hooks/useDatabase';
+import { usePermission } from '@/hooks/usePermissions';
+import { OPEN_BILL_STATUSES } from '@/utils/accountsPayable';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AuditHistory } from '@/components/audit/AuditHistory';
+
+interface ViewSupplierBillModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bill: SupplierBill | null;
+  onRecordPayment?: (bill: SupplierBill) => void;
+}
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'draft':
+      return 'bg-muted text-muted-foreground border-muted-foreground/20';
+    case 'approved':
+      return 'bg-primary-light text-primary border-primary/20';
+    case 'partial':
+      return 'bg-warning-light text-warning border-warning/20';
+    case 'paid':
+      return 'bg-success-light text-success border-success/20';
+    case 'cancelled':
+      return 'bg-destructive-light text-destructive border-destructive/20';
+    default:
+      return 'bg-muted text-muted-foreground border-muted-foreground/20';
+  }
+};
+
+const getLineMatchLabel = (status?: string) => {
+  switch (status) {
+    case 'matched':
+      return <span className="text-success">Matched</span>;
+    case 'quantity_variance':
+      return <span className="text-warning">Qty &gt; received</span>;
+    case 'price_variance':
+      return <span className="text-warning">Price differs</span>;
+    case 'variance':
+      return <span className="text-destructive">Qty &amp; price</span>;
+    default:
+      return <span className="text-muted-foreground">-</span>;
+  }
+};
+
+export function ViewSupplierBillModal({ open, onOpenChange, bill, onRecordPayment }: ViewSupplierBillModalProps) {
+  const approveBill = useApproveSupplierBill();
+  const cancelBill = useCancelSupplierBill();
+  const deleteBill = useDeleteSupplierBill();
+  const canManagePayables = usePermission('payable.manage');
+  const canPaySuppliers = usePermission('payable.pay');
+  const [varianceNote, setVarianceNote] = useState('');
+
+  useEffect(() => {
+    if (open) setVarianceNote(bill?.variance_note || '');
+  }, [open, bill?.id, bill?.variance_note]);
+
+  if (!bill) return null;
+
+  const formatCurrency = (amount: number) => new Intl.NumberFormat('en-KE', {
+    style: 'currency',
+    currency: 'KES',
+  }).format(Number(amount || 0));
+
+  const formatDate = (date?: string) => date ? new Date(date).toLocaleDateString() : '-';
+
+  const items = [...(bill.supplier_bill_items || [])].sort((a, b) => (a.sort_order || 0) - (b.sort_order || 0));
+  const hasLPO = !!bill.lpo_id;
+
+  const handleApprove = async () => {
+    try {
+      await approveBill.mutateAsync({ id: bill.id, variance_note: varianceNote });
+      toast.success(`Bill ${bill.bill_number} approved for payment`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error approving supplier bill:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to approve bill');
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!confirm(`Cancel bill ${bill.bill_number}? It will no longer count towards what is owed to ${bill.suppliers?.name}.`)) return;
+    try {
+      await cancelBill.mutateAsync(bill.id);
+      toast.success(`Bill ${bill.bill_number} cancelled`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error cancelling supplier bill:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel bill');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete draft bill ${bill.bill_number}?`)) return;
+    try {
+      await deleteBill.mutateAsync(bill.id);
+      toast.success(`Bill ${bill.bill_number} deleted`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error deleting supplier bill:', error);
+      toast.error('Failed to delete bill');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <FileInput className="h-5 w-5 text-primary" />
+            <span>Bill {bill.bill_number}</span>
+            <Badge variant="outline" className={getStatusColor(bill.status)}>{bill.status}</Badge>
+          </DialogTitle>
+          <DialogDescription>
+            {bill.suppliers?.name}{bill.supplier_invoice_number ? ` - supplier invoice ${bill.supplier_invoice_number}` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="details">
+          <TabsList>
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="details" className="space-y-4">
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <div className="text-muted-foreground">Bill Date</div>
+                  <div className="font-medium">{formatDate(bill.bill_date)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Due Date</div>
+                  <div className="font-medium">{formatDate(bill.due_date)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">LPO</div>
+                  <div className="font-medium">{bill.lpos?.lpo_number || '-'}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Three-way Match</div>
+                  <div className="font-medium">
+                    {bill.match_status === 'matched' ? <span className="text-success">Matched</span>
+                      : bill.match_status === 'variance' ? <span className="text-warning">Variance</span>
+                      : 'Not applicable'}
+                  </div>
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Description</TableHead>
+                    {hasLPO && <TableHead className="text-right">Ordered</TableHead>}
+                    {hasLPO && <TableHead className="text-right">Received</TableHead>}
+                    <TableHead className="text-right">Qty</TableHead>
+                    {hasLPO && <TableHead className="text-right">LPO Price</TableHead>}
+                    <TableHead className="text-right">Unit Price</TableHead>
+                    <TableHead className="text-right">Tax</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    {hasLPO && <TableHead>Match</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map(item => (
+                    <TableRow key={item.id}>
+                      <TableCell>{item.description}</TableCell>
+                      {hasLPO && <TableCell className="text-right">{item.ordered_quantity ?? '-'}</TableCell>}
+                      {hasLPO && <TableCell className="text-right">{item.received_quantity ?? '-'}</TableCell>}
+                      <TableCell className="text-right">{item.quantity}</TableCell>
+                      {hasLPO && <TableCell className="text-right">{item.ordered_unit_price != null ? formatCurrency(item.ordered_unit_price) : '-'}</TableCell>}
+                      <TableCell className="text-right">{formatCurrency(item.unit_price)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(item.tax_amount)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(item.line_total)}</TableCell>
+                      {hasLPO && <TableCell>{getLineMatchLabel(item.match_status)}</TableCell>}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className="flex justify-end">
+                <div className="space-y-1 text-right text-sm">
+                  <div>Subtotal: {formatCurrency(bill.subtotal)}</div>
+                  <div>Tax: {formatCurrency(bill.tax_amount)}</div>
+                  <div className="text-lg font-semibold">Total: {formatCurrency(bill.total_amount)}</div>
+                  <div>Paid: {formatCurrency(bill.paid_amount)}</div>
+                  <div className="font-semibold">Balance: {formatCurrency(bill.balance_due)}</div>
+                </div>
+              </div>
+
+              {(bill.supplier_payment_allocations || []).length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-semibold">Payments</h4>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Payment</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Method</TableHead>
+                        <TableHead>Reference</TableHead>
+                        <TableHead className="text-right">Allocated</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {bill.supplier_payment_allocations.map(a => (
+                        <TableRow key={a.id}>
+                          <TableCell className="font-medium">{a.supplier_payments?.payment_number}</TableCell>
+                          <TableCell>{formatDate(a.supplier_payments?.payment_date)}</TableCell>
+                          <TableCell className="capitalize">{a.supplier_payments?.payment_method?.replace('_', ' ') || '-'}</TableCell>
+                          <TableCell>{a.supplier_payments?.reference_number || '-'}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(a.amount_allocated)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              {bill.status === 'draft' && bill.match_status === 'variance' && (
+                <div className="space-y-2">
+                  <Label htmlFor="variance_note">Variance Note *</Label>
+                  <Textarea
+                    id="variance_note"
+                    value={varianceNote}
+                    onChange={(e) => setVarianceNote(e.target.value)}
+                    rows={2}
+                    placeholder="Why is this bill being accepted despite not matching the LPO and goods received?"
+                  />
+                </div>
+              )}
+              {bill.status !== 'draft' && bill.variance_note && (
+                <div className="text-sm">
+                  <div className="text-muted-foreground">Variance Note</div>
+                  <div className="whitespace-pre-wrap">{bill.variance_note}</div>
+                </div>
+              )}
+              {bill.notes && (
+                <div className="text-sm">
+                  <div className="text-muted-foreground">Notes</div>
+                  <div className="whitespace-pre-wrap">{bill.notes}</div>
+                </div>
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="history">
+            <AuditHistory entityType="supplier_bills" entityId={bill.id} />
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter className="flex-wrap gap-2">
+          {bill.status === 'draft' && canManagePayables && (
+            <Button variant="outline" onClick={handleDelete} disabled={deleteBill.isPending}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete Draft
+            </Button>
+          )}
+          {canManagePayables && bill.status !== 'cancelled' && bill.status !== 'draft' && Number(bill.paid_amount || 0) === 0 && (
+            <Button variant="outline" onClick={handleCancel} className="bg-destructive-light text-destructive" disabled={cancelBill.isPending}>
+              <XCircle className="h-4 w-4 mr-2" />
+              Cancel Bill
+            </Button>
+          )}
+          {bill.status === 'draft' && canManagePayables && (
+            <Button
+              onClick={handleApprove}
+              disabled={approveBill.isPending || (bill.match_status === 'variance' && !varianceNote.trim())}
+            >
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Approve for Payment
+            </Button>
+          )}
+          {OPEN_BILL_STATUSES.includes(bill.status) && onRecordPayment && canPaySuppliers && (
+            <Button onClick={() => onRecordPayment(bill)}>
+              <Banknote className="h-4 w-4 mr-2" />
+              Record Payment
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,274 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Banknote, Wand2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCreateSupplierPayment, useGenerateDocumentNumber, useSupplierBills, useSuppliers, type SupplierBill } from '@/hooks/useDatabase';
+import { allocateOldestFirst, OPEN_BILL_STATUSES } from '@/utils/accountsPayable';
+
+interface RecordSupplierPaymentModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  supplierId?: string; // preselected supplier
+  bill?: SupplierBill | null; // pay this bill in full by default
+  onSuccess?: () => void;
+}
+
+export function RecordSupplierPaymentModal({ open, onOpenChange, supplierId: initialSupplierId, bill, onSuccess }: RecordSupplierPaymentModalProps) {
+  const { currentCompany } = useCurrentCompany();
+  const { profile } = useAuth();
+  const { data: suppliers = [] } = useSuppliers(currentCompany?.id);
+  const { data: bills = [] } = useSupplierBills(currentCompany?.id);
+  const generateDocNumber = useGenerateDocumentNumber();
+  const createPayment = useCreateSupplierPayment();
+
+  const [supplierId, setSupplierId] = useState('');
+  const [amount, setAmount] = useState(0);
+  const [paymentDate, setPaymentDate] = useState(new Date().toISOString().split('T')[0]);
+  const [paymentMethod, setPaymentMethod] = useState('bank_transfer');
+  const [referenceNumber, setReferenceNumber] = useState('');
+  const [notes, setNotes] = useState('');
+  const [allocations, setAllocations] = useState<Record<string, number>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const openBills = bills
+    .filter(b => b.supplier_id === supplierId && OPEN_BILL_STATUSES.includes(b.status))
+    .sort((a, b) => new Date(a.due_date || a.bill_date).getTime() - new Date(b.due_date || b.bill_date).getTime());
+  const supplier = suppliers.find(s => s.id === supplierId);
+
+  useEffect(() => {
+    if (!open) return;
+    setSupplierId(bill?.supplier_id || initialSupplierId || '');
+    setAmount(bill ? Number(bill.balance_due || 0) : 0);
+    setAllocations(bill ? { [bill.id]: Number(bill.balance_due || 0) } : {});
+    setPaymentDate(new Date().toISOString().split('T')[0]);
+    setPaymentMethod('bank_transfer');
+    setReferenceNumber('');
+    setNotes('');
+  }, [open, bill, initialSupplierId]);
+
+  const totalAllocated = Object.values(allocations).reduce((sum, a) => sum + (Number(a) || 0), 0);
+  const unallocated = Math.round((amount - totalAllocated) * 100) / 100;
+
+  const formatCurrency = (value: number) => new Intl.NumberFormat('en-KE', {
+    style: 'currency',
+    currency: 'KES',
+  }).format(value);
+
+  const handleSupplierChange = (value: string) => {
+    setSupplierId(value);
+    setAllocations({});
+  };
+
+  const handleAutoAllocate = () => {
+    setAllocations(allocateOldestFirst(amount, openBills));
+  };
+
+  const handleSubmit = async () => {
+    if (!currentCompany?.id) {
+      toast.error('Company not found. Please refresh and try again.');
+      return;
+    }
+    if (!supplierId) {
+      toast.error('Select the supplier being paid');
+      return;
+    }
+    if (!(amount > 0)) {
+      toast.error('Enter the amount paid');
+      return;
+    }
+    if (unallocated < -0.005) {
+      toast.error('Allocations exceed the payment amount');
+      return;
+    }
+    const over = openBills.find(b => (allocations[b.id] || 0) - Number(b.balance_due || 0) > 0.005);
+    if (over) {
+      toast.error(`Bill ${over.bill_number} only has ${formatCurrency(Number(over.balance_due))} outstanding`);
+      return;
+    }
+    if (unallocated > 0 && !confirm(`${formatCurrency(unallocated)} will be left unallocated as a credit with ${supplier?.name}. Continue?`)) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const paymentNumber = await generateDocNumber.mutateAsync({ companyId: currentCompany.id, type: 'supplier_payment' });
+      await createPayment.mutateAsync({
+        payment: {
+          company_id: currentCompany.id,
+          supplier_id: supplierId,
+          payment_number: paymentNumber,
+          payment_date: paymentDate,
+          amount,
+          payment_method: paymentMethod,
+          reference_number: referenceNumber.trim() || null,
+          notes: notes.trim() || null,
+          created_by: profile?.id || null,
+        },
+        allocations: Object.entries(allocations).map(([bill_id, amount_allocated]) => ({ bill_id, amount_allocated })),
+      });
+
+      toast.success(`Payment ${paymentNumber} of ${formatCurrency(amount)} to ${supplier?.name} recorded`);
+      onSuccess?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error recording supplier payment:', error);
+      const message = error instanceof Error ? error.message : (error as { message?: string })?.message || 'Please try again.';
+      toast.error(`Failed to record payment: ${message}`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Banknote className="h-5 w-5 text-primary" />
+            <span>Pay Supplier</span>
+          </DialogTitle>
+          <DialogDescription>
+            Record a payment to a supplier and allocate it against their approved bills
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Supplier *</Label>
+              <Select value={supplierId} onValueChange={handleSupplierChange} disabled={!!bill}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers.map(s => (
+                    <SelectItem key={s.id} value={s.id}>{s.name} ({s.supplier_code})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier_payment_amount">Amount *</Label>
+              <Input id="supplier_payment_amount" type="number" min={0} step="0.01" value={amount} onChange={(e) => setAmount(Number(e.target.value) || 0)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier_payment_date">Payment Date</Label>
+              <Input id="supplier_payment_date" type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Payment Method</Label>
+              <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="bank_transfer">Bank Transfer</SelectItem>
+                  <SelectItem value="cheque">Cheque</SelectItem>
+                  <SelectItem value="mpesa">M-Pesa</SelectItem>
+                  <SelectItem value="cash">Cash</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier_payment_reference">Reference</Label>
+              <Input id="supplier_payment_reference" value={referenceNumber} onChange={(e) => setReferenceNumber(e.target.value)} placeholder="Cheque no. / transaction code" />
+            </div>
+            {supplier?.bank_account_number && (
+              <div className="space-y-1 text-sm">
+                <Label>Supplier Bank</Label>
+                <div>{supplier.bank_name} {supplier.bank_branch ? `- ${supplier.bank_branch}` : ''}</div>
+                <div className="text-muted-foreground">{supplier.bank_account_name} {supplier.bank_account_number}</div>
+              </div>
+            )}
+          </div>
+
+          {supplierId && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Allocate to Bills</Label>
+                <Button type="button" variant="outline" size="sm" onClick={handleAutoAllocate} disabled={!(amount > 0) || openBills.length === 0}>
+                  <Wand2 className="h-4 w-4 mr-2" />
+                  Oldest First
+                </Button>
+              </div>
+              {openBills.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No approved bills are outstanding for this supplier. The payment will be held as a credit.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Bill</TableHead>
+                      <TableHead>Supplier Inv #</TableHead>
+                      <TableHead>Due</TableHead>
+                      <TableHead className="text-right">Balance</TableHead>
+                      <TableHead className="w-40">Allocate</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {openBills.map(b => (
+                      <TableRow key={b.id}>
+                        <TableCell className="font-medium">{b.bill_number}</TableCell>
+                        <TableCell>{b.supplier_invoice_number || '-'}</TableCell>
+                        <TableCell>{b.due_date ? new Date(b.due_date).toLocaleDateString() : '-'}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(Number(b.balance_due || 0))}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            value={allocations[b.id] || ''}
+                            onChange={(e) => setAllocations(prev => ({ ...prev, [b.id]: Number(e.target.value) || 0 }))}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+              <div className="flex justify-end space-x-6 text-sm">
+                <span>Allocated: <strong>{formatCurrency(totalAllocated)}</strong></span>
+                <span className={unallocated < 0 ? 'text-destructive' : ''}>Unallocated: <strong>{formatCurrency(unallocated)}</strong></span>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="supplier_payment_notes">Notes</Label>
+            <Textarea id="supplier_payment_notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !supplierId || !(amount > 0)}>
+            <Banknote className="h-4 w-4 mr-2" />
+            {isSubmitting ? 'Recording...' : 'Record Payment'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
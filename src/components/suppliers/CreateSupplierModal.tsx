@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Truck } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCreateSupplier, useSuppliers, Supplier } from '@/hooks/useDatabase';
+import { useProductCategories } from '@/hooks/useOptimizedProducts';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { emptySupplierForm, nextSupplierCode, SupplierFormData, supplierFormPayload } from '@/utils/supplierForm';
+import { SupplierFormFields } from './SupplierFormFields';
+
+interface CreateSupplierModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: (supplier: Supplier) => void;
+}
+
+export function CreateSupplierModal({ open, onOpenChange, onSuccess }: CreateSupplierModalProps) {
+  const { currentCompany } = useCurrentCompany();
+  const { profile } = useAuth();
+  const { data: suppliers = [] } = useSuppliers(currentCompany?.id);
+  const { data: categories = [] } = useProductCategories(currentCompany?.id);
+  const createSupplier = useCreateSupplier();
+
+  const [formData, setFormData] = useState<SupplierFormData>(emptySupplierForm());
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) setFormData(emptySupplierForm());
+  }, [open]);
+
+  const handleSubmit = async () => {
+    if (!formData.name.trim()) {
+      toast.error('Supplier name is required');
+      return;
+    }
+
+    if (!currentCompany?.id) {
+      toast.error('Company not found. Please refresh and try again.');
+      return;
+    }
+
+    const duplicate = suppliers.find(s => s.name.trim().toLowerCase() === formData.name.trim().toLowerCase());
+    if (duplicate && !confirm(`A supplier named "${duplicate.name}" (${duplicate.supplier_code}) already exists. Create another?`)) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const supplier = await createSupplier.mutateAsync({
+        ...supplierFormPayload(formData),
+        company_id: currentCompany.id,
+        supplier_code: nextSupplierCode(suppliers),
+        created_by: profile?.id || null,
+      });
+
+      toast.success(`Supplier ${supplier.name} created successfully!`);
+      onSuccess?.(supplier);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error creating supplier:', error);
+      toast.error('Failed to create supplier. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Truck className="h-5 w-5 text-primary" />
+            <span>New Supplier</span>
+          </DialogTitle>
+          <DialogDescription>
+            Add a supplier that purchase orders can be raised against
+          </DialogDescription>
+        </DialogHeader>
+
+        <SupplierFormFields formData={formData} onChange={setFormData} categories={categories} />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !formData.name.trim()}>
+            <Truck className="h-4 w-4 mr-2" />
+            {isSubmitting ? 'Creating...' : 'Create Supplier'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Truck } from 'lucide-react';
+import { toast } from 'sonner';
+import { useUpdateSupplier, Supplier } from '@/hooks/useDatabase';
+import { useProductCategories } from '@/hooks/useOptimizedProducts';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { emptySupplierForm, SupplierFormData, supplierFormPayload, supplierToForm } from '@/utils/supplierForm';
+import { SupplierFormFields } from './SupplierFormFields';
+
+interface EditSupplierModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+  supplier: Supplier | null;
+}
+
+export function EditSupplierModal({ open, onOpenChange, onSuccess, supplier }: EditSupplierModalProps) {
+  const { currentCompany } = useCurrentCompany();
+  const { data: categories = [] } = useProductCategories(currentCompany?.id);
+  const updateSupplier = useUpdateSupplier();
+
+  const [formData, setFormData] = useState<SupplierFormData>(emptySupplierForm());
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Load supplier data when modal opens
+  useEffect(() => {
+    if (supplier && open) setFormData(supplierToForm(supplier));
+  }, [supplier, open]);
+
+  const handleSubmit = async () => {
+    if (!formData.name.trim()) {
+      toast.error('Supplier name is required');
+      return;
+    }
+
+    if (!supplier?.id) {
+      toast.error('Supplier ID is missing');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await updateSupplier.mutateAsync({ id: supplier.id, ...supplierFormPayload(formData) });
+      toast.success(`Supplier ${formData.name} updated successfully!`);
+      onSuccess?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error updating supplier:', error);
+      toast.error('Failed to update supplier. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Truck className="h-5 w-5 text-primary" />
+            <span>Edit Supplier - {supplier?.supplier_code}</span>
+          </DialogTitle>
+          <DialogDescription>
+            Update supplier contacts, terms and bank details
+          </DialogDescription>
+        </DialogHeader>
+
+        <SupplierFormFields formData={formData} onChange={setFormData} categories={categories} showStatus />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !formData.name.trim()}>
+            <Truck className="h-4 w-4 mr-2" />
+            {isSubmitting ? 'Updating...' : 'Update Supplier'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
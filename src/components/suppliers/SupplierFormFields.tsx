@@ -0,0 +1,306 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Building2, CreditCard, Landmark, Mail, MapPin, Phone, Plus, Tags, Trash2, Users } from 'lucide-react';
+import type { SupplierContact } from '@/hooks/useDatabase';
+import type { SupplierFormData } from '@/utils/supplierForm';
+
+interface SupplierFormFieldsProps {
+  formData: SupplierFormData;
+  onChange: (data: SupplierFormData) => void;
+  categories: Array<{ id: string; name: string }>;
+  showStatus?: boolean;
+}
+
+export function SupplierFormFields({ formData, onChange, categories, showStatus }: SupplierFormFieldsProps) {
+  const handleInputChange = <K extends keyof SupplierFormData>(field: K, value: SupplierFormData[K]) => {
+    onChange({ ...formData, [field]: value });
+  };
+
+  const updateContact = (index: number, field: keyof SupplierContact, value: string) => {
+    handleInputChange('contacts', formData.contacts.map((c, i) => i === index ? { ...c, [field]: value } : c));
+  };
+
+  const toggleCategory = (categoryId: string, checked: boolean) => {
+    handleInputChange('category_ids', checked
+      ? [...formData.category_ids, categoryId]
+      : formData.category_ids.filter(id => id !== categoryId));
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Basic Information */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center space-x-2">
+            <Building2 className="h-4 w-4" />
+            <span>Basic Information</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="supplier_name">Supplier Name *</Label>
+            <Input
+              id="supplier_name"
+              value={formData.name}
+              onChange={(e) => handleInputChange('name', e.target.value)}
+              placeholder="Enter supplier name"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplier_email">Email</Label>
+              <div className="relative">
+                <Mail className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  id="supplier_email"
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => handleInputChange('email', e.target.value)}
+                  placeholder="supplier@example.com"
+                  className="pl-10"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="supplier_phone">Phone</Label>
+              <div className="relative">
+                <Phone className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  id="supplier_phone"
+                  value={formData.phone}
+                  onChange={(e) => handleInputChange('phone', e.target.value)}
+                  placeholder="+254 700 000000"
+                  className="pl-10"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="supplier_address">Address</Label>
+            <div className="relative">
+              <MapPin className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+              <Textarea
+                id="supplier_address"
+                value={formData.address}
+                onChange={(e) => handleInputChange('address', e.target.value)}
+                placeholder="Enter supplier address"
+                className="pl-10"
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplier_city">City</Label>
+              <Input
+                id="supplier_city"
+                value={formData.city}
+                onChange={(e) => handleInputChange('city', e.target.value)}
+                placeholder="Nairobi"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="supplier_country">Country</Label>
+              <Select value={formData.country} onValueChange={(value) => handleInputChange('country', value)}>
+                <SelectTrigger id="supplier_country">
+                  <SelectValue placeholder="Select country" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="Kenya">Kenya</SelectItem>
+                  <SelectItem value="Uganda">Uganda</SelectItem>
+                  <SelectItem value="Tanzania">Tanzania</SelectItem>
+                  <SelectItem value="Rwanda">Rwanda</SelectItem>
+                  <SelectItem value="Other">Other</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Terms and Tax */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center space-x-2">
+            <CreditCard className="h-4 w-4" />
+            <span>Terms & Tax</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplier_tax_pin">KRA PIN</Label>
+              <Input
+                id="supplier_tax_pin"
+                value={formData.tax_pin}
+                onChange={(e) => handleInputChange('tax_pin', e.target.value)}
+                placeholder="P051234567X"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="supplier_payment_terms">Payment Terms (Days)</Label>
+              <Select
+                value={formData.payment_terms.toString()}
+                onValueChange={(value) => handleInputChange('payment_terms', parseInt(value))}
+              >
+                <SelectTrigger id="supplier_payment_terms">
+                  <SelectValue placeholder="Select payment terms" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="0">Cash on delivery</SelectItem>
+                  <SelectItem value="7">7 days</SelectItem>
+                  <SelectItem value="14">14 days</SelectItem>
+                  <SelectItem value="30">30 days</SelectItem>
+                  <SelectItem value="60">60 days</SelectItem>
+                  <SelectItem value="90">90 days</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="supplier_notes">Notes</Label>
+            <Textarea
+              id="supplier_notes"
+              value={formData.notes}
+              onChange={(e) => handleInputChange('notes', e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          {showStatus && (
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="supplier_is_active">Supplier Status</Label>
+                <div className="text-sm text-muted-foreground">
+                  {formData.is_active ? 'Active supplier' : 'Inactive supplier'}
+                </div>
+              </div>
+              <Switch
+                id="supplier_is_active"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => handleInputChange('is_active', checked)}
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Bank Details */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center space-x-2">
+            <Landmark className="h-4 w-4" />
+            <span>Bank Details</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplier_bank_name">Bank</Label>
+              <Input id="supplier_bank_name" value={formData.bank_name} onChange={(e) => handleInputChange('bank_name', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier_bank_branch">Branch</Label>
+              <Input id="supplier_bank_branch" value={formData.bank_branch} onChange={(e) => handleInputChange('bank_branch', e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="supplier_bank_account_name">Account Name</Label>
+            <Input id="supplier_bank_account_name" value={formData.bank_account_name} onChange={(e) => handleInputChange('bank_account_name', e.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplier_bank_account_number">Account Number</Label>
+              <Input id="supplier_bank_account_number" value={formData.bank_account_number} onChange={(e) => handleInputChange('bank_account_number', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier_bank_swift_code">SWIFT Code</Label>
+              <Input id="supplier_bank_swift_code" value={formData.bank_swift_code} onChange={(e) => handleInputChange('bank_swift_code', e.target.value)} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Contacts and Categories */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center justify-between">
+            <span className="flex items-center space-x-2">
+              <Users className="h-4 w-4" />
+              <span>Contacts</span>
+            </span>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => handleInputChange('contacts', [...formData.contacts, { name: '', role: '', email: '', phone: '' }])}
+            >
+              <Plus className="h-4 w-4 mr-1" /> Add
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {formData.contacts.length === 0 && (
+            <p className="text-sm text-muted-foreground">No contact people added</p>
+          )}
+          {formData.contacts.map((contact, index) => (
+            <div key={index} className="grid grid-cols-2 gap-2 border-b pb-3">
+              <Input value={contact.name} onChange={(e) => updateContact(index, 'name', e.target.value)} placeholder="Name" />
+              <div className="flex gap-2">
+                <Input value={contact.role || ''} onChange={(e) => updateContact(index, 'role', e.target.value)} placeholder="Role" />
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => handleInputChange('contacts', formData.contacts.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <Input value={contact.email || ''} onChange={(e) => updateContact(index, 'email', e.target.value)} placeholder="Email" />
+              <Input value={contact.phone || ''} onChange={(e) => updateContact(index, 'phone', e.target.value)} placeholder="Phone" />
+            </div>
+          ))}
+
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2"><Tags className="h-4 w-4" /> Categories Supplied</Label>
+            {categories.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No product categories set up yet</p>
+            ) : (
+              <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto">
+                {categories.map(category => (
+                  <label key={category.id} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={formData.category_ids.includes(category.id)}
+                      onCheckedChange={(checked) => toggleCategory(category.id, checked === true)}
+                    />
+                    <span>{category.name}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
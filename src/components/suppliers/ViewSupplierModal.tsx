@@ -0,0 +1,224 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Building2, Calendar, FileText, Landmark, Mail, MapPin, Phone, ShoppingCart, Truck, Users } from 'lucide-react';
+import { useSupplierLPOs, Supplier } from '@/hooks/useDatabase';
+import { useProductCategories } from '@/hooks/useOptimizedProducts';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AuditHistory } from '@/components/audit/AuditHistory';
+
+interface ViewSupplierModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  supplier: Supplier | null;
+  onEdit: () => void;
+}
+
+export function ViewSupplierModal({ open, onOpenChange, supplier, onEdit }: ViewSupplierModalProps) {
+  const { currentCompany } = useCurrentCompany();
+  const { data: lpos = [] } = useSupplierLPOs(open ? supplier?.id : undefined);
+  const { data: categories = [] } = useProductCategories(currentCompany?.id);
+
+  if (!supplier) return null;
+
+  const suppliedCategories = categories.filter(c => (supplier.category_ids || []).includes(c.id));
+  const totalOrdered = lpos
+    .filter(l => l.status !== 'cancelled')
+    .reduce((sum, l) => sum + Number(l.total_amount || 0), 0);
+  const hasBankDetails = supplier.bank_name || supplier.bank_account_number;
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-KE', {
+      style: 'currency',
+      currency: 'KES',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0
+    }).format(amount);
+  };
+
+  const formatDate = (dateString?: string) => {
+    if (!dateString) return 'N/A';
+    return new Date(dateString).toLocaleDateString('en-GB', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric'
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-3">
+            <Truck className="h-6 w-6 text-primary" />
+            <div>
+              <div className="flex items-center space-x-2">
+                <span>{supplier.name}</span>
+                <Badge variant="outline" className={supplier.is_active !== false ? 'bg-success-light text-success border-success/20' : 'bg-muted text-muted-foreground border-muted-foreground/20'}>
+                  {supplier.is_active !== false ? 'Active' : 'Inactive'}
+                </Badge>
+              </div>
+              <div className="text-sm text-muted-foreground">{supplier.supplier_code}</div>
+            </div>
+          </DialogTitle>
+          <DialogDescription>
+            Supplier details and purchase order history
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="details">
+          <TabsList>
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="details" className="space-y-4">
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center space-x-2">
+                    <Users className="h-4 w-4" />
+                    <span>Contact Information</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  {supplier.email && (
+                    <div className="flex items-center space-x-3"><Mail className="h-4 w-4 text-muted-foreground" /><span>{supplier.email}</span></div>
+                  )}
+                  {supplier.phone && (
+                    <div className="flex items-center space-x-3"><Phone className="h-4 w-4 text-muted-foreground" /><span>{supplier.phone}</span></div>
+                  )}
+                  {(supplier.address || supplier.city) && (
+                    <div className="flex items-start space-x-3">
+                      <MapPin className="h-4 w-4 text-muted-foreground mt-0.5" />
+                      <span>{[supplier.address, supplier.city, supplier.country].filter(Boolean).join(', ')}</span>
+                    </div>
+                  )}
+                  {(supplier.contacts || []).map((contact, index) => (
+                    <div key={index} className="border-t pt-2">
+                      <div className="font-medium">{contact.name}{contact.role ? ` - ${contact.role}` : ''}</div>
+                      <div className="text-muted-foreground">{[contact.email, contact.phone].filter(Boolean).join(' | ')}</div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center space-x-2">
+                    <Building2 className="h-4 w-4" />
+                    <span>Business Information</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  <div className="flex justify-between"><span className="text-muted-foreground">KRA PIN</span><span className="font-medium">{supplier.tax_pin || 'Not set'}</span></div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Payment Terms</span>
+                    <span className="font-medium">{supplier.payment_terms ? `${supplier.payment_terms} days` : 'Cash on delivery'}</span>
+                  </div>
+                  <div className="flex justify-between"><span className="text-muted-foreground">Supplier Since</span><span className="font-medium">{formatDate(supplier.created_at)}</span></div>
+                  <div>
+                    <div className="text-muted-foreground mb-1">Categories Supplied</div>
+                    <div className="flex flex-wrap gap-1">
+                      {suppliedCategories.length === 0
+                        ? <span className="text-muted-foreground">None recorded</span>
+                        : suppliedCategories.map(c => <Badge key={c.id} variant="secondary">{c.name}</Badge>)}
+                    </div>
+                  </div>
+                  {supplier.notes && <div className="text-muted-foreground whitespace-pre-wrap">{supplier.notes}</div>}
+                </CardContent>
+              </Card>
+
+              {hasBankDetails && (
+                <Card className="lg:col-span-2">
+                  <CardHeader>
+                    <CardTitle className="text-lg flex items-center space-x-2">
+                      <Landmark className="h-4 w-4" />
+                      <span>Bank Details</span>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                    <div><div className="text-muted-foreground">Bank</div><div className="font-medium">{supplier.bank_name || '-'}{supplier.bank_branch ? `, ${supplier.bank_branch}` : ''}</div></div>
+                    <div><div className="text-muted-foreground">Account Name</div><div className="font-medium">{supplier.bank_account_name || '-'}</div></div>
+                    <div><div className="text-muted-foreground">Account Number</div><div className="font-medium">{supplier.bank_account_number || '-'}</div></div>
+                    <div><div className="text-muted-foreground">SWIFT</div><div className="font-medium">{supplier.bank_swift_code || '-'}</div></div>
+                  </CardContent>
+                </Card>
+              )}
+
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center justify-between">
+                    <span className="flex items-center space-x-2">
+                      <ShoppingCart className="h-4 w-4" />
+                      <span>Purchase Orders</span>
+                    </span>
+                    <span className="text-sm font-normal text-muted-foreground">
+                      {lpos.length} orders, {formatCurrency(totalOrdered)} ordered
+                    </span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {lpos.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No purchase orders raised yet</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>LPO #</TableHead>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead className="text-right">Total</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {lpos.map(lpo => (
+                          <TableRow key={lpo.id}>
+                            <TableCell className="font-medium">{lpo.lpo_number}</TableCell>
+                            <TableCell><span className="flex items-center gap-1"><Calendar className="h-3 w-3" />{formatDate(lpo.lpo_date)}</span></TableCell>
+                            <TableCell className="capitalize">{lpo.status}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(Number(lpo.total_amount || 0))}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="history">
+            <AuditHistory entityType="suppliers" entityId={supplier.id} />
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          {supplier.email && (
+            <Button variant="outline" onClick={() => window.open(`mailto:${supplier.email}`, '_blank')}>
+              <Mail className="h-4 w-4 mr-2" />
+              Send Email
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={onEdit}>
+            <FileText className="h-4 w-4 mr-2" />
+            Edit Supplier
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -10,6 +10,8 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
 import {
   Select,
   SelectContent,
@@ -17,9 +19,18 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Loader2, User, Phone, Building, MapPin } from 'lucide-react';
+import { Loader2, User, Phone, Building, MapPin, ShieldCheck } from 'lucide-react';
 import { UserProfile, UserRole, UserStatus } from '@/contexts/AuthContext';
 import { UpdateUserData } from '@/hooks/useUserManagement';
+import { useUserPermissionOverrides } from '@/hooks/usePermissions';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import {
+  hasPermission,
+  permissionGroups,
+  roleHasPermission,
+  Permission,
+  PermissionOverrides,
+} from '@/utils/permissions';
 
 interface EditUserModalProps {
   open: boolean;
@@ -45,6 +56,9 @@ export function EditUserModal({
     position: '',
   });
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [overrides, setOverrides] = useState<PermissionOverrides>({});
+  const { currentCompany } = useCurrentCompany();
+  const { data: savedOverrides, isLoading: loadingPermissions } = useUserPermissionOverrides(open ? user?.id : undefined, currentCompany?.id);
 
   // Update form data when user changes
   useEffect(() => {
@@ -60,6 +74,10 @@ export function EditUserModal({
     }
   }, [user]);
 
+  useEffect(() => {
+    setOverrides(savedOverrides || {});
+  }, [savedOverrides, user?.id]);
+
   const validateForm = () => {
     const errors: Record<string, string> = {};
 
@@ -86,7 +104,7 @@ export function EditUserModal({
       return;
     }
 
-    const result = await onUpdateUser(user.id, formData);
+    const result = await onUpdateUser(user.id, { ...formData, permissions: overrides });
     
     if (result.success) {
       handleClose();
@@ -121,6 +139,20 @@ export function EditUserModal({
     }
   };
 
+  // Ticking a box sets an override only when it differs from the role default
+  const handlePermissionToggle = (permission: Permission) => {
+    const granted = !hasPermission(formData.role, overrides, permission);
+    setOverrides(prev => {
+      const next = { ...prev };
+      if (granted === roleHasPermission(formData.role, permission)) {
+        delete next[permission];
+      } else {
+        next[permission] = granted;
+      }
+      return next;
+    });
+  };
+
   const roleOptions = [
     { value: 'user', label: 'User', description: 'Basic access to view and create quotations' },
     { value: 'stock_manager', label: 'Stock Manager', description: 'Manage inventory and stock movements' },
@@ -138,7 +170,7 @@ export function EditUserModal({
 
   return (
     <Dialog open={open} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Edit User</DialogTitle>
           <DialogDescription>
@@ -270,6 +302,54 @@ export function EditUserModal({
             </div>
           </div>
 
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label className="flex items-center space-x-2">
+                <ShieldCheck className="h-4 w-4" />
+                <span>Permissions</span>
+              </Label>
+              {formData.role !== 'admin' && Object.keys(overrides).length > 0 && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => setOverrides({})} disabled={loading}>
+                  Reset to role defaults
+                </Button>
+              )}
+            </div>
+            {formData.role === 'admin' ? (
+              <p className="text-sm text-muted-foreground">Administrators have every permission.</p>
+            ) : loadingPermissions ? (
+              <p className="text-sm text-muted-foreground">Loading permissions...</p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 rounded-md border p-3">
+                {Object.entries(permissionGroups()).map(([group, permissions]) => (
+                  <div key={group} className="space-y-2">
+                    <div className="text-sm font-medium">{group}</div>
+                    {permissions.map(({ name, label }) => {
+                      const permission = name as Permission;
+                      return (
+                        <label key={name} className="flex items-center space-x-2 text-sm">
+                          <Checkbox
+                            checked={hasPermission(formData.role, overrides, permission)}
+                            onCheckedChange={() => handlePermissionToggle(permission)}
+                            disabled={loading}
+                          />
+                          <span>{label}</span>
+                          {overrides[permission] !== undefined && (
+                            <Badge variant="outline" className="text-xs px-1 py-0 h-4">
+                              {overrides[permission] ? 'granted' : 'revoked'}
+                            </Badge>
+                          )}
+                        </label>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Defaults come from the role. Anything changed here is saved as an override for this user.
+            </p>
+          </div>
+
           <DialogFooter>
             <Button
               type="button"
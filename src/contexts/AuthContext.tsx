@@ -12,6 +12,7 @@ export interface UserProfile {
   avatar_url?: string;
   phone?: string;
   company_id?: string;
+  selected_company_id?: string;
   department?: string;
   position?: string;
   role?: string;
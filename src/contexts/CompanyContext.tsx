@@ -1,20 +1,85 @@
-import React, { createContext, useContext, ReactNode } from 'react';
-import { useCompanies } from '@/hooks/useDatabase';
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCompanies, useUserCompanies, type Company } from '@/hooks/useDatabase';
+import { accessibleCompanies, companyRole } from '@/utils/companyAccess';
 
 interface CompanyContextType {
-  currentCompany: any | null;
+  currentCompany: Company | null;
+  companies: Company[];
+  currentRole: string | null;
+  switchCompany: (companyId: string) => Promise<void>;
   isLoading: boolean;
   error: Error | null;
 }
 
 const CompanyContext = createContext<CompanyContextType | undefined>(undefined);
 
+// Queries that are not tied to the selected company and survive a switch
+const COMPANY_INDEPENDENT_QUERIES = ['companies', 'user_companies', 'user_permissions'];
+
+const selectionStorageKey = (userId: string) => `layons.selectedCompany.${userId}`;
+
 export function CompanyProvider({ children }: { children: ReactNode }) {
-  const { data: companies, isLoading, error } = useCompanies();
-  const currentCompany = companies?.[0] || null;
+  const queryClient = useQueryClient();
+  const { profile } = useAuth();
+  const { data: allCompanies, isLoading: companiesLoading, error } = useCompanies();
+  const { data: memberships = [], isLoading: membershipsLoading } = useUserCompanies(profile?.id);
+  const [selectedCompanyId, setSelectedCompanyId] = useState<string | null>(null);
+
+  // Restore the user's last selection when they sign in
+  useEffect(() => {
+    if (!profile?.id) {
+      setSelectedCompanyId(null);
+      return;
+    }
+    const stored = localStorage.getItem(selectionStorageKey(profile.id));
+    setSelectedCompanyId(stored || profile.selected_company_id || null);
+  }, [profile?.id, profile?.selected_company_id]);
+
+  const companies = accessibleCompanies(allCompanies, memberships, profile);
+  const currentCompany = companies.find(c => c.id === selectedCompanyId) || companies[0] || null;
+  const currentRole = companyRole(currentCompany?.id, memberships, profile);
+
+  // The switch takes effect on this device straight away; if it cannot be saved to the profile
+  // the error is thrown so the caller can tell the user it will not follow them elsewhere
+  const switchCompany = async (companyId: string) => {
+    if (companyId === currentCompany?.id) return;
+
+    setSelectedCompanyId(companyId);
+    if (profile?.id) {
+      localStorage.setItem(selectionStorageKey(profile.id), companyId);
+    }
+
+    // Drop everything loaded for the previous company so no screen shows its data
+    const isCompanyScoped = (query: { queryKey: readonly unknown[] }) =>
+      !COMPANY_INDEPENDENT_QUERIES.includes(query.queryKey[0] as string);
+    await queryClient.cancelQueries({ predicate: isCompanyScoped });
+    queryClient.removeQueries({ predicate: isCompanyScoped, type: 'inactive' });
+    await queryClient.resetQueries({ predicate: isCompanyScoped });
+
+    if (profile?.id) {
+      const { error: profileError } = await supabase
+        .from('profiles')
+        .update({ selected_company_id: companyId })
+        .eq('id', profile.id);
+
+      if (profileError) throw profileError;
+    }
+  };
 
   return (
-    <CompanyContext.Provider value={{ currentCompany, isLoading, error }}>
+    <CompanyContext.Provider
+      value={{
+        currentCompany,
+        companies,
+        currentRole,
+        switchCompany,
+        isLoading: companiesLoading || (!!profile?.id && membershipsLoading),
+        error,
+      }}
+    >
       {children}
     </CompanyContext.Provider>
   );
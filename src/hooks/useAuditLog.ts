@@ -0,0 +1,95 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { AuditLogEntry } from '@/utils/auditLog';
+
+export interface AuditLogFilters {
+  entityType?: string;
+  action?: string;
+  actorId?: string;
+  entityId?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  limit?: number;
+}
+
+// History of one document, including changes to its line items and allocations
+export function useEntityAuditLog(entityType: string, entityId: string | undefined) {
+  return useQuery({
+    queryKey: ['audit_log', 'entity', entityType, entityId],
+    queryFn: async () => {
+      if (!entityId) return [];
+
+      const { data, error } = await supabase
+        .from('audit_log')
+        .select('*')
+        .or(`and(entity_type.eq.${entityType},entity_id.eq.${entityId}),and(parent_type.eq.${entityType},parent_id.eq.${entityId})`)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as AuditLogEntry[];
+    },
+    enabled: !!entityId,
+  });
+}
+
+// Company-wide audit trail for the admin audit page
+export function useAuditLogs(companyId: string | undefined, filters: AuditLogFilters = {}) {
+  return useQuery({
+    queryKey: ['audit_log', companyId, filters],
+    queryFn: async () => {
+      if (!companyId) return [];
+
+      let query = supabase
+        .from('audit_log')
+        .select('*')
+        .eq('company_id', companyId);
+
+      if (filters.entityType) {
+        // Line items are logged against their parent document, so include them
+        query = query.or(`entity_type.eq.${filters.entityType},parent_type.eq.${filters.entityType}`);
+      }
+      if (filters.entityId) {
+        query = query.or(`entity_id.eq.${filters.entityId},parent_id.eq.${filters.entityId}`);
+      }
+      if (filters.action) query = query.eq('action', filters.action);
+      if (filters.actorId) query = query.eq('actor_id', filters.actorId);
+      if (filters.dateFrom) query = query.gte('created_at', filters.dateFrom);
+      if (filters.dateTo) query = query.lte('created_at', `${filters.dateTo}T23:59:59.999`);
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(filters.limit || 500);
+
+      if (error) throw error;
+      return (data || []) as AuditLogEntry[];
+    },
+    enabled: !!companyId,
+  });
+}
+
+// Everyone who appears in the company's audit trail, for the actor filter
+export function useAuditActors(companyId: string | undefined) {
+  return useQuery({
+    queryKey: ['audit_log', 'actors', companyId],
+    queryFn: async () => {
+      if (!companyId) return [];
+
+      const { data, error } = await supabase
+        .from('audit_log')
+        .select('actor_id, actor_name')
+        .eq('company_id', companyId)
+        .not('actor_id', 'is', null)
+        .order('created_at', { ascending: false })
+        .limit(2000);
+
+      if (error) throw error;
+
+      const actors = new Map<string, string>();
+      (data || []).forEach(row => {
+        if (!actors.has(row.actor_id)) actors.set(row.actor_id, row.actor_name || row.actor_id);
+      });
+      return Array.from(actors, ([id, name]) => ({ id, name }));
+    },
+    enabled: !!companyId,
+  });
+}
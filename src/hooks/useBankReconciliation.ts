@@ -0,0 +1,411 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { autoMatchLines, type MatchablePayment, type StatementLineStatus } from '@/utils/bankReconciliation';
+import type { ParsedStatement } from '@/utils/bankStatementImport';
+
+export interface BankAccount {
+  id: string;
+  company_id: string;
+  account_name: string;
+  bank_name?: string | null;
+  account_number?: string | null;
+  currency: string;
+  opening_balance: number;
+  last_reconciled_date?: string | null;
+  last_reconciled_balance?: number | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BankStatement {
+  id: string;
+  company_id: string;
+  bank_account_id: string;
+  file_name?: string | null;
+  file_format: 'csv' | 'ofx';
+  period_start?: string | null;
+  period_end?: string | null;
+  closing_balance?: number | null;
+  line_count: number;
+  created_at: string;
+}
+
+export interface BankStatementLine {
+  id: string;
+  company_id: string;
+  bank_account_id: string;
+  statement_id?: string | null;
+  transaction_date: string;
+  description?: string | null;
+  reference?: string | null;
+  amount: number;
+  running_balance?: number | null;
+  external_id: string;
+  status: StatementLineStatus;
+  payment_id?: string | null;
+  match_method?: 'auto' | 'manual' | 'created' | null;
+  matched_at?: string | null;
+  reconciliation_id?: string | null;
+  created_at: string;
+  payments?: {
+    payment_number: string;
+    payment_date: string;
+    amount: number;
+    reference_number?: string | null;
+    customers?: { name: string } | null;
+  } | null;
+}
+
+export interface BankReconciliation {
+  id: string;
+  bank_account_id: string;
+  statement_date: string;
+  statement_balance: number;
+  opening_balance: number;
+  total_credits: number;
+  total_debits: number;
+  line_count: number;
+  notes?: string | null;
+  created_at: string;
+}
+
+export type BankAccountInput = Pick<BankAccount, 'account_name' | 'bank_name' | 'account_number' | 'currency' | 'opening_balance' | 'is_active'>;
+
+const BANK_KEYS = ['bank_accounts', 'bank_statements', 'bank_statement_lines', 'bank_reconciliations'];
+
+const useInvalidateBank = () => {
+  const queryClient = useQueryClient();
+  return () => {
+    BANK_KEYS.forEach(key => queryClient.invalidateQueries({ queryKey: [key] }));
+    queryClient.invalidateQueries({ queryKey: ['payments'] });
+  };
+};
+
+export const useBankAccounts = (companyId?: string) => {
+  return useQuery({
+    queryKey: ['bank_accounts', companyId],
+    queryFn: async () => {
+      if (!companyId) return [];
+
+      const { data, error } = await supabase
+        .from('bank_accounts')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('account_name');
+
+      if (error) throw error;
+      return (data || []) as BankAccount[];
+    },
+    enabled: !!companyId,
+  });
+};
+
+export const useBankStatements = (companyId?: string) => {
+  return useQuery({
+    queryKey: ['bank_statements', companyId],
+    queryFn: async () => {
+      if (!companyId) return [];
+
+      const { data, error } = await supabase
+        .from('bank_statements')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as BankStatement[];
+    },
+    enabled: !!companyId,
+  });
+};
+
+// All accounts' lines: a payment may only clear through one line anywhere in the company
+export const useBankStatementLines = (companyId?: string) => {
+  return useQuery({
+    queryKey: ['bank_statement_lines', companyId],
+    queryFn: async () => {
+      if (!companyId) return [];
+
+      const { data, error } = await supabase
+        .from('bank_statement_lines')
+        .select(`
+          *,
+          payments(payment_number, payment_date, amount, reference_number, customers(name))
+        `)
+        .eq('company_id', companyId)
+        .order('transaction_date', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as BankStatementLine[];
+    },
+    enabled: !!companyId,
+  });
+};
+
+export const useBankReconciliations = (companyId?: string) => {
+  return useQuery({
+    queryKey: ['bank_reconciliations', companyId],
+    queryFn: async () => {
+      if (!companyId) return [];
+
+      const { data, error } = await supabase
+        .from('bank_reconciliations')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('statement_date', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as BankReconciliation[];
+    },
+    enabled: !!companyId,
+  });
+};
+
+export const useCreateBankAccount = () => {
+  const invalidate = useInvalidateBank();
+
+  return useMutation({
+    mutationFn: async ({ companyId, account }: { companyId: string; account: BankAccountInput }) => {
+      const { data, error } = await supabase
+        .from('bank_accounts')
+        .insert([{ ...account, company_id: companyId }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as BankAccount;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+export const useUpdateBankAccount = () => {
+  const invalidate = useInvalidateBank();
+
+  return useMutation({
+    mutationFn: async ({ id, account }: { id: string; account: Partial<BankAccountInput> }) => {
+      const { data, error } = await supabase
+        .from('bank_accounts')
+        .update({ ...account, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as BankAccount;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+/**
+ * Stores a parsed statement and its lines. Lines already on file for the account (same FITID or
+ * CSV fingerprint) are skipped, so overlapping statements can be imported safely.
+ */
+export const useImportBankStatement = () => {
+  const invalidate = useInvalidateBank();
+
+  return useMutation({
+    mutationFn: async ({ companyId, bankAccountId, fileName, statement, importedBy }: {
+      companyId: string;
+      bankAccountId: string;
+      fileName: string;
+      statement: ParsedStatement;
+      importedBy?: string | null;
+    }) => {
+      if (statement.lines.length === 0) {
+        throw new Error('The statement has no transactions to import');
+      }
+
+      const { data: header, error: headerError } = await supabase
+        .from('bank_statements')
+        .insert([{
+          company_id: companyId,
+          bank_account_id: bankAccountId,
+          file_name: fileName,
+          file_format: statement.format,
+          period_start: statement.period_start,
+          period_end: statement.period_end,
+          closing_balance: statement.closing_balance,
+          imported_by: importedBy || null,
+        }])
+        .select()
+        .single();
+
+      if (headerError) throw headerError;
+
+      const rows = statement.lines.map(line => ({
+        ...line,
+        company_id: companyId,
+        bank_account_id: bankAccountId,
+        statement_id: header.id,
+      }));
+
+      const { data: inserted, error: linesError } = await supabase
+        .from('bank_statement_lines')
+        .upsert(rows, { onConflict: 'bank_account_id,external_id', ignoreDuplicates: true })
+        .select('id');
+
+      if (linesError) {
+        await supabase.from('bank_statements').delete().eq('id', header.id);
+        throw linesError;
+      }
+
+      const imported = inserted?.length || 0;
+      await supabase.from('bank_statements').update({ line_count: imported }).eq('id', header.id);
+
+      return { statementId: header.id, imported, skipped: statement.lines.length - imported };
+    },
+    onSuccess: invalidate,
+  });
+};
+
+export const useMatchStatementLine = () => {
+  const invalidate = useInvalidateBank();
+
+  return useMutation({
+    mutationFn: async ({ line, paymentId, method = 'manual' }: { line: BankStatementLine; paymentId: string; method?: 'auto' | 'manual' | 'created' }) => {
+      if (line.reconciliation_id) {
+        throw new Error('This statement line has been reconciled and cannot be changed');
+      }
+
+      const { error } = await supabase
+        .from('bank_statement_lines')
+        .update({
+          status: 'matched',
+          payment_id: paymentId,
+          match_method: method,
+          matched_at: new Date().toISOString(),
+        })
+        .eq('id', line.id);
+
+      if (error) throw error;
+
+      // Record which account the receipt was banked into
+      const { error: paymentError } = await supabase
+        .from('payments')
+        .update({ bank_account_id: line.bank_account_id })
+        .eq('id', paymentId);
+
+      if (paymentError) console.error('Failed to set payment bank account:', paymentError);
+    },
+    onSuccess: invalidate,
+  });
+};
+
+export const useUnmatchStatementLine = () => {
+  const invalidate = useInvalidateBank();
+
+  return useMutation({
+    mutationFn: async (line: BankStatementLine) => {
+      if (line.reconciliation_id) {
+        throw new Error('This statement line has been reconciled and cannot be changed');
+      }
+
+      const { error } = await supabase
+        .from('bank_statement_lines')
+        .update({ status: 'unmatched', payment_id: null, match_method: null, matched_at: null })
+        .eq('id', line.id);
+
+      if (error) throw error;
+
+      if (line.payment_id) {
+        await supabase.from('payments').update({ bank_account_id: null }).eq('id', line.payment_id);
+      }
+    },
+    onSuccess: invalidate,
+  });
+};
+
+// Bank charges, transfers between accounts and other lines with no customer receipt behind them
+export const useSetStatementLineIgnored = () => {
+  const invalidate = useInvalidateBank();
+
+  return useMutation({
+    mutationFn: async ({ line, ignored }: { line: BankStatementLine; ignored: boolean }) => {
+      if (line.reconciliation_id) {
+        throw new Error('This statement line has been reconciled and cannot be changed');
+      }
+
+      const { error } = await supabase
+        .from('bank_statement_lines')
+        .update({ status: ignored ? 'ignored' : 'unmatched' })
+        .eq('id', line.id);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+/**
+ * Runs autoMatchLines over one account's unmatched credits against payments that have not cleared
+ * through any statement line yet, and saves the pairs it finds
+ */
+export const useAutoMatchStatementLines = () => {
+  const invalidate = useInvalidateBank();
+
+  return useMutation({
+    mutationFn: async ({ lines, payments, windowDays }: {
+      lines: BankStatementLine[];
+      payments: MatchablePayment[];
+      windowDays?: number;
+    }) => {
+      const matches = autoMatchLines(lines.filter(l => !l.reconciliation_id), payments, windowDays);
+      const linesById = new Map(lines.map(l => [l.id, l]));
+      let matched = 0;
+
+      for (const match of matches) {
+        const { error } = await supabase
+          .from('bank_statement_lines')
+          .update({
+            status: 'matched',
+            payment_id: match.payment_id,
+            match_method: 'auto',
+            matched_at: new Date().toISOString(),
+          })
+          .eq('id', match.line_id)
+          .eq('status', 'unmatched');
+
+        if (error) {
+          console.error('Failed to save statement match:', error);
+          continue;
+        }
+        matched++;
+
+        await supabase
+          .from('payments')
+          .update({ bank_account_id: linesById.get(match.line_id)?.bank_account_id })
+          .eq('id', match.payment_id);
+      }
+
+      return { matched, candidates: matches.length };
+    },
+    onSuccess: invalidate,
+  });
+};
+
+export const useCompleteBankReconciliation = () => {
+  const invalidate = useInvalidateBank();
+
+  return useMutation({
+    mutationFn: async ({ bankAccountId, statementDate, statementBalance, notes }: {
+      bankAccountId: string;
+      statementDate: string;
+      statementBalance: number;
+      notes?: string;
+    }) => {
+      const { data, error } = await supabase.rpc('complete_bank_reconciliation', {
+        p_bank_account_id: bankAccountId,
+        p_statement_date: statementDate,
+        p_statement_balance: statementBalance,
+        p_notes: notes || null,
+      });
+
+      if (error) throw error;
+      return data as { success: boolean; reconciliation_id: string; line_count: number };
+    },
+    onSuccess: invalidate,
+  });
+};
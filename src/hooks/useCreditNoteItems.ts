@@ -2,6 +2,7 @@ import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import type { CreditNote, CreditNoteItem } from './useCreditNotes';
+import { creditNoteLockMessage, isCreditNoteLocked } from '@/utils/documentLocks';
 
 interface CreateCreditNoteWithItemsData {
   creditNote: Omit<CreditNote, 'id' | 'created_at' | 'updated_at' | 'customers' | 'credit_note_items' | 'invoices'>;
@@ -197,12 +198,16 @@ export function useUpdateCreditNoteWithItems() {
         // 1. Get existing credit note to check if it affects inventory
         const { data: existingCreditNote, error: fetchError } = await supabase
           .from('credit_notes')
-          .select('affects_inventory, credit_note_number')
+          .select('affects_inventory, credit_note_number, status, applied_amount')
           .eq('id', creditNoteId)
           .single();
 
         if (fetchError) throw fetchError;
 
+        if (isCreditNoteLocked(existingCreditNote)) {
+          throw new Error(creditNoteLockMessage(existingCreditNote));
+        }
+
         // 2. If the credit note affects inventory, reverse existing stock movements
         if (existingCreditNote.affects_inventory) {
           console.log('Reversing existing stock movements...');
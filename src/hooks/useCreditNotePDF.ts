@@ -1,11 +1,11 @@
 import { useMutation } from '@tanstack/react-query';
 import { toast } from 'sonner';
 import { generateCreditNotePDF, type CreditNotePDFData, type CompanyData } from '@/utils/creditNotePdfGenerator';
-import { useCompanies } from '@/hooks/useDatabase';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { etimsQrDataUrl } from '@/utils/etims';
 
 export function useCreditNotePDFDownload() {
-  const { data: companies } = useCompanies();
-  const currentCompany = companies?.[0];
+  const { currentCompany } = useCurrentCompany();
 
   return useMutation({
     mutationFn: async (creditNote: CreditNotePDFData) => {
@@ -20,8 +20,15 @@ export function useCreditNotePDFDownload() {
         logo_url: currentCompany?.logo_url || '',
       };
 
+      const etims = creditNote.etims_cu_invoice_number ? {
+        cu_serial_number: creditNote.etims_cu_serial_number || '',
+        cu_invoice_number: creditNote.etims_cu_invoice_number,
+        signature: creditNote.etims_signature || '',
+        qr_image: creditNote.etims_qr_code ? await etimsQrDataUrl(creditNote.etims_qr_code) : undefined,
+      } : undefined;
+
       // Generate and download PDF
-      generateCreditNotePDF(creditNote, companyData);
+      generateCreditNotePDF(creditNote, companyData, etims);
       
       return { success: true };
     },
@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { creditNoteLockMessage, isCreditNoteLocked } from '@/utils/documentLocks';
 
 export interface CreditNote {
   id: string;
@@ -19,6 +20,12 @@ export interface CreditNote {
   affects_inventory: boolean;
   notes?: string;
   terms_and_conditions?: string;
+  etims_status?: 'queued' | 'submitted' | null;
+  etims_cu_serial_number?: string | null;
+  etims_cu_invoice_number?: string | null;
+  etims_signature?: string | null;
+  etims_qr_code?: string | null;
+  etims_submitted_at?: string | null;
   created_by?: string;
   created_at: string;
   updated_at: string;
@@ -218,6 +225,18 @@ export function useUpdateCreditNote() {
 
   return useMutation({
     mutationFn: async ({ id, updates }: { id: string; updates: Partial<CreditNote> }) => {
+      // Once applied, only the status may still move; amounts and lines are frozen
+      const { data: current, error: currentError } = await supabase
+        .from('credit_notes')
+        .select('credit_note_number, status, applied_amount')
+        .eq('id', id)
+        .single();
+
+      if (currentError) throw currentError;
+      if (isCreditNoteLocked(current) && Object.keys(updates).some(key => key !== 'status' && key !== 'updated_at')) {
+        throw new Error(creditNoteLockMessage(current));
+      }
+
       const { data, error } = await supabase
         .from('credit_notes')
         .update(updates)
@@ -236,7 +255,7 @@ export function useUpdateCreditNote() {
     },
     onError: (error: any) => {
       console.error('Error updating credit note:', error);
-      toast.error('Failed to update credit note. Please try again.');
+      toast.error(error.message || 'Failed to update credit note. Please try again.');
     },
   });
 }
@@ -247,6 +266,17 @@ export function useDeleteCreditNote() {
 
   return useMutation({
     mutationFn: async (id: string) => {
+      const { data: current, error: currentError } = await supabase
+        .from('credit_notes')
+        .select('credit_note_number, status, applied_amount')
+        .eq('id', id)
+        .single();
+
+      if (currentError) throw currentError;
+      if (isCreditNoteLocked(current)) {
+        throw new Error(creditNoteLockMessage(current));
+      }
+
       const { error } = await supabase
         .from('credit_notes')
         .delete()
@@ -262,7 +292,7 @@ export function useDeleteCreditNote() {
     },
     onError: (error: any) => {
       console.error('Error deleting credit note:', error);
-      toast.error('Failed to delete credit note. Please try again.');
+      toast.error(error.message || 'Failed to delete credit note. Please try again.');
     },
   });
 }
@@ -1,5 +1,22 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { PostgrestError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { lpoReceiptStatus, RECEIVABLE_LPO_STATUSES, summarizeLpoReceipts } from '@/utils/grnReceipts';
+import {
+  billLineTotals,
+  billMatchStatus,
+  billPaymentState,
+  billTotals,
+  matchBillLine,
+  OPEN_BILL_STATUSES,
+  SupplierBillLine,
+  type SupplierBillStatus
+} from '@/utils/accountsPayable';
+import { isLPOLocked, lpoLockMessage } from '@/utils/documentLocks';
+import { CreditAllocation, validateSplitPayment } from '@/utils/customerCredit';
+import { submitDocumentToEtims } from '@/hooks/useEtims';
+import type { BoqDocument } from '@/utils/boqPdfGenerator';
+import type { ValuationLine } from '@/utils/boqValuation';
 
 // Types
 export interface Company {
@@ -16,12 +33,26 @@ export interface Company {
   country?: string;
   currency?: string;
   logo_url?: string;
+  website?: string | null;
+  business_description?: string | null;
   fiscal_year_start?: number;
+  mpesa_paybill_number?: string | null;
+  etims_enabled?: boolean;
+  etims_adapter?: string;
+  etims_branch_id?: string;
+  etims_device_serial?: string | null;
   tax_settings?: TaxSetting[];
   created_at?: string;
   updated_at?: string;
 }
 
+export interface UserCompany {
+  id: string;
+  company_id: string;
+  role: string;
+  companies?: Company | null;
+}
+
 export interface TaxSetting {
   id: string;
   company_id: string;
@@ -38,7 +69,7 @@ export interface StockMovement {
   company_id: string;
   product_id: string;
   movement_type: 'IN' | 'OUT' | 'ADJUSTMENT';
-  reference_type: 'INVOICE' | 'DELIVERY_NOTE' | 'RESTOCK' | 'ADJUSTMENT';
+  reference_type: 'INVOICE' | 'DELIVERY_NOTE' | 'RESTOCK' | 'ADJUSTMENT' | 'CREDIT_NOTE' | 'GRN';
   reference_id?: string;
   quantity: number;
   cost_per_unit?: number;
@@ -64,6 +95,130 @@ export interface Customer {
   updated_at?: string;
 }
 
+export interface Supplier {
+  id: string;
+  company_id: string;
+  supplier_code: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  city?: string;
+  country?: string;
+  contacts?: SupplierContact[];
+  payment_terms?: number;
+  tax_pin?: string;
+  bank_name?: string;
+  bank_branch?: string;
+  bank_account_name?: string;
+  bank_account_number?: string;
+  bank_swift_code?: string;
+  category_ids?: string[];
+  notes?: string;
+  is_active?: boolean;
+  created_by?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// A type alias so contacts can be stored in the suppliers.contacts JSON column
+export type SupplierContact = {
+  name: string;
+  role?: string;
+  email?: string;
+  phone?: string;
+};
+
+export interface SupplierBillItem {
+  id: string;
+  bill_id: string;
+  lpo_item_id?: string | null;
+  product_id?: string | null;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  tax_percentage?: number | null;
+  tax_amount?: number | null;
+  line_total?: number | null;
+  ordered_quantity?: number | null;
+  received_quantity?: number | null;
+  ordered_unit_price?: number | null;
+  match_status?: string | null;
+  sort_order?: number | null;
+  // Related data
+  products?: {
+    name: string;
+    product_code?: string;
+    unit_of_measure?: string | null;
+  } | null;
+}
+
+export interface SupplierBill {
+  id: string;
+  company_id?: string | null;
+  supplier_id: string;
+  lpo_id?: string | null;
+  bill_number: string;
+  supplier_invoice_number?: string | null;
+  bill_date: string;
+  due_date?: string | null;
+  status: SupplierBillStatus;
+  match_status: string;
+  variance_note?: string | null;
+  subtotal?: number | null;
+  tax_amount?: number | null;
+  total_amount?: number | null;
+  paid_amount?: number | null;
+  balance_due?: number | null;
+  currency?: string | null;
+  exchange_rate?: number | null;
+  notes?: string | null;
+  created_by?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+  // Related data
+  suppliers?: Pick<Supplier, 'name' | 'supplier_code' | 'email' | 'phone' | 'address' | 'city' | 'country' | 'payment_terms'> | null;
+  lpos?: { lpo_number: string } | null;
+  supplier_bill_items?: SupplierBillItem[];
+  supplier_payment_allocations?: Array<{
+    id: string;
+    amount_allocated: number;
+    supplier_payments?: {
+      payment_number: string;
+      payment_date: string;
+      payment_method?: string | null;
+      reference_number?: string | null;
+    } | null;
+  }>;
+}
+
+export interface SupplierPayment {
+  id: string;
+  company_id?: string | null;
+  supplier_id: string;
+  payment_number: string;
+  payment_date: string;
+  amount: number;
+  payment_method?: string | null;
+  reference_number?: string | null;
+  currency?: string | null;
+  exchange_rate?: number | null;
+  notes?: string | null;
+  created_by?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+  // Related data
+  suppliers?: Pick<Supplier, 'name' | 'supplier_code' | 'email' | 'bank_name' | 'bank_account_number'> | null;
+  supplier_payment_allocations?: Array<{
+    id: string;
+    bill_id: string;
+    payment_id: string;
+    amount_allocated: number;
+    realised_fx_gain_loss?: number | null;
+    supplier_bills?: { bill_number: string; supplier_invoice_number?: string | null; total_amount?: number | null } | null;
+  }>;
+}
+
 export interface Product {
   id: string;
   company_id: string;
@@ -97,9 +252,17 @@ export interface Invoice {
   total_amount?: number;
   paid_amount?: number;
   balance_due?: number;
+  currency?: string;
+  exchange_rate?: number | null;
+  base_subtotal?: number;
+  base_tax_amount?: number;
+  base_total_amount?: number;
   notes?: string;
   terms_and_conditions?: string;
   affects_inventory?: boolean;
+  void_reason?: string;
+  voided_at?: string;
+  voided_by?: string;
   created_at?: string;
   updated_at?: string;
 }
@@ -114,10 +277,29 @@ export interface Payment {
   payment_method: string;
   reference_number?: string;
   notes?: string;
+  currency?: string;
+  exchange_rate?: number | null;
+  base_amount?: number;
   created_at?: string;
   updated_at?: string;
 }
 
+// What record_payment_with_allocation() returns (migrations/019_split_payments.sql); the
+// client-side fallback in useCreatePayment returns the same shape plus the fallback flags
+export interface RecordPaymentResult {
+  success: boolean;
+  error?: string;
+  payment_id?: string;
+  invoice_id?: string | null;
+  invoice_ids?: string[] | null;
+  amount_allocated?: number;
+  unallocated_amount?: number;
+  invoice_balance?: number | null;
+  fallback_used?: boolean;
+  allocation_failed?: boolean;
+  allocation_error?: string | null;
+}
+
 export interface RemittanceAdvice {
   id: string;
   company_id: string;
@@ -191,10 +373,15 @@ export interface LPO {
   lpo_number: string;
   lpo_date: string;
   delivery_date?: string;
-  status: 'draft' | 'sent' | 'approved' | 'received' | 'cancelled';
+  status: 'draft' | 'sent' | 'approved' | 'partially_received' | 'received' | 'cancelled';
   subtotal: number;
   tax_amount: number;
   total_amount: number;
+  currency?: string;
+  exchange_rate?: number | null;
+  base_subtotal?: number;
+  base_tax_amount?: number;
+  base_total_amount?: number;
   notes?: string;
   terms_and_conditions?: string;
   delivery_address?: string;
@@ -213,6 +400,56 @@ export interface LPO {
   lpo_items?: LPOItem[];
 }
 
+export interface GRNItem {
+  id: string;
+  grn_id: string;
+  lpo_item_id: string;
+  product_id?: string | null;
+  description: string;
+  quantity_received: number;
+  unit_cost: number;
+  line_total: number;
+  sort_order?: number | null;
+  // Related data
+  products?: {
+    name: string;
+    product_code?: string;
+    unit_of_measure?: string | null;
+  } | null;
+}
+
+export interface GoodsReceivedNote {
+  id: string;
+  company_id?: string | null;
+  lpo_id: string;
+  supplier_id?: string | null;
+  grn_number: string;
+  received_date: string;
+  supplier_delivery_note?: string | null;
+  received_by?: string | null;
+  notes?: string | null;
+  total_value?: number | null;
+  created_by?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+  // Related data
+  suppliers?: {
+    name: string;
+    email?: string | null;
+    phone?: string | null;
+    address?: string | null;
+    city?: string | null;
+    country?: string | null;
+  } | null;
+  lpos?: {
+    lpo_number: string;
+    lpo_date: string;
+    status: string;
+    lpo_items?: Array<{ id: string; quantity: number }>;
+  } | null;
+  grn_items?: GRNItem[];
+}
+
 export interface LPOItem {
   id: string;
   lpo_id: string;
@@ -233,6 +470,99 @@ export interface LPOItem {
   };
 }
 
+export interface Unit {
+  id: string;
+  company_id?: string | null;
+  name: string;
+  abbreviation?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+}
+
+export interface BOQ {
+  id: string;
+  company_id?: string | null;
+  number: string;
+  boq_date: string;
+  client_name: string;
+  client_email?: string | null;
+  client_phone?: string | null;
+  client_address?: string | null;
+  client_city?: string | null;
+  client_country?: string | null;
+  customer_id?: string | null;
+  contractor?: string | null;
+  project_title?: string | null;
+  currency?: string | null;
+  status?: string | null;
+  subtotal?: number | null;
+  tax_amount?: number | null;
+  total_amount: number;
+  data: BoqDocument | null;
+  current_revision?: number | null;
+  converted_to_type?: string | null;
+  converted_to_id?: string | null;
+  converted_to_number?: string | null;
+  converted_at?: string | null;
+  attachment_url?: string | null;
+  created_by?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+}
+
+export interface BOQRevision {
+  id: string;
+  boq_id: string;
+  company_id?: string | null;
+  revision_number: number;
+  data: BoqDocument;
+  subtotal?: number | null;
+  total_amount?: number | null;
+  change_note?: string | null;
+  created_by?: string | null;
+  created_at?: string | null;
+  author?: { id: string; full_name?: string | null; email?: string | null } | null;
+}
+
+export interface BOQValuation {
+  id: string;
+  boq_id: string;
+  company_id?: string | null;
+  valuation_number: number;
+  valuation_date: string;
+  status: string;
+  items: ValuationLine[];
+  retention_percentage?: number | null;
+  gross_value?: number | null;
+  retention_amount?: number | null;
+  net_value?: number | null;
+  previous_certified?: number | null;
+  amount_due?: number | null;
+  invoice_id?: string | null;
+  invoice_number?: string | null;
+  certified_at?: string | null;
+  notes?: string | null;
+  created_by?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+}
+
+export interface BOQRate {
+  id: string;
+  company_id?: string | null;
+  description: string;
+  unit_id?: string | null;
+  product_id?: string | null;
+  default_rate: number;
+  tags?: string[] | null;
+  is_active?: boolean | null;
+  created_by?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+  units?: { name: string; abbreviation?: string | null } | null;
+  products?: { name: string; product_code?: string | null } | null;
+}
+
 // Companies hooks
 export const useCompanies = () => {
   return useQuery({
@@ -249,6 +579,25 @@ export const useCompanies = () => {
   });
 };
 
+// Companies a user belongs to, with their role in each
+export const useUserCompanies = (userId?: string) => {
+  return useQuery({
+    queryKey: ['user_companies', userId],
+    queryFn: async () => {
+      if (!userId) return [];
+
+      const { data, error } = await supabase
+        .from('user_companies')
+        .select('id, company_id, role, companies(*)')
+        .eq('user_id', userId);
+
+      if (error) throw error;
+      return (data || []) as unknown as UserCompany[];
+    },
+    enabled: !!userId,
+  });
+};
+
 export const useCreateCompany = () => {
   const queryClient = useQueryClient();
 
@@ -295,20 +644,18 @@ export const useCustomers = (companyId?: string) => {
   return useQuery({
     queryKey: ['customers', companyId],
     queryFn: async () => {
-      let query = supabase
+      if (!companyId) return [];
+
+      const { data, error } = await supabase
         .from('customers')
         .select('*')
+        .eq('company_id', companyId)
         .order('created_at', { ascending: false });
       
-      if (companyId) {
-        query = query.eq('company_id', companyId);
-      }
-      
-      const { data, error } = await query;
-      
       if (error) throw error;
       return data as Customer[];
     },
+    enabled: !!companyId,
   });
 };
 
@@ -376,23 +723,21 @@ export const useProducts = (companyId?: string) => {
   return useQuery({
     queryKey: ['products', companyId],
     queryFn: async () => {
-      let query = supabase
+      if (!companyId) return [];
+
+      const { data, error } = await supabase
         .from('products')
         .select(`
           *,
           product_categories(name)
         `)
+        .eq('company_id', companyId)
         .order('created_at', { ascending: false });
       
-      if (companyId) {
-        query = query.eq('company_id', companyId);
-      }
-      
-      const { data, error } = await query;
-      
       if (error) throw error;
       return data;
     },
+    enabled: !!companyId,
   });
 };
 
@@ -464,20 +809,18 @@ export const useTaxSettings = (companyId?: string) => {
   return useQuery({
     queryKey: ['tax_settings', companyId],
     queryFn: async () => {
-      let query = supabase
+      if (!companyId) return [];
+
+      const { data, error } = await supabase
         .from('tax_settings')
         .select('*')
+        .eq('company_id', companyId)
         .order('created_at', { ascending: false });
 
-      if (companyId) {
-        query = query.eq('company_id', companyId);
-      }
-
-      const { data, error } = await query;
-
       if (error) throw error;
       return data as TaxSetting[];
     },
+    enabled: !!companyId,
   });
 };
 
@@ -553,7 +896,7 @@ export const useBOQs = (companyId?: string) => {
         .eq('company_id', companyId)
         .order('created_at', { ascending: false });
       if (error) throw error;
-      return data;
+      return data as unknown as BOQ[];
     },
   });
 };
@@ -564,14 +907,145 @@ export const useCreateBOQ = () => {
     mutationFn: async (boq: any) => {
       const { data, error } = await supabase
         .from('boqs')
-        .insert([boq])
+        .insert([{ ...boq, current_revision: 1 }])
         .select()
         .single();
       if (error) throw error;
+
+      // The first save is Rev A
+      const { error: revisionError } = await supabase
+        .from('boq_revisions')
+        .insert([{
+          boq_id: data.id,
+          company_id: data.company_id,
+          revision_number: 1,
+          data: data.data,
+          subtotal: data.subtotal,
+          total_amount: data.total_amount,
+          created_by: boq.created_by || null,
+        }]);
+      if (revisionError) {
+        // A BOQ without Rev A cannot be revised or diffed, so the insert is undone
+        const { error: rollbackError } = await supabase.from('boqs').delete().eq('id', data.id);
+        if (rollbackError) console.error('Failed to remove BOQ after its revision could not be stored:', rollbackError);
+        throw revisionError;
+      }
+
       return data;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['boqs'] });
+      queryClient.invalidateQueries({ queryKey: ['boq_revisions'] });
+    },
+  });
+};
+
+// Save changes to a BOQ and record the new data as the next revision
+export const useUpdateBOQ = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, updates, changeNote, updatedBy }: {
+      id: string;
+      updates: Partial<Omit<BOQ, 'id'>>;
+      changeNote?: string;
+      updatedBy?: string | null;
+    }) => {
+      const { data: existing, error: fetchError } = await supabase
+        .from('boqs')
+        .select('*')
+        .eq('id', id)
+        .single();
+      if (fetchError) throw fetchError;
+
+      const { data: latest, error: latestError } = await supabase
+        .from('boq_revisions')
+        .select('revision_number')
+        .eq('boq_id', id)
+        .order('revision_number', { ascending: false })
+        .limit(1);
+      if (latestError) throw latestError;
+
+      let lastRevision = latest?.[0]?.revision_number || 0;
+
+      // BOQs saved before revisions existed: keep their original data as Rev A
+      if (lastRevision === 0 && existing.data) {
+        const { error: backfillError } = await supabase
+          .from('boq_revisions')
+          .insert([{
+            boq_id: id,
+            company_id: existing.company_id,
+            revision_number: 1,
+            data: existing.data,
+            subtotal: existing.subtotal,
+            total_amount: existing.total_amount,
+            created_by: existing.created_by || null,
+            created_at: existing.created_at,
+          }]);
+        if (backfillError) throw backfillError;
+        lastRevision = 1;
+      }
+
+      const nextRevision = lastRevision + 1;
+
+      const { data, error } = await supabase
+        .from('boqs')
+        .update({ ...updates, current_revision: nextRevision, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+      if (error) throw error;
+
+      const { error: revisionError } = await supabase
+        .from('boq_revisions')
+        .insert([{
+          boq_id: id,
+          company_id: data.company_id,
+          revision_number: nextRevision,
+          data: data.data,
+          subtotal: data.subtotal,
+          total_amount: data.total_amount,
+          change_note: changeNote || null,
+          created_by: updatedBy || null,
+        }]);
+      if (revisionError) throw revisionError;
+
+      return data;
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['boqs'] });
+      queryClient.invalidateQueries({ queryKey: ['boq_revisions', variables.id] });
+    },
+  });
+};
+
+export const useBOQRevisions = (boqId?: string) => {
+  return useQuery({
+    queryKey: ['boq_revisions', boqId],
+    enabled: !!boqId,
+    queryFn: async () => {
+      if (!boqId) return [];
+      const { data: revisions, error } = await supabase
+        .from('boq_revisions')
+        .select('*')
+        .eq('boq_id', boqId)
+        .order('revision_number', { ascending: false });
+      if (error) throw error;
+      if (!revisions || revisions.length === 0) return [];
+
+      // Resolve authors separately to avoid relationship ambiguity
+      const authorIds = [...new Set(revisions.map(r => r.created_by).filter(Boolean))];
+      const { data: authors } = authorIds.length > 0 ? await supabase
+        .from('profiles')
+        .select('id, full_name, email')
+        .in('id', authorIds) : { data: [] };
+
+      const authorMap = new Map<string, BOQRevision['author']>();
+      (authors || []).forEach(author => authorMap.set(author.id, author));
+
+      return revisions.map(revision => ({
+        ...revision,
+        author: authorMap.get(revision.created_by) || null,
+      })) as BOQRevision[];
     },
   });
 };
@@ -589,6 +1063,142 @@ export const useDeleteBOQ = () => {
   });
 };
 
+// Record the quotation/proforma/invoice a BOQ was converted into
+// BOQ valuation (interim payment certificate) hooks
+export const useBOQValuations = (boqId?: string) => {
+  return useQuery({
+    queryKey: ['boq_valuations', boqId],
+    enabled: !!boqId,
+    queryFn: async () => {
+      if (!boqId) return [];
+      const { data, error } = await supabase
+        .from('boq_valuations')
+        .select('*')
+        .eq('boq_id', boqId)
+        .order('valuation_number', { ascending: true });
+      if (error) throw error;
+      return data as unknown as BOQValuation[];
+    },
+  });
+};
+
+export const useCreateBOQValuation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (valuation: Omit<BOQValuation, 'id' | 'valuation_number'>) => {
+      // Valuations are numbered sequentially per BOQ
+      const { data: latest, error: latestError } = await supabase
+        .from('boq_valuations')
+        .select('valuation_number')
+        .eq('boq_id', valuation.boq_id)
+        .order('valuation_number', { ascending: false })
+        .limit(1);
+      if (latestError) throw latestError;
+
+      const payload = { ...valuation, valuation_number: (latest?.[0]?.valuation_number || 0) + 1 };
+      let { data, error } = await supabase
+        .from('boq_valuations')
+        .insert([payload])
+        .select()
+        .single();
+      if (error && error.code === '23503' && String(error.message || '').includes('created_by')) {
+        ({ data, error } = await supabase
+          .from('boq_valuations')
+          .insert([{ ...payload, created_by: null }])
+          .select()
+          .single());
+      }
+      if (error) throw error;
+      return data as unknown as BOQValuation;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['boq_valuations', data?.boq_id] });
+    },
+  });
+};
+
+export const useUpdateBOQValuation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<Omit<BOQValuation, 'id'>> }) => {
+      const { data, error } = await supabase
+        .from('boq_valuations')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+      if (error) throw error;
+      return data as unknown as BOQValuation;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['boq_valuations', data?.boq_id] });
+    },
+  });
+};
+
+export const useDeleteBOQValuation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('boq_valuations').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['boq_valuations'] });
+    },
+  });
+};
+
+export const useMarkBOQConverted = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, type, documentId, documentNumber }: {
+      id: string;
+      type: 'quotation' | 'proforma' | 'invoice';
+      documentId: string;
+      documentNumber: string;
+    }) => {
+      const { data, error } = await supabase
+        .from('boqs')
+        .update({
+          converted_to_type: type,
+          converted_to_id: documentId,
+          converted_to_number: documentNumber,
+          converted_at: new Date().toISOString(),
+          status: 'issued',
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', id)
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['boqs'] });
+    },
+  });
+};
+
+export const useUpdateBOQStatus = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: 'draft' | 'issued' }) => {
+      const { data, error } = await supabase
+        .from('boqs')
+        .update({ status, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['boqs'] });
+    },
+  });
+};
+
 // Units hooks
 export const useUnits = (companyId?: string) => {
   return useQuery({
@@ -602,7 +1212,7 @@ export const useUnits = (companyId?: string) => {
         .eq('company_id', companyId)
         .order('name', { ascending: true });
       if (error) throw error;
-      return data;
+      return data as Unit[];
     },
   });
 };
@@ -652,16 +1262,88 @@ export const useDeleteUnit = () => {
   });
 };
 
-// Invoices hooks - Fixed to avoid relationship ambiguity
-export const useInvoices = (companyId?: string) => {
+// BOQ rate library hooks
+export const useBOQRates = (companyId?: string) => {
   return useQuery({
-    queryKey: ['invoices', companyId],
+    queryKey: ['boq_rates', companyId],
     enabled: !!companyId,
     queryFn: async () => {
       if (!companyId) return [];
-
-      try {
-        // Step 1: Get invoices without embedded relationships
+      const { data, error } = await supabase
+        .from('boq_rates')
+        .select(`
+          *,
+          units(name, abbreviation),
+          products(name, product_code)
+        `)
+        .eq('company_id', companyId)
+        .order('description', { ascending: true });
+      if (error) throw error;
+      return data as BOQRate[];
+    },
+  });
+};
+
+export const useCreateBOQRate = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (rate: Omit<BOQRate, 'id' | 'units' | 'products'>) => {
+      const { data, error } = await supabase
+        .from('boq_rates')
+        .insert([rate])
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['boq_rates'] });
+    },
+  });
+};
+
+export const useUpdateBOQRate = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<Omit<BOQRate, 'id' | 'units' | 'products'>> }) => {
+      const { data, error } = await supabase
+        .from('boq_rates')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['boq_rates'] });
+    }
+  });
+};
+
+export const useDeleteBOQRate = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('boq_rates').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['boq_rates'] });
+    }
+  });
+};
+
+// Invoices hooks - Fixed to avoid relationship ambiguity
+export const useInvoices = (companyId?: string) => {
+  return useQuery({
+    queryKey: ['invoices', companyId],
+    enabled: !!companyId,
+    queryFn: async () => {
+      if (!companyId) return [];
+
+      try {
+        // Step 1: Get invoices without embedded relationships
         let query = supabase
           .from('invoices')
           .select(`
@@ -675,11 +1357,16 @@ export const useInvoices = (companyId?: string) => {
             subtotal,
             tax_amount,
             total_amount,
+            currency,
+            exchange_rate,
+            base_total_amount,
             paid_amount,
             balance_due,
             notes,
             terms_and_conditions,
             lpo_number,
+            void_reason,
+            voided_at,
             created_at,
             updated_at
           `)
@@ -709,6 +1396,7 @@ export const useInvoices = (companyId?: string) => {
             description,
             quantity,
             unit_price,
+            unit_of_measure,
             discount_before_vat,
             tax_percentage,
             tax_amount,
@@ -777,11 +1465,16 @@ export const useCustomerInvoices = (customerId?: string, companyId?: string) =>
             subtotal,
             tax_amount,
             total_amount,
+            currency,
+            exchange_rate,
+            base_total_amount,
             paid_amount,
             balance_due,
             notes,
             terms_and_conditions,
             lpo_number,
+            void_reason,
+            voided_at,
             created_at,
             updated_at
           `)
@@ -808,6 +1501,7 @@ export const useCustomerInvoices = (customerId?: string, companyId?: string) =>
             description,
             quantity,
             unit_price,
+            unit_of_measure,
             discount_before_vat,
             tax_percentage,
             tax_amount,
@@ -891,6 +1585,76 @@ export const useCreateInvoice = () => {
   });
 };
 
+// Moves a draft invoice to sent, which posts it: from here on it is corrected by credit note or void
+// Posts a draft invoice. With eTIMS on, the invoice is posted together with its CU data; a failed
+// submission is queued for retry and thrown, leaving the invoice in draft.
+export const markInvoiceSent = async (invoiceId: string) => {
+  const fiscal = await submitDocumentToEtims({ documentType: 'invoice', documentId: invoiceId, markSent: true });
+  if (fiscal.status !== 'not_enabled') return fiscal.document;
+
+  const { data, error } = await supabase
+    .from('invoices')
+    .update({ status: 'sent', updated_at: new Date().toISOString() })
+    .eq('id', invoiceId)
+    .eq('status', 'draft')
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export const useMarkInvoiceSent = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: markInvoiceSent,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['invoices_fixed'] });
+      queryClient.invalidateQueries({ queryKey: ['customer_invoices'] });
+    },
+  });
+};
+
+// Voids an invoice through void_invoice() (migrations/016_document_posting.sql), which reverses
+// its stock movements and releases payment and credit note allocations in one transaction
+export const useVoidInvoice = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ invoiceId, reason }: { invoiceId: string; reason: string }) => {
+      if (!reason.trim()) {
+        throw new Error('A reason is required to void an invoice');
+      }
+
+      const { data, error } = await supabase.rpc('void_invoice', {
+        p_invoice_id: invoiceId,
+        p_reason: reason.trim()
+      });
+
+      if (error) throw error;
+      return data as {
+        success: boolean;
+        invoice_id: string;
+        products_restocked: number;
+        payments_released: number;
+        credits_released: number;
+      };
+    },
+    onSuccess: (_result, { invoiceId }) => {
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['invoices_fixed'] });
+      queryClient.invalidateQueries({ queryKey: ['invoice', invoiceId] });
+      queryClient.invalidateQueries({ queryKey: ['customer_invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['payments'] });
+      queryClient.invalidateQueries({ queryKey: ['creditNotes'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['stock_movements'] });
+    },
+  });
+};
+
 // Payments hooks
 export const usePayments = (companyId?: string) => {
   return useQuery({
@@ -909,6 +1673,9 @@ export const usePayments = (companyId?: string) => {
             payment_number,
             payment_date,
             amount,
+            currency,
+            exchange_rate,
+            base_amount,
             payment_method,
             reference_number,
             notes,
@@ -1015,7 +1782,10 @@ export const useCreatePayment = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (paymentData: Omit<Payment, 'id' | 'created_at' | 'updated_at'> & { invoice_id: string }) => {
+    // invoice_id is optional: without it the payment is a deposit, and anything over the invoice
+    // balance is kept as customer credit to allocate later (see useAllocatePayment). allocations
+    // splits one payment across several invoices instead of a single invoice_id.
+    mutationFn: async (paymentData: Omit<Payment, 'id' | 'created_at' | 'updated_at'> & { invoice_id?: string | null; allocations?: CreditAllocation[] }): Promise<RecordPaymentResult> => {
       // Validate UUID fields before insert
       if (!paymentData.company_id || typeof paymentData.company_id !== 'string' || paymentData.company_id.length !== 36) {
         throw new Error('Invalid company ID. Please refresh and try again.');
@@ -1023,21 +1793,33 @@ export const useCreatePayment = () => {
       if (paymentData.customer_id && (typeof paymentData.customer_id !== 'string' || paymentData.customer_id.length !== 36)) {
         throw new Error('Invalid customer ID. Please select a valid invoice.');
       }
-      if (!paymentData.invoice_id || typeof paymentData.invoice_id !== 'string' || paymentData.invoice_id.length !== 36) {
+      if (paymentData.invoice_id && (typeof paymentData.invoice_id !== 'string' || paymentData.invoice_id.length !== 36)) {
         throw new Error('Invalid invoice ID. Please select a valid invoice.');
       }
+      if (!paymentData.invoice_id && !paymentData.customer_id) {
+        throw new Error('Select the customer this payment is from.');
+      }
+
+      const splitAllocations = (paymentData.allocations || []).filter(a => a.amount !== 0);
+      if (splitAllocations.length > 0 && paymentData.invoice_id) {
+        throw new Error('Pass either one invoice or a list of allocations, not both.');
+      }
 
       // Try using the database function first
       const { data, error } = await supabase.rpc('record_payment_with_allocation', {
         p_company_id: paymentData.company_id,
         p_customer_id: paymentData.customer_id,
-        p_invoice_id: paymentData.invoice_id,
+        p_invoice_id: paymentData.invoice_id || null,
         p_payment_number: paymentData.payment_number,
         p_payment_date: paymentData.payment_date,
         p_amount: paymentData.amount,
         p_payment_method: paymentData.payment_method,
         p_reference_number: paymentData.reference_number || paymentData.payment_number,
-        p_notes: paymentData.notes || null
+        p_notes: paymentData.notes || null,
+        // Only sent for split payments so single-invoice payments keep working before migration 019
+        ...(splitAllocations.length > 0 ? { p_allocations: splitAllocations } : {}),
+        // Without a currency the payment takes its invoice's (migration 026)
+        ...(paymentData.currency ? { p_currency: paymentData.currency, p_exchange_rate: paymentData.exchange_rate ?? null } : {})
       });
 
       // If function doesn't exist (PGRST202), fall back to manual approach
@@ -1045,7 +1827,24 @@ export const useCreatePayment = () => {
         console.warn('Database function not found, using fallback method');
 
         // Fallback: Manual payment recording with invoice updates
-        const { invoice_id, ...paymentFields } = paymentData;
+        const { invoice_id, allocations: _allocations, ...paymentFields } = paymentData;
+
+        // Same checks allocate_payment() makes, before anything is written
+        if (splitAllocations.length > 0) {
+          const { data: splitInvoices, error: splitInvoicesError } = await supabase
+            .from('invoices')
+            .select('id, company_id, customer_id, status, total_amount, paid_amount, balance_due')
+            .in('id', splitAllocations.map(a => a.invoice_id));
+
+          if (splitInvoicesError) throw splitInvoicesError;
+          const splitError = validateSplitPayment(
+            paymentData.amount,
+            splitAllocations,
+            (splitInvoices || []).filter(inv => inv.company_id === paymentData.company_id),
+            paymentData.customer_id
+          );
+          if (splitError) throw new Error(splitError);
+        }
 
         // 1. Insert payment
         const { data: paymentResult, error: paymentError } = await supabase
@@ -1056,86 +1855,110 @@ export const useCreatePayment = () => {
 
         if (paymentError) throw paymentError;
 
-        // 2. Create payment allocation with enhanced error handling
-        let allocationError: any = null;
-        try {
-          // First check if payment_allocations table exists
-          const { error: tableCheckError } = await supabase
-            .from('payment_allocations')
-            .select('id')
-            .limit(1);
-
-          if (tableCheckError && tableCheckError.message.includes('relation') && tableCheckError.message.includes('does not exist')) {
-            allocationError = new Error('payment_allocations table does not exist. Please run the table setup SQL.');
-          } else {
-            // Table exists, try to insert allocation
-            const { error: insertError } = await supabase
-              .from('payment_allocations')
-              .insert([{
-                payment_id: paymentResult.id,
-                invoice_id: invoice_id,
-                amount_allocated: paymentData.amount
-              }]);
-
-            allocationError = insertError;
-          }
-        } catch (err) {
-          allocationError = err;
+        // Only each invoice's balance is allocated; the rest stays on the payment as credit
+        const targets: CreditAllocation[] = [...splitAllocations];
+        if (invoice_id) {
+          const { data: invoiceBefore } = await supabase
+            .from('invoices')
+            .select('total_amount, paid_amount, balance_due')
+            .eq('id', invoice_id)
+            .single();
+          const openBalance = Math.max(0, Number(invoiceBefore?.balance_due ?? (invoiceBefore?.total_amount || 0) - (invoiceBefore?.paid_amount || 0)));
+          targets.push({ invoice_id, amount: paymentData.amount < 0 ? paymentData.amount : Math.min(paymentData.amount, openBalance) });
         }
 
-        if (allocationError) {
-          console.error('Failed to create allocation:', allocationError);
-          console.error('Allocation error details:', JSON.stringify(allocationError, null, 2));
-          console.error('Payment was recorded successfully, but allocation failed');
+        let allocationError: PostgrestError | null = null;
+        let amountAllocated = 0;
+        for (const target of targets) {
+          if (target.amount === 0) continue;
 
-          // If it's an RLS error, provide specific guidance
-          if (allocationError.message?.includes('row-level security') || allocationError.message?.includes('permission denied')) {
-            console.error('RLS Error: User profile may not be linked to a company or RLS policies are blocking the insert');
+          // 2. Create payment allocation with enhanced error handling
+          let targetError: PostgrestError | null = null;
+          try {
+            // First check if payment_allocations table exists
+            const { error: tableCheckError } = await supabase
+              .from('payment_allocations')
+              .select('id')
+              .limit(1);
+
+            if (tableCheckError && tableCheckError.message.includes('relation') && tableCheckError.message.includes('does not exist')) {
+              console.error('payment_allocations table does not exist. Please run the table setup SQL.');
+              targetError = tableCheckError;
+            } else {
+              // Table exists, try to insert allocation
+              const { error: insertError } = await supabase
+                .from('payment_allocations')
+                .insert([{
+                  payment_id: paymentResult.id,
+                  invoice_id: target.invoice_id,
+                  amount_allocated: target.amount
+                }]);
+
+              targetError = insertError;
+            }
+          } catch (err) {
+            targetError = err as PostgrestError;
           }
 
-          // Continue anyway - payment was recorded
-          // The UI should show this as a warning, not a complete failure
-        }
+          if (targetError) {
+            console.error('Failed to create allocation:', targetError);
+            console.error('Allocation error details:', JSON.stringify(targetError, null, 2));
+            console.error('Payment was recorded successfully, but allocation failed');
 
-        // 3. Get current invoice data and update balances
-        const { data: invoice, error: fetchError } = await supabase
-          .from('invoices')
-          .select('id, total_amount, paid_amount, balance_due')
-          .eq('id', invoice_id)
-          .single();
+            // If it's an RLS error, provide specific guidance
+            if (targetError.message?.includes('row-level security') || targetError.message?.includes('permission denied')) {
+              console.error('RLS Error: User profile may not be linked to a company or RLS policies are blocking the insert');
+            }
 
-        if (!fetchError && invoice) {
-          const newPaidAmount = (invoice.paid_amount || 0) + paymentData.amount;
-          const newBalanceDue = invoice.total_amount - newPaidAmount;
-          let newStatus = invoice.status;
-
-          if (newBalanceDue <= 0) {
-            newStatus = 'paid';
-          } else if (newPaidAmount > 0) {
-            newStatus = 'partial';
+            // Continue anyway - payment was recorded
+            // The UI should show this as a warning, not a complete failure
+            allocationError = allocationError || targetError;
+            continue;
           }
+          amountAllocated += target.amount;
 
-          const { error: invoiceError } = await supabase
+          // 3. Get current invoice data and update balances
+          const { data: invoice, error: fetchError } = await supabase
             .from('invoices')
-            .update({
-              paid_amount: newPaidAmount,
-              balance_due: newBalanceDue,
-              status: newStatus,
-              updated_at: new Date().toISOString()
-            })
-            .eq('id', invoice_id);
-
-          if (invoiceError) {
-            console.error('Failed to update invoice balance:', invoiceError);
-            // Continue anyway - payment and allocation were recorded
+            .select('id, total_amount, paid_amount, balance_due, status')
+            .eq('id', target.invoice_id)
+            .single();
+
+          if (!fetchError && invoice) {
+            const newPaidAmount = (invoice.paid_amount || 0) + target.amount;
+            const newBalanceDue = invoice.total_amount - newPaidAmount;
+            let newStatus = invoice.status;
+
+            if (newBalanceDue <= 0) {
+              newStatus = 'paid';
+            } else if (newPaidAmount > 0) {
+              newStatus = 'partial';
+            }
+
+            const { error: invoiceError } = await supabase
+              .from('invoices')
+              .update({
+                paid_amount: newPaidAmount,
+                balance_due: newBalanceDue,
+                status: newStatus,
+                updated_at: new Date().toISOString()
+              })
+              .eq('id', target.invoice_id);
+
+            if (invoiceError) {
+              console.error('Failed to update invoice balance:', invoiceError);
+              // Continue anyway - payment and allocation were recorded
+            }
           }
         }
 
         return {
           success: true,
           payment_id: paymentResult.id,
-          invoice_id: invoice_id,
-          amount_allocated: paymentData.amount,
+          invoice_id: invoice_id || null,
+          invoice_ids: targets.map(t => t.invoice_id),
+          amount_allocated: amountAllocated,
+          unallocated_amount: paymentData.amount - amountAllocated,
           fallback_used: true,
           allocation_failed: !!allocationError,
           allocation_error: allocationError ? JSON.stringify(allocationError) : null
@@ -1148,18 +1971,49 @@ export const useCreatePayment = () => {
         throw error;
       }
 
-      if (!data || !data.success) {
-        throw new Error(data?.error || 'Failed to record payment');
+      const result = data as unknown as RecordPaymentResult | null;
+      if (!result || !result.success) {
+        throw new Error(result?.error || 'Failed to record payment');
       }
 
-      return data;
+      return result;
     },
     onSuccess: (result) => {
       // Invalidate multiple cache keys to refresh UI
       queryClient.invalidateQueries({ queryKey: ['payments'] });
       queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['invoices_fixed'] });
       queryClient.invalidateQueries({ queryKey: ['invoice', result.invoice_id] });
+      (result.invoice_ids || []).forEach(invoiceId => {
+        queryClient.invalidateQueries({ queryKey: ['invoice', invoiceId] });
+      });
+      queryClient.invalidateQueries({ queryKey: ['customer_invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['customer_payments'] });
+    },
+  });
+};
+
+// Allocates a payment's unallocated credit across invoices through allocate_payment()
+// (migrations/018_customer_credit.sql), which checks the credit and each invoice balance
+export const useAllocatePayment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ paymentId, allocations }: { paymentId: string; allocations: { invoice_id: string; amount: number }[] }) => {
+      const { data, error } = await supabase.rpc('allocate_payment', {
+        p_payment_id: paymentId,
+        p_allocations: allocations,
+      });
+
+      if (error) throw error;
+      return data as { success: boolean; payment_id: string; amount_allocated: number; unallocated_amount: number };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payments'] });
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['invoices_fixed'] });
       queryClient.invalidateQueries({ queryKey: ['customer_invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['customer_payments'] });
     },
   });
 };
@@ -1169,24 +2023,22 @@ export const useRemittanceAdvice = (companyId?: string) => {
   return useQuery({
     queryKey: ['remittance_advice', companyId],
     queryFn: async () => {
-      let query = supabase
+      if (!companyId) return [];
+
+      const { data, error } = await supabase
         .from('remittance_advice')
         .select(`
           *,
           customers:customers!customer_id(name, email, address),
           remittance_advice_items(*, payments(payment_number), invoices(invoice_number))
         `)
+        .eq('company_id', companyId)
         .order('created_at', { ascending: false });
       
-      if (companyId) {
-        query = query.eq('company_id', companyId);
-      }
-      
-      const { data, error } = await query;
-      
       if (error) throw error;
       return data;
     },
+    enabled: !!companyId,
   });
 };
 
@@ -1344,8 +2196,16 @@ export const useQuotations = (companyId?: string) => {
             subtotal,
             tax_amount,
             total_amount,
+            currency,
+            exchange_rate,
+            base_total_amount,
             notes,
             terms_and_conditions,
+            revision_number,
+            status_reason,
+            competitor,
+            status_changed_at,
+            created_by,
             created_at,
             updated_at
           `)
@@ -1374,6 +2234,7 @@ export const useQuotations = (companyId?: string) => {
             description,
             quantity,
             unit_price,
+            unit_of_measure,
             discount_percentage,
             tax_percentage,
             tax_amount,
@@ -1390,12 +2251,24 @@ export const useQuotations = (companyId?: string) => {
           .select('id, name, unit_of_measure')
           .in('id', productIds) : { data: [] };
 
-        // Step 5: Create lookup maps
+        // Step 5: Get the salespeople who raised the quotations
+        const salespersonIds = [...new Set(quotations.map(quotation => quotation.created_by).filter(Boolean))];
+        const { data: salespeople } = salespersonIds.length > 0 ? await supabase
+          .from('profiles')
+          .select('id, full_name, email')
+          .in('id', salespersonIds) : { data: [] };
+
+        // Step 6: Create lookup maps
         const customerMap = new Map();
         (customers || []).forEach(customer => {
           customerMap.set(customer.id, customer);
         });
 
+        const salespersonMap = new Map();
+        (salespeople || []).forEach(person => {
+          salespersonMap.set(person.id, person);
+        });
+
         const productMap = new Map();
         (products || []).forEach(product => {
           productMap.set(product.id, product);
@@ -1412,9 +2285,10 @@ export const useQuotations = (companyId?: string) => {
           });
         });
 
-        // Step 6: Combine data
+        // Step 7: Combine data
         return quotations.map(quotation => ({
           ...quotation,
+          salesperson: salespersonMap.get(quotation.created_by) || null,
           customers: customerMap.get(quotation.customer_id) || {
             name: 'Unknown Customer',
             email: null,
@@ -1489,35 +2363,33 @@ export const useStockMovements = (companyId?: string) => {
   return useQuery({
     queryKey: ['stock_movements', companyId],
     queryFn: async () => {
-      let query = supabase
+      if (!companyId) return [];
+
+      const { data, error } = await supabase
         .from('stock_movements')
         .select(`
           *,
           products(name, product_code, unit_of_measure)
         `)
+        .eq('company_id', companyId)
         .order('created_at', { ascending: false });
       
-      if (companyId) {
-        query = query.eq('company_id', companyId);
-      }
-      
-      const { data, error } = await query;
-      
       if (error) throw error;
       return data;
     },
+    enabled: !!companyId,
   });
 };
 
 // Helper function to generate document numbers
 export const useGenerateDocumentNumber = () => {
   return useMutation({
-    mutationFn: async ({ companyId, type }: { companyId: string; type: 'quotation' | 'invoice' | 'remittance' | 'proforma' }) => {
+    mutationFn: async ({ companyId, type }: { companyId: string; type: 'quotation' | 'invoice' | 'remittance' | 'proforma' | 'grn' | 'supplier_bill' | 'supplier_payment' }) => {
       const functionName = `generate_${type}_number`;
       const { data, error } = await supabase.rpc(functionName, { company_uuid: companyId });
       
       if (error) throw error;
-      return data;
+      return data as string;
     },
   });
 };
@@ -1527,7 +2399,9 @@ export const useDeliveryNotes = (companyId?: string) => {
   return useQuery({
     queryKey: ['delivery_notes', companyId],
     queryFn: async () => {
-      let query = supabase
+      if (!companyId) return [];
+
+      const { data, error } = await supabase
         .from('delivery_notes')
         .select(`
           *,
@@ -1535,17 +2409,13 @@ export const useDeliveryNotes = (companyId?: string) => {
           invoices:invoices!invoice_id(invoice_number, total_amount),
           delivery_note_items(*, products(name, unit_of_measure))
         `)
+        .eq('company_id', companyId)
         .order('created_at', { ascending: false });
 
-      if (companyId) {
-        query = query.eq('company_id', companyId);
-      }
-
-      const { data, error } = await query;
-
       if (error) throw error;
       return data;
     },
+    enabled: !!companyId,
   });
 };
 
@@ -1617,6 +2487,8 @@ export const useDashboardStats = (companyId?: string) => {
   return useQuery({
     queryKey: ['dashboard_stats', companyId],
     queryFn: async () => {
+      if (!companyId) return null;
+
       // Get counts and totals
       const [
         { data: invoices },
@@ -1627,19 +2499,19 @@ export const useDashboardStats = (companyId?: string) => {
         supabase
           .from('invoices')
           .select('total_amount, status')
-          .eq('company_id', companyId || '550e8400-e29b-41d4-a716-446655440000'),
+          .eq('company_id', companyId),
         supabase
           .from('customers')
           .select('id')
-          .eq('company_id', companyId || '550e8400-e29b-41d4-a716-446655440000'),
+          .eq('company_id', companyId),
         supabase
           .from('products')
           .select('stock_quantity, minimum_stock_level')
-          .eq('company_id', companyId || '550e8400-e29b-41d4-a716-446655440000'),
+          .eq('company_id', companyId),
         supabase
           .from('payments')
           .select('amount')
-          .eq('company_id', companyId || '550e8400-e29b-41d4-a716-446655440000')
+          .eq('company_id', companyId)
       ]);
 
       const totalRevenue = invoices?.reduce((sum, inv) => sum + Number(inv.total_amount || 0), 0) || 0;
@@ -1657,6 +2529,7 @@ export const useDashboardStats = (companyId?: string) => {
         totalInvoices: invoices?.length || 0
       };
     },
+    enabled: !!companyId,
   });
 };
 
@@ -1666,23 +2539,20 @@ export const useLPOs = (companyId?: string) => {
   return useQuery({
     queryKey: ['lpos', companyId],
     queryFn: async () => {
-      let query = supabase
+      if (!companyId) return [];
+
+      const { data, error } = await supabase
         .from('lpos')
         .select(`
           *,
-          suppliers:customers!supplier_id(name, email, phone, address, city, country),
+          suppliers(name, email, phone, address, city, country, tax_pin),
           lpo_items(*, products(name, product_code, unit_of_measure))
         `)
+        .eq('company_id', companyId)
         .order('created_at', { ascending: false });
 
-      if (companyId) {
-        query = query.eq('company_id', companyId);
-      }
-
-      const { data, error } = await query;
-
       if (error) throw error;
-      return data;
+      return data as LPO[];
     },
     enabled: !!companyId,
   });
@@ -1696,7 +2566,7 @@ export const useLPO = (lpoId?: string) => {
         .from('lpos')
         .select(`
           *,
-          suppliers:customers!supplier_id(name, email, phone, address, city, country),
+          suppliers(name, email, phone, address, city, country, tax_pin),
           lpo_items(*, products(name, product_code, unit_of_measure))
         `)
         .eq('id', lpoId)
@@ -1800,6 +2670,17 @@ export const useDeleteLPO = () => {
 
   return useMutation({
     mutationFn: async (id: string) => {
+      const { data: current, error: currentError } = await supabase
+        .from('lpos')
+        .select('lpo_number, status')
+        .eq('id', id)
+        .single();
+
+      if (currentError) throw currentError;
+      if (isLPOLocked(current)) {
+        throw new Error(lpoLockMessage(current));
+      }
+
       const { error } = await supabase
         .from('lpos')
         .delete()
@@ -1838,154 +2719,704 @@ export const useGenerateLPONumber = () => {
   });
 };
 
-// Get suppliers (only customers that are actually used as suppliers in LPOs)
+// ============= Supplier Hooks =============
+
 export const useSuppliers = (companyId?: string) => {
   return useQuery({
     queryKey: ['suppliers', companyId],
     queryFn: async () => {
       if (!companyId) return [];
 
-      try {
-        // First, get unique supplier IDs from LPOs
-        const { data: lpoSuppliers, error: lpoError } = await supabase
-          .from('lpos')
-          .select('supplier_id')
-          .eq('company_id', companyId)
-          .not('supplier_id', 'is', null);
+      const { data, error } = await supabase
+        .from('suppliers')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data as unknown as Supplier[];
+    },
+    enabled: !!companyId,
+  });
+};
+
+// LPOs raised against a supplier, newest first
+export const useSupplierLPOs = (supplierId?: string) => {
+  return useQuery({
+    queryKey: ['supplier_lpos', supplierId],
+    queryFn: async () => {
+      if (!supplierId) return [];
 
-        if (lpoError) throw lpoError;
+      const { data, error } = await supabase
+        .from('lpos')
+        .select('id, lpo_number, lpo_date, status, total_amount')
+        .eq('supplier_id', supplierId)
+        .order('lpo_date', { ascending: false });
 
-        // Get unique supplier IDs
-        const supplierIds = [...new Set(lpoSuppliers?.map(lpo => lpo.supplier_id).filter(Boolean))] || [];
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!supplierId,
+  });
+};
+
+export const useCreateSupplier = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (supplier: Omit<Supplier, 'id' | 'created_at' | 'updated_at'>) => {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .insert([supplier])
+        .select()
+        .single();
 
-        if (supplierIds.length === 0) {
-          // No LPOs exist yet, return empty array instead of all customers
-          return [];
+      if (error) {
+        // Retry without created_by if the profile row is missing
+        if (error.code === '23503' && String(error.message || '').includes('created_by')) {
+          const { data: retryData, error: retryError } = await supabase
+            .from('suppliers')
+            .insert([{ ...supplier, created_by: null }])
+            .select()
+            .single();
+          if (retryError) throw retryError;
+          return retryData as unknown as Supplier;
         }
+        throw error;
+      }
+      return data as unknown as Supplier;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+    },
+  });
+};
 
-        // Get only customers that are actually used as suppliers
-        const { data: suppliers, error: suppliersError } = await supabase
-          .from('customers')
-          .select('*')
-          .in('id', supplierIds)
-          .eq('is_active', true)
-          .eq('company_id', companyId)
-          .order('name', { ascending: true });
+export const useUpdateSupplier = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...supplier }: Partial<Supplier> & { id: string }) => {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .update({ ...supplier, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
 
-        if (suppliersError) throw suppliersError;
+      if (error) throw error;
+      return data as unknown as Supplier;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+      queryClient.invalidateQueries({ queryKey: ['lpos'] });
+    },
+  });
+};
 
-        return suppliers || [];
+export const useDeleteSupplier = () => {
+  const queryClient = useQueryClient();
 
-      } catch (error) {
-        console.error('Error fetching suppliers:', error);
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('suppliers')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        if (error.code === '23503') {
+          throw new Error('This supplier has purchase orders and cannot be deleted. Mark it inactive instead.');
+        }
         throw error;
       }
     },
-    enabled: !!companyId,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+    },
   });
 };
 
-// Get potential suppliers (customers that haven't been used as suppliers yet)
-export const usePotentialSuppliers = (companyId?: string) => {
+// ============= Goods Received Note Hooks =============
+
+export const useGoodsReceivedNotes = (companyId?: string) => {
   return useQuery({
-    queryKey: ['potential_suppliers', companyId],
+    queryKey: ['goods_received_notes', companyId],
     queryFn: async () => {
       if (!companyId) return [];
 
-      try {
-        // Get all customers for this company
-        const { data: allCustomers, error: customersError } = await supabase
-          .from('customers')
-          .select('*')
-          .eq('company_id', companyId)
-          .eq('is_active', true)
-          .order('name', { ascending: true });
+      const { data, error } = await supabase
+        .from('goods_received_notes')
+        .select(`
+          *,
+          suppliers(name, email, phone, address, city, country),
+          lpos(lpo_number, lpo_date, status, lpo_items(id, quantity)),
+          grn_items(*, products(name, product_code, unit_of_measure))
+        `)
+        .eq('company_id', companyId)
+        .order('created_at', { ascending: false });
 
-        if (customersError) throw customersError;
+      if (error) throw error;
+      return (data || []) as GoodsReceivedNote[];
+    },
+    enabled: !!companyId,
+  });
+};
 
-        // Get existing supplier IDs from LPOs
-        const { data: lpoSuppliers, error: lpoError } = await supabase
-          .from('lpos')
-          .select('supplier_id')
-          .eq('company_id', companyId)
-          .not('supplier_id', 'is', null);
+// Every GRN line received against an LPO, used to work out outstanding quantities
+export const useLPOReceipts = (lpoId?: string) => {
+  return useQuery({
+    queryKey: ['lpo_receipts', lpoId],
+    queryFn: async () => {
+      if (!lpoId) return [];
 
-        if (lpoError) throw lpoError;
+      const { data, error } = await supabase
+        .from('grn_items')
+        .select('*, goods_received_notes!inner(id, grn_number, received_date, lpo_id)')
+        .eq('goods_received_notes.lpo_id', lpoId);
 
-        const existingSupplierIds = new Set(lpoSuppliers?.map(lpo => lpo.supplier_id).filter(Boolean) || []);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!lpoId,
+  });
+};
 
-        // Return customers that are NOT already suppliers
-        return allCustomers?.filter(customer => !existingSupplierIds.has(customer.id)) || [];
+/**
+ * Record a GRN: saves the note and its lines, writes IN stock movements at the LPO price and
+ * moves the LPO to partially_received or received.
+ */
+export const useCreateGoodsReceivedNote = () => {
+  const queryClient = useQueryClient();
 
-      } catch (error) {
-        console.error('Error fetching potential suppliers:', error);
-        throw error;
+  return useMutation({
+    mutationFn: async ({ grn, items }: {
+      grn: {
+        company_id: string;
+        lpo_id: string;
+        supplier_id?: string | null;
+        grn_number: string;
+        received_date: string;
+        supplier_delivery_note?: string | null;
+        received_by?: string | null;
+        notes?: string | null;
+        created_by?: string | null;
+      };
+      items: Array<{ lpo_item_id: string; quantity_received: number }>;
+    }) => {
+      const receiving = items.filter(i => Number(i.quantity_received) > 0);
+      if (receiving.length === 0) {
+        throw new Error('Enter a received quantity for at least one item');
+      }
+
+      // Re-read the LPO and earlier receipts so outstanding quantities are current
+      const { data: lpo, error: lpoError } = await supabase
+        .from('lpos')
+        .select('id, lpo_number, status, lpo_items(*, products(name, unit_of_measure))')
+        .eq('id', grn.lpo_id)
+        .single();
+      if (lpoError) throw lpoError;
+      if (!RECEIVABLE_LPO_STATUSES.includes(lpo.status)) {
+        throw new Error(`LPO ${lpo.lpo_number} is ${lpo.status} and cannot be received against`);
+      }
+
+      const { data: previous, error: previousError } = await supabase
+        .from('grn_items')
+        .select('lpo_item_id, quantity_received, goods_received_notes!inner(lpo_id)')
+        .eq('goods_received_notes.lpo_id', grn.lpo_id);
+      if (previousError) throw previousError;
+
+      const before = summarizeLpoReceipts(lpo.lpo_items, previous || []);
+      const byItem = new Map(before.map(r => [r.lpo_item_id, r]));
+      const grnItems = receiving.map((item, index) => {
+        const line = byItem.get(item.lpo_item_id);
+        if (!line) throw new Error('Received item is not on this LPO');
+        if (Number(item.quantity_received) > line.outstanding) {
+          throw new Error(`Only ${line.outstanding} outstanding for "${line.description}"`);
+        }
+        return {
+          lpo_item_id: item.lpo_item_id,
+          product_id: line.product_id || null,
+          description: line.description,
+          quantity_received: Number(item.quantity_received),
+          unit_cost: line.unit_cost,
+          line_total: Math.round(Number(item.quantity_received) * line.unit_cost * 100) / 100,
+          sort_order: index + 1,
+        };
+      });
+      const totalValue = grnItems.reduce((sum, i) => sum + i.line_total, 0);
+
+      let { data: grnData, error: grnError } = await supabase
+        .from('goods_received_notes')
+        .insert([{ ...grn, total_value: totalValue }])
+        .select()
+        .single();
+      if (grnError && grnError.code === '23503' && String(grnError.message || '').includes('created_by')) {
+        ({ data: grnData, error: grnError } = await supabase
+          .from('goods_received_notes')
+          .insert([{ ...grn, total_value: totalValue, created_by: null }])
+          .select()
+          .single());
       }
+      if (grnError) throw grnError;
+
+      const { error: itemsError } = await supabase
+        .from('grn_items')
+        .insert(grnItems.map(i => ({ ...i, grn_id: grnData.id })));
+      if (itemsError) {
+        await supabase.from('goods_received_notes').delete().eq('id', grnData.id);
+        throw itemsError;
+      }
+
+      const stockMovements = grnItems
+        .filter(i => i.product_id)
+        .map(i => ({
+          company_id: grn.company_id,
+          product_id: i.product_id,
+          movement_type: 'IN' as const,
+          reference_type: 'GRN' as const,
+          reference_id: grnData.id,
+          quantity: i.quantity_received,
+          cost_per_unit: i.unit_cost,
+          movement_date: grn.received_date,
+          notes: `GRN ${grn.grn_number} against LPO ${lpo.lpo_number}`
+        }));
+
+      if (stockMovements.length > 0) {
+        const { error: movementError } = await supabase.from('stock_movements').insert(stockMovements);
+        if (movementError) {
+          // Without the stock movements the GRN would overstate what is on hand, so undo it
+          await supabase.from('goods_received_notes').delete().eq('id', grnData.id);
+          throw movementError;
+        }
+      }
+
+      const stockUpdateResults = await Promise.allSettled(stockMovements.map(movement =>
+        supabase.rpc('update_product_stock', {
+          product_uuid: movement.product_id,
+          movement_type: movement.movement_type,
+          quantity: Math.abs(movement.quantity)
+        })
+      ));
+      const stockUpdateFailures = stockUpdateResults.filter(r => r.status === 'rejected' || r.value.error).length;
+      if (stockUpdateFailures > 0) {
+        console.error(`Failed to update stock quantity for ${stockUpdateFailures} product(s) on GRN ${grn.grn_number}`);
+      }
+
+      const after = summarizeLpoReceipts(lpo.lpo_items, [...(previous || []), ...grnItems]);
+      const newStatus = lpoReceiptStatus(after);
+      if (newStatus && newStatus !== lpo.status) {
+        const { error: statusError } = await supabase
+          .from('lpos')
+          .update({ status: newStatus })
+          .eq('id', grn.lpo_id);
+        if (statusError) throw statusError;
+      }
+
+      return { grn: grnData, lpoStatus: newStatus, stockUpdateFailures };
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['goods_received_notes'] });
+      queryClient.invalidateQueries({ queryKey: ['lpo_receipts', variables.grn.lpo_id] });
+      queryClient.invalidateQueries({ queryKey: ['lpos'] });
+      queryClient.invalidateQueries({ queryKey: ['lpo'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['stock_movements'] });
+    },
+  });
+};
+
+// ============= Accounts Payable Hooks =============
+
+export const useSupplierBills = (companyId?: string) => {
+  return useQuery({
+    queryKey: ['supplier_bills', companyId],
+    queryFn: async () => {
+      if (!companyId) return [];
+
+      const { data, error } = await supabase
+        .from('supplier_bills')
+        .select(`
+          *,
+          suppliers(name, supplier_code, email, phone, address, city, country, payment_terms),
+          lpos(lpo_number),
+          supplier_bill_items(*, products(name, product_code, unit_of_measure)),
+          supplier_payment_allocations(id, amount_allocated, supplier_payments(payment_number, payment_date, payment_method, reference_number))
+        `)
+        .eq('company_id', companyId)
+        .order('bill_date', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as SupplierBill[];
     },
     enabled: !!companyId,
   });
 };
 
-// Get all suppliers (existing + potential) - for comprehensive supplier selection
-export const useAllSuppliersAndCustomers = (companyId?: string) => {
+// Bill lines already charged against an LPO, so a new bill only picks up what is left
+export const useLPOBilledItems = (lpoId?: string) => {
   return useQuery({
-    queryKey: ['all_suppliers_customers', companyId],
+    queryKey: ['lpo_billed_items', lpoId],
     queryFn: async () => {
-      if (!companyId) return { existing: [], potential: [], all: [] };
+      if (!lpoId) return [];
 
-      try {
-        // Get all customers for this company
-        const { data: allCustomers, error: customersError } = await supabase
-          .from('customers')
-          .select('*')
-          .eq('company_id', companyId)
-          .eq('is_active', true)
-          .order('name', { ascending: true });
+      const { data, error } = await supabase
+        .from('supplier_bill_items')
+        .select('lpo_item_id, quantity, supplier_bills!inner(id, bill_number, lpo_id, status)')
+        .eq('supplier_bills.lpo_id', lpoId)
+        .neq('supplier_bills.status', 'cancelled');
 
-        if (customersError) throw customersError;
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!lpoId,
+  });
+};
 
-        // Get existing supplier IDs from LPOs
-        const { data: lpoSuppliers, error: lpoError } = await supabase
-          .from('lpos')
-          .select('supplier_id')
-          .eq('company_id', companyId)
-          .not('supplier_id', 'is', null);
+export const useCreateSupplierBill = () => {
+  const queryClient = useQueryClient();
 
-        if (lpoError) throw lpoError;
+  return useMutation({
+    mutationFn: async ({ bill, items }: {
+      bill: {
+        company_id: string;
+        supplier_id: string;
+        lpo_id?: string | null;
+        bill_number: string;
+        supplier_invoice_number?: string | null;
+        bill_date: string;
+        due_date?: string | null;
+        notes?: string | null;
+        created_by?: string | null;
+      };
+      items: SupplierBillLine[];
+    }) => {
+      const lines = items.filter(i => Number(i.quantity) > 0);
+      if (lines.length === 0) {
+        throw new Error('Add at least one bill line with a quantity');
+      }
 
-        const existingSupplierIds = new Set(lpoSuppliers?.map(lpo => lpo.supplier_id).filter(Boolean) || []);
+      const totals = billTotals(lines);
+      const billRow = {
+        ...bill,
+        ...totals,
+        status: 'draft',
+        match_status: billMatchStatus(lines),
+        paid_amount: 0,
+        balance_due: totals.total_amount,
+      };
 
-        const existing = allCustomers?.filter(customer => existingSupplierIds.has(customer.id)) || [];
-        const potential = allCustomers?.filter(customer => !existingSupplierIds.has(customer.id)) || [];
+      let { data: billData, error: billError } = await supabase
+        .from('supplier_bills')
+        .insert([billRow])
+        .select()
+        .single();
+      if (billError && billError.code === '23503' && String(billError.message || '').includes('created_by')) {
+        ({ data: billData, error: billError } = await supabase
+          .from('supplier_bills')
+          .insert([{ ...billRow, created_by: null }])
+          .select()
+          .single());
+      }
+      if (billError) {
+        if (billError.code === '23505' && String(billError.message || '').includes('supplier_invoice')) {
+          throw new Error(`Supplier invoice ${bill.supplier_invoice_number} has already been entered for this supplier`);
+        }
+        throw billError;
+      }
 
-        // Add labels to distinguish them
-        const existingWithLabels = existing.map(supplier => ({
-          ...supplier,
-          display_name: `${supplier.name} (Current Supplier)`,
-          is_existing_supplier: true
+      const { error: itemsError } = await supabase
+        .from('supplier_bill_items')
+        .insert(lines.map((line, index) => {
+          const t = billLineTotals(line);
+          return {
+            bill_id: billData.id,
+            lpo_item_id: line.lpo_item_id || null,
+            product_id: line.product_id || null,
+            description: line.description,
+            quantity: line.quantity,
+            unit_price: line.unit_price,
+            tax_percentage: line.tax_percentage,
+            tax_amount: t.tax,
+            line_total: t.total,
+            ordered_quantity: line.ordered_quantity ?? null,
+            received_quantity: line.received_quantity ?? null,
+            ordered_unit_price: line.ordered_unit_price ?? null,
+            match_status: matchBillLine(line),
+            sort_order: index + 1,
+          };
         }));
+      if (itemsError) {
+        await supabase.from('supplier_bills').delete().eq('id', billData.id);
+        throw itemsError;
+      }
 
-        const potentialWithLabels = potential.map(customer => ({
-          ...customer,
-          display_name: `${customer.name} (Customer)`,
-          is_existing_supplier: false
-        }));
+      return billData as SupplierBill;
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['supplier_bills'] });
+      if (variables.bill.lpo_id) {
+        queryClient.invalidateQueries({ queryKey: ['lpo_billed_items', variables.bill.lpo_id] });
+      }
+    },
+  });
+};
 
-        return {
-          existing: existingWithLabels,
-          potential: potentialWithLabels,
-          all: [...existingWithLabels, ...potentialWithLabels]
-        };
+/**
+ * Post a draft bill so it becomes payable. Bills that failed the three-way match need a note
+ * explaining why the variance was accepted.
+ */
+export const useApproveSupplierBill = () => {
+  const queryClient = useQueryClient();
 
-      } catch (error) {
-        console.error('Error fetching all suppliers and customers:', error);
-        throw error;
+  return useMutation({
+    mutationFn: async ({ id, variance_note }: { id: string; variance_note?: string }) => {
+      const { data: bill, error: fetchError } = await supabase
+        .from('supplier_bills')
+        .select('id, bill_number, status, match_status, total_amount')
+        .eq('id', id)
+        .single();
+      if (fetchError) throw fetchError;
+      if (bill.status !== 'draft') {
+        throw new Error(`Bill ${bill.bill_number} is already ${bill.status}`);
       }
+      if (bill.match_status === 'variance' && !variance_note?.trim()) {
+        throw new Error('Explain the match variance before approving this bill');
+      }
+
+      const { data, error } = await supabase
+        .from('supplier_bills')
+        .update({
+          ...billPaymentState(bill.total_amount, 0),
+          variance_note: variance_note?.trim() || null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['supplier_bills'] });
+    },
+  });
+};
+
+export const useCancelSupplierBill = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { data: bill, error: fetchError } = await supabase
+        .from('supplier_bills')
+        .select('id, bill_number, lpo_id, paid_amount')
+        .eq('id', id)
+        .single();
+      if (fetchError) throw fetchError;
+      if (Number(bill.paid_amount || 0) > 0) {
+        throw new Error(`Bill ${bill.bill_number} has payments allocated. Remove the payments first.`);
+      }
+
+      const { data, error } = await supabase
+        .from('supplier_bills')
+        .update({ status: 'cancelled', balance_due: 0, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['supplier_bills'] });
+      if (data.lpo_id) {
+        queryClient.invalidateQueries({ queryKey: ['lpo_billed_items', data.lpo_id] });
+      }
+    },
+  });
+};
+
+export const useDeleteSupplierBill = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('supplier_bills')
+        .delete()
+        .eq('id', id)
+        .eq('status', 'draft');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['supplier_bills'] });
+      queryClient.invalidateQueries({ queryKey: ['lpo_billed_items'] });
+    },
+  });
+};
+
+export const useSupplierPayments = (companyId?: string) => {
+  return useQuery({
+    queryKey: ['supplier_payments', companyId],
+    queryFn: async () => {
+      if (!companyId) return [];
+
+      const { data, error } = await supabase
+        .from('supplier_payments')
+        .select(`
+          *,
+          suppliers(name, supplier_code, email, bank_name, bank_account_number),
+          supplier_payment_allocations(*, supplier_bills(bill_number, supplier_invoice_number, total_amount))
+        `)
+        .eq('company_id', companyId)
+        .order('payment_date', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as SupplierPayment[];
     },
     enabled: !!companyId,
   });
 };
 
+// Recalculate paid amount, balance and status of bills from their allocations
+const refreshSupplierBillBalances = async (billIds: string[]) => {
+  if (billIds.length === 0) return;
+
+  const { data: bills, error } = await supabase
+    .from('supplier_bills')
+    .select('id, status, total_amount, supplier_payment_allocations(amount_allocated)')
+    .in('id', billIds);
+  if (error) throw error;
+
+  for (const bill of bills || []) {
+    if (bill.status === 'draft' || bill.status === 'cancelled') continue;
+    const paid = (bill.supplier_payment_allocations || []).reduce((sum, a) => sum + Number(a.amount_allocated || 0), 0);
+    const { error: updateError } = await supabase
+      .from('supplier_bills')
+      .update({ ...billPaymentState(bill.total_amount, paid), updated_at: new Date().toISOString() })
+      .eq('id', bill.id);
+    if (updateError) throw updateError;
+  }
+};
+
+export const useCreateSupplierPayment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ payment, allocations }: {
+      payment: {
+        company_id: string;
+        supplier_id: string;
+        payment_number: string;
+        payment_date: string;
+        amount: number;
+        payment_method: string;
+        reference_number?: string | null;
+        notes?: string | null;
+        created_by?: string | null;
+      };
+      allocations: Array<{ bill_id: string; amount_allocated: number }>;
+    }) => {
+      const applied = allocations.filter(a => Number(a.amount_allocated) > 0);
+      const totalAllocated = applied.reduce((sum, a) => sum + Number(a.amount_allocated), 0);
+      if (totalAllocated - Number(payment.amount) > 0.005) {
+        throw new Error('Allocations exceed the payment amount');
+      }
+
+      // Re-read the bills so allocations are checked against current balances
+      let billCurrency: string | null = null;
+      if (applied.length > 0) {
+        const { data: bills, error: billsError } = await supabase
+          .from('supplier_bills')
+          .select('id, bill_number, supplier_id, status, balance_due, currency')
+          .in('id', applied.map(a => a.bill_id));
+        if (billsError) throw billsError;
+
+        // The payment is made in the bills' currency, at the rate on file for its date
+        const currencies = Array.from(new Set((bills || []).map(b => b.currency).filter(Boolean)));
+        if (currencies.length > 1) {
+          throw new Error(`These bills are in ${currencies.join(' and ')}; pay bills in one currency at a time`);
+        }
+        billCurrency = currencies[0] || null;
+
+        for (const allocation of applied) {
+          const bill = (bills || []).find(b => b.id === allocation.bill_id);
+          if (!bill || bill.supplier_id !== payment.supplier_id) {
+            throw new Error('Payments can only be allocated to this supplier\'s bills');
+          }
+          if (!OPEN_BILL_STATUSES.includes(bill.status as SupplierBillStatus)) {
+            throw new Error(`Bill ${bill.bill_number} is ${bill.status} and cannot be paid`);
+          }
+          if (Number(allocation.amount_allocated) - Number(bill.balance_due || 0) > 0.005) {
+            throw new Error(`Bill ${bill.bill_number} only has ${bill.balance_due} outstanding`);
+          }
+        }
+      }
+
+      const paymentRow = billCurrency ? { ...payment, currency: billCurrency } : payment;
+      let { data: paymentData, error: paymentError } = await supabase
+        .from('supplier_payments')
+        .insert([paymentRow])
+        .select()
+        .single();
+      if (paymentError && paymentError.code === '23503' && String(paymentError.message || '').includes('created_by')) {
+        ({ data: paymentData, error: paymentError } = await supabase
+          .from('supplier_payments')
+          .insert([{ ...paymentRow, created_by: null }])
+          .select()
+          .single());
+      }
+      if (paymentError) throw paymentError;
+
+      if (applied.length > 0) {
+        const { error: allocationError } = await supabase
+          .from('supplier_payment_allocations')
+          .insert(applied.map(a => ({ ...a, payment_id: paymentData.id })));
+        if (allocationError) {
+          await supabase.from('supplier_payments').delete().eq('id', paymentData.id);
+          throw allocationError;
+        }
+        await refreshSupplierBillBalances(applied.map(a => a.bill_id));
+      }
+
+      return { payment: paymentData, unallocated: Math.round((Number(payment.amount) - totalAllocated) * 100) / 100 };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['supplier_payments'] });
+      queryClient.invalidateQueries({ queryKey: ['supplier_bills'] });
+    },
+  });
+};
+
+export const useDeleteSupplierPayment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { data: allocations, error: fetchError } = await supabase
+        .from('supplier_payment_allocations')
+        .select('bill_id')
+        .eq('payment_id', id);
+      if (fetchError) throw fetchError;
+
+      const { error } = await supabase
+        .from('supplier_payments')
+        .delete()
+        .eq('id', id);
+      if (error) throw error;
+
+      await refreshSupplierBillBalances([...new Set((allocations || []).map(a => a.bill_id))]);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['supplier_payments'] });
+      queryClient.invalidateQueries({ queryKey: ['supplier_bills'] });
+    },
+  });
+};
+
 // LPO Items Management Hooks
 
 // Create LPO Item
@@ -2063,6 +3494,17 @@ export const useUpdateLPOWithItems = () => {
       lpoUpdates: Partial<LPO>;
       items: (Omit<LPOItem, 'lpo_id'> & { id?: string })[];
     }) => {
+      const { data: current, error: currentError } = await supabase
+        .from('lpos')
+        .select('lpo_number, status')
+        .eq('id', lpoId)
+        .single();
+
+      if (currentError) throw currentError;
+      if (isLPOLocked(current)) {
+        throw new Error(lpoLockMessage(current));
+      }
+
       // Update LPO
       const { data: lpoData, error: lpoError } = await supabase
         .from('lpos')
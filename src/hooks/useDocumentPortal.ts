@@ -0,0 +1,137 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  isSharedDocument,
+  shareLinkExpiry,
+  type DocumentShareLink,
+  type SharedDocumentType,
+} from '@/utils/documentPortal';
+
+// Portal links issued for a document, newest first
+export const useDocumentShareLinks = (documentType: SharedDocumentType, documentId?: string) => {
+  return useQuery({
+    queryKey: ['document_share_links', documentType, documentId],
+    queryFn: async () => {
+      if (!documentId) return [];
+      const { data, error } = await supabase
+        .from('document_share_links')
+        .select('*')
+        .eq('document_type', documentType)
+        .eq('document_id', documentId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []) as DocumentShareLink[];
+    },
+    enabled: !!documentId,
+  });
+};
+
+// Issue a new link. Sharing a draft quotation counts as sending it; if the quotation cannot be
+// marked sent, the link is revoked again and the error thrown.
+export const useCreateDocumentShareLink = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ companyId, documentType, documentId, expiresInDays }: {
+      companyId: string;
+      documentType: SharedDocumentType;
+      documentId: string;
+      expiresInDays: number;
+    }) => {
+      const { data: userData } = await supabase.auth.getUser();
+      const { data, error } = await supabase
+        .from('document_share_links')
+        .insert([{
+          company_id: companyId,
+          document_type: documentType,
+          document_id: documentId,
+          expires_at: shareLinkExpiry(expiresInDays),
+          created_by: userData?.user?.id || null,
+        }])
+        .select()
+        .single();
+      if (error) throw error;
+
+      if (documentType === 'quotation') {
+        const { error: statusError } = await supabase
+          .from('quotations')
+          .update({ status: 'sent', updated_at: new Date().toISOString() })
+          .eq('id', documentId)
+          .eq('status', 'draft');
+        if (statusError) {
+          await supabase
+            .from('document_share_links')
+            .update({ revoked_at: new Date().toISOString(), revoked_by: userData?.user?.id || null })
+            .eq('id', data.id);
+          throw statusError;
+        }
+      }
+
+      return data as DocumentShareLink;
+    },
+    onSettled: (_link, _error, { documentType, documentId }) => {
+      queryClient.invalidateQueries({ queryKey: ['document_share_links', documentType, documentId] });
+      if (documentType === 'quotation') queryClient.invalidateQueries({ queryKey: ['quotations'] });
+    },
+  });
+};
+
+// Withdraw a link; the customer sees a message asking for a new one
+export const useRevokeDocumentShareLink = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (linkId: string) => {
+      const { data: userData } = await supabase.auth.getUser();
+      const { data, error } = await supabase
+        .from('document_share_links')
+        .update({ revoked_at: new Date().toISOString(), revoked_by: userData?.user?.id || null })
+        .eq('id', linkId)
+        .select()
+        .single();
+      if (error) throw error;
+      return data as DocumentShareLink;
+    },
+    onSuccess: (link) => {
+      queryClient.invalidateQueries({ queryKey: ['document_share_links', link.document_type, link.document_id] });
+    },
+  });
+};
+
+// The shared document behind a portal token, for visitors who are not signed in
+export const useSharedDocument = (token?: string) => {
+  return useQuery({
+    queryKey: ['shared_document', token],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_shared_document', { p_token: token });
+      if (error) throw error;
+      if (!isSharedDocument(data)) throw new Error('This document is no longer available');
+      return data;
+    },
+    enabled: !!token,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+};
+
+export const useRespondToSharedQuotation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ token, response, name, comment }: {
+      token: string;
+      response: 'accepted' | 'declined';
+      name: string;
+      comment?: string;
+    }) => {
+      const { data, error } = await supabase.rpc('respond_to_shared_quotation', {
+        p_token: token,
+        p_response: response,
+        p_name: name,
+        p_comment: comment || null,
+      });
+      if (error) throw error;
+      return data as { success: boolean; status: string; quotation_number: string };
+    },
+    onSuccess: (_data, { token }) => {
+      queryClient.invalidateQueries({ queryKey: ['shared_document', token] });
+    },
+  });
+};
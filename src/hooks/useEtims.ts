@@ -0,0 +1,332 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  buildEtimsPayload,
+  EtimsSubmissionError,
+  etimsRetryDelayMinutes,
+  getEtimsAdapter,
+  signEtimsPayload,
+  type EtimsDocumentType,
+  type PayloadItemSource,
+  type SignedEtimsPayload,
+} from '@/utils/etims';
+
+export interface EtimsSubmission {
+  id: string;
+  company_id: string;
+  document_type: EtimsDocumentType;
+  document_id: string;
+  document_number: string;
+  adapter: string;
+  status: 'queued' | 'submitted' | 'abandoned';
+  attempts: number;
+  last_error?: string | null;
+  next_attempt_at?: string | null;
+  payload_digest?: string | null;
+  submitted_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// The invoice or credit note fields a submission reads, with the relations loadDocument selects
+export interface EtimsSourceDocument {
+  id: string;
+  company_id?: string | null;
+  status?: string | null;
+  invoice_number?: string;
+  invoice_date?: string;
+  credit_note_number?: string;
+  credit_note_date?: string;
+  etims_cu_invoice_number?: string | null;
+  customers?: { name?: string | null; tax_number?: string | null } | null;
+  invoice_items?: PayloadItemSource[];
+  credit_note_items?: PayloadItemSource[];
+  invoices?: { invoice_number: string } | null;
+  companies?: {
+    tax_number?: string | null;
+    etims_enabled?: boolean | null;
+    etims_adapter?: string | null;
+    etims_branch_id?: string | null;
+    etims_device_serial?: string | null;
+  } | null;
+}
+
+export interface EtimsSubmitOutcome {
+  status: 'submitted' | 'already_submitted' | 'not_enabled';
+  document?: EtimsSourceDocument;
+}
+
+const ETIMS_COMPANY_COLUMNS = 'tax_number, etims_enabled, etims_adapter, etims_branch_id, etims_device_serial';
+
+const getAuthUserId = async () => {
+  try {
+    const { data } = await supabase.auth.getUser();
+    return data?.user?.id || null;
+  } catch {
+    return null;
+  }
+};
+
+async function loadDocument(documentType: EtimsDocumentType, documentId: string) {
+  const { data, error } = documentType === 'invoice'
+    ? await supabase
+        .from('invoices')
+        .select(`*, customers(name, tax_number), invoice_items(*, products(name, product_code)), companies(${ETIMS_COMPANY_COLUMNS})`)
+        .eq('id', documentId)
+        .single()
+    : await supabase
+        .from('credit_notes')
+        .select(`*, customers(name, tax_number), credit_note_items(*, products(name, product_code)), invoices(invoice_number), companies(${ETIMS_COMPANY_COLUMNS})`)
+        .eq('id', documentId)
+        .single();
+
+  if (error) throw error;
+  return data as unknown as EtimsSourceDocument;
+}
+
+async function findQueued(documentType: EtimsDocumentType, documentId: string) {
+  const { data } = await supabase
+    .from('etims_submissions')
+    .select('*')
+    .eq('document_type', documentType)
+    .eq('document_id', documentId)
+    .eq('status', 'queued')
+    .maybeSingle();
+  return data as EtimsSubmission | null;
+}
+
+/**
+ * Submit an invoice or credit note to the company's eTIMS adapter and store the CU data on it.
+ * With markSent, a draft invoice is posted in the same update, so it never becomes sent without
+ * CU data. A failed submission is queued for retry (or its queue entry rescheduled) and thrown as
+ * an EtimsSubmissionError. Companies without eTIMS are left alone.
+ */
+export async function submitDocumentToEtims({ documentType, documentId, markSent = false }: {
+  documentType: EtimsDocumentType;
+  documentId: string;
+  markSent?: boolean;
+}): Promise<EtimsSubmitOutcome> {
+  const table = documentType === 'invoice' ? 'invoices' : 'credit_notes';
+  const document = await loadDocument(documentType, documentId);
+  const company: NonNullable<EtimsSourceDocument['companies']> = document.companies || {};
+  const number = documentType === 'invoice' ? document.invoice_number : document.credit_note_number;
+
+  if (!company.etims_enabled) return { status: 'not_enabled' };
+  if (document.status === 'void' || document.status === 'cancelled') {
+    throw new EtimsSubmissionError(`${number} is ${document.status} and cannot be submitted to eTIMS`, false);
+  }
+
+  if (document.etims_cu_invoice_number) {
+    if (markSent && document.status === 'draft') {
+      const { data, error } = await supabase
+        .from(table)
+        .update({ status: 'sent', updated_at: new Date().toISOString() })
+        .eq('id', documentId)
+        .select()
+        .single();
+      if (error) throw error;
+      return { status: 'already_submitted', document: data };
+    }
+    return { status: 'already_submitted', document };
+  }
+
+  let signed: SignedEtimsPayload;
+  try {
+    signed = await signEtimsPayload(buildEtimsPayload({
+      documentType,
+      documentNumber: number,
+      originalDocumentNumber: documentType === 'credit_note' ? document.invoices?.invoice_number : null,
+      documentDate: documentType === 'invoice' ? document.invoice_date : document.credit_note_date,
+      company,
+      customer: document.customers,
+      items: (documentType === 'invoice' ? document.invoice_items : document.credit_note_items) || [],
+    }));
+  } catch (err) {
+    // Set-up problems are not worth retrying; they need fixing first
+    throw new EtimsSubmissionError((err as { message?: string })?.message || 'Could not build the eTIMS payload', false);
+  }
+
+  const adapterName = company.etims_adapter || 'stub';
+  const queued = await findQueued(documentType, documentId);
+  const now = new Date().toISOString();
+
+  try {
+    const result = await getEtimsAdapter(adapterName).submit(signed);
+
+    const { data: updated, error: updateError } = await supabase
+      .from(table)
+      .update({
+        etims_status: 'submitted',
+        etims_cu_serial_number: result.cu_serial_number,
+        etims_cu_invoice_number: result.cu_invoice_number,
+        etims_signature: result.signature,
+        etims_qr_code: result.qr_code,
+        etims_submitted_at: now,
+        ...(markSent && documentType === 'invoice' && document.status === 'draft' ? { status: 'sent' } : {}),
+        updated_at: now,
+      })
+      .eq('id', documentId)
+      .select()
+      .single();
+
+    if (updateError) throw updateError;
+
+    const record = {
+      status: 'submitted',
+      attempts: (queued?.attempts || 0) + 1,
+      last_error: null,
+      next_attempt_at: null,
+      payload: signed.payload,
+      payload_digest: signed.digest,
+      response: (result.raw ?? result) as Json,
+      submitted_at: now,
+      updated_at: now,
+    };
+    const { error: logError } = queued
+      ? await supabase.from('etims_submissions').update(record).eq('id', queued.id)
+      : await supabase.from('etims_submissions').insert([{
+          ...record,
+          company_id: document.company_id,
+          document_type: documentType,
+          document_id: documentId,
+          document_number: number,
+          adapter: adapterName,
+          created_by: await getAuthUserId(),
+        }]);
+    if (logError) console.error('eTIMS submission succeeded but was not logged:', logError);
+
+    return { status: 'submitted', document: updated };
+  } catch (err) {
+    if (err instanceof EtimsSubmissionError) throw err;
+
+    const message = (err as { message?: string })?.message || String(err);
+    const attempts = (queued?.attempts || 0) + 1;
+    const retry = {
+      status: 'queued',
+      attempts,
+      last_error: message,
+      next_attempt_at: new Date(Date.now() + etimsRetryDelayMinutes(attempts) * 60 * 1000).toISOString(),
+      payload: signed.payload,
+      payload_digest: signed.digest,
+      adapter: adapterName,
+      updated_at: now,
+    };
+
+    const { error: queueError } = queued
+      ? await supabase.from('etims_submissions').update(retry).eq('id', queued.id)
+      : await supabase.from('etims_submissions').insert([{
+          ...retry,
+          company_id: document.company_id,
+          document_type: documentType,
+          document_id: documentId,
+          document_number: number,
+          created_by: await getAuthUserId(),
+        }]);
+    if (queueError) console.error('Failed to queue eTIMS submission:', queueError);
+
+    await supabase.from(table).update({ etims_status: 'queued' }).eq('id', documentId);
+
+    throw new EtimsSubmissionError(
+      `KRA eTIMS did not accept ${number}: ${message}. It is queued for retry${markSent ? ' and stays in draft until accepted' : ''}.`,
+      !queueError
+    );
+  }
+}
+
+const useInvalidateEtims = () => {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ['etims_submissions'] });
+    queryClient.invalidateQueries({ queryKey: ['invoices'] });
+    queryClient.invalidateQueries({ queryKey: ['invoices_fixed'] });
+    queryClient.invalidateQueries({ queryKey: ['invoice'] });
+    queryClient.invalidateQueries({ queryKey: ['creditNotes'] });
+    queryClient.invalidateQueries({ queryKey: ['creditNote'] });
+  };
+};
+
+// Submissions waiting for a retry, oldest first
+export const useEtimsQueue = (companyId?: string) => {
+  return useQuery({
+    queryKey: ['etims_submissions', companyId],
+    queryFn: async () => {
+      if (!companyId) return [];
+
+      const { data, error } = await supabase
+        .from('etims_submissions')
+        .select('*')
+        .eq('company_id', companyId)
+        .eq('status', 'queued')
+        .order('created_at');
+
+      if (error) throw error;
+      return (data || []) as EtimsSubmission[];
+    },
+    enabled: !!companyId,
+  });
+};
+
+export const useSubmitToEtims = () => {
+  const invalidate = useInvalidateEtims();
+
+  return useMutation({
+    mutationFn: submitDocumentToEtims,
+    onSettled: invalidate,
+  });
+};
+
+/**
+ * Retries queued submissions one by one. Invoices were queued by "mark sent", so a successful
+ * retry also posts them. Without force only entries whose back-off has elapsed are tried.
+ */
+export const useRetryEtimsQueue = () => {
+  const invalidate = useInvalidateEtims();
+
+  return useMutation({
+    mutationFn: async ({ submissions, force = false }: { submissions: EtimsSubmission[]; force?: boolean }) => {
+      const now = Date.now();
+      const due = submissions.filter(s => s.status === 'queued' && (force || !s.next_attempt_at || new Date(s.next_attempt_at).getTime() <= now));
+      const result = { submitted: [] as string[], failed: [] as { document_number: string; error: string }[] };
+
+      for (const submission of due) {
+        try {
+          await submitDocumentToEtims({
+            documentType: submission.document_type,
+            documentId: submission.document_id,
+            markSent: submission.document_type === 'invoice',
+          });
+          result.submitted.push(submission.document_number);
+        } catch (err) {
+          result.failed.push({ document_number: submission.document_number, error: (err as { message?: string })?.message || String(err) });
+        }
+      }
+      return result;
+    },
+    onSettled: invalidate,
+  });
+};
+
+// Drops a queued submission, e.g. for an invoice that was voided instead
+export const useAbandonEtimsSubmission = () => {
+  const invalidate = useInvalidateEtims();
+
+  return useMutation({
+    mutationFn: async (submission: EtimsSubmission) => {
+      const { error } = await supabase
+        .from('etims_submissions')
+        .update({ status: 'abandoned', next_attempt_at: null, updated_at: new Date().toISOString() })
+        .eq('id', submission.id);
+
+      if (error) throw error;
+
+      const { error: documentError } = await supabase
+        .from(submission.document_type === 'invoice' ? 'invoices' : 'credit_notes')
+        .update({ etims_status: null })
+        .eq('id', submission.document_id);
+
+      if (documentError) throw documentError;
+    },
+    onSuccess: invalidate,
+  });
+};
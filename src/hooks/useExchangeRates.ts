@@ -0,0 +1,104 @@
+import { useCallback, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import {
+  baseCurrencyOf,
+  type DocumentCurrencyValue,
+  type ExchangeRate,
+  type ExchangeRateSource,
+  type ParsedExchangeRate,
+} from '@/utils/currency';
+
+export const useExchangeRates = (companyId?: string) => {
+  return useQuery({
+    queryKey: ['exchange_rates', companyId],
+    queryFn: async () => {
+      if (!companyId) return [];
+      const { data, error } = await supabase
+        .from('exchange_rates')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('rate_date', { ascending: false })
+        .order('currency_code');
+      if (error) throw error;
+      return (data || []) as ExchangeRate[];
+    },
+    enabled: !!companyId,
+  });
+};
+
+// One rate per currency per day: saving a date that already has a rate replaces it
+export const useSaveExchangeRates = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ companyId, rates, source }: {
+      companyId: string;
+      rates: ParsedExchangeRate[];
+      source: ExchangeRateSource;
+    }) => {
+      if (rates.length === 0) return 0;
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from('exchange_rates')
+        .upsert(
+          rates.map(rate => ({
+            company_id: companyId,
+            currency_code: rate.currency_code,
+            rate_date: rate.rate_date,
+            rate: rate.rate,
+            source,
+            created_by: user?.id || null,
+            updated_at: new Date().toISOString(),
+          })),
+          { onConflict: 'company_id,currency_code,rate_date' }
+        );
+      if (error) throw error;
+      return rates.length;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['exchange_rates'] });
+    },
+  });
+};
+
+// Documents keep the rate they were saved with, so removing a rate never changes them
+export const useDeleteExchangeRate = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('exchange_rates').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['exchange_rates'] });
+    },
+  });
+};
+
+// Currency and rate of a document form, in the company's base currency until one is picked
+export const useDocumentCurrency = () => {
+  const { currentCompany } = useCurrentCompany();
+  const baseCurrency = baseCurrencyOf(currentCompany);
+  const [selected, setSelected] = useState<DocumentCurrencyValue | null>(null);
+  const value = selected ?? { currency: baseCurrency, exchange_rate: 1 };
+
+  // Starts the form from a saved document, or from the base currency
+  const reset = useCallback((doc?: { currency?: string | null; exchange_rate?: number | string | null } | null) => {
+    setSelected(doc?.currency
+      ? { currency: doc.currency, exchange_rate: doc.exchange_rate === null || doc.exchange_rate === undefined ? null : Number(doc.exchange_rate) }
+      : null);
+  }, []);
+
+  return {
+    value,
+    setValue: setSelected,
+    baseCurrency,
+    reset,
+    // Saved with the document; without a rate the database uses the one on file for its date
+    columns: {
+      currency: value.currency,
+      exchange_rate: value.currency === baseCurrency ? 1 : value.exchange_rate,
+    },
+  };
+};
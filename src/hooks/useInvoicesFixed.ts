@@ -28,11 +28,21 @@ export const useInvoicesFixed = (companyId?: string) => {
             subtotal,
             tax_amount,
             total_amount,
+            currency,
+            exchange_rate,
+            base_total_amount,
             paid_amount,
             balance_due,
             notes,
             terms_and_conditions,
             lpo_number,
+            void_reason,
+            voided_at,
+            etims_status,
+            etims_cu_serial_number,
+            etims_cu_invoice_number,
+            etims_signature,
+            etims_qr_code,
             created_at,
             updated_at
           `)
@@ -161,11 +171,16 @@ export const useCustomerInvoicesFixed = (customerId?: string, companyId?: string
             subtotal,
             tax_amount,
             total_amount,
+            currency,
+            exchange_rate,
+            base_total_amount,
             paid_amount,
             balance_due,
             notes,
             terms_and_conditions,
             lpo_number,
+            void_reason,
+            voided_at,
             created_at,
             updated_at
           `)
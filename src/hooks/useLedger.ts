@@ -0,0 +1,274 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { paymentUnallocatedAmount, invoiceOpenBalance } from '@/utils/customerCredit';
+import { toBase } from '@/utils/currency';
+import {
+  reconcileReceivables,
+  type AccountBalance,
+  type GlAccount,
+  type GlAccountMapping,
+  type GlMappingType,
+  type JournalEntry,
+  type ReceivablesReconciliation,
+} from '@/utils/ledger';
+
+export type GlAccountInput = Pick<GlAccount, 'code' | 'name' | 'account_type' | 'description' | 'is_active'>;
+
+const LEDGER_KEYS = ['gl_accounts', 'gl_account_mappings', 'gl_account_balances', 'journal_entries', 'receivables_reconciliation'];
+
+const useInvalidateLedger = () => {
+  const queryClient = useQueryClient();
+  return () => {
+    LEDGER_KEYS.forEach(key => queryClient.invalidateQueries({ queryKey: [key] }));
+  };
+};
+
+export const useGlAccounts = (companyId?: string) => {
+  return useQuery({
+    queryKey: ['gl_accounts', companyId],
+    queryFn: async () => {
+      if (!companyId) return [];
+      const { data, error } = await supabase
+        .from('gl_accounts')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('code');
+      if (error) throw error;
+      return (data || []) as GlAccount[];
+    },
+    enabled: !!companyId,
+  });
+};
+
+export const useGlAccountMappings = (companyId?: string) => {
+  return useQuery({
+    queryKey: ['gl_account_mappings', companyId],
+    queryFn: async () => {
+      if (!companyId) return [];
+      const { data, error } = await supabase
+        .from('gl_account_mappings')
+        .select('*')
+        .eq('company_id', companyId);
+      if (error) throw error;
+      return (data || []) as GlAccountMapping[];
+    },
+    enabled: !!companyId,
+  });
+};
+
+// Opening balance before `from` (everything when from is empty) and movement from..to
+export const useAccountBalances = (companyId?: string, from?: string, to?: string) => {
+  return useQuery({
+    queryKey: ['gl_account_balances', companyId, from, to],
+    queryFn: async () => {
+      if (!companyId || !to) return [];
+      const { data, error } = await supabase.rpc('gl_account_balances', {
+        p_company_id: companyId,
+        p_from: from || null,
+        p_to: to,
+      });
+      if (error) throw error;
+      return (data || []) as AccountBalance[];
+    },
+    enabled: !!companyId && !!to,
+  });
+};
+
+// Journal entries dated from..to, newest first; accountId narrows to entries touching that account
+export const useJournalEntries = (companyId?: string, from?: string, to?: string, accountId?: string) => {
+  return useQuery({
+    queryKey: ['journal_entries', companyId, from, to, accountId],
+    queryFn: async () => {
+      if (!companyId) return [];
+      let query = supabase
+        .from('journal_entries')
+        .select(`
+          *,
+          journal_lines${accountId ? '!inner' : ''}(*, gl_accounts(code, name), customers(name), suppliers(name))
+        `)
+        .eq('company_id', companyId)
+        .order('entry_date', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (from) query = query.gte('entry_date', from);
+      if (to) query = query.lte('entry_date', to);
+      if (accountId) query = query.eq('journal_lines.account_id', accountId);
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const entries = (data || []) as JournalEntry[];
+      if (!accountId) return entries;
+
+      // The inner filter trims the embedded lines to the account; fetch the full entries back
+      const ids = entries.map(entry => entry.id);
+      if (ids.length === 0) return [];
+      const { data: full, error: fullError } = await supabase
+        .from('journal_entries')
+        .select('*, journal_lines(*, gl_accounts(code, name), customers(name), suppliers(name))')
+        .in('id', ids)
+        .order('entry_date', { ascending: false })
+        .order('created_at', { ascending: false });
+      if (fullError) throw fullError;
+      return (full || []) as JournalEntry[];
+    },
+    enabled: !!companyId,
+  });
+};
+
+export const useCreateGlAccount = () => {
+  const invalidate = useInvalidateLedger();
+  return useMutation({
+    mutationFn: async ({ companyId, account }: { companyId: string; account: GlAccountInput }) => {
+      const { data, error } = await supabase
+        .from('gl_accounts')
+        .insert([{ ...account, company_id: companyId }])
+        .select()
+        .single();
+      if (error) throw error;
+      return data as GlAccount;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+export const useUpdateGlAccount = () => {
+  const invalidate = useInvalidateLedger();
+  return useMutation({
+    mutationFn: async ({ id, account }: { id: string; account: Partial<GlAccountInput> }) => {
+      const { data, error } = await supabase
+        .from('gl_accounts')
+        .update({ ...account, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+      if (error) throw error;
+      return data as GlAccount;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+// Accounts with postings or mappings are protected by their foreign keys; deactivate those instead
+export const useDeleteGlAccount = () => {
+  const invalidate = useInvalidateLedger();
+  return useMutation({
+    mutationFn: async (account: GlAccount) => {
+      if (account.is_system) {
+        throw new Error(`${account.code} ${account.name} is a system account; deactivate it instead`);
+      }
+      const { error } = await supabase.from('gl_accounts').delete().eq('id', account.id);
+      if (error) {
+        if (error.code === '23503') {
+          throw new Error(`${account.code} ${account.name} has postings or mappings; deactivate it instead`);
+        }
+        throw error;
+      }
+    },
+    onSuccess: invalidate,
+  });
+};
+
+// Points a mapping at an account; an empty accountId removes it so the control account applies
+export const useSetGlAccountMapping = () => {
+  const invalidate = useInvalidateLedger();
+  return useMutation({
+    mutationFn: async ({ companyId, mappingType, mappingKey, accountId }: {
+      companyId: string;
+      mappingType: GlMappingType;
+      mappingKey: string;
+      accountId: string | null;
+    }) => {
+      if (!accountId) {
+        if (mappingType === 'control') throw new Error('Control accounts cannot be left unmapped');
+        const { error } = await supabase
+          .from('gl_account_mappings')
+          .delete()
+          .eq('company_id', companyId)
+          .eq('mapping_type', mappingType)
+          .eq('mapping_key', mappingKey);
+        if (error) throw error;
+        return;
+      }
+
+      const { error } = await supabase
+        .from('gl_account_mappings')
+        .upsert(
+          [{
+            company_id: companyId,
+            mapping_type: mappingType,
+            mapping_key: mappingKey,
+            account_id: accountId,
+            updated_at: new Date().toISOString(),
+          }],
+          { onConflict: 'company_id,mapping_type,mapping_key' }
+        );
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+// The receivables control account against the customer statements
+export const useReceivablesReconciliation = (companyId?: string) => {
+  return useQuery({
+    queryKey: ['receivables_reconciliation', companyId],
+    queryFn: async (): Promise<ReceivablesReconciliation | null> => {
+      if (!companyId) return null;
+
+      const { data: mapping, error: mappingError } = await supabase
+        .from('gl_account_mappings')
+        .select('account_id')
+        .eq('company_id', companyId)
+        .eq('mapping_type', 'control')
+        .eq('mapping_key', 'receivables')
+        .maybeSingle();
+      if (mappingError) throw mappingError;
+      if (!mapping) return null;
+
+      const [ledger, invoices, payments, creditNotes, customers] = await Promise.all([
+        supabase.rpc('gl_subledger_balances', { p_company_id: companyId, p_account_id: mapping.account_id }),
+        supabase
+          .from('invoices')
+          .select('id, customer_id, status, total_amount, paid_amount, balance_due, exchange_rate')
+          .eq('company_id', companyId)
+          .neq('status', 'void'),
+        supabase
+          .from('payments')
+          .select('customer_id, amount, exchange_rate, invoices(customer_id), payment_allocations(amount_allocated)')
+          .eq('company_id', companyId),
+        supabase
+          .from('credit_notes')
+          .select('customer_id, status, applied_amount, balance, exchange_rate')
+          .eq('company_id', companyId)
+          .neq('status', 'cancelled'),
+        supabase
+          .from('customers')
+          .select('id, name')
+          .eq('company_id', companyId),
+      ]);
+
+      for (const result of [ledger, invoices, payments, creditNotes, customers]) {
+        if (result.error) throw result.error;
+      }
+
+      // Only documents the ledger has posted count: sent or paid invoices and applied credit notes.
+      // The ledger is in base currency, so open amounts are converted at each document's rate.
+      return reconcileReceivables({
+        ledger: (ledger.data || []) as { customer_id: string | null; balance: number }[],
+        invoices: (invoices.data || [])
+          .filter(inv => inv.status !== 'draft' || Number(inv.paid_amount || 0) > 0)
+          .map(inv => ({ customer_id: inv.customer_id, open_balance: toBase(invoiceOpenBalance(inv), inv.exchange_rate) })),
+        unallocatedPayments: (payments.data || []).map(payment => ({
+          customer_id: payment.customer_id || payment.invoices?.customer_id || null,
+          amount: toBase(paymentUnallocatedAmount(payment), payment.exchange_rate),
+        })),
+        creditNotes: (creditNotes.data || [])
+          .filter(note => note.status === 'applied' || Number(note.applied_amount || 0) > 0)
+          .map(note => ({ customer_id: note.customer_id, balance: toBase(Number(note.balance || 0), note.exchange_rate) })),
+        customerNames: Object.fromEntries((customers.data || []).map(c => [c.id, c.name])),
+      });
+    },
+    enabled: !!companyId,
+  });
+};
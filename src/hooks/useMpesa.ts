@@ -0,0 +1,213 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useCreatePayment } from '@/hooks/useDatabase';
+import type {
+  MpesaTransactionSource,
+  MpesaTransactionStatus,
+  ParsedMpesaReceipt,
+} from '@/utils/mpesaImport';
+
+export interface MpesaTransaction {
+  id: string;
+  company_id: string;
+  receipt_number: string;
+  transaction_time: string;
+  amount: number;
+  account_reference?: string | null;
+  payer_name?: string | null;
+  payer_phone?: string | null;
+  paybill_number?: string | null;
+  source: MpesaTransactionSource;
+  status: MpesaTransactionStatus;
+  payment_id?: string | null;
+  invoice_id?: string | null;
+  customer_id?: string | null;
+  processed_at?: string | null;
+  created_at: string;
+  payments?: {
+    payment_number: string;
+    payment_date: string;
+    amount: number;
+    customers?: { name: string } | null;
+  } | null;
+}
+
+const useInvalidateMpesa = () => {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ['mpesa_transactions'] });
+    queryClient.invalidateQueries({ queryKey: ['payments'] });
+  };
+};
+
+export const useMpesaTransactions = (companyId?: string) => {
+  return useQuery({
+    queryKey: ['mpesa_transactions', companyId],
+    queryFn: async () => {
+      if (!companyId) return [];
+
+      const { data, error } = await supabase
+        .from('mpesa_transactions')
+        .select(`
+          *,
+          payments(payment_number, payment_date, amount, customers(name))
+        `)
+        .eq('company_id', companyId)
+        .order('transaction_time', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as MpesaTransaction[];
+    },
+    enabled: !!companyId,
+  });
+};
+
+// Payments already carrying these receipt numbers as their reference, keyed by receipt
+async function findPaymentsByReceipt(companyId: string, receipts: string[]) {
+  const found = new Map<string, string>();
+  for (let i = 0; i < receipts.length; i += 200) {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('id, reference_number')
+      .eq('company_id', companyId)
+      .in('reference_number', receipts.slice(i, i + 200));
+
+    if (error) throw error;
+    (data || []).forEach(p => found.set(String(p.reference_number).toUpperCase(), p.id));
+  }
+  return found;
+}
+
+/**
+ * Stores receipts from an M-Pesa statement. Receipts already on file (from an earlier statement
+ * or a C2B callback) are skipped; receipts already used as a payment reference, typically entered
+ * by hand in Record Payment, are kept but flagged as duplicates of that payment.
+ */
+export const useImportMpesaStatement = () => {
+  const invalidate = useInvalidateMpesa();
+
+  return useMutation({
+    mutationFn: async ({ companyId, receipts, paybillNumber, importedBy }: {
+      companyId: string;
+      receipts: ParsedMpesaReceipt[];
+      paybillNumber?: string | null;
+      importedBy?: string | null;
+    }) => {
+      if (receipts.length === 0) {
+        throw new Error('The statement has no receipts to import');
+      }
+
+      const existingPayments = await findPaymentsByReceipt(companyId, receipts.map(r => r.receipt_number));
+
+      const rows = receipts.map(receipt => {
+        const paymentId = existingPayments.get(receipt.receipt_number) || null;
+        return {
+          ...receipt,
+          company_id: companyId,
+          paybill_number: paybillNumber || null,
+          source: 'statement' as const,
+          status: paymentId ? 'duplicate' as const : 'pending' as const,
+          payment_id: paymentId,
+          imported_by: importedBy || null,
+        };
+      });
+
+      const { data: inserted, error } = await supabase
+        .from('mpesa_transactions')
+        .upsert(rows, { onConflict: 'company_id,receipt_number', ignoreDuplicates: true })
+        .select('id, status');
+
+      if (error) throw error;
+
+      const imported = inserted?.length || 0;
+      return {
+        imported,
+        duplicates: (inserted || []).filter(r => r.status === 'duplicate').length,
+        skipped: receipts.length - imported,
+      };
+    },
+    onSuccess: invalidate,
+  });
+};
+
+/**
+ * Records a pending receipt as a customer payment through useCreatePayment, with the M-Pesa
+ * receipt number as the payment reference. With an invoice the payment is allocated to it (any
+ * excess stays as credit); with only a customer it is taken as a deposit.
+ */
+export const useRecordMpesaTransaction = () => {
+  const invalidate = useInvalidateMpesa();
+  const createPayment = useCreatePayment();
+
+  return useMutation({
+    mutationFn: async ({ transaction, invoiceId, customerId }: {
+      transaction: MpesaTransaction;
+      invoiceId?: string | null;
+      customerId: string;
+    }) => {
+      if (transaction.status !== 'pending') {
+        throw new Error(`Receipt ${transaction.receipt_number} has already been ${transaction.status}`);
+      }
+
+      // Someone may have typed the receipt into Record Payment since it was imported
+      const existing = await findPaymentsByReceipt(transaction.company_id, [transaction.receipt_number]);
+      const existingId = existing.get(transaction.receipt_number);
+      if (existingId) {
+        await supabase
+          .from('mpesa_transactions')
+          .update({ status: 'duplicate', payment_id: existingId, processed_at: new Date().toISOString() })
+          .eq('id', transaction.id);
+        throw new Error(`Receipt ${transaction.receipt_number} is already recorded as a payment`);
+      }
+
+      const payer = [transaction.payer_name, transaction.payer_phone].filter(Boolean).join(' ');
+      const result = await createPayment.mutateAsync({
+        company_id: transaction.company_id,
+        customer_id: customerId,
+        invoice_id: invoiceId || null,
+        payment_number: `PAY-${Date.now()}`,
+        payment_date: transaction.transaction_time.slice(0, 10),
+        amount: Number(transaction.amount),
+        payment_method: 'mobile_money',
+        reference_number: transaction.receipt_number,
+        notes: `M-Pesa paybill${transaction.account_reference ? ` account ${transaction.account_reference}` : ''}${payer ? ` from ${payer}` : ''}`,
+      });
+
+      const { error } = await supabase
+        .from('mpesa_transactions')
+        .update({
+          status: 'recorded',
+          payment_id: result?.payment_id || null,
+          invoice_id: invoiceId || null,
+          customer_id: customerId,
+          processed_at: new Date().toISOString(),
+        })
+        .eq('id', transaction.id);
+
+      if (error) console.error('Payment recorded but M-Pesa receipt not marked as recorded:', error);
+      return result;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+// Receipts that are not customer payments (staff refunds, transfers) or were settled another way
+export const useSetMpesaTransactionIgnored = () => {
+  const invalidate = useInvalidateMpesa();
+
+  return useMutation({
+    mutationFn: async ({ transaction, ignored }: { transaction: MpesaTransaction; ignored: boolean }) => {
+      if (transaction.status === 'recorded') {
+        throw new Error(`Receipt ${transaction.receipt_number} is already recorded as a payment`);
+      }
+
+      const { error } = await supabase
+        .from('mpesa_transactions')
+        .update({ status: ignored ? 'ignored' : 'pending', processed_at: ignored ? new Date().toISOString() : null })
+        .eq('id', transaction.id);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+};
@@ -0,0 +1,52 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { hasPermission, isPermission, Permission, PermissionOverrides } from '@/utils/permissions';
+
+// Per-user grants/denials in a company, stored in user_permissions and keyed by permission name
+export const useUserPermissionOverrides = (userId?: string, companyId?: string) => {
+  return useQuery({
+    queryKey: ['user_permissions', userId, companyId],
+    queryFn: async () => {
+      if (!userId || !companyId) return {};
+
+      const { data, error } = await supabase
+        .from('user_permissions')
+        .select('permission_name, granted')
+        .eq('user_id', userId)
+        .eq('company_id', companyId);
+
+      if (error) throw error;
+
+      return (data || []).reduce<PermissionOverrides>((overrides, row) => {
+        // Older rows (e.g. 'manage_users') predate the catalogue and are ignored
+        if (isPermission(row.permission_name)) {
+          overrides[row.permission_name] = row.granted !== false;
+        }
+        return overrides;
+      }, {});
+    },
+    enabled: !!userId && !!companyId,
+  });
+};
+
+// Permission checks for the signed-in user in the selected company
+export const usePermissions = () => {
+  const { profile, loading: authLoading } = useAuth();
+  const { currentCompany, currentRole, isLoading: companyLoading } = useCurrentCompany();
+  const { data: overrides = {}, isLoading: overridesLoading } = useUserPermissionOverrides(profile?.id, currentCompany?.id);
+
+  const can = (permission: Permission) => hasPermission(currentRole, overrides, permission);
+
+  return {
+    can,
+    role: currentRole,
+    isLoading: authLoading || companyLoading || (!!profile?.id && !!currentCompany?.id && overridesLoading),
+  };
+};
+
+export const usePermission = (permission: Permission) => {
+  const { can } = usePermissions();
+  return can(permission);
+};
@@ -31,6 +31,9 @@ export interface ProformaInvoice {
   tax_percentage?: number;
   tax_amount: number;
   total_amount: number;
+  currency?: string;
+  exchange_rate?: number | null;
+  base_total_amount?: number;
   status: 'draft' | 'sent' | 'accepted' | 'expired' | 'converted';
   notes?: string;
   terms_and_conditions?: string;
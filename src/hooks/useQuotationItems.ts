@@ -1,5 +1,8 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { invoiceLockMessage, isInvoicePosted } from '@/utils/documentLocks';
+import { isQuotationEditable, quotationDisplayNumber } from '@/utils/quotationLifecycle';
+import { markInvoiceSent } from '@/hooks/useDatabase';
 
 export interface QuotationItem {
   quotation_id: string;
@@ -7,6 +10,8 @@ export interface QuotationItem {
   description: string;
   quantity: number;
   unit_price: number;
+  unit_of_measure?: string;
+  discount_percentage?: number;
   tax_setting_id?: string;
   tax_percentage?: number;
   tax_amount?: number;
@@ -15,12 +20,27 @@ export interface QuotationItem {
   sort_order?: number;
 }
 
+// Header fields saved from the edit form
+export interface QuotationHeaderUpdate {
+  customer_id: string;
+  quotation_date: string;
+  valid_until?: string | null;
+  subtotal: number;
+  tax_amount: number;
+  total_amount: number;
+  notes?: string;
+  terms_and_conditions?: string;
+  status?: string;
+  revision_number?: number;
+}
+
 export interface InvoiceItem {
   invoice_id: string;
   product_id?: string;
   description: string;
   quantity: number;
   unit_price: number;
+  unit_of_measure?: string;
   discount_percentage?: number;
   discount_before_vat?: number;
   tax_setting_id?: string;
@@ -125,7 +145,7 @@ export const useCreateQuotationWithItems = () => {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: async ({ quotation, items }: { quotation: any; items: QuotationItem[] }) => {
+    mutationFn: async ({ quotation, items }: { quotation: any; items: Omit<QuotationItem, 'quotation_id'>[] }) => {
       // Ensure created_by references the authenticated user to satisfy FK constraints
       let cleanQuotation = { ...quotation } as any;
       try {
@@ -191,6 +211,80 @@ export const useCreateQuotationWithItems = () => {
   });
 };
 
+// Save a quotation and its lines. Drafts are changed in place; a quotation that has been sent is
+// revised instead: the current version is kept read-only and the changes become the next revision.
+export const useUpdateQuotationWithItems = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ quotationId, quotation, items, revise, changeNote }: {
+      quotationId: string;
+      quotation: QuotationHeaderUpdate;
+      items: QuotationItem[];
+      revise?: boolean;
+      changeNote?: string;
+    }) => {
+      const { data: current, error: currentError } = await supabase
+        .from('quotations')
+        .select('quotation_number, status, revision_number')
+        .eq('id', quotationId)
+        .single();
+
+      if (currentError) throw currentError;
+
+      let revisionNumber = current.revision_number || 1;
+      if (revise) {
+        const { data: nextRevision, error: reviseError } = await supabase.rpc('revise_quotation', {
+          p_quotation_id: quotationId,
+          p_change_note: changeNote || null,
+        });
+        if (reviseError) throw reviseError;
+        revisionNumber = nextRevision;
+      } else if (!isQuotationEditable(current)) {
+        throw new Error(`Quotation ${quotationDisplayNumber(current)} has been sent and is read-only; revise it to make changes`);
+      }
+
+      // Status and revision only move through revise_quotation and the outcome actions
+      const { status: _status, revision_number: _revision, ...header } = quotation;
+      const { data: quotationData, error: quotationError } = await supabase
+        .from('quotations')
+        .update({ ...header, updated_at: new Date().toISOString() })
+        .eq('id', quotationId)
+        .select()
+        .single();
+
+      if (quotationError) throw quotationError;
+
+      const { error: deleteError } = await supabase
+        .from('quotation_items')
+        .delete()
+        .eq('quotation_id', quotationId);
+
+      if (deleteError) throw deleteError;
+
+      if (items.length > 0) {
+        const quotationItems = items.map((item, index) => ({
+          ...item,
+          quotation_id: quotationId,
+          sort_order: index + 1
+        }));
+
+        const { error: itemsError } = await supabase
+          .from('quotation_items')
+          .insert(quotationItems);
+
+        if (itemsError) throw itemsError;
+      }
+
+      return { ...quotationData, revision_number: revisionNumber };
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['quotations'] });
+      queryClient.invalidateQueries({ queryKey: ['quotation_revisions', variables.quotationId] });
+    },
+  });
+};
+
 // Convert quotation to invoice
 export const useConvertQuotationToInvoice = () => {
   const queryClient = useQueryClient();
@@ -202,7 +296,8 @@ export const useConvertQuotationToInvoice = () => {
         .from('quotations')
         .select(`
           *,
-          quotation_items(*)
+          quotation_items(*),
+          companies(etims_enabled)
         `)
         .eq('id', quotationId)
         .single();
@@ -224,13 +319,18 @@ export const useConvertQuotationToInvoice = () => {
         createdBy = null;
       }
 
+      const etimsEnabled = !!quotation.companies?.etims_enabled;
+
       const invoiceData = {
         company_id: quotation.company_id,
         customer_id: quotation.customer_id,
         invoice_number: invoiceNumber,
         invoice_date: new Date().toISOString().split('T')[0],
         due_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-        status: 'sent',
+        // Lines can only be added to a draft; the invoice is posted once they are in (below)
+        status: 'draft',
+        // Same currency as the quotation, at the rate on file for the invoice date
+        currency: quotation.currency || undefined,
         subtotal: quotation.subtotal,
         tax_amount: quotation.tax_amount,
         total_amount: quotation.total_amount,
@@ -247,25 +347,31 @@ export const useConvertQuotationToInvoice = () => {
         .single();
       
       if (invoiceError) throw invoiceError;
+
+      // Remove the draft header when a later step fails, so no invoice is left without its lines
+      const discardInvoice = async () => {
+        const { error } = await supabase.from('invoices').delete().eq('id', invoice.id);
+        if (error) console.error('Failed to remove draft invoice after a failed conversion:', error);
+      };
       
       // Create invoice items from quotation items
-      if (quotation.quotation_items && quotation.quotation_items.length > 0) {
-        const invoiceItems = quotation.quotation_items.map((item: any) => ({
-          invoice_id: invoice.id,
-          product_id: item.product_id,
-          description: item.description,
-          quantity: item.quantity,
-          unit_price: item.unit_price,
-          discount_percentage: item.discount_percentage,
-          discount_before_vat: item.discount_before_vat || 0,
-          tax_setting_id: item.tax_setting_id,
-          tax_percentage: item.tax_percentage,
-          tax_amount: item.tax_amount,
-          tax_inclusive: item.tax_inclusive,
-          line_total: item.line_total,
-          sort_order: item.sort_order
-        }));
-        
+      const invoiceItems = (quotation.quotation_items || []).map(item => ({
+        invoice_id: invoice.id,
+        product_id: item.product_id,
+        description: item.description,
+        quantity: item.quantity,
+        unit_price: item.unit_price,
+        discount_percentage: item.discount_percentage,
+        discount_before_vat: item.discount_before_vat || 0,
+        tax_setting_id: item.tax_setting_id,
+        tax_percentage: item.tax_percentage,
+        tax_amount: item.tax_amount,
+        tax_inclusive: item.tax_inclusive,
+        line_total: item.line_total,
+        sort_order: item.sort_order
+      }));
+
+      if (invoiceItems.length > 0) {
         let itemsError: any = null;
         {
           const res = await supabase
@@ -283,8 +389,26 @@ export const useConvertQuotationToInvoice = () => {
           itemsError = retry.error as any;
         }
 
-        if (itemsError) throw itemsError;
-        
+        if (itemsError) {
+          await discardInvoice();
+          throw itemsError;
+        }
+      }
+
+      // Post through the mark-sent path. eTIMS companies keep the draft in the retry queue when the
+      // control unit does not accept it; any other failure removes the draft.
+      let postedInvoice = invoice;
+      try {
+        postedInvoice = ((await markInvoiceSent(invoice.id)) || invoice) as typeof invoice;
+      } catch (postError) {
+        if (!etimsEnabled) {
+          await discardInvoice();
+          throw postError;
+        }
+        console.error('eTIMS submission failed for converted invoice:', postError);
+      }
+
+      if (invoiceItems.length > 0) {
         // Create stock movements
         const stockMovements = invoiceItems
           .filter(item => item.product_id && item.quantity > 0)
@@ -295,7 +419,6 @@ export const useConvertQuotationToInvoice = () => {
             reference_type: 'INVOICE' as const,
             reference_id: invoice.id,
             quantity: -item.quantity,
-            cost_per_unit: item.unit_price,
             notes: `Stock reduction for invoice ${invoice.invoice_number} (converted from quotation ${quotation.quotation_number})`
           }));
 
@@ -329,8 +452,8 @@ export const useConvertQuotationToInvoice = () => {
         .from('quotations')
         .update({ status: 'converted' })
         .eq('id', quotationId);
-      
-      return invoice;
+
+      return postedInvoice;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['quotations'] });
@@ -345,7 +468,7 @@ export const useCreateInvoiceWithItems = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ invoice, items }: { invoice: any; items: InvoiceItem[] }) => {
+    mutationFn: async ({ invoice, items }: { invoice: any; items: Omit<InvoiceItem, 'invoice_id'>[] }) => {
       // Ensure created_by references the authenticated user to satisfy FK constraints
       let cleanInvoice = { ...invoice } as any;
       try {
@@ -426,7 +549,6 @@ export const useCreateInvoiceWithItems = () => {
               reference_type: 'INVOICE' as const,
               reference_id: invoiceData.id,
               quantity: item.quantity, // Positive quantity, movement_type determines direction
-              cost_per_unit: item.unit_price,
               notes: `Stock reduction for invoice ${invoice.invoice_number}`
             }));
 
@@ -497,6 +619,18 @@ export const useUpdateInvoiceWithItems = () => {
 
   return useMutation({
     mutationFn: async ({ invoiceId, invoice, items }: { invoiceId: string; invoice: any; items: InvoiceItem[] }) => {
+      // Posted invoices are corrected with credit notes or voided, never edited in place
+      const { data: current, error: currentError } = await supabase
+        .from('invoices')
+        .select('invoice_number, status, paid_amount')
+        .eq('id', invoiceId)
+        .single();
+
+      if (currentError) throw currentError;
+      if (isInvoicePosted(current)) {
+        throw new Error(invoiceLockMessage(current));
+      }
+
       // First, reverse any existing stock movements for this invoice
       const { data: existingMovements } = await supabase
         .from('stock_movements')
@@ -595,7 +729,6 @@ export const useUpdateInvoiceWithItems = () => {
               reference_type: 'INVOICE' as const,
               reference_id: invoiceId,
               quantity: -item.quantity,
-              cost_per_unit: item.unit_price,
               notes: `Stock reduction for updated invoice ${invoice.invoice_number}`
             }));
 
@@ -695,6 +828,7 @@ export const useCreateProformaWithItems = () => {
           tax_amount: item.tax_amount || 0,
           tax_inclusive: !!item.tax_inclusive,
           line_total: item.line_total,
+          ...(item.unit_of_measure ? { unit_of_measure: item.unit_of_measure } : {}),
           sort_order: index + 1
         }));
 
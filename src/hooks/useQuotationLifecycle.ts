@@ -0,0 +1,82 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { QuotationStatus } from '@/utils/quotationLifecycle';
+
+// Earlier, read-only versions of a quotation, newest first
+export const useQuotationRevisions = (quotationId?: string) => {
+  return useQuery({
+    queryKey: ['quotation_revisions', quotationId],
+    enabled: !!quotationId,
+    queryFn: async () => {
+      if (!quotationId) return [];
+      const { data: revisions, error } = await supabase
+        .from('quotation_revisions')
+        .select('*')
+        .eq('quotation_id', quotationId)
+        .order('revision_number', { ascending: false });
+      if (error) throw error;
+      if (!revisions || revisions.length === 0) return [];
+
+      // Resolve authors separately to avoid relationship ambiguity
+      const authorIds = [...new Set(revisions.map(r => r.created_by).filter(Boolean))];
+      const { data: authors } = authorIds.length > 0 ? await supabase
+        .from('profiles')
+        .select('id, full_name, email')
+        .in('id', authorIds) : { data: [] };
+
+      const authorMap = new Map();
+      (authors || []).forEach(author => authorMap.set(author.id, author));
+
+      return revisions.map(revision => ({
+        ...revision,
+        author: authorMap.get(revision.created_by) || null,
+      }));
+    },
+  });
+};
+
+// Move a quotation to sent, or close it as accepted, declined or lost. The database requires a
+// reason for declined and lost and stamps who changed the status and when.
+export const useSetQuotationStatus = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ quotationId, status, reason, competitor }: {
+      quotationId: string;
+      status: QuotationStatus;
+      reason?: string;
+      competitor?: string;
+    }) => {
+      const { data, error } = await supabase
+        .from('quotations')
+        .update({
+          status,
+          status_reason: reason?.trim() || null,
+          competitor: status === 'lost' ? competitor?.trim() || null : null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', quotationId)
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['quotations'] });
+    },
+  });
+};
+
+// Expire the company's draft and sent quotations past their valid until date
+export const useExpireQuotations = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (companyId: string) => {
+      const { data, error } = await supabase.rpc('expire_quotations', { p_company_id: companyId });
+      if (error) throw error;
+      return Number(data || 0);
+    },
+    onSuccess: (expired) => {
+      if (expired > 0) queryClient.invalidateQueries({ queryKey: ['quotations'] });
+    },
+  });
+};
@@ -0,0 +1,563 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useCreateInvoiceWithItems } from '@/hooks/useQuotationItems';
+import { useGenerateDocumentNumber, useMarkInvoiceSent } from '@/hooks/useDatabase';
+import {
+  addDays,
+  dueRunDates,
+  existingRunAction,
+  firstRunOnOrAfter,
+  nextRunAfter,
+  recurringLineTotals,
+  recurringTotals,
+  todayString,
+  type RecurringFrequency,
+  type RecurringInvoiceStatus,
+  type RecurringRunStatus,
+} from '@/utils/recurringInvoices';
+
+export interface RecurringInvoiceItem {
+  id?: string;
+  recurring_invoice_id?: string;
+  product_id?: string | null;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  discount_before_vat?: number;
+  tax_percentage: number;
+  tax_amount?: number;
+  tax_inclusive: boolean;
+  line_total?: number;
+  sort_order?: number;
+  products?: {
+    name: string;
+    product_code: string;
+    unit_of_measure: string;
+  };
+}
+
+export interface RecurringInvoice {
+  id: string;
+  company_id: string;
+  customer_id: string;
+  name: string;
+  frequency: RecurringFrequency;
+  interval_count: number;
+  start_date: string;
+  end_date?: string | null;
+  next_run_date?: string | null;
+  payment_terms_days: number;
+  auto_send: boolean;
+  affects_inventory: boolean;
+  lpo_number?: string | null;
+  status: RecurringInvoiceStatus;
+  subtotal: number;
+  tax_amount: number;
+  total_amount: number;
+  notes?: string | null;
+  terms_and_conditions?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+  customers?: {
+    name: string;
+    email?: string;
+    customer_code: string;
+  };
+  recurring_invoice_items?: RecurringInvoiceItem[];
+}
+
+export interface RecurringInvoiceRun {
+  id: string;
+  company_id: string;
+  recurring_invoice_id: string;
+  run_date: string;
+  status: RecurringRunStatus;
+  invoice_id?: string | null;
+  error_message?: string | null;
+  created_at: string;
+  claimed_at?: string | null;
+  completed_at?: string | null;
+  recurring_invoices?: {
+    name: string;
+    customers?: { name: string };
+  };
+  invoices?: {
+    invoice_number: string;
+    total_amount: number;
+    status: string;
+  };
+}
+
+export type RecurringInvoiceInput = Omit<
+  RecurringInvoice,
+  'id' | 'created_at' | 'updated_at' | 'customers' | 'recurring_invoice_items' | 'subtotal' | 'tax_amount' | 'total_amount' | 'next_run_date' | 'status'
+> & { status?: RecurringInvoiceStatus };
+
+export interface GenerateRecurringResult {
+  generated: { run_date: string; invoice_number: string; template: string }[];
+  failed: { run_date: string; template: string; error: string }[];
+}
+
+const RECURRING_KEYS = ['recurring_invoices', 'recurring_invoice_runs'];
+
+const buildItemRows = (recurringInvoiceId: string, items: RecurringInvoiceItem[]) =>
+  items.map((item, index) => {
+    const totals = recurringLineTotals(item);
+    return {
+      recurring_invoice_id: recurringInvoiceId,
+      product_id: item.product_id || null,
+      description: item.description,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      discount_before_vat: item.discount_before_vat || 0,
+      tax_percentage: item.tax_percentage || 0,
+      tax_amount: totals.tax_amount,
+      tax_inclusive: item.tax_inclusive,
+      line_total: totals.line_total,
+      sort_order: index + 1,
+    };
+  });
+
+const getAuthUserId = async () => {
+  try {
+    const { data } = await supabase.auth.getUser();
+    return data?.user?.id || null;
+  } catch {
+    return null;
+  }
+};
+
+// Fetch recurring invoice templates with their lines
+export function useRecurringInvoices(companyId: string | undefined) {
+  return useQuery({
+    queryKey: ['recurring_invoices', companyId],
+    queryFn: async () => {
+      if (!companyId) return [];
+
+      const { data, error } = await supabase
+        .from('recurring_invoices')
+        .select(`
+          *,
+          customers!customer_id (
+            name,
+            email,
+            customer_code
+          ),
+          recurring_invoice_items (
+            *,
+            products!product_id (
+              name,
+              product_code,
+              unit_of_measure
+            )
+          )
+        `)
+        .eq('company_id', companyId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as RecurringInvoice[];
+    },
+    enabled: !!companyId,
+  });
+}
+
+// Fetch the run history (one row per billed period)
+export function useRecurringInvoiceRuns(companyId: string | undefined) {
+  return useQuery({
+    queryKey: ['recurring_invoice_runs', companyId],
+    queryFn: async () => {
+      if (!companyId) return [];
+
+      const { data, error } = await supabase
+        .from('recurring_invoice_runs')
+        .select(`
+          *,
+          recurring_invoices!recurring_invoice_id (
+            name,
+            customers!customer_id (name)
+          ),
+          invoices!invoice_id (
+            invoice_number,
+            total_amount,
+            status
+          )
+        `)
+        .eq('company_id', companyId)
+        .order('run_date', { ascending: false })
+        .limit(500);
+
+      if (error) throw error;
+      return (data || []) as RecurringInvoiceRun[];
+    },
+    enabled: !!companyId,
+  });
+}
+
+// Create a template and its lines
+export function useCreateRecurringInvoice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ template, items }: { template: RecurringInvoiceInput; items: RecurringInvoiceItem[] }) => {
+      const nextRun = firstRunOnOrAfter(template, template.start_date);
+      const { data, error } = await supabase
+        .from('recurring_invoices')
+        .insert({
+          ...template,
+          ...recurringTotals(items),
+          next_run_date: nextRun,
+          status: nextRun ? template.status || 'active' : 'ended',
+          created_by: await getAuthUserId(),
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      if (items.length > 0) {
+        const { error: itemsError } = await supabase
+          .from('recurring_invoice_items')
+          .insert(buildItemRows(data.id, items));
+
+        if (itemsError) {
+          // Don't leave a template without lines behind
+          await supabase.from('recurring_invoices').delete().eq('id', data.id);
+          throw itemsError;
+        }
+      }
+
+      return data as RecurringInvoice;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['recurring_invoices'] });
+      toast.success(`Recurring invoice "${data.name}" created`);
+    },
+    onError: (error) => {
+      console.error('Error creating recurring invoice:', error);
+      toast.error(error.message || 'Failed to create recurring invoice. Please try again.');
+    },
+  });
+}
+
+// Update a template and replace its lines. Changing the schedule only moves the next run forward;
+// periods that were already billed are never billed again.
+export function useUpdateRecurringInvoice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, template, items }: { id: string; template: RecurringInvoiceInput; items: RecurringInvoiceItem[] }) => {
+      const { data: lastRun, error: lastRunError } = await supabase
+        .from('recurring_invoice_runs')
+        .select('run_date')
+        .eq('recurring_invoice_id', id)
+        .in('status', ['generated', 'pending'])
+        .order('run_date', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (lastRunError) throw lastRunError;
+
+      const nextRun = lastRun
+        ? nextRunAfter(template, lastRun.run_date)
+        : firstRunOnOrAfter(template, template.start_date);
+
+      const updates: Partial<Omit<RecurringInvoice, 'id' | 'customers' | 'recurring_invoice_items'>> = {
+        ...template,
+        ...recurringTotals(items),
+        next_run_date: nextRun,
+        updated_at: new Date().toISOString(),
+      };
+      if (!nextRun) updates.status = 'ended';
+      else if (template.status === 'ended' || !template.status) updates.status = 'active';
+
+      const { data, error } = await supabase
+        .from('recurring_invoices')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const { error: deleteError } = await supabase
+        .from('recurring_invoice_items')
+        .delete()
+        .eq('recurring_invoice_id', id);
+
+      if (deleteError) throw deleteError;
+
+      if (items.length > 0) {
+        const { error: itemsError } = await supabase
+          .from('recurring_invoice_items')
+          .insert(buildItemRows(id, items));
+
+        if (itemsError) throw itemsError;
+      }
+
+      return data as RecurringInvoice;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['recurring_invoices'] });
+      toast.success(`Recurring invoice "${data.name}" updated`);
+    },
+    onError: (error) => {
+      console.error('Error updating recurring invoice:', error);
+      toast.error(error.message || 'Failed to update recurring invoice. Please try again.');
+    },
+  });
+}
+
+// Pause or resume a template
+export function useSetRecurringInvoiceStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: RecurringInvoiceStatus }) => {
+      const { data, error } = await supabase
+        .from('recurring_invoices')
+        .update({ status, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as RecurringInvoice;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['recurring_invoices'] });
+      toast.success(`Recurring invoice "${data.name}" ${data.status === 'paused' ? 'paused' : 'resumed'}`);
+    },
+    onError: (error) => {
+      console.error('Error updating recurring invoice status:', error);
+      toast.error(error.message || 'Failed to update recurring invoice');
+    },
+  });
+}
+
+// Delete a template. Invoices it already produced are kept; their run link is cleared by the FK.
+export function useDeleteRecurringInvoice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('recurring_invoices')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      RECURRING_KEYS.forEach(key => queryClient.invalidateQueries({ queryKey: [key] }));
+      toast.success('Recurring invoice deleted');
+    },
+    onError: (error) => {
+      console.error('Error deleting recurring invoice:', error);
+      toast.error(error.message || 'Failed to delete recurring invoice');
+    },
+  });
+}
+
+/**
+ * Bills every period that is due for the company's active templates.
+ *
+ * Each period is claimed by inserting its recurring_invoice_runs row first. The
+ * (recurring_invoice_id, run_date) key means a second generator running at the same time loses
+ * that insert and moves on, and the unique invoices.recurring_run_id means a retried run reuses
+ * the invoice it already created instead of raising another one. The schedule only moves past a
+ * period once its run is generated; a run abandoned mid-way is picked up again once it goes stale.
+ */
+export function useGenerateRecurringInvoices() {
+  const queryClient = useQueryClient();
+  const createInvoice = useCreateInvoiceWithItems();
+  const generateNumber = useGenerateDocumentNumber();
+  const markSent = useMarkInvoiceSent();
+
+  return useMutation({
+    mutationFn: async ({ companyId, asOf }: { companyId: string; asOf?: string }): Promise<GenerateRecurringResult> => {
+      const today = asOf || todayString();
+      const userId = await getAuthUserId();
+      const result: GenerateRecurringResult = { generated: [], failed: [] };
+
+      const { data: templates, error } = await supabase
+        .from('recurring_invoices')
+        .select('*, recurring_invoice_items(*)')
+        .eq('company_id', companyId)
+        .eq('status', 'active')
+        .lte('next_run_date', today);
+
+      if (error) throw error;
+
+      for (const template of (templates || []) as RecurringInvoice[]) {
+        let billedThrough: string | null = null;
+
+        for (const runDate of dueRunDates(template, today)) {
+          const { run, billed } = await claimRun(template, runDate, userId);
+          if (!run) {
+            if (billed) {
+              billedThrough = runDate;
+              continue;
+            }
+            // Another generator is still billing this period; leave the schedule where it is
+            break;
+          }
+
+          try {
+            const invoice = await findRunInvoice(run.id) || await createRunInvoice(template, run.id, runDate);
+
+            if (template.auto_send && invoice.status === 'draft') {
+              await markSent.mutateAsync(invoice.id);
+            }
+
+            const { error: completeError } = await supabase
+              .from('recurring_invoice_runs')
+              .update({ status: 'generated', invoice_id: invoice.id, error_message: null, completed_at: new Date().toISOString() })
+              .eq('id', run.id);
+
+            if (completeError) throw completeError;
+
+            result.generated.push({ run_date: runDate, invoice_number: invoice.invoice_number, template: template.name });
+            billedThrough = runDate;
+          } catch (runError) {
+            console.error(`Recurring invoice "${template.name}" failed for ${runDate}:`, runError);
+            const message = (runError as { message?: string })?.message || String(runError);
+            await supabase
+              .from('recurring_invoice_runs')
+              .update({ status: 'failed', error_message: message, completed_at: new Date().toISOString() })
+              .eq('id', run.id);
+
+            result.failed.push({ run_date: runDate, template: template.name, error: message });
+            // Stop at the first failure so periods are billed in order once the problem is fixed
+            break;
+          }
+        }
+
+        if (billedThrough) {
+          const nextRun = nextRunAfter(template, billedThrough);
+          await supabase
+            .from('recurring_invoices')
+            .update({
+              next_run_date: nextRun,
+              status: nextRun ? template.status : 'ended',
+              updated_at: new Date().toISOString(),
+            })
+            .eq('id', template.id);
+        }
+      }
+
+      return result;
+    },
+    onSuccess: () => {
+      RECURRING_KEYS.forEach(key => queryClient.invalidateQueries({ queryKey: [key] }));
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['invoices_fixed'] });
+    },
+  });
+
+  // Inserts the run row, or takes over a failed or abandoned one. `run` is null when the period is
+  // already billed (`billed`) or another generator holds it.
+  async function claimRun(
+    template: RecurringInvoice,
+    runDate: string,
+    userId: string | null
+  ): Promise<{ run: RecurringInvoiceRun | null; billed: boolean }> {
+    const { data, error } = await supabase
+      .from('recurring_invoice_runs')
+      .insert({
+        company_id: template.company_id,
+        recurring_invoice_id: template.id,
+        run_date: runDate,
+        status: 'pending',
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (!error) return { run: data as RecurringInvoiceRun, billed: false };
+    if (error.code !== '23505') throw error;
+
+    const { data: existing, error: existingError } = await supabase
+      .from('recurring_invoice_runs')
+      .select('*')
+      .eq('recurring_invoice_id', template.id)
+      .eq('run_date', runDate)
+      .single();
+
+    if (existingError) throw existingError;
+    const existingRun = existing as RecurringInvoiceRun;
+    const action = existingRunAction(existingRun);
+    if (action !== 'retry') return { run: null, billed: action === 'billed' };
+
+    // Flipping the run back to pending with a new claim time is itself the claim; matching on the
+    // old status and claim time means only one of several generators gets it
+    let retry = supabase
+      .from('recurring_invoice_runs')
+      .update({ status: 'pending', error_message: null, completed_at: null, claimed_at: new Date().toISOString() })
+      .eq('id', existingRun.id)
+      .eq('status', existingRun.status);
+    retry = existingRun.claimed_at ? retry.eq('claimed_at', existingRun.claimed_at) : retry.is('claimed_at', null);
+
+    const { data: retried, error: retryError } = await retry.select().maybeSingle();
+
+    if (retryError) throw retryError;
+    return { run: (retried as RecurringInvoiceRun) || null, billed: false };
+  }
+
+  async function findRunInvoice(runId: string) {
+    const { data, error } = await supabase
+      .from('invoices')
+      .select('id, invoice_number, status')
+      .eq('recurring_run_id', runId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async function createRunInvoice(template: RecurringInvoice, runId: string, runDate: string) {
+    const items = [...(template.recurring_invoice_items || [])].sort((a, b) => (a.sort_order || 0) - (b.sort_order || 0));
+    if (items.length === 0) throw new Error('Template has no line items');
+
+    const invoiceNumber = await generateNumber.mutateAsync({ companyId: template.company_id, type: 'invoice' });
+    const totals = recurringTotals(items);
+
+    return createInvoice.mutateAsync({
+      invoice: {
+        company_id: template.company_id,
+        customer_id: template.customer_id,
+        invoice_number: invoiceNumber,
+        invoice_date: runDate,
+        due_date: addDays(runDate, template.payment_terms_days || 0),
+        lpo_number: template.lpo_number || null,
+        status: 'draft',
+        subtotal: totals.subtotal,
+        tax_amount: totals.tax_amount,
+        total_amount: totals.total_amount,
+        paid_amount: 0,
+        balance_due: totals.total_amount,
+        affects_inventory: template.affects_inventory,
+        terms_and_conditions: template.terms_and_conditions,
+        notes: template.notes,
+        recurring_run_id: runId,
+      },
+      items: items.map(item => {
+        const line = recurringLineTotals(item);
+        return {
+          invoice_id: '',
+          product_id: item.product_id || undefined,
+          description: item.description,
+          quantity: Number(item.quantity),
+          unit_price: Number(item.unit_price),
+          discount_before_vat: Number(item.discount_before_vat || 0),
+          tax_percentage: Number(item.tax_percentage || 0),
+          tax_amount: line.tax_amount,
+          tax_inclusive: item.tax_inclusive,
+          line_total: line.line_total,
+        };
+      }),
+    });
+  }
+}
@@ -1,8 +1,12 @@
 import { useState, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth, UserProfile, UserRole, UserStatus } from '@/contexts/AuthContext';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
 import { toast } from 'sonner';
 import { parseErrorMessage, parseErrorMessageWithCodes } from '@/utils/errorHelpers';
+import { usePermission } from '@/hooks/usePermissions';
+import { PERMISSIONS, PermissionOverrides, roleChangeError } from '@/utils/permissions';
 
 export interface UserInvitation {
   id: string;
@@ -33,18 +37,77 @@ export interface UpdateUserData {
   phone?: string;
   department?: string;
   position?: string;
+  permissions?: PermissionOverrides;
 }
 
 export const useUserManagement = () => {
-  const { profile: currentUser, isAdmin } = useAuth();
+  const queryClient = useQueryClient();
+  const { profile: currentUser } = useAuth();
+  const canManageUsers = usePermission('user.manage');
+  const { currentCompany, currentRole } = useCurrentCompany();
+  const companyId = currentCompany?.id || currentUser?.company_id;
   const [users, setUsers] = useState<UserProfile[]>([]);
   const [invitations, setInvitations] = useState<UserInvitation[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Fetch all users in the same company
+  // Throws when the database would refuse the role change, before anything is written
+  const assertCanChangeRole = (userId: string | null, fromRole: UserRole | null | undefined, toRole: UserRole) => {
+    const message = roleChangeError(currentRole, userId === currentUser?.id, fromRole, toRole);
+    if (message) {
+      throw new Error(message);
+    }
+  };
+
+  // Grant a user access to the selected company, or change their role in it
+  const upsertMembership = async (userId: string, role: UserRole) => {
+    const { error } = await supabase
+      .from('user_companies')
+      .upsert({ user_id: userId, company_id: companyId, role }, { onConflict: 'user_id,company_id' });
+
+    if (error) {
+      throw error;
+    }
+  };
+
+  // Replace a user's permission overrides in the selected company; rows outside the catalogue are left alone
+  const saveUserPermissions = async (userId: string, permissions: PermissionOverrides) => {
+    if (!companyId) {
+      throw new Error('Select a company before changing permissions');
+    }
+
+    const { error: deleteError } = await supabase
+      .from('user_permissions')
+      .delete()
+      .eq('user_id', userId)
+      .eq('company_id', companyId)
+      .in('permission_name', PERMISSIONS.map(p => p.name));
+
+    if (deleteError) {
+      throw deleteError;
+    }
+
+    const rows = Object.entries(permissions).map(([permission_name, granted]) => ({
+      user_id: userId,
+      company_id: companyId,
+      permission_name,
+      granted,
+      granted_by: currentUser?.id || null,
+    }));
+
+    if (rows.length > 0) {
+      const { error } = await supabase.from('user_permissions').insert(rows);
+      if (error) {
+        throw error;
+      }
+    }
+
+    queryClient.invalidateQueries({ queryKey: ['user_permissions', userId] });
+  };
+
+  // Fetch all users of the selected company, with the role they hold in it
   const fetchUsers = async () => {
-    if (!currentUser?.company_id || !isAdmin) {
+    if (!companyId || !canManageUsers) {
       return;
     }
 
@@ -52,17 +115,34 @@ export const useUserManagement = () => {
     setError(null);
 
     try {
-      const { data, error } = await supabase
+      const { data: homeUsers, error } = await supabase
         .from('profiles')
         .select('*')
-        .eq('company_id', currentUser.company_id)
+        .eq('company_id', companyId)
         .order('created_at', { ascending: false });
 
       if (error) {
         throw error;
       }
 
-      setUsers(data || []);
+      const { data: memberships, error: membershipError } = await supabase
+        .from('user_companies')
+        .select('role, profiles(*)')
+        .eq('company_id', companyId);
+
+      if (membershipError) {
+        console.warn('Could not load company memberships:', membershipError);
+      }
+
+      // Members from other companies are listed too; the membership role wins over the profile role
+      const usersById = new Map<string, UserProfile>();
+      (homeUsers || []).forEach((user: UserProfile) => usersById.set(user.id, user));
+      (memberships || []).forEach(membership => {
+        if (!membership.profiles) return;
+        usersById.set(membership.profiles.id, { ...membership.profiles, role: membership.role });
+      });
+
+      setUsers(Array.from(usersById.values()));
     } catch (err) {
       const errorMessage = parseErrorMessage(err);
       console.error('Error fetching users:', err);
@@ -75,7 +155,7 @@ export const useUserManagement = () => {
 
   // Fetch pending invitations
   const fetchInvitations = async () => {
-    if (!currentUser?.company_id || !isAdmin) {
+    if (!companyId || !canManageUsers) {
       return;
     }
 
@@ -83,7 +163,7 @@ export const useUserManagement = () => {
       const { data, error } = await supabase
         .from('user_invitations')
         .select('*')
-        .eq('company_id', currentUser.company_id)
+        .eq('company_id', companyId)
         .order('invited_at', { ascending: false });
 
       if (error) {
@@ -114,13 +194,15 @@ export const useUserManagement = () => {
 
   // Create a new user (admin only)
   const createUser = async (userData: CreateUserData): Promise<{ success: boolean; error?: string }> => {
-    if (!isAdmin || !currentUser?.company_id) {
+    if (!canManageUsers || !companyId) {
       return { success: false, error: 'Unauthorized' };
     }
 
     setLoading(true);
 
     try {
+      assertCanChangeRole(null, null, userData.role);
+
       // Check if user already exists
       const { data: existingUser } = await supabase
         .from('profiles')
@@ -153,7 +235,8 @@ export const useUserManagement = () => {
           full_name: userData.full_name,
           role: userData.role,
           phone: userData.phone,
-          company_id: currentUser.company_id,
+          company_id: companyId,
+          selected_company_id: companyId,
           department: userData.department,
           position: userData.position,
           status: 'active',
@@ -164,6 +247,8 @@ export const useUserManagement = () => {
         throw profileError;
       }
 
+      await upsertMembership(authData.user.id, userData.role);
+
       toast.success('User created successfully');
       await fetchUsers();
       return { success: true };
@@ -179,22 +264,40 @@ export const useUserManagement = () => {
 
   // Update user (admin only)
   const updateUser = async (userId: string, userData: UpdateUserData): Promise<{ success: boolean; error?: string }> => {
-    if (!isAdmin) {
+    if (!canManageUsers) {
       return { success: false, error: 'Unauthorized' };
     }
 
     setLoading(true);
 
     try {
+      const { role, permissions, ...profileData } = userData;
+      const user = users.find(u => u.id === userId);
+      const roleChanged = !!role && role !== user?.role;
+      if (roleChanged) {
+        assertCanChangeRole(userId, user?.role, role);
+      }
+
+      // The profile role mirrors the role in the user's home company only
+      const isHomeCompany = !user?.company_id || user.company_id === companyId;
       const { error } = await supabase
         .from('profiles')
-        .update(userData)
+        .update(roleChanged && isHomeCompany ? { ...profileData, role } : profileData)
         .eq('id', userId);
 
       if (error) {
         throw error;
       }
 
+      if (roleChanged) {
+        await upsertMembership(userId, role);
+      }
+
+      // Nobody edits their own overrides; the database refuses them too
+      if (permissions && userId !== currentUser?.id) {
+        await saveUserPermissions(userId, permissions);
+      }
+
       toast.success('User updated successfully');
       await fetchUsers();
       return { success: true };
@@ -210,7 +313,7 @@ export const useUserManagement = () => {
 
   // Delete user (admin only)
   const deleteUser = async (userId: string): Promise<{ success: boolean; error?: string }> => {
-    if (!isAdmin || userId === currentUser?.id) {
+    if (!canManageUsers || userId === currentUser?.id) {
       return { success: false, error: 'Cannot delete yourself or unauthorized' };
     }
 
@@ -239,13 +342,15 @@ export const useUserManagement = () => {
 
   // Invite user via email
   const inviteUser = async (email: string, role: UserRole): Promise<{ success: boolean; error?: string }> => {
-    if (!isAdmin || !currentUser?.company_id) {
+    if (!canManageUsers || !companyId) {
       return { success: false, error: 'Unauthorized' };
     }
 
     setLoading(true);
 
     try {
+      assertCanChangeRole(null, null, role);
+
       // Check if user already exists or has pending invitation
       const { data: existingUser } = await supabase
         .from('profiles')
@@ -253,15 +358,23 @@ export const useUserManagement = () => {
         .eq('email', email)
         .single();
 
+      // Existing users are given access to this company instead of a new account
       if (existingUser) {
-        return { success: false, error: 'User with this email already exists' };
+        if (users.some(u => u.id === existingUser.id)) {
+          return { success: false, error: 'User already has access to this company' };
+        }
+
+        await upsertMembership(existingUser.id, role);
+        toast.success(`${email} now has access to ${currentCompany?.name || 'this company'}`);
+        await fetchUsers();
+        return { success: true };
       }
 
       const { data: existingInvitation } = await supabase
         .from('user_invitations')
         .select('id')
         .eq('email', email)
-        .eq('company_id', currentUser.company_id)
+        .eq('company_id', companyId)
         .eq('status', 'pending')
         .single();
 
@@ -275,7 +388,7 @@ export const useUserManagement = () => {
         .insert({
           email,
           role,
-          company_id: currentUser.company_id,
+          company_id: companyId,
           invited_by: currentUser.id,
         });
 
@@ -300,7 +413,7 @@ export const useUserManagement = () => {
 
   // Revoke invitation
   const revokeInvitation = async (invitationId: string): Promise<{ success: boolean; error?: string }> => {
-    if (!isAdmin) {
+    if (!canManageUsers) {
       return { success: false, error: 'Unauthorized' };
     }
 
@@ -401,13 +514,13 @@ export const useUserManagement = () => {
     };
   };
 
-  // Load data on mount
+  // Load data on mount and whenever the selected company changes
   useEffect(() => {
-    if (isAdmin && currentUser?.company_id) {
+    if (canManageUsers && companyId) {
       fetchUsers();
       fetchInvitations();
     }
-  }, [isAdmin, currentUser?.company_id]);
+  }, [canManageUsers, companyId]);
 
   return {
     users,
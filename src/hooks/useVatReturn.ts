@@ -0,0 +1,72 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { buildVatReturn, monthPeriod, type VatReturn } from '@/utils/vatReturn';
+
+// VAT return for a YYYY-MM month; see utils/vatReturn.ts for what is included
+export const useVatReturn = (companyId?: string, month?: string) => {
+  return useQuery({
+    queryKey: ['vat_return', companyId, month],
+    queryFn: async (): Promise<VatReturn | null> => {
+      if (!companyId || !month) return null;
+      const period = monthPeriod(month);
+
+      const [invoices, creditNotes, bills, lpos, taxSettings] = await Promise.all([
+        supabase
+          .from('invoices')
+          .select('id, invoice_number, invoice_date, status, paid_amount, exchange_rate, etims_cu_serial_number, customers(name, tax_number), invoice_items(*)')
+          .eq('company_id', companyId)
+          .gte('invoice_date', period.start)
+          .lte('invoice_date', period.end),
+        supabase
+          .from('credit_notes')
+          .select('id, credit_note_number, credit_note_date, status, applied_amount, reason, exchange_rate, etims_cu_serial_number, customers(name, tax_number), invoices(invoice_number, invoice_date), credit_note_items(*)')
+          .eq('company_id', companyId)
+          .gte('credit_note_date', period.start)
+          .lte('credit_note_date', period.end),
+        supabase
+          .from('supplier_bills')
+          .select('id, bill_number, supplier_invoice_number, bill_date, status, lpo_id, exchange_rate, suppliers(name, tax_pin), supplier_bill_items(*)')
+          .eq('company_id', companyId)
+          .gte('bill_date', period.start)
+          .lte('bill_date', period.end),
+        supabase
+          .from('lpos')
+          .select('id, lpo_number, lpo_date, status, subtotal, tax_amount, exchange_rate, suppliers(name)')
+          .eq('company_id', companyId)
+          .gte('lpo_date', period.start)
+          .lte('lpo_date', period.end),
+        supabase
+          .from('tax_settings')
+          .select('id, name, rate')
+          .eq('company_id', companyId),
+      ]);
+
+      for (const result of [invoices, creditNotes, bills, lpos, taxSettings]) {
+        if (result.error) throw result.error;
+      }
+
+      // A bill for an LPO raised in an earlier month still means the LPO has been billed
+      const lpoIds = (lpos.data || []).map(lpo => lpo.id);
+      let lpoBills: { id: string; lpo_id: string | null; status: string | null }[] = [];
+      if (lpoIds.length > 0) {
+        const { data, error } = await supabase
+          .from('supplier_bills')
+          .select('id, lpo_id, status')
+          .in('lpo_id', lpoIds);
+        if (error) throw error;
+        lpoBills = data || [];
+      }
+
+      const periodBillIds = new Set((bills.data || []).map(bill => bill.id));
+      return buildVatReturn({
+        period,
+        invoices: invoices.data || [],
+        creditNotes: creditNotes.data || [],
+        bills: [...(bills.data || []), ...lpoBills.filter(bill => !periodBillIds.has(bill.id))],
+        lpos: lpos.data || [],
+        taxSettings: taxSettings.data || [],
+      });
+    },
+    enabled: !!companyId && !!month,
+  });
+};
@@ -14,23 +14,4856 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          actor_name: string | null
+          changes: Json | null
+          company_id: string | null
+          created_at: string | null
+          entity_id: string
+          entity_type: string
+          id: string
+          parent_id: string | null
+          parent_type: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          actor_name?: string | null
+          changes?: Json | null
+          company_id?: string | null
+          created_at?: string | null
+          entity_id: string
+          entity_type: string
+          id?: string
+          parent_id?: string | null
+          parent_type?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          actor_name?: string | null
+          changes?: Json | null
+          company_id?: string | null
+          created_at?: string | null
+          entity_id?: string
+          entity_type?: string
+          id?: string
+          parent_id?: string | null
+          parent_type?: string | null
+        }
+        Relationships: []
+      }
+      bank_accounts: {
+        Row: {
+          account_name: string
+          account_number: string | null
+          bank_name: string | null
+          company_id: string | null
+          created_at: string | null
+          currency: string
+          id: string
+          is_active: boolean
+          last_reconciled_balance: number | null
+          last_reconciled_date: string | null
+          opening_balance: number
+          updated_at: string | null
+        }
+        Insert: {
+          account_name: string
+          account_number?: string | null
+          bank_name?: string | null
+          company_id?: string | null
+          created_at?: string | null
+          currency?: string
+          id?: string
+          is_active?: boolean
+          last_reconciled_balance?: number | null
+          last_reconciled_date?: string | null
+          opening_balance?: number
+          updated_at?: string | null
+        }
+        Update: {
+          account_name?: string
+          account_number?: string | null
+          bank_name?: string | null
+          company_id?: string | null
+          created_at?: string | null
+          currency?: string
+          id?: string
+          is_active?: boolean
+          last_reconciled_balance?: number | null
+          last_reconciled_date?: string | null
+          opening_balance?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_accounts_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bank_reconciliations: {
+        Row: {
+          bank_account_id: string
+          company_id: string | null
+          created_at: string | null
+          id: string
+          line_count: number
+          notes: string | null
+          opening_balance: number
+          reconciled_by: string | null
+          statement_balance: number
+          statement_date: string
+          total_credits: number
+          total_debits: number
+        }
+        Insert: {
+          bank_account_id: string
+          company_id?: string | null
+          created_at?: string | null
+          id?: string
+          line_count?: number
+          notes?: string | null
+          opening_balance: number
+          reconciled_by?: string | null
+          statement_balance: number
+          statement_date: string
+          total_credits?: number
+          total_debits?: number
+        }
+        Update: {
+          bank_account_id?: string
+          company_id?: string | null
+          created_at?: string | null
+          id?: string
+          line_count?: number
+          notes?: string | null
+          opening_balance?: number
+          reconciled_by?: string | null
+          statement_balance?: number
+          statement_date?: string
+          total_credits?: number
+          total_debits?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_reconciliations_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_reconciliations_bank_account_id_fkey"
+            columns: ["bank_account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_reconciliations_reconciled_by_fkey"
+            columns: ["reconciled_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bank_statement_lines: {
+        Row: {
+          amount: number
+          bank_account_id: string
+          company_id: string | null
+          created_at: string | null
+          description: string | null
+          external_id: string
+          id: string
+          match_method: string | null
+          matched_at: string | null
+          payment_id: string | null
+          reconciliation_id: string | null
+          reference: string | null
+          running_balance: number | null
+          statement_id: string | null
+          status: string
+          transaction_date: string
+        }
+        Insert: {
+          amount: number
+          bank_account_id: string
+          company_id?: string | null
+          created_at?: string | null
+          description?: string | null
+          external_id: string
+          id?: string
+          match_method?: string | null
+          matched_at?: string | null
+          payment_id?: string | null
+          reconciliation_id?: string | null
+          reference?: string | null
+          running_balance?: number | null
+          statement_id?: string | null
+          status?: string
+          transaction_date: string
+        }
+        Update: {
+          amount?: number
+          bank_account_id?: string
+          company_id?: string | null
+          created_at?: string | null
+          description?: string | null
+          external_id?: string
+          id?: string
+          match_method?: string | null
+          matched_at?: string | null
+          payment_id?: string | null
+          reconciliation_id?: string | null
+          reference?: string | null
+          running_balance?: number | null
+          statement_id?: string | null
+          status?: string
+          transaction_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_statement_lines_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_lines_bank_account_id_fkey"
+            columns: ["bank_account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_lines_statement_id_fkey"
+            columns: ["statement_id"]
+            isOneToOne: false
+            referencedRelation: "bank_statements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_lines_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_lines_reconciliation_id_fkey"
+            columns: ["reconciliation_id"]
+            isOneToOne: false
+            referencedRelation: "bank_reconciliations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bank_statements: {
+        Row: {
+          bank_account_id: string
+          closing_balance: number | null
+          company_id: string | null
+          created_at: string | null
+          file_format: string
+          file_name: string | null
+          id: string
+          imported_by: string | null
+          line_count: number
+          period_end: string | null
+          period_start: string | null
+        }
+        Insert: {
+          bank_account_id: string
+          closing_balance?: number | null
+          company_id?: string | null
+          created_at?: string | null
+          file_format: string
+          file_name?: string | null
+          id?: string
+          imported_by?: string | null
+          line_count?: number
+          period_end?: string | null
+          period_start?: string | null
+        }
+        Update: {
+          bank_account_id?: string
+          closing_balance?: number | null
+          company_id?: string | null
+          created_at?: string | null
+          file_format?: string
+          file_name?: string | null
+          id?: string
+          imported_by?: string | null
+          line_count?: number
+          period_end?: string | null
+          period_start?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_statements_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statements_bank_account_id_fkey"
+            columns: ["bank_account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statements_imported_by_fkey"
+            columns: ["imported_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      boq_rates: {
+        Row: {
+          company_id: string | null
+          created_at: string | null
+          created_by: string | null
+          default_rate: number
+          description: string
+          id: string
+          is_active: boolean | null
+          product_id: string | null
+          tags: string[] | null
+          unit_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          default_rate?: number
+          description: string
+          id?: string
+          is_active?: boolean | null
+          product_id?: string | null
+          tags?: string[] | null
+          unit_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          default_rate?: number
+          description?: string
+          id?: string
+          is_active?: boolean | null
+          product_id?: string | null
+          tags?: string[] | null
+          unit_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "boq_rates_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "boq_rates_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "boq_rates_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "boq_rates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      boq_revisions: {
+        Row: {
+          boq_id: string
+          change_note: string | null
+          company_id: string | null
+          created_at: string | null
+          created_by: string | null
+          data: Json
+          id: string
+          revision_number: number
+          subtotal: number | null
+          total_amount: number | null
+        }
+        Insert: {
+          boq_id: string
+          change_note?: string | null
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          data: Json
+          id?: string
+          revision_number: number
+          subtotal?: number | null
+          total_amount?: number | null
+        }
+        Update: {
+          boq_id?: string
+          change_note?: string | null
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          data?: Json
+          id?: string
+          revision_number?: number
+          subtotal?: number | null
+          total_amount?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "boq_revisions_boq_id_fkey"
+            columns: ["boq_id"]
+            isOneToOne: false
+            referencedRelation: "boqs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "boq_revisions_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "boq_revisions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      boq_valuations: {
+        Row: {
+          amount_due: number | null
+          boq_id: string
+          certified_at: string | null
+          company_id: string | null
+          created_at: string | null
+          created_by: string | null
+          gross_value: number | null
+          id: string
+          invoice_id: string | null
+          invoice_number: string | null
+          items: Json
+          net_value: number | null
+          notes: string | null
+          previous_certified: number | null
+          retention_amount: number | null
+          retention_percentage: number | null
+          status: string
+          updated_at: string | null
+          valuation_date: string
+          valuation_number: number
+        }
+        Insert: {
+          amount_due?: number | null
+          boq_id: string
+          certified_at?: string | null
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          gross_value?: number | null
+          id?: string
+          invoice_id?: string | null
+          invoice_number?: string | null
+          items?: Json
+          net_value?: number | null
+          notes?: string | null
+          previous_certified?: number | null
+          retention_amount?: number | null
+          retention_percentage?: number | null
+          status?: string
+          updated_at?: string | null
+          valuation_date?: string
+          valuation_number: number
+        }
+        Update: {
+          amount_due?: number | null
+          boq_id?: string
+          certified_at?: string | null
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          gross_value?: number | null
+          id?: string
+          invoice_id?: string | null
+          invoice_number?: string | null
+          items?: Json
+          net_value?: number | null
+          notes?: string | null
+          previous_certified?: number | null
+          retention_amount?: number | null
+          retention_percentage?: number | null
+          status?: string
+          updated_at?: string | null
+          valuation_date?: string
+          valuation_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "boq_valuations_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "boq_valuations_boq_id_fkey"
+            columns: ["boq_id"]
+            isOneToOne: false
+            referencedRelation: "boqs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "boq_valuations_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "boq_valuations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      boqs: {
+        Row: {
+          attachment_url: string | null
+          boq_date: string
+          client_address: string | null
+          client_city: string | null
+          client_country: string | null
+          client_email: string | null
+          client_name: string
+          client_phone: string | null
+          company_id: string | null
+          contractor: string | null
+          converted_at: string | null
+          converted_to_id: string | null
+          converted_to_number: string | null
+          converted_to_type: string | null
+          created_at: string | null
+          created_by: string | null
+          currency: string | null
+          current_revision: number | null
+          customer_id: string | null
+          data: Json | null
+          id: string
+          number: string
+          project_title: string | null
+          status: string | null
+          subtotal: number | null
+          tax_amount: number | null
+          total_amount: number
+          updated_at: string | null
+        }
+        Insert: {
+          attachment_url?: string | null
+          boq_date?: string
+          client_address?: string | null
+          client_city?: string | null
+          client_country?: string | null
+          client_email?: string | null
+          client_name: string
+          client_phone?: string | null
+          company_id?: string | null
+          contractor?: string | null
+          converted_at?: string | null
+          converted_to_id?: string | null
+          converted_to_number?: string | null
+          converted_to_type?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          currency?: string | null
+          current_revision?: number | null
+          customer_id?: string | null
+          data?: Json | null
+          id?: string
+          number: string
+          project_title?: string | null
+          status?: string | null
+          subtotal?: number | null
+          tax_amount?: number | null
+          total_amount: number
+          updated_at?: string | null
+        }
+        Update: {
+          attachment_url?: string | null
+          boq_date?: string
+          client_address?: string | null
+          client_city?: string | null
+          client_country?: string | null
+          client_email?: string | null
+          client_name?: string
+          client_phone?: string | null
+          company_id?: string | null
+          contractor?: string | null
+          converted_at?: string | null
+          converted_to_id?: string | null
+          converted_to_number?: string | null
+          converted_to_type?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          currency?: string | null
+          current_revision?: number | null
+          customer_id?: string | null
+          data?: Json | null
+          id?: string
+          number?: string
+          project_title?: string | null
+          status?: string | null
+          subtotal?: number | null
+          tax_amount?: number | null
+          total_amount?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "boqs_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "boqs_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "boqs_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      companies: {
+        Row: {
+          address: string | null
+          city: string | null
+          country: string | null
+          created_at: string | null
+          currency: string | null
+          email: string | null
+          etims_adapter: string
+          etims_branch_id: string
+          etims_device_serial: string | null
+          etims_enabled: boolean
+          fiscal_year_start: number | null
+          id: string
+          logo_url: string | null
+          mpesa_paybill_number: string | null
+          name: string
+          phone: string | null
+          postal_code: string | null
+          registration_number: string | null
+          state: string | null
+          tax_number: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          address?: string | null
+          city?: string | null
+          country?: string | null
+          created_at?: string | null
+          currency?: string | null
+          email?: string | null
+          etims_adapter?: string
+          etims_branch_id?: string
+          etims_device_serial?: string | null
+          etims_enabled?: boolean
+          fiscal_year_start?: number | null
+          id?: string
+          logo_url?: string | null
+          mpesa_paybill_number?: string | null
+          name: string
+          phone?: string | null
+          postal_code?: string | null
+          registration_number?: string | null
+          state?: string | null
+          tax_number?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          address?: string | null
+          city?: string | null
+          country?: string | null
+          created_at?: string | null
+          currency?: string | null
+          email?: string | null
+          etims_adapter?: string
+          etims_branch_id?: string
+          etims_device_serial?: string | null
+          etims_enabled?: boolean
+          fiscal_year_start?: number | null
+          id?: string
+          logo_url?: string | null
+          mpesa_paybill_number?: string | null
+          name?: string
+          phone?: string | null
+          postal_code?: string | null
+          registration_number?: string | null
+          state?: string | null
+          tax_number?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      credit_note_allocations: {
+        Row: {
+          allocated_amount: number
+          allocation_date: string
+          created_at: string | null
+          created_by: string | null
+          credit_note_id: string
+          id: string
+          invoice_id: string
+          notes: string | null
+        }
+        Insert: {
+          allocated_amount?: number
+          allocation_date?: string
+          created_at?: string | null
+          created_by?: string | null
+          credit_note_id: string
+          id?: string
+          invoice_id: string
+          notes?: string | null
+        }
+        Update: {
+          allocated_amount?: number
+          allocation_date?: string
+          created_at?: string | null
+          created_by?: string | null
+          credit_note_id?: string
+          id?: string
+          invoice_id?: string
+          notes?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_note_allocations_credit_note_id_fkey"
+            columns: ["credit_note_id"]
+            isOneToOne: false
+            referencedRelation: "credit_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_note_allocations_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_note_items: {
+        Row: {
+          created_at: string | null
+          credit_note_id: string
+          description: string
+          id: string
+          line_total: number
+          product_id: string | null
+          quantity: number
+          sort_order: number
+          tax_amount: number
+          tax_inclusive: boolean
+          tax_percentage: number
+          tax_setting_id: string | null
+          unit_price: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          credit_note_id: string
+          description: string
+          id?: string
+          line_total?: number
+          product_id?: string | null
+          quantity?: number
+          sort_order?: number
+          tax_amount?: number
+          tax_inclusive?: boolean
+          tax_percentage?: number
+          tax_setting_id?: string | null
+          unit_price?: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          credit_note_id?: string
+          description?: string
+          id?: string
+          line_total?: number
+          product_id?: string | null
+          quantity?: number
+          sort_order?: number
+          tax_amount?: number
+          tax_inclusive?: boolean
+          tax_percentage?: number
+          tax_setting_id?: string | null
+          unit_price?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_note_items_credit_note_id_fkey"
+            columns: ["credit_note_id"]
+            isOneToOne: false
+            referencedRelation: "credit_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_note_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_note_items_tax_setting_id_fkey"
+            columns: ["tax_setting_id"]
+            isOneToOne: false
+            referencedRelation: "tax_settings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_notes: {
+        Row: {
+          affects_inventory: boolean
+          applied_amount: number
+          balance: number
+          base_amount: number | null
+          base_subtotal: number | null
+          base_tax_amount: number | null
+          base_total_amount: number | null
+          company_id: string
+          created_at: string | null
+          created_by: string | null
+          credit_note_date: string
+          credit_note_number: string
+          currency: string | null
+          customer_id: string
+          etims_cu_invoice_number: string | null
+          etims_cu_serial_number: string | null
+          etims_qr_code: string | null
+          etims_signature: string | null
+          etims_status: string | null
+          etims_submitted_at: string | null
+          exchange_rate: number | null
+          id: string
+          invoice_id: string | null
+          notes: string | null
+          reason: string | null
+          status: string
+          subtotal: number
+          tax_amount: number
+          terms_and_conditions: string | null
+          total_amount: number
+          updated_at: string | null
+        }
+        Insert: {
+          affects_inventory?: boolean
+          applied_amount?: number
+          balance?: number
+          base_amount?: number | null
+          base_subtotal?: number | null
+          base_tax_amount?: number | null
+          base_total_amount?: number | null
+          company_id: string
+          created_at?: string | null
+          created_by?: string | null
+          credit_note_date: string
+          credit_note_number: string
+          currency?: string | null
+          customer_id: string
+          etims_cu_invoice_number?: string | null
+          etims_cu_serial_number?: string | null
+          etims_qr_code?: string | null
+          etims_signature?: string | null
+          etims_status?: string | null
+          etims_submitted_at?: string | null
+          exchange_rate?: number | null
+          id?: string
+          invoice_id?: string | null
+          notes?: string | null
+          reason?: string | null
+          status?: string
+          subtotal?: number
+          tax_amount?: number
+          terms_and_conditions?: string | null
+          total_amount?: number
+          updated_at?: string | null
+        }
+        Update: {
+          affects_inventory?: boolean
+          applied_amount?: number
+          balance?: number
+          base_amount?: number | null
+          base_subtotal?: number | null
+          base_tax_amount?: number | null
+          base_total_amount?: number | null
+          company_id?: string
+          created_at?: string | null
+          created_by?: string | null
+          credit_note_date?: string
+          credit_note_number?: string
+          currency?: string | null
+          customer_id?: string
+          etims_cu_invoice_number?: string | null
+          etims_cu_serial_number?: string | null
+          etims_qr_code?: string | null
+          etims_signature?: string | null
+          etims_status?: string | null
+          etims_submitted_at?: string | null
+          exchange_rate?: number | null
+          id?: string
+          invoice_id?: string | null
+          notes?: string | null
+          reason?: string | null
+          status?: string
+          subtotal?: number
+          tax_amount?: number
+          terms_and_conditions?: string | null
+          total_amount?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_notes_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_notes_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_notes_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customers: {
+        Row: {
+          address: string | null
+          city: string | null
+          company_id: string | null
+          country: string | null
+          created_at: string | null
+          credit_limit: number | null
+          customer_code: string | null
+          email: string | null
+          id: string
+          is_active: boolean | null
+          name: string
+          payment_terms: number | null
+          phone: string | null
+          postal_code: string | null
+          state: string | null
+          tax_number: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          address?: string | null
+          city?: string | null
+          company_id?: string | null
+          country?: string | null
+          created_at?: string | null
+          credit_limit?: number | null
+          customer_code?: string | null
+          email?: string | null
+          id?: string
+          is_active?: boolean | null
+          name: string
+          payment_terms?: number | null
+          phone?: string | null
+          postal_code?: string | null
+          state?: string | null
+          tax_number?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          address?: string | null
+          city?: string | null
+          company_id?: string | null
+          country?: string | null
+          created_at?: string | null
+          credit_limit?: number | null
+          customer_code?: string | null
+          email?: string | null
+          id?: string
+          is_active?: boolean | null
+          name?: string
+          payment_terms?: number | null
+          phone?: string | null
+          postal_code?: string | null
+          state?: string | null
+          tax_number?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customers_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      delivery_note_items: {
+        Row: {
+          created_at: string | null
+          delivery_note_id: string | null
+          description: string | null
+          id: string
+          product_id: string | null
+          quantity_delivered: number | null
+          quantity_ordered: number | null
+          sort_order: number | null
+          unit_of_measure: string | null
+          unit_price: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          delivery_note_id?: string | null
+          description?: string | null
+          id?: string
+          product_id?: string | null
+          quantity_delivered?: number | null
+          quantity_ordered?: number | null
+          sort_order?: number | null
+          unit_of_measure?: string | null
+          unit_price?: number | null
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          delivery_note_id?: string | null
+          description?: string | null
+          id?: string
+          product_id?: string | null
+          quantity_delivered?: number | null
+          quantity_ordered?: number | null
+          sort_order?: number | null
+          unit_of_measure?: string | null
+          unit_price?: number | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "delivery_note_items_delivery_note_id_fkey"
+            columns: ["delivery_note_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "delivery_note_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      delivery_notes: {
+        Row: {
+          carrier: string | null
+          company_id: string | null
+          created_at: string | null
+          created_by: string | null
+          customer_id: string | null
+          delivered_by: string | null
+          delivery_address: string | null
+          delivery_date: string | null
+          delivery_method: string | null
+          delivery_number: string | null
+          id: string
+          invoice_id: string | null
+          notes: string | null
+          received_by: string | null
+          status: string | null
+          tracking_number: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          carrier?: string | null
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          customer_id?: string | null
+          delivered_by?: string | null
+          delivery_address?: string | null
+          delivery_date?: string | null
+          delivery_method?: string | null
+          delivery_number?: string | null
+          id?: string
+          invoice_id?: string | null
+          notes?: string | null
+          received_by?: string | null
+          status?: string | null
+          tracking_number?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          carrier?: string | null
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          customer_id?: string | null
+          delivered_by?: string | null
+          delivery_address?: string | null
+          delivery_date?: string | null
+          delivery_method?: string | null
+          delivery_number?: string | null
+          id?: string
+          invoice_id?: string | null
+          notes?: string | null
+          received_by?: string | null
+          status?: string | null
+          tracking_number?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "delivery_notes_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "delivery_notes_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "delivery_notes_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "delivery_notes_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "delivery_notes_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_share_links: {
+        Row: {
+          company_id: string
+          created_at: string | null
+          created_by: string | null
+          document_id: string
+          document_type: string
+          expires_at: string
+          id: string
+          last_viewed_at: string | null
+          responded_at: string | null
+          responder_name: string | null
+          response: string | null
+          response_comment: string | null
+          revoked_at: string | null
+          revoked_by: string | null
+          token: string
+          view_count: number
+        }
+        Insert: {
+          company_id: string
+          created_at?: string | null
+          created_by?: string | null
+          document_id: string
+          document_type: string
+          expires_at: string
+          id?: string
+          last_viewed_at?: string | null
+          responded_at?: string | null
+          responder_name?: string | null
+          response?: string | null
+          response_comment?: string | null
+          revoked_at?: string | null
+          revoked_by?: string | null
+          token?: string
+          view_count?: number
+        }
+        Update: {
+          company_id?: string
+          created_at?: string | null
+          created_by?: string | null
+          document_id?: string
+          document_type?: string
+          expires_at?: string
+          id?: string
+          last_viewed_at?: string | null
+          responded_at?: string | null
+          responder_name?: string | null
+          response?: string | null
+          response_comment?: string | null
+          revoked_at?: string | null
+          revoked_by?: string | null
+          token?: string
+          view_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_share_links_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_share_links_revoked_by_fkey"
+            columns: ["revoked_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_share_links_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      etims_submissions: {
+        Row: {
+          adapter: string
+          attempts: number
+          company_id: string | null
+          created_at: string | null
+          created_by: string | null
+          document_id: string
+          document_number: string
+          document_type: string
+          id: string
+          last_error: string | null
+          next_attempt_at: string | null
+          payload: Json | null
+          payload_digest: string | null
+          response: Json | null
+          status: string
+          submitted_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          adapter: string
+          attempts?: number
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          document_id: string
+          document_number: string
+          document_type: string
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string | null
+          payload?: Json | null
+          payload_digest?: string | null
+          response?: Json | null
+          status?: string
+          submitted_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          adapter?: string
+          attempts?: number
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          document_id?: string
+          document_number?: string
+          document_type?: string
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string | null
+          payload?: Json | null
+          payload_digest?: string | null
+          response?: Json | null
+          status?: string
+          submitted_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "etims_submissions_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "etims_submissions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exchange_rates: {
+        Row: {
+          company_id: string
+          created_at: string | null
+          created_by: string | null
+          currency_code: string
+          id: string
+          rate: number
+          rate_date: string
+          source: string
+          updated_at: string | null
+        }
+        Insert: {
+          company_id: string
+          created_at?: string | null
+          created_by?: string | null
+          currency_code: string
+          id?: string
+          rate: number
+          rate_date: string
+          source?: string
+          updated_at?: string | null
+        }
+        Update: {
+          company_id?: string
+          created_at?: string | null
+          created_by?: string | null
+          currency_code?: string
+          id?: string
+          rate?: number
+          rate_date?: string
+          source?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exchange_rates_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exchange_rates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      gl_account_mappings: {
+        Row: {
+          account_id: string
+          company_id: string | null
+          created_at: string | null
+          id: string
+          mapping_key: string
+          mapping_type: string
+          updated_at: string | null
+        }
+        Insert: {
+          account_id: string
+          company_id?: string | null
+          created_at?: string | null
+          id?: string
+          mapping_key: string
+          mapping_type: string
+          updated_at?: string | null
+        }
+        Update: {
+          account_id?: string
+          company_id?: string | null
+          created_at?: string | null
+          id?: string
+          mapping_key?: string
+          mapping_type?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gl_account_mappings_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gl_account_mappings_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "gl_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      gl_accounts: {
+        Row: {
+          account_type: string
+          code: string
+          company_id: string | null
+          created_at: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          is_system: boolean
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          account_type: string
+          code: string
+          company_id?: string | null
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          is_system?: boolean
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          account_type?: string
+          code?: string
+          company_id?: string | null
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          is_system?: boolean
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gl_accounts_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goods_received_notes: {
+        Row: {
+          company_id: string | null
+          created_at: string | null
+          created_by: string | null
+          grn_number: string
+          id: string
+          lpo_id: string
+          notes: string | null
+          received_by: string | null
+          received_date: string
+          supplier_delivery_note: string | null
+          supplier_id: string | null
+          total_value: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          grn_number: string
+          id?: string
+          lpo_id: string
+          notes?: string | null
+          received_by?: string | null
+          received_date?: string
+          supplier_delivery_note?: string | null
+          supplier_id?: string | null
+          total_value?: number | null
+          updated_at?: string | null
+        }
+        Update: {
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          grn_number?: string
+          id?: string
+          lpo_id?: string
+          notes?: string | null
+          received_by?: string | null
+          received_date?: string
+          supplier_delivery_note?: string | null
+          supplier_id?: string | null
+          total_value?: number | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goods_received_notes_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_received_notes_lpo_id_fkey"
+            columns: ["lpo_id"]
+            isOneToOne: false
+            referencedRelation: "lpos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_received_notes_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_received_notes_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      grn_items: {
+        Row: {
+          description: string
+          grn_id: string
+          id: string
+          line_total: number
+          lpo_item_id: string
+          product_id: string | null
+          quantity_received: number
+          sort_order: number | null
+          unit_cost: number
+        }
+        Insert: {
+          description: string
+          grn_id: string
+          id?: string
+          line_total?: number
+          lpo_item_id: string
+          product_id?: string | null
+          quantity_received: number
+          sort_order?: number | null
+          unit_cost?: number
+        }
+        Update: {
+          description?: string
+          grn_id?: string
+          id?: string
+          line_total?: number
+          lpo_item_id?: string
+          product_id?: string | null
+          quantity_received?: number
+          sort_order?: number | null
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "grn_items_grn_id_fkey"
+            columns: ["grn_id"]
+            isOneToOne: false
+            referencedRelation: "goods_received_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "grn_items_lpo_item_id_fkey"
+            columns: ["lpo_item_id"]
+            isOneToOne: false
+            referencedRelation: "lpo_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "grn_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_items: {
+        Row: {
+          created_at: string | null
+          description: string
+          discount_amount: number | null
+          discount_before_vat: number | null
+          discount_percentage: number | null
+          id: string
+          invoice_id: string | null
+          line_total: number
+          product_id: string | null
+          product_name: string | null
+          quantity: number
+          sort_order: number | null
+          tax_amount: number | null
+          tax_inclusive: boolean | null
+          tax_percentage: number | null
+          tax_setting_id: string | null
+          unit_of_measure: string | null
+          unit_price: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          description: string
+          discount_amount?: number | null
+          discount_before_vat?: number | null
+          discount_percentage?: number | null
+          id?: string
+          invoice_id?: string | null
+          line_total?: number
+          product_id?: string | null
+          product_name?: string | null
+          quantity?: number
+          sort_order?: number | null
+          tax_amount?: number | null
+          tax_inclusive?: boolean | null
+          tax_percentage?: number | null
+          tax_setting_id?: string | null
+          unit_of_measure?: string | null
+          unit_price?: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string
+          discount_amount?: number | null
+          discount_before_vat?: number | null
+          discount_percentage?: number | null
+          id?: string
+          invoice_id?: string | null
+          line_total?: number
+          product_id?: string | null
+          product_name?: string | null
+          quantity?: number
+          sort_order?: number | null
+          tax_amount?: number | null
+          tax_inclusive?: boolean | null
+          tax_percentage?: number | null
+          tax_setting_id?: string | null
+          unit_of_measure?: string | null
+          unit_price?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_items_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_items_tax_setting_id_fkey"
+            columns: ["tax_setting_id"]
+            isOneToOne: false
+            referencedRelation: "tax_settings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          affects_inventory: boolean | null
+          balance_due: number | null
+          base_amount: number | null
+          base_subtotal: number | null
+          base_tax_amount: number | null
+          base_total_amount: number | null
+          company_id: string | null
+          created_at: string | null
+          created_by: string | null
+          currency: string | null
+          customer_id: string | null
+          discount_amount: number | null
+          due_date: string | null
+          etims_cu_invoice_number: string | null
+          etims_cu_serial_number: string | null
+          etims_qr_code: string | null
+          etims_signature: string | null
+          etims_status: string | null
+          etims_submitted_at: string | null
+          exchange_rate: number | null
+          id: string
+          invoice_date: string
+          invoice_number: string
+          lpo_number: string | null
+          notes: string | null
+          paid_amount: number | null
+          quotation_id: string | null
+          recurring_run_id: string | null
+          status: string | null
+          subtotal: number | null
+          tax_amount: number | null
+          terms_and_conditions: string | null
+          total_amount: number | null
+          updated_at: string | null
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
+        }
+        Insert: {
+          affects_inventory?: boolean | null
+          balance_due?: number | null
+          base_amount?: number | null
+          base_subtotal?: number | null
+          base_tax_amount?: number | null
+          base_total_amount?: number | null
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          currency?: string | null
+          customer_id?: string | null
+          discount_amount?: number | null
+          due_date?: string | null
+          etims_cu_invoice_number?: string | null
+          etims_cu_serial_number?: string | null
+          etims_qr_code?: string | null
+          etims_signature?: string | null
+          etims_status?: string | null
+          etims_submitted_at?: string | null
+          exchange_rate?: number | null
+          id?: string
+          invoice_date?: string
+          invoice_number: string
+          lpo_number?: string | null
+          notes?: string | null
+          paid_amount?: number | null
+          quotation_id?: string | null
+          recurring_run_id?: string | null
+          status?: string | null
+          subtotal?: number | null
+          tax_amount?: number | null
+          terms_and_conditions?: string | null
+          total_amount?: number | null
+          updated_at?: string | null
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+        }
+        Update: {
+          affects_inventory?: boolean | null
+          balance_due?: number | null
+          base_amount?: number | null
+          base_subtotal?: number | null
+          base_tax_amount?: number | null
+          base_total_amount?: number | null
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          currency?: string | null
+          customer_id?: string | null
+          discount_amount?: number | null
+          due_date?: string | null
+          etims_cu_invoice_number?: string | null
+          etims_cu_serial_number?: string | null
+          etims_qr_code?: string | null
+          etims_signature?: string | null
+          etims_status?: string | null
+          etims_submitted_at?: string | null
+          exchange_rate?: number | null
+          id?: string
+          invoice_date?: string
+          invoice_number?: string
+          lpo_number?: string | null
+          notes?: string | null
+          paid_amount?: number | null
+          quotation_id?: string | null
+          recurring_run_id?: string | null
+          status?: string | null
+          subtotal?: number | null
+          tax_amount?: number | null
+          terms_and_conditions?: string | null
+          total_amount?: number | null
+          updated_at?: string | null
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_quotation_id_fkey"
+            columns: ["quotation_id"]
+            isOneToOne: false
+            referencedRelation: "quotations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_voided_by_fkey"
+            columns: ["voided_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_recurring_run_id_fkey"
+            columns: ["recurring_run_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_invoice_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      journal_entries: {
+        Row: {
+          company_id: string | null
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          entry_date: string
+          entry_number: string
+          id: string
+          reverses_entry_id: string | null
+          source_id: string
+          source_number: string | null
+          source_type: string
+          status: string
+        }
+        Insert: {
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          entry_date: string
+          entry_number?: string
+          id?: string
+          reverses_entry_id?: string | null
+          source_id: string
+          source_number?: string | null
+          source_type: string
+          status?: string
+        }
+        Update: {
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          entry_date?: string
+          entry_number?: string
+          id?: string
+          reverses_entry_id?: string | null
+          source_id?: string
+          source_number?: string | null
+          source_type?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "journal_entries_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "journal_entries_reverses_entry_id_fkey"
+            columns: ["reverses_entry_id"]
+            isOneToOne: false
+            referencedRelation: "journal_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "journal_entries_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      journal_lines: {
+        Row: {
+          account_id: string
+          credit: number
+          customer_id: string | null
+          debit: number
+          description: string | null
+          entry_id: string
+          id: string
+          sort_order: number | null
+          supplier_id: string | null
+        }
+        Insert: {
+          account_id: string
+          credit?: number
+          customer_id?: string | null
+          debit?: number
+          description?: string | null
+          entry_id: string
+          id?: string
+          sort_order?: number | null
+          supplier_id?: string | null
+        }
+        Update: {
+          account_id?: string
+          credit?: number
+          customer_id?: string | null
+          debit?: number
+          description?: string | null
+          entry_id?: string
+          id?: string
+          sort_order?: number | null
+          supplier_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "journal_lines_entry_id_fkey"
+            columns: ["entry_id"]
+            isOneToOne: false
+            referencedRelation: "journal_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "journal_lines_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "gl_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "journal_lines_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "journal_lines_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lpo_items: {
+        Row: {
+          created_at: string | null
+          description: string
+          id: string
+          line_total: number
+          lpo_id: string | null
+          notes: string | null
+          product_id: string | null
+          product_name: string | null
+          quantity: number
+          sort_order: number | null
+          tax_amount: number | null
+          tax_rate: number | null
+          unit_of_measure: string | null
+          unit_price: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          description: string
+          id?: string
+          line_total: number
+          lpo_id?: string | null
+          notes?: string | null
+          product_id?: string | null
+          product_name?: string | null
+          quantity: number
+          sort_order?: number | null
+          tax_amount?: number | null
+          tax_rate?: number | null
+          unit_of_measure?: string | null
+          unit_price: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string
+          id?: string
+          line_total?: number
+          lpo_id?: string | null
+          notes?: string | null
+          product_id?: string | null
+          product_name?: string | null
+          quantity?: number
+          sort_order?: number | null
+          tax_amount?: number | null
+          tax_rate?: number | null
+          unit_of_measure?: string | null
+          unit_price?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lpo_items_lpo_id_fkey"
+            columns: ["lpo_id"]
+            isOneToOne: false
+            referencedRelation: "lpos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lpo_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lpos: {
+        Row: {
+          base_amount: number | null
+          base_subtotal: number | null
+          base_tax_amount: number | null
+          base_total_amount: number | null
+          company_id: string | null
+          contact_person: string | null
+          contact_phone: string | null
+          created_at: string | null
+          created_by: string | null
+          currency: string | null
+          delivery_address: string | null
+          delivery_date: string | null
+          exchange_rate: number | null
+          id: string
+          lpo_date: string
+          lpo_number: string
+          notes: string | null
+          status: Database["public"]["Enums"]["lpo_status"] | null
+          subtotal: number | null
+          supplier_id: string | null
+          tax_amount: number | null
+          terms_and_conditions: string | null
+          total_amount: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          base_amount?: number | null
+          base_subtotal?: number | null
+          base_tax_amount?: number | null
+          base_total_amount?: number | null
+          company_id?: string | null
+          contact_person?: string | null
+          contact_phone?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          currency?: string | null
+          delivery_address?: string | null
+          delivery_date?: string | null
+          exchange_rate?: number | null
+          id?: string
+          lpo_date?: string
+          lpo_number: string
+          notes?: string | null
+          status?: Database["public"]["Enums"]["lpo_status"] | null
+          subtotal?: number | null
+          supplier_id?: string | null
+          tax_amount?: number | null
+          terms_and_conditions?: string | null
+          total_amount?: number | null
+          updated_at?: string | null
+        }
+        Update: {
+          base_amount?: number | null
+          base_subtotal?: number | null
+          base_tax_amount?: number | null
+          base_total_amount?: number | null
+          company_id?: string | null
+          contact_person?: string | null
+          contact_phone?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          currency?: string | null
+          delivery_address?: string | null
+          delivery_date?: string | null
+          exchange_rate?: number | null
+          id?: string
+          lpo_date?: string
+          lpo_number?: string
+          notes?: string | null
+          status?: Database["public"]["Enums"]["lpo_status"] | null
+          subtotal?: number | null
+          supplier_id?: string | null
+          tax_amount?: number | null
+          terms_and_conditions?: string | null
+          total_amount?: number | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lpos_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lpos_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lpos_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lpos_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lpos_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mpesa_transactions: {
+        Row: {
+          account_reference: string | null
+          amount: number
+          company_id: string | null
+          created_at: string | null
+          customer_id: string | null
+          id: string
+          imported_by: string | null
+          invoice_id: string | null
+          paybill_number: string | null
+          payer_name: string | null
+          payer_phone: string | null
+          payment_id: string | null
+          processed_at: string | null
+          raw_payload: Json | null
+          receipt_number: string
+          source: string
+          status: string
+          transaction_time: string
+        }
+        Insert: {
+          account_reference?: string | null
+          amount: number
+          company_id?: string | null
+          created_at?: string | null
+          customer_id?: string | null
+          id?: string
+          imported_by?: string | null
+          invoice_id?: string | null
+          paybill_number?: string | null
+          payer_name?: string | null
+          payer_phone?: string | null
+          payment_id?: string | null
+          processed_at?: string | null
+          raw_payload?: Json | null
+          receipt_number: string
+          source?: string
+          status?: string
+          transaction_time: string
+        }
+        Update: {
+          account_reference?: string | null
+          amount?: number
+          company_id?: string | null
+          created_at?: string | null
+          customer_id?: string | null
+          id?: string
+          imported_by?: string | null
+          invoice_id?: string | null
+          paybill_number?: string | null
+          payer_name?: string | null
+          payer_phone?: string | null
+          payment_id?: string | null
+          processed_at?: string | null
+          raw_payload?: Json | null
+          receipt_number?: string
+          source?: string
+          status?: string
+          transaction_time?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mpesa_transactions_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mpesa_transactions_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mpesa_transactions_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mpesa_transactions_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mpesa_transactions_imported_by_fkey"
+            columns: ["imported_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          company_id: string | null
+          created_at: string | null
+          entity_id: string | null
+          entity_type: string | null
+          id: string
+          link: string | null
+          message: string | null
+          read_at: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          company_id?: string | null
+          created_at?: string | null
+          entity_id?: string | null
+          entity_type?: string | null
+          id?: string
+          link?: string | null
+          message?: string | null
+          read_at?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          company_id?: string | null
+          created_at?: string | null
+          entity_id?: string | null
+          entity_type?: string | null
+          id?: string
+          link?: string | null
+          message?: string | null
+          read_at?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_allocations: {
+        Row: {
+          amount_allocated: number
+          created_at: string | null
+          id: string
+          invoice_id: string | null
+          payment_id: string | null
+          realised_fx_gain_loss: number
+        }
+        Insert: {
+          amount_allocated: number
+          created_at?: string | null
+          id?: string
+          invoice_id?: string | null
+          payment_id?: string | null
+          realised_fx_gain_loss?: number
+        }
+        Update: {
+          amount_allocated?: number
+          created_at?: string | null
+          id?: string
+          invoice_id?: string | null
+          payment_id?: string | null
+          realised_fx_gain_loss?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_allocations_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_allocations_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          bank_account_id: string | null
+          base_amount: number | null
+          base_subtotal: number | null
+          base_tax_amount: number | null
+          base_total_amount: number | null
+          company_id: string | null
+          created_at: string | null
+          created_by: string | null
+          currency: string | null
+          customer_id: string | null
+          exchange_rate: number | null
+          id: string
+          invoice_id: string | null
+          notes: string | null
+          payment_date: string | null
+          payment_method: string | null
+          payment_number: string | null
+          reference_number: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          amount: number
+          bank_account_id?: string | null
+          base_amount?: number | null
+          base_subtotal?: number | null
+          base_tax_amount?: number | null
+          base_total_amount?: number | null
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          currency?: string | null
+          customer_id?: string | null
+          exchange_rate?: number | null
+          id?: string
+          invoice_id?: string | null
+          notes?: string | null
+          payment_date?: string | null
+          payment_method?: string | null
+          payment_number?: string | null
+          reference_number?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          amount?: number
+          bank_account_id?: string | null
+          base_amount?: number | null
+          base_subtotal?: number | null
+          base_tax_amount?: number | null
+          base_total_amount?: number | null
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          currency?: string | null
+          customer_id?: string | null
+          exchange_rate?: number | null
+          id?: string
+          invoice_id?: string | null
+          notes?: string | null
+          payment_date?: string | null
+          payment_method?: string | null
+          payment_number?: string | null
+          reference_number?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_bank_account_id_fkey"
+            columns: ["bank_account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_categories: {
+        Row: {
+          company_id: string | null
+          created_at: string | null
+          description: string | null
+          id: string
+          is_active: boolean | null
+          name: string
+          parent_id: string | null
+          sort_order: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          company_id?: string | null
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean | null
+          name: string
+          parent_id?: string | null
+          sort_order?: number | null
+          updated_at?: string | null
+        }
+        Update: {
+          company_id?: string | null
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean | null
+          name?: string
+          parent_id?: string | null
+          sort_order?: number | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_categories_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "product_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          category_id: string | null
+          company_id: string | null
+          cost_price: number | null
+          created_at: string | null
+          description: string | null
+          id: string
+          is_active: boolean | null
+          max_stock_level: number | null
+          maximum_stock_level: number | null
+          min_stock_level: number | null
+          minimum_stock_level: number | null
+          name: string
+          product_code: string | null
+          reorder_point: number | null
+          selling_price: number | null
+          stock_quantity: number | null
+          track_inventory: boolean | null
+          unit_of_measure: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          category_id?: string | null
+          company_id?: string | null
+          cost_price?: number | null
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean | null
+          max_stock_level?: number | null
+          maximum_stock_level?: number | null
+          min_stock_level?: number | null
+          minimum_stock_level?: number | null
+          name: string
+          product_code?: string | null
+          reorder_point?: number | null
+          selling_price?: number | null
+          stock_quantity?: number | null
+          track_inventory?: boolean | null
+          unit_of_measure?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          category_id?: string | null
+          company_id?: string | null
+          cost_price?: number | null
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean | null
+          max_stock_level?: number | null
+          maximum_stock_level?: number | null
+          min_stock_level?: number | null
+          minimum_stock_level?: number | null
+          name?: string
+          product_code?: string | null
+          reorder_point?: number | null
+          selling_price?: number | null
+          stock_quantity?: number | null
+          track_inventory?: boolean | null
+          unit_of_measure?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "products_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "product_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          company_id: string | null
+          created_at: string | null
+          department: string | null
+          email: string
+          full_name: string | null
+          id: string
+          invited_at: string | null
+          invited_by: string | null
+          last_login: string | null
+          phone: string | null
+          position: string | null
+          role: Database["public"]["Enums"]["user_role"] | null
+          selected_company_id: string | null
+          status: Database["public"]["Enums"]["user_status"] | null
+          updated_at: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          company_id?: string | null
+          created_at?: string | null
+          department?: string | null
+          email: string
+          full_name?: string | null
+          id: string
+          invited_at?: string | null
+          invited_by?: string | null
+          last_login?: string | null
+          phone?: string | null
+          position?: string | null
+          role?: Database["public"]["Enums"]["user_role"] | null
+          selected_company_id?: string | null
+          status?: Database["public"]["Enums"]["user_status"] | null
+          updated_at?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          company_id?: string | null
+          created_at?: string | null
+          department?: string | null
+          email?: string
+          full_name?: string | null
+          id?: string
+          invited_at?: string | null
+          invited_by?: string | null
+          last_login?: string | null
+          phone?: string | null
+          position?: string | null
+          role?: Database["public"]["Enums"]["user_role"] | null
+          selected_company_id?: string | null
+          status?: Database["public"]["Enums"]["user_status"] | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_selected_company_id_fkey"
+            columns: ["selected_company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      proforma_invoices: {
+        Row: {
+          base_amount: number | null
+          base_subtotal: number | null
+          base_tax_amount: number | null
+          base_total_amount: number | null
+          company_id: string | null
+          created_at: string | null
+          created_by: string | null
+          currency: string | null
+          customer_id: string | null
+          discount_amount: number | null
+          exchange_rate: number | null
+          id: string
+          notes: string | null
+          proforma_date: string
+          proforma_number: string
+          status: string | null
+          subtotal: number | null
+          tax_amount: number | null
+          terms_and_conditions: string | null
+          total_amount: number | null
+          updated_at: string | null
+          valid_until: string | null
+        }
+        Insert: {
+          base_amount?: number | null
+          base_subtotal?: number | null
+          base_tax_amount?: number | null
+          base_total_amount?: number | null
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          currency?: string | null
+          customer_id?: string | null
+          discount_amount?: number | null
+          exchange_rate?: number | null
+          id?: string
+          notes?: string | null
+          proforma_date?: string
+          proforma_number: string
+          status?: string | null
+          subtotal?: number | null
+          tax_amount?: number | null
+          terms_and_conditions?: string | null
+          total_amount?: number | null
+          updated_at?: string | null
+          valid_until?: string | null
+        }
+        Update: {
+          base_amount?: number | null
+          base_subtotal?: number | null
+          base_tax_amount?: number | null
+          base_total_amount?: number | null
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          currency?: string | null
+          customer_id?: string | null
+          discount_amount?: number | null
+          exchange_rate?: number | null
+          id?: string
+          notes?: string | null
+          proforma_date?: string
+          proforma_number?: string
+          status?: string | null
+          subtotal?: number | null
+          tax_amount?: number | null
+          terms_and_conditions?: string | null
+          total_amount?: number | null
+          updated_at?: string | null
+          valid_until?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "proforma_invoices_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "proforma_invoices_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "proforma_invoices_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "proforma_invoices_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      proforma_items: {
+        Row: {
+          created_at: string | null
+          description: string
+          discount_amount: number | null
+          discount_before_vat: number | null
+          discount_percentage: number | null
+          id: string
+          line_total: number
+          product_id: string | null
+          product_name: string | null
+          proforma_id: string | null
+          proforma_invoice_id: string | null
+          quantity: number
+          sort_order: number | null
+          tax_amount: number | null
+          tax_inclusive: boolean | null
+          tax_percentage: number | null
+          tax_setting_id: string | null
+          unit_of_measure: string | null
+          unit_price: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          description: string
+          discount_amount?: number | null
+          discount_before_vat?: number | null
+          discount_percentage?: number | null
+          id?: string
+          line_total?: number
+          product_id?: string | null
+          product_name?: string | null
+          proforma_id?: string | null
+          proforma_invoice_id?: string | null
+          quantity?: number
+          sort_order?: number | null
+          tax_amount?: number | null
+          tax_inclusive?: boolean | null
+          tax_percentage?: number | null
+          tax_setting_id?: string | null
+          unit_of_measure?: string | null
+          unit_price?: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string
+          discount_amount?: number | null
+          discount_before_vat?: number | null
+          discount_percentage?: number | null
+          id?: string
+          line_total?: number
+          product_id?: string | null
+          product_name?: string | null
+          proforma_id?: string | null
+          proforma_invoice_id?: string | null
+          quantity?: number
+          sort_order?: number | null
+          tax_amount?: number | null
+          tax_inclusive?: boolean | null
+          tax_percentage?: number | null
+          tax_setting_id?: string | null
+          unit_of_measure?: string | null
+          unit_price?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "proforma_items_proforma_id_fkey"
+            columns: ["proforma_id"]
+            isOneToOne: false
+            referencedRelation: "proforma_invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "proforma_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "proforma_items_tax_setting_id_fkey"
+            columns: ["tax_setting_id"]
+            isOneToOne: false
+            referencedRelation: "tax_settings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "proforma_items_proforma_invoice_id_fkey"
+            columns: ["proforma_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "proforma_invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quotation_items: {
+        Row: {
+          created_at: string | null
+          description: string
+          discount_amount: number | null
+          discount_before_vat: number | null
+          discount_percentage: number | null
+          id: string
+          line_total: number
+          product_id: string | null
+          product_name: string | null
+          quantity: number
+          quotation_id: string | null
+          sort_order: number | null
+          tax_amount: number | null
+          tax_inclusive: boolean | null
+          tax_percentage: number | null
+          tax_setting_id: string | null
+          unit_of_measure: string | null
+          unit_price: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          description: string
+          discount_amount?: number | null
+          discount_before_vat?: number | null
+          discount_percentage?: number | null
+          id?: string
+          line_total?: number
+          product_id?: string | null
+          product_name?: string | null
+          quantity?: number
+          quotation_id?: string | null
+          sort_order?: number | null
+          tax_amount?: number | null
+          tax_inclusive?: boolean | null
+          tax_percentage?: number | null
+          tax_setting_id?: string | null
+          unit_of_measure?: string | null
+          unit_price?: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string
+          discount_amount?: number | null
+          discount_before_vat?: number | null
+          discount_percentage?: number | null
+          id?: string
+          line_total?: number
+          product_id?: string | null
+          product_name?: string | null
+          quantity?: number
+          quotation_id?: string | null
+          sort_order?: number | null
+          tax_amount?: number | null
+          tax_inclusive?: boolean | null
+          tax_percentage?: number | null
+          tax_setting_id?: string | null
+          unit_of_measure?: string | null
+          unit_price?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quotation_items_quotation_id_fkey"
+            columns: ["quotation_id"]
+            isOneToOne: false
+            referencedRelation: "quotations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotation_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotation_items_tax_setting_id_fkey"
+            columns: ["tax_setting_id"]
+            isOneToOne: false
+            referencedRelation: "tax_settings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quotation_revisions: {
+        Row: {
+          change_note: string | null
+          company_id: string | null
+          created_at: string | null
+          created_by: string | null
+          currency: string | null
+          data: Json
+          id: string
+          quotation_id: string
+          revision_number: number
+          status: string | null
+          subtotal: number | null
+          tax_amount: number | null
+          total_amount: number | null
+        }
+        Insert: {
+          change_note?: string | null
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          currency?: string | null
+          data: Json
+          id?: string
+          quotation_id: string
+          revision_number: number
+          status?: string | null
+          subtotal?: number | null
+          tax_amount?: number | null
+          total_amount?: number | null
+        }
+        Update: {
+          change_note?: string | null
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          currency?: string | null
+          data?: Json
+          id?: string
+          quotation_id?: string
+          revision_number?: number
+          status?: string | null
+          subtotal?: number | null
+          tax_amount?: number | null
+          total_amount?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quotation_revisions_quotation_id_fkey"
+            columns: ["quotation_id"]
+            isOneToOne: false
+            referencedRelation: "quotations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotation_revisions_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotation_revisions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quotations: {
+        Row: {
+          base_amount: number | null
+          base_subtotal: number | null
+          base_tax_amount: number | null
+          base_total_amount: number | null
+          company_id: string | null
+          competitor: string | null
+          created_at: string | null
+          created_by: string | null
+          currency: string | null
+          customer_id: string | null
+          discount_amount: number | null
+          exchange_rate: number | null
+          id: string
+          notes: string | null
+          quotation_date: string
+          quotation_number: string
+          revision_number: number
+          status: string | null
+          status_changed_at: string | null
+          status_changed_by: string | null
+          status_reason: string | null
+          subtotal: number | null
+          tax_amount: number | null
+          terms_and_conditions: string | null
+          total_amount: number | null
+          updated_at: string | null
+          valid_until: string | null
+        }
+        Insert: {
+          base_amount?: number | null
+          base_subtotal?: number | null
+          base_tax_amount?: number | null
+          base_total_amount?: number | null
+          company_id?: string | null
+          competitor?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          currency?: string | null
+          customer_id?: string | null
+          discount_amount?: number | null
+          exchange_rate?: number | null
+          id?: string
+          notes?: string | null
+          quotation_date?: string
+          quotation_number: string
+          revision_number?: number
+          status?: string | null
+          status_changed_at?: string | null
+          status_changed_by?: string | null
+          status_reason?: string | null
+          subtotal?: number | null
+          tax_amount?: number | null
+          terms_and_conditions?: string | null
+          total_amount?: number | null
+          updated_at?: string | null
+          valid_until?: string | null
+        }
+        Update: {
+          base_amount?: number | null
+          base_subtotal?: number | null
+          base_tax_amount?: number | null
+          base_total_amount?: number | null
+          company_id?: string | null
+          competitor?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          currency?: string | null
+          customer_id?: string | null
+          discount_amount?: number | null
+          exchange_rate?: number | null
+          id?: string
+          notes?: string | null
+          quotation_date?: string
+          quotation_number?: string
+          revision_number?: number
+          status?: string | null
+          status_changed_at?: string | null
+          status_changed_by?: string | null
+          status_reason?: string | null
+          subtotal?: number | null
+          tax_amount?: number | null
+          terms_and_conditions?: string | null
+          total_amount?: number | null
+          updated_at?: string | null
+          valid_until?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quotations_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotations_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotations_status_changed_by_fkey"
+            columns: ["status_changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_invoice_items: {
+        Row: {
+          description: string
+          discount_before_vat: number | null
+          id: string
+          line_total: number
+          product_id: string | null
+          quantity: number
+          recurring_invoice_id: string
+          sort_order: number | null
+          tax_amount: number | null
+          tax_inclusive: boolean | null
+          tax_percentage: number | null
+          unit_price: number
+        }
+        Insert: {
+          description: string
+          discount_before_vat?: number | null
+          id?: string
+          line_total?: number
+          product_id?: string | null
+          quantity?: number
+          recurring_invoice_id: string
+          sort_order?: number | null
+          tax_amount?: number | null
+          tax_inclusive?: boolean | null
+          tax_percentage?: number | null
+          unit_price?: number
+        }
+        Update: {
+          description?: string
+          discount_before_vat?: number | null
+          id?: string
+          line_total?: number
+          product_id?: string | null
+          quantity?: number
+          recurring_invoice_id?: string
+          sort_order?: number | null
+          tax_amount?: number | null
+          tax_inclusive?: boolean | null
+          tax_percentage?: number | null
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_invoice_items_recurring_invoice_id_fkey"
+            columns: ["recurring_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_invoice_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_invoice_runs: {
+        Row: {
+          claimed_at: string | null
+          company_id: string | null
+          completed_at: string | null
+          created_at: string | null
+          created_by: string | null
+          error_message: string | null
+          id: string
+          invoice_id: string | null
+          recurring_invoice_id: string
+          run_date: string
+          status: string
+        }
+        Insert: {
+          claimed_at?: string | null
+          company_id?: string | null
+          completed_at?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          error_message?: string | null
+          id?: string
+          invoice_id?: string | null
+          recurring_invoice_id: string
+          run_date: string
+          status?: string
+        }
+        Update: {
+          claimed_at?: string | null
+          company_id?: string | null
+          completed_at?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          error_message?: string | null
+          id?: string
+          invoice_id?: string | null
+          recurring_invoice_id?: string
+          run_date?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_invoice_runs_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_invoice_runs_recurring_invoice_id_fkey"
+            columns: ["recurring_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_invoice_runs_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_invoice_runs_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_invoices: {
+        Row: {
+          affects_inventory: boolean
+          auto_send: boolean
+          company_id: string | null
+          created_at: string | null
+          created_by: string | null
+          customer_id: string
+          end_date: string | null
+          frequency: string
+          id: string
+          interval_count: number
+          lpo_number: string | null
+          name: string
+          next_run_date: string | null
+          notes: string | null
+          payment_terms_days: number
+          start_date: string
+          status: string
+          subtotal: number | null
+          tax_amount: number | null
+          terms_and_conditions: string | null
+          total_amount: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          affects_inventory?: boolean
+          auto_send?: boolean
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          customer_id: string
+          end_date?: string | null
+          frequency?: string
+          id?: string
+          interval_count?: number
+          lpo_number?: string | null
+          name: string
+          next_run_date?: string | null
+          notes?: string | null
+          payment_terms_days?: number
+          start_date: string
+          status?: string
+          subtotal?: number | null
+          tax_amount?: number | null
+          terms_and_conditions?: string | null
+          total_amount?: number | null
+          updated_at?: string | null
+        }
+        Update: {
+          affects_inventory?: boolean
+          auto_send?: boolean
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          customer_id?: string
+          end_date?: string | null
+          frequency?: string
+          id?: string
+          interval_count?: number
+          lpo_number?: string | null
+          name?: string
+          next_run_date?: string | null
+          notes?: string | null
+          payment_terms_days?: number
+          start_date?: string
+          status?: string
+          subtotal?: number | null
+          tax_amount?: number | null
+          terms_and_conditions?: string | null
+          total_amount?: number | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_invoices_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_invoices_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_invoices_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      remittance_advice: {
+        Row: {
+          advice_date: string | null
+          advice_number: string | null
+          company_id: string | null
+          created_at: string | null
+          created_by: string | null
+          customer_address: string | null
+          customer_id: string | null
+          customer_name: string | null
+          id: string
+          notes: string | null
+          status: string | null
+          total_payment: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          advice_date?: string | null
+          advice_number?: string | null
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          customer_address?: string | null
+          customer_id?: string | null
+          customer_name?: string | null
+          id?: string
+          notes?: string | null
+          status?: string | null
+          total_payment?: number | null
+          updated_at?: string | null
+        }
+        Update: {
+          advice_date?: string | null
+          advice_number?: string | null
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          customer_address?: string | null
+          customer_id?: string | null
+          customer_name?: string | null
+          id?: string
+          notes?: string | null
+          status?: string | null
+          total_payment?: number | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "remittance_advice_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "remittance_advice_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "remittance_advice_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "remittance_advice_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      remittance_advice_items: {
+        Row: {
+          created_at: string | null
+          credit_amount: number | null
+          customer_address: string | null
+          customer_name: string | null
+          document_date: string | null
+          document_number: string | null
+          document_type: string | null
+          id: string
+          invoice_amount: number | null
+          invoice_id: string | null
+          payment_amount: number | null
+          payment_id: string | null
+          remittance_advice_id: string | null
+          sort_order: number | null
+          supplier_address: string | null
+          supplier_name: string | null
+          tax_amount: number | null
+          tax_inclusive: boolean | null
+          tax_percentage: number | null
+          tax_setting_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          credit_amount?: number | null
+          customer_address?: string | null
+          customer_name?: string | null
+          document_date?: string | null
+          document_number?: string | null
+          document_type?: string | null
+          id?: string
+          invoice_amount?: number | null
+          invoice_id?: string | null
+          payment_amount?: number | null
+          payment_id?: string | null
+          remittance_advice_id?: string | null
+          sort_order?: number | null
+          supplier_address?: string | null
+          supplier_name?: string | null
+          tax_amount?: number | null
+          tax_inclusive?: boolean | null
+          tax_percentage?: number | null
+          tax_setting_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          credit_amount?: number | null
+          customer_address?: string | null
+          customer_name?: string | null
+          document_date?: string | null
+          document_number?: string | null
+          document_type?: string | null
+          id?: string
+          invoice_amount?: number | null
+          invoice_id?: string | null
+          payment_amount?: number | null
+          payment_id?: string | null
+          remittance_advice_id?: string | null
+          sort_order?: number | null
+          supplier_address?: string | null
+          supplier_name?: string | null
+          tax_amount?: number | null
+          tax_inclusive?: boolean | null
+          tax_percentage?: number | null
+          tax_setting_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "remittance_advice_items_remittance_advice_id_fkey"
+            columns: ["remittance_advice_id"]
+            isOneToOne: false
+            referencedRelation: "remittance_advice"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "remittance_advice_items_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "remittance_advice_items_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "remittance_advice_items_tax_setting_id_fkey"
+            columns: ["tax_setting_id"]
+            isOneToOne: false
+            referencedRelation: "tax_settings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      remittance_items: {
+        Row: {
+          tax_amount: number | null
+          tax_inclusive: boolean | null
+          tax_percentage: number | null
+          tax_setting_id: string | null
+        }
+        Insert: {
+          tax_amount?: number | null
+          tax_inclusive?: boolean | null
+          tax_percentage?: number | null
+          tax_setting_id?: string | null
+        }
+        Update: {
+          tax_amount?: number | null
+          tax_inclusive?: boolean | null
+          tax_percentage?: number | null
+          tax_setting_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "remittance_items_tax_setting_id_fkey"
+            columns: ["tax_setting_id"]
+            isOneToOne: false
+            referencedRelation: "tax_settings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      role_permissions: {
+        Row: {
+          permission_name: string
+          role: Database["public"]["Enums"]["user_role"]
+        }
+        Insert: {
+          permission_name: string
+          role: Database["public"]["Enums"]["user_role"]
+        }
+        Update: {
+          permission_name?: string
+          role?: Database["public"]["Enums"]["user_role"]
+        }
+        Relationships: []
+      }
+      stock_movements: {
+        Row: {
+          company_id: string
+          cost_per_unit: number | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          movement_date: string | null
+          movement_type: string
+          notes: string | null
+          product_id: string
+          quantity: number
+          reference_id: string | null
+          reference_number: string | null
+          reference_type: string | null
+          unit_cost: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          company_id: string
+          cost_per_unit?: number | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          movement_date?: string | null
+          movement_type: string
+          notes?: string | null
+          product_id: string
+          quantity: number
+          reference_id?: string | null
+          reference_number?: string | null
+          reference_type?: string | null
+          unit_cost?: number | null
+          updated_at?: string | null
+        }
+        Update: {
+          company_id?: string
+          cost_per_unit?: number | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          movement_date?: string | null
+          movement_type?: string
+          notes?: string | null
+          product_id?: string
+          quantity?: number
+          reference_id?: string | null
+          reference_number?: string | null
+          reference_type?: string | null
+          unit_cost?: number | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      supplier_bill_items: {
+        Row: {
+          bill_id: string
+          description: string
+          id: string
+          line_total: number | null
+          lpo_item_id: string | null
+          match_status: string | null
+          ordered_quantity: number | null
+          ordered_unit_price: number | null
+          product_id: string | null
+          quantity: number
+          received_quantity: number | null
+          sort_order: number | null
+          tax_amount: number | null
+          tax_percentage: number | null
+          unit_price: number
+        }
+        Insert: {
+          bill_id: string
+          description: string
+          id?: string
+          line_total?: number | null
+          lpo_item_id?: string | null
+          match_status?: string | null
+          ordered_quantity?: number | null
+          ordered_unit_price?: number | null
+          product_id?: string | null
+          quantity?: number
+          received_quantity?: number | null
+          sort_order?: number | null
+          tax_amount?: number | null
+          tax_percentage?: number | null
+          unit_price?: number
+        }
+        Update: {
+          bill_id?: string
+          description?: string
+          id?: string
+          line_total?: number | null
+          lpo_item_id?: string | null
+          match_status?: string | null
+          ordered_quantity?: number | null
+          ordered_unit_price?: number | null
+          product_id?: string | null
+          quantity?: number
+          received_quantity?: number | null
+          sort_order?: number | null
+          tax_amount?: number | null
+          tax_percentage?: number | null
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_bill_items_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "supplier_bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_bill_items_lpo_item_id_fkey"
+            columns: ["lpo_item_id"]
+            isOneToOne: false
+            referencedRelation: "lpo_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_bill_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      supplier_bills: {
+        Row: {
+          balance_due: number | null
+          base_amount: number | null
+          base_subtotal: number | null
+          base_tax_amount: number | null
+          base_total_amount: number | null
+          bill_date: string
+          bill_number: string
+          company_id: string | null
+          created_at: string | null
+          created_by: string | null
+          currency: string | null
+          due_date: string | null
+          exchange_rate: number | null
+          id: string
+          lpo_id: string | null
+          match_status: string
+          notes: string | null
+          paid_amount: number | null
+          status: string
+          subtotal: number | null
+          supplier_id: string
+          supplier_invoice_number: string | null
+          tax_amount: number | null
+          total_amount: number | null
+          updated_at: string | null
+          variance_note: string | null
+        }
+        Insert: {
+          balance_due?: number | null
+          base_amount?: number | null
+          base_subtotal?: number | null
+          base_tax_amount?: number | null
+          base_total_amount?: number | null
+          bill_date?: string
+          bill_number: string
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          currency?: string | null
+          due_date?: string | null
+          exchange_rate?: number | null
+          id?: string
+          lpo_id?: string | null
+          match_status?: string
+          notes?: string | null
+          paid_amount?: number | null
+          status?: string
+          subtotal?: number | null
+          supplier_id: string
+          supplier_invoice_number?: string | null
+          tax_amount?: number | null
+          total_amount?: number | null
+          updated_at?: string | null
+          variance_note?: string | null
+        }
+        Update: {
+          balance_due?: number | null
+          base_amount?: number | null
+          base_subtotal?: number | null
+          base_tax_amount?: number | null
+          base_total_amount?: number | null
+          bill_date?: string
+          bill_number?: string
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          currency?: string | null
+          due_date?: string | null
+          exchange_rate?: number | null
+          id?: string
+          lpo_id?: string | null
+          match_status?: string
+          notes?: string | null
+          paid_amount?: number | null
+          status?: string
+          subtotal?: number | null
+          supplier_id?: string
+          supplier_invoice_number?: string | null
+          tax_amount?: number | null
+          total_amount?: number | null
+          updated_at?: string | null
+          variance_note?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_bills_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_bills_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_bills_lpo_id_fkey"
+            columns: ["lpo_id"]
+            isOneToOne: false
+            referencedRelation: "lpos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_bills_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      supplier_payment_allocations: {
+        Row: {
+          amount_allocated: number
+          bill_id: string
+          created_at: string | null
+          id: string
+          payment_id: string
+          realised_fx_gain_loss: number
+        }
+        Insert: {
+          amount_allocated: number
+          bill_id: string
+          created_at?: string | null
+          id?: string
+          payment_id: string
+          realised_fx_gain_loss?: number
+        }
+        Update: {
+          amount_allocated?: number
+          bill_id?: string
+          created_at?: string | null
+          id?: string
+          payment_id?: string
+          realised_fx_gain_loss?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_payment_allocations_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "supplier_payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_payment_allocations_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "supplier_bills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      supplier_payments: {
+        Row: {
+          amount: number
+          base_amount: number | null
+          base_subtotal: number | null
+          base_tax_amount: number | null
+          base_total_amount: number | null
+          company_id: string | null
+          created_at: string | null
+          created_by: string | null
+          currency: string | null
+          exchange_rate: number | null
+          id: string
+          notes: string | null
+          payment_date: string
+          payment_method: string | null
+          payment_number: string
+          reference_number: string | null
+          supplier_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          amount: number
+          base_amount?: number | null
+          base_subtotal?: number | null
+          base_tax_amount?: number | null
+          base_total_amount?: number | null
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          currency?: string | null
+          exchange_rate?: number | null
+          id?: string
+          notes?: string | null
+          payment_date?: string
+          payment_method?: string | null
+          payment_number: string
+          reference_number?: string | null
+          supplier_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          amount?: number
+          base_amount?: number | null
+          base_subtotal?: number | null
+          base_tax_amount?: number | null
+          base_total_amount?: number | null
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          currency?: string | null
+          exchange_rate?: number | null
+          id?: string
+          notes?: string | null
+          payment_date?: string
+          payment_method?: string | null
+          payment_number?: string
+          reference_number?: string | null
+          supplier_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_payments_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_payments_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_payments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      suppliers: {
+        Row: {
+          address: string | null
+          bank_account_name: string | null
+          bank_account_number: string | null
+          bank_branch: string | null
+          bank_name: string | null
+          bank_swift_code: string | null
+          category_ids: string[]
+          city: string | null
+          company_id: string | null
+          contacts: Json
+          country: string | null
+          created_at: string | null
+          created_by: string | null
+          email: string | null
+          id: string
+          is_active: boolean | null
+          name: string
+          notes: string | null
+          payment_terms: number | null
+          phone: string | null
+          postal_code: string | null
+          state: string | null
+          supplier_code: string
+          tax_number: string | null
+          tax_pin: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          address?: string | null
+          bank_account_name?: string | null
+          bank_account_number?: string | null
+          bank_branch?: string | null
+          bank_name?: string | null
+          bank_swift_code?: string | null
+          category_ids?: string[]
+          city?: string | null
+          company_id?: string | null
+          contacts?: Json
+          country?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          email?: string | null
+          id?: string
+          is_active?: boolean | null
+          name: string
+          notes?: string | null
+          payment_terms?: number | null
+          phone?: string | null
+          postal_code?: string | null
+          state?: string | null
+          supplier_code: string
+          tax_number?: string | null
+          tax_pin?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          address?: string | null
+          bank_account_name?: string | null
+          bank_account_number?: string | null
+          bank_branch?: string | null
+          bank_name?: string | null
+          bank_swift_code?: string | null
+          category_ids?: string[]
+          city?: string | null
+          company_id?: string | null
+          contacts?: Json
+          country?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          email?: string | null
+          id?: string
+          is_active?: boolean | null
+          name?: string
+          notes?: string | null
+          payment_terms?: number | null
+          phone?: string | null
+          postal_code?: string | null
+          state?: string | null
+          supplier_code?: string
+          tax_number?: string | null
+          tax_pin?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "suppliers_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "suppliers_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tax_settings: {
+        Row: {
+          company_id: string
+          created_at: string | null
+          id: string
+          is_active: boolean | null
+          is_default: boolean | null
+          name: string
+          rate: number
+          updated_at: string | null
+        }
+        Insert: {
+          company_id: string
+          created_at?: string | null
+          id?: string
+          is_active?: boolean | null
+          is_default?: boolean | null
+          name: string
+          rate?: number
+          updated_at?: string | null
+        }
+        Update: {
+          company_id?: string
+          created_at?: string | null
+          id?: string
+          is_active?: boolean | null
+          is_default?: boolean | null
+          name?: string
+          rate?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tax_settings_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      units: {
+        Row: {
+          abbreviation: string | null
+          company_id: string | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          abbreviation?: string | null
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          abbreviation?: string | null
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "units_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "units_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_companies: {
+        Row: {
+          company_id: string
+          created_at: string | null
+          id: string
+          role: Database["public"]["Enums"]["user_role"]
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string | null
+          id?: string
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string | null
+          id?: string
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_companies_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_companies_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_invitations: {
+        Row: {
+          accepted_at: string | null
+          company_id: string | null
+          email: string
+          expires_at: string | null
+          id: string
+          invitation_token: string | null
+          invited_at: string | null
+          invited_by: string | null
+          role: Database["public"]["Enums"]["user_role"] | null
+          status: string | null
+        }
+        Insert: {
+          accepted_at?: string | null
+          company_id?: string | null
+          email: string
+          expires_at?: string | null
+          id?: string
+          invitation_token?: string | null
+          invited_at?: string | null
+          invited_by?: string | null
+          role?: Database["public"]["Enums"]["user_role"] | null
+          status?: string | null
+        }
+        Update: {
+          accepted_at?: string | null
+          company_id?: string | null
+          email?: string
+          expires_at?: string | null
+          id?: string
+          invitation_token?: string | null
+          invited_at?: string | null
+          invited_by?: string | null
+          role?: Database["public"]["Enums"]["user_role"] | null
+          status?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_invitations_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_permissions: {
+        Row: {
+          company_id: string | null
+          granted: boolean | null
+          granted_at: string | null
+          granted_by: string | null
+          id: string
+          permission_name: string
+          user_id: string | null
+        }
+        Insert: {
+          company_id?: string | null
+          granted?: boolean | null
+          granted_at?: string | null
+          granted_by?: string | null
+          id?: string
+          permission_name: string
+          user_id?: string | null
+        }
+        Update: {
+          company_id?: string | null
+          granted?: boolean | null
+          granted_at?: string | null
+          granted_by?: string | null
+          id?: string
+          permission_name?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_permissions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_permissions_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      users: {
+        Row: {
+          company_id: string | null
+          created_at: string | null
+          email: string
+          full_name: string
+          id: string
+          is_active: boolean | null
+          last_login: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          updated_at: string | null
+        }
+        Insert: {
+          company_id?: string | null
+          created_at?: string | null
+          email: string
+          full_name: string
+          id?: string
+          is_active?: boolean | null
+          last_login?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string | null
+        }
+        Update: {
+          company_id?: string | null
+          created_at?: string | null
+          email?: string
+          full_name?: string
+          id?: string
+          is_active?: boolean | null
+          last_login?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "users_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      active_share_link: {
+        Args: {
+          p_token: string
+        }
+        Returns: string
+      }
+      allocate_payment: {
+        Args: {
+          p_payment_id: string
+          p_allocations: Json
+        }
+        Returns: Json
+      }
+      apply_payment_allocation: {
+        Args: {
+          p_payment_id: string
+          p_invoice_id: string
+          p_amount: number
+        }
+        Returns: undefined
+      }
+      audit_ignored_columns: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      audit_view_permission: {
+        Args: {
+          p_entity_type: string
+        }
+        Returns: string
+      }
+      can_manage_user: {
+        Args: {
+          p_user_id: string
+          p_company_id: string
+        }
+        Returns: boolean
+      }
+      company_role: {
+        Args: {
+          p_company_id: string
+        }
+        Returns: Database["public"]["Enums"]["user_role"]
+      }
+      complete_bank_reconciliation: {
+        Args: {
+          p_bank_account_id: string
+          p_statement_date: string
+          p_statement_balance: number
+          p_notes?: string
+        }
+        Returns: Json
+      }
+      confirm_user_email: {
+        Args: {
+          user_email: string
+        }
+        Returns: boolean
+      }
+      create_admin_with_bypass: {
+        Args: {
+          admin_email: string
+          admin_password?: string
+          admin_name?: string
+        }
+        Returns: Json
+      }
+      credit_note_is_posted: {
+        Args: {
+          p_status: string
+          p_applied_amount: number
+        }
+        Returns: boolean
+      }
+      exchange_rate_on: {
+        Args: {
+          p_company_id: string
+          p_currency: string
+          p_date: string
+        }
+        Returns: number
+      }
+      expire_quotations: {
+        Args: {
+          p_company_id: string
+        }
+        Returns: number
+      }
+      force_confirm_admin_email: {
+        Args: {
+          admin_email: string
+        }
+        Returns: Json
+      }
+      generate_credit_note_number: {
+        Args: {
+          company_uuid: string
+        }
+        Returns: string
+      }
+      generate_delivery_number: {
+        Args: {
+          company_uuid: string
+        }
+        Returns: string
+      }
+      generate_grn_number: {
+        Args: {
+          company_uuid: string
+        }
+        Returns: string
+      }
+      generate_invoice_number: {
+        Args: {
+          company_uuid: string
+        }
+        Returns: string
+      }
+      generate_lpo_number: {
+        Args: {
+          company_uuid: string
+        }
+        Returns: string
+      }
+      generate_payment_number: {
+        Args: {
+          company_uuid: string
+        }
+        Returns: string
+      }
+      generate_proforma_number: {
+        Args: {
+          company_uuid: string
+        }
+        Returns: string
+      }
+      generate_quotation_number: {
+        Args: {
+          company_uuid: string
+        }
+        Returns: string
+      }
+      generate_remittance_number: {
+        Args: {
+          company_uuid: string
+        }
+        Returns: string
+      }
+      generate_supplier_bill_number: {
+        Args: {
+          company_uuid: string
+        }
+        Returns: string
+      }
+      generate_supplier_payment_number: {
+        Args: {
+          company_uuid: string
+        }
+        Returns: string
+      }
+      get_shared_document: {
+        Args: {
+          p_token: string
+        }
+        Returns: Json
+      }
+      get_user_permissions: {
+        Args: {
+          user_uuid: string
+        }
+        Returns: {
+            permission_name: string | null
+            granted: boolean | null
+          }[]
+      }
+      gl_account: {
+        Args: {
+          p_company_id: string
+          p_mapping_type: string
+          p_mapping_key: string
+          p_control: string
+        }
+        Returns: string
+      }
+      gl_account_balances: {
+        Args: {
+          p_company_id: string
+          p_from: string
+          p_to: string
+        }
+        Returns: {
+            account_id: string | null
+            code: string | null
+            name: string | null
+            account_type: string | null
+            is_active: boolean | null
+            opening_balance: number | null
+            debit: number | null
+            credit: number | null
+          }[]
+      }
+      gl_post: {
+        Args: {
+          p_company_id: string
+          p_entry_date: string
+          p_source_type: string
+          p_source_id: string
+          p_source_number: string
+          p_description: string
+          p_lines: Json
+        }
+        Returns: string
+      }
+      gl_post_credit_note: {
+        Args: {
+          p_credit_note_id: string
+        }
+        Returns: string
+      }
+      gl_post_invoice: {
+        Args: {
+          p_invoice_id: string
+        }
+        Returns: string
+      }
+      gl_post_payment: {
+        Args: {
+          p_payment_id: string
+        }
+        Returns: string
+      }
+      gl_post_payment_allocation: {
+        Args: {
+          p_allocation_id: string
+        }
+        Returns: string
+      }
+      gl_post_stock_movement: {
+        Args: {
+          p_movement_id: string
+        }
+        Returns: string
+      }
+      gl_post_supplier_bill: {
+        Args: {
+          p_bill_id: string
+        }
+        Returns: string
+      }
+      gl_post_supplier_payment: {
+        Args: {
+          p_payment_id: string
+        }
+        Returns: string
+      }
+      gl_post_supplier_payment_allocation: {
+        Args: {
+          p_allocation_id: string
+        }
+        Returns: string
+      }
+      gl_rate_key: {
+        Args: {
+          p_rate: number
+        }
+        Returns: string
+      }
+      gl_reverse: {
+        Args: {
+          p_source_type: string
+          p_source_id: string
+          p_entry_date: string
+          p_description: string
+        }
+        Returns: string
+      }
+      gl_seed_chart: {
+        Args: {
+          p_company_id: string
+        }
+        Returns: undefined
+      }
+      gl_subledger_balances: {
+        Args: {
+          p_company_id: string
+          p_account_id: string
+        }
+        Returns: {
+            customer_id: string | null
+            supplier_id: string | null
+            balance: number | null
+          }[]
+      }
+      has_any_permission: {
+        Args: {
+          p_permissions: string[]
+          p_company_id: string
+        }
+        Returns: boolean
+      }
+      has_permission: {
+        Args: {
+          p_permission: string
+          p_company_id: string
+        }
+        Returns: boolean
+      }
+      invoice_is_posted: {
+        Args: {
+          p_status: string
+          p_paid_amount: number
+        }
+        Returns: boolean
+      }
+      payment_unallocated_amount: {
+        Args: {
+          p_payment_id: string
+        }
+        Returns: number
+      }
+      posted_document_changed: {
+        Args: {
+          p_table: string
+          p_old: Json
+          p_new: Json
+        }
+        Returns: boolean
+      }
+      posted_document_mutable_columns: {
+        Args: {
+          p_table: string
+        }
+        Returns: string[]
+      }
+      record_payment_with_allocation: {
+        Args: {
+          p_company_id: string
+          p_customer_id: string
+          p_invoice_id: string
+          p_payment_number: string
+          p_payment_date: string
+          p_amount: number
+          p_payment_method: string
+          p_reference_number: string
+          p_notes: string
+          p_allocations?: Json
+          p_currency?: string
+          p_exchange_rate?: number
+        }
+        Returns: Json
+      }
+      respond_to_shared_quotation: {
+        Args: {
+          p_token: string
+          p_response: string
+          p_name: string
+          p_comment?: string
+        }
+        Returns: Json
+      }
+      revise_quotation: {
+        Args: {
+          p_quotation_id: string
+          p_change_note?: string
+        }
+        Returns: number
+      }
+      share_link_permission: {
+        Args: {
+          p_document_type: string
+          p_action: string
+        }
+        Returns: string
+      }
+      shared_document_fields: {
+        Args: {
+          p_row: Json
+          p_fields: string[]
+        }
+        Returns: Json
+      }
+      stock_movement_is_sales_side: {
+        Args: {
+          p_reference_type: string
+          p_reference_id: string
+        }
+        Returns: boolean
+      }
+      update_product_stock: {
+        Args: {
+          product_uuid: string
+          movement_type: string
+          quantity: number
+        }
+        Returns: undefined
+      }
+      void_invoice: {
+        Args: {
+          p_invoice_id: string
+          p_reason: string
+        }
+        Returns: Json
+      }
     }
     Enums: {
-      [_ in never]: never
+      document_status: "draft" | "pending" | "approved" | "sent" | "paid" | "partial" | "overdue" | "cancelled" | "expired" | "accepted" | "rejected"
+      document_type: "quotation" | "invoice" | "proforma" | "delivery_note" | "credit_note" | "debit_note"
+      lpo_status: "draft" | "sent" | "approved" | "received" | "cancelled" | "partially_received"
+      payment_method: "cash" | "cheque" | "bank_transfer" | "mobile_money" | "credit_card" | "other"
+      user_role: "admin" | "accountant" | "stock_manager" | "user"
+      user_status: "active" | "inactive" | "pending"
     }
     CompositeTypes: {
       [_ in never]: never
     }
   }
 }
-
 type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">
 
 type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">]
@@ -150,6 +4983,13 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      document_status: ["draft", "pending", "approved", "sent", "paid", "partial", "overdue", "cancelled", "expired", "accepted", "rejected"],
+      document_type: ["quotation", "invoice", "proforma", "delivery_note", "credit_note", "debit_note"],
+      lpo_status: ["draft", "sent", "approved", "received", "cancelled", "partially_received"],
+      payment_method: ["cash", "cheque", "bank_transfer", "mobile_money", "credit_card", "other"],
+      user_role: ["admin", "accountant", "stock_manager", "user"],
+      user_status: ["active", "inactive", "pending"],
+    },
   },
 } as const
@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { BookOpen, Edit, Trash2, Plus, Search } from 'lucide-react';
+import { useBOQRates, useDeleteBOQRate, type BOQRate } from '@/hooks/useDatabase';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { BOQRateModal } from '@/components/boq/BOQRateModal';
+import { searchBoqRates } from '@/utils/boqRateLibrary';
+import { toast } from 'sonner';
+
+export default function BOQRateLibrary() {
+  const { currentCompany } = useCurrentCompany();
+  const { data: rates = [], isLoading } = useBOQRates(currentCompany?.id);
+  const deleteRate = useDeleteBOQRate();
+
+  const [search, setSearch] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState<BOQRate | null>(null);
+
+  const allTags = useMemo(
+    () => Array.from(new Set(rates.flatMap(r => r.tags || []))).sort(),
+    [rates]
+  );
+
+  // Inactive rates stay visible here so they can be re-enabled
+  const filtered = useMemo(() => {
+    const matches = search.trim() ? searchBoqRates(rates.map(r => ({ ...r, is_active: true })), search) : rates;
+    return tagFilter ? matches.filter(r => (r.tags || []).includes(tagFilter)) : matches;
+  }, [rates, search, tagFilter]);
+
+  const formatCurrency = (amount: number) => new Intl.NumberFormat('en-KE', { style: 'currency', currency: currentCompany?.currency || 'KES' }).format(Number(amount || 0));
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this library rate?')) return;
+    try {
+      await deleteRate.mutateAsync(id);
+      toast.success('Library rate deleted');
+    } catch (err) {
+      console.error(err);
+      toast.error('Failed to delete library rate');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Rate Library</h1>
+          <p className="text-muted-foreground">Standard rates offered when building BOQs</p>
+        </div>
+        <div>
+          <Button onClick={() => setOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" /> New Rate
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><BookOpen className="h-5 w-5" /> Rates</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input placeholder="Search by description, tag, unit or product..." value={search} onChange={e => setSearch(e.target.value)} className="pl-10" />
+          </div>
+          {allTags.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {allTags.map(tag => (
+                <Badge
+                  key={tag}
+                  variant={tagFilter === tag ? 'default' : 'outline'}
+                  className="cursor-pointer"
+                  onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                >
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Description</TableHead>
+                <TableHead>Unit</TableHead>
+                <TableHead className="text-right">Default Rate</TableHead>
+                <TableHead>Product</TableHead>
+                <TableHead>Tags</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow><TableCell colSpan={6}>Loading...</TableCell></TableRow>
+              ) : filtered.length === 0 ? (
+                <TableRow><TableCell colSpan={6}>No library rates found</TableCell></TableRow>
+              ) : filtered.map(r => (
+                <TableRow key={r.id} className={r.is_active === false ? 'opacity-60' : ''}>
+                  <TableCell>
+                    {r.description}
+                    {r.is_active === false && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+                  </TableCell>
+                  <TableCell>{r.units?.abbreviation || r.units?.name || '-'}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(r.default_rate)}</TableCell>
+                  <TableCell>{r.products?.name || '-'}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {(r.tags || []).map((t: string) => <Badge key={t} variant="secondary">{t}</Badge>)}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Button size="icon" variant="ghost" onClick={() => setEditing(r)} title="Edit"><Edit className="h-4 w-4" /></Button>
+                      <Button size="icon" variant="destructive" onClick={() => handleDelete(r.id)} title="Delete"><Trash2 className="h-4 w-4" /></Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <BOQRateModal open={open} onOpenChange={setOpen} />
+      <BOQRateModal open={!!editing} onOpenChange={(o) => { if (!o) setEditing(null); }} rate={editing} />
+    </div>
+  );
+}
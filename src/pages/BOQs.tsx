@@ -1,23 +1,61 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Layers, Plus, Eye, Download, Trash2 } from 'lucide-react';
+import { Layers, Plus, Eye, Download, Trash2, ArrowRightLeft, Edit, History, FileUp, Lock, Unlock, AlertTriangle, ClipboardCheck } from 'lucide-react';
 import { CreateBOQModal } from '@/components/boq/CreateBOQModal';
+import { ConvertBOQModal } from '@/components/boq/ConvertBOQModal';
+import { BOQRevisionsModal } from '@/components/boq/BOQRevisionsModal';
+import { ImportBOQModal } from '@/components/boq/ImportBOQModal';
+import { BOQValuationsModal } from '@/components/boq/BOQValuationsModal';
+import { Badge } from '@/components/ui/badge';
 import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from '@/components/ui/table';
 import { useCurrentCompany } from '@/contexts/CompanyContext';
-import { useBOQs, useDeleteBOQ, useUnits } from '@/hooks/useDatabase';
+import { useBOQRates, useBOQs, useDeleteBOQ, useUnits, useUpdateBOQStatus, type BOQ } from '@/hooks/useDatabase';
 import { downloadBOQPDF } from '@/utils/boqPdfGenerator';
+import { revisionLabel } from '@/utils/boqRevisions';
+import { BOQ_ITEM_KIND_LABELS, boqItemKind, computeBoqTotals } from '@/utils/boqTotals';
+import { findRateDrift } from '@/utils/boqRateLibrary';
 import { toast } from 'sonner';
 
 export default function BOQs() {
   const [open, setOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
   const { currentCompany } = useCurrentCompany();
   const companyId = currentCompany?.id;
   const { data: boqs = [], isLoading } = useBOQs(companyId);
   const deleteBOQ = useDeleteBOQ();
+  const updateStatus = useUpdateBOQStatus();
   const { data: units = [] } = useUnits(companyId);
+  const { data: libraryRates = [] } = useBOQRates(companyId);
 
   const [viewing, setViewing] = useState<any | null>(null);
+  const [converting, setConverting] = useState<BOQ | null>(null);
+  const [editing, setEditing] = useState<BOQ | null>(null);
+  const [historyFor, setHistoryFor] = useState<BOQ | null>(null);
+  const [valuing, setValuing] = useState<BOQ | null>(null);
+  const viewingTotals = viewing ? computeBoqTotals(viewing.data || { sections: [] }) : null;
+
+  // Draft BOQs with items priced differently from the current rate library
+  const driftCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    boqs.forEach(b => {
+      if ((b.status || 'draft') !== 'draft') return;
+      const n = findRateDrift(b.data, libraryRates).length;
+      if (n > 0) counts[b.id] = n;
+    });
+    return counts;
+  }, [boqs, libraryRates]);
+
+  const handleToggleStatus = async (boq: BOQ) => {
+    const status = (boq.status || 'draft') === 'draft' ? 'issued' : 'draft';
+    try {
+      await updateStatus.mutateAsync({ id: boq.id, status });
+      toast.success(status === 'issued' ? `BOQ ${boq.number} issued` : `BOQ ${boq.number} reopened as draft`);
+    } catch (err) {
+      console.error('Status update failed', err);
+      toast.error('Failed to update BOQ status');
+    }
+  };
 
   const handleDownload = async (boq: any) => {
     try {
@@ -55,9 +93,14 @@ export default function BOQs() {
           <h1 className="text-3xl font-bold text-foreground">Bill of Quantities</h1>
           <p className="text-muted-foreground">Create, store and download BOQs as branded PDFs.</p>
         </div>
-        <Button variant="default" size="lg" onClick={() => setOpen(true)}>
-          <Plus className="h-4 w-4 mr-2" /> New BOQ
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="lg" onClick={() => setImportOpen(true)}>
+            <FileUp className="h-4 w-4 mr-2" /> Import
+          </Button>
+          <Button variant="default" size="lg" onClick={() => setOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" /> New BOQ
+          </Button>
+        </div>
       </div>
 
       <Card>
@@ -76,21 +119,41 @@ export default function BOQs() {
                 <TableHead>Client</TableHead>
                 <TableHead>Project</TableHead>
                 <TableHead className="text-right">Total</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Converted To</TableHead>
                 <TableHead>Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {isLoading ? (
-                <TableRow><TableCell colSpan={6}>Loading...</TableCell></TableRow>
+                <TableRow><TableCell colSpan={8}>Loading...</TableCell></TableRow>
               ) : boqs.length === 0 ? (
-                <TableRow><TableCell colSpan={6}>No BOQs found</TableCell></TableRow>
+                <TableRow><TableCell colSpan={8}>No BOQs found</TableCell></TableRow>
               ) : boqs.map((b: any) => (
                 <TableRow key={b.id}>
-                  <TableCell>{b.number}</TableCell>
+                  <TableCell>
+                    {b.number}
+                    <span className="ml-2 text-xs text-muted-foreground">{revisionLabel(b.current_revision || 1)}</span>
+                  </TableCell>
                   <TableCell>{new Date(b.boq_date).toLocaleDateString()}</TableCell>
                   <TableCell>{b.client_name}</TableCell>
                   <TableCell>{b.project_title || '-'}</TableCell>
                   <TableCell className="text-right">{new Intl.NumberFormat('en-KE', { style: 'currency', currency: b.currency || 'KES' }).format(Number(b.total_amount || b.subtotal || 0))}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={(b.status || 'draft') === 'draft' ? 'secondary' : 'default'} className="capitalize">{b.status || 'draft'}</Badge>
+                      {driftCounts[b.id] && (
+                        <span className="flex items-center gap-1 text-xs text-warning" title="Items priced differently from the rate library">
+                          <AlertTriangle className="h-3 w-3" /> {driftCounts[b.id]}
+                        </span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {b.converted_to_number ? (
+                      <Badge variant="outline" className="capitalize">{b.converted_to_type} {b.converted_to_number}</Badge>
+                    ) : '-'}
+                  </TableCell>
                   <TableCell>
                     <div className="flex items-center gap-2">
                       <Button size="icon" variant="ghost" onClick={() => setViewing(b)} title="View">
@@ -99,6 +162,21 @@ export default function BOQs() {
                       <Button size="icon" variant="ghost" onClick={() => handleDownload(b)} title="Download">
                         <Download className="h-4 w-4" />
                       </Button>
+                      <Button size="icon" variant="ghost" onClick={() => setEditing(b)} title="Edit">
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => setHistoryFor(b)} title="Revisions">
+                        <History className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => handleToggleStatus(b)} title={(b.status || 'draft') === 'draft' ? 'Mark as issued' : 'Reopen as draft'}>
+                        {(b.status || 'draft') === 'draft' ? <Lock className="h-4 w-4" /> : <Unlock className="h-4 w-4" />}
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => setValuing(b)} title="Valuations">
+                        <ClipboardCheck className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => setConverting(b)} title="Convert">
+                        <ArrowRightLeft className="h-4 w-4" />
+                      </Button>
                       <Button size="icon" variant="destructive" onClick={() => handleDelete(b.id)} title="Delete">
                         <Trash2 className="h-4 w-4" />
                       </Button>
@@ -112,12 +190,17 @@ export default function BOQs() {
       </Card>
 
       <CreateBOQModal open={open} onOpenChange={setOpen} />
+      <ImportBOQModal open={importOpen} onOpenChange={setImportOpen} />
+      <CreateBOQModal open={!!editing} onOpenChange={(o) => { if (!o) setEditing(null); }} boq={editing} />
+      <BOQRevisionsModal open={!!historyFor} onOpenChange={(o) => { if (!o) setHistoryFor(null); }} boq={historyFor} />
+      <BOQValuationsModal open={!!valuing} onOpenChange={(o) => { if (!o) setValuing(null); }} boq={valuing} />
+      <ConvertBOQModal open={!!converting} onOpenChange={(o) => { if (!o) setConverting(null); }} boq={converting} />
 
       {viewing && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
           <div className="bg-white rounded-lg max-w-3xl w-full p-6">
             <div className="flex items-start justify-between">
-              <h2 className="text-xl font-semibold">BOQ {viewing.number}</h2>
+              <h2 className="text-xl font-semibold">BOQ {viewing.number} <span className="text-sm font-normal text-muted-foreground">{revisionLabel(viewing.current_revision || 1)}</span></h2>
               <div className="flex items-center gap-2">
                 <Button variant="ghost" onClick={() => { setViewing(null); }}>Close</Button>
                 <Button onClick={() => handleDownload(viewing)}>
@@ -131,6 +214,9 @@ export default function BOQs() {
               <div><strong>Client:</strong> {viewing.client_name} {viewing.client_email ? `(${viewing.client_email})` : ''}</div>
               <div><strong>Project:</strong> {viewing.project_title || '-'}</div>
               <div><strong>Contractor:</strong> {viewing.contractor || '-'}</div>
+              {viewing.converted_to_number && (
+                <div><strong>Converted To:</strong> <span className="capitalize">{viewing.converted_to_type}</span> {viewing.converted_to_number} on {new Date(viewing.converted_at).toLocaleDateString()}</div>
+              )}
               <div className="pt-2"><strong>Notes:</strong><div className="whitespace-pre-wrap">{viewing.data?.notes || '-'}</div></div>
 
               <div className="pt-4">
@@ -147,8 +233,11 @@ export default function BOQs() {
                         <tbody>
                           {sec.items.map((it: any, i: number) => (
                             <tr key={i}>
-                              <td>{it.description}</td>
-                              <td>{it.quantity}</td>
+                              <td>
+                                {it.description}
+                                {boqItemKind(it) !== 'measured' && <Badge variant="outline" className="ml-2">{BOQ_ITEM_KIND_LABELS[boqItemKind(it)]}</Badge>}
+                              </td>
+                              <td>{boqItemKind(it) === 'percentage' ? `${it.percentage}%` : it.quantity}</td>
                               <td>{
                                 // Prefer unit abbreviation from units table when unit_id is present
                                 (() => {
@@ -163,9 +252,13 @@ export default function BOQs() {
                                 })()
                               }</td>
                               <td>{new Intl.NumberFormat('en-KE', { style: 'currency', currency: viewing.currency || 'KES' }).format(Number(it.rate || 0))}</td>
-                              <td>{new Intl.NumberFormat('en-KE', { style: 'currency', currency: viewing.currency || 'KES' }).format(Number((it.quantity || 0) * (it.rate || 0)))}</td>
+                              <td>{new Intl.NumberFormat('en-KE', { style: 'currency', currency: viewing.currency || 'KES' }).format(viewingTotals.sections[idx].itemAmounts[i])}</td>
                             </tr>
                           ))}
+                          <tr className="font-medium border-t">
+                            <td colSpan={4}>Bill total</td>
+                            <td>{new Intl.NumberFormat('en-KE', { style: 'currency', currency: viewing.currency || 'KES' }).format(viewingTotals.sections[idx].subtotal)}</td>
+                          </tr>
                         </tbody>
                       </table>
                     </div>
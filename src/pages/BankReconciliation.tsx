@@ -0,0 +1,805 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  AlertTriangle,
+  CheckCircle,
+  Download,
+  Edit,
+  EyeOff,
+  FileUp,
+  Landmark,
+  Link2,
+  Loader2,
+  Plus,
+  Search,
+  Undo2,
+  Unlink,
+  Wand2
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { usePermission } from '@/hooks/usePermissions';
+import { usePayments } from '@/hooks/useDatabase';
+import { useInvoicesFixed } from '@/hooks/useInvoicesFixed';
+import {
+  useAutoMatchStatementLines,
+  useBankAccounts,
+  useBankReconciliations,
+  useBankStatementLines,
+  useBankStatements,
+  useMatchStatementLine,
+  useSetStatementLineIgnored,
+  useUnmatchStatementLine,
+  type BankAccount,
+  type BankStatementLine,
+} from '@/hooks/useBankReconciliation';
+import { buildReconciliationReport, isBankedMethod, type SuggestableInvoice } from '@/utils/bankReconciliation';
+import { exportBankReconciliationToCSV } from '@/utils/csvExporter';
+import { BankAccountModal } from '@/components/bank-reconciliation/BankAccountModal';
+import { ImportStatementModal } from '@/components/bank-reconciliation/ImportStatementModal';
+import { MatchStatementLineModal } from '@/components/bank-reconciliation/MatchStatementLineModal';
+import { ReconcileAccountModal } from '@/components/bank-reconciliation/ReconcileAccountModal';
+import { RecordPaymentModal } from '@/components/payments/RecordPaymentModal';
+
+type LineFilter = 'open' | 'all' | 'unmatched' | 'matched' | 'ignored' | 'reconciled';
+
+function getStatusColor(line: BankStatementLine) {
+  if (line.reconciliation_id) return 'bg-primary-light text-primary border-primary/20';
+  switch (line.status) {
+    case 'matched':
+      return 'bg-success-light text-success border-success/20';
+    case 'unmatched':
+      return Number(line.amount) > 0
+        ? 'bg-warning-light text-warning border-warning/20'
+        : 'bg-muted text-muted-foreground border-muted-foreground/20';
+    default:
+      return 'bg-muted text-muted-foreground border-muted-foreground/20';
+  }
+}
+
+const formatDate = (date?: string | null) => date ? new Date(date).toLocaleDateString() : '-';
+
+const todayString = () => new Date().toISOString().split('T')[0];
+
+export default function BankReconciliation() {
+  const [selectedAccountId, setSelectedAccountId] = useState<string>('');
+  const [lineFilter, setLineFilter] = useState<LineFilter>('open');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showAccountModal, setShowAccountModal] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<BankAccount | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [showReconcile, setShowReconcile] = useState(false);
+  const [matchingLine, setMatchingLine] = useState<BankStatementLine | null>(null);
+  const [recording, setRecording] = useState<{ line: BankStatementLine; invoice: SuggestableInvoice | null } | null>(null);
+  const [reportDate, setReportDate] = useState(todayString());
+  const [reportBalance, setReportBalance] = useState('');
+
+  const { currentCompany } = useCurrentCompany();
+  const companyId = currentCompany?.id;
+  const canRecord = usePermission('payment.record');
+  const { data: accounts = [], isLoading: loadingAccounts, error } = useBankAccounts(companyId);
+  const { data: lines = [], isLoading: loadingLines } = useBankStatementLines(companyId);
+  const { data: statements = [] } = useBankStatements(companyId);
+  const { data: reconciliations = [] } = useBankReconciliations(companyId);
+  const { data: payments = [] } = usePayments(companyId);
+  const { data: invoices = [] } = useInvoicesFixed(companyId);
+  const autoMatch = useAutoMatchStatementLines();
+  const matchLine = useMatchStatementLine();
+  const unmatchLine = useUnmatchStatementLine();
+  const setIgnored = useSetStatementLineIgnored();
+
+  const account = accounts.find(a => a.id === selectedAccountId) || accounts.find(a => a.is_active) || accounts[0];
+  const currency = account?.currency || 'KES';
+  const formatCurrency = (amount: number) => new Intl.NumberFormat('en-KE', { style: 'currency', currency }).format(Number(amount || 0));
+
+  const accountLines = useMemo(() => lines.filter(l => l.bank_account_id === account?.id), [lines, account?.id]);
+  const accountStatements = statements.filter(s => s.bank_account_id === account?.id);
+  const accountReconciliations = reconciliations.filter(r => r.bank_account_id === account?.id);
+  const latestStatement = accountStatements[0];
+
+  // Receipts that can still clear through a statement line: banked methods, not matched anywhere yet
+  const availablePayments = useMemo(() => {
+    const cleared = new Set(lines.map(l => l.payment_id).filter(Boolean));
+    return payments.filter(p => isBankedMethod(p.payment_method) && Number(p.amount) > 0 && !cleared.has(p.id));
+  }, [payments, lines]);
+
+  const unmatchedCredits = accountLines.filter(l => l.status === 'unmatched' && Number(l.amount) > 0);
+  const matchedLines = accountLines.filter(l => l.status === 'matched');
+
+  const filteredLines = accountLines.filter(line => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = !term ||
+      line.description?.toLowerCase().includes(term) ||
+      line.reference?.toLowerCase().includes(term) ||
+      line.payments?.payment_number?.toLowerCase().includes(term) ||
+      String(line.amount).includes(term);
+    const matchesFilter =
+      lineFilter === 'all' ? true :
+      lineFilter === 'open' ? !line.reconciliation_id :
+      lineFilter === 'reconciled' ? !!line.reconciliation_id :
+      line.status === lineFilter && !line.reconciliation_id;
+    return matchesSearch && matchesFilter;
+  });
+
+  const statementBalanceForReport = reportBalance !== ''
+    ? Number(reportBalance)
+    : accountStatements.find(s => s.period_end && s.period_end <= reportDate && s.closing_balance !== null && s.closing_balance !== undefined)?.closing_balance ?? null;
+  const report = account ? buildReconciliationReport(account, accountLines, reportDate, statementBalanceForReport) : null;
+  const firstLineDate = accountLines.length > 0 ? accountLines[accountLines.length - 1].transaction_date : null;
+  // Company-wide: a receipt with no cleared line could belong to any account
+  const receiptsNotOnStatement = firstLineDate
+    ? availablePayments.filter(p => p.payment_date >= firstLineDate && p.payment_date <= reportDate)
+    : [];
+
+  const handleAutoMatch = async () => {
+    if (!account) return;
+    try {
+      const result = await autoMatch.mutateAsync({ lines: accountLines, payments: availablePayments });
+      if (result.matched > 0) {
+        toast.success(`Matched ${result.matched} statement credit${result.matched === 1 ? '' : 's'} to recorded payments`);
+      } else {
+        toast.info('No confident matches found. Match the remaining credits by hand.');
+      }
+    } catch (err) {
+      console.error('Error auto-matching statement lines:', err);
+      toast.error((err as { message?: string })?.message || 'Failed to auto-match statement lines');
+    }
+  };
+
+  const handleUnmatch = async (line: BankStatementLine) => {
+    try {
+      await unmatchLine.mutateAsync(line);
+      toast.success('Match removed');
+    } catch (err) {
+      console.error('Error removing match:', err);
+      toast.error((err as { message?: string })?.message || 'Failed to remove match');
+    }
+  };
+
+  const handleIgnore = async (line: BankStatementLine, ignored: boolean) => {
+    try {
+      await setIgnored.mutateAsync({ line, ignored });
+    } catch (err) {
+      console.error('Error updating statement line:', err);
+      toast.error((err as { message?: string })?.message || 'Failed to update statement line');
+    }
+  };
+
+  const handlePaymentRecorded = async (line: BankStatementLine, paymentId: string) => {
+    try {
+      await matchLine.mutateAsync({ line, paymentId, method: 'created' });
+    } catch (err) {
+      console.error('Error matching recorded payment:', err);
+      toast.error(`Payment recorded but not matched to the statement line: ${(err as { message?: string })?.message || 'match it manually'}`);
+    }
+  };
+
+  const handleExport = () => {
+    if (!account || !report) return;
+    exportBankReconciliationToCSV(
+      account.account_name,
+      [
+        [`As at ${reportDate}`, null],
+        ['Opening balance', report.opening_balance],
+        ['Matched receipts', report.matched_credits],
+        ['Unmatched credits', report.unmatched_credits],
+        ['Other credits (ignored)', report.ignored_credits],
+        ['Debits', report.debits],
+        ['Balance per imported lines', report.computed_balance],
+        ['Balance per statement', report.statement_balance],
+        ['Difference', report.difference],
+      ],
+      accountLines
+        .filter(l => l.transaction_date <= reportDate)
+        .map(l => ({
+          date: l.transaction_date,
+          description: l.description || '',
+          reference: l.reference || '',
+          amount: Number(l.amount),
+          status: l.status,
+          payment: l.payments?.payment_number || '',
+          reconciled: !!l.reconciliation_id,
+        })),
+      `bank-reconciliation-${account.account_name.replace(/\s+/g, '-').toLowerCase()}-${reportDate}.csv`
+    );
+    toast.success('Reconciliation report exported to CSV');
+  };
+
+  const openCreateAccount = () => {
+    setEditingAccount(null);
+    setShowAccountModal(true);
+  };
+
+  if (error) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Bank Reconciliation</h1>
+          <p className="text-muted-foreground">Match bank statements to recorded payments</p>
+        </div>
+        <Card className="shadow-card">
+          <CardContent className="pt-6">
+            <div className="text-center py-8">
+              <p className="text-destructive">Error loading bank accounts: {error.message}</p>
+              <Button variant="outline" onClick={() => window.location.reload()} className="mt-4">
+                Retry
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Bank Reconciliation</h1>
+          <p className="text-muted-foreground">
+            Import bank statements, match credits to recorded payments and reconcile each account
+          </p>
+        </div>
+        {canRecord && (
+          <div className="flex items-center space-x-2">
+            {account && (
+              <>
+                <Button variant="outline" onClick={() => setShowImport(true)}>
+                  <FileUp className="h-4 w-4 mr-2" />
+                  Import Statement
+                </Button>
+                <Button variant="outline" onClick={handleAutoMatch} disabled={autoMatch.isPending || unmatchedCredits.length === 0}>
+                  {autoMatch.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Wand2 className="h-4 w-4 mr-2" />}
+                  Auto-match
+                </Button>
+                <Button variant="outline" onClick={() => setShowReconcile(true)}>
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  Reconcile
+                </Button>
+              </>
+            )}
+            <Button
+              className="gradient-primary text-primary-foreground hover:opacity-90 shadow-card"
+              size="lg"
+              onClick={openCreateAccount}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Bank Account
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {loadingAccounts ? (
+        <Card className="shadow-card">
+          <CardContent className="pt-6 space-y-4">
+            <Skeleton className="h-4 w-48" />
+            <Skeleton className="h-4 w-72" />
+          </CardContent>
+        </Card>
+      ) : !account ? (
+        <Card className="shadow-card">
+          <CardContent className="pt-6">
+            <div className="text-center py-12">
+              <Landmark className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium text-foreground mb-2">No bank accounts yet</h3>
+              <p className="text-muted-foreground">Add the accounts your customers pay into, then import their statements</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Account selector */}
+          <Card className="shadow-card">
+            <CardContent className="pt-6">
+              <div className="flex items-center space-x-4">
+                <div className="w-80">
+                  <Select value={account.id} onValueChange={setSelectedAccountId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a bank account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {accounts.map(a => (
+                        <SelectItem key={a.id} value={a.id}>
+                          {a.account_name}{a.account_number ? ` (${a.account_number})` : ''}{a.is_active ? '' : ' — inactive'}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  {[account.bank_name, account.currency].filter(Boolean).join(' • ')}
+                </div>
+                {canRecord && (
+                  <Button variant="ghost" size="icon" onClick={() => { setEditingAccount(account); setShowAccountModal(true); }} title="Edit account">
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Summary Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <Card className="shadow-card">
+              <CardContent className="p-6">
+                <div className="flex items-center space-x-2">
+                  <AlertTriangle className="h-8 w-8 text-warning" />
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Unmatched Credits</p>
+                    <p className="text-lg font-bold text-warning">
+                      {unmatchedCredits.length} • {formatCurrency(unmatchedCredits.reduce((sum, l) => sum + Number(l.amount), 0))}
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-card">
+              <CardContent className="p-6">
+                <div className="flex items-center space-x-2">
+                  <Link2 className="h-8 w-8 text-success" />
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Matched to Payments</p>
+                    <p className="text-lg font-bold text-success">{matchedLines.length}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-card">
+              <CardContent className="p-6">
+                <div className="flex items-center space-x-2">
+                  <FileUp className="h-8 w-8 text-primary" />
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Latest Statement Balance</p>
+                    <p className="text-lg font-bold text-primary">
+                      {latestStatement?.closing_balance !== null && latestStatement?.closing_balance !== undefined
+                        ? formatCurrency(latestStatement.closing_balance)
+                        : '-'}
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-card">
+              <CardContent className="p-6">
+                <div className="flex items-center space-x-2">
+                  <CheckCircle className="h-8 w-8 text-secondary" />
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Reconciled To</p>
+                    <p className="text-lg font-bold text-secondary">
+                      {account.last_reconciled_date
+                        ? `${formatDate(account.last_reconciled_date)} • ${formatCurrency(account.last_reconciled_balance || 0)}`
+                        : 'Never'}
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Tabs defaultValue="transactions">
+            <TabsList>
+              <TabsTrigger value="transactions">Transactions</TabsTrigger>
+              <TabsTrigger value="report">Reconciliation Report</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="transactions">
+              <Card className="shadow-card">
+                <CardHeader>
+                  <div className="flex items-center space-x-4">
+                    <div className="relative flex-1">
+                      <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                      <Input
+                        placeholder="Search description, reference, payment or amount..."
+                        value={searchTerm}
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                        className="pl-10"
+                      />
+                    </div>
+                    <Select value={lineFilter} onValueChange={(value) => setLineFilter(value as LineFilter)}>
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="open">Not reconciled</SelectItem>
+                        <SelectItem value="unmatched">Unmatched</SelectItem>
+                        <SelectItem value="matched">Matched</SelectItem>
+                        <SelectItem value="ignored">Ignored</SelectItem>
+                        <SelectItem value="reconciled">Reconciled</SelectItem>
+                        <SelectItem value="all">All</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {loadingLines ? (
+                    <div className="space-y-4">
+                      {[...Array(3)].map((_, i) => (
+                        <Skeleton key={i} className="h-4 w-full" />
+                      ))}
+                    </div>
+                  ) : filteredLines.length === 0 ? (
+                    <div className="text-center py-12">
+                      <FileUp className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+                      <h3 className="text-lg font-medium text-foreground mb-2">No statement lines</h3>
+                      <p className="text-muted-foreground">
+                        {accountLines.length === 0 ? 'Import a CSV or OFX statement for this account' : 'Try adjusting your search or filter'}
+                      </p>
+                    </div>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Description</TableHead>
+                          <TableHead className="text-right">Amount</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Payment</TableHead>
+                          <TableHead className="text-right">Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {filteredLines.map(line => {
+                          const isCredit = Number(line.amount) > 0;
+                          const locked = !!line.reconciliation_id;
+                          return (
+                            <TableRow key={line.id} className="hover:bg-muted/50 transition-smooth">
+                              <TableCell>{formatDate(line.transaction_date)}</TableCell>
+                              <TableCell>
+                                <div className="max-w-md truncate">{line.description || '-'}</div>
+                                {line.reference && <div className="text-sm text-muted-foreground">Ref {line.reference}</div>}
+                              </TableCell>
+                              <TableCell className={`text-right font-medium ${isCredit ? 'text-success' : 'text-destructive'}`}>
+                                {formatCurrency(Number(line.amount))}
+                              </TableCell>
+                              <TableCell>
+                                <Badge variant="outline" className={getStatusColor(line)}>
+                                  {locked ? 'reconciled' : line.status}
+                                </Badge>
+                              </TableCell>
+                              <TableCell>
+                                {line.payments ? (
+                                  <div>
+                                    <div className="font-medium">{line.payments.payment_number}</div>
+                                    <div className="text-sm text-muted-foreground">
+                                      {line.payments.customers?.name}
+                                      {line.match_method === 'auto' ? ' • auto' : line.match_method === 'created' ? ' • recorded from statement' : ''}
+                                    </div>
+                                  </div>
+                                ) : '-'}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {canRecord && !locked && (
+                                  <div className="flex items-center justify-end space-x-1">
+                                    {line.status === 'unmatched' && isCredit && (
+                                      <Button variant="outline" size="sm" onClick={() => setMatchingLine(line)}>
+                                        <Link2 className="h-4 w-4 mr-1" />
+                                        Match
+                                      </Button>
+                                    )}
+                                    {line.status === 'matched' && (
+                                      <Button variant="ghost" size="icon" onClick={() => handleUnmatch(line)} title="Remove match">
+                                        <Unlink className="h-4 w-4" />
+                                      </Button>
+                                    )}
+                                    {line.status === 'unmatched' && (
+                                      <Button variant="ghost" size="icon" onClick={() => handleIgnore(line, true)} title="Ignore (no customer receipt)">
+                                        <EyeOff className="h-4 w-4" />
+                                      </Button>
+                                    )}
+                                    {line.status === 'ignored' && (
+                                      <Button variant="ghost" size="icon" onClick={() => handleIgnore(line, false)} title="Restore">
+                                        <Undo2 className="h-4 w-4" />
+                                      </Button>
+                                    )}
+                                  </div>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="report">
+              <Card className="shadow-card">
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle>Reconciliation Report</CardTitle>
+                      <CardDescription>Position of {account.account_name} from its imported statements</CardDescription>
+                    </div>
+                    <Button variant="outline" onClick={handleExport}>
+                      <Download className="mr-2 h-4 w-4" />
+                      Export CSV
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="report_date">As At</Label>
+                      <Input id="report_date" type="date" value={reportDate} onChange={(e) => setReportDate(e.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="report_balance">Statement Balance</Label>
+                      <Input
+                        id="report_balance"
+                        type="number"
+                        step="0.01"
+                        value={reportBalance}
+                        onChange={(e) => setReportBalance(e.target.value)}
+                        placeholder={statementBalanceForReport === null ? 'From the bank statement' : statementBalanceForReport.toFixed(2)}
+                      />
+                    </div>
+                  </div>
+
+                  {report && (
+                    <Table>
+                      <TableBody>
+                        <TableRow>
+                          <TableCell>Opening balance</TableCell>
+                          <TableCell className="text-right">{formatCurrency(report.opening_balance)}</TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell>Add: receipts matched to payments</TableCell>
+                          <TableCell className="text-right">{formatCurrency(report.matched_credits)}</TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell className={report.unmatched_credits > 0 ? 'text-warning' : ''}>Add: credits not yet recorded as payments</TableCell>
+                          <TableCell className="text-right">{formatCurrency(report.unmatched_credits)}</TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell>Add: other credits (ignored)</TableCell>
+                          <TableCell className="text-right">{formatCurrency(report.ignored_credits)}</TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell>Less: debits</TableCell>
+                          <TableCell className="text-right">{formatCurrency(report.debits)}</TableCell>
+                        </TableRow>
+                        <TableRow className="font-semibold">
+                          <TableCell>Balance per imported lines</TableCell>
+                          <TableCell className="text-right">{formatCurrency(report.computed_balance)}</TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell>Balance per bank statement</TableCell>
+                          <TableCell className="text-right">{report.statement_balance === null ? '-' : formatCurrency(report.statement_balance)}</TableCell>
+                        </TableRow>
+                        <TableRow className={`font-semibold ${report.difference ? 'text-destructive' : 'text-success'}`}>
+                          <TableCell>Difference</TableCell>
+                          <TableCell className="text-right">{report.difference === null ? '-' : formatCurrency(report.difference)}</TableCell>
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                  )}
+
+                  <div>
+                    <h4 className="font-medium mb-2">Credits not yet recorded as payments ({report?.unmatched_lines.length || 0})</h4>
+                    {report && report.unmatched_lines.length > 0 ? (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Date</TableHead>
+                            <TableHead>Description</TableHead>
+                            <TableHead className="text-right">Amount</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {report.unmatched_lines.map(line => (
+                            <TableRow key={line.id}>
+                              <TableCell>{formatDate(line.transaction_date)}</TableCell>
+                              <TableCell>{line.description || line.reference || '-'}</TableCell>
+                              <TableCell className="text-right">{formatCurrency(Number(line.amount))}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">Every credit up to this date is matched or ignored.</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <h4 className="font-medium mb-1">Recorded receipts not found on any statement ({receiptsNotOnStatement.length})</h4>
+                    <p className="text-sm text-muted-foreground mb-2">
+                      Bank, cheque and mobile money payments since {formatDate(firstLineDate)} that have not cleared through any bank account's statement.
+                    </p>
+                    {receiptsNotOnStatement.length > 0 && (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Payment</TableHead>
+                            <TableHead>Customer</TableHead>
+                            <TableHead>Date</TableHead>
+                            <TableHead>Reference</TableHead>
+                            <TableHead className="text-right">Amount</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {receiptsNotOnStatement.map(payment => (
+                            <TableRow key={payment.id}>
+                              <TableCell className="font-medium">{payment.payment_number}</TableCell>
+                              <TableCell>{payment.customers?.name || '-'}</TableCell>
+                              <TableCell>{formatDate(payment.payment_date)}</TableCell>
+                              <TableCell>{payment.reference_number || '-'}</TableCell>
+                              <TableCell className="text-right">{formatCurrency(Number(payment.amount))}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="history" className="space-y-6">
+              <Card className="shadow-card">
+                <CardHeader>
+                  <CardTitle>Reconciliations</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {accountReconciliations.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">This account has not been reconciled yet.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Statement Date</TableHead>
+                          <TableHead className="text-right">Opening</TableHead>
+                          <TableHead className="text-right">Credits</TableHead>
+                          <TableHead className="text-right">Debits</TableHead>
+                          <TableHead className="text-right">Statement Balance</TableHead>
+                          <TableHead className="text-right">Lines</TableHead>
+                          <TableHead>Completed</TableHead>
+                          <TableHead>Notes</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {accountReconciliations.map(r => (
+                          <TableRow key={r.id}>
+                            <TableCell className="font-medium">{formatDate(r.statement_date)}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(r.opening_balance)}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(r.total_credits)}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(r.total_debits)}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(r.statement_balance)}</TableCell>
+                            <TableCell className="text-right">{r.line_count}</TableCell>
+                            <TableCell>{formatDate(r.created_at)}</TableCell>
+                            <TableCell className="max-w-xs truncate">{r.notes || '-'}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="shadow-card">
+                <CardHeader>
+                  <CardTitle>Imported Statements</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {accountStatements.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No statements imported for this account.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>File</TableHead>
+                          <TableHead>Format</TableHead>
+                          <TableHead>Period</TableHead>
+                          <TableHead className="text-right">New Lines</TableHead>
+                          <TableHead className="text-right">Closing Balance</TableHead>
+                          <TableHead>Imported</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {accountStatements.map(s => (
+                          <TableRow key={s.id}>
+                            <TableCell className="font-medium">{s.file_name || '-'}</TableCell>
+                            <TableCell className="uppercase">{s.file_format}</TableCell>
+                            <TableCell>{formatDate(s.period_start)} – {formatDate(s.period_end)}</TableCell>
+                            <TableCell className="text-right">{s.line_count}</TableCell>
+                            <TableCell className="text-right">
+                              {s.closing_balance === null || s.closing_balance === undefined ? '-' : formatCurrency(s.closing_balance)}
+                            </TableCell>
+                            <TableCell>{formatDate(s.created_at)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        </>
+      )}
+
+      <BankAccountModal
+        open={showAccountModal}
+        onOpenChange={setShowAccountModal}
+        account={editingAccount}
+        onSaved={(saved) => setSelectedAccountId(saved.id)}
+      />
+
+      {account && (
+        <>
+          <ImportStatementModal open={showImport} onOpenChange={setShowImport} account={account} />
+          <ReconcileAccountModal
+            open={showReconcile}
+            onOpenChange={setShowReconcile}
+            account={account}
+            lines={accountLines}
+            defaultDate={latestStatement?.period_end || todayString()}
+            defaultBalance={latestStatement?.closing_balance ?? null}
+          />
+        </>
+      )}
+
+      {matchingLine && (
+        <MatchStatementLineModal
+          open={!!matchingLine}
+          onOpenChange={(open) => { if (!open) setMatchingLine(null); }}
+          line={matchingLine}
+          payments={availablePayments}
+          invoices={invoices}
+          currency={currency}
+          canRecord={canRecord}
+          onRecordPayment={(invoice) => {
+            setRecording({ line: matchingLine, invoice });
+            setMatchingLine(null);
+          }}
+        />
+      )}
+
+      {recording && (
+        <RecordPaymentModal
+          key={`${recording.line.id}-${recording.invoice?.id || 'none'}`}
+          open={!!recording}
+          onOpenChange={(open) => { if (!open) setRecording(null); }}
+          onSuccess={() => setRecording(null)}
+          invoice={recording.invoice || undefined}
+          prefill={{
+            amount: Number(recording.line.amount),
+            payment_date: recording.line.transaction_date,
+            payment_method: 'bank_transfer',
+            reference_number: recording.line.reference || '',
+            notes: recording.line.description ? `Bank statement: ${recording.line.description}` : '',
+          }}
+          onRecorded={(paymentId) => handlePaymentRecorded(recording.line, paymentId)}
+        />
+      )}
+    </div>
+  );
+}
@@ -36,10 +36,12 @@ import {
   Send,
   Calendar,
   DollarSign,
-  AlertCircle
+  AlertCircle,
+  ShieldCheck
 } from 'lucide-react';
-import { useCompanies } from '@/hooks/useDatabase';
 import { useCreditNotes } from '@/hooks/useCreditNotes';
+import { useSubmitToEtims } from '@/hooks/useEtims';
+import { isCreditNoteLocked } from '@/utils/documentLocks';
 import { toast } from 'sonner';
 import { CreateCreditNoteModal } from '@/components/credit-notes/CreateCreditNoteModal';
 import { ViewCreditNoteModal } from '@/components/credit-notes/ViewCreditNoteModal';
@@ -50,6 +52,9 @@ import { SimpleForeignKeyPatch } from '@/components/credit-notes/SimpleForeignKe
 import { CreditNotesConnectionStatus } from '@/components/credit-notes/CreditNotesConnectionStatus';
 import { useCreditNotePDFDownload } from '@/hooks/useCreditNotePDF';
 import type { CreditNote } from '@/hooks/useCreditNotes';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { usePermission } from '@/hooks/usePermissions';
+import { EtimsQueueCard } from '@/components/etims/EtimsQueueCard';
 
 function getStatusColor(status: string) {
   switch (status) {
@@ -82,10 +87,11 @@ export default function CreditNotes() {
   const [amountFromFilter, setAmountFromFilter] = useState('');
   const [amountToFilter, setAmountToFilter] = useState('');
 
-  const { data: companies } = useCompanies();
-  const currentCompany = companies?.[0];
+  const { currentCompany } = useCurrentCompany();
+  const canCreateCreditNotes = usePermission('credit_note.create');
   const { data: creditNotes, isLoading, error, refetch } = useCreditNotes(currentCompany?.id);
   const downloadPDF = useCreditNotePDFDownload();
+  const submitToEtims = useSubmitToEtims();
 
   // Filter and search logic
   const filteredCreditNotes = creditNotes?.filter(creditNote => {
@@ -125,6 +131,16 @@ export default function CreditNotes() {
     toast.success('Credit note created successfully!');
   };
 
+  const handleSubmitToEtims = async (creditNote: CreditNote) => {
+    try {
+      await submitToEtims.mutateAsync({ documentType: 'credit_note', documentId: creditNote.id });
+      toast.success(`Credit note ${creditNote.credit_note_number} accepted by KRA eTIMS`);
+    } catch (error) {
+      console.error('Error submitting credit note to eTIMS:', error);
+      toast.error((error as { message?: string })?.message || 'Failed to submit the credit note to eTIMS');
+    }
+  };
+
   const handleClearFilters = () => {
     setStatusFilter('all');
     setDateFromFilter('');
@@ -222,19 +238,23 @@ export default function CreditNotes() {
             Manage customer credit notes and refunds
           </p>
         </div>
-        <Button
-          className="gradient-primary text-primary-foreground hover:opacity-90 shadow-card"
-          size="lg"
-          onClick={() => setShowCreateModal(true)}
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          New Credit Note
-        </Button>
+        {canCreateCreditNotes && (
+          <Button
+            className="gradient-primary text-primary-foreground hover:opacity-90 shadow-card"
+            size="lg"
+            onClick={() => setShowCreateModal(true)}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Credit Note
+          </Button>
+        )}
       </div>
 
       {/* Connection Status Check */}
       <CreditNotesConnectionStatus />
 
+      <EtimsQueueCard documentType="credit_note" canSubmit={canCreateCreditNotes} />
+
       {/* Filters and Search */}
       <Card className="shadow-card">
         <CardContent className="pt-6">
@@ -370,7 +390,7 @@ export default function CreditNotes() {
                   : 'Get started by creating your first credit note'
                 }
               </p>
-              {!searchTerm && (
+              {!searchTerm && canCreateCreditNotes && (
                 <Button
                   onClick={() => setShowCreateModal(true)}
                   className="gradient-primary text-primary-foreground hover:opacity-90"
@@ -470,6 +490,19 @@ export default function CreditNotes() {
                         >
                           <Download className="h-4 w-4" />
                         </Button>
+                        {/* Only applied credit notes are final enough to fiscalise */}
+                        {currentCompany?.etims_enabled && canCreateCreditNotes && isCreditNoteLocked(creditNote) &&
+                          !creditNote.etims_cu_invoice_number && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleSubmitToEtims(creditNote)}
+                            disabled={submitToEtims.isPending}
+                            title={creditNote.etims_status === 'queued' ? 'Queued for eTIMS - submit again now' : 'Submit to KRA eTIMS'}
+                          >
+                            <ShieldCheck className={`h-4 w-4 ${creditNote.etims_status === 'queued' ? 'text-warning' : ''}`} />
+                          </Button>
+                        )}
                         {creditNote.status !== 'applied' && creditNote.balance > 0 && (
                           <Button
                             variant="outline"
@@ -39,7 +39,7 @@ import {
   Building2,
   MapPin
 } from 'lucide-react';
-import { useCustomers, useCreateCustomer, useCompanies, useCustomerInvoices, useCustomerPayments } from '@/hooks/useDatabase';
+import { useCustomers, useCreateCustomer, useCustomerInvoices, useCustomerPayments } from '@/hooks/useDatabase';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { EditCustomerModal } from '@/components/customers/EditCustomerModal';
@@ -47,6 +47,8 @@ import { ViewCustomerModal } from '@/components/customers/ViewCustomerModal';
 import { CreateCustomerModal } from '@/components/customers/CreateCustomerModal';
 import { CreateInvoiceModal } from '@/components/invoices/CreateInvoiceModal';
 import { generateCustomerStatementPDF } from '@/utils/pdfGenerator';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { usePermission } from '@/hooks/usePermissions';
 
 interface Customer {
   id: string;
@@ -82,8 +84,8 @@ export default function Customers() {
   const [cityFilter, setCityFilter] = useState('all');
   const [creditLimitFilter, setCreditLimitFilter] = useState('all');
   
-  const { data: companies } = useCompanies();
-  const currentCompany = companies?.[0];
+  const { currentCompany } = useCurrentCompany();
+  const canManageCustomers = usePermission('customer.manage');
   const { data: customers, isLoading, error } = useCustomers(currentCompany?.id);
 
   // Filter and search logic
@@ -262,14 +264,16 @@ export default function Customers() {
             Manage your customer database and relationships
           </p>
         </div>
-        <Button
-          className="gradient-primary text-primary-foreground hover:opacity-90 shadow-card"
-          size="lg"
-          onClick={handleCreateCustomer}
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          New Customer
-        </Button>
+        {canManageCustomers && (
+          <Button
+            className="gradient-primary text-primary-foreground hover:opacity-90 shadow-card"
+            size="lg"
+            onClick={handleCreateCustomer}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Customer
+          </Button>
+        )}
       </div>
 
       {/* Filters and Search */}
@@ -390,7 +394,7 @@ export default function Customers() {
                   : 'Get started by adding your first customer'
                 }
               </p>
-              {!searchTerm && (
+              {!searchTerm && canManageCustomers && (
                 <Button
                   onClick={handleCreateCustomer}
                   className="gradient-primary text-primary-foreground hover:opacity-90"
@@ -32,8 +32,9 @@ import { toast } from 'sonner';
 import { downloadDeliveryNotePDF } from '@/utils/pdfGenerator';
 import { CreateDeliveryNoteModal } from '@/components/delivery/CreateDeliveryNoteModal';
 import { ViewDeliveryNoteModal } from '@/components/delivery/ViewDeliveryNoteModal';
-import { useDeliveryNotes, useUpdateDeliveryNote, useCompanies } from '@/hooks/useDatabase';
+import { useDeliveryNotes, useUpdateDeliveryNote } from '@/hooks/useDatabase';
 import { mapDeliveryNoteForDisplay } from '@/utils/deliveryNoteMapper';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
 
 
 export default function DeliveryNotes() {
@@ -43,8 +44,7 @@ export default function DeliveryNotes() {
   const [searchTerm, setSearchTerm] = useState('');
 
   // Database hooks
-  const { data: companies } = useCompanies();
-  const currentCompany = companies?.[0];
+  const { currentCompany } = useCurrentCompany();
   const { data: deliveryNotes, isLoading, error } = useDeliveryNotes(currentCompany?.id);
   const updateDeliveryNote = useUpdateDeliveryNote();
 
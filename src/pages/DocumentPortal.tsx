@@ -0,0 +1,255 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, CheckCircle, Printer, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useRespondToSharedQuotation, useSharedDocument } from '@/hooks/useDocumentPortal';
+import {
+  buildDocumentHTML,
+  generatePDF,
+  invoiceDocumentData,
+  quotationDocumentData,
+  type DocumentData,
+} from '@/utils/pdfGenerator';
+import { formatMoney } from '@/utils/currency';
+import {
+  SHARED_DOCUMENT_LABELS,
+  paymentInstructions,
+  sharedDocumentNumber,
+  type SharedDocument,
+} from '@/utils/documentPortal';
+import { effectiveQuotationStatus, quotationDisplayNumber, quotationStatusLabel } from '@/utils/quotationLifecycle';
+
+// The shared document in the shape the PDF generator prints
+async function portalDocumentData(shared: SharedDocument): Promise<DocumentData> {
+  const company = shared.company ? {
+    name: shared.company.name,
+    address: shared.company.address,
+    city: shared.company.city,
+    country: shared.company.country,
+    phone: shared.company.phone,
+    email: shared.company.email,
+    tax_number: shared.company.tax_number,
+    logo_url: shared.company.logo_url
+  } : undefined;
+  const { document, items, customer } = shared;
+
+  if (shared.link.document_type === 'quotation') {
+    return quotationDocumentData({ ...document, customers: customer, quotation_items: items }, company);
+  }
+  if (shared.link.document_type === 'proforma') {
+    return invoiceDocumentData({
+      ...document,
+      invoice_number: document.proforma_number,
+      invoice_date: document.proforma_date,
+      customers: customer,
+      invoice_items: items,
+      notes: document.notes || 'This is a proforma invoice for advance payment.',
+      terms_and_conditions: document.terms_and_conditions || 'Payment required before goods are delivered.',
+    }, 'PROFORMA', company);
+  }
+  return invoiceDocumentData({ ...document, customers: customer, invoice_items: items }, 'INVOICE', company);
+}
+
+// Public page behind a share link: the document as printed, with the invoice balance or the
+// customer's answer to a quotation. No sign-in; the token is the only credential.
+export default function DocumentPortal() {
+  const { token } = useParams<{ token: string }>();
+  const { data: shared, isLoading, error } = useSharedDocument(token);
+  const respond = useRespondToSharedQuotation();
+  const [documentData, setDocumentData] = useState<DocumentData | null>(null);
+  const [name, setName] = useState('');
+  const [comment, setComment] = useState('');
+
+  useEffect(() => {
+    if (!shared) return;
+    let cancelled = false;
+    portalDocumentData(shared)
+      .then(data => { if (!cancelled) setDocumentData(data); })
+      .catch(err => console.error('Failed to prepare shared document', err));
+    return () => { cancelled = true; };
+  }, [shared]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (error || !shared) {
+    return (
+      <div className="max-w-xl mx-auto p-6 mt-12">
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{(error as { message?: string })?.message || 'This link is not valid'}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const type = shared.link.document_type;
+  const document = shared.document;
+  const currency = document.currency || shared.company?.currency || 'KES';
+  const number = type === 'quotation' ? quotationDisplayNumber(document) : sharedDocumentNumber(type, document);
+  const title = `${SHARED_DOCUMENT_LABELS[type]} ${number}`;
+
+  const total = Number(document.total_amount || 0);
+  const paid = Number(document.paid_amount || 0);
+  const balance = document.balance_due != null ? Number(document.balance_due) : total - paid;
+
+  const quotationStatus = type === 'quotation' ? effectiveQuotationStatus(document) : null;
+  const canRespond = type === 'quotation' && !shared.link.response && (quotationStatus === 'draft' || quotationStatus === 'sent');
+
+  const handleRespond = async (response: 'accepted' | 'declined') => {
+    if (!token) return;
+    if (!name.trim()) {
+      toast.error('Enter your name');
+      return;
+    }
+    const verb = response === 'accepted' ? 'Accept' : 'Decline';
+    if (!confirm(`${verb} ${title}?`)) return;
+    try {
+      await respond.mutateAsync({ token, response, name: name.trim(), comment: comment.trim() });
+      toast.success(`Thank you. ${shared.company?.name || 'The supplier'} has been notified.`);
+    } catch (err) {
+      console.error('Failed to respond to quotation', err);
+      toast.error((err as { message?: string })?.message || 'Failed to send your response');
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto p-4 md:p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">{title}</h1>
+          <p className="text-muted-foreground">
+            From {shared.company?.name}
+            {shared.customer?.name ? ` to ${shared.customer.name}` : ''}
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => documentData && generatePDF(documentData)} disabled={!documentData}>
+          <Printer className="h-4 w-4 mr-2" />
+          Print / Save PDF
+        </Button>
+      </div>
+
+      {type !== 'quotation' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Amount Due</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Total</p>
+                <p className="text-lg font-semibold">{formatMoney(total, currency)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Paid</p>
+                <p className="text-lg font-semibold">{formatMoney(paid, currency)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Balance</p>
+                <p className={`text-lg font-semibold ${balance > 0 ? 'text-destructive' : 'text-success'}`}>{formatMoney(balance, currency)}</p>
+              </div>
+            </div>
+            {balance > 0 ? (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">How to pay</p>
+                {paymentInstructions(shared.company, sharedDocumentNumber(type, document)).map(line => (
+                  <p key={line} className="text-sm text-muted-foreground">{line}</p>
+                ))}
+                {document.due_date && (
+                  <p className="text-sm text-muted-foreground">Due by {new Date(document.due_date).toLocaleDateString()}.</p>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-success">This {type === 'proforma' ? 'proforma invoice' : 'invoice'} is fully paid. Thank you.</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {type === 'quotation' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Your Response</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {shared.link.response ? (
+              <Alert>
+                {shared.link.response === 'accepted' ? <CheckCircle className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+                <AlertDescription>
+                  {shared.link.response === 'accepted' ? 'Accepted' : 'Declined'} by {shared.link.responder_name}
+                  {shared.link.responded_at ? ` on ${new Date(shared.link.responded_at).toLocaleString()}` : ''}.
+                  {shared.link.response_comment ? ` "${shared.link.response_comment}"` : ''}
+                </AlertDescription>
+              </Alert>
+            ) : !canRespond ? (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  {quotationStatus === 'expired'
+                    ? `This quotation expired${document.valid_until ? ` on ${new Date(document.valid_until).toLocaleDateString()}` : ''}. Please ask ${shared.company?.name || 'us'} for an updated quotation.`
+                    : `This quotation is ${quotationStatusLabel(quotationStatus).toLowerCase()} and can no longer be answered online.`}
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  Total {formatMoney(total, currency)}
+                  {document.valid_until ? `, valid until ${new Date(document.valid_until).toLocaleDateString()}` : ''}.
+                </p>
+                <div className="space-y-2">
+                  <Label htmlFor="portal_name">Your name *</Label>
+                  <Input id="portal_name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Full name" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="portal_comment">Comment</Label>
+                  <Textarea
+                    id="portal_comment"
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    rows={3}
+                    placeholder="Optional, e.g. your order reference or why you are declining"
+                  />
+                </div>
+                <div className="flex gap-3">
+                  <Button onClick={() => handleRespond('accepted')} disabled={respond.isPending}>
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Accept Quotation
+                  </Button>
+                  <Button variant="outline" onClick={() => handleRespond('declined')} disabled={respond.isPending}>
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Decline
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="p-0">
+          {documentData ? (
+            <iframe
+              title={title}
+              srcDoc={buildDocumentHTML(documentData)}
+              className="w-full h-[1100px] border-0 rounded-lg bg-white"
+            />
+          ) : (
+            <p className="p-6 text-muted-foreground">Preparing document...</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,655 @@
+import { Fragment, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Download,
+  Plus,
+  Edit,
+  Trash2,
+  Scale,
+  Users,
+  FileSpreadsheet,
+  AlertTriangle,
+  CheckCircle
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { usePermission } from '@/hooks/usePermissions';
+import { useTaxSettings } from '@/hooks/useDatabase';
+import { useProductCategories } from '@/hooks/useOptimizedProducts';
+import {
+  useAccountBalances,
+  useDeleteGlAccount,
+  useGlAccountMappings,
+  useGlAccounts,
+  useJournalEntries,
+  useReceivablesReconciliation,
+  useSetGlAccountMapping
+} from '@/hooks/useLedger';
+import {
+  ACCOUNT_TYPE_LABELS,
+  buildTrialBalance,
+  CATEGORY_MAPPING_TYPES,
+  CONTROL_ACCOUNTS,
+  JOURNAL_SOURCE_LABELS,
+  PAYMENT_METHOD_MAPPINGS,
+  taxRateKey,
+  type GlAccount,
+  type GlMappingType
+} from '@/utils/ledger';
+import { exportChartOfAccountsToCSV, exportJournalToCSV, exportTrialBalanceToCSV } from '@/utils/csvExporter';
+import { GlAccountModal } from '@/components/ledger/GlAccountModal';
+
+const today = () => new Date().toISOString().split('T')[0];
+const startOfMonth = () => `${today().slice(0, 8)}01`;
+
+const ALL_ACCOUNTS = '__all';
+const USE_DEFAULT = '__default';
+
+const GeneralLedger = () => {
+  const [from, setFrom] = useState(startOfMonth);
+  const [to, setTo] = useState(today);
+  const [tab, setTab] = useState('trial-balance');
+  const [journalAccount, setJournalAccount] = useState(ALL_ACCOUNTS);
+  const [accountModalOpen, setAccountModalOpen] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<GlAccount | null>(null);
+
+  const { currentCompany } = useCurrentCompany();
+  const companyId = currentCompany?.id;
+  const canManage = usePermission('ledger.manage');
+
+  const { data: accounts = [] } = useGlAccounts(companyId);
+  const { data: mappings = [] } = useGlAccountMappings(companyId);
+  const { data: balances, isLoading, error, refetch } = useAccountBalances(companyId, from, to);
+  const { data: entries = [], isLoading: entriesLoading } = useJournalEntries(
+    companyId, from, to, journalAccount === ALL_ACCOUNTS ? undefined : journalAccount
+  );
+  const { data: receivables } = useReceivablesReconciliation(companyId);
+  const { data: taxSettings = [] } = useTaxSettings(companyId);
+  const { data: categories = [] } = useProductCategories(companyId);
+  const setMapping = useSetGlAccountMapping();
+  const deleteAccount = useDeleteGlAccount();
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-KE', {
+      style: 'currency',
+      currency: 'KES',
+      minimumFractionDigits: 2
+    }).format(amount);
+  };
+
+  const trialBalance = useMemo(() => buildTrialBalance(balances || []), [balances]);
+  const taxRates = useMemo(
+    () => Array.from(new Set(taxSettings.map(setting => taxRateKey(setting.rate)).filter(rate => Number(rate) > 0)))
+      .sort((a, b) => Number(b) - Number(a)),
+    [taxSettings]
+  );
+
+  const mappedAccount = (type: GlMappingType, key: string) =>
+    mappings.find(mapping => mapping.mapping_type === type && mapping.mapping_key === key)?.account_id;
+  const accountLabel = (id?: string) => {
+    const account = accounts.find(a => a.id === id);
+    return account ? `${account.code} ${account.name}` : '—';
+  };
+
+  const handleMappingChange = async (mappingType: GlMappingType, mappingKey: string, value: string) => {
+    if (!companyId) return;
+    try {
+      await setMapping.mutateAsync({
+        companyId,
+        mappingType,
+        mappingKey,
+        accountId: value === USE_DEFAULT ? null : value,
+      });
+      toast.success('Account mapping saved; it applies to documents posted from now on');
+    } catch (error) {
+      console.error('Error saving account mapping:', error);
+      toast.error((error as { message?: string })?.message || 'Failed to save account mapping');
+    }
+  };
+
+  const handleDeleteAccount = async (account: GlAccount) => {
+    if (!confirm(`Delete account ${account.code} ${account.name}?`)) return;
+    try {
+      await deleteAccount.mutateAsync(account);
+      toast.success(`Account ${account.code} deleted`);
+    } catch (error) {
+      console.error('Error deleting ledger account:', error);
+      toast.error((error as { message?: string })?.message || 'Failed to delete account');
+    }
+  };
+
+  const handleDrillDown = (accountId: string) => {
+    setJournalAccount(accountId);
+    setTab('journal');
+  };
+
+  const handleExportTrialBalance = () => {
+    if (trialBalance.rows.length === 0) {
+      toast.error('Nothing has been posted in this period');
+      return;
+    }
+    exportTrialBalanceToCSV(trialBalance.rows.map(row => ({
+      code: row.code,
+      name: row.name,
+      account_type: ACCOUNT_TYPE_LABELS[row.account_type],
+      debit: row.closing_debit,
+      credit: row.closing_credit,
+    })), to);
+    toast.success(`Exported the trial balance as at ${to}`);
+  };
+
+  const handleExportJournal = () => {
+    const lines = entries.flatMap(entry => (entry.journal_lines || [])
+      .slice()
+      .sort((a, b) => a.sort_order - b.sort_order)
+      .map(line => ({
+        date: entry.entry_date,
+        entry_number: entry.entry_number,
+        source: JOURNAL_SOURCE_LABELS[entry.source_type],
+        source_number: entry.source_number || '',
+        account_code: line.gl_accounts?.code || '',
+        account_name: line.gl_accounts?.name || '',
+        description: line.description || entry.description || '',
+        contact: line.customers?.name || line.suppliers?.name || '',
+        debit: Number(line.debit || 0),
+        credit: Number(line.credit || 0),
+      })));
+    if (lines.length === 0) {
+      toast.error('No journal entries in this period');
+      return;
+    }
+    exportJournalToCSV(lines, `journal-${from}-to-${to}.csv`);
+    toast.success(`Exported ${lines.length} journal lines`);
+  };
+
+  const handleExportChart = () => {
+    exportChartOfAccountsToCSV(accounts.map(account => ({
+      code: account.code,
+      name: account.name,
+      account_type: ACCOUNT_TYPE_LABELS[account.account_type],
+      description: account.description || '',
+      is_active: account.is_active,
+    })));
+  };
+
+  const renderMappingSelect = (mappingType: GlMappingType, mappingKey: string, allowDefault: boolean) => (
+    <Select
+      value={mappedAccount(mappingType, mappingKey) || USE_DEFAULT}
+      onValueChange={(value) => handleMappingChange(mappingType, mappingKey, value)}
+      disabled={!canManage || setMapping.isPending}
+    >
+      <SelectTrigger className="w-72">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {allowDefault && <SelectItem value={USE_DEFAULT}>Use the control account</SelectItem>}
+        {accounts.filter(account => account.is_active || account.id === mappedAccount(mappingType, mappingKey)).map(account => (
+          <SelectItem key={account.id} value={account.id}>{account.code} {account.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">General Ledger</h1>
+          <p className="text-muted-foreground">
+            Journals posted from invoices, credit notes, payments, purchases and stock
+          </p>
+        </div>
+        <div className="flex items-end space-x-2">
+          <div className="space-y-1">
+            <Label htmlFor="gl_from" className="text-xs">From</Label>
+            <Input id="gl_from" type="date" value={from} onChange={(e) => e.target.value && setFrom(e.target.value)} className="w-40" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="gl_to" className="text-xs">To</Label>
+            <Input id="gl_to" type="date" value={to} onChange={(e) => e.target.value && setTo(e.target.value)} className="w-40" />
+          </div>
+        </div>
+      </div>
+
+      {error ? (
+        <Card className="shadow-card">
+          <CardContent className="pt-6">
+            <div className="text-center py-8">
+              <p className="text-destructive">Error loading the ledger: {(error as Error).message}</p>
+              <Button variant="outline" onClick={() => refetch()} className="mt-4">
+                Retry
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Summary Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <Card className="shadow-card">
+              <CardContent className="p-6">
+                <div className="flex items-center space-x-2">
+                  <Scale className={`h-8 w-8 ${trialBalance.balanced ? 'text-success' : 'text-destructive'}`} />
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Trial Balance</p>
+                    <p className={`text-lg font-bold ${trialBalance.balanced ? 'text-success' : 'text-destructive'}`}>
+                      {trialBalance.balanced ? 'Balanced' : 'Out of balance'}
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-card">
+              <CardContent className="p-6">
+                <div className="flex items-center space-x-2">
+                  <Users className="h-8 w-8 text-primary" />
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Receivables (Ledger)</p>
+                    <p className="text-lg font-bold text-primary">{formatCurrency(receivables?.ledger_total || 0)}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-card">
+              <CardContent className="p-6">
+                <div className="flex items-center space-x-2">
+                  <FileSpreadsheet className="h-8 w-8 text-secondary" />
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Customer Statements</p>
+                    <p className="text-lg font-bold text-secondary">{formatCurrency(receivables?.statement_total || 0)}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-card">
+              <CardContent className="p-6">
+                <div className="flex items-center space-x-2">
+                  {receivables && receivables.difference !== 0
+                    ? <AlertTriangle className="h-8 w-8 text-warning" />
+                    : <CheckCircle className="h-8 w-8 text-success" />}
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Receivables Difference</p>
+                    <p className={`text-lg font-bold ${receivables && receivables.difference !== 0 ? 'text-warning' : 'text-success'}`}>
+                      {formatCurrency(receivables?.difference || 0)}
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {receivables && receivables.customers.length > 0 && (
+            <Card className="shadow-card border-warning/40">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2 text-base">
+                  <AlertTriangle className="h-5 w-5 text-warning" />
+                  <span>Receivables control does not agree with the customer statements</span>
+                </CardTitle>
+                <CardDescription>
+                  Usually a document posted before the ledger was set up or a payment recorded without a customer.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Customer</TableHead>
+                      <TableHead className="text-right">Ledger</TableHead>
+                      <TableHead className="text-right">Statement</TableHead>
+                      <TableHead className="text-right">Difference</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {receivables.customers.map(row => (
+                      <TableRow key={row.customer_id || 'none'}>
+                        <TableCell className="font-medium">{row.customer_name}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(row.ledger_balance)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(row.statement_balance)}</TableCell>
+                        <TableCell className="text-right font-medium text-warning">{formatCurrency(row.difference)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
+          <Tabs value={tab} onValueChange={setTab}>
+            <TabsList>
+              <TabsTrigger value="trial-balance">Trial Balance</TabsTrigger>
+              <TabsTrigger value="journal">Journal</TabsTrigger>
+              <TabsTrigger value="accounts">Chart of Accounts</TabsTrigger>
+              <TabsTrigger value="mappings">Account Mappings</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="trial-balance">
+              <Card className="shadow-card">
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <div>
+                    <CardTitle>Trial Balance</CardTitle>
+                    <CardDescription>
+                      Movement from {new Date(from).toLocaleDateString()} and closing balances at {new Date(to).toLocaleDateString()}. Click an account to see its journals.
+                    </CardDescription>
+                  </div>
+                  <Button variant="outline" onClick={handleExportTrialBalance} disabled={isLoading}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Export CSV
+                  </Button>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Account</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead className="text-right">Opening</TableHead>
+                        <TableHead className="text-right">Debits</TableHead>
+                        <TableHead className="text-right">Credits</TableHead>
+                        <TableHead className="text-right">Closing Dr</TableHead>
+                        <TableHead className="text-right">Closing Cr</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {isLoading ? (
+                        <TableRow>
+                          <TableCell colSpan={7} className="text-muted-foreground text-sm">Loading...</TableCell>
+                        </TableRow>
+                      ) : trialBalance.rows.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={7} className="text-muted-foreground text-sm">Nothing has been posted up to this date</TableCell>
+                        </TableRow>
+                      ) : (
+                        <>
+                          {trialBalance.rows.map(row => (
+                            <TableRow key={row.account_id} className="cursor-pointer hover:bg-muted/50" onClick={() => handleDrillDown(row.account_id)}>
+                              <TableCell className="font-medium">{row.code} {row.name}</TableCell>
+                              <TableCell>{ACCOUNT_TYPE_LABELS[row.account_type]}</TableCell>
+                              <TableCell className="text-right">{formatCurrency(row.opening_balance)}</TableCell>
+                              <TableCell className="text-right">{row.debit ? formatCurrency(row.debit) : '—'}</TableCell>
+                              <TableCell className="text-right">{row.credit ? formatCurrency(row.credit) : '—'}</TableCell>
+                              <TableCell className="text-right">{row.closing_debit ? formatCurrency(row.closing_debit) : ''}</TableCell>
+                              <TableCell className="text-right">{row.closing_credit ? formatCurrency(row.closing_credit) : ''}</TableCell>
+                            </TableRow>
+                          ))}
+                          <TableRow className="font-bold">
+                            <TableCell colSpan={5}>Total</TableCell>
+                            <TableCell className="text-right">{formatCurrency(trialBalance.total_debit)}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(trialBalance.total_credit)}</TableCell>
+                          </TableRow>
+                        </>
+                      )}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="journal">
+              <Card className="shadow-card">
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <div>
+                    <CardTitle>Journal</CardTitle>
+                    <CardDescription>Every entry dated in the period, newest first</CardDescription>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Select value={journalAccount} onValueChange={setJournalAccount}>
+                      <SelectTrigger className="w-64">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL_ACCOUNTS}>All accounts</SelectItem>
+                        {accounts.map(account => (
+                          <SelectItem key={account.id} value={account.id}>{account.code} {account.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="outline" onClick={handleExportJournal} disabled={entriesLoading}>
+                      <Download className="mr-2 h-4 w-4" />
+                      Export CSV
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Account</TableHead>
+                        <TableHead>Description</TableHead>
+                        <TableHead className="text-right">Debit</TableHead>
+                        <TableHead className="text-right">Credit</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {entriesLoading ? (
+                        <TableRow>
+                          <TableCell colSpan={4} className="text-muted-foreground text-sm">Loading...</TableCell>
+                        </TableRow>
+                      ) : entries.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={4} className="text-muted-foreground text-sm">No journal entries in this period</TableCell>
+                        </TableRow>
+                      ) : entries.map(entry => (
+                        <Fragment key={entry.id}>
+                          <TableRow className="bg-muted/30">
+                            <TableCell colSpan={4}>
+                              <div className="flex items-center space-x-2">
+                                <span className="font-medium">{entry.entry_number}</span>
+                                <span className="text-sm text-muted-foreground">
+                                  {new Date(entry.entry_date).toLocaleDateString()} • {JOURNAL_SOURCE_LABELS[entry.source_type]} {entry.source_number}
+                                  {entry.description ? ` • ${entry.description}` : ''}
+                                </span>
+                                {entry.reverses_entry_id && (
+                                  <Badge variant="outline" className="bg-warning-light text-warning border-warning/20">Reversal</Badge>
+                                )}
+                                {entry.status === 'reversed' && (
+                                  <Badge variant="outline" className="bg-muted text-muted-foreground border-muted-foreground/20">Reversed</Badge>
+                                )}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                          {(entry.journal_lines || []).slice().sort((a, b) => a.sort_order - b.sort_order).map(line => (
+                            <TableRow key={line.id} className={line.account_id === journalAccount ? 'bg-primary/5' : ''}>
+                              <TableCell className="pl-8 text-sm">{line.gl_accounts ? `${line.gl_accounts.code} ${line.gl_accounts.name}` : accountLabel(line.account_id)}</TableCell>
+                              <TableCell className="text-sm text-muted-foreground">
+                                {[line.description, line.customers?.name, line.suppliers?.name].filter(Boolean).join(' • ') || '—'}
+                              </TableCell>
+                              <TableCell className="text-right text-sm">{Number(line.debit) ? formatCurrency(Number(line.debit)) : ''}</TableCell>
+                              <TableCell className="text-right text-sm">{Number(line.credit) ? formatCurrency(Number(line.credit)) : ''}</TableCell>
+                            </TableRow>
+                          ))}
+                        </Fragment>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="accounts">
+              <Card className="shadow-card">
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <div>
+                    <CardTitle>Chart of Accounts</CardTitle>
+                    <CardDescription>System accounts can be renamed or deactivated but not deleted</CardDescription>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Button variant="outline" onClick={handleExportChart} disabled={accounts.length === 0}>
+                      <Download className="mr-2 h-4 w-4" />
+                      Export CSV
+                    </Button>
+                    {canManage && (
+                      <Button onClick={() => { setEditingAccount(null); setAccountModalOpen(true); }}>
+                        <Plus className="mr-2 h-4 w-4" />
+                        Add Account
+                      </Button>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Code</TableHead>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {accounts.map(account => (
+                        <TableRow key={account.id}>
+                          <TableCell className="font-medium">{account.code}</TableCell>
+                          <TableCell>
+                            <div>{account.name}</div>
+                            {account.description && <div className="text-xs text-muted-foreground">{account.description}</div>}
+                          </TableCell>
+                          <TableCell>{ACCOUNT_TYPE_LABELS[account.account_type]}</TableCell>
+                          <TableCell>
+                            {account.is_active ? (
+                              <Badge variant="outline" className="bg-success-light text-success border-success/20">Active</Badge>
+                            ) : (
+                              <Badge variant="outline" className="bg-muted text-muted-foreground border-muted-foreground/20">Inactive</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {canManage && (
+                              <div className="flex items-center justify-end space-x-1">
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => { setEditingAccount(account); setAccountModalOpen(true); }}
+                                  title="Edit account"
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                {!account.is_system && (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => handleDeleteAccount(account)}
+                                    disabled={deleteAccount.isPending}
+                                    title="Delete account"
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                )}
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="mappings" className="space-y-4">
+              <Card className="shadow-card">
+                <CardHeader>
+                  <CardTitle>Control Accounts</CardTitle>
+                  <CardDescription>
+                    Where postings go when no more specific mapping applies. Changes affect documents posted from now on.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {CONTROL_ACCOUNTS.map(control => (
+                    <div key={control.key} className="flex items-center justify-between">
+                      <Label>{control.label}</Label>
+                      {renderMappingSelect('control', control.key, false)}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+
+              <Card className="shadow-card">
+                <CardHeader>
+                  <CardTitle>Payment Methods</CardTitle>
+                  <CardDescription>The cash, bank or M-Pesa account money moves through</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {PAYMENT_METHOD_MAPPINGS.map(method => (
+                    <div key={method.key} className="flex items-center justify-between">
+                      <Label>{method.label}</Label>
+                      {renderMappingSelect('payment_method', method.key, true)}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+
+              <Card className="shadow-card">
+                <CardHeader>
+                  <CardTitle>Tax Rates</CardTitle>
+                  <CardDescription>Output VAT account per rate on invoices and credit notes</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {taxRates.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No tax rates are set up for this company</p>
+                  ) : taxRates.map(rate => (
+                    <div key={rate} className="flex items-center justify-between">
+                      <Label>VAT {rate}%</Label>
+                      {renderMappingSelect('tax_rate', rate, true)}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+
+              <Card className="shadow-card">
+                <CardHeader>
+                  <CardTitle>Product Categories</CardTitle>
+                  <CardDescription>Sales, inventory and cost of sales accounts per category</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {categories.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No product categories yet</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Category</TableHead>
+                          {CATEGORY_MAPPING_TYPES.map(mapping => (
+                            <TableHead key={mapping.type}>{mapping.label}</TableHead>
+                          ))}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {categories.map(category => (
+                          <TableRow key={category.id}>
+                            <TableCell className="font-medium">{category.name}</TableCell>
+                            {CATEGORY_MAPPING_TYPES.map(mapping => (
+                              <TableCell key={mapping.type}>{renderMappingSelect(mapping.type, category.id, true)}</TableCell>
+                            ))}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        </>
+      )}
+
+      <GlAccountModal
+        open={accountModalOpen}
+        onOpenChange={setAccountModalOpen}
+        account={editingAccount}
+      />
+    </div>
+  );
+};
+
+export default GeneralLedger;
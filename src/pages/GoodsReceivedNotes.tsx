@@ -0,0 +1,273 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { Plus, Search, Eye, Download, PackageCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { useGoodsReceivedNotes, type GoodsReceivedNote } from '@/hooks/useDatabase';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { downloadGRNPDF } from '@/utils/pdfGenerator';
+import { previouslyReceivedFor } from '@/utils/grnReceipts';
+import { ReceiveGoodsModal } from '@/components/grn/ReceiveGoodsModal';
+
+const formatCurrency = (amount: number) => new Intl.NumberFormat('en-KE', {
+  style: 'currency',
+  currency: 'KES',
+}).format(amount || 0);
+
+const formatDate = (date: string) => date ? new Date(date).toLocaleDateString() : '-';
+
+export default function GoodsReceivedNotes() {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showReceiveModal, setShowReceiveModal] = useState(false);
+  const [selectedGRN, setSelectedGRN] = useState<GoodsReceivedNote | null>(null);
+
+  const { currentCompany } = useCurrentCompany();
+  const { data: grns = [], isLoading, error } = useGoodsReceivedNotes(currentCompany?.id);
+
+  const filteredGRNs = grns.filter(grn => {
+    const term = searchTerm.toLowerCase();
+    return !term ||
+      grn.grn_number?.toLowerCase().includes(term) ||
+      grn.lpos?.lpo_number?.toLowerCase().includes(term) ||
+      grn.suppliers?.name?.toLowerCase().includes(term) ||
+      grn.supplier_delivery_note?.toLowerCase().includes(term);
+  });
+
+  const handleDownload = async (grn: GoodsReceivedNote) => {
+    try {
+      await downloadGRNPDF({ ...grn, previously_received: previouslyReceivedFor(grn, grns) }, currentCompany ? {
+        name: currentCompany.name,
+        email: currentCompany.email,
+        phone: currentCompany.phone,
+        address: currentCompany.address,
+        city: currentCompany.city,
+        country: currentCompany.country,
+        tax_number: currentCompany.tax_number,
+        logo_url: currentCompany.logo_url
+      } : undefined);
+      toast.success(`GRN ${grn.grn_number} PDF opened for printing`);
+    } catch (err) {
+      console.error('Error downloading GRN:', err);
+      toast.error('Failed to generate GRN PDF');
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Goods Received</h1>
+          <p className="text-muted-foreground">Deliveries received against purchase orders</p>
+        </div>
+        <Card className="shadow-card">
+          <CardContent className="pt-6">
+            <div className="text-center py-8">
+              <p className="text-destructive">Error loading goods received notes: {error.message}</p>
+              <Button variant="outline" onClick={() => window.location.reload()} className="mt-4">
+                Retry
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Goods Received</h1>
+          <p className="text-muted-foreground">
+            Deliveries received against purchase orders
+          </p>
+        </div>
+        <Button
+          className="gradient-primary text-primary-foreground hover:opacity-90 shadow-card"
+          size="lg"
+          onClick={() => setShowReceiveModal(true)}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Receive Goods
+        </Button>
+      </div>
+
+      {/* Search */}
+      <Card className="shadow-card">
+        <CardContent className="pt-6">
+          <div className="relative max-w-md">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Search by GRN, LPO, supplier or delivery note..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* GRN Table */}
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <PackageCheck className="h-5 w-5 text-primary" />
+            <span>Goods Received Notes</span>
+            {!isLoading && (
+              <Badge variant="outline" className="ml-auto">
+                {filteredGRNs.length} notes
+              </Badge>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4">
+              {[...Array(5)].map((_, i) => (
+                <div key={i} className="flex items-center space-x-4 p-4">
+                  <div className="flex-1 space-y-2">
+                    <Skeleton className="h-4 w-32" />
+                    <Skeleton className="h-3 w-48" />
+                  </div>
+                  <Skeleton className="h-4 w-20" />
+                  <Skeleton className="h-4 w-24" />
+                </div>
+              ))}
+            </div>
+          ) : filteredGRNs.length === 0 ? (
+            <div className="text-center py-12">
+              <PackageCheck className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium text-foreground mb-2">No goods received notes found</h3>
+              <p className="text-muted-foreground mb-6">
+                {searchTerm ? 'Try adjusting your search criteria' : 'Record a delivery against an approved purchase order'}
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>GRN Number</TableHead>
+                  <TableHead>LPO</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead className="hidden md:table-cell">Received</TableHead>
+                  <TableHead className="hidden lg:table-cell">Supplier DN</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredGRNs.map(grn => (
+                  <TableRow key={grn.id} className="hover:bg-muted/50 transition-smooth">
+                    <TableCell className="font-medium">{grn.grn_number}</TableCell>
+                    <TableCell>{grn.lpos?.lpo_number || '-'}</TableCell>
+                    <TableCell>{grn.suppliers?.name || '-'}</TableCell>
+                    <TableCell className="hidden md:table-cell">
+                      <div>{formatDate(grn.received_date)}</div>
+                      {grn.received_by && <div className="text-xs text-muted-foreground">by {grn.received_by}</div>}
+                    </TableCell>
+                    <TableCell className="hidden lg:table-cell">{grn.supplier_delivery_note || '-'}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(grn.total_value)}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end space-x-1">
+                        <Button variant="ghost" size="icon" onClick={() => setSelectedGRN(grn)} title="View"><Eye className="h-4 w-4" /></Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleDownload(grn)} title="Download PDF"><Download className="h-4 w-4" /></Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <ReceiveGoodsModal open={showReceiveModal} onOpenChange={setShowReceiveModal} />
+
+      <Dialog open={!!selectedGRN} onOpenChange={(open) => !open && setSelectedGRN(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center space-x-2">
+              <PackageCheck className="h-5 w-5 text-primary" />
+              <span>{selectedGRN?.grn_number}</span>
+            </DialogTitle>
+            <DialogDescription>
+              Received {formatDate(selectedGRN?.received_date)} against {selectedGRN?.lpos?.lpo_number} from {selectedGRN?.suppliers?.name}
+            </DialogDescription>
+          </DialogHeader>
+
+          {selectedGRN && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <div className="text-muted-foreground">Supplier Delivery Note</div>
+                  <div className="font-medium">{selectedGRN.supplier_delivery_note || '-'}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Received By</div>
+                  <div className="font-medium">{selectedGRN.received_by || '-'}</div>
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">Qty Received</TableHead>
+                    <TableHead className="text-right">Unit Cost</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...(selectedGRN.grn_items || [])]
+                    .sort((a, b) => (a.sort_order || 0) - (b.sort_order || 0))
+                    .map(item => (
+                      <TableRow key={item.id}>
+                        <TableCell>{item.description}</TableCell>
+                        <TableCell className="text-right">{item.quantity_received} {item.products?.unit_of_measure || ''}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(item.unit_cost)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(item.line_total)}</TableCell>
+                      </TableRow>
+                    ))}
+                </TableBody>
+              </Table>
+
+              <div className="flex justify-between items-center">
+                <Button variant="outline" onClick={() => handleDownload(selectedGRN)}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download PDF
+                </Button>
+                <div className="text-lg font-semibold">Total: {formatCurrency(selectedGRN.total_value)}</div>
+              </div>
+
+              {selectedGRN.notes && (
+                <div className="text-sm">
+                  <div className="text-muted-foreground">Notes</div>
+                  <div className="whitespace-pre-wrap">{selectedGRN.notes}</div>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
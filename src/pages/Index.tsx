@@ -6,13 +6,13 @@ import { Button } from '@/components/ui/button';
 import { FileText, BarChart3 } from 'lucide-react';
 import { DatabaseStatusBanner } from '@/components/DatabaseStatusBanner';
 import { downloadQuotationPDF } from '@/utils/pdfGenerator';
-import { useQuotations, useCompanies } from '@/hooks/useDatabase';
+import { useQuotations } from '@/hooks/useDatabase';
 import { useState } from 'react';
 import { toast } from 'sonner';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
 
 const Index = () => {
-  const { data: companies } = useCompanies();
-  const currentCompany = companies?.[0];
+  const { currentCompany } = useCurrentCompany();
   const { data: quotations } = useQuotations(currentCompany?.id);
   const [showAuthPerformance, setShowAuthPerformance] = useState(false);
 
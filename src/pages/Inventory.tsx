@@ -4,7 +4,7 @@ import { EditInventoryItemModal } from '@/components/inventory/EditInventoryItem
 import { ViewInventoryItemModal } from '@/components/inventory/ViewInventoryItemModal';
 import { RestockItemModal } from '@/components/inventory/RestockItemModal';
 import { StockAdjustmentModal } from '@/components/inventory/StockAdjustmentModal';
-import { useProducts, useCompanies } from '@/hooks/useDatabase';
+import { useProducts } from '@/hooks/useDatabase';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -29,6 +29,8 @@ import {
   TrendingUp,
   TrendingDown
 } from 'lucide-react';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { usePermission } from '@/hooks/usePermissions';
 
 interface InventoryItem {
   id: string;
@@ -87,8 +89,9 @@ export default function Inventory() {
   const [selectedItem, setSelectedItem] = useState<InventoryItem | null>(null);
 
   // Fetch products from database
-  const { data: companies } = useCompanies();
-  const currentCompany = companies?.[0];
+  const { currentCompany } = useCurrentCompany();
+  const canManageInventory = usePermission('inventory.manage');
+  const canAdjustStock = usePermission('inventory.adjust');
   const { data: products, isLoading: loadingProducts, error: productsError } = useProducts(currentCompany?.id);
 
   const handleAddItem = () => {
@@ -208,14 +211,18 @@ export default function Inventory() {
           </p>
         </div>
         <div className="flex items-center space-x-3">
-          <Button variant="outline" onClick={handleStockAdjustment}>
-            <Package className="h-4 w-4 mr-2" />
-            Stock Adjustment
-          </Button>
-          <Button className="gradient-primary text-primary-foreground hover:opacity-90 shadow-card" size="lg" onClick={handleAddItem}>
-            <Plus className="h-4 w-4 mr-2" />
-            Add Item
-          </Button>
+          {canAdjustStock && (
+            <Button variant="outline" onClick={handleStockAdjustment}>
+              <Package className="h-4 w-4 mr-2" />
+              Stock Adjustment
+            </Button>
+          )}
+          {canManageInventory && (
+            <Button className="gradient-primary text-primary-foreground hover:opacity-90 shadow-card" size="lg" onClick={handleAddItem}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Item
+            </Button>
+          )}
         </div>
       </div>
 
@@ -320,7 +327,7 @@ export default function Inventory() {
                       <p className="text-muted-foreground">
                         {searchTerm ? 'No products found matching your search.' : 'No products in inventory yet.'}
                       </p>
-                      {!searchTerm && (
+                      {!searchTerm && canManageInventory && (
                         <Button onClick={handleAddItem} className="mt-2">
                           <Plus className="h-4 w-4 mr-2" />
                           Add Your First Product
@@ -356,15 +363,17 @@ export default function Inventory() {
                         >
                           <Eye className="h-4 w-4" />
                         </Button>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => handleEditItem(item)}
-                          title="Edit item"
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        {item.status === 'low_stock' && (
+                        {canManageInventory && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleEditItem(item)}
+                            title="Edit item"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {item.status === 'low_stock' && canAdjustStock && (
                           <Button
                             variant="outline"
                             size="sm"
@@ -36,20 +36,28 @@ import {
   Send,
   Calendar,
   Receipt,
-  Truck
+  Truck,
+  Ban,
+  Link2
 } from 'lucide-react';
-import { useCompanies } from '@/hooks/useDatabase';
 import { useInvoicesFixed as useInvoices } from '@/hooks/useInvoicesFixed';
 import { toast } from 'sonner';
 import { parseErrorMessage } from '@/utils/errorHelpers';
 import { CreateInvoiceModal } from '@/components/invoices/CreateInvoiceModal';
 import { EditInvoiceModal } from '@/components/invoices/EditInvoiceModal';
 import { ViewInvoiceModal } from '@/components/invoices/ViewInvoiceModal';
+import { VoidInvoiceModal } from '@/components/invoices/VoidInvoiceModal';
 import { RecordPaymentModal } from '@/components/payments/RecordPaymentModal';
 import { CreateDeliveryNoteModal } from '@/components/delivery/CreateDeliveryNoteModal';
+import { ShareDocumentModal } from '@/components/portal/ShareDocumentModal';
 import { downloadInvoicePDF } from '@/utils/pdfGenerator';
 import { supabase } from '@/integrations/supabase/client';
 import { useLocation } from 'react-router-dom';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { usePermission } from '@/hooks/usePermissions';
+import { EtimsQueueCard } from '@/components/etims/EtimsQueueCard';
+import { useMarkInvoiceSent } from '@/hooks/useDatabase';
+import { canVoidInvoice, isInvoicePosted, isInvoiceVoid } from '@/utils/documentLocks';
 
 interface Invoice {
   id: string;
@@ -63,7 +71,10 @@ interface Invoice {
   total_amount: number;
   paid_amount: number;
   balance_due: number;
-  status: 'draft' | 'sent' | 'paid' | 'partial' | 'overdue';
+  currency?: string;
+  status: 'draft' | 'sent' | 'paid' | 'partial' | 'overdue' | 'void';
+  void_reason?: string;
+  voided_at?: string;
   invoice_items?: any[];
 }
 
@@ -79,6 +90,8 @@ function getStatusColor(status: string) {
       return 'bg-primary-light text-primary border-primary/20';
     case 'overdue':
       return 'bg-destructive-light text-destructive border-destructive/20';
+    case 'void':
+      return 'bg-muted text-muted-foreground border-muted-foreground/20 line-through';
     default:
       return 'bg-muted text-muted-foreground border-muted-foreground/20';
   }
@@ -91,6 +104,8 @@ export default function Invoices() {
   const [showViewModal, setShowViewModal] = useState(false);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [showDeliveryNoteModal, setShowDeliveryNoteModal] = useState(false);
+  const [showVoidModal, setShowVoidModal] = useState(false);
+  const [showShareModal, setShowShareModal] = useState(false);
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
 
   // Filter states
@@ -101,8 +116,10 @@ export default function Invoices() {
   const [amountFromFilter, setAmountFromFilter] = useState('');
   const [amountToFilter, setAmountToFilter] = useState('');
 
-  const { data: companies } = useCompanies();
-  const currentCompany = companies?.[0];
+  const { currentCompany } = useCurrentCompany();
+  const canCreateInvoices = usePermission('invoice.create');
+  const canVoidInvoices = usePermission('invoice.void');
+  const markInvoiceSent = useMarkInvoiceSent();
   
   // Use the fixed invoices hook
   const { data: invoices, isLoading, error, refetch } = useInvoices(currentCompany?.id);
@@ -137,10 +154,10 @@ export default function Invoices() {
     return matchesSearch && matchesStatus && matchesDateFrom && matchesDateTo && matchesAmountFrom && matchesAmountTo;
   }) || [];
 
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, currency?: string | null) => {
     return new Intl.NumberFormat('en-KE', {
       style: 'currency',
-      currency: 'KES',
+      currency: currency || 'KES',
       minimumFractionDigits: 0,
       maximumFractionDigits: 0
     }).format(amount);
@@ -163,6 +180,11 @@ export default function Invoices() {
     setShowViewModal(true);
   };
 
+  const handleShareInvoice = (invoice: Invoice) => {
+    setSelectedInvoice(invoice);
+    setShowShareModal(true);
+  };
+
   const handleEditInvoice = (invoice: Invoice) => {
     setSelectedInvoice(invoice);
     setShowEditModal(true);
@@ -232,6 +254,19 @@ export default function Invoices() {
       return;
     }
 
+    // Sending posts the invoice; from here on it can only be corrected by credit note or void.
+    // It is posted first so an invoice eTIMS refuses is never emailed
+    if (invoiceData.status === 'draft') {
+      try {
+        await markInvoiceSent.mutateAsync(invoiceData.id);
+        refetch();
+      } catch (error) {
+        console.error('Error marking invoice as sent:', error);
+        toast.error((error as { message?: string })?.message || 'Failed to mark invoice as sent');
+        return;
+      }
+    }
+
     try {
       // Create email content
       const subject = `Invoice ${invoiceData.invoice_number} from Layons Construction Limited`;
@@ -240,9 +275,9 @@ export default function Invoices() {
 Please find attached your invoice ${invoiceData.invoice_number} dated ${new Date(invoiceData.invoice_date).toLocaleDateString()}.
 
 Invoice Summary:
-- Invoice Amount: ${formatCurrency(invoiceData.total_amount || 0)}
+- Invoice Amount: ${formatCurrency(invoiceData.total_amount || 0, invoiceData.currency)}
 - Due Date: ${new Date(invoiceData.due_date).toLocaleDateString()}
-- Balance Due: ${formatCurrency(invoiceData.balance_due || 0)}
+- Balance Due: ${formatCurrency(invoiceData.balance_due || 0, invoiceData.currency)}
 
 Payment can be made via:
 - Bank Transfer
@@ -262,9 +297,6 @@ Website:`;
       window.open(emailUrl, '_blank');
 
       toast.success(`Email client opened with invoice ${invoiceData.invoice_number} for ${invoiceData.customers.email}`);
-
-      // TODO: In a real app, update invoice status to 'sent'
-
     } catch (error) {
       console.error('Error sending invoice:', error);
       toast.error('Failed to send invoice email. Please try again.');
@@ -285,6 +317,12 @@ Website:`;
     setShowPaymentModal(true);
   };
 
+  const handleVoidInvoice = (invoice: Invoice) => {
+    setSelectedInvoice(invoice);
+    setShowViewModal(false);
+    setShowVoidModal(true);
+  };
+
   const handleCreateDeliveryNote = (invoice: Invoice) => {
     if (!invoice) {
       toast.error('Invoice not found');
@@ -344,16 +382,20 @@ Website:`;
             Create and manage customer invoices
           </p>
         </div>
-        <Button
-          className="gradient-primary text-primary-foreground hover:opacity-90 shadow-card"
-          size="lg"
-          onClick={() => setShowCreateModal(true)}
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          New Invoice
-        </Button>
+        {canCreateInvoices && (
+          <Button
+            className="gradient-primary text-primary-foreground hover:opacity-90 shadow-card"
+            size="lg"
+            onClick={() => setShowCreateModal(true)}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Invoice
+          </Button>
+        )}
       </div>
 
+      <EtimsQueueCard documentType="invoice" canSubmit={canCreateInvoices} />
+
       {/* Filters and Search */}
       <Card className="shadow-card">
         <CardContent className="pt-6">
@@ -389,6 +431,7 @@ Website:`;
                         <SelectItem value="paid">Paid</SelectItem>
                         <SelectItem value="partial">Partial</SelectItem>
                         <SelectItem value="overdue">Overdue</SelectItem>
+                        <SelectItem value="void">Void</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
@@ -490,7 +533,7 @@ Website:`;
                   : 'Get started by creating your first invoice'
                 }
               </p>
-              {!searchTerm && (
+              {!searchTerm && canCreateInvoices && (
                 <Button
                   onClick={() => setShowCreateModal(true)}
                   className="gradient-primary text-primary-foreground hover:opacity-90"
@@ -542,13 +585,13 @@ Website:`;
                       {new Date(invoice.due_date).toLocaleDateString()}
                     </TableCell>
                     <TableCell className="font-semibold">
-                      {formatCurrency(invoice.total_amount || 0)}
+                      {formatCurrency(invoice.total_amount || 0, invoice.currency)}
                     </TableCell>
                     <TableCell className="text-success">
-                      {formatCurrency(invoice.paid_amount || 0)}
+                      {formatCurrency(invoice.paid_amount || 0, invoice.currency)}
                     </TableCell>
                     <TableCell className={`font-medium ${(invoice.balance_due || 0) > 0 ? 'text-destructive' : 'text-success'}`}>
-                      {formatCurrency(invoice.balance_due || 0)}
+                      {formatCurrency(invoice.balance_due || 0, invoice.currency)}
                     </TableCell>
                     <TableCell>
                       <Badge variant="outline" className={getStatusColor(invoice.status)}>
@@ -565,7 +608,7 @@ Website:`;
                         >
                           <Eye className="h-4 w-4" />
                         </Button>
-                        {invoice.status === 'draft' && (
+                        {!isInvoicePosted(invoice) && (
                           <Button 
                             variant="ghost" 
                             size="icon"
@@ -583,6 +626,16 @@ Website:`;
                         >
                           <Download className="h-4 w-4" />
                         </Button>
+                        {canCreateInvoices && !isInvoiceVoid(invoice) && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleShareInvoice(invoice)}
+                            title="Share with customer"
+                          >
+                            <Link2 className="h-4 w-4" />
+                          </Button>
+                        )}
                         {/* Create Delivery Note - Available for sent/paid invoices */}
                         {(invoice.status === 'sent' || invoice.status === 'paid' || invoice.status === 'partial') && (
                           <Button
@@ -594,7 +647,17 @@ Website:`;
                             <Truck className="h-4 w-4" />
                           </Button>
                         )}
-                        {invoice.status !== 'paid' && (
+                        {canVoidInvoices && canVoidInvoice(invoice) && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleVoidInvoice(invoice)}
+                            title="Void invoice"
+                          >
+                            <Ban className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {invoice.status !== 'paid' && !isInvoiceVoid(invoice) && (
                           <>
                             {invoice.status === 'draft' && (
                               <Button 
@@ -648,6 +711,20 @@ Website:`;
           onDownload={() => handleDownloadInvoice(selectedInvoice)}
           onSend={() => handleSendInvoice(selectedInvoice.id)}
           onRecordPayment={() => handleRecordPayment(selectedInvoice.id)}
+          onVoid={canVoidInvoices ? () => handleVoidInvoice(selectedInvoice) : undefined}
+        />
+      )}
+
+      {/* Void Invoice Modal */}
+      {selectedInvoice && (
+        <VoidInvoiceModal
+          open={showVoidModal}
+          onOpenChange={setShowVoidModal}
+          invoice={selectedInvoice}
+          onSuccess={() => {
+            refetch();
+            setSelectedInvoice(null);
+          }}
         />
       )}
 
@@ -685,6 +762,13 @@ Website:`;
           toast.success('Delivery note created successfully!');
         }}
       />
+
+      <ShareDocumentModal
+        open={showShareModal}
+        onOpenChange={setShowShareModal}
+        documentType="invoice"
+        document={selectedInvoice}
+      />
     </div>
   );
 }
@@ -27,31 +27,33 @@ import {
   Clock,
   AlertTriangle,
   FileText,
-  User,
   Database
 } from 'lucide-react';
 import { toast } from 'sonner';
-import { useLPOs, useUpdateLPO, useCompanies } from '@/hooks/useDatabase';
+import { useLPOs, useUpdateLPO, type LPO } from '@/hooks/useDatabase';
 import { downloadLPOPDF } from '@/utils/pdfGenerator';
 import { CreateLPOModal } from '@/components/lpo/CreateLPOModal';
 import { ViewLPOModal } from '@/components/lpo/ViewLPOModal';
 import { EditLPOModal } from '@/components/lpo/EditLPOModal';
+import { ReceiveGoodsModal } from '@/components/grn/ReceiveGoodsModal';
 import { DatabaseAuditPanel } from '@/components/DatabaseAuditPanel';
 import { DirectForceMigration } from '@/components/DirectForceMigration';
-import { LPOCustomerSupplierAudit } from '@/components/LPOCustomerSupplierAudit';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { usePermission } from '@/hooks/usePermissions';
+import { isLPOLocked } from '@/utils/documentLocks';
 
 export default function LPOs() {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showViewModal, setShowViewModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
+  const [showReceiveModal, setShowReceiveModal] = useState(false);
   const [selectedLPO, setSelectedLPO] = useState(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [showAuditPanel, setShowAuditPanel] = useState(false);
-  const [showCustomerSupplierAudit, setShowCustomerSupplierAudit] = useState(false);
 
   // Database hooks
-  const { data: companies } = useCompanies();
-  const currentCompany = companies?.[0];
+  const { currentCompany } = useCurrentCompany();
+  const canCreateLPOs = usePermission('purchase.create');
   const { data: lpos, isLoading, error, refetch } = useLPOs(currentCompany?.id);
   const updateLPO = useUpdateLPO();
 
@@ -71,6 +73,8 @@ export default function LPOs() {
         return <Badge variant="outline" className="bg-primary-light text-primary border-primary/20"><Send className="h-3 w-3 mr-1" />Sent</Badge>;
       case 'approved':
         return <Badge variant="outline" className="bg-success-light text-success border-success/20"><CheckCircle className="h-3 w-3 mr-1" />Approved</Badge>;
+      case 'partially_received':
+        return <Badge variant="outline" className="bg-warning-light text-warning border-warning/20"><Package className="h-3 w-3 mr-1" />Partially Received</Badge>;
       case 'received':
         return <Badge variant="outline" className="bg-success text-success-foreground"><Package className="h-3 w-3 mr-1" />Received</Badge>;
       case 'cancelled':
@@ -84,10 +88,10 @@ export default function LPOs() {
     return new Date(dateString).toLocaleDateString();
   };
 
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, currency?: string | null) => {
     return new Intl.NumberFormat('en-KE', {
       style: 'currency',
-      currency: 'KES',
+      currency: currency || 'KES',
       minimumFractionDigits: 0,
       maximumFractionDigits: 0
     }).format(amount);
@@ -150,6 +154,12 @@ export default function LPOs() {
     }
   };
 
+  const handleReceiveGoods = (lpo: LPO) => {
+    setSelectedLPO(lpo);
+    setShowViewModal(false);
+    setShowReceiveModal(true);
+  };
+
   const handleFilter = () => {
     toast.info('Advanced filter functionality coming soon!');
   };
@@ -235,14 +245,16 @@ export default function LPOs() {
             Create and manage purchase orders to suppliers
           </p>
         </div>
-        <Button 
-          variant="default" 
-          size="lg"
-          onClick={() => setShowCreateModal(true)}
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          New LPO
-        </Button>
+        {canCreateLPOs && (
+          <Button 
+            variant="default" 
+            size="lg"
+            onClick={() => setShowCreateModal(true)}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New LPO
+          </Button>
+        )}
       </div>
 
       {/* Database Audit Panel */}
@@ -250,11 +262,6 @@ export default function LPOs() {
         <DatabaseAuditPanel />
       )}
 
-      {/* Customer vs Supplier Audit Panel */}
-      {showCustomerSupplierAudit && (
-        <LPOCustomerSupplierAudit />
-      )}
-
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
         <Card>
@@ -345,15 +352,6 @@ export default function LPOs() {
                 <Database className="h-4 w-4 mr-2" />
                 Database Audit
               </Button>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => setShowCustomerSupplierAudit(!showCustomerSupplierAudit)}
-                className="border-orange-500 text-orange-600 hover:bg-orange-50"
-              >
-                <User className="h-4 w-4 mr-2" />
-                Customer/Supplier Audit
-              </Button>
             </div>
           </div>
         </CardHeader>
@@ -377,7 +375,7 @@ export default function LPOs() {
               <p className="text-muted-foreground mb-4">
                 {searchTerm ? 'No LPOs match your search.' : 'Create your first Local Purchase Order to get started.'}
               </p>
-              {!searchTerm && (
+              {!searchTerm && canCreateLPOs && (
                 <Button onClick={() => setShowCreateModal(true)}>
                   <Plus className="h-4 w-4 mr-2" />
                   Create LPO
@@ -430,7 +428,7 @@ export default function LPOs() {
                       )}
                     </TableCell>
                     <TableCell className="font-medium">
-                      {formatCurrency(lpo.total_amount)}
+                      {formatCurrency(lpo.total_amount, lpo.currency)}
                     </TableCell>
                     <TableCell>
                       {getStatusBadge(lpo.status)}
@@ -444,13 +442,15 @@ export default function LPOs() {
                         >
                           <Eye className="h-4 w-4" />
                         </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleEdit(lpo)}
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
+                        {!isLPOLocked(lpo) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleEdit(lpo)}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
@@ -466,11 +466,12 @@ export default function LPOs() {
                         >
                           <Send className="h-4 w-4" />
                         </Button>
-                        {lpo.status === 'approved' && (
+                        {(lpo.status === 'approved' || lpo.status === 'partially_received') && (
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => handleUpdateStatus(lpo, 'received')}
+                            onClick={() => handleReceiveGoods(lpo)}
+                            title="Receive Goods"
                           >
                             <Package className="h-4 w-4" />
                           </Button>
@@ -503,6 +504,13 @@ export default function LPOs() {
         onDownloadPDF={handleDownloadPDF}
         onSendEmail={handleSendEmail}
         onUpdateStatus={handleUpdateStatus}
+        onReceiveGoods={handleReceiveGoods}
+      />
+
+      <ReceiveGoodsModal
+        open={showReceiveModal}
+        onOpenChange={setShowReceiveModal}
+        lpo={selectedLPO}
       />
 
       <EditLPOModal
@@ -0,0 +1,454 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  AlertTriangle,
+  CheckCircle,
+  Copy,
+  EyeOff,
+  FileUp,
+  Loader2,
+  Receipt,
+  Search,
+  Smartphone,
+  Undo2
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { usePermission } from '@/hooks/usePermissions';
+import { useCustomers, usePayments } from '@/hooks/useDatabase';
+import { useInvoicesFixed } from '@/hooks/useInvoicesFixed';
+import {
+  useMpesaTransactions,
+  useRecordMpesaTransaction,
+  useSetMpesaTransactionIgnored,
+  type MpesaTransaction,
+} from '@/hooks/useMpesa';
+import { matchAccountReference, type MpesaTransactionStatus } from '@/utils/mpesaImport';
+import { invoiceOpenBalance, openInvoicesForCredit } from '@/utils/customerCredit';
+import { ImportMpesaStatementModal } from '@/components/mpesa/ImportMpesaStatementModal';
+
+function getStatusColor(status: MpesaTransactionStatus) {
+  switch (status) {
+    case 'recorded':
+      return 'bg-success-light text-success border-success/20';
+    case 'pending':
+      return 'bg-warning-light text-warning border-warning/20';
+    case 'duplicate':
+      return 'bg-destructive-light text-destructive border-destructive/20';
+    default:
+      return 'bg-muted text-muted-foreground border-muted-foreground/20';
+  }
+}
+
+const formatCurrency = (amount: number) => new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES' }).format(Number(amount || 0));
+
+// Select values for a manual match: an open invoice, or a customer to take the receipt as credit
+const invoiceTarget = (id: string) => `invoice:${id}`;
+const customerTarget = (id: string) => `customer:${id}`;
+
+interface RecordTarget {
+  invoiceId: string | null;
+  customerId: string;
+  label: string;
+}
+
+export default function MpesaReceipts() {
+  const [statusFilter, setStatusFilter] = useState<MpesaTransactionStatus>('pending');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showImport, setShowImport] = useState(false);
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const [recordingAll, setRecordingAll] = useState(false);
+
+  const { currentCompany } = useCurrentCompany();
+  const companyId = currentCompany?.id;
+  const canRecord = usePermission('payment.record');
+  const { data: transactions = [], isLoading, error } = useMpesaTransactions(companyId);
+  const { data: payments = [] } = usePayments(companyId);
+  const { data: invoices = [] } = useInvoicesFixed(companyId);
+  const { data: customers = [] } = useCustomers(companyId);
+  const recordTransaction = useRecordMpesaTransaction();
+  const setIgnored = useSetMpesaTransactionIgnored();
+
+  const openInvoices = useMemo(() => openInvoicesForCredit(invoices), [invoices]);
+
+  // The user's choice wins over the account reference match
+  const resolveTarget = (transaction: MpesaTransaction): RecordTarget | null => {
+    const chosen = targets[transaction.id];
+    if (chosen?.startsWith('invoice:')) {
+      const invoice = openInvoices.find(inv => invoiceTarget(inv.id) === chosen);
+      if (invoice) return { invoiceId: invoice.id, customerId: invoice.customer_id, label: invoice.invoice_number };
+    }
+    if (chosen?.startsWith('customer:')) {
+      const customer = customers.find(c => customerTarget(c.id) === chosen);
+      if (customer) return { invoiceId: null, customerId: customer.id, label: `${customer.name} (credit)` };
+    }
+
+    const match = matchAccountReference(transaction.account_reference, invoices, customers);
+    if (match.invoice) return { invoiceId: match.invoice.id, customerId: match.invoice.customer_id, label: match.invoice.invoice_number };
+    if (match.customer) return { invoiceId: null, customerId: match.customer.id, label: `${match.customer.name} (credit)` };
+    return null;
+  };
+
+  const pending = transactions.filter(t => t.status === 'pending');
+  const readyToRecord = pending.filter(t => resolveTarget(t));
+  const duplicates = transactions.filter(t => t.status === 'duplicate');
+  const now = new Date();
+  const recordedThisMonth = transactions.filter(t => {
+    const time = new Date(t.transaction_time);
+    return t.status === 'recorded' && time.getMonth() === now.getMonth() && time.getFullYear() === now.getFullYear();
+  });
+
+  const filteredTransactions = transactions.filter(t => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = !term ||
+      t.receipt_number.toLowerCase().includes(term) ||
+      t.account_reference?.toLowerCase().includes(term) ||
+      t.payer_name?.toLowerCase().includes(term) ||
+      t.payer_phone?.includes(term) ||
+      String(t.amount).includes(term);
+    return matchesSearch && t.status === statusFilter;
+  });
+
+  const record = async (transaction: MpesaTransaction) => {
+    const target = resolveTarget(transaction);
+    if (!target) {
+      toast.error(`Choose the invoice or customer receipt ${transaction.receipt_number} is for`);
+      return false;
+    }
+    await recordTransaction.mutateAsync({ transaction, invoiceId: target.invoiceId, customerId: target.customerId });
+    return true;
+  };
+
+  const handleRecord = async (transaction: MpesaTransaction) => {
+    try {
+      if (await record(transaction)) {
+        toast.success(`Receipt ${transaction.receipt_number} recorded as a payment of ${formatCurrency(transaction.amount)}`);
+      }
+    } catch (err) {
+      console.error('Error recording M-Pesa receipt:', err);
+      toast.error((err as { message?: string })?.message || 'Failed to record M-Pesa receipt');
+    }
+  };
+
+  // One at a time: each receipt goes through useCreatePayment and its own invoice allocation
+  const handleRecordAll = async () => {
+    setRecordingAll(true);
+    let recorded = 0;
+    const failed: string[] = [];
+    for (const transaction of readyToRecord) {
+      try {
+        if (await record(transaction)) recorded++;
+      } catch (err) {
+        console.error(`Error recording M-Pesa receipt ${transaction.receipt_number}:`, err);
+        failed.push(transaction.receipt_number);
+      }
+    }
+    setRecordingAll(false);
+
+    if (recorded > 0) toast.success(`Recorded ${recorded} M-Pesa receipt${recorded === 1 ? '' : 's'} as payments`);
+    if (failed.length > 0) {
+      toast.error(`${failed.length} receipt${failed.length === 1 ? '' : 's'} could not be recorded`, {
+        description: failed.slice(0, 5).join(', ')
+      });
+    }
+  };
+
+  const handleIgnore = async (transaction: MpesaTransaction, ignored: boolean) => {
+    try {
+      await setIgnored.mutateAsync({ transaction, ignored });
+    } catch (err) {
+      console.error('Error updating M-Pesa receipt:', err);
+      toast.error((err as { message?: string })?.message || 'Failed to update M-Pesa receipt');
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">M-Pesa Receipts</h1>
+          <p className="text-muted-foreground">Paybill receipts matched to invoices</p>
+        </div>
+        <Card className="shadow-card">
+          <CardContent className="pt-6">
+            <div className="text-center py-8">
+              <p className="text-destructive">Error loading M-Pesa receipts: {error.message}</p>
+              <Button variant="outline" onClick={() => window.location.reload()} className="mt-4">
+                Retry
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">M-Pesa Receipts</h1>
+          <p className="text-muted-foreground">
+            {currentCompany?.mpesa_paybill_number ? `Paybill ${currentCompany.mpesa_paybill_number} • ` : ''}
+            Match paybill receipts to invoices and customers, then record them as payments
+          </p>
+        </div>
+        {canRecord && (
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" onClick={handleRecordAll} disabled={recordingAll || readyToRecord.length === 0}>
+              {recordingAll ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle className="h-4 w-4 mr-2" />}
+              Record {readyToRecord.length} Matched
+            </Button>
+            <Button
+              className="gradient-primary text-primary-foreground hover:opacity-90 shadow-card"
+              size="lg"
+              onClick={() => setShowImport(true)}
+              disabled={!companyId}
+            >
+              <FileUp className="h-4 w-4 mr-2" />
+              Import M-Pesa Statement
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card className="shadow-card">
+          <CardContent className="p-6">
+            <div className="flex items-center space-x-2">
+              <Smartphone className="h-8 w-8 text-warning" />
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Pending Receipts</p>
+                <p className="text-lg font-bold text-warning">
+                  {pending.length} • {formatCurrency(pending.reduce((sum, t) => sum + Number(t.amount), 0))}
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-card">
+          <CardContent className="p-6">
+            <div className="flex items-center space-x-2">
+              <CheckCircle className="h-8 w-8 text-primary" />
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Ready to Record</p>
+                <p className="text-lg font-bold text-primary">{readyToRecord.length}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-card">
+          <CardContent className="p-6">
+            <div className="flex items-center space-x-2">
+              <Receipt className="h-8 w-8 text-success" />
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Recorded This Month</p>
+                <p className="text-lg font-bold text-success">
+                  {formatCurrency(recordedThisMonth.reduce((sum, t) => sum + Number(t.amount), 0))}
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-card">
+          <CardContent className="p-6">
+            <div className="flex items-center space-x-2">
+              <Copy className="h-8 w-8 text-destructive" />
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Duplicates Flagged</p>
+                <p className="text-lg font-bold text-destructive">{duplicates.length}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="shadow-card">
+        <CardHeader>
+          <div className="flex items-center space-x-4">
+            <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as MpesaTransactionStatus)}>
+              <TabsList>
+                <TabsTrigger value="pending">Pending ({pending.length})</TabsTrigger>
+                <TabsTrigger value="recorded">Recorded</TabsTrigger>
+                <TabsTrigger value="duplicate">Duplicates ({duplicates.length})</TabsTrigger>
+                <TabsTrigger value="ignored">Ignored</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder="Search receipt, account, payer or amount..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-4 w-full" />
+              ))}
+            </div>
+          ) : filteredTransactions.length === 0 ? (
+            <div className="text-center py-12">
+              <Smartphone className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium text-foreground mb-2">No {statusFilter} receipts</h3>
+              <p className="text-muted-foreground">
+                {transactions.length === 0
+                  ? 'Import a paybill statement, or receive C2B confirmations from M-Pesa'
+                  : 'Try adjusting your search'}
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Receipt</TableHead>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Payer</TableHead>
+                  <TableHead>Account</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>{statusFilter === 'pending' ? 'Record To' : 'Payment'}</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredTransactions.map(transaction => {
+                  const target = transaction.status === 'pending' ? resolveTarget(transaction) : null;
+                  return (
+                    <TableRow key={transaction.id} className="hover:bg-muted/50 transition-smooth">
+                      <TableCell>
+                        <div className="font-medium">{transaction.receipt_number}</div>
+                        <div className="flex items-center space-x-1 mt-1">
+                          <Badge variant="outline" className={getStatusColor(transaction.status)}>
+                            {transaction.status}
+                          </Badge>
+                          <Badge variant="outline">{transaction.source === 'c2b' ? 'C2B' : 'Statement'}</Badge>
+                        </div>
+                      </TableCell>
+                      <TableCell>{new Date(transaction.transaction_time).toLocaleString()}</TableCell>
+                      <TableCell>
+                        <div>{transaction.payer_name || '-'}</div>
+                        {transaction.payer_phone && <div className="text-sm text-muted-foreground">{transaction.payer_phone}</div>}
+                      </TableCell>
+                      <TableCell>{transaction.account_reference || '-'}</TableCell>
+                      <TableCell className="text-right font-medium text-success">{formatCurrency(transaction.amount)}</TableCell>
+                      <TableCell>
+                        {transaction.status === 'pending' ? (
+                          canRecord ? (
+                            <Select
+                              value={targets[transaction.id] || ''}
+                              onValueChange={(value) => setTargets(prev => ({ ...prev, [transaction.id]: value }))}
+                            >
+                              <SelectTrigger className={`w-64 ${target ? '' : 'border-warning'}`}>
+                                <SelectValue placeholder={target ? target.label : 'No match — choose...'} />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {openInvoices.map(invoice => (
+                                  <SelectItem key={invoice.id} value={invoiceTarget(invoice.id)}>
+                                    {invoice.invoice_number} • {invoice.customers?.name} • {formatCurrency(invoiceOpenBalance(invoice))}
+                                  </SelectItem>
+                                ))}
+                                {customers.map(customer => (
+                                  <SelectItem key={customer.id} value={customerTarget(customer.id)}>
+                                    Credit to {customer.name}{customer.customer_code ? ` (${customer.customer_code})` : ''}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (target?.label || <span className="text-muted-foreground">No match</span>)
+                        ) : transaction.payments ? (
+                          <div>
+                            <div className="font-medium">{transaction.payments.payment_number}</div>
+                            <div className="text-sm text-muted-foreground">
+                              {transaction.payments.customers?.name}
+                              {transaction.status === 'duplicate' ? ' • already recorded' : ''}
+                            </div>
+                          </div>
+                        ) : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {canRecord && (
+                          <div className="flex items-center justify-end space-x-1">
+                            {transaction.status === 'pending' && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleRecord(transaction)}
+                                disabled={!target || recordTransaction.isPending || recordingAll}
+                              >
+                                <Receipt className="h-4 w-4 mr-1" />
+                                Record
+                              </Button>
+                            )}
+                            {(transaction.status === 'pending' || transaction.status === 'duplicate') && (
+                              <Button variant="ghost" size="icon" onClick={() => handleIgnore(transaction, true)} title="Ignore (not a customer payment)">
+                                <EyeOff className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {transaction.status === 'ignored' && (
+                              <Button variant="ghost" size="icon" onClick={() => handleIgnore(transaction, false)} title="Restore">
+                                <Undo2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+          {statusFilter === 'duplicate' && duplicates.length > 0 && (
+            <p className="flex items-center text-sm text-muted-foreground mt-4">
+              <AlertTriangle className="h-4 w-4 mr-2 text-warning" />
+              These receipt numbers were already used as the reference of a recorded payment and were not recorded again.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {companyId && (
+        <ImportMpesaStatementModal
+          open={showImport}
+          onOpenChange={setShowImport}
+          companyId={companyId}
+          paybillNumber={currentCompany?.mpesa_paybill_number}
+          transactions={transactions}
+          payments={payments}
+          invoices={invoices}
+          customers={customers}
+        />
+      )}
+    </div>
+  );
+}
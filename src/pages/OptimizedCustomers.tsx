@@ -40,7 +40,6 @@ import {
   getCustomerInitials,
   OptimizedCustomer
 } from '@/hooks/useOptimizedCustomers';
-import { useCompanies } from '@/hooks/useDatabase';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { EditCustomerModal } from '@/components/customers/EditCustomerModal';
@@ -48,6 +47,7 @@ import { ViewCustomerModal } from '@/components/customers/ViewCustomerModal';
 import { CreateCustomerModal } from '@/components/customers/CreateCustomerModal';
 import { CreateInvoiceModal } from '@/components/invoices/CreateInvoiceModal';
 import { generateCustomerStatementPDF } from '@/utils/pdfGenerator';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
 
 // Memoized customer row component for better performance
 const CustomerRow = React.memo(({ 
@@ -207,8 +207,7 @@ export default function OptimizedCustomers() {
   const [selectedCustomer, setSelectedCustomer] = useState<OptimizedCustomer | null>(null);
 
   // Data fetching
-  const { data: companies } = useCompanies();
-  const currentCompany = companies?.[0];
+  const { currentCompany } = useCurrentCompany();
   
   const { 
     data: customersData, 
@@ -299,7 +298,7 @@ export default function OptimizedCustomers() {
           .order('invoice_date', { ascending: true }),
         supabase
           .from('payments')
-          .select('payment_date, payment_number, amount, payment_method')
+          .select('payment_date, payment_number, amount, payment_method, payment_allocations(amount_allocated)')
           .eq('customer_id', customer.id)
           .eq('company_id', currentCompany?.id || '550e8400-e29b-41d4-a716-446655440000')
           .order('payment_date', { ascending: true })
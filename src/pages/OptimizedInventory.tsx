@@ -12,7 +12,6 @@ import {
   useStockStatus,
   OptimizedProduct 
 } from '@/hooks/useOptimizedProducts';
-import { useCompanies } from '@/hooks/useDatabase';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -41,6 +40,7 @@ import {
   ChevronRight,
   RefreshCw
 } from 'lucide-react';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
 
 function getStatusColor(status: string) {
   switch (status) {
@@ -148,8 +148,7 @@ export default function OptimizedInventory() {
   const [selectedItem, setSelectedItem] = useState<OptimizedProduct | null>(null);
 
   // Data fetching
-  const { data: companies } = useCompanies();
-  const currentCompany = companies?.[0];
+  const { currentCompany } = useCurrentCompany();
   
   const { 
     data: productsData, 
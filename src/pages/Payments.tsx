@@ -24,9 +24,13 @@ import {
   DollarSign,
   Download
 } from 'lucide-react';
-import { usePayments, useCompanies } from '@/hooks/useDatabase';
+import { usePayments } from '@/hooks/useDatabase';
 import { useInvoicesFixed as useInvoices } from '@/hooks/useInvoicesFixed';
 import { generatePaymentReceiptPDF } from '@/utils/pdfGenerator';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { usePermission } from '@/hooks/usePermissions';
+import { paymentUnallocatedAmount } from '@/utils/customerCredit';
+import { toBase } from '@/utils/currency';
 
 interface Payment {
   id: string;
@@ -68,10 +72,10 @@ function getMethodColor(method: string) {
   }
 }
 
-function formatCurrency(amount: number) {
+function formatCurrency(amount: number, currency?: string | null) {
   return new Intl.NumberFormat('en-KE', {
     style: 'currency',
-    currency: 'KES',
+    currency: currency || 'KES',
     minimumFractionDigits: 2,
     maximumFractionDigits: 2
   }).format(amount);
@@ -84,8 +88,8 @@ export default function Payments() {
   const [selectedPayment, setSelectedPayment] = useState<any>(null);
   
   // Fetch live payments data and company details
-  const { data: companies = [] } = useCompanies();
-  const currentCompany = companies[0];
+  const { currentCompany } = useCurrentCompany();
+  const canRecordPayments = usePermission('payment.record');
   const { data: payments = [], isLoading, error } = usePayments(currentCompany?.id);
   const { data: invoices = [] } = useInvoices(currentCompany?.id);
 
@@ -159,10 +163,12 @@ export default function Payments() {
     );
   }
 
-  // Calculate stats from live data
+  // Calculate stats from live data, in base currency so payments in other currencies add up
+  const baseAmount = (p: { amount: number; base_amount?: number | null; exchange_rate?: number | null }) =>
+    p.base_amount ?? toBase(p.amount, p.exchange_rate);
   const totalReceivedToday = payments
     .filter(p => new Date(p.payment_date).toDateString() === new Date().toDateString())
-    .reduce((sum, p) => sum + p.amount, 0);
+    .reduce((sum, p) => sum + baseAmount(p), 0);
   
   const totalThisMonth = payments
     .filter(p => {
@@ -170,7 +176,7 @@ export default function Payments() {
       const now = new Date();
       return paymentDate.getMonth() === now.getMonth() && paymentDate.getFullYear() === now.getFullYear();
     })
-    .reduce((sum, p) => sum + p.amount, 0);
+    .reduce((sum, p) => sum + baseAmount(p), 0);
   
   const completedThisMonth = payments
     .filter(p => {
@@ -179,7 +185,8 @@ export default function Payments() {
       return paymentDate.getMonth() === now.getMonth() && paymentDate.getFullYear() === now.getFullYear();
     }).length;
   
-  const pendingAmount = 0; // All payments in system are completed when recorded
+  const unallocatedCredit = payments.reduce((sum, p) => sum + toBase(paymentUnallocatedAmount(p), p.exchange_rate), 0);
+  const paymentsWithCredit = payments.filter(p => paymentUnallocatedAmount(p) > 0).length;
 
   return (
     <div className="space-y-6">
@@ -191,10 +198,12 @@ export default function Payments() {
             Track and manage customer payments (All amounts in KES)
           </p>
         </div>
-        <Button className="gradient-primary text-primary-foreground hover:opacity-90 shadow-card" size="lg" onClick={handleRecordPayment}>
-          <Plus className="h-4 w-4 mr-2" />
-          Record Payment
-        </Button>
+        {canRecordPayments && (
+          <Button className="gradient-primary text-primary-foreground hover:opacity-90 shadow-card" size="lg" onClick={handleRecordPayment}>
+            <Plus className="h-4 w-4 mr-2" />
+            Record Payment
+          </Button>
+        )}
       </div>
 
       {/* System Status Check */}
@@ -229,10 +238,10 @@ export default function Payments() {
         <Card className="shadow-card">
           <CardContent className="pt-6">
             <div className="flex items-center space-x-2">
-              <Badge className="bg-warning-light text-warning">0</Badge>
+              <Badge className="bg-warning-light text-warning">{paymentsWithCredit}</Badge>
               <div>
-                <p className="text-sm font-medium text-muted-foreground">Pending</p>
-                <p className="text-2xl font-bold text-warning">{formatCurrency(pendingAmount)}</p>
+                <p className="text-sm font-medium text-muted-foreground">Unallocated Credit</p>
+                <p className="text-2xl font-bold text-warning">{formatCurrency(unallocatedCredit)}</p>
               </div>
             </div>
           </CardContent>
@@ -276,7 +285,7 @@ export default function Payments() {
                   : 'Record your first payment to get started'
                 }
               </p>
-              {!searchTerm && (
+              {!searchTerm && canRecordPayments && (
                 <Button onClick={handleRecordPayment}>
                   <Plus className="mr-2 h-4 w-4" />
                   Record Payment
@@ -303,19 +312,30 @@ export default function Payments() {
                     <TableCell className="font-medium">{payment.payment_number}</TableCell>
                     <TableCell>{payment.customers?.name || 'N/A'}</TableCell>
                     <TableCell className="font-medium text-primary">
-                      {payment.payment_allocations?.[0]?.invoice_number || 'N/A'}
+                      {payment.payment_allocations?.[0]?.invoice_number || (
+                        <span className="text-muted-foreground font-normal">On account</span>
+                      )}
+                      {(payment.payment_allocations?.length || 0) > 1 && (
+                        <span className="text-xs text-muted-foreground ml-1">+{payment.payment_allocations!.length - 1} more</span>
+                      )}
                     </TableCell>
                     <TableCell>{new Date(payment.payment_date).toLocaleDateString()}</TableCell>
-                    <TableCell className="font-semibold text-success">{formatCurrency(payment.amount)}</TableCell>
+                    <TableCell className="font-semibold text-success">{formatCurrency(payment.amount, payment.currency)}</TableCell>
                     <TableCell>
                       <Badge variant="outline" className={getMethodColor(payment.payment_method)}>
                         {payment.payment_method.replace('_', ' ')}
                       </Badge>
                     </TableCell>
                     <TableCell>
-                      <Badge variant="outline" className={getStatusColor()}>
-                        Completed
-                      </Badge>
+                      {paymentUnallocatedAmount(payment) > 0 ? (
+                        <Badge variant="outline" className="bg-warning-light text-warning border-warning/20">
+                          {formatCurrency(paymentUnallocatedAmount(payment), payment.currency)} credit
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" className={getStatusColor()}>
+                          Completed
+                        </Badge>
+                      )}
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex items-center justify-end space-x-1">
@@ -362,7 +382,7 @@ export default function Payments() {
       <ViewPaymentModal
         open={showViewModal}
         onOpenChange={setShowViewModal}
-        payment={selectedPayment}
+        payment={payments.find(p => p.id === selectedPayment?.id) || selectedPayment}
         onDownloadReceipt={handleDownloadReceipt}
         onSendReceipt={(payment) => toast.info(`Sending receipt for payment ${payment.payment_number}`)}
       />
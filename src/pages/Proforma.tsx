@@ -24,29 +24,34 @@ import {
   Calendar,
   Receipt,
   FileText,
-  CheckCircle
+  CheckCircle,
+  Link2
 } from 'lucide-react';
 import { useProformas, useConvertProformaToInvoice, type ProformaWithItems } from '@/hooks/useProforma';
-import { useCompanies } from '@/hooks/useDatabase';
 import { toast } from 'sonner';
 import { CreateProformaModalOptimized } from '@/components/proforma/CreateProformaModalOptimized';
 import { EditProformaModal } from '@/components/proforma/EditProformaModal';
 import { ViewProformaModal } from '@/components/proforma/ViewProformaModal';
 import { ProformaSetupBanner } from '@/components/proforma/ProformaSetupBanner';
+import { ShareDocumentModal } from '@/components/portal/ShareDocumentModal';
 import { downloadInvoicePDF, downloadQuotationPDF } from '@/utils/pdfGenerator';
 import { formatCurrency } from '@/utils/taxCalculation';
+import { baseTotal } from '@/utils/currency';
 import { ensureProformaSchema } from '@/utils/proformaDatabaseSetup';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { usePermission } from '@/hooks/usePermissions';
 
 export default function Proforma() {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [showViewModal, setShowViewModal] = useState(false);
+  const [showShareModal, setShowShareModal] = useState(false);
   const [selectedProforma, setSelectedProforma] = useState<ProformaWithItems | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
 
   // Get company data
-  const { data: companies } = useCompanies();
-  const currentCompany = companies?.[0];
+  const { currentCompany } = useCurrentCompany();
+  const canShareProformas = usePermission('invoice.create');
 
   // Use proper proforma hooks
   const { data: proformas = [], isLoading, refetch } = useProformas(currentCompany?.id);
@@ -98,6 +103,7 @@ export default function Proforma() {
         invoice_date: proforma.proforma_date,
         valid_until: proforma.valid_until,
         total_amount: proforma.total_amount,
+        currency: proforma.currency,
         invoice_items: proforma.proforma_items || [],
         subtotal: proforma.subtotal,
         tax_amount: proforma.tax_amount,
@@ -126,6 +132,11 @@ export default function Proforma() {
     }
   };
 
+  const handleShare = (proforma: ProformaWithItems) => {
+    setSelectedProforma(proforma);
+    setShowShareModal(true);
+  };
+
   const handleSendEmail = (proforma: ProformaWithItems) => {
     const subject = `Proforma Invoice ${proforma.proforma_number}`;
     const body = `Please find attached proforma invoice ${proforma.proforma_number} for your review.`;
@@ -233,7 +244,7 @@ export default function Proforma() {
               <DollarSign className="h-8 w-8 text-success" />
               <div>
                 <p className="text-2xl font-bold">
-                  {formatCurrency(proformas.reduce((sum, p) => sum + (p.total_amount || 0), 0))}
+                  {formatCurrency(proformas.reduce((sum, p) => sum + baseTotal(p), 0))}
                 </p>
                 <p className="text-xs text-muted-foreground">Total Value</p>
               </div>
@@ -349,7 +360,7 @@ export default function Proforma() {
                     <TableCell>
                       <div className="flex items-center font-medium">
                         <DollarSign className="h-4 w-4 mr-1" />
-                        {formatCurrency(proforma.total_amount)}
+                        {formatCurrency(proforma.total_amount, 'en-KE', proforma.currency || 'KES')}
                       </div>
                     </TableCell>
                     <TableCell>
@@ -378,6 +389,16 @@ export default function Proforma() {
                         >
                           <Download className="h-4 w-4" />
                         </Button>
+                        {canShareProformas && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleShare(proforma)}
+                            title="Share with customer"
+                          >
+                            <Link2 className="h-4 w-4" />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
@@ -439,6 +460,13 @@ export default function Proforma() {
         onSendEmail={handleSendEmail}
         onCreateInvoice={handleCreateInvoice}
       />
+
+      <ShareDocumentModal
+        open={showShareModal}
+        onOpenChange={setShowShareModal}
+        documentType="proforma"
+        document={selectedProforma}
+      />
     </div>
   );
 }
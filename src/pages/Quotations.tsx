@@ -21,16 +21,35 @@ import {
   FileText,
   Download,
   Calendar,
-  Send
+  Send,
+  History,
+  Trophy,
+  Link2
 } from 'lucide-react';
-import { useQuotations, useCompanies } from '@/hooks/useDatabase';
+import { useQuotations } from '@/hooks/useDatabase';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 import { CreateQuotationModal } from '@/components/quotations/CreateQuotationModal';
 import { ViewQuotationModal } from '@/components/quotations/ViewQuotationModal';
 import { EditQuotationModal } from '@/components/quotations/EditQuotationModal';
+import { QuotationOutcomeModal } from '@/components/quotations/QuotationOutcomeModal';
+import { QuotationRevisionsModal } from '@/components/quotations/QuotationRevisionsModal';
+import { ShareDocumentModal } from '@/components/portal/ShareDocumentModal';
+import { useExpireQuotations, useSetQuotationStatus } from '@/hooks/useQuotationLifecycle';
+import {
+  canRecordQuotationOutcome,
+  canReviseQuotation,
+  effectiveQuotationStatus,
+  isQuotationEditable,
+  quotationDisplayNumber,
+  quotationStatusColor,
+  quotationStatusLabel,
+  type QuotationStatus
+} from '@/utils/quotationLifecycle';
 import { downloadQuotationPDF } from '@/utils/pdfGenerator';
 import { useLocation } from 'react-router-dom';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { usePermission } from '@/hooks/usePermissions';
 
 interface Quotation {
   id: string;
@@ -46,7 +65,12 @@ interface Quotation {
   quotation_date: string;
   valid_until?: string;
   total_amount: number;
-  status: 'draft' | 'sent' | 'accepted' | 'rejected' | 'expired';
+  currency?: string;
+  status: QuotationStatus;
+  revision_number?: number;
+  status_reason?: string | null;
+  competitor?: string | null;
+  updated_at?: string;
   quotation_items?: any[];
   subtotal?: number;
   tax_amount?: number;
@@ -54,47 +78,43 @@ interface Quotation {
   terms_and_conditions?: string;
 }
 
-function getStatusColor(status: string) {
-  switch (status) {
-    case 'draft':
-      return 'bg-muted text-muted-foreground border-muted-foreground/20';
-    case 'sent':
-      return 'bg-warning-light text-warning border-warning/20';
-    case 'accepted':
-      return 'bg-success-light text-success border-success/20';
-    case 'rejected':
-      return 'bg-destructive-light text-destructive border-destructive/20';
-    case 'expired':
-      return 'bg-destructive-light text-destructive border-destructive/20';
-    default:
-      return 'bg-muted text-muted-foreground border-muted-foreground/20';
-  }
-}
-
 export default function Quotations() {
   const [searchTerm, setSearchTerm] = useState('');
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showViewModal, setShowViewModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
+  const [showOutcomeModal, setShowOutcomeModal] = useState(false);
+  const [showRevisionsModal, setShowRevisionsModal] = useState(false);
+  const [showShareModal, setShowShareModal] = useState(false);
   const [selectedQuotation, setSelectedQuotation] = useState<Quotation | null>(null);
   
   // Get current user and company from context
   const { profile, loading: authLoading } = useAuth();
-  const { data: companies } = useCompanies();
-  const currentCompany = companies?.[0];
+  const { currentCompany } = useCurrentCompany();
+  const canCreateQuotations = usePermission('quotation.create');
   const { data: quotations, isLoading, error, refetch } = useQuotations(currentCompany?.id);
+  const { mutate: expireQuotations } = useExpireQuotations();
+  const setQuotationStatus = useSetQuotationStatus();
   const location = useLocation();
 
+  // Quotations past their valid until date are expired whenever the list is opened
+  useEffect(() => {
+    if (!currentCompany?.id) return;
+    expireQuotations(currentCompany.id, {
+      onError: (err) => console.error('Failed to expire quotations', err),
+    });
+  }, [currentCompany?.id, expireQuotations]);
+
   useEffect(() => {
     if (location.pathname.endsWith('/new')) {
       setShowCreateModal(true);
     }
   }, [location.pathname]);
 
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, currency?: string | null) => {
     return new Intl.NumberFormat('en-KE', {
       style: 'currency',
-      currency: 'KES',
+      currency: currency || 'KES',
       minimumFractionDigits: 0,
       maximumFractionDigits: 0
     }).format(amount);
@@ -120,6 +140,21 @@ export default function Quotations() {
     setShowEditModal(true);
   };
 
+  const handleRecordOutcome = (quotation: Quotation) => {
+    setSelectedQuotation(quotation);
+    setShowOutcomeModal(true);
+  };
+
+  const handleViewRevisions = (quotation: Quotation) => {
+    setSelectedQuotation(quotation);
+    setShowRevisionsModal(true);
+  };
+
+  const handleShareQuotation = (quotation: Quotation) => {
+    setSelectedQuotation(quotation);
+    setShowShareModal(true);
+  };
+
   const handleEditSuccess = () => {
     refetch();
     setSelectedQuotation(null);
@@ -156,10 +191,11 @@ export default function Quotations() {
 
     try {
       // Create email content
-      const subject = `Quotation ${quotation.quotation_number} from Layons Construction Limited`;
+      const quotationNumber = quotationDisplayNumber(quotation);
+      const subject = `Quotation ${quotationNumber} from Layons Construction Limited`;
       const body = `Dear ${quotation.customers.name},
 
-Please find attached your quotation ${quotation.quotation_number} dated ${new Date(quotation.quotation_date).toLocaleDateString()}.
+Please find attached your quotation ${quotationNumber} dated ${new Date(quotation.quotation_date).toLocaleDateString()}.
 
 Quotation Summary:
 - Total Amount: KES ${quotation.total_amount?.toLocaleString() || '0'}
@@ -177,11 +213,12 @@ Website: www.biolegendscientific.co.ke`;
       const emailUrl = `mailto:${quotation.customers.email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
       window.open(emailUrl, '_blank');
 
-      // TODO: In a real app, this would actually send the email via API and update the quotation status
-      toast.success(`Email client opened with quotation ${quotation.quotation_number} for ${quotation.customers.email}`);
+      toast.success(`Email client opened with quotation ${quotationNumber} for ${quotation.customers.email}`);
 
-      // Update quotation status to 'sent' (simulated)
-      // await updateQuotationStatus(quotation.id, 'sent');
+      // A sent quotation is read-only from here on and counts towards conversion
+      if (quotation.status === 'draft') {
+        await setQuotationStatus.mutateAsync({ quotationId: quotation.id, status: 'sent' });
+      }
 
     } catch (error) {
       console.error('Error sending quotation:', error);
@@ -315,14 +352,16 @@ Website: www.biolegendscientific.co.ke`;
             Create and manage customer quotations
           </p>
         </div>
-        <Button 
-          className="gradient-primary text-primary-foreground hover:opacity-90 shadow-card"
-          size="lg"
-          onClick={() => setShowCreateModal(true)}
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          New Quotation
-        </Button>
+        {canCreateQuotations && (
+          <Button 
+            className="gradient-primary text-primary-foreground hover:opacity-90 shadow-card"
+            size="lg"
+            onClick={() => setShowCreateModal(true)}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Quotation
+          </Button>
+        )}
       </div>
 
       {/* Filters and Search */}
@@ -384,7 +423,7 @@ Website: www.biolegendscientific.co.ke`;
                   : 'Get started by creating your first quotation'
                 }
               </p>
-              {!searchTerm && (
+              {!searchTerm && canCreateQuotations && (
                 <Button 
                   onClick={() => setShowCreateModal(true)}
                   className="gradient-primary text-primary-foreground hover:opacity-90"
@@ -413,7 +452,7 @@ Website: www.biolegendscientific.co.ke`;
                     <TableCell className="font-medium">
                       <div className="flex items-center space-x-2">
                         <FileText className="h-4 w-4 text-primary" />
-                        <span>{quotation.quotation_number}</span>
+                        <span>{quotationDisplayNumber(quotation)}</span>
                       </div>
                     </TableCell>
                     <TableCell>
@@ -431,7 +470,7 @@ Website: www.biolegendscientific.co.ke`;
                       </div>
                     </TableCell>
                     <TableCell className="font-semibold">
-                      {formatCurrency(quotation.total_amount || 0)}
+                      {formatCurrency(quotation.total_amount || 0, quotation.currency)}
                     </TableCell>
                     <TableCell>
                       {quotation.valid_until 
@@ -440,9 +479,14 @@ Website: www.biolegendscientific.co.ke`;
                       }
                     </TableCell>
                     <TableCell>
-                      <Badge variant="outline" className={getStatusColor(quotation.status)}>
-                        {quotation.status.charAt(0).toUpperCase() + quotation.status.slice(1)}
+                      <Badge variant="outline" className={quotationStatusColor(effectiveQuotationStatus(quotation))}>
+                        {quotationStatusLabel(effectiveQuotationStatus(quotation))}
                       </Badge>
+                      {quotation.status_reason && quotation.status !== 'accepted' && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {quotation.status_reason}{quotation.competitor ? ` (${quotation.competitor})` : ''}
+                        </div>
+                      )}
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex items-center justify-end space-x-1">
@@ -456,14 +500,26 @@ Website: www.biolegendscientific.co.ke`;
                           >
                             <Eye className="h-4 w-4" />
                           </Button>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => handleEditQuotation(quotation)}
-                            title="Edit quotation"
-                          >
-                            <Edit className="h-4 w-4" />
-                          </Button>
+                          {canCreateQuotations && (isQuotationEditable(quotation) || canReviseQuotation(quotation)) && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleEditQuotation(quotation)}
+                              title={isQuotationEditable(quotation) ? 'Edit quotation' : 'Revise quotation'}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {(quotation.revision_number || 1) > 1 && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleViewRevisions(quotation)}
+                              title="Revision history"
+                            >
+                              <History className="h-4 w-4" />
+                            </Button>
+                          )}
                           <Button
                             variant="ghost"
                             size="icon"
@@ -472,6 +528,16 @@ Website: www.biolegendscientific.co.ke`;
                           >
                             <Download className="h-4 w-4" />
                           </Button>
+                          {canCreateQuotations && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleShareQuotation(quotation)}
+                              title="Share with customer"
+                            >
+                              <Link2 className="h-4 w-4" />
+                            </Button>
+                          )}
                         </div>
 
                         {/* Conditional Action Buttons */}
@@ -487,6 +553,16 @@ Website: www.biolegendscientific.co.ke`;
                               <span className="hidden sm:inline">Send</span>
                             </Button>
                           )}
+                          {canCreateQuotations && canRecordQuotationOutcome(quotation) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleRecordOutcome(quotation)}
+                            >
+                              <Trophy className="h-4 w-4 mr-1" />
+                              <span className="hidden sm:inline">Outcome</span>
+                            </Button>
+                          )}
                           {quotation.status === 'accepted' && (
                             <Button
                               variant="outline"
@@ -531,6 +607,25 @@ Website: www.biolegendscientific.co.ke`;
         quotation={selectedQuotation}
         onSuccess={handleEditSuccess}
       />
+
+      <QuotationOutcomeModal
+        open={showOutcomeModal}
+        onOpenChange={setShowOutcomeModal}
+        quotation={selectedQuotation}
+      />
+
+      <QuotationRevisionsModal
+        open={showRevisionsModal}
+        onOpenChange={setShowRevisionsModal}
+        quotation={selectedQuotation}
+      />
+
+      <ShareDocumentModal
+        open={showShareModal}
+        onOpenChange={setShowShareModal}
+        documentType="quotation"
+        document={selectedQuotation}
+      />
     </div>
   );
 }
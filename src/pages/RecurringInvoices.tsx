@@ -0,0 +1,376 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { CalendarClock, Edit, History, Loader2, Pause, Play, Plus, Repeat, Trash2, Zap } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { usePermission } from '@/hooks/usePermissions';
+import {
+  useDeleteRecurringInvoice,
+  useGenerateRecurringInvoices,
+  useRecurringInvoiceRuns,
+  useRecurringInvoices,
+  useSetRecurringInvoiceStatus,
+  type GenerateRecurringResult,
+  type RecurringInvoice,
+} from '@/hooks/useRecurringInvoices';
+import { frequencyLabel, todayString, upcomingRunDates } from '@/utils/recurringInvoices';
+import { RecurringInvoiceModal } from '@/components/recurring-invoices/RecurringInvoiceModal';
+
+function getStatusColor(status: string) {
+  switch (status) {
+    case 'active':
+    case 'generated':
+      return 'bg-success-light text-success border-success/20';
+    case 'paused':
+    case 'pending':
+      return 'bg-warning-light text-warning border-warning/20';
+    case 'failed':
+      return 'bg-destructive-light text-destructive border-destructive/20';
+    default:
+      return 'bg-muted text-muted-foreground border-muted-foreground/20';
+  }
+}
+
+const formatCurrency = (amount: number) => new Intl.NumberFormat('en-KE', {
+  style: 'currency',
+  currency: 'KES',
+}).format(Number(amount || 0));
+
+const formatDate = (date?: string | null) => date ? new Date(date).toLocaleDateString() : '-';
+
+const isDue = (template: RecurringInvoice) =>
+  template.status === 'active' && !!template.next_run_date && template.next_run_date <= todayString();
+
+const reportResult = (result: GenerateRecurringResult) => {
+  if (result.generated.length > 0) {
+    toast.success(`Generated ${result.generated.length} invoice${result.generated.length === 1 ? '' : 's'}: ${result.generated.map(g => g.invoice_number).join(', ')}`);
+  }
+  result.failed.forEach(f => toast.error(`"${f.template}" failed for ${formatDate(f.run_date)}: ${f.error}`));
+  if (result.generated.length === 0 && result.failed.length === 0) {
+    toast.info('No recurring invoices are due');
+  }
+};
+
+export default function RecurringInvoices() {
+  const [showModal, setShowModal] = useState(false);
+  const [editing, setEditing] = useState<RecurringInvoice | null>(null);
+  const autoRunCompany = useRef<string | null>(null);
+
+  const { currentCompany } = useCurrentCompany();
+  const companyId = currentCompany?.id;
+  const canCreateInvoices = usePermission('invoice.create');
+  const { data: templates = [], isLoading, error } = useRecurringInvoices(companyId);
+  const { data: runs = [], isLoading: loadingRuns } = useRecurringInvoiceRuns(companyId);
+  const generate = useGenerateRecurringInvoices();
+  const generateInvoices = generate.mutateAsync;
+  const setStatus = useSetRecurringInvoiceStatus();
+  const deleteRecurring = useDeleteRecurringInvoice();
+
+  const dueTemplates = templates.filter(isDue);
+
+  const runGenerator = useCallback(async (silentWhenIdle = false) => {
+    if (!companyId) return;
+    try {
+      const result = await generateInvoices({ companyId });
+      if (!silentWhenIdle || result.generated.length > 0 || result.failed.length > 0) {
+        reportResult(result);
+      }
+    } catch (err) {
+      console.error('Error generating recurring invoices:', err);
+      toast.error(`Failed to generate recurring invoices: ${(err as { message?: string })?.message || 'Please try again.'}`);
+    }
+  }, [companyId, generateInvoices]);
+
+  // Bill anything that fell due since the page was last opened. Runs are claimed in the database,
+  // so this is safe even when several users have the page open.
+  useEffect(() => {
+    if (!companyId || !canCreateInvoices || isLoading || dueTemplates.length === 0) return;
+    if (autoRunCompany.current === companyId) return;
+    autoRunCompany.current = companyId;
+    runGenerator(true);
+  }, [companyId, canCreateInvoices, isLoading, dueTemplates.length, runGenerator]);
+
+  const upcoming = templates
+    .filter(t => t.status === 'active')
+    .flatMap(t => upcomingRunDates(t, 3).map(date => ({ template: t, date })))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const handleDelete = (template: RecurringInvoice) => {
+    if (!confirm(`Delete the recurring invoice "${template.name}"? Invoices it already generated are kept.`)) return;
+    deleteRecurring.mutate(template.id);
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setShowModal(true);
+  };
+
+  const openEdit = (template: RecurringInvoice) => {
+    setEditing(template);
+    setShowModal(true);
+  };
+
+  if (error) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Recurring Invoices</h1>
+          <p className="text-muted-foreground">Scheduled billing for repeat customers</p>
+        </div>
+        <Card className="shadow-card">
+          <CardContent className="pt-6">
+            <div className="text-center py-8">
+              <p className="text-destructive">Error loading recurring invoices: {error.message}</p>
+              <Button variant="outline" onClick={() => window.location.reload()} className="mt-4">
+                Retry
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Recurring Invoices</h1>
+          <p className="text-muted-foreground">
+            Invoices raised automatically on a schedule, such as monthly hire and maintenance contracts
+          </p>
+        </div>
+        {canCreateInvoices && (
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" onClick={() => runGenerator()} disabled={generate.isPending}>
+              {generate.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Zap className="h-4 w-4 mr-2" />}
+              Generate Due Invoices
+              {dueTemplates.length > 0 && <Badge variant="secondary" className="ml-2">{dueTemplates.length}</Badge>}
+            </Button>
+            <Button
+              className="gradient-primary text-primary-foreground hover:opacity-90 shadow-card"
+              size="lg"
+              onClick={openCreate}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Schedule
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Tabs defaultValue="schedules">
+        <TabsList>
+          <TabsTrigger value="schedules">Schedules</TabsTrigger>
+          <TabsTrigger value="upcoming">Upcoming Runs</TabsTrigger>
+          <TabsTrigger value="history">Run History</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="schedules">
+          <Card className="shadow-card">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Repeat className="h-5 w-5 text-primary" />
+                <span>Schedules</span>
+                {!isLoading && (
+                  <Badge variant="outline" className="ml-auto">
+                    {templates.length} schedules
+                  </Badge>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-4">
+                  {[...Array(3)].map((_, i) => (
+                    <div key={i} className="flex items-center space-x-4 p-4">
+                      <div className="flex-1 space-y-2">
+                        <Skeleton className="h-4 w-32" />
+                        <Skeleton className="h-3 w-48" />
+                      </div>
+                      <Skeleton className="h-4 w-24" />
+                    </div>
+                  ))}
+                </div>
+              ) : templates.length === 0 ? (
+                <div className="text-center py-12">
+                  <Repeat className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+                  <h3 className="text-lg font-medium text-foreground mb-2">No recurring invoices yet</h3>
+                  <p className="text-muted-foreground">Set up a schedule for customers you bill on a regular basis</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Schedule</TableHead>
+                      <TableHead>Customer</TableHead>
+                      <TableHead>Frequency</TableHead>
+                      <TableHead>Next Run</TableHead>
+                      <TableHead className="hidden md:table-cell">Ends</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {templates.map(template => (
+                      <TableRow key={template.id} className="hover:bg-muted/50 transition-smooth">
+                        <TableCell>
+                          <div className="font-medium">{template.name}</div>
+                          <div className="text-sm text-muted-foreground">
+                            {template.auto_send ? 'Sent automatically' : 'Drafts for review'}
+                          </div>
+                        </TableCell>
+                        <TableCell>{template.customers?.name}</TableCell>
+                        <TableCell>{frequencyLabel(template.frequency, template.interval_count)}</TableCell>
+                        <TableCell className={isDue(template) ? 'text-warning font-medium' : ''}>
+                          {formatDate(template.next_run_date)}
+                        </TableCell>
+                        <TableCell className="hidden md:table-cell">{formatDate(template.end_date)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(template.total_amount)}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={getStatusColor(template.status)}>{template.status}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {canCreateInvoices && (
+                            <div className="flex items-center justify-end space-x-1">
+                              <Button variant="ghost" size="icon" onClick={() => openEdit(template)} title="Edit"><Edit className="h-4 w-4" /></Button>
+                              {template.status === 'active' && (
+                                <Button variant="ghost" size="icon" onClick={() => setStatus.mutate({ id: template.id, status: 'paused' })} title="Pause"><Pause className="h-4 w-4" /></Button>
+                              )}
+                              {template.status === 'paused' && (
+                                <Button variant="ghost" size="icon" onClick={() => setStatus.mutate({ id: template.id, status: 'active' })} title="Resume"><Play className="h-4 w-4" /></Button>
+                              )}
+                              <Button variant="ghost" size="icon" onClick={() => handleDelete(template)} title="Delete"><Trash2 className="h-4 w-4" /></Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="upcoming">
+          <Card className="shadow-card">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <CalendarClock className="h-5 w-5 text-primary" />
+                <span>Upcoming Runs</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {upcoming.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">No active schedules</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Billing Date</TableHead>
+                      <TableHead>Schedule</TableHead>
+                      <TableHead>Customer</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {upcoming.map(({ template, date }) => (
+                      <TableRow key={`${template.id}-${date}`}>
+                        <TableCell className={date <= todayString() ? 'text-warning font-medium' : ''}>
+                          {formatDate(date)}
+                          {date <= todayString() && <span className="ml-2 text-xs">(due)</span>}
+                        </TableCell>
+                        <TableCell>{template.name}</TableCell>
+                        <TableCell>{template.customers?.name}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(template.total_amount)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="history">
+          <Card className="shadow-card">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <History className="h-5 w-5 text-primary" />
+                <span>Run History</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {loadingRuns ? (
+                <div className="space-y-2">
+                  {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-8 w-full" />)}
+                </div>
+              ) : runs.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">No invoices have been generated yet</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Billing Date</TableHead>
+                      <TableHead>Schedule</TableHead>
+                      <TableHead>Customer</TableHead>
+                      <TableHead>Invoice</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {runs.map(run => (
+                      <TableRow key={run.id}>
+                        <TableCell>{formatDate(run.run_date)}</TableCell>
+                        <TableCell>{run.recurring_invoices?.name || '-'}</TableCell>
+                        <TableCell>{run.recurring_invoices?.customers?.name || '-'}</TableCell>
+                        <TableCell>
+                          {run.invoices?.invoice_number || '-'}
+                          {run.invoices?.status && (
+                            <span className="ml-2 text-xs text-muted-foreground">{run.invoices.status}</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{run.invoices ? formatCurrency(run.invoices.total_amount) : '-'}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={getStatusColor(run.status)}>{run.status}</Badge>
+                          {run.error_message && (
+                            <div className="text-xs text-destructive mt-1">{run.error_message}</div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <RecurringInvoiceModal
+        open={showModal}
+        onOpenChange={(open) => {
+          setShowModal(open);
+          if (!open) setEditing(null);
+        }}
+        recurringInvoice={editing}
+      />
+    </div>
+  );
+}
@@ -23,7 +23,8 @@ import {
 } from 'lucide-react';
 import { downloadRemittancePDF } from '@/utils/pdfGenerator';
 import { toast } from 'sonner';
-import { useRemittanceAdvice, useCompanies } from '@/hooks/useDatabase';
+import { useRemittanceAdvice } from '@/hooks/useDatabase';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
 import { CreateRemittanceModal } from '@/components/remittance/CreateRemittanceModalFixed';
 import { ViewRemittanceModal } from '@/components/remittance/ViewRemittanceModal';
 import { EditRemittanceModal } from '@/components/remittance/EditRemittanceModal';
@@ -39,11 +40,8 @@ const RemittanceAdvice = () => {
   const [selectedRemittance, setSelectedRemittance] = useState<any>(null);
 
   // Fetch live remittance advice data and company details
-  const { data: remittances = [], isLoading, error } = useRemittanceAdvice();
-  const { data: companies = [] } = useCompanies();
-
-  // Get the current company (assuming first company for now)
-  const currentCompany = companies[0];
+  const { currentCompany } = useCurrentCompany();
+  const { data: remittances = [], isLoading, error } = useRemittanceAdvice(currentCompany?.id);
 
   const handleViewRemittance = (remittance: any) => {
     setSelectedRemittance(remittance);
@@ -0,0 +1,305 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { Plus, Search, Eye, Banknote, FileInput, AlertTriangle, DollarSign, Clock } from 'lucide-react';
+import { useSupplierBills, type SupplierBill } from '@/hooks/useDatabase';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { usePermission } from '@/hooks/usePermissions';
+import { OPEN_BILL_STATUSES } from '@/utils/accountsPayable';
+import { CreateSupplierBillModal } from '@/components/supplier-bills/CreateSupplierBillModal';
+import { ViewSupplierBillModal } from '@/components/supplier-bills/ViewSupplierBillModal';
+import { RecordSupplierPaymentModal } from '@/components/supplier-payments/RecordSupplierPaymentModal';
+
+function getStatusColor(status: string) {
+  switch (status) {
+    case 'draft':
+      return 'bg-muted text-muted-foreground border-muted-foreground/20';
+    case 'approved':
+      return 'bg-primary-light text-primary border-primary/20';
+    case 'partial':
+      return 'bg-warning-light text-warning border-warning/20';
+    case 'paid':
+      return 'bg-success-light text-success border-success/20';
+    case 'cancelled':
+      return 'bg-destructive-light text-destructive border-destructive/20';
+    default:
+      return 'bg-muted text-muted-foreground border-muted-foreground/20';
+  }
+}
+
+const formatCurrency = (amount: number) => new Intl.NumberFormat('en-KE', {
+  style: 'currency',
+  currency: 'KES',
+}).format(Number(amount || 0));
+
+const formatDate = (date?: string) => date ? new Date(date).toLocaleDateString() : '-';
+
+const isOverdue = (bill: SupplierBill) =>
+  OPEN_BILL_STATUSES.includes(bill.status) && !!bill.due_date && new Date(bill.due_date) < new Date(new Date().toDateString());
+
+export default function SupplierBills() {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState('open');
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [selectedBill, setSelectedBill] = useState<SupplierBill | null>(null);
+  const [payingBill, setPayingBill] = useState<SupplierBill | null>(null);
+
+  const { currentCompany } = useCurrentCompany();
+  const canManagePayables = usePermission('payable.manage');
+  const canPaySuppliers = usePermission('payable.pay');
+  const { data: bills = [], isLoading, error } = useSupplierBills(currentCompany?.id);
+
+  const filteredBills = bills.filter(bill => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = !term ||
+      bill.bill_number?.toLowerCase().includes(term) ||
+      bill.supplier_invoice_number?.toLowerCase().includes(term) ||
+      bill.suppliers?.name?.toLowerCase().includes(term) ||
+      bill.lpos?.lpo_number?.toLowerCase().includes(term);
+    const matchesStatus = statusFilter === 'all' ||
+      (statusFilter === 'open' && (bill.status === 'draft' || OPEN_BILL_STATUSES.includes(bill.status))) ||
+      (statusFilter === 'overdue' && isOverdue(bill)) ||
+      bill.status === statusFilter;
+    return matchesSearch && matchesStatus;
+  });
+
+  const openBills = bills.filter(b => OPEN_BILL_STATUSES.includes(b.status));
+  const totalOutstanding = openBills.reduce((sum, b) => sum + Number(b.balance_due || 0), 0);
+  const totalOverdue = openBills.filter(isOverdue).reduce((sum, b) => sum + Number(b.balance_due || 0), 0);
+  const draftCount = bills.filter(b => b.status === 'draft').length;
+
+  if (error) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Supplier Bills</h1>
+          <p className="text-muted-foreground">What we owe our suppliers</p>
+        </div>
+        <Card className="shadow-card">
+          <CardContent className="pt-6">
+            <div className="text-center py-8">
+              <p className="text-destructive">Error loading supplier bills: {error.message}</p>
+              <Button variant="outline" onClick={() => window.location.reload()} className="mt-4">
+                Retry
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Supplier Bills</h1>
+          <p className="text-muted-foreground">
+            Supplier invoices matched against purchase orders and goods received
+          </p>
+        </div>
+        {canManagePayables && (
+          <Button
+            className="gradient-primary text-primary-foreground hover:opacity-90 shadow-card"
+            size="lg"
+            onClick={() => setShowCreateModal(true)}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Enter Bill
+          </Button>
+        )}
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card className="shadow-card">
+          <CardContent className="p-6">
+            <div className="flex items-center space-x-2">
+              <DollarSign className="h-8 w-8 text-primary" />
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Total Payable</p>
+                <p className="text-lg font-bold text-primary">{formatCurrency(totalOutstanding)}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card className="shadow-card">
+          <CardContent className="p-6">
+            <div className="flex items-center space-x-2">
+              <AlertTriangle className="h-8 w-8 text-destructive" />
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Overdue</p>
+                <p className="text-lg font-bold text-destructive">{formatCurrency(totalOverdue)}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card className="shadow-card">
+          <CardContent className="p-6">
+            <div className="flex items-center space-x-2">
+              <Clock className="h-8 w-8 text-warning" />
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Awaiting Approval</p>
+                <p className="text-lg font-bold text-warning">{draftCount}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Filters and Search */}
+      <Card className="shadow-card">
+        <CardContent className="pt-6">
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <div className="relative flex-1 max-w-md">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder="Search by bill, supplier invoice, supplier or LPO..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Open Bills</SelectItem>
+                <SelectItem value="overdue">Overdue</SelectItem>
+                <SelectItem value="draft">Draft</SelectItem>
+                <SelectItem value="paid">Paid</SelectItem>
+                <SelectItem value="cancelled">Cancelled</SelectItem>
+                <SelectItem value="all">All Bills</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Bills Table */}
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <FileInput className="h-5 w-5 text-primary" />
+            <span>Bills</span>
+            {!isLoading && (
+              <Badge variant="outline" className="ml-auto">
+                {filteredBills.length} bills
+              </Badge>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4">
+              {[...Array(5)].map((_, i) => (
+                <div key={i} className="flex items-center space-x-4 p-4">
+                  <div className="flex-1 space-y-2">
+                    <Skeleton className="h-4 w-32" />
+                    <Skeleton className="h-3 w-48" />
+                  </div>
+                  <Skeleton className="h-4 w-20" />
+                  <Skeleton className="h-4 w-24" />
+                </div>
+              ))}
+            </div>
+          ) : filteredBills.length === 0 ? (
+            <div className="text-center py-12">
+              <FileInput className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium text-foreground mb-2">No supplier bills found</h3>
+              <p className="text-muted-foreground">
+                {searchTerm ? 'Try adjusting your search criteria' : 'Enter supplier invoices as they arrive'}
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Bill</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead className="hidden md:table-cell">LPO</TableHead>
+                  <TableHead className="hidden md:table-cell">Due</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredBills.map(bill => (
+                  <TableRow key={bill.id} className="hover:bg-muted/50 transition-smooth">
+                    <TableCell>
+                      <div className="font-medium">{bill.bill_number}</div>
+                      <div className="text-sm text-muted-foreground">{bill.supplier_invoice_number || formatDate(bill.bill_date)}</div>
+                    </TableCell>
+                    <TableCell>{bill.suppliers?.name}</TableCell>
+                    <TableCell className="hidden md:table-cell">
+                      {bill.lpos?.lpo_number || '-'}
+                      {bill.match_status === 'variance' && (
+                        <div className="text-xs text-warning">Match variance</div>
+                      )}
+                    </TableCell>
+                    <TableCell className={`hidden md:table-cell ${isOverdue(bill) ? 'text-destructive font-medium' : ''}`}>
+                      {formatDate(bill.due_date)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(bill.total_amount)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(bill.balance_due)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={getStatusColor(bill.status)}>{bill.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end space-x-1">
+                        <Button variant="ghost" size="icon" onClick={() => setSelectedBill(bill)} title="View"><Eye className="h-4 w-4" /></Button>
+                        {OPEN_BILL_STATUSES.includes(bill.status) && canPaySuppliers && (
+                          <Button variant="ghost" size="icon" onClick={() => setPayingBill(bill)} title="Record Payment"><Banknote className="h-4 w-4" /></Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <CreateSupplierBillModal open={showCreateModal} onOpenChange={setShowCreateModal} />
+
+      <ViewSupplierBillModal
+        open={!!selectedBill}
+        onOpenChange={(open) => !open && setSelectedBill(null)}
+        bill={selectedBill}
+        onRecordPayment={(bill) => {
+          setSelectedBill(null);
+          setPayingBill(bill);
+        }}
+      />
+
+      <RecordSupplierPaymentModal
+        open={!!payingBill}
+        onOpenChange={(open) => !open && setPayingBill(null)}
+        bill={payingBill}
+      />
+    </div>
+  );
+}
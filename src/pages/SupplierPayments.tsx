@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { Plus, Search, Banknote, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useSupplierPayments, useDeleteSupplierPayment, type SupplierPayment } from '@/hooks/useDatabase';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { usePermission } from '@/hooks/usePermissions';
+import { RecordSupplierPaymentModal } from '@/components/supplier-payments/RecordSupplierPaymentModal';
+
+const formatCurrency = (amount: number) => new Intl.NumberFormat('en-KE', {
+  style: 'currency',
+  currency: 'KES',
+}).format(Number(amount || 0));
+
+const allocatedAmount = (payment: SupplierPayment) =>
+  (payment.supplier_payment_allocations || []).reduce((sum, a) => sum + Number(a.amount_allocated || 0), 0);
+
+export default function SupplierPayments() {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showRecordModal, setShowRecordModal] = useState(false);
+
+  const { currentCompany } = useCurrentCompany();
+  const canPaySuppliers = usePermission('payable.pay');
+  const { data: payments = [], isLoading, error } = useSupplierPayments(currentCompany?.id);
+  const deletePayment = useDeleteSupplierPayment();
+
+  const filteredPayments = payments.filter(payment => {
+    const term = searchTerm.toLowerCase();
+    return !term ||
+      payment.payment_number?.toLowerCase().includes(term) ||
+      payment.reference_number?.toLowerCase().includes(term) ||
+      payment.suppliers?.name?.toLowerCase().includes(term) ||
+      (payment.supplier_payment_allocations || []).some(a => a.supplier_bills?.bill_number?.toLowerCase().includes(term));
+  });
+
+  const handleDelete = async (payment: SupplierPayment) => {
+    if (!confirm(`Delete payment ${payment.payment_number}? Bills it was allocated to will become outstanding again.`)) return;
+    try {
+      await deletePayment.mutateAsync(payment.id);
+      toast.success(`Payment ${payment.payment_number} deleted`);
+    } catch (err) {
+      console.error('Error deleting supplier payment:', err);
+      toast.error('Failed to delete payment');
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Supplier Payments</h1>
+          <p className="text-muted-foreground">Payments made to suppliers</p>
+        </div>
+        <Card className="shadow-card">
+          <CardContent className="pt-6">
+            <div className="text-center py-8">
+              <p className="text-destructive">Error loading supplier payments: {error.message}</p>
+              <Button variant="outline" onClick={() => window.location.reload()} className="mt-4">
+                Retry
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Supplier Payments</h1>
+          <p className="text-muted-foreground">
+            Payments made to suppliers and the bills they settle
+          </p>
+        </div>
+        {canPaySuppliers && (
+          <Button
+            className="gradient-primary text-primary-foreground hover:opacity-90 shadow-card"
+            size="lg"
+            onClick={() => setShowRecordModal(true)}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Pay Supplier
+          </Button>
+        )}
+      </div>
+
+      {/* Search */}
+      <Card className="shadow-card">
+        <CardContent className="pt-6">
+          <div className="relative max-w-md">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Search by payment, reference, supplier or bill..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Payments Table */}
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Banknote className="h-5 w-5 text-primary" />
+            <span>Payments</span>
+            {!isLoading && (
+              <Badge variant="outline" className="ml-auto">
+                {filteredPayments.length} payments
+              </Badge>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4">
+              {[...Array(5)].map((_, i) => (
+                <div key={i} className="flex items-center space-x-4 p-4">
+                  <div className="flex-1 space-y-2">
+                    <Skeleton className="h-4 w-32" />
+                    <Skeleton className="h-3 w-48" />
+                  </div>
+                  <Skeleton className="h-4 w-20" />
+                </div>
+              ))}
+            </div>
+          ) : filteredPayments.length === 0 ? (
+            <div className="text-center py-12">
+              <Banknote className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium text-foreground mb-2">No supplier payments found</h3>
+              <p className="text-muted-foreground">
+                {searchTerm ? 'Try adjusting your search criteria' : 'Payments to suppliers will appear here'}
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Payment</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead className="hidden md:table-cell">Method</TableHead>
+                  <TableHead>Bills Paid</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Unallocated</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredPayments.map(payment => {
+                  const unallocated = Number(payment.amount || 0) - allocatedAmount(payment);
+                  return (
+                    <TableRow key={payment.id} className="hover:bg-muted/50 transition-smooth">
+                      <TableCell>
+                        <div className="font-medium">{payment.payment_number}</div>
+                        <div className="text-sm text-muted-foreground">{new Date(payment.payment_date).toLocaleDateString()}</div>
+                      </TableCell>
+                      <TableCell>{payment.suppliers?.name}</TableCell>
+                      <TableCell className="hidden md:table-cell">
+                        <div className="capitalize">{payment.payment_method?.replace('_', ' ') || '-'}</div>
+                        {payment.reference_number && <div className="text-xs text-muted-foreground">{payment.reference_number}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {(payment.supplier_payment_allocations || []).map(a => (
+                            <Badge key={a.id} variant="secondary" title={formatCurrency(a.amount_allocated)}>
+                              {a.supplier_bills?.bill_number}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(payment.amount)}</TableCell>
+                      <TableCell className={`text-right ${unallocated > 0.005 ? 'text-warning font-medium' : 'text-muted-foreground'}`}>
+                        {formatCurrency(unallocated)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(payment)} title="Delete"><Trash2 className="h-4 w-4" /></Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <RecordSupplierPaymentModal open={showRecordModal} onOpenChange={setShowRecordModal} />
+    </div>
+  );
+}
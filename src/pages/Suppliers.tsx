@@ -0,0 +1,284 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { Plus, Search, Eye, Edit, Trash2, Truck, Mail, Phone } from 'lucide-react';
+import { toast } from 'sonner';
+import { useSuppliers, useDeleteSupplier, Supplier } from '@/hooks/useDatabase';
+import { useProductCategories } from '@/hooks/useOptimizedProducts';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { CreateSupplierModal } from '@/components/suppliers/CreateSupplierModal';
+import { EditSupplierModal } from '@/components/suppliers/EditSupplierModal';
+import { ViewSupplierModal } from '@/components/suppliers/ViewSupplierModal';
+
+function getStatusColor(isActive: boolean) {
+  return isActive
+    ? 'bg-success-light text-success border-success/20'
+    : 'bg-muted text-muted-foreground border-muted-foreground/20';
+}
+
+export default function Suppliers() {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState('active');
+  const [categoryFilter, setCategoryFilter] = useState('all');
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showViewModal, setShowViewModal] = useState(false);
+  const [showEditModal, setShowEditModal] = useState(false);
+  const [selectedSupplier, setSelectedSupplier] = useState<Supplier | null>(null);
+
+  const { currentCompany } = useCurrentCompany();
+  const { data: suppliers = [], isLoading, error } = useSuppliers(currentCompany?.id);
+  const { data: categories = [] } = useProductCategories(currentCompany?.id);
+  const deleteSupplier = useDeleteSupplier();
+
+  const categoryNames = new Map(categories.map(c => [c.id, c.name]));
+
+  const filteredSuppliers = suppliers.filter(supplier => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = !term ||
+      supplier.name.toLowerCase().includes(term) ||
+      supplier.supplier_code.toLowerCase().includes(term) ||
+      supplier.email?.toLowerCase().includes(term) ||
+      supplier.tax_pin?.toLowerCase().includes(term);
+
+    const matchesStatus = statusFilter === 'all' ||
+      (statusFilter === 'active' && supplier.is_active !== false) ||
+      (statusFilter === 'inactive' && supplier.is_active === false);
+
+    const matchesCategory = categoryFilter === 'all' || (supplier.category_ids || []).includes(categoryFilter);
+
+    return matchesSearch && matchesStatus && matchesCategory;
+  });
+
+  const handleView = (supplier: Supplier) => {
+    setSelectedSupplier(supplier);
+    setShowViewModal(true);
+  };
+
+  const handleEdit = (supplier: Supplier) => {
+    setSelectedSupplier(supplier);
+    setShowEditModal(true);
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    if (!confirm(`Delete supplier ${supplier.name}?`)) return;
+    try {
+      await deleteSupplier.mutateAsync(supplier.id);
+      toast.success(`Supplier ${supplier.name} deleted`);
+    } catch (err) {
+      console.error('Error deleting supplier:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to delete supplier');
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Suppliers</h1>
+          <p className="text-muted-foreground">Manage the suppliers you buy from</p>
+        </div>
+        <Card className="shadow-card">
+          <CardContent className="pt-6">
+            <div className="text-center py-8">
+              <p className="text-destructive">Error loading suppliers: {error.message}</p>
+              <Button variant="outline" onClick={() => window.location.reload()} className="mt-4">
+                Retry
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Suppliers</h1>
+          <p className="text-muted-foreground">
+            Manage the suppliers you raise purchase orders against
+          </p>
+        </div>
+        <Button
+          className="gradient-primary text-primary-foreground hover:opacity-90 shadow-card"
+          size="lg"
+          onClick={() => setShowCreateModal(true)}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New Supplier
+        </Button>
+      </div>
+
+      {/* Filters and Search */}
+      <Card className="shadow-card">
+        <CardContent className="pt-6">
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <div className="relative flex-1 max-w-md">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder="Search suppliers by name, code, email or PIN..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Suppliers</SelectItem>
+                <SelectItem value="active">Active Only</SelectItem>
+                <SelectItem value="inactive">Inactive Only</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="All categories" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Categories</SelectItem>
+                {categories.map(c => (
+                  <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Suppliers Table */}
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Truck className="h-5 w-5 text-primary" />
+            <span>Suppliers List</span>
+            {!isLoading && (
+              <Badge variant="outline" className="ml-auto">
+                {filteredSuppliers.length} suppliers
+              </Badge>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4">
+              {[...Array(5)].map((_, i) => (
+                <div key={i} className="flex items-center space-x-4 p-4">
+                  <div className="flex-1 space-y-2">
+                    <Skeleton className="h-4 w-32" />
+                    <Skeleton className="h-3 w-48" />
+                  </div>
+                  <Skeleton className="h-4 w-20" />
+                  <Skeleton className="h-4 w-24" />
+                </div>
+              ))}
+            </div>
+          ) : filteredSuppliers.length === 0 ? (
+            <div className="text-center py-12">
+              <Truck className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium text-foreground mb-2">No suppliers found</h3>
+              <p className="text-muted-foreground mb-6">
+                {searchTerm ? 'Try adjusting your search criteria' : 'Get started by adding your first supplier'}
+              </p>
+              {!searchTerm && (
+                <Button onClick={() => setShowCreateModal(true)} className="gradient-primary text-primary-foreground hover:opacity-90">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add First Supplier
+                </Button>
+              )}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead className="hidden md:table-cell">Contact</TableHead>
+                  <TableHead className="hidden lg:table-cell">KRA PIN</TableHead>
+                  <TableHead className="hidden md:table-cell">Terms</TableHead>
+                  <TableHead className="hidden lg:table-cell">Categories</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredSuppliers.map(supplier => (
+                  <TableRow key={supplier.id} className="hover:bg-muted/50 transition-smooth">
+                    <TableCell>
+                      <div className="font-medium">{supplier.name}</div>
+                      <div className="text-sm text-muted-foreground">{supplier.supplier_code}</div>
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell">
+                      <div className="space-y-1 text-sm">
+                        {supplier.email && <div className="flex items-center gap-1"><Mail className="h-3 w-3" />{supplier.email}</div>}
+                        {supplier.phone && <div className="flex items-center gap-1"><Phone className="h-3 w-3" />{supplier.phone}</div>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="hidden lg:table-cell">{supplier.tax_pin || '-'}</TableCell>
+                    <TableCell className="hidden md:table-cell">{supplier.payment_terms ? `${supplier.payment_terms} days` : 'COD'}</TableCell>
+                    <TableCell className="hidden lg:table-cell">
+                      <div className="flex flex-wrap gap-1">
+                        {(supplier.category_ids || []).map(id => categoryNames.get(id)).filter(Boolean).map(name => (
+                          <Badge key={name} variant="secondary">{name}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={getStatusColor(supplier.is_active !== false)}>
+                        {supplier.is_active !== false ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end space-x-1">
+                        <Button variant="ghost" size="icon" onClick={() => handleView(supplier)} title="View"><Eye className="h-4 w-4" /></Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleEdit(supplier)} title="Edit"><Edit className="h-4 w-4" /></Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(supplier)} title="Delete"><Trash2 className="h-4 w-4" /></Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <CreateSupplierModal open={showCreateModal} onOpenChange={setShowCreateModal} />
+      <ViewSupplierModal
+        open={showViewModal}
+        onOpenChange={setShowViewModal}
+        supplier={selectedSupplier}
+        onEdit={() => {
+          setShowViewModal(false);
+          setShowEditModal(true);
+        }}
+      />
+      <EditSupplierModal
+        open={showEditModal}
+        onOpenChange={setShowEditModal}
+        supplier={selectedSupplier}
+        onSuccess={() => setSelectedSupplier(null)}
+      />
+    </div>
+  );
+}
@@ -26,12 +26,13 @@ import {
   FileText,
   Search
 } from 'lucide-react';
-import { useCustomers, usePayments, useCompanies } from '@/hooks/useDatabase';
+import { useCustomers, usePayments } from '@/hooks/useDatabase';
 import { useInvoicesFixed as useInvoices } from '@/hooks/useInvoicesFixed';
 import { toast } from 'sonner';
 import { generateCustomerStatementPDF } from '@/utils/pdfGenerator';
 import { exportCustomerStatementsToCSV, exportCustomerStatementSummaryToCSV } from '@/utils/csvExporter';
 import CustomerStatementPreviewModal from '@/components/statements/CustomerStatementPreviewModal';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
 
 interface CustomerStatement {
   customer_id: string;
@@ -56,11 +57,10 @@ export default function CustomerStatements() {
   const [showPreview, setShowPreview] = useState(false);
   const [previewCustomer, setPreviewCustomer] = useState<CustomerStatement | null>(null);
 
-  const { data: customers } = useCustomers();
-  const { data: invoices } = useInvoices();
-  const { data: payments } = usePayments();
-  const { data: companies } = useCompanies();
-  const currentCompany = companies?.[0];
+  const { currentCompany } = useCurrentCompany();
+  const { data: customers } = useCustomers(currentCompany?.id);
+  const { data: invoices } = useInvoices(currentCompany?.id);
+  const { data: payments } = usePayments(currentCompany?.id);
 
   // Calculate customer statements
   const calculateCustomerStatements = (): CustomerStatement[] => {
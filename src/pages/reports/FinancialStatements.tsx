@@ -0,0 +1,412 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, FileText, TrendingUp, Percent, Scale, AlertTriangle, CheckCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { useAccountBalances, useGlAccountMappings } from '@/hooks/useLedger';
+import {
+  asAtComparisonDate,
+  buildBalanceSheet,
+  buildProfitAndLoss,
+  buildTrialBalanceReport,
+  costOfSalesAccountIds,
+  fiscalYearOf,
+  fiscalYearPeriod,
+  fiscalYearStartDate,
+  monthStatementPeriod,
+  pnlComparisonPeriod,
+  type ComparisonMode,
+  type PnlPeriodMode,
+  type StatementReport,
+  type StatementRow
+} from '@/utils/financialStatements';
+import { exportFinancialStatementToCSV } from '@/utils/csvExporter';
+import { generateFinancialStatementPDF } from '@/utils/financialStatementPdf';
+import { AccountDrillDownDialog } from '@/components/ledger/AccountDrillDownDialog';
+
+type StatementTab = 'pnl' | 'balance-sheet' | 'trial-balance';
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const ROW_CLASSES: Record<StatementRow['kind'], string> = {
+  heading: 'font-semibold uppercase text-xs text-muted-foreground',
+  line: '',
+  total: 'font-semibold border-t',
+  grand_total: 'font-bold border-t-2',
+  ratio: 'italic text-muted-foreground',
+};
+
+const FinancialStatements = () => {
+  const { currentCompany } = useCurrentCompany();
+  const companyId = currentCompany?.id;
+  const startMonth = currentCompany?.fiscal_year_start || 1;
+
+  const [tab, setTab] = useState<StatementTab>('pnl');
+  const [pnlMode, setPnlMode] = useState<PnlPeriodMode>('month');
+  const [month, setMonth] = useState(() => today().slice(0, 7));
+  const [fiscalYear, setFiscalYear] = useState(() => fiscalYearOf(today(), startMonth));
+  const [asAt, setAsAt] = useState(today);
+  const [comparison, setComparison] = useState<ComparisonMode>('previous');
+  const [drillAccount, setDrillAccount] = useState<{ id: string; label: string; from?: string; to: string } | null>(null);
+
+  const { data: mappings = [] } = useGlAccountMappings(companyId);
+
+  // Profit and loss: movement in the period and the comparison period
+  const pnlPeriod = pnlMode === 'month' ? monthStatementPeriod(month) : fiscalYearPeriod(fiscalYear, startMonth);
+  const pnlComparison = pnlComparisonPeriod(pnlMode, comparison, pnlPeriod, startMonth);
+  const pnlCompany = tab === 'pnl' ? companyId : undefined;
+  const pnlCurrent = useAccountBalances(pnlCompany, pnlPeriod.start, pnlPeriod.end);
+  const pnlPrevious = useAccountBalances(pnlComparison ? pnlCompany : undefined, pnlComparison?.start, pnlComparison?.end);
+
+  // Balance sheet: read from the start of the fiscal year so this year's profit stands apart
+  const comparisonAsAt = asAtComparisonDate(comparison, asAt, startMonth);
+  const bsCompany = tab === 'balance-sheet' ? companyId : undefined;
+  const bsCurrent = useAccountBalances(bsCompany, fiscalYearStartDate(asAt, startMonth), asAt);
+  const bsPrevious = useAccountBalances(
+    comparisonAsAt ? bsCompany : undefined,
+    comparisonAsAt ? fiscalYearStartDate(comparisonAsAt, startMonth) : undefined,
+    comparisonAsAt || undefined
+  );
+
+  // Trial balance: everything up to the date
+  const tbCompany = tab === 'trial-balance' ? companyId : undefined;
+  const tbCurrent = useAccountBalances(tbCompany, undefined, asAt);
+  const tbPrevious = useAccountBalances(comparisonAsAt ? tbCompany : undefined, undefined, comparisonAsAt || undefined);
+
+  const profitAndLoss = buildProfitAndLoss({
+    current: pnlCurrent.data || [],
+    comparison: pnlComparison ? pnlPrevious.data || [] : null,
+    costOfSalesIds: costOfSalesAccountIds(mappings),
+    period: pnlPeriod,
+    comparisonPeriod: pnlComparison,
+  });
+
+  const balanceSheet = useMemo(() => buildBalanceSheet({
+    current: bsCurrent.data || [],
+    comparison: comparisonAsAt ? bsPrevious.data || [] : null,
+    asAt,
+    comparisonAsAt,
+  }), [bsCurrent.data, bsPrevious.data, asAt, comparisonAsAt]);
+
+  const trialBalance = useMemo(() => buildTrialBalanceReport({
+    current: tbCurrent.data || [],
+    comparison: comparisonAsAt ? tbPrevious.data || [] : null,
+    asAt,
+    comparisonAsAt,
+  }), [tbCurrent.data, tbPrevious.data, asAt, comparisonAsAt]);
+
+  const active = tab === 'pnl'
+    ? { report: profitAndLoss.report, query: pnlCurrent }
+    : tab === 'balance-sheet'
+      ? { report: balanceSheet.report, query: bsCurrent }
+      : { report: trialBalance.report, query: tbCurrent };
+
+  const fiscalYears = Array.from({ length: 6 }, (_, i) => fiscalYearOf(today(), startMonth) - i);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-KE', {
+      style: 'currency',
+      currency: 'KES',
+      minimumFractionDigits: 2
+    }).format(amount);
+  };
+
+  const formatValue = (row: StatementRow, value: number | null | undefined) => {
+    if (value === null || value === undefined) return '';
+    if (row.kind === 'ratio') return `${value.toFixed(1)}%`;
+    return formatCurrency(value);
+  };
+
+  const handleDrillDown = (row: StatementRow) => {
+    if (!row.account_id) return;
+    if (tab === 'pnl') {
+      setDrillAccount({ id: row.account_id, label: row.label, from: pnlPeriod.start, to: pnlPeriod.end });
+    } else {
+      setDrillAccount({ id: row.account_id, label: row.label, from: fiscalYearStartDate(asAt, startMonth), to: asAt });
+    }
+  };
+
+  const handleExportCSV = () => {
+    exportFinancialStatementToCSV(active.report);
+    toast.success(`${active.report.title} exported`);
+  };
+
+  const handleExportPDF = () => {
+    if (!currentCompany) return;
+    try {
+      generateFinancialStatementPDF(active.report, {
+        name: currentCompany.name,
+        address: currentCompany.address,
+        city: currentCompany.city,
+        country: currentCompany.country,
+        tax_number: currentCompany.tax_number,
+        logo_url: currentCompany.logo_url,
+      });
+    } catch (error) {
+      console.error('Error generating financial statement PDF:', error);
+      toast.error((error as { message?: string })?.message || 'Failed to generate PDF');
+    }
+  };
+
+  const renderStatement = (report: StatementReport, loading: boolean) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Account</TableHead>
+          {report.columns.map(column => (
+            <TableHead key={column} className="text-right">{column}</TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {loading ? (
+          <TableRow>
+            <TableCell colSpan={report.columns.length + 1} className="text-muted-foreground text-sm">Loading...</TableCell>
+          </TableRow>
+        ) : report.rows.map((row, index) => (
+          <TableRow
+            key={`${row.label}-${index}`}
+            className={`${ROW_CLASSES[row.kind]} ${row.account_id ? 'cursor-pointer hover:bg-muted/50' : ''}`}
+            onClick={() => handleDrillDown(row)}
+          >
+            <TableCell className={row.kind === 'line' ? 'pl-8' : ''}>{row.label}</TableCell>
+            {row.kind === 'heading'
+              ? report.columns.map(column => <TableCell key={column} />)
+              : report.columns.map((column, i) => (
+                <TableCell key={column} className="text-right">{formatValue(row, row.values[i])}</TableCell>
+              ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+  const statusCard = (ok: boolean, okLabel: string, badLabel: string) => (
+    <Card className="shadow-card">
+      <CardContent className="p-6">
+        <div className="flex items-center space-x-2">
+          {ok ? <CheckCircle className="h-8 w-8 text-success" /> : <AlertTriangle className="h-8 w-8 text-destructive" />}
+          <div>
+            <p className="text-sm font-medium text-muted-foreground">Check</p>
+            <p className={`text-lg font-bold ${ok ? 'text-success' : 'text-destructive'}`}>{ok ? okLabel : badLabel}</p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Financial Statements</h1>
+          <p className="text-muted-foreground">
+            Profit and loss, balance sheet and trial balance from the general ledger
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" onClick={handleExportCSV} disabled={active.query.isLoading}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+          <Button variant="outline" onClick={handleExportPDF} disabled={active.query.isLoading}>
+            <FileText className="mr-2 h-4 w-4" />
+            Export PDF
+          </Button>
+        </div>
+      </div>
+
+      <Card className="shadow-card">
+        <CardContent className="pt-6">
+          <div className="flex flex-wrap items-end gap-4">
+            {tab === 'pnl' ? (
+              <>
+                <div className="space-y-1">
+                  <Label className="text-xs">Period</Label>
+                  <Select value={pnlMode} onValueChange={(value) => setPnlMode(value as PnlPeriodMode)}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="month">Month</SelectItem>
+                      <SelectItem value="fiscal_year">Fiscal year</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {pnlMode === 'month' ? (
+                  <div className="space-y-1">
+                    <Label htmlFor="fs_month" className="text-xs">Month</Label>
+                    <Input id="fs_month" type="month" value={month} onChange={(e) => e.target.value && setMonth(e.target.value)} className="w-44" />
+                  </div>
+                ) : (
+                  <div className="space-y-1">
+                    <Label className="text-xs">Fiscal year</Label>
+                    <Select value={String(fiscalYear)} onValueChange={(value) => setFiscalYear(Number(value))}>
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {fiscalYears.map(year => (
+                          <SelectItem key={year} value={String(year)}>{fiscalYearPeriod(year, startMonth).label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </>
+            ) : (
+              <div className="space-y-1">
+                <Label htmlFor="fs_as_at" className="text-xs">As at</Label>
+                <Input id="fs_as_at" type="date" value={asAt} onChange={(e) => e.target.value && setAsAt(e.target.value)} className="w-44" />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label className="text-xs">Compare with</Label>
+              <Select value={comparison} onValueChange={(value) => setComparison(value as ComparisonMode)}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No comparison</SelectItem>
+                  <SelectItem value="previous">
+                    {tab === 'pnl' ? (pnlMode === 'month' ? 'Previous month' : 'Previous fiscal year') : 'End of previous fiscal year'}
+                  </SelectItem>
+                  {!(tab === 'pnl' && pnlMode === 'fiscal_year') && (
+                    <SelectItem value="prior_year">{tab === 'pnl' ? 'Same month last year' : 'Same date last year'}</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {active.query.error ? (
+        <Card className="shadow-card">
+          <CardContent className="pt-6">
+            <div className="text-center py-8">
+              <p className="text-destructive">Error loading the ledger balances: {(active.query.error as Error).message}</p>
+              <Button variant="outline" onClick={() => active.query.refetch()} className="mt-4">
+                Retry
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Tabs value={tab} onValueChange={(value) => setTab(value as StatementTab)}>
+          <TabsList>
+            <TabsTrigger value="pnl">Profit & Loss</TabsTrigger>
+            <TabsTrigger value="balance-sheet">Balance Sheet</TabsTrigger>
+            <TabsTrigger value="trial-balance">Trial Balance</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="pnl" className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Card className="shadow-card">
+                <CardContent className="p-6">
+                  <div className="flex items-center space-x-2">
+                    <TrendingUp className="h-8 w-8 text-primary" />
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Revenue</p>
+                      <p className="text-lg font-bold text-primary">{formatCurrency(profitAndLoss.revenue)}</p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+              <Card className="shadow-card">
+                <CardContent className="p-6">
+                  <div className="flex items-center space-x-2">
+                    <Percent className="h-8 w-8 text-secondary" />
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Gross Margin</p>
+                      <p className="text-lg font-bold text-secondary">
+                        {profitAndLoss.gross_margin === null ? '—' : `${profitAndLoss.gross_margin.toFixed(1)}%`}
+                      </p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+              <Card className="shadow-card">
+                <CardContent className="p-6">
+                  <div className="flex items-center space-x-2">
+                    <Scale className={`h-8 w-8 ${profitAndLoss.net_profit >= 0 ? 'text-success' : 'text-destructive'}`} />
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Net Profit</p>
+                      <p className={`text-lg font-bold ${profitAndLoss.net_profit >= 0 ? 'text-success' : 'text-destructive'}`}>
+                        {formatCurrency(profitAndLoss.net_profit)}
+                      </p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+            <Card className="shadow-card">
+              <CardHeader>
+                <CardTitle>Profit and Loss</CardTitle>
+                <CardDescription>
+                  {pnlPeriod.label}. Cost of sales is stock issued at its cost per unit. Click an account for its source documents.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>{renderStatement(profitAndLoss.report, pnlCurrent.isLoading)}</CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="balance-sheet" className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Card className="shadow-card">
+                <CardContent className="p-6">
+                  <p className="text-sm font-medium text-muted-foreground">Total Assets</p>
+                  <p className="text-lg font-bold text-primary">{formatCurrency(balanceSheet.total_assets)}</p>
+                </CardContent>
+              </Card>
+              <Card className="shadow-card">
+                <CardContent className="p-6">
+                  <p className="text-sm font-medium text-muted-foreground">Liabilities and Equity</p>
+                  <p className="text-lg font-bold text-secondary">{formatCurrency(balanceSheet.total_liabilities_and_equity)}</p>
+                </CardContent>
+              </Card>
+              {statusCard(balanceSheet.balanced, 'Balances', 'Does not balance')}
+            </div>
+            <Card className="shadow-card">
+              <CardHeader>
+                <CardTitle>Balance Sheet</CardTitle>
+                <CardDescription>{balanceSheet.report.period_label}. Click an account for this fiscal year's postings.</CardDescription>
+              </CardHeader>
+              <CardContent>{renderStatement(balanceSheet.report, bsCurrent.isLoading)}</CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="trial-balance" className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {statusCard(trialBalance.balanced, 'Debits equal credits', 'Out of balance')}
+            </div>
+            <Card className="shadow-card">
+              <CardHeader>
+                <CardTitle>Trial Balance</CardTitle>
+                <CardDescription>{trialBalance.report.period_label}. Click an account for this fiscal year's postings.</CardDescription>
+              </CardHeader>
+              <CardContent>{renderStatement(trialBalance.report, tbCurrent.isLoading)}</CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      )}
+
+      <AccountDrillDownDialog
+        open={!!drillAccount}
+        onOpenChange={(open) => !open && setDrillAccount(null)}
+        account={drillAccount}
+        from={drillAccount?.from}
+        to={drillAccount?.to || asAt}
+      />
+    </div>
+  );
+};
+
+export default FinancialStatements;
@@ -41,6 +41,7 @@ import {
   AreaChart
 } from 'recharts';
 import { useProducts, useStockMovements } from '@/hooks/useDatabase';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
 import { toast } from 'sonner';
 
 // No sample data - using real database data only
@@ -51,8 +52,9 @@ export default function InventoryReports() {
   const [searchTerm, setSearchTerm] = useState('');
   const [categoryFilter, setCategoryFilter] = useState('all');
 
-  const { data: products } = useProducts();
-  const { data: stockMovements } = useStockMovements();
+  const { currentCompany } = useCurrentCompany();
+  const { data: products } = useProducts(currentCompany?.id);
+  const { data: stockMovements } = useStockMovements(currentCompany?.id);
 
   // Calculate stock movement data from real movements
   const calculateStockMovementData = () => {
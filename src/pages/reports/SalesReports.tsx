@@ -37,10 +37,23 @@ import {
   Pie,
   Cell
 } from 'recharts';
-import { useCustomers, useProducts } from '@/hooks/useDatabase';
+import { useCustomers, useProducts, useQuotations } from '@/hooks/useDatabase';
 import { useInvoicesFixed as useInvoices } from '@/hooks/useInvoicesFixed';
-import { useCurrentCompanyId } from '@/contexts/CompanyContext';
+import { useCurrentCompany, useCurrentCompanyId } from '@/contexts/CompanyContext';
 import { toast } from 'sonner';
+import {
+  SUPPORTED_CURRENCIES,
+  baseCurrencyOf,
+  baseTotal,
+  documentCurrency,
+  formatMoney,
+  toBase,
+  type CurrencyView
+} from '@/utils/currency';
+import {
+  buildQuotationConversionReport,
+  type QuotationConversionGroupBy
+} from '@/utils/quotationLifecycle';
 
 export default function SalesReports() {
   const [dateRange, setDateRange] = useState('last_30_days');
@@ -48,27 +61,43 @@ export default function SalesReports() {
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
 
+  // Sales in base currency across all invoices, or as raised for the invoices in one currency
+  const [currencyView, setCurrencyView] = useState<CurrencyView>('base');
+  const [viewCurrency, setViewCurrency] = useState('USD');
+  const [conversionGroupBy, setConversionGroupBy] = useState<QuotationConversionGroupBy>('customer');
+
   const companyId = useCurrentCompanyId();
+  const { currentCompany } = useCurrentCompany();
+  const baseCurrency = baseCurrencyOf(currentCompany);
 
   const { data: invoices, isLoading: invoicesLoading, error: invoicesError } = useInvoices(companyId);
   const { data: customers, isLoading: customersLoading, error: customersError } = useCustomers(companyId);
   const { data: products, isLoading: productsLoading, error: productsError } = useProducts(companyId);
+  // Only the conversion report needs quotations, so they do not hold up the rest of the page
+  const { data: quotations, isLoading: quotationsLoading, error: quotationsError } = useQuotations(companyId);
 
   const isLoading = invoicesLoading || customersLoading || productsLoading;
   const hasError = invoicesError || customersError || productsError;
 
-  // Get filtered invoices based on date range
-  const getFilteredInvoices = () => {
-    if (!invoices) return [];
+  const displayCurrency = currencyView === 'base' ? baseCurrency : viewCurrency;
+  const viewInvoices = (invoices || []).filter(invoice =>
+    currencyView === 'base' || documentCurrency(invoice, baseCurrency) === viewCurrency);
+  const invoiceAmount = (invoice: (typeof viewInvoices)[number]) =>
+    currencyView === 'base' ? baseTotal(invoice) : Number(invoice.total_amount || 0);
+  const formatAmount = (amount: number) => formatMoney(amount, displayCurrency);
+
+  // Documents dated within the selected date range
+  const filterByDateRange = <T,>(documents: T[], dateOf: (document: T) => string) => {
+    if (!documents.length) return [];
 
     if (dateRange === 'custom' && startDate && endDate) {
       const start = new Date(startDate);
       const end = new Date(endDate);
       end.setHours(23, 59, 59, 999); // Include full end date
       
-      return invoices.filter(invoice => {
-        const invoiceDate = new Date(invoice.invoice_date);
-        return invoiceDate >= start && invoiceDate <= end;
+      return documents.filter(document => {
+        const documentDate = new Date(dateOf(document));
+        return documentDate >= start && documentDate <= end;
       });
     }
 
@@ -92,12 +121,27 @@ export default function SalesReports() {
         filterStart.setDate(now.getDate() - 30);
     }
     
-    return invoices.filter(invoice => {
-      const invoiceDate = new Date(invoice.invoice_date);
-      return invoiceDate >= filterStart;
+    return documents.filter(document => {
+      const documentDate = new Date(dateOf(document));
+      return documentDate >= filterStart;
     });
   };
 
+  // Get filtered invoices based on date range
+  const getFilteredInvoices = () => filterByDateRange(viewInvoices, invoice => invoice.invoice_date);
+
+  // Quotation win/loss over the date range, in the same currency view as sales
+  const conversionReport = buildQuotationConversionReport(
+    filterByDateRange(
+      (quotations || []).filter(quotation =>
+        currencyView === 'base' || documentCurrency(quotation, baseCurrency) === viewCurrency),
+      quotation => quotation.quotation_date
+    ),
+    conversionGroupBy,
+    quotation => currencyView === 'base' ? baseTotal(quotation) : Number(quotation.total_amount || 0)
+  );
+  const formatRate = (rate: number | null) => rate === null ? '-' : `${(rate * 100).toFixed(1)}%`;
+
   // Calculate monthly sales data from filtered invoices
   const calculateMonthlySalesData = () => {
     const filteredInvoices = getFilteredInvoices();
@@ -117,7 +161,7 @@ export default function SalesReports() {
         return invoiceDate >= monthStart && invoiceDate <= monthEnd;
       });
 
-      const monthlySales = monthInvoices.reduce((sum, inv) => sum + (inv.total_amount || 0), 0);
+      const monthlySales = monthInvoices.reduce((sum, inv) => sum + invoiceAmount(inv), 0);
       const uniqueCustomers = new Set(monthInvoices.map(inv => inv.customer_id)).size;
 
       last6Months.push({
@@ -143,7 +187,8 @@ export default function SalesReports() {
         invoice.invoice_items.forEach((item: any) => {
           const productId = item.product_id;
           const productName = products.find(p => p.id === productId)?.name || 'Unknown Product';
-          const itemTotal = (item.quantity || 0) * (item.unit_price || 0);
+          const lineAmount = (item.quantity || 0) * (item.unit_price || 0);
+          const itemTotal = currencyView === 'base' ? toBase(lineAmount, invoice.exchange_rate) : lineAmount;
 
           if (productSales.has(productId)) {
             productSales.set(productId, {
@@ -187,13 +232,13 @@ export default function SalesReports() {
         const existing = customerSales.get(customerId);
         customerSales.set(customerId, {
           name: customerName,
-          sales: existing.sales + (invoice.total_amount || 0),
+          sales: existing.sales + invoiceAmount(invoice),
           invoices: existing.invoices + 1
         });
       } else {
         customerSales.set(customerId, {
           name: customerName,
-          sales: invoice.total_amount || 0,
+          sales: invoiceAmount(invoice),
           invoices: 1
         });
       }
@@ -212,7 +257,7 @@ export default function SalesReports() {
   // Calculate stats from filtered and unfiltered data
   const calculateStats = () => {
     const filteredInvoices = getFilteredInvoices();
-    const allInvoices = invoices || [];
+    const allInvoices = viewInvoices;
     
     if (!allInvoices.length) return { dailySales: 0, monthlySales: 0, yearlySales: 0, totalInvoices: 0 };
 
@@ -224,15 +269,15 @@ export default function SalesReports() {
     // For daily/monthly/yearly stats, use all invoices (not filtered by date range)
     const dailySales = allInvoices
       .filter(inv => new Date(inv.invoice_date) >= today)
-      .reduce((sum, inv) => sum + (inv.total_amount || 0), 0);
+      .reduce((sum, inv) => sum + invoiceAmount(inv), 0);
 
     const monthlySales = allInvoices
       .filter(inv => new Date(inv.invoice_date) >= thirtyDaysAgo)
-      .reduce((sum, inv) => sum + (inv.total_amount || 0), 0);
+      .reduce((sum, inv) => sum + invoiceAmount(inv), 0);
 
     const yearlySales = allInvoices
       .filter(inv => new Date(inv.invoice_date) >= yearStart)
-      .reduce((sum, inv) => sum + (inv.total_amount || 0), 0);
+      .reduce((sum, inv) => sum + invoiceAmount(inv), 0);
 
     return {
       dailySales,
@@ -250,11 +295,13 @@ export default function SalesReports() {
       dateRange,
       startDate,
       endDate,
-      totalSales: filteredInvoices.reduce((sum, inv) => sum + (inv.total_amount || 0), 0),
+      currency: displayCurrency,
+      totalSales: filteredInvoices.reduce((sum, inv) => sum + invoiceAmount(inv), 0),
       totalInvoices: filteredInvoices.length,
       topProducts: topProductsData,
       topCustomers: topCustomersData,
-      monthlySales: monthlySalesData
+      monthlySales: monthlySalesData,
+      quotationConversion: conversionReport
     };
     
     console.log('Export data:', reportData);
@@ -351,6 +398,23 @@ export default function SalesReports() {
               <SelectItem value="custom">Custom range</SelectItem>
             </SelectContent>
           </Select>
+          <Select
+            value={currencyView === 'base' ? 'base' : viewCurrency}
+            onValueChange={(value) => {
+              setCurrencyView(value === 'base' ? 'base' : 'document');
+              if (value !== 'base') setViewCurrency(value);
+            }}
+          >
+            <SelectTrigger className="w-52">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="base">All invoices in {baseCurrency}</SelectItem>
+              {SUPPORTED_CURRENCIES.filter(c => c.code !== baseCurrency).map(currency => (
+                <SelectItem key={currency.code} value={currency.code}>{currency.code} invoices as raised</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <Button variant="outline" onClick={handleExport}>
             <Download className="h-4 w-4 mr-2" />
             Export
@@ -394,7 +458,7 @@ export default function SalesReports() {
               <DollarSign className="h-8 w-8 text-success" />
               <div>
                 <p className="text-sm font-medium text-muted-foreground">Daily Sales</p>
-                <p className="text-2xl font-bold text-success">${stats.dailySales.toFixed(2)}</p>
+                <p className="text-2xl font-bold text-success">{formatAmount(stats.dailySales)}</p>
                 <p className="text-xs text-success">Today's revenue</p>
               </div>
             </div>
@@ -407,7 +471,7 @@ export default function SalesReports() {
               <TrendingUp className="h-8 w-8 text-primary" />
               <div>
                 <p className="text-sm font-medium text-muted-foreground">Monthly Sales</p>
-                <p className="text-2xl font-bold text-primary">${stats.monthlySales.toFixed(2)}</p>
+                <p className="text-2xl font-bold text-primary">{formatAmount(stats.monthlySales)}</p>
                 <p className="text-xs text-success">Last 30 days</p>
               </div>
             </div>
@@ -420,7 +484,7 @@ export default function SalesReports() {
               <BarChart3 className="h-8 w-8 text-success" />
               <div>
                 <p className="text-sm font-medium text-muted-foreground">Yearly Sales</p>
-                <p className="text-2xl font-bold text-success">${stats.yearlySales.toFixed(2)}</p>
+                <p className="text-2xl font-bold text-success">{formatAmount(stats.yearlySales)}</p>
                 <p className="text-xs text-success">This year</p>
               </div>
             </div>
@@ -456,6 +520,7 @@ export default function SalesReports() {
               <SelectItem value="products">Product Performance</SelectItem>
               <SelectItem value="customers">Customer Analysis</SelectItem>
               <SelectItem value="trends">Trend Analysis</SelectItem>
+              <SelectItem value="quotations">Quotation Conversion</SelectItem>
             </SelectContent>
           </Select>
         </CardContent>
@@ -474,7 +539,7 @@ export default function SalesReports() {
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis dataKey="month" />
                   <YAxis />
-                  <Tooltip formatter={(value) => [`$${value}`, 'Sales']} />
+                  <Tooltip formatter={(value) => [formatAmount(Number(value)), 'Sales']} />
                   <Legend />
                   <Line type="monotone" dataKey="sales" stroke="#8884d8" strokeWidth={2} />
                 </LineChart>
@@ -516,7 +581,7 @@ export default function SalesReports() {
                     cx="50%"
                     cy="50%"
                     labelLine={false}
-                    label={({ name, value }) => `${name}: $${value}`}
+                    label={({ name, value }) => `${name}: ${formatAmount(Number(value))}`}
                     outerRadius={80}
                     fill="#8884d8"
                     dataKey="sales"
@@ -525,7 +590,7 @@ export default function SalesReports() {
                       <Cell key={`cell-${index}`} fill={entry.color} />
                     ))}
                   </Pie>
-                  <Tooltip formatter={(value) => [`$${value}`, 'Sales']} />
+                  <Tooltip formatter={(value) => [formatAmount(Number(value)), 'Sales']} />
                 </PieChart>
               </ResponsiveContainer>
             </CardContent>
@@ -541,7 +606,7 @@ export default function SalesReports() {
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis type="number" />
                   <YAxis dataKey="name" type="category" width={100} />
-                  <Tooltip formatter={(value) => [`$${value}`, 'Sales']} />
+                  <Tooltip formatter={(value) => [formatAmount(Number(value)), 'Sales']} />
                   <Bar dataKey="sales" fill="#8884d8" />
                 </BarChart>
               </ResponsiveContainer>
@@ -569,9 +634,9 @@ export default function SalesReports() {
                 {topCustomersData.map((customer, index) => (
                   <TableRow key={index}>
                     <TableCell className="font-medium">{customer.name}</TableCell>
-                    <TableCell>${customer.sales.toFixed(2)}</TableCell>
+                    <TableCell>{formatAmount(customer.sales)}</TableCell>
                     <TableCell>{customer.invoices}</TableCell>
-                    <TableCell>${(customer.sales / customer.invoices).toFixed(2)}</TableCell>
+                    <TableCell>{formatAmount(customer.sales / customer.invoices)}</TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -602,6 +667,71 @@ export default function SalesReports() {
         </Card>
       )}
 
+      {reportType === 'quotations' && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle>Quotation Conversion</CardTitle>
+              <p className="text-sm text-muted-foreground mt-1">
+                Quotations dated in the period. Conversion is won out of won, lost and expired; open quotations are not counted.
+              </p>
+            </div>
+            <Select value={conversionGroupBy} onValueChange={(value) => setConversionGroupBy(value as QuotationConversionGroupBy)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="customer">By customer</SelectItem>
+                <SelectItem value="salesperson">By salesperson</SelectItem>
+                <SelectItem value="month">By month</SelectItem>
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            {quotationsLoading ? (
+              <p className="text-muted-foreground">Loading quotations...</p>
+            ) : quotationsError ? (
+              <p className="text-destructive">Error loading quotations: {quotationsError.message}</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{conversionGroupBy === 'customer' ? 'Customer' : conversionGroupBy === 'salesperson' ? 'Salesperson' : 'Month'}</TableHead>
+                    <TableHead className="text-right">Quoted</TableHead>
+                    <TableHead className="text-right">Won</TableHead>
+                    <TableHead className="text-right">Lost</TableHead>
+                    <TableHead className="text-right">Expired</TableHead>
+                    <TableHead className="text-right">Open</TableHead>
+                    <TableHead className="text-right">Quoted Value</TableHead>
+                    <TableHead className="text-right">Won Value</TableHead>
+                    <TableHead className="text-right">Conversion</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {conversionReport.rows.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={9} className="text-muted-foreground">No quotations in this period</TableCell>
+                    </TableRow>
+                  ) : [...conversionReport.rows, conversionReport.total].map(row => (
+                    <TableRow key={row.key} className={row.key === 'total' ? 'font-semibold border-t-2' : undefined}>
+                      <TableCell className="font-medium">{row.label}</TableCell>
+                      <TableCell className="text-right">{row.quoted}</TableCell>
+                      <TableCell className="text-right">{row.won}</TableCell>
+                      <TableCell className="text-right">{row.lost}</TableCell>
+                      <TableCell className="text-right">{row.expired}</TableCell>
+                      <TableCell className="text-right">{row.open}</TableCell>
+                      <TableCell className="text-right">{formatAmount(row.quotedValue)}</TableCell>
+                      <TableCell className="text-right">{formatAmount(row.wonValue)}</TableCell>
+                      <TableCell className="text-right">{formatRate(row.conversionRate)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Summary Stats */}
       <div className="grid gap-4 md:grid-cols-3">
         <Card>
@@ -636,10 +766,9 @@ export default function SalesReports() {
               <div className="flex justify-between">
                 <span className="text-sm text-muted-foreground">Average Order Value</span>
                 <span className="font-medium">
-                  ${invoices && invoices.length > 0
-                    ? (invoices.reduce((sum, inv) => sum + (inv.total_amount || 0), 0) / invoices.length).toFixed(2)
-                    : '0.00'
-                  }
+                  {formatAmount(viewInvoices.length > 0
+                    ? viewInvoices.reduce((sum, inv) => sum + invoiceAmount(inv), 0) / viewInvoices.length
+                    : 0)}
                 </span>
               </div>
             </div>
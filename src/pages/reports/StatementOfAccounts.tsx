@@ -26,8 +26,9 @@ import {
 } from 'lucide-react';
 import { generateCustomerStatementPDF } from '@/utils/pdfGenerator';
 import { toast } from 'sonner';
-import { useCustomers, usePayments, useCompanies } from '@/hooks/useDatabase';
+import { useCustomers, usePayments } from '@/hooks/useDatabase';
 import { useInvoicesFixed as useInvoices } from '@/hooks/useInvoicesFixed';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
 
 // Helper function to compute customer statements from real data
 const computeCustomerStatements = (customers: any[], invoices: any[], payments: any[]) => {
@@ -119,8 +120,7 @@ const StatementOfAccounts = () => {
   const [showOverdueOnly, setShowOverdueOnly] = useState(false);
 
   // Real data hooks
-  const { data: companies } = useCompanies();
-  const currentCompany = companies?.[0];
+  const { currentCompany } = useCurrentCompany();
   const { data: customers } = useCustomers(currentCompany?.id);
   const { data: invoices } = useInvoices(currentCompany?.id);
   const { data: payments } = usePayments(currentCompany?.id);
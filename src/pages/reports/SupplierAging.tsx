@@ -0,0 +1,264 @@
+import { Fragment, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Search,
+  Download,
+  DollarSign,
+  Truck,
+  AlertTriangle,
+  Clock,
+  ChevronDown,
+  ChevronRight
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { useSuppliers, useSupplierBills, useSupplierPayments, type SupplierBill } from '@/hooks/useDatabase';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { computeSupplierAging, OPEN_BILL_STATUSES } from '@/utils/accountsPayable';
+import { exportSupplierAgingToCSV } from '@/utils/csvExporter';
+
+const SupplierAging = () => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showOverdueOnly, setShowOverdueOnly] = useState(false);
+  const [expandedSupplier, setExpandedSupplier] = useState<string | null>(null);
+
+  const { currentCompany } = useCurrentCompany();
+  const { data: suppliers } = useSuppliers(currentCompany?.id);
+  const { data: bills } = useSupplierBills(currentCompany?.id);
+  const { data: payments } = useSupplierPayments(currentCompany?.id);
+
+  // Only suppliers we owe something to, or who hold a credit with us
+  const aging = computeSupplierAging(suppliers || [], bills || [], payments || [])
+    .filter(row => row.agingAnalysis.total > 0 || row.unallocatedCredit > 0);
+
+  const filteredAging = aging.filter(row => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = !term ||
+      row.supplierName.toLowerCase().includes(term) ||
+      row.supplierCode?.toLowerCase().includes(term);
+    const matchesOverdue = !showOverdueOnly || row.overdueAmount > 0;
+    return matchesSearch && matchesOverdue;
+  });
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-KE', {
+      style: 'currency',
+      currency: 'KES',
+      minimumFractionDigits: 2
+    }).format(amount);
+  };
+
+  const totals = filteredAging.reduce((acc, row) => ({
+    current: acc.current + row.agingAnalysis.current,
+    days30: acc.days30 + row.agingAnalysis.days30,
+    days60: acc.days60 + row.agingAnalysis.days60,
+    days90: acc.days90 + row.agingAnalysis.days90,
+    total: acc.total + row.agingAnalysis.total,
+    credit: acc.credit + row.unallocatedCredit,
+    net: acc.net + row.netBalance,
+  }), { current: 0, days30: 0, days60: 0, days90: 0, total: 0, credit: 0, net: 0 });
+
+  const handleExport = () => {
+    if (filteredAging.length === 0) {
+      toast.error('Nothing to export');
+      return;
+    }
+    exportSupplierAgingToCSV(filteredAging);
+    toast.success(`Exported aging for ${filteredAging.length} suppliers to CSV`);
+  };
+
+  const supplierOpenBills = (supplierId: string) => (bills || [])
+    .filter(b => b.supplier_id === supplierId && OPEN_BILL_STATUSES.includes(b.status))
+    .sort((a, b) => new Date(a.due_date || a.bill_date).getTime() - new Date(b.due_date || b.bill_date).getTime());
+
+  const daysPastDue = (bill: SupplierBill) =>
+    Math.floor((new Date().getTime() - new Date(bill.due_date || bill.bill_date).getTime()) / (1000 * 60 * 60 * 24));
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Supplier Aging</h1>
+          <p className="text-muted-foreground">
+            Accounts payable balances and aging analysis by supplier
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleExport}>
+          <Download className="mr-2 h-4 w-4" />
+          Export CSV
+        </Button>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card className="shadow-card">
+          <CardContent className="p-6">
+            <div className="flex items-center space-x-2">
+              <DollarSign className="h-8 w-8 text-primary" />
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Total Payable</p>
+                <p className="text-lg font-bold text-primary">{formatCurrency(totals.total)}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-card">
+          <CardContent className="p-6">
+            <div className="flex items-center space-x-2">
+              <AlertTriangle className="h-8 w-8 text-destructive" />
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Overdue Amount</p>
+                <p className="text-lg font-bold text-destructive">{formatCurrency(totals.days30 + totals.days60 + totals.days90)}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-card">
+          <CardContent className="p-6">
+            <div className="flex items-center space-x-2">
+              <Truck className="h-8 w-8 text-secondary" />
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Suppliers Owed</p>
+                <p className="text-lg font-bold text-secondary">{filteredAging.filter(r => r.agingAnalysis.total > 0).length}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-card">
+          <CardContent className="p-6">
+            <div className="flex items-center space-x-2">
+              <Clock className="h-8 w-8 text-warning" />
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Unallocated Payments</p>
+                <p className="text-lg font-bold text-warning">{formatCurrency(totals.credit)}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Filters */}
+      <Card className="shadow-card">
+        <CardContent className="pt-6">
+          <div className="flex space-x-4">
+            <div className="flex-1">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  placeholder="Search by supplier name or code..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+            </div>
+            <Button
+              variant={showOverdueOnly ? "default" : "outline"}
+              onClick={() => setShowOverdueOnly(!showOverdueOnly)}
+            >
+              <AlertTriangle className="mr-2 h-4 w-4" />
+              Overdue Only
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Aging Table */}
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle>Accounts Payable Aging</CardTitle>
+          <CardDescription>
+            Approved bills by days past due. Click a supplier to see their open bills.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {filteredAging.length === 0 ? (
+            <div className="text-center py-8">
+              <Truck className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium text-foreground mb-2">Nothing owed to suppliers</h3>
+              <p className="text-muted-foreground">
+                {searchTerm || showOverdueOnly ? 'Try adjusting your search criteria' : 'Approved supplier bills will appear here'}
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead className="text-right">Current</TableHead>
+                  <TableHead className="text-right">1-30 days</TableHead>
+                  <TableHead className="text-right">31-60 days</TableHead>
+                  <TableHead className="text-right">60+ days</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Unallocated</TableHead>
+                  <TableHead className="text-right">Net Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredAging.map(row => (
+                  <Fragment key={row.supplierId}>
+                    <TableRow
+                      className="cursor-pointer hover:bg-muted/50"
+                      onClick={() => setExpandedSupplier(expandedSupplier === row.supplierId ? null : row.supplierId)}
+                    >
+                      <TableCell>
+                        <div className="flex items-center space-x-2">
+                          {expandedSupplier === row.supplierId ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          <div>
+                            <div className="font-medium">{row.supplierName}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {row.supplierCode} • {row.paymentTerms ? `${row.paymentTerms} days` : 'COD'} • {row.openBills} open
+                            </div>
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right text-success">{formatCurrency(row.agingAnalysis.current)}</TableCell>
+                      <TableCell className="text-right text-warning">{formatCurrency(row.agingAnalysis.days30)}</TableCell>
+                      <TableCell className="text-right text-orange-600">{formatCurrency(row.agingAnalysis.days60)}</TableCell>
+                      <TableCell className="text-right text-destructive">{formatCurrency(row.agingAnalysis.days90)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatCurrency(row.agingAnalysis.total)}</TableCell>
+                      <TableCell className="text-right">{row.unallocatedCredit > 0 ? `(${formatCurrency(row.unallocatedCredit)})` : '-'}</TableCell>
+                      <TableCell className="text-right font-bold">{formatCurrency(row.netBalance)}</TableCell>
+                    </TableRow>
+                    {expandedSupplier === row.supplierId && supplierOpenBills(row.supplierId).map(bill => (
+                      <TableRow key={bill.id} className="bg-muted/30 text-sm">
+                        <TableCell className="pl-10">
+                          {bill.bill_number}{bill.supplier_invoice_number ? ` (${bill.supplier_invoice_number})` : ''}
+                        </TableCell>
+                        <TableCell colSpan={3}>
+                          Due {new Date(bill.due_date || bill.bill_date).toLocaleDateString()}
+                          {daysPastDue(bill) > 0 && <span className="text-destructive"> • {daysPastDue(bill)} days overdue</span>}
+                        </TableCell>
+                        <TableCell className="text-right text-muted-foreground">{formatCurrency(Number(bill.total_amount || 0))}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(Number(bill.balance_due || 0))}</TableCell>
+                        <TableCell colSpan={2} />
+                      </TableRow>
+                    ))}
+                  </Fragment>
+                ))}
+                <TableRow className="font-bold border-t-2">
+                  <TableCell>Total</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totals.current)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totals.days30)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totals.days60)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totals.days90)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totals.total)}</TableCell>
+                  <TableCell className="text-right">{totals.credit > 0 ? `(${formatCurrency(totals.credit)})` : '-'}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totals.net)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SupplierAging;
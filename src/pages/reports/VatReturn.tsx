@@ -0,0 +1,338 @@
+import { Fragment, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Download,
+  ArrowUpRight,
+  ArrowDownLeft,
+  Scale,
+  ShieldOff,
+  ChevronDown,
+  ChevronRight,
+  AlertTriangle,
+  Receipt
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { useVatReturn } from '@/hooks/useVatReturn';
+import {
+  documentsForRow,
+  VAT_CATEGORY_LABELS,
+  vat3PurchaseRows,
+  vat3SalesRows,
+  type VatRateRow
+} from '@/utils/vatReturn';
+import { exportVat3ScheduleToCSV } from '@/utils/csvExporter';
+
+const previousMonth = () => {
+  const d = new Date();
+  d.setDate(1);
+  d.setMonth(d.getMonth() - 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const rowKey = (row: Pick<VatRateRow, 'side' | 'category' | 'rate'>) => `${row.side}:${row.category}:${row.rate}`;
+
+const DOCUMENT_LABELS = {
+  invoice: 'Invoice',
+  credit_note: 'Credit Note',
+  supplier_bill: 'Supplier Bill',
+};
+
+const VatReturn = () => {
+  // VAT is filed for the month just ended
+  const [month, setMonth] = useState(previousMonth);
+  const [expandedRow, setExpandedRow] = useState<string | null>(null);
+
+  const { currentCompany } = useCurrentCompany();
+  const { data: vatReturn, isLoading, error, refetch } = useVatReturn(currentCompany?.id, month);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-KE', {
+      style: 'currency',
+      currency: 'KES',
+      minimumFractionDigits: 2
+    }).format(amount);
+  };
+
+  const rows = vatReturn?.rows || [];
+  const untaxedSales = rows
+    .filter(row => row.side === 'output' && row.category !== 'standard')
+    .reduce((sum, row) => sum + row.taxable, 0);
+  const monthLabel = new Date(`${month}-01T00:00:00`).toLocaleDateString('en-KE', { month: 'long', year: 'numeric' });
+
+  const handleExport = (schedule: 'sales' | 'purchases') => {
+    if (!vatReturn) return;
+    const scheduleRows = schedule === 'sales' ? vat3SalesRows(vatReturn) : vat3PurchaseRows(vatReturn);
+    if (scheduleRows.length === 0) {
+      toast.error(`No standard rated ${schedule} in ${monthLabel}`);
+      return;
+    }
+    exportVat3ScheduleToCSV(schedule, scheduleRows, month);
+    toast.success(`Exported ${scheduleRows.length} rows to the VAT3 ${schedule} schedule`);
+  };
+
+  const renderRows = (side: VatRateRow['side']) => {
+    const sideRows = rows.filter(row => row.side === side);
+    if (sideRows.length === 0) {
+      return (
+        <TableRow>
+          <TableCell colSpan={4} className="text-muted-foreground text-sm">
+            {side === 'output' ? 'No invoices or credit notes in this period' : 'No approved supplier bills in this period'}
+          </TableCell>
+        </TableRow>
+      );
+    }
+
+    return sideRows.map(row => {
+      const key = rowKey(row);
+      const expanded = expandedRow === key;
+      return (
+        <Fragment key={key}>
+          <TableRow className="cursor-pointer hover:bg-muted/50" onClick={() => setExpandedRow(expanded ? null : key)}>
+            <TableCell>
+              <div className="flex items-center space-x-2">
+                {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                <span className="font-medium">
+                  {VAT_CATEGORY_LABELS[row.category]}{row.category === 'standard' ? ` ${row.rate}%` : ''}
+                </span>
+              </div>
+            </TableCell>
+            <TableCell className="text-right">{row.documents}</TableCell>
+            <TableCell className="text-right">{formatCurrency(row.taxable)}</TableCell>
+            <TableCell className="text-right font-medium">{formatCurrency(row.vat)}</TableCell>
+          </TableRow>
+          {expanded && vatReturn && documentsForRow(vatReturn, row).map(document => {
+            const line = document.lines.find(l => l.category === row.category && l.rate === row.rate)!;
+            return (
+              <TableRow key={`${key}:${document.kind}:${document.id}`} className="bg-muted/30 text-sm">
+                <TableCell className="pl-10">
+                  <div className="font-medium">
+                    {DOCUMENT_LABELS[document.kind]} {document.number}
+                    {document.related_number && <span className="text-muted-foreground"> against {document.related_number}</span>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {new Date(document.date).toLocaleDateString()} • {document.counterparty}
+                    {document.counterparty_pin ? ` • PIN ${document.counterparty_pin}` : ' • no PIN'}
+                  </div>
+                </TableCell>
+                <TableCell />
+                <TableCell className="text-right">{formatCurrency(line.taxable)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(line.vat)}</TableCell>
+              </TableRow>
+            );
+          })}
+        </Fragment>
+      );
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">VAT Return</h1>
+          <p className="text-muted-foreground">
+            Output VAT on sales against input VAT on purchases for the month
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Input
+            type="month"
+            value={month}
+            onChange={(e) => e.target.value && setMonth(e.target.value)}
+            className="w-44"
+          />
+          <Button variant="outline" onClick={() => handleExport('sales')} disabled={!vatReturn}>
+            <Download className="mr-2 h-4 w-4" />
+            VAT3 Sales
+          </Button>
+          <Button variant="outline" onClick={() => handleExport('purchases')} disabled={!vatReturn}>
+            <Download className="mr-2 h-4 w-4" />
+            VAT3 Purchases
+          </Button>
+        </div>
+      </div>
+
+      {error ? (
+        <Card className="shadow-card">
+          <CardContent className="pt-6">
+            <div className="text-center py-8">
+              <p className="text-destructive">Error loading the VAT return: {(error as Error).message}</p>
+              <Button variant="outline" onClick={() => refetch()} className="mt-4">
+                Retry
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Summary Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <Card className="shadow-card">
+              <CardContent className="p-6">
+                <div className="flex items-center space-x-2">
+                  <ArrowUpRight className="h-8 w-8 text-primary" />
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Output VAT</p>
+                    <p className="text-lg font-bold text-primary">{formatCurrency(vatReturn?.output.vat || 0)}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-card">
+              <CardContent className="p-6">
+                <div className="flex items-center space-x-2">
+                  <ArrowDownLeft className="h-8 w-8 text-secondary" />
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Input VAT</p>
+                    <p className="text-lg font-bold text-secondary">{formatCurrency(vatReturn?.input.vat || 0)}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-card">
+              <CardContent className="p-6">
+                <div className="flex items-center space-x-2">
+                  <Scale className={`h-8 w-8 ${(vatReturn?.net_vat || 0) > 0 ? 'text-destructive' : 'text-success'}`} />
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">
+                      {(vatReturn?.net_vat || 0) >= 0 ? 'VAT Payable' : 'Credit Carried Forward'}
+                    </p>
+                    <p className={`text-lg font-bold ${(vatReturn?.net_vat || 0) > 0 ? 'text-destructive' : 'text-success'}`}>
+                      {formatCurrency(Math.abs(vatReturn?.net_vat || 0))}
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-card">
+              <CardContent className="p-6">
+                <div className="flex items-center space-x-2">
+                  <ShieldOff className="h-8 w-8 text-warning" />
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Zero Rated & Exempt Sales</p>
+                    <p className="text-lg font-bold text-warning">{formatCurrency(untaxedSales)}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Rate Breakdown */}
+          <Card className="shadow-card">
+            <CardHeader>
+              <CardTitle>VAT by Rate - {monthLabel}</CardTitle>
+              <CardDescription>
+                Posted invoices less credit notes, and approved supplier bills. Click a rate to see its documents.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="text-center py-8 text-muted-foreground">Loading VAT return...</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Rate</TableHead>
+                      <TableHead className="text-right">Documents</TableHead>
+                      <TableHead className="text-right">Taxable Value</TableHead>
+                      <TableHead className="text-right">VAT</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    <TableRow className="bg-muted/50">
+                      <TableCell colSpan={4} className="font-semibold">Sales (output VAT)</TableCell>
+                    </TableRow>
+                    {renderRows('output')}
+                    <TableRow className="font-bold border-t-2">
+                      <TableCell>Total Sales</TableCell>
+                      <TableCell />
+                      <TableCell className="text-right">{formatCurrency(vatReturn?.output.taxable || 0)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(vatReturn?.output.vat || 0)}</TableCell>
+                    </TableRow>
+
+                    <TableRow className="bg-muted/50">
+                      <TableCell colSpan={4} className="font-semibold">Purchases (input VAT)</TableCell>
+                    </TableRow>
+                    {renderRows('input')}
+                    <TableRow className="font-bold border-t-2">
+                      <TableCell>Total Purchases</TableCell>
+                      <TableCell />
+                      <TableCell className="text-right">{formatCurrency(vatReturn?.input.taxable || 0)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(vatReturn?.input.vat || 0)}</TableCell>
+                    </TableRow>
+
+                    <TableRow className="font-bold border-t-2">
+                      <TableCell colSpan={3}>
+                        {(vatReturn?.net_vat || 0) >= 0 ? 'Net VAT Payable' : 'Net VAT Credit'}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(Math.abs(vatReturn?.net_vat || 0))}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Received goods without a supplier invoice */}
+          {vatReturn && vatReturn.unbilled_lpos.length > 0 && (
+            <Card className="shadow-card border-warning/40">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2 text-base">
+                  <AlertTriangle className="h-5 w-5 text-warning" />
+                  <span>Received LPOs without a supplier bill</span>
+                </CardTitle>
+                <CardDescription>
+                  Their VAT is not claimed above. Enter the supplier's invoice as a bill to claim it.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>LPO</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Supplier</TableHead>
+                      <TableHead className="text-right">Taxable Value</TableHead>
+                      <TableHead className="text-right">VAT</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {vatReturn.unbilled_lpos.map(lpo => (
+                      <TableRow key={lpo.id}>
+                        <TableCell className="font-medium">
+                          <div className="flex items-center space-x-2">
+                            <Receipt className="h-4 w-4 text-muted-foreground" />
+                            <span>{lpo.number}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell>{new Date(lpo.date).toLocaleDateString()}</TableCell>
+                        <TableCell>{lpo.supplier}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(lpo.taxable)}</TableCell>
+                        <TableCell className="text-right">
+                          <Badge variant="outline" className="bg-warning-light text-warning border-warning/20">
+                            {formatCurrency(lpo.vat)}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default VatReturn;
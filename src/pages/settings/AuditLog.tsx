@@ -0,0 +1,285 @@
+import { Fragment, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { ChevronDown, ChevronRight, Download, History, Search } from 'lucide-react';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { useAuditActors, useAuditLogs } from '@/hooks/useAuditLog';
+import { AuditChanges } from '@/components/audit/AuditHistory';
+import { exportAuditLogToCSV } from '@/utils/csvExporter';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_FILTER_ENTITIES,
+  AuditAction,
+  auditActionColor,
+  auditActionLabel,
+  auditEntityLabel,
+  summarizeAuditEntry,
+} from '@/utils/auditLog';
+
+const ALL = 'all';
+
+export default function AuditLog() {
+  const [entityType, setEntityType] = useState(ALL);
+  const [action, setAction] = useState(ALL);
+  const [actorId, setActorId] = useState(ALL);
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { currentCompany } = useCurrentCompany();
+  const { data: actors = [] } = useAuditActors(currentCompany?.id);
+  const { data: entries = [], isLoading, error } = useAuditLogs(currentCompany?.id, {
+    entityType: entityType === ALL ? undefined : entityType,
+    action: action === ALL ? undefined : action,
+    actorId: actorId === ALL ? undefined : actorId,
+    dateFrom: dateFrom || undefined,
+    dateTo: dateTo || undefined,
+  });
+
+  // Free-text search over the recorded values, e.g. a document number or customer name
+  const filteredEntries = entries.filter(entry => {
+    const term = searchTerm.toLowerCase();
+    return !term ||
+      entry.actor_name?.toLowerCase().includes(term) ||
+      entry.entity_id.toLowerCase().includes(term) ||
+      JSON.stringify(entry.changes || {}).toLowerCase().includes(term);
+  });
+
+  const hasFilters = entityType !== ALL || action !== ALL || actorId !== ALL || !!dateFrom || !!dateTo || !!searchTerm;
+
+  const clearFilters = () => {
+    setEntityType(ALL);
+    setAction(ALL);
+    setActorId(ALL);
+    setDateFrom('');
+    setDateTo('');
+    setSearchTerm('');
+  };
+
+  const handleExport = () => {
+    exportAuditLogToCSV(filteredEntries.map(entry => ({
+      timestamp: new Date(entry.created_at).toISOString(),
+      user: entry.actor_name || 'System',
+      action: auditActionLabel(entry.action),
+      entity: auditEntityLabel(entry.entity_type),
+      entityId: entry.entity_id,
+      changes: JSON.stringify(entry.changes || {}),
+    })));
+  };
+
+  if (error) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Audit Log</h1>
+          <p className="text-muted-foreground">Who changed what, and when</p>
+        </div>
+        <Card className="shadow-card">
+          <CardContent className="pt-6">
+            <div className="text-center py-8">
+              <p className="text-destructive">Error loading audit log: {error.message}</p>
+              <Button variant="outline" onClick={() => window.location.reload()} className="mt-4">
+                Retry
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Audit Log</h1>
+          <p className="text-muted-foreground">
+            Every change to documents, payments and master data, recorded by the database
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleExport} disabled={filteredEntries.length === 0}>
+          <Download className="h-4 w-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card className="shadow-card">
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 items-end">
+            <div className="space-y-2 lg:col-span-2">
+              <Label>Search</Label>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  placeholder="Document number, customer, user..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Record type</Label>
+              <Select value={entityType} onValueChange={setEntityType}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All records</SelectItem>
+                  {AUDIT_FILTER_ENTITIES.map(type => (
+                    <SelectItem key={type} value={type}>{auditEntityLabel(type)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Action</Label>
+              <Select value={action} onValueChange={setAction}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All actions</SelectItem>
+                  {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(key => (
+                    <SelectItem key={key} value={key}>{AUDIT_ACTION_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>User</Label>
+              <Select value={actorId} onValueChange={setActorId}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All users</SelectItem>
+                  {actors.map(actor => (
+                    <SelectItem key={actor.id} value={actor.id}>{actor.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label>From</Label>
+                <Input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>To</Label>
+                <Input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+              </div>
+            </div>
+          </div>
+          {hasFilters && (
+            <Button variant="link" className="px-0 mt-2" onClick={clearFilters}>
+              Clear filters
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Audit Table */}
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <History className="h-5 w-5 text-primary" />
+            <span>Changes</span>
+            {!isLoading && (
+              <Badge variant="outline" className="ml-auto">
+                {filteredEntries.length} entries
+              </Badge>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4">
+              {[...Array(5)].map((_, i) => (
+                <div key={i} className="flex items-center space-x-4 p-4">
+                  <div className="flex-1 space-y-2">
+                    <Skeleton className="h-4 w-32" />
+                    <Skeleton className="h-3 w-48" />
+                  </div>
+                  <Skeleton className="h-4 w-20" />
+                </div>
+              ))}
+            </div>
+          ) : filteredEntries.length === 0 ? (
+            <div className="text-center py-12">
+              <History className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium text-foreground mb-2">No audit entries found</h3>
+              <p className="text-muted-foreground">
+                {hasFilters ? 'Try adjusting your filters' : 'Changes to documents will appear here'}
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>When</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Record</TableHead>
+                  <TableHead className="hidden lg:table-cell">Summary</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredEntries.map(entry => {
+                  const expanded = expandedId === entry.id;
+                  return (
+                    <Fragment key={entry.id}>
+                      <TableRow
+                        className="hover:bg-muted/50 transition-smooth cursor-pointer"
+                        onClick={() => setExpandedId(expanded ? null : entry.id)}
+                      >
+                        <TableCell>
+                          {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</TableCell>
+                        <TableCell>{entry.actor_name || 'System'}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={auditActionColor(entry.action)}>
+                            {auditActionLabel(entry.action)}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{auditEntityLabel(entry.entity_type)}</div>
+                          {entry.parent_type && (
+                            <div className="text-xs text-muted-foreground">on {auditEntityLabel(entry.parent_type)}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="hidden lg:table-cell text-sm text-muted-foreground max-w-md truncate">
+                          {summarizeAuditEntry(entry)}
+                        </TableCell>
+                      </TableRow>
+                      {expanded && (
+                        <TableRow>
+                          <TableCell />
+                          <TableCell colSpan={5}>
+                            <AuditChanges entry={entry} />
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
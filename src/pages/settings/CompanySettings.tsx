@@ -9,7 +9,10 @@ import { Switch } from '@/components/ui/switch';
 import { Building2, Save, Upload, Plus, Trash2, Edit, Check, X, Image, AlertTriangle } from 'lucide-react';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
-import { useCompanies, useUpdateCompany, useCreateCompany, useTaxSettings, useCreateTaxSetting, useUpdateTaxSetting, useDeleteTaxSetting } from '@/hooks/useDatabase';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useUpdateCompany, useCreateCompany, useTaxSettings, useCreateTaxSetting, useUpdateTaxSetting, useDeleteTaxSetting } from '@/hooks/useDatabase';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { usePermission } from '@/hooks/usePermissions';
 import { toast } from 'sonner';
 import { ForceTaxSettings } from '@/components/ForceTaxSettings';
 import { supabase } from '@/integrations/supabase/client';
@@ -17,6 +20,7 @@ import { getUserFriendlyMessage, logError } from '@/utils/errorParser';
 import { parseErrorMessage } from '@/utils/errorHelpers';
 import { QuickSchemaFix } from '@/components/QuickSchemaFix';
 import { addCurrencyColumn, ADD_CURRENCY_COLUMN_SQL } from '@/utils/addCurrencyColumn';
+import { listEtimsAdapters } from '@/utils/etims';
 
 export default function CompanySettings() {
   const [editingTax, setEditingTax] = useState<string | null>(null);
@@ -41,11 +45,16 @@ export default function CompanySettings() {
     country: 'Kenya',
     currency: 'KES',
     fiscal_year_start: 1,
+    mpesa_paybill_number: '',
+    etims_enabled: false,
+    etims_adapter: 'stub',
+    etims_branch_id: '00',
+    etims_device_serial: '',
     logo_url: ''
   });
 
-  const { data: companies, isLoading: companiesLoading, error: companiesError } = useCompanies();
-  const currentCompany = companies?.[0]; // Assuming single company for now
+  const { currentCompany, companies, isLoading: companiesLoading, error: companiesError } = useCurrentCompany();
+  const canEditSettings = usePermission('settings.edit');
   const { data: taxSettings, isLoading: taxSettingsLoading, error: taxSettingsError } = useTaxSettings(currentCompany?.id);
   const updateCompany = useUpdateCompany();
   const createCompany = useCreateCompany();
@@ -91,6 +100,11 @@ export default function CompanySettings() {
         country: currentCompany.country || 'Kenya',
         currency: currentCompany.currency || 'KES',
         fiscal_year_start: currentCompany.fiscal_year_start || 1,
+        mpesa_paybill_number: currentCompany.mpesa_paybill_number || '',
+        etims_enabled: !!currentCompany.etims_enabled,
+        etims_adapter: currentCompany.etims_adapter || 'stub',
+        etims_branch_id: currentCompany.etims_branch_id || '00',
+        etims_device_serial: currentCompany.etims_device_serial || '',
         logo_url: currentCompany.logo_url || ''
       });
     }
@@ -101,6 +115,11 @@ export default function CompanySettings() {
   };
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!canEditSettings) {
+      toast.error('You do not have permission to change company settings');
+      return;
+    }
+
     const file = e.target.files?.[0];
     if (!file || !currentCompany) return;
 
@@ -384,6 +403,11 @@ export default function CompanySettings() {
   };
 
   const handleSaveCompany = async () => {
+    if (!canEditSettings) {
+      toast.error('You do not have permission to change company settings');
+      return;
+    }
+
 
     // Comprehensive validation
     const validationErrors = validateCompanyData(companyData);
@@ -418,6 +442,15 @@ export default function CompanySettings() {
       if (companyData.fiscal_year_start) {
         sanitizedData.fiscal_year_start = companyData.fiscal_year_start;
       }
+      if (companyData.mpesa_paybill_number?.trim() || currentCompany?.mpesa_paybill_number) {
+        sanitizedData.mpesa_paybill_number = companyData.mpesa_paybill_number.trim();
+      }
+      if (companyData.etims_enabled || currentCompany?.etims_enabled) {
+        sanitizedData.etims_enabled = companyData.etims_enabled;
+        sanitizedData.etims_adapter = companyData.etims_adapter || 'stub';
+        sanitizedData.etims_branch_id = companyData.etims_branch_id?.trim() || '00';
+        sanitizedData.etims_device_serial = companyData.etims_device_serial?.trim();
+      }
 
       // Remove empty strings and convert to null for optional fields
       Object.keys(sanitizedData).forEach(key => {
@@ -461,6 +494,11 @@ export default function CompanySettings() {
   };
 
   const handleCreateTax = async () => {
+    if (!canEditSettings) {
+      toast.error('You do not have permission to change company settings');
+      return;
+    }
+
     if (!currentCompany) {
       toast.error('No company found. Please create a company first.');
       return;
@@ -520,6 +558,11 @@ export default function CompanySettings() {
   };
 
   const handleUpdateTax = async (taxId: string, updates: any) => {
+    if (!canEditSettings) {
+      toast.error('You do not have permission to change company settings');
+      return;
+    }
+
     try {
       await updateTaxSetting.mutateAsync({
         id: taxId,
@@ -552,6 +595,11 @@ export default function CompanySettings() {
   };
 
   const handleDeleteTax = async (taxId: string) => {
+    if (!canEditSettings) {
+      toast.error('You do not have permission to change company settings');
+      return;
+    }
+
     if (!confirm('Are you sure you want to delete this tax setting?')) {
       return;
     }
@@ -607,10 +655,12 @@ export default function CompanySettings() {
           </p>
         </div>
         <div className="flex gap-2">
-          <Button variant="primary-gradient" size="lg" onClick={handleSaveCompany}>
-            <Save className="h-4 w-4" />
-            Save Settings
-          </Button>
+          {canEditSettings && (
+            <Button variant="primary-gradient" size="lg" onClick={handleSaveCompany}>
+              <Save className="h-4 w-4" />
+              Save Settings
+            </Button>
+          )}
         </div>
       </div>
 
@@ -892,6 +942,21 @@ export default function CompanySettings() {
               </div>
             </div>
 
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="mpesa-paybill">M-Pesa Paybill Number</Label>
+                <Input
+                  id="mpesa-paybill"
+                  value={companyData.mpesa_paybill_number || ''}
+                  onChange={(e) => setCompanyData(prev => ({ ...prev, mpesa_paybill_number: e.target.value.replace(/\D/g, '') }))}
+                  placeholder="e.g. 522522"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Customers pay with the invoice number or their customer code as the account number
+                </p>
+              </div>
+            </div>
+
             <div className="grid gap-4 md:grid-cols-2">
               <div className="space-y-2">
                 <Label htmlFor="city">City</Label>
@@ -932,6 +997,68 @@ export default function CompanySettings() {
           </CardContent>
         </Card>
 
+        {/* KRA eTIMS */}
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle>KRA eTIMS</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="space-y-1">
+                <Label htmlFor="etims-enabled">Submit invoices and credit notes to eTIMS</Label>
+                <p className="text-xs text-muted-foreground">
+                  Invoices stay in draft until the control unit accepts them; failed submissions are queued for retry
+                </p>
+              </div>
+              <Switch
+                id="etims-enabled"
+                checked={companyData.etims_enabled}
+                onCheckedChange={(checked) => setCompanyData(prev => ({ ...prev, etims_enabled: checked }))}
+              />
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="etims-adapter">Control Unit Adapter</Label>
+                <Select
+                  value={companyData.etims_adapter}
+                  onValueChange={(value) => setCompanyData(prev => ({ ...prev, etims_adapter: value }))}
+                >
+                  <SelectTrigger id="etims-adapter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {listEtimsAdapters().map(adapter => (
+                      <SelectItem key={adapter.name} value={adapter.name}>{adapter.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="etims-branch">Branch ID</Label>
+                <Input
+                  id="etims-branch"
+                  value={companyData.etims_branch_id || ''}
+                  onChange={(e) => setCompanyData(prev => ({ ...prev, etims_branch_id: e.target.value }))}
+                  placeholder="00"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="etims-device">CU Serial Number</Label>
+                <Input
+                  id="etims-device"
+                  value={companyData.etims_device_serial || ''}
+                  onChange={(e) => setCompanyData(prev => ({ ...prev, etims_device_serial: e.target.value.toUpperCase() }))}
+                  placeholder="e.g. KRACU0100000001"
+                />
+              </div>
+            </div>
+            {companyData.etims_enabled && !companyData.tax_number?.trim() && (
+              <p className="text-xs text-destructive">The company KRA PIN (tax number) is required for eTIMS</p>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Tax Settings - Force Implementation */}
         {currentCompany && (
           <ForceTaxSettings companyId={currentCompany.id} />
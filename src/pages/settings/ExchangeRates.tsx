@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, Trash2, FileUp } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCurrentCompany } from '@/contexts/CompanyContext';
+import { usePermission } from '@/hooks/usePermissions';
+import { useExchangeRates, useSaveExchangeRates, useDeleteExchangeRate } from '@/hooks/useExchangeRates';
+import { ImportExchangeRatesModal } from '@/components/currency/ImportExchangeRatesModal';
+import { SUPPORTED_CURRENCIES, baseCurrencyOf, type ExchangeRate } from '@/utils/currency';
+
+export default function ExchangeRates() {
+  const { currentCompany } = useCurrentCompany();
+  const canEdit = usePermission('settings.edit');
+  const { data: rates = [], isLoading } = useExchangeRates(currentCompany?.id);
+  const saveRates = useSaveExchangeRates();
+  const deleteRate = useDeleteExchangeRate();
+
+  const baseCurrency = baseCurrencyOf(currentCompany);
+  const foreignCurrencies = SUPPORTED_CURRENCIES.filter(c => c.code !== baseCurrency);
+
+  const [currencyFilter, setCurrencyFilter] = useState('all');
+  const [showImport, setShowImport] = useState(false);
+  const [newRate, setNewRate] = useState({
+    currency_code: (foreignCurrencies[0]?.code || 'USD') as string,
+    rate_date: new Date().toISOString().split('T')[0],
+    rate: '',
+  });
+
+  // Rates arrive newest first, so the first one seen per currency is the latest
+  const latest = new Map<string, ExchangeRate>();
+  rates.forEach(rate => { if (!latest.has(rate.currency_code)) latest.set(rate.currency_code, rate); });
+
+  const filtered = currencyFilter === 'all' ? rates : rates.filter(rate => rate.currency_code === currencyFilter);
+
+  const handleAdd = async () => {
+    if (!currentCompany) return;
+    const rate = Number(newRate.rate);
+    if (!newRate.rate_date || !(rate > 0)) {
+      toast.error('Enter a date and a rate greater than zero');
+      return;
+    }
+
+    try {
+      await saveRates.mutateAsync({
+        companyId: currentCompany.id,
+        rates: [{ currency_code: newRate.currency_code, rate_date: newRate.rate_date, rate }],
+        source: 'manual',
+      });
+      toast.success(`1 ${newRate.currency_code} = ${rate} ${baseCurrency} saved for ${new Date(newRate.rate_date).toLocaleDateString()}`);
+      setNewRate({ ...newRate, rate: '' });
+    } catch (err) {
+      console.error('Failed to save exchange rate', err);
+      toast.error((err as { message?: string })?.message || 'Failed to save exchange rate');
+    }
+  };
+
+  const handleDelete = async (rate: ExchangeRate) => {
+    if (!confirm(`Delete the ${rate.currency_code} rate for ${new Date(rate.rate_date).toLocaleDateString()}? Documents already saved keep their rate.`)) return;
+    try {
+      await deleteRate.mutateAsync(rate.id);
+      toast.success('Exchange rate deleted');
+    } catch (err) {
+      console.error('Failed to delete exchange rate', err);
+      toast.error((err as { message?: string })?.message || 'Failed to delete exchange rate');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Exchange Rates</h1>
+          <p className="text-muted-foreground">
+            Daily rates to {baseCurrency} for documents in other currencies. A document uses the latest rate on or before its date.
+          </p>
+        </div>
+        {canEdit && (
+          <Button variant="outline" onClick={() => setShowImport(true)}>
+            <FileUp className="h-4 w-4 mr-2" /> Import CSV
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {foreignCurrencies.map(currency => {
+          const rate = latest.get(currency.code);
+          return (
+            <Card key={currency.code} className="shadow-card">
+              <CardContent className="p-4">
+                <div className="text-sm text-muted-foreground">{currency.code}</div>
+                <div className="text-xl font-bold">{rate ? Number(rate.rate).toLocaleString('en-KE', { maximumFractionDigits: 4 }) : '-'}</div>
+                <div className="text-xs text-muted-foreground">
+                  {rate ? `as of ${new Date(rate.rate_date).toLocaleDateString()}` : 'No rate on file'}
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {canEdit && (
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle>Add Rate</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="rate_currency">Currency</Label>
+                <Select value={newRate.currency_code} onValueChange={(value) => setNewRate({ ...newRate, currency_code: value })}>
+                  <SelectTrigger id="rate_currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {foreignCurrencies.map(currency => (
+                      <SelectItem key={currency.code} value={currency.code}>{currency.code} - {currency.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rate_date">Date</Label>
+                <Input
+                  id="rate_date"
+                  type="date"
+                  value={newRate.rate_date}
+                  onChange={(e) => setNewRate({ ...newRate, rate_date: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rate_value">Rate ({baseCurrency} per {newRate.currency_code})</Label>
+                <Input
+                  id="rate_value"
+                  type="number"
+                  min="0"
+                  step="0.0001"
+                  value={newRate.rate}
+                  onChange={(e) => setNewRate({ ...newRate, rate: e.target.value })}
+                />
+              </div>
+              <Button onClick={handleAdd} disabled={saveRates.isPending}>
+                <Plus className="h-4 w-4 mr-2" /> {saveRates.isPending ? 'Saving...' : 'Save Rate'}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">Saving a rate for a date that already has one replaces it.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="shadow-card">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Rate History</CardTitle>
+          <Select value={currencyFilter} onValueChange={setCurrencyFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All currencies</SelectItem>
+              {foreignCurrencies.map(currency => (
+                <SelectItem key={currency.code} value={currency.code}>{currency.code}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Currency</TableHead>
+                <TableHead className="text-right">Rate ({baseCurrency})</TableHead>
+                <TableHead>Source</TableHead>
+                {canEdit && <TableHead className="text-right">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow><TableCell colSpan={5}>Loading...</TableCell></TableRow>
+              ) : filtered.length === 0 ? (
+                <TableRow><TableCell colSpan={5} className="text-muted-foreground">No exchange rates on file</TableCell></TableRow>
+              ) : filtered.map(rate => (
+                <TableRow key={rate.id}>
+                  <TableCell>{new Date(rate.rate_date).toLocaleDateString()}</TableCell>
+                  <TableCell className="font-medium">{rate.currency_code}</TableCell>
+                  <TableCell className="text-right">{Number(rate.rate).toLocaleString('en-KE', { maximumFractionDigits: 8 })}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{rate.source === 'csv' ? 'CSV import' : 'Manual'}</Badge>
+                  </TableCell>
+                  {canEdit && (
+                    <TableCell className="text-right">
+                      <Button size="icon" variant="ghost" onClick={() => handleDelete(rate)} title="Delete">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {currentCompany && (
+        <ImportExchangeRatesModal
+          open={showImport}
+          onOpenChange={setShowImport}
+          companyId={currentCompany.id}
+          baseCurrency={baseCurrency}
+          rates={rates}
+        />
+      )}
+    </div>
+  );
+}
@@ -46,6 +46,7 @@ import { useAuth, UserProfile } from '@/contexts/AuthContext';
 import useUserManagement from '@/hooks/useUserManagement';
 import { CreateUserModal } from '@/components/users/CreateUserModal';
 import { EditUserModal } from '@/components/users/EditUserModal';
+import { usePermission } from '@/hooks/usePermissions';
 import { InviteUserModal } from '@/components/users/InviteUserModal';
 import { toast } from 'sonner';
 
@@ -82,7 +83,8 @@ function getInitials(name: string) {
 }
 
 export default function UserManagement() {
-  const { isAdmin, profile: currentUser } = useAuth();
+  const { profile: currentUser } = useAuth();
+  const canManageUsers = usePermission('user.manage');
   const {
     users,
     invitations,
@@ -115,7 +117,7 @@ export default function UserManagement() {
     user.department?.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
-  if (!isAdmin) {
+  if (!canManageUsers) {
     return (
       <div className="space-y-6">
         <div className="flex items-center justify-between">
@@ -133,7 +135,7 @@ export default function UserManagement() {
               <Shield className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
               <h3 className="text-lg font-semibold mb-2">Access Denied</h3>
               <p className="text-muted-foreground mb-4">
-                You need administrator privileges to access user management.
+                You need the user management permission to access this page.
               </p>
             </CardContent>
           </Card>
@@ -0,0 +1,25 @@
+import type { BoqDocument } from '@/utils/boqPdfGenerator';
+import type { AccountBalance } from '@/utils/ledger';
+
+/**
+ * Shared builders for the unit tests under src/utils
+ */
+
+export const boq = (sections: BoqDocument['sections']): BoqDocument => ({
+  number: 'BOQ-0001',
+  date: '2026-01-15',
+  client: { name: 'Client' },
+  sections,
+});
+
+// An account's opening balance and period movements, as read for the ledger reports
+export const balance = (code: string, account_type: AccountBalance['account_type'], opening: number, debit: number, credit: number): AccountBalance => ({
+  account_id: code,
+  code,
+  name: `Account ${code}`,
+  account_type,
+  is_active: true,
+  opening_balance: opening,
+  debit,
+  credit,
+});
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import {
+  allocateOldestFirst,
+  billLinesFromLPO,
+  billLineTotals,
+  billMatchStatus,
+  billPaymentState,
+  billTotals,
+  computeSupplierAging,
+  matchBillLine,
+  unbilledReceived,
+  type SupplierBillLine,
+} from '@/utils/accountsPayable';
+import type { SupplierBill, SupplierPayment } from '@/hooks/useDatabase';
+
+const lpoLine = (overrides: Partial<SupplierBillLine>): SupplierBillLine => ({
+  lpo_item_id: 'li-1',
+  description: 'Cement',
+  quantity: 10,
+  unit_price: 750,
+  tax_percentage: 16,
+  ordered_quantity: 20,
+  received_quantity: 15,
+  previously_billed: 5,
+  ordered_unit_price: 750,
+  ...overrides,
+});
+
+const bill = (id: string, overrides: Partial<SupplierBill>): SupplierBill => ({
+  id,
+  supplier_id: 's1',
+  bill_number: id,
+  bill_date: '2026-01-01',
+  status: 'approved',
+  match_status: 'not_applicable',
+  ...overrides,
+});
+
+describe('bill totals', () => {
+  it('adds tax on top of each line and sums to the cent', () => {
+    expect(billLineTotals({ quantity: 3, unit_price: 33.33, tax_percentage: 16 })).toEqual({ net: 99.99, tax: 16, total: 115.99 });
+    expect(billTotals([
+      lpoLine({ quantity: 3, unit_price: 33.33 }),
+      lpoLine({ quantity: 1, unit_price: 100, tax_percentage: 0 }),
+    ])).toEqual({ subtotal: 199.99, tax_amount: 16, total_amount: 215.99 });
+  });
+});
+
+describe('three-way match', () => {
+  it('bills only what was received and not billed before', () => {
+    expect(unbilledReceived(lpoLine({}))).toBe(10);
+    expect(unbilledReceived(lpoLine({ previously_billed: 20 }))).toBe(0);
+  });
+
+  it('flags quantity and price variances against the LPO and GRNs', () => {
+    expect(matchBillLine(lpoLine({}))).toBe('matched');
+    expect(matchBillLine(lpoLine({ quantity: 10.0004 }))).toBe('matched');
+    expect(matchBillLine(lpoLine({ quantity: 11 }))).toBe('quantity_variance');
+    expect(matchBillLine(lpoLine({ unit_price: 760 }))).toBe('price_variance');
+    expect(matchBillLine(lpoLine({ quantity: 11, unit_price: 760 }))).toBe('variance');
+    expect(matchBillLine(lpoLine({ lpo_item_id: undefined }))).toBeNull();
+  });
+
+  it('matches a bill only when every LPO line matches', () => {
+    expect(billMatchStatus([lpoLine({ lpo_item_id: undefined })])).toBe('not_applicable');
+    expect(billMatchStatus([lpoLine({}), lpoLine({ lpo_item_id: undefined, unit_price: 1 })])).toBe('matched');
+    expect(billMatchStatus([lpoLine({}), lpoLine({ unit_price: 1 })])).toBe('variance');
+  });
+});
+
+describe('billLinesFromLPO', () => {
+  it('starts each line at the received but unbilled quantity and LPO price', () => {
+    const lines = billLinesFromLPO(
+      [{ id: 'li-1', description: 'Cement', quantity: 20, unit_price: 750, tax_rate: 16 }, { id: 'li-2', description: 'Sand', quantity: 5, unit_price: 2000 }],
+      [{ lpo_item_id: 'li-1', quantity_received: 15 }, { lpo_item_id: 'li-2', quantity_received: 5 }],
+      [{ lpo_item_id: 'li-1', quantity: 5 }, { lpo_item_id: 'li-2', quantity: 5 }, { lpo_item_id: null, quantity: 99 }],
+    );
+
+    expect(lines.map(l => [l.lpo_item_id, l.quantity, l.unit_price, l.tax_percentage, l.previously_billed])).toEqual([
+      ['li-1', 10, 750, 16, 5],
+      ['li-2', 0, 2000, 0, 5],
+    ]);
+  });
+});
+
+describe('billPaymentState', () => {
+  it('moves a bill from approved to partial to paid', () => {
+    expect(billPaymentState(1000, 0)).toEqual({ paid_amount: 0, balance_due: 1000, status: 'approved' });
+    expect(billPaymentState(1000, 400.005)).toEqual({ paid_amount: 400.01, balance_due: 599.99, status: 'partial' });
+    expect(billPaymentState(1000, 1000)).toEqual({ paid_amount: 1000, balance_due: 0, status: 'paid' });
+  });
+});
+
+describe('allocateOldestFirst', () => {
+  it('pays the earliest due bill first and leaves the rest unallocated', () => {
+    const bills = [
+      bill('B-2', { due_date: '2026-02-28', balance_due: 300 }),
+      bill('B-1', { bill_date: '2026-01-15', balance_due: 200 }),
+      bill('B-0', { due_date: '2026-01-10', balance_due: 0 }),
+    ];
+
+    expect(allocateOldestFirst(350.5, bills)).toEqual({ 'B-1': 200, 'B-2': 150.5 });
+    expect(allocateOldestFirst(1000, bills)).toEqual({ 'B-1': 200, 'B-2': 300 });
+  });
+});
+
+describe('computeSupplierAging', () => {
+  it('buckets open bills by days past due and nets unallocated payments', () => {
+    const bills = [
+      bill('B-1', { due_date: '2026-03-31', balance_due: 100 }),
+      bill('B-2', { due_date: '2026-03-01', balance_due: 200 }),
+      bill('B-3', { due_date: '2026-02-01', balance_due: 300 }),
+      bill('B-4', { due_date: '2025-12-01', total_amount: 500, paid_amount: 100, balance_due: null }),
+      bill('B-5', { due_date: '2025-12-01', balance_due: 999, status: 'draft' }),
+      bill('B-6', { due_date: '2025-12-01', balance_due: 999, supplier_id: 's2' }),
+    ];
+    const payments = [
+      { id: 'p1', supplier_id: 's1', payment_number: 'SP-1', payment_date: '2026-03-01', amount: 250, supplier_payment_allocations: [{ id: 'a1', bill_id: 'B-2', payment_id: 'p1', amount_allocated: 200 }] },
+    ] as SupplierPayment[];
+
+    const [aging] = computeSupplierAging(
+      [{ id: 's1', name: 'Hardware Ltd', supplier_code: 'SUP-001', payment_terms: 30 }],
+      bills,
+      payments,
+      new Date('2026-03-15T00:00:00Z'),
+    );
+
+    expect(aging).toMatchObject({
+      supplierName: 'Hardware Ltd',
+      openBills: 4,
+      overdueAmount: 900,
+      unallocatedCredit: 50,
+      netBalance: 950,
+      agingAnalysis: { current: 100, days30: 200, days60: 300, days90: 400, total: 1000 },
+    });
+  });
+});
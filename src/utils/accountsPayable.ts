@@ -0,0 +1,187 @@
+import type { Supplier, SupplierBill, SupplierPayment } from '@/hooks/useDatabase';
+import { summarizeLpoReceipts, type ReceivableLpoItem } from './grnReceipts';
+
+export type BillLineMatchStatus = 'matched' | 'quantity_variance' | 'price_variance' | 'variance';
+export type BillMatchStatus = 'not_applicable' | 'matched' | 'variance';
+export type SupplierBillStatus = 'draft' | 'approved' | 'partial' | 'paid' | 'cancelled';
+
+export interface SupplierBillLine {
+  lpo_item_id?: string;
+  product_id?: string;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  tax_percentage: number;
+  // Three-way match figures, only present for lines raised from an LPO
+  ordered_quantity?: number;
+  received_quantity?: number;
+  previously_billed?: number;
+  ordered_unit_price?: number;
+}
+
+// Bills that still count towards what we owe
+export const OPEN_BILL_STATUSES: SupplierBillStatus[] = ['approved', 'partial'];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const round3 = (n: number) => Math.round(n * 1000) / 1000;
+
+export function billLineTotals(line: Pick<SupplierBillLine, 'quantity' | 'unit_price' | 'tax_percentage'>) {
+  const net = round2(Number(line.quantity || 0) * Number(line.unit_price || 0));
+  const tax = round2(net * Number(line.tax_percentage || 0) / 100);
+  return { net, tax, total: round2(net + tax) };
+}
+
+export function billTotals(lines: SupplierBillLine[]) {
+  return lines.reduce((acc, line) => {
+    const t = billLineTotals(line);
+    return {
+      subtotal: round2(acc.subtotal + t.net),
+      tax_amount: round2(acc.tax_amount + t.tax),
+      total_amount: round2(acc.total_amount + t.total),
+    };
+  }, { subtotal: 0, tax_amount: 0, total_amount: 0 });
+}
+
+/**
+ * Quantity still billable on an LPO line: received on GRNs less what earlier bills already charged.
+ */
+export function unbilledReceived(line: SupplierBillLine): number {
+  return Math.max(0, round3(Number(line.received_quantity || 0) - Number(line.previously_billed || 0)));
+}
+
+/**
+ * Three-way match of a bill line: the billed quantity may not exceed what was received and not yet
+ * billed, and the billed price must equal the LPO price. Lines without an LPO item are not matched.
+ */
+export function matchBillLine(line: SupplierBillLine): BillLineMatchStatus | null {
+  if (!line.lpo_item_id) return null;
+  const quantityOk = Number(line.quantity || 0) <= unbilledReceived(line) + 0.0005;
+  const priceOk = Math.abs(Number(line.unit_price || 0) - Number(line.ordered_unit_price || 0)) < 0.005;
+  if (quantityOk && priceOk) return 'matched';
+  if (!quantityOk && !priceOk) return 'variance';
+  return quantityOk ? 'price_variance' : 'quantity_variance';
+}
+
+export function billMatchStatus(lines: SupplierBillLine[]): BillMatchStatus {
+  const statuses = lines.map(matchBillLine).filter(Boolean);
+  if (statuses.length === 0) return 'not_applicable';
+  return statuses.every(s => s === 'matched') ? 'matched' : 'variance';
+}
+
+/**
+ * Starting bill lines for an LPO: each line bills whatever has been received but not yet billed,
+ * at the LPO price. billedItems are supplier_bill_items from earlier, non-cancelled bills.
+ */
+export function billLinesFromLPO(
+  lpoItems: Array<ReceivableLpoItem & { tax_rate?: number | null }> = [],
+  receivedItems: Array<{ lpo_item_id: string; quantity_received: number }> = [],
+  billedItems: Array<{ lpo_item_id?: string | null; quantity: number }> = []
+): SupplierBillLine[] {
+  const billedByItem = new Map<string, number>();
+  billedItems.forEach(b => {
+    if (!b.lpo_item_id) return;
+    billedByItem.set(b.lpo_item_id, (billedByItem.get(b.lpo_item_id) || 0) + Number(b.quantity || 0));
+  });
+  const taxByItem = new Map(lpoItems.map(item => [item.id, Number(item.tax_rate || 0)]));
+
+  return summarizeLpoReceipts(lpoItems, receivedItems).map(r => {
+    const line: SupplierBillLine = {
+      lpo_item_id: r.lpo_item_id,
+      product_id: r.product_id,
+      description: r.description,
+      quantity: 0,
+      unit_price: r.unit_cost,
+      tax_percentage: taxByItem.get(r.lpo_item_id) || 0,
+      ordered_quantity: r.ordered,
+      received_quantity: r.received,
+      previously_billed: round3(billedByItem.get(r.lpo_item_id) || 0),
+      ordered_unit_price: r.unit_cost,
+    };
+    line.quantity = unbilledReceived(line);
+    return line;
+  });
+}
+
+/**
+ * Paid amount, balance and status of a posted bill after its allocations change.
+ */
+export function billPaymentState(totalAmount: number, paidAmount: number) {
+  const paid = round2(paidAmount);
+  const balance = round2(Number(totalAmount || 0) - paid);
+  const status: SupplierBillStatus = balance <= 0 ? 'paid' : paid > 0 ? 'partial' : 'approved';
+  return { paid_amount: paid, balance_due: balance, status };
+}
+
+/**
+ * Spread a payment across open bills, oldest due date first.
+ */
+export function allocateOldestFirst(
+  amount: number,
+  bills: Array<Pick<SupplierBill, 'id' | 'bill_date' | 'due_date' | 'balance_due'>>
+): Record<string, number> {
+  let remaining = round2(amount);
+  const allocations: Record<string, number> = {};
+  [...bills]
+    .sort((a, b) => new Date(a.due_date || a.bill_date).getTime() - new Date(b.due_date || b.bill_date).getTime())
+    .forEach(bill => {
+      if (remaining <= 0) return;
+      const share = Math.min(remaining, round2(Number(bill.balance_due || 0)));
+      if (share > 0) {
+        allocations[bill.id] = share;
+        remaining = round2(remaining - share);
+      }
+    });
+  return allocations;
+}
+
+/**
+ * Supplier balances and aging, bucketed the same way as the customer statement of accounts.
+ * Payment amounts not allocated to any bill are shown as unallocated credit.
+ */
+export function computeSupplierAging(
+  suppliers: Pick<Supplier, 'id' | 'name' | 'supplier_code' | 'payment_terms'>[],
+  bills: SupplierBill[],
+  payments: SupplierPayment[],
+  asOf: Date = new Date()
+) {
+  return suppliers.map(supplier => {
+    const supplierBills = bills.filter(b => b.supplier_id === supplier.id && OPEN_BILL_STATUSES.includes(b.status));
+    const supplierPayments = payments.filter(p => p.supplier_id === supplier.id);
+
+    let current = 0, days30 = 0, days60 = 0, days90 = 0;
+    supplierBills.forEach(bill => {
+      const dueDate = new Date(bill.due_date || bill.bill_date);
+      const daysPastDue = Math.floor((asOf.getTime() - dueDate.getTime()) / (1000 * 60 * 60 * 24));
+      const unpaidAmount = Number(bill.balance_due ?? (Number(bill.total_amount) - Number(bill.paid_amount || 0)));
+
+      if (daysPastDue <= 0) current += unpaidAmount;
+      else if (daysPastDue <= 30) days30 += unpaidAmount;
+      else if (daysPastDue <= 60) days60 += unpaidAmount;
+      else days90 += unpaidAmount;
+    });
+
+    const unallocatedCredit = round2(supplierPayments.reduce((sum, p) => {
+      const allocated = (p.supplier_payment_allocations || []).reduce((s, a) => s + Number(a.amount_allocated || 0), 0);
+      return sum + Number(p.amount || 0) - allocated;
+    }, 0));
+    const total = round2(current + days30 + days60 + days90);
+
+    return {
+      supplierId: supplier.id,
+      supplierName: supplier.name,
+      supplierCode: supplier.supplier_code,
+      paymentTerms: Number(supplier.payment_terms || 0),
+      openBills: supplierBills.length,
+      overdueAmount: round2(days30 + days60 + days90),
+      unallocatedCredit,
+      netBalance: round2(total - unallocatedCredit),
+      agingAnalysis: {
+        current: round2(current),
+        days30: round2(days30),
+        days60: round2(days60),
+        days90: round2(days90),
+        total,
+      },
+    };
+  });
+}
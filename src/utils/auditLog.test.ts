@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { auditActionLabel, auditChangeRows, auditEntityLabel, auditFieldLabel, formatAuditValue, summarizeAuditEntry } from '@/utils/auditLog';
+
+describe('labels', () => {
+  it('names known entities and actions and falls back to the raw name', () => {
+    expect(auditEntityLabel('invoice_items')).toBe('Invoice line');
+    expect(auditEntityLabel('stock_movements')).toBe('stock movements');
+    expect(auditActionLabel('voided')).toBe('Voided');
+    expect(auditActionLabel('etims_submitted')).toBe('etims submitted');
+    expect(auditFieldLabel('customer_id')).toBe('Customer');
+    expect(auditFieldLabel('total_amount')).toBe('Total amount');
+  });
+
+  it('formats empty, boolean and object values', () => {
+    expect(formatAuditValue(null)).toBe('—');
+    expect(formatAuditValue('')).toBe('—');
+    expect(formatAuditValue(false)).toBe('No');
+    expect(formatAuditValue({ a: 1 })).toBe('{"a":1}');
+    expect(formatAuditValue(0)).toBe('0');
+  });
+});
+
+describe('auditChangeRows', () => {
+  it('reads old and new pairs from an update and hides identifying fields', () => {
+    expect(auditChangeRows({
+      action: 'status_changed',
+      changes: { status: { old: 'draft', new: 'sent' }, company_id: { old: 'a', new: 'b' } },
+    })).toEqual([{ field: 'status', old: 'draft', new: 'sent' }]);
+  });
+
+  it('shows a created row as new values and a deleted row as old values, skipping blanks', () => {
+    const changes = { id: 'i-1', description: 'Cement', notes: '', quantity: 2 };
+    expect(auditChangeRows({ action: 'created', changes })).toEqual([
+      { field: 'description', old: undefined, new: 'Cement' },
+      { field: 'quantity', old: undefined, new: 2 },
+    ]);
+    expect(auditChangeRows({ action: 'deleted', changes })[0]).toEqual({ field: 'description', old: 'Cement', new: undefined });
+  });
+});
+
+describe('summarizeAuditEntry', () => {
+  it('lists the first fields of an update and counts the rest', () => {
+    const changes = {
+      status: { old: 'draft', new: 'sent' },
+      total_amount: { old: 100, new: 120 },
+      notes: { old: null, new: 'Rush' },
+      due_date: { old: '2026-01-01', new: '2026-02-01' },
+    };
+    expect(summarizeAuditEntry({ action: 'updated', changes }, 2)).toBe('status: draft → sent, total amount: 100 → 120 (+2 more)');
+    expect(summarizeAuditEntry({ action: 'created', changes })).toBe('');
+  });
+});
@@ -0,0 +1,144 @@
+// Labels and formatting for audit_log rows (written by triggers in migrations/015_audit_log.sql)
+
+export type AuditAction = 'created' | 'updated' | 'sent' | 'voided' | 'cancelled' | 'status_changed' | 'deleted';
+
+export interface AuditFieldChange {
+  old: unknown;
+  new: unknown;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  company_id: string | null;
+  entity_type: string;
+  entity_id: string;
+  parent_type: string | null;
+  parent_id: string | null;
+  action: AuditAction;
+  actor_id: string | null;
+  actor_name: string | null;
+  // Field diffs for updates, the full row for creates and deletes
+  changes: Record<string, AuditFieldChange> | Record<string, unknown> | null;
+  created_at: string;
+}
+
+export const AUDIT_ENTITY_LABELS: Record<string, string> = {
+  quotations: 'Quotation',
+  quotation_items: 'Quotation line',
+  invoices: 'Invoice',
+  invoice_items: 'Invoice line',
+  proforma_invoices: 'Proforma',
+  proforma_items: 'Proforma line',
+  recurring_invoices: 'Recurring invoice',
+  recurring_invoice_items: 'Recurring invoice line',
+  credit_notes: 'Credit note',
+  credit_note_items: 'Credit note line',
+  credit_note_allocations: 'Credit note allocation',
+  payments: 'Payment',
+  payment_allocations: 'Payment allocation',
+  remittance_advice: 'Remittance advice',
+  remittance_advice_items: 'Remittance line',
+  bank_accounts: 'Bank account',
+  bank_reconciliations: 'Bank reconciliation',
+  gl_accounts: 'Ledger account',
+  gl_account_mappings: 'Ledger account mapping',
+  exchange_rates: 'Exchange rate',
+  delivery_notes: 'Delivery note',
+  delivery_note_items: 'Delivery note line',
+  lpos: 'LPO',
+  lpo_items: 'LPO line',
+  goods_received_notes: 'Goods received note',
+  grn_items: 'GRN line',
+  supplier_bills: 'Supplier bill',
+  supplier_bill_items: 'Supplier bill line',
+  supplier_payments: 'Supplier payment',
+  supplier_payment_allocations: 'Supplier payment allocation',
+  customers: 'Customer',
+  suppliers: 'Supplier',
+  products: 'Product',
+  boqs: 'BOQ',
+  companies: 'Company',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  created: 'Created',
+  updated: 'Edited',
+  sent: 'Sent',
+  voided: 'Voided',
+  cancelled: 'Cancelled',
+  status_changed: 'Status changed',
+  deleted: 'Deleted',
+};
+
+// Top-level documents offered in the audit page's entity filter
+export const AUDIT_FILTER_ENTITIES = [
+  'invoices', 'recurring_invoices', 'quotations', 'proforma_invoices', 'credit_notes', 'payments', 'remittance_advice',
+  'bank_accounts', 'bank_reconciliations', 'gl_accounts', 'gl_account_mappings', 'exchange_rates', 'delivery_notes', 'lpos', 'goods_received_notes', 'supplier_bills', 'supplier_payments',
+  'customers', 'suppliers', 'products', 'boqs', 'companies',
+];
+
+// Fields that only identify the row and are not worth showing in a diff
+const HIDDEN_FIELDS = ['id', 'company_id', 'created_by', 'updated_by'];
+
+export const auditEntityLabel = (entityType: string) =>
+  AUDIT_ENTITY_LABELS[entityType] || entityType.replace(/_/g, ' ');
+
+export const auditActionLabel = (action: string) =>
+  AUDIT_ACTION_LABELS[action as AuditAction] || action.replace(/_/g, ' ');
+
+export const auditFieldLabel = (field: string) =>
+  field.replace(/_id$/, '').replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase());
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export const auditActionColor = (action: string) => {
+  switch (action) {
+    case 'created':
+      return 'bg-success-light text-success border-success/20';
+    case 'sent':
+      return 'bg-primary-light text-primary border-primary/20';
+    case 'voided':
+    case 'cancelled':
+    case 'deleted':
+      return 'bg-destructive-light text-destructive border-destructive/20';
+    case 'status_changed':
+      return 'bg-warning-light text-warning border-warning/20';
+    default:
+      return 'bg-muted text-muted-foreground border-muted-foreground/20';
+  }
+};
+
+// Normalises an entry's payload into rows for display. Updates carry { old, new } pairs;
+// creates and deletes carry the row itself, shown as the new or old side respectively.
+export function auditChangeRows(entry: Pick<AuditLogEntry, 'action' | 'changes'>) {
+  const changes = entry.changes || {};
+  const isDiff = entry.action !== 'created' && entry.action !== 'deleted';
+
+  return Object.entries(changes)
+    .filter(([field, value]) => !HIDDEN_FIELDS.includes(field) && (isDiff || (value !== null && value !== '')))
+    .map(([field, value]) => {
+      if (isDiff) {
+        const change = (value || {}) as AuditFieldChange;
+        return { field, old: change.old, new: change.new };
+      }
+      return entry.action === 'created'
+        ? { field, old: undefined, new: value }
+        : { field, old: value, new: undefined };
+    });
+}
+
+// A short one-line summary, e.g. "status: draft → sent, total amount: 100 → 120"
+export function summarizeAuditEntry(entry: Pick<AuditLogEntry, 'action' | 'changes'>, maxFields = 3) {
+  if (entry.action === 'created' || entry.action === 'deleted') return '';
+  const rows = auditChangeRows(entry);
+  const summary = rows
+    .slice(0, maxFields)
+    .map(row => `${auditFieldLabel(row.field).toLowerCase()}: ${formatAuditValue(row.old)} → ${formatAuditValue(row.new)}`)
+    .join(', ');
+  return rows.length > maxFields ? `${summary} (+${rows.length - maxFields} more)` : summary;
+}
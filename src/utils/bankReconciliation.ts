@@ -0,0 +1,191 @@
+import { invoiceOpenBalance, openInvoicesForCredit, type InvoiceLike } from '@/utils/customerCredit';
+
+// Matching statement credits to recorded customer payments. A credit matches a payment of the same
+// amount dated within MATCH_DATE_WINDOW_DAYS of it; a payment reference found in the statement
+// narration settles ties. Anything ambiguous is left for the user to pick.
+
+export type StatementLineStatus = 'unmatched' | 'matched' | 'ignored';
+
+export const MATCH_DATE_WINDOW_DAYS = 3;
+
+export interface MatchableLine {
+  id: string;
+  transaction_date: string;
+  amount: number | string;
+  description?: string | null;
+  reference?: string | null;
+  status: StatementLineStatus;
+  payment_id?: string | null;
+}
+
+export interface MatchablePayment {
+  id: string;
+  amount: number | string;
+  payment_date: string;
+  payment_number?: string | null;
+  reference_number?: string | null;
+  payment_method?: string | null;
+  customer_id?: string | null;
+}
+
+// An open invoice that can be offered against an unmatched credit
+export type SuggestableInvoice = InvoiceLike & {
+  invoice_number?: string | null;
+  customers?: { name?: string | null } | null;
+};
+
+export interface StatementMatch {
+  line_id: string;
+  payment_id: string;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const normalize = (text?: string | null) => (text || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const daysBetween = (a: string, b: string) =>
+  Math.round(Math.abs(new Date(a).getTime() - new Date(b).getTime()) / (1000 * 60 * 60 * 24));
+
+// The payment's reference (bank ref, M-Pesa code, cheque number) appears on the statement line
+export function referenceMatches(line: MatchableLine, payment: MatchablePayment) {
+  const haystack = normalize(`${line.reference || ''} ${line.description || ''}`);
+  return [payment.reference_number, payment.payment_number]
+    .map(normalize)
+    .some(ref => ref.length >= 4 && haystack.includes(ref));
+}
+
+/**
+ * Payments that could explain a statement credit: same amount, dated within the window, best
+ * candidates (reference match, then closest date) first
+ */
+export function paymentCandidates<T extends MatchablePayment>(line: MatchableLine, payments: T[], windowDays = MATCH_DATE_WINDOW_DAYS): T[] {
+  const amount = round2(Number(line.amount));
+  return payments
+    .filter(p => round2(Number(p.amount)) === amount && daysBetween(p.payment_date, line.transaction_date) <= windowDays)
+    .sort((a, b) => {
+      const refA = referenceMatches(line, a) ? 0 : 1;
+      const refB = referenceMatches(line, b) ? 0 : 1;
+      if (refA !== refB) return refA - refB;
+      return daysBetween(a.payment_date, line.transaction_date) - daysBetween(b.payment_date, line.transaction_date);
+    });
+}
+
+/**
+ * Pairs unmatched credits with payments not yet matched to any line. Reference matches are taken
+ * first; after that a pair is only made when the amount and date point to exactly one payment and
+ * that payment to exactly one line.
+ */
+export function autoMatchLines(lines: MatchableLine[], payments: MatchablePayment[], windowDays = MATCH_DATE_WINDOW_DAYS): StatementMatch[] {
+  const openLines = lines.filter(l => l.status === 'unmatched' && Number(l.amount) > 0);
+  const claimed = new Set<string>();
+  const matched = new Set<string>();
+  const matches: StatementMatch[] = [];
+
+  for (const line of openLines) {
+    const payment = paymentCandidates(line, payments, windowDays)
+      .find(p => !claimed.has(p.id) && referenceMatches(line, p));
+    if (payment) {
+      claimed.add(payment.id);
+      matched.add(line.id);
+      matches.push({ line_id: line.id, payment_id: payment.id });
+    }
+  }
+
+  const remainingLines = openLines.filter(l => !matched.has(l.id));
+  const remainingPayments = payments.filter(p => !claimed.has(p.id));
+  for (const line of remainingLines) {
+    const candidates = paymentCandidates(line, remainingPayments, windowDays).filter(p => !claimed.has(p.id));
+    if (candidates.length !== 1) continue;
+    const competingLines = remainingLines.filter(other =>
+      !matched.has(other.id) && paymentCandidates(other, [candidates[0]], windowDays).length > 0
+    );
+    if (competingLines.length !== 1) continue;
+    claimed.add(candidates[0].id);
+    matched.add(line.id);
+    matches.push({ line_id: line.id, payment_id: candidates[0].id });
+  }
+
+  return matches;
+}
+
+export interface InvoiceSuggestion<T> {
+  invoice: T;
+  reasons: string[];
+  score: number;
+}
+
+/**
+ * Open invoices an unmatched credit probably pays: its number appears in the narration, its
+ * balance equals the credit, or the customer's name appears in the narration
+ */
+export function suggestInvoicesForLine<T extends SuggestableInvoice>(
+  line: MatchableLine,
+  invoices: T[],
+  limit = 5
+): InvoiceSuggestion<T>[] {
+  const text = normalize(`${line.reference || ''} ${line.description || ''}`);
+  const amount = round2(Number(line.amount));
+
+  return openInvoicesForCredit(invoices)
+    .map(invoice => {
+      const reasons: string[] = [];
+      let score = 0;
+      const number = normalize(invoice.invoice_number);
+      if (number.length >= 3 && text.includes(number)) { score += 3; reasons.push('Invoice number in narration'); }
+      if (round2(invoiceOpenBalance(invoice)) === amount) { score += 2; reasons.push('Balance equals amount'); }
+      const nameWords = (invoice.customers?.name || '').toUpperCase().split(/\s+/).map(normalize).filter((w: string) => w.length >= 4);
+      if (nameWords.some((w: string) => text.includes(w))) { score += 1; reasons.push('Customer named in narration'); }
+      return { invoice, reasons, score };
+    })
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+export interface ReconciliationReport {
+  as_of: string;
+  opening_balance: number;
+  matched_credits: number;
+  unmatched_credits: number;
+  ignored_credits: number;
+  debits: number;
+  computed_balance: number;
+  statement_balance: number | null;
+  difference: number | null;
+  unmatched_lines: MatchableLine[];
+  unreconciled_count: number;
+}
+
+/**
+ * Position of one bank account at a date from its imported lines: opening balance, credits split
+ * by match status, debits, and the difference against the statement balance when one is known
+ */
+export function buildReconciliationReport(
+  account: { opening_balance?: number | string | null },
+  lines: (MatchableLine & { reconciliation_id?: string | null })[],
+  asOf: string,
+  statementBalance: number | null
+): ReconciliationReport {
+  const upTo = lines.filter(l => l.transaction_date <= asOf);
+  const sum = (items: MatchableLine[]) => round2(items.reduce((total, l) => total + Number(l.amount), 0));
+  const credits = upTo.filter(l => Number(l.amount) > 0);
+
+  const opening = round2(Number(account.opening_balance || 0));
+  const computed = round2(opening + sum(upTo));
+  return {
+    as_of: asOf,
+    opening_balance: opening,
+    matched_credits: sum(credits.filter(l => l.status === 'matched')),
+    unmatched_credits: sum(credits.filter(l => l.status === 'unmatched')),
+    ignored_credits: sum(credits.filter(l => l.status === 'ignored')),
+    debits: sum(upTo.filter(l => Number(l.amount) < 0)),
+    computed_balance: computed,
+    statement_balance: statementBalance,
+    difference: statementBalance === null ? null : round2(statementBalance - computed),
+    unmatched_lines: credits.filter(l => l.status === 'unmatched'),
+    unreconciled_count: upTo.filter(l => !l.reconciliation_id).length,
+  };
+}
+
+// Cash receipts never reach the bank, so they are left out of matching
+export const isBankedMethod = (method?: string | null) => !!method && method !== 'cash';
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import {
+  parseCsvStatement,
+  parseOfxStatement,
+  parseStatementAmount,
+  parseStatementDate,
+} from '@/utils/bankStatementImport';
+
+describe('parseStatementDate', () => {
+  it('reads numeric dates day first', () => {
+    expect(parseStatementDate('05/03/2024')).toBe('2024-03-05');
+    expect(parseStatementDate('5.3.24')).toBe('2024-03-05');
+  });
+
+  it('reads ISO, OFX and month-name dates', () => {
+    expect(parseStatementDate('2024-03-05 10:15')).toBe('2024-03-05');
+    expect(parseStatementDate('20240305120000[+3:EAT]')).toBe('2024-03-05');
+    expect(parseStatementDate('05-Mar-2024')).toBe('2024-03-05');
+    expect(parseStatementDate('5 Sept, 2024')).toBe('2024-09-05');
+  });
+
+  it('rejects impossible and unrecognised dates', () => {
+    expect(parseStatementDate('31/02/2024')).toBeNull();
+    expect(parseStatementDate('Opening balance')).toBeNull();
+    expect(parseStatementDate('')).toBeNull();
+  });
+});
+
+describe('parseStatementAmount', () => {
+  it('reads credits and the usual debit markings', () => {
+    expect(parseStatementAmount('KES 1,250.50')).toBe(1250.5);
+    expect(parseStatementAmount('(1,250.50)')).toBe(-1250.5);
+    expect(parseStatementAmount('400 DR')).toBe(-400);
+    expect(parseStatementAmount('400 CR')).toBe(400);
+  });
+
+  it('returns null for blanks and NaN for text', () => {
+    expect(parseStatementAmount('')).toBeNull();
+    expect(parseStatementAmount('-')).toBeNull();
+    expect(parseStatementAmount('n/a')).toBeNaN();
+  });
+});
+
+describe('parseCsvStatement', () => {
+  it('combines debit and credit columns and skips balance rows', () => {
+    const statement = parseCsvStatement([
+      ['Equity Bank statement'],
+      ['Transaction Date', 'Narration', 'Ref No', 'Money Out', 'Money In', 'Balance'],
+      ['', 'Balance b/f', '', '', '', '10,000.00'],
+      ['01/03/2024', 'MPESA deposit INV-0001', 'QX1', '', '5,000.00', '15,000.00'],
+      ['02/03/2024', 'Bank charges', '', '35.00', '', '14,965.00'],
+      ['03/03/2024', 'Zero line', '', '0', '', '14,965.00'],
+    ]);
+
+    expect(statement.errors).toEqual([]);
+    expect(statement.lines.map(line => [line.transaction_date, line.amount, line.reference, line.running_balance])).toEqual([
+      ['2024-03-01', 5000, 'QX1', 15000],
+      ['2024-03-02', -35, '', 14965],
+    ]);
+    expect(statement).toMatchObject({ period_start: '2024-03-01', period_end: '2024-03-02', closing_balance: 14965 });
+  });
+
+  it('takes the closing balance from the latest row of a newest-first export', () => {
+    const statement = parseCsvStatement([
+      ['Date', 'Description', 'Amount', 'Balance'],
+      ['2024-03-02', 'Cheque 104', '-2,000', '8,000'],
+      ['2024-03-01', 'Deposit', '3,000', '10,000'],
+    ]);
+
+    expect(statement.closing_balance).toBe(8000);
+    expect(statement.period_start).toBe('2024-03-01');
+  });
+
+  it('keeps identical rows on the same day distinct', () => {
+    const statement = parseCsvStatement([
+      ['Date', 'Description', 'Amount'],
+      ['01/03/2024', 'MPESA deposit', '500'],
+      ['01/03/2024', 'MPESA deposit', '500'],
+    ]);
+
+    const [first, second] = statement.lines.map(line => line.external_id);
+    expect(first).not.toBe(second);
+    expect(first.replace(/:1$/, '')).toBe(second.replace(/:2$/, ''));
+  });
+
+  it('reports rows with a bad date or amount', () => {
+    const statement = parseCsvStatement([
+      ['Date', 'Description', 'Amount'],
+      ['yesterday', 'Deposit', '500'],
+      ['01/03/2024', 'Deposit', 'five hundred'],
+    ]);
+
+    expect(statement.lines).toEqual([]);
+    expect(statement.errors).toEqual([
+      { row: 2, reason: 'Unrecognised date "yesterday"' },
+      { row: 3, reason: 'Amount is not a number' },
+    ]);
+  });
+
+  it('refuses a file without a recognisable header', () => {
+    expect(() => parseCsvStatement([['foo', 'bar'], ['1', '2']])).toThrow(/header row/);
+  });
+});
+
+describe('parseOfxStatement', () => {
+  const ofx = `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+<DTSTART>20240301<DTEND>20240331
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20240305<TRNAMT>1500,50<FITID>A1<NAME>ACME LTD<MEMO>INV-0002
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20240306<TRNAMT>-200.00<CHECKNUM>104<NAME>Supplier
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>garbage<TRNAMT>-1
+</BANKTRANLIST><LEDGERBAL><BALAMT>9800.25<DTASOF>20240331</LEDGERBAL></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+  it('reads transactions, the statement period and the ledger balance', () => {
+    const statement = parseOfxStatement(ofx);
+
+    expect(statement.lines).toEqual([
+      { transaction_date: '2024-03-05', description: 'ACME LTD - INV-0002', reference: '', amount: 1500.5, running_balance: null, external_id: 'ofx:A1' },
+      expect.objectContaining({ transaction_date: '2024-03-06', amount: -200, reference: '104' }),
+    ]);
+    expect(statement.errors).toEqual([{ row: 3, reason: 'Missing or invalid DTPOSTED' }]);
+    expect(statement).toMatchObject({ period_start: '2024-03-01', period_end: '2024-03-31', closing_balance: 9800.25 });
+  });
+
+  it('refuses text that is not OFX', () => {
+    expect(() => parseOfxStatement('Date,Amount')).toThrow('This does not look like an OFX file.');
+  });
+});
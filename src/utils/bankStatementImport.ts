@@ -0,0 +1,278 @@
+import { parseCsv } from '@/utils/boqImport';
+
+export type StatementFileFormat = 'csv' | 'ofx';
+
+export interface ParsedStatementLine {
+  transaction_date: string;       // YYYY-MM-DD
+  description: string;
+  reference: string;
+  amount: number;                 // credits positive, debits negative
+  running_balance: number | null;
+  external_id: string;            // OFX FITID, or a fingerprint of the CSV row
+}
+
+export interface StatementImportError {
+  row: number;      // 1-based file row (CSV) or transaction number (OFX)
+  reason: string;
+}
+
+export interface ParsedStatement {
+  format: StatementFileFormat;
+  lines: ParsedStatementLine[];
+  errors: StatementImportError[];
+  period_start: string | null;
+  period_end: string | null;
+  closing_balance: number | null;
+}
+
+interface ColumnMap {
+  date: number;
+  description?: number;
+  reference?: number;
+  amount?: number;
+  credit?: number;
+  debit?: number;
+  balance?: number;
+}
+
+// Header spellings used by Kenyan bank exports (Equity, KCB, Co-op, Stanbic, NCBA, I&M) and generic tools
+const HEADER_ALIASES: Record<keyof ColumnMap, RegExp> = {
+  date: /^(date|transaction\s*date|trans\.?\s*date|txn\s*date|posting\s*date|posted\s*date|booking\s*date|tran\s*date|value\s*date)$/i,
+  description: /^(description|narration|narrative|details|particulars|transaction\s*details|memo|remarks|transaction\s*description)$/i,
+  reference: /^(reference|ref\.?|ref\.?\s*no\.?|reference\s*(no\.?|number)|cheque\s*(no\.?|number)|chq\s*no\.?|transaction\s*(id|ref)|bank\s*reference|receipt\s*no\.?)$/i,
+  amount: /^(amount|transaction\s*amount|amt|amount\s*\(kes\))$/i,
+  credit: /^(credit|credits|credit\s*amount|deposit|deposits|money\s*in|paid\s*in|cr|credit\s*\(kes\))$/i,
+  debit: /^(debit|debits|debit\s*amount|withdrawal|withdrawals|money\s*out|paid\s*out|dr|debit\s*\(kes\))$/i,
+  balance: /^(balance|running\s*balance|book\s*balance|ledger\s*balance|closing\s*balance|balance\s*\(kes\))$/i,
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const toIsoDate = (year: number, month: number, day: number) => {
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/**
+ * Parse a statement date. Numeric dates are read day first (05/03/2024 is 5 March), as Kenyan
+ * banks print them; ISO, OFX (20240305...) and "05-Mar-2024" forms are also accepted.
+ */
+export function parseStatementDate(value: string): string | null {
+  const text = (value || '').trim();
+  if (!text) return null;
+
+  let m = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (m) return toIsoDate(Number(m[1]), Number(m[2]), Number(m[3]));
+
+  m = text.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (m) return toIsoDate(Number(m[1]), Number(m[2]), Number(m[3]));
+
+  m = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})$/);
+  if (m) return toIsoDate(Number(m[3]), Number(m[2]), Number(m[1]));
+
+  m = text.match(/^(\d{1,2})[-\s/.]([a-z]{3,4})[a-z]*[-\s/.,]+(\d{2,4})$/i);
+  if (m && MONTHS[m[2].toLowerCase()]) return toIsoDate(Number(m[3]), MONTHS[m[2].toLowerCase()], Number(m[1]));
+
+  return null;
+}
+
+/**
+ * Parse a statement amount: "1,250.50", "KES 400", "(1,250.50)" and "1,250.50 DR" are debits
+ * when marked so. Returns null for a blank cell and NaN for text that is not a number.
+ */
+export function parseStatementAmount(value: string): number | null {
+  let text = (value || '').trim();
+  if (!text || text === '-') return null;
+
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) { sign = -1; text = text.slice(1, -1); }
+  if (/\bdr\.?$/i.test(text)) { sign = -1; text = text.replace(/\bdr\.?$/i, ''); }
+  text = text.replace(/\bcr\.?$/i, '');
+
+  const n = Number(text.replace(/kshs?|kes|,|\s/gi, ''));
+  return isNaN(n) ? NaN : sign * n;
+}
+
+const fingerprint = (text: string) => text.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 60);
+
+function detectColumns(rows: string[][]): { columns: ColumnMap; headerIndex: number } | null {
+  for (let r = 0; r < Math.min(rows.length, 25); r++) {
+    const found: Partial<ColumnMap> = {};
+    rows[r].forEach((cell, c) => {
+      const text = (cell || '').trim();
+      (Object.keys(HEADER_ALIASES) as Array<keyof ColumnMap>).forEach((k) => {
+        if (found[k] === undefined && HEADER_ALIASES[k].test(text)) found[k] = c;
+      });
+    });
+    if (found.date !== undefined && (found.amount !== undefined || found.credit !== undefined || found.debit !== undefined)) {
+      return { columns: found as ColumnMap, headerIndex: r };
+    }
+  }
+  return null;
+}
+
+/**
+ * Turn CSV rows into statement lines. Needs a header row with a date column and either a signed
+ * amount column or separate debit/credit columns; opening/closing balance rows are skipped.
+ */
+export function parseCsvStatement(rows: string[][]): ParsedStatement {
+  const detected = detectColumns(rows);
+  if (!detected) {
+    throw new Error('Could not find the header row. The file needs a Date column and an Amount column (or Debit and Credit columns).');
+  }
+
+  const { columns, headerIndex } = detected;
+  const lines: ParsedStatementLine[] = [];
+  const errors: StatementImportError[] = [];
+  const seen: Record<string, number> = {};
+  const cell = (row: string[], index?: number) => (index === undefined ? '' : (row[index] || '').trim());
+
+  rows.slice(headerIndex + 1).forEach((row, i) => {
+    const rowNumber = headerIndex + i + 2;
+    if (row.every(c => !(c || '').trim())) return;
+
+    const description = cell(row, columns.description);
+    const rawDate = cell(row, columns.date);
+    const transactionDate = parseStatementDate(rawDate);
+    if (!transactionDate) {
+      // Balance brought forward / carried forward rows have no transaction date
+      if (!/balance|b\/f|c\/f|brought|carried|total/i.test(`${rawDate} ${description}`)) {
+        errors.push({ row: rowNumber, reason: `Unrecognised date "${rawDate}"` });
+      }
+      return;
+    }
+
+    let amount: number | null;
+    if (columns.amount !== undefined) {
+      amount = parseStatementAmount(cell(row, columns.amount));
+    } else {
+      const credit = parseStatementAmount(cell(row, columns.credit));
+      const debit = parseStatementAmount(cell(row, columns.debit));
+      if ((credit !== null && isNaN(credit)) || (debit !== null && isNaN(debit))) {
+        amount = NaN;
+      } else {
+        amount = credit === null && debit === null ? null : Math.abs(credit || 0) - Math.abs(debit || 0);
+      }
+    }
+    if (amount === null || amount === 0) return;
+    if (isNaN(amount)) {
+      errors.push({ row: rowNumber, reason: 'Amount is not a number' });
+      return;
+    }
+
+    const balance = parseStatementAmount(cell(row, columns.balance));
+    const reference = cell(row, columns.reference);
+    const key = `csv:${transactionDate}:${amount.toFixed(2)}:${fingerprint(reference || description)}`;
+    // Identical rows on the same day (two equal M-Pesa deposits) stay distinct within one file
+    seen[key] = (seen[key] || 0) + 1;
+
+    lines.push({
+      transaction_date: transactionDate,
+      description,
+      reference,
+      amount: Math.round(amount * 100) / 100,
+      running_balance: balance === null || isNaN(balance) ? null : balance,
+      external_id: `${key}:${seen[key]}`,
+    });
+  });
+
+  // Exports are newest-first or oldest-first; the closing balance is on the latest row either way
+  const descending = lines.length > 1 && lines[0].transaction_date > lines[lines.length - 1].transaction_date;
+  const latest = descending ? lines[0] : lines[lines.length - 1];
+  const dates = lines.map(l => l.transaction_date).sort();
+
+  return {
+    format: 'csv',
+    lines,
+    errors,
+    period_start: dates[0] || null,
+    period_end: dates[dates.length - 1] || null,
+    closing_balance: latest?.running_balance ?? null,
+  };
+}
+
+const ofxTag = (block: string, name: string) => {
+  const m = block.match(new RegExp(`<${name}>([^<\\r\\n]*)`, 'i'));
+  return m ? m[1].trim() : '';
+};
+
+const ofxAmount = (value: string) => {
+  // Some banks write decimal commas in OFX
+  const text = value.includes('.') ? value : value.replace(',', '.');
+  const n = Number(text);
+  return text === '' || isNaN(n) ? null : n;
+};
+
+/**
+ * Read the STMTTRN blocks of an OFX/QFX file (SGML 1.x or XML 2.x); FITID identifies each
+ * transaction so overlapping downloads do not import twice.
+ */
+export function parseOfxStatement(text: string): ParsedStatement {
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+  if (blocks.length === 0 && !/<OFX>/i.test(text)) {
+    throw new Error('This does not look like an OFX file.');
+  }
+
+  const lines: ParsedStatementLine[] = [];
+  const errors: StatementImportError[] = [];
+
+  blocks.forEach((block, i) => {
+    const transactionDate = parseStatementDate(ofxTag(block, 'DTPOSTED'));
+    const amount = ofxAmount(ofxTag(block, 'TRNAMT'));
+    if (!transactionDate) {
+      errors.push({ row: i + 1, reason: 'Missing or invalid DTPOSTED' });
+      return;
+    }
+    if (amount === null) {
+      errors.push({ row: i + 1, reason: 'Missing or invalid TRNAMT' });
+      return;
+    }
+    if (amount === 0) return;
+
+    const name = ofxTag(block, 'NAME');
+    const memo = ofxTag(block, 'MEMO');
+    const fitId = ofxTag(block, 'FITID');
+    const reference = ofxTag(block, 'REFNUM') || ofxTag(block, 'CHECKNUM');
+    lines.push({
+      transaction_date: transactionDate,
+      description: [name, memo].filter(Boolean).join(' - '),
+      reference,
+      amount: Math.round(amount * 100) / 100,
+      running_balance: null,
+      external_id: fitId ? `ofx:${fitId}` : `ofx:${transactionDate}:${amount.toFixed(2)}:${fingerprint(reference || name || memo)}:${i + 1}`,
+    });
+  });
+
+  const ledger = (text.match(/<LEDGERBAL>[\s\S]*?(?=<\/LEDGERBAL>|<AVAILBAL>|<\/STMTRS>|$)/i) || [''])[0];
+  const dates = lines.map(l => l.transaction_date).sort();
+
+  return {
+    format: 'ofx',
+    lines,
+    errors,
+    period_start: parseStatementDate(ofxTag(text, 'DTSTART')) || dates[0] || null,
+    period_end: parseStatementDate(ofxTag(text, 'DTEND')) || dates[dates.length - 1] || null,
+    closing_balance: ledger ? ofxAmount(ofxTag(ledger, 'BALAMT')) : null,
+  };
+}
+
+/**
+ * Read a bank statement file (.csv, .ofx or .qfx) into statement lines
+ */
+export async function readBankStatementFile(file: File): Promise<ParsedStatement> {
+  const name = file.name.toLowerCase();
+  const text = await file.text();
+  if (name.endsWith('.ofx') || name.endsWith('.qfx') || /^\s*(OFXHEADER|<\?xml[\s\S]*<OFX>)/i.test(text)) {
+    return parseOfxStatement(text);
+  }
+  if (name.endsWith('.csv') || file.type === 'text/csv') {
+    return parseCsvStatement(parseCsv(text.replace(/^\uFEFF/, '')));
+  }
+  throw new Error('Unsupported file type. Please upload a .csv, .ofx or .qfx statement.');
+}
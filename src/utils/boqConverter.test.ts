@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { flattenBoqToLineItems, resolveBoqUnit, totalBoqLineItems } from '@/utils/boqConverter';
+import { boq } from '@/test/fixtures';
+
+const units = [{ id: 'u-m2', name: 'Square metre', abbreviation: 'm2' }];
+const vat = { id: 'vat16', rate: 16 };
+
+describe('resolveBoqUnit', () => {
+  it('prefers the units table over the stored text', () => {
+    expect(resolveBoqUnit({ description: 'Tiles', unit_id: 'u-m2', unit_name: 'sqm' }, units)).toBe('m2');
+  });
+
+  it('falls back to the stored name, the legacy unit, then Item', () => {
+    expect(resolveBoqUnit({ description: 'Tiles', unit_id: 'missing', unit_name: 'sqm' }, units)).toBe('sqm');
+    expect(resolveBoqUnit({ description: 'Tiles', unit: 'No' })).toBe('No');
+    expect(resolveBoqUnit({ description: 'Tiles' })).toBe('Item');
+  });
+});
+
+describe('flattenBoqToLineItems', () => {
+  it('turns measured items into lines with the bill title prefixed', () => {
+    const lines = flattenBoqToLineItems(boq([
+      { title: 'BILL NO. 01: SUBSTRUCTURE', items: [{ description: 'Excavation', quantity: 10, rate: 250, unit_id: 'u-m2' }] },
+    ]), units);
+
+    expect(lines).toEqual([{
+      description: 'BILL NO. 01: SUBSTRUCTURE: Excavation',
+      quantity: 10,
+      unit_price: 250,
+      unit_of_measure: 'm2',
+      tax_percentage: 0,
+      tax_inclusive: false,
+      tax_amount: 0,
+      line_total: 2500,
+    }]);
+  });
+
+  it('skips blank descriptions and can leave titles off', () => {
+    const lines = flattenBoqToLineItems(boq([
+      { title: 'Bill 1', items: [{ description: '  ' }, { description: 'Walling', quantity: 2, rate: 100 }] },
+    ]), [], { prefixSectionTitles: false });
+
+    expect(lines.map(line => line.description)).toEqual(['Walling']);
+  });
+
+  it('derives the rate of a lump sum item that only carries an amount', () => {
+    const [line] = flattenBoqToLineItems(boq([
+      { items: [{ description: 'Preliminaries', quantity: 4, amount: 1000 }] },
+    ]));
+
+    expect(line.quantity).toBe(4);
+    expect(line.unit_price).toBe(250);
+    expect(line.line_total).toBe(1000);
+  });
+
+  it('prices sums and percentage lines as a single line at their computed amount', () => {
+    const lines = flattenBoqToLineItems(boq([
+      { id: 's1', items: [
+        { description: 'Concrete', quantity: 5, rate: 2000 },
+        { description: 'Electrical', kind: 'provisional', amount: 3000 },
+      ] },
+      { id: 's2', items: [
+        { description: 'Contingency', kind: 'percentage', percentage: 10, basis_section_ids: ['s1'] },
+      ] },
+    ]), [], { prefixSectionTitles: false });
+
+    expect(lines[1]).toMatchObject({ quantity: 1, unit_price: 3000, unit_of_measure: 'Sum' });
+    expect(lines[2]).toMatchObject({ description: 'Contingency (10%)', quantity: 1, unit_price: 1300, unit_of_measure: 'Sum' });
+  });
+
+  it('adds the given tax on top of every line and links its setting', () => {
+    const [line] = flattenBoqToLineItems(boq([
+      { items: [{ description: 'Roofing', quantity: 3, rate: 333.33 }] },
+    ]), [], { tax: vat });
+
+    expect(line.tax_setting_id).toBe('vat16');
+    expect(line.tax_percentage).toBe(16);
+    expect(line.tax_inclusive).toBe(true);
+    expect(line.tax_amount).toBe(160);
+    expect(line.line_total).toBe(1159.99);
+  });
+
+  it('keeps a zero rated setting on the line without adding tax', () => {
+    const [line] = flattenBoqToLineItems(boq([
+      { items: [{ description: 'Export crating', quantity: 1, rate: 500 }] },
+    ]), [], { tax: { id: 'zero', rate: 0 } });
+
+    expect(line).toMatchObject({ tax_setting_id: 'zero', tax_percentage: 0, tax_amount: 0, line_total: 500 });
+  });
+});
+
+describe('totalBoqLineItems', () => {
+  it('sums subtotal, VAT and total to two decimals', () => {
+    const lines = flattenBoqToLineItems(boq([
+      { items: [
+        { description: 'A', quantity: 3, rate: 0.1 },
+        { description: 'B', quantity: 1, rate: 0.2 },
+      ] },
+    ]), [], { tax: vat });
+
+    expect(totalBoqLineItems(lines)).toEqual({ subtotal: 0.5, tax_amount: 0.08, total_amount: 0.58 });
+  });
+});
@@ -0,0 +1,106 @@
+import type { BoqDocument, BoqItem } from '@/utils/boqPdfGenerator';
+import type { TaxSetting, Unit } from '@/hooks/useDatabase';
+import { calculateItemTax } from '@/utils/taxCalculation';
+import { boqItemKind, computeBoqTotals } from '@/utils/boqTotals';
+
+export type BoqConversionTarget = 'quotation' | 'proforma' | 'invoice';
+
+export interface BoqLineItem {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  unit_of_measure: string;
+  tax_setting_id?: string;
+  tax_percentage: number;
+  tax_inclusive: boolean;
+  tax_amount: number;
+  line_total: number;
+}
+
+export interface BoqConversionOptions {
+  tax?: Pick<TaxSetting, 'id' | 'rate'> | null; // tax added on top of every line, none when omitted
+  prefixSectionTitles?: boolean; // prepend "BILL NO. 01: ..." to each description
+}
+
+const safeN = (v: unknown) => {
+  const n = Number(v);
+  return isNaN(n) ? 0 : n;
+};
+
+/**
+ * Resolve the display unit for a BOQ item, preferring the units table over legacy text fields
+ */
+export function resolveBoqUnit(item: BoqItem, units: Pick<Unit, 'id' | 'name' | 'abbreviation'>[] = []): string {
+  if (item.unit_id) {
+    const unit = units.find(u => u.id === item.unit_id);
+    if (unit) return unit.abbreviation || unit.name;
+  }
+  return item.unit_name || item.unit || 'Item';
+}
+
+/**
+ * Flatten BOQ sections into document line items ready for quotation/proforma/invoice creation
+ */
+export function flattenBoqToLineItems(doc: BoqDocument, units: Pick<Unit, 'id' | 'name' | 'abbreviation'>[] = [], options: BoqConversionOptions = {}): BoqLineItem[] {
+  const { tax = null, prefixSectionTitles = true } = options;
+  const taxPercentage = tax ? Number(tax.rate) || 0 : 0;
+  const lines: BoqLineItem[] = [];
+  const totals = computeBoqTotals({ sections: doc?.sections || [] });
+
+  (doc?.sections || []).forEach((section, sIdx) => {
+    (section.items || []).forEach((item, iIdx) => {
+      if (!item.description || !item.description.trim()) return;
+
+      const kind = boqItemKind(item);
+      // Sums and percentage lines become a single line at their computed amount
+      const isSingleLine = kind !== 'measured';
+      const quantity = isSingleLine ? 1 : safeN(item.quantity ?? 1) || 1;
+      // Lump-sum items may only carry an amount; derive the rate from it
+      const unitPrice = isSingleLine
+        ? totals.sections[sIdx].itemAmounts[iIdx]
+        : item.rate !== undefined && item.rate !== null
+          ? safeN(item.rate)
+          : safeN(item.amount) / quantity;
+
+      const calculated = calculateItemTax({
+        quantity,
+        unit_price: unitPrice,
+        tax_percentage: taxPercentage,
+        tax_inclusive: !!tax,
+      });
+
+      const baseDescription = kind === 'percentage' ? `${item.description} (${safeN(item.percentage)}%)` : item.description;
+      const description = prefixSectionTitles && section.title
+        ? `${section.title}: ${baseDescription}`
+        : baseDescription;
+
+      lines.push({
+        description,
+        quantity,
+        unit_price: unitPrice,
+        unit_of_measure: isSingleLine ? 'Sum' : resolveBoqUnit(item, units),
+        ...(tax ? { tax_setting_id: tax.id } : {}),
+        tax_percentage: taxPercentage,
+        tax_inclusive: !!tax,
+        tax_amount: calculated.tax_amount,
+        line_total: calculated.line_total,
+      });
+    });
+  });
+
+  return lines;
+}
+
+/**
+ * Sum flattened lines into document totals
+ */
+export function totalBoqLineItems(lines: BoqLineItem[]) {
+  const subtotal = lines.reduce((sum, l) => sum + l.quantity * l.unit_price, 0);
+  const taxAmount = lines.reduce((sum, l) => sum + l.tax_amount, 0);
+  const totalAmount = lines.reduce((sum, l) => sum + l.line_total, 0);
+  return {
+    subtotal: parseFloat(subtotal.toFixed(2)),
+    tax_amount: parseFloat(taxAmount.toFixed(2)),
+    total_amount: parseFloat(totalAmount.toFixed(2)),
+  };
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { matchUnit, parseBoqNumber, parseBoqRows, parseCsv, unitKey } from '@/utils/boqImport';
+
+const units = [
+  { id: 'u-m2', name: 'Square metre', abbreviation: 'm²' },
+  { id: 'u-no', name: 'Number', abbreviation: 'No' },
+];
+
+describe('parseBoqNumber', () => {
+  it('reads formatted amounts and treats blanks and dashes as empty', () => {
+    expect(parseBoqNumber(12.5)).toBe(12.5);
+    expect(parseBoqNumber('1,250.50')).toBe(1250.5);
+    expect(parseBoqNumber('KES 400')).toBe(400);
+    expect(parseBoqNumber('Kshs 1 000')).toBe(1000);
+    expect(parseBoqNumber('')).toBeNull();
+    expect(parseBoqNumber('-')).toBeNull();
+    expect(parseBoqNumber('ten')).toBeNaN();
+  });
+});
+
+describe('unit matching', () => {
+  it('maps common spellings to one key', () => {
+    expect(unitKey('Sq. M')).toBe('m2');
+    expect(unitKey('m²')).toBe('m2');
+    expect(unitKey('Nr')).toBe('no');
+  });
+
+  it('matches a company unit by name or abbreviation', () => {
+    expect(matchUnit('sqm', units)?.id).toBe('u-m2');
+    expect(matchUnit('pcs', units)?.id).toBe('u-no');
+    expect(matchUnit('kg', units)).toBeNull();
+    expect(matchUnit('', units)).toBeNull();
+  });
+});
+
+describe('parseCsv', () => {
+  it('handles quoted fields, escaped quotes and CRLF', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n1,2,3')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', '2', '3'],
+    ]);
+  });
+});
+
+describe('parseBoqRows', () => {
+  it('splits bills on headings, skips totals and maps units', () => {
+    const result = parseBoqRows([
+      ['Item', 'Description', 'Qty', 'Unit', 'Rate', 'Amount'],
+      ['BILL NO. 01: SUBSTRUCTURE'],
+      ['A', 'Excavation', '10', 'sqm', '1,200', '12,000'],
+      ['B', 'Provisional sum for piling', '', 'Item', '', '50000'],
+      ['', 'Carried to collection', '', '', '', '62,000'],
+      ['BILL NO. 02: WALLING'],
+      ['A', 'Blockwork', 3, 'Nr', 333.333, ''],
+    ], units);
+
+    expect(result.errors).toEqual([]);
+    expect(result.itemCount).toBe(3);
+    expect(result.unmatchedUnits).toEqual(['Item']);
+    expect(result.sections.map(section => section.title)).toEqual(['BILL NO. 01: SUBSTRUCTURE', 'BILL NO. 02: WALLING']);
+    expect(result.sections[0].items).toEqual([
+      { description: 'Excavation', quantity: 10, rate: 1200, unit_id: 'u-m2', unit_name: 'Square metre', unit_abbreviation: 'm²' },
+      { description: 'Provisional sum for piling', kind: 'provisional', quantity: 1, rate: 50000, unit_id: undefined, unit_name: 'Item', unit_abbreviation: undefined },
+    ]);
+    expect(result.sections[1].items[0]).toMatchObject({ quantity: 3, rate: 333.33, unit_id: 'u-no' });
+  });
+
+  it('derives the rate from the amount when only an amount is given', () => {
+    const result = parseBoqRows([
+      ['Description', 'Qty', 'Amount'],
+      ['P.C. Sum for sanitary fittings', '4', '10,000'],
+    ]);
+
+    expect(result.sections).toEqual([{ title: 'General', items: [expect.objectContaining({ kind: 'prime_cost', quantity: 4, rate: 2500 })] }]);
+  });
+
+  it('reports rows that are not valid items with their spreadsheet row number', () => {
+    const result = parseBoqRows([
+      ['Description', 'Qty', 'Rate'],
+      ['Plaster', 'ten', '100'],
+      ['Paint', '0', '100'],
+      ['Skirting', '5', '-20'],
+      ['', '5', '20'],
+      ['see drawings for details'],
+    ]);
+
+    expect(result.itemCount).toBe(0);
+    expect(result.errors.map(error => [error.row, error.reason])).toEqual([
+      [2, 'Invalid quantity "ten"'],
+      [3, 'Quantity must be greater than zero'],
+      [4, 'Negative rate or amount'],
+      [5, 'Missing description'],
+      [6, 'No quantity, rate or amount'],
+    ]);
+  });
+
+  it('assumes the usual column order when there is no header row', () => {
+    const result = parseBoqRows([['1', 'Hardcore filling', '20', 'm3', '800', '16000']]);
+
+    expect(result.sections[0].items[0]).toMatchObject({ description: 'Hardcore filling', quantity: 20, rate: 800, unit_name: 'm3' });
+  });
+});
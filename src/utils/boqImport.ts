@@ -0,0 +1,252 @@
+import type { BoqItem, BoqSection } from '@/utils/boqPdfGenerator';
+import type { Unit } from '@/hooks/useDatabase';
+
+export type SpreadsheetCell = string | number | boolean | Date | null | undefined;
+export type SpreadsheetRow = SpreadsheetCell[];
+
+export interface BoqImportError {
+  row: number;      // 1-based spreadsheet row
+  reason: string;
+  raw: string;
+}
+
+export interface BoqImportResult {
+  sections: BoqSection[];
+  errors: BoqImportError[];
+  unmatchedUnits: string[];   // distinct unit strings with no matching row in the units table
+  itemCount: number;
+}
+
+interface ColumnMap {
+  item?: number;
+  description: number;
+  quantity?: number;
+  unit?: number;
+  rate?: number;
+  amount?: number;
+}
+
+// "BILL NO. 01: DEMOLITIONS", "SECTION 2 - SUBSTRUCTURE", "ELEMENT NO 3", "PART A"
+const SECTION_HEADING = /^(bill|section|element|part)\s*(no\.?|number)?\s*[:.-]?\s*([0-9]+|[a-z])\b/i;
+// Collection/summary lines that carry totals rather than items
+const TOTAL_LINE = /^(total|sub-?total|carried\s+(to|forward)|brought\s+forward|to\s+collection|to\s+summary|collection|summary)\b/i;
+
+// "Provide the Provisional Sum of ...", "P.C. Sum for sanitary fittings", "Prime cost of ..."
+const PROVISIONAL_SUM = /\bprovisional\s+sum\b/i;
+const PRIME_COST = /\b(p\.?\s?c\.?\s+sum|prime\s+cost)\b/i;
+
+const HEADER_ALIASES: Record<keyof ColumnMap, RegExp> = {
+  item: /^(item|ref|no\.?|item\s*no\.?)$/i,
+  description: /^(description|particulars|item\s*description|details)$/i,
+  quantity: /^(qty|quantity|qnty|quant\.?)$/i,
+  unit: /^(unit|units|uom|unit\s*of\s*measure)$/i,
+  rate: /^(rate|unit\s*rate|price|unit\s*price|rate\s*\(kes\)|rate\s*kshs?)$/i,
+  amount: /^(amount|total|amount\s*\(kes\)|amount\s*kshs?)$/i,
+};
+
+// Common spellings for the same unit mapped to one comparison key
+const UNIT_ALIASES: Record<string, string> = {
+  sqm: 'm2', sqmt: 'm2', sqmetre: 'm2', sqmeter: 'm2', squaremetre: 'm2', squaremeter: 'm2', m2: 'm2',
+  cum: 'm3', cumt: 'm3', cubicmetre: 'm3', cubicmeter: 'm3', m3: 'm3',
+  lm: 'm', rm: 'm', m: 'm', metre: 'm', meter: 'm', metres: 'm', meters: 'm', linearmetre: 'm', runningmetre: 'm',
+  no: 'no', nr: 'no', nos: 'no', number: 'no', pcs: 'no', pc: 'no', each: 'no', ea: 'no',
+  ls: 'sum', lumpsum: 'sum', sum: 'sum', item: 'item', kg: 'kg', kgs: 'kg', kilogram: 'kg', kilograms: 'kg',
+  t: 'tonne', ton: 'tonne', tonne: 'tonne', tonnes: 'tonne', tons: 'tonne', l: 'litre', ltr: 'litre', litre: 'litre', litres: 'litre',
+};
+
+const cellText = (cell: SpreadsheetCell) => {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) return cell.toISOString().split('T')[0];
+  return String(cell).trim();
+};
+
+/**
+ * Parse a numeric cell; accepts "1,250.50", "KES 400" and blank. Returns NaN for non-numeric text.
+ */
+export function parseBoqNumber(cell: SpreadsheetCell): number | null {
+  if (typeof cell === 'number') return cell;
+  const text = cellText(cell);
+  if (!text || text === '-') return null;
+  const cleaned = text.replace(/kshs?|kes|,|\s/gi, '');
+  const n = Number(cleaned);
+  return isNaN(n) ? NaN : n;
+}
+
+export function unitKey(value: string): string {
+  const compact = (value || '')
+    .toLowerCase()
+    .replace(/²/g, '2')
+    .replace(/³/g, '3')
+    .replace(/[\s.\-_]/g, '');
+  return UNIT_ALIASES[compact] || compact;
+}
+
+type ImportUnit = Pick<Unit, 'id' | 'name' | 'abbreviation'>;
+
+/**
+ * Find the company unit matching a spreadsheet unit string by name or abbreviation
+ */
+export function matchUnit(raw: string, units: ImportUnit[] = []): ImportUnit | null {
+  const k = unitKey(raw);
+  if (!k) return null;
+  return units.find(u => unitKey(u.name) === k || (u.abbreviation && unitKey(u.abbreviation) === k)) || null;
+}
+
+/**
+ * Minimal RFC 4180 CSV parser (quoted fields, escaped quotes, CRLF)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); rows.push(row);
+      row = []; field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) { row.push(field); rows.push(row); }
+  return rows;
+}
+
+/**
+ * Read a CSV or XLSX file into raw rows (first worksheet for XLSX)
+ */
+export async function readBoqSpreadsheet(file: File): Promise<SpreadsheetRow[]> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.csv') || file.type === 'text/csv') {
+    return parseCsv(await file.text());
+  }
+  if (name.endsWith('.xlsx')) {
+    const { default: readXlsxFile } = await import('read-excel-file');
+    return (await readXlsxFile(file)) as SpreadsheetRow[];
+  }
+  throw new Error('Unsupported file type. Please upload a .csv or .xlsx file.');
+}
+
+function detectColumns(rows: SpreadsheetRow[]): { columns: ColumnMap; headerIndex: number } {
+  for (let r = 0; r < Math.min(rows.length, 30); r++) {
+    const found: Partial<ColumnMap> = {};
+    rows[r].forEach((cell, c) => {
+      const text = cellText(cell);
+      (Object.keys(HEADER_ALIASES) as Array<keyof ColumnMap>).forEach((k) => {
+        if (found[k] === undefined && HEADER_ALIASES[k].test(text)) found[k] = c;
+      });
+    });
+    if (found.description !== undefined && (found.quantity !== undefined || found.rate !== undefined || found.amount !== undefined)) {
+      return { columns: found as ColumnMap, headerIndex: r };
+    }
+  }
+  // No header row: assume the common QS layout Item | Description | Qty | Unit | Rate | Amount
+  return { columns: { item: 0, description: 1, quantity: 2, unit: 3, rate: 4, amount: 5 }, headerIndex: -1 };
+}
+
+/**
+ * Turn spreadsheet rows into BOQ sections. Heading rows such as "BILL NO. 01" start a new section,
+ * total/collection lines are ignored and anything else that is not a valid item is reported.
+ */
+export function parseBoqRows(rows: SpreadsheetRow[], units: ImportUnit[] = []): BoqImportResult {
+  const { columns, headerIndex } = detectColumns(rows);
+  const sections: BoqSection[] = [];
+  const errors: BoqImportError[] = [];
+  const unmatched = new Set<string>();
+  let current: BoqSection | null = null;
+  let itemCount = 0;
+
+  const ensureSection = () => {
+    if (!current) {
+      current = { title: 'General', items: [] };
+      sections.push(current);
+    }
+    return current;
+  };
+
+  rows.forEach((row, index) => {
+    if (index <= headerIndex) return;
+    const rowNumber = index + 1;
+    const texts = row.map(cellText);
+    if (texts.every(t => !t)) return;
+
+    const raw = texts.filter(Boolean).join(' | ');
+    const description = cellText(row[columns.description]);
+    const firstText = texts.find(Boolean) || '';
+    const quantity = columns.quantity !== undefined ? parseBoqNumber(row[columns.quantity]) : null;
+    const rate = columns.rate !== undefined ? parseBoqNumber(row[columns.rate]) : null;
+    const amount = columns.amount !== undefined ? parseBoqNumber(row[columns.amount]) : null;
+    const hasNumbers = [quantity, rate, amount].some(n => n !== null);
+
+    if (SECTION_HEADING.test(firstText) && !hasNumbers) {
+      current = { title: firstText === description ? description : texts.filter(Boolean).join(' '), items: [] };
+      sections.push(current);
+      return;
+    }
+
+    if (TOTAL_LINE.test(firstText) || TOTAL_LINE.test(description)) return;
+
+    if (!hasNumbers) {
+      // Upper-case text on its own is a sub-heading; start a section for it
+      const headingText = description || firstText;
+      if (headingText === headingText.toUpperCase() && /[A-Z]{3}/.test(headingText)) {
+        current = { title: headingText, items: [] };
+        sections.push(current);
+      } else {
+        errors.push({ row: rowNumber, reason: 'No quantity, rate or amount', raw });
+      }
+      return;
+    }
+
+    if (!description) {
+      errors.push({ row: rowNumber, reason: 'Missing description', raw });
+      return;
+    }
+
+    if (Number.isNaN(quantity)) { errors.push({ row: rowNumber, reason: `Invalid quantity "${cellText(row[columns.quantity!])}"`, raw }); return; }
+    if (Number.isNaN(rate)) { errors.push({ row: rowNumber, reason: `Invalid rate "${cellText(row[columns.rate!])}"`, raw }); return; }
+    if (Number.isNaN(amount)) { errors.push({ row: rowNumber, reason: `Invalid amount "${cellText(row[columns.amount!])}"`, raw }); return; }
+    if (quantity !== null && quantity <= 0) { errors.push({ row: rowNumber, reason: 'Quantity must be greater than zero', raw }); return; }
+    if ((rate ?? 0) < 0 || (amount ?? 0) < 0) { errors.push({ row: rowNumber, reason: 'Negative rate or amount', raw }); return; }
+
+    // Lump sums often only fill the amount column
+    const qty = quantity ?? 1;
+    const itemRate = rate ?? (amount !== null ? amount / qty : 0);
+
+    const unitText = columns.unit !== undefined ? cellText(row[columns.unit]) : '';
+    const unit = unitText ? matchUnit(unitText, units) : null;
+    if (unitText && !unit) unmatched.add(unitText);
+
+    const kind = PRIME_COST.test(description) ? 'prime_cost' : PROVISIONAL_SUM.test(description) ? 'provisional' : undefined;
+
+    const item: BoqItem = {
+      description,
+      ...(kind ? { kind } : {}),
+      quantity: qty,
+      rate: parseFloat(itemRate.toFixed(2)),
+      unit_id: unit?.id,
+      unit_name: unit ? unit.name : unitText || undefined,
+      unit_abbreviation: unit ? unit.abbreviation || unit.name : undefined,
+    };
+    ensureSection().items.push(item);
+    itemCount++;
+  });
+
+  return {
+    sections: sections.filter(s => s.items.length > 0),
+    errors,
+    unmatchedUnits: [...unmatched],
+    itemCount,
+  };
+}
@@ -1,21 +1,35 @@
-import { generatePDF } from '@/utils/pdfGenerator';
+import { generatePDF, DocumentData } from '@/utils/pdfGenerator';
+import { boqItemKind, computeBoqTotals } from '@/utils/boqTotals';
+import { certificateLabel, ValuationLine, valuationLineValue } from '@/utils/boqValuation';
+import type { BOQ, BOQValuation } from '@/hooks/useDatabase';
 
-export interface BoqItem {
+// measured: qty x rate; provisional / prime_cost: a fixed sum carried as qty 1 at the sum;
+// percentage: a share of the chosen bills' totals (contingency, preliminaries)
+export type BoqItemKind = 'measured' | 'provisional' | 'prime_cost' | 'percentage';
+
+// Type aliases rather than interfaces so a document can be stored in the boqs.data JSON column
+export type BoqItem = {
   description: string;
+  kind?: BoqItemKind; // defaults to measured
   quantity?: number; // defaults to 1 for lump sum items
   unit_id?: string; // unit id reference
   unit_name?: string; // human readable unit name
+  unit_abbreviation?: string; // display abbreviation resolved from units table
   unit?: string; // legacy fallback
   rate?: number; // KES per unit
   amount?: number; // optional; if omitted computed as qty*rate
-}
+  percentage?: number; // percentage lines only, e.g. 10 for 10%
+  basis_section_ids?: string[]; // percentage lines only; bills the percentage applies to, empty = all bills
+  rate_library_id?: string; // boq_rates row the rate was taken from
+};
 
-export interface BoqSection {
+export type BoqSection = {
+  id?: string; // stable reference used by percentage lines
   title?: string; // optional section title like "BILL NO. 01: DEMOLITIONS"
   items: BoqItem[];
-}
+};
 
-export interface BoqDocument {
+export type BoqDocument = {
   number: string; // e.g., BOQ-0001
   date: string;   // ISO date
   client: { name: string; email?: string; phone?: string; address?: string; city?: string; country?: string };
@@ -23,35 +37,36 @@ export interface BoqDocument {
   project_title?: string; // e.g., Proposed Development - House Renovations
   sections: BoqSection[];
   notes?: string;
-}
-
-// Helper
-const safeN = (v: number | undefined) => (typeof v === 'number' && !isNaN(v) ? v : 0);
+};
 
 export function downloadBOQPDF(doc: BoqDocument, company?: { name: string; logo_url?: string; address?: string; city?: string; country?: string; phone?: string; email?: string }) {
-  // Flatten items and auto-calc amounts; prefix section titles as bold rows
-  const flatItems: Array<{ description: string; quantity: number; unit_price: number; line_total: number; unit_of_measure?: string }> = [];
+  const totals = computeBoqTotals(doc);
+
+  // Flatten into rows: a heading per bill, its items, then the bill total carried to collection
+  const flatItems: DocumentData['items'] = [];
 
-  doc.sections.forEach((section) => {
-    if (section.title) {
-      flatItems.push({ description: `➤ ${section.title}`, quantity: 0, unit_price: 0, line_total: 0 });
-    }
-    section.items.forEach((it) => {
-      const qty = safeN(it.quantity ?? 1);
-      const rate = safeN(it.rate ?? (it.amount ? it.amount : 0));
-      const amount = safeN(it.amount ?? qty * rate);
+  doc.sections.forEach((section, sIdx) => {
+    const sectionTotals = totals.sections[sIdx];
+    flatItems.push({ row_type: 'section', description: sectionTotals.title, quantity: 0, unit_price: 0, line_total: 0 });
+
+    section.items.forEach((it, iIdx) => {
+      const kind = boqItemKind(it);
+      const amount = sectionTotals.itemAmounts[iIdx];
+      const isSum = kind === 'provisional' || kind === 'prime_cost';
       flatItems.push({
+        row_type: 'item',
+        item_kind: kind,
         description: it.description,
-        quantity: qty,
-        unit_price: rate,
+        quantity: kind === 'percentage' ? Number(it.percentage || 0) : isSum ? 1 : Number(it.quantity ?? 1),
+        unit_price: kind === 'percentage' ? 0 : isSum ? amount : Number(it.rate ?? amount),
         line_total: amount,
-        unit_of_measure: it.unit_name || it.unit || 'Item',
-        unit_abbreviation: (it.unit_abbreviation || ''),
+        unit_of_measure: kind === 'percentage' ? '%' : isSum ? 'Sum' : it.unit_name || it.unit || 'Item',
+        unit_abbreviation: kind === 'percentage' ? '%' : isSum ? 'Sum' : (it.unit_abbreviation || ''),
       });
     });
-  });
 
-  const subtotal = flatItems.reduce((s, r) => s + (r.line_total || 0), 0);
+    flatItems.push({ row_type: 'section_total', description: `Total ${sectionTotals.title} carried to Collection`, quantity: 0, unit_price: 0, line_total: sectionTotals.subtotal });
+  });
 
   return generatePDF({
     type: 'boq',
@@ -60,10 +75,63 @@ export function downloadBOQPDF(doc: BoqDocument, company?: { name: string; logo_
     company,
     customer: doc.client,
     items: flatItems,
-    subtotal,
-    total_amount: subtotal,
+    subtotal: totals.total,
+    total_amount: totals.total,
     project_title: doc.project_title,
     contractor: doc.contractor,
-    notes: doc.notes || ''
+    notes: doc.notes || '',
+    boq_summary: {
+      bills: totals.sections.map(sec => ({ title: sec.title, amount: sec.subtotal })),
+      provisional: totals.provisional,
+      prime_cost: totals.primeCost,
+      percentage: totals.percentage,
+    },
+  });
+}
+
+/**
+ * Interim payment certificate for a saved valuation, rendered through the shared document template
+ */
+export function downloadValuationCertificatePDF(valuation: BOQValuation, boq: BOQ, company?: { name: string; logo_url?: string; address?: string; city?: string; country?: string; phone?: string; email?: string }) {
+  const lines: ValuationLine[] = valuation.items || [];
+  const items: DocumentData['items'] = lines.map((line) => ({
+    description: `${line.section_title}: ${line.description}`,
+    quantity: line.mode === 'quantity' ? Number(line.cumulative_quantity) || 0 : 1,
+    unit_price: line.rate,
+    contract_amount: line.contract_amount,
+    progress: line.mode === 'percent'
+      ? `${Number(line.cumulative_percent) || 0}%`
+      : `${Number(line.cumulative_quantity) || 0} / ${line.contract_quantity} ${line.unit}`,
+    previous_value: Number(line.previous_value) || 0,
+    line_total: valuationLineValue(line),
+  }));
+
+  return generatePDF({
+    type: 'certificate',
+    number: `${boq.number} ${certificateLabel(valuation.valuation_number)}`,
+    date: valuation.valuation_date,
+    company,
+    customer: {
+      name: boq.client_name,
+      email: boq.client_email || undefined,
+      phone: boq.client_phone || undefined,
+      address: boq.client_address || undefined,
+      city: boq.client_city || undefined,
+      country: boq.client_country || undefined,
+    },
+    project_title: boq.project_title || undefined,
+    items,
+    total_amount: Number(valuation.amount_due || 0),
+    notes: valuation.notes || '',
+    certificate: {
+      boq_number: boq.number,
+      valuation_date: valuation.valuation_date,
+      gross_value: Number(valuation.gross_value || 0),
+      retention_percentage: Number(valuation.retention_percentage || 0),
+      retention_amount: Number(valuation.retention_amount || 0),
+      net_value: Number(valuation.net_value || 0),
+      previous_certified: Number(valuation.previous_certified || 0),
+      amount_due: Number(valuation.amount_due || 0),
+    },
   });
 }
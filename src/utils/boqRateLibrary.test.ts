@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { findLibraryRate, findRateDrift, parseRateTags, searchBoqRates } from '@/utils/boqRateLibrary';
+import type { BOQRate } from '@/hooks/useDatabase';
+import { boq } from '@/test/fixtures';
+
+const rates: BOQRate[] = [
+  { id: 'r1', description: 'Excavate oversite', unit_id: 'u-m3', default_rate: 450, tags: ['earthworks'], units: { name: 'Cubic metre', abbreviation: 'm3' } },
+  { id: 'r2', description: 'Block walling 200mm', unit_id: 'u-m2', default_rate: 1850, tags: ['masonry', 'walling'], products: { name: 'Machine cut block', product_code: 'BLK-200' } },
+  { id: 'r3', description: 'Block walling 150mm', unit_id: 'u-m2', default_rate: 1500, is_active: false },
+];
+
+describe('parseRateTags', () => {
+  it('trims, lowercases and removes duplicate tags', () => {
+    expect(parseRateTags(' Masonry, walling,,MASONRY ')).toEqual(['masonry', 'walling']);
+    expect(parseRateTags('')).toEqual([]);
+  });
+});
+
+describe('searchBoqRates', () => {
+  it('matches every word across description, tags, unit and product', () => {
+    expect(searchBoqRates(rates, 'walling blk-200').map(r => r.id)).toEqual(['r2']);
+    expect(searchBoqRates(rates, 'EARTHWORKS m3').map(r => r.id)).toEqual(['r1']);
+  });
+
+  it('returns every active rate for an empty search', () => {
+    expect(searchBoqRates(rates, '  ').map(r => r.id)).toEqual(['r1', 'r2']);
+  });
+});
+
+describe('findLibraryRate', () => {
+  it('prefers the linked entry even when inactive', () => {
+    expect(findLibraryRate({ description: 'Anything', rate_library_id: 'r3' }, rates)?.id).toBe('r3');
+  });
+
+  it('falls back to an active entry with the same description and unit', () => {
+    expect(findLibraryRate({ description: ' excavate OVERSITE', unit_id: 'u-m3' }, rates)?.id).toBe('r1');
+    expect(findLibraryRate({ description: 'Excavate oversite', unit_id: 'u-m2' }, rates)).toBeNull();
+    expect(findLibraryRate({ description: 'Block walling 150mm', unit_id: 'u-m2' }, rates)).toBeNull();
+  });
+});
+
+describe('findRateDrift', () => {
+  it('flags measured items priced away from the library rate', () => {
+    const drift = findRateDrift(boq([
+      { items: [
+        { description: 'Excavate oversite', unit_id: 'u-m3', quantity: 10, rate: 400 },
+        { description: 'Block walling 200mm', unit_id: 'u-m2', quantity: 5, rate: 1850.004, rate_library_id: 'r2' },
+        { description: 'Block walling 200mm', kind: 'provisional', amount: 1000, rate_library_id: 'r2' },
+        { description: 'Unlisted item', quantity: 1, rate: 10 },
+      ] },
+    ]), rates);
+
+    expect(drift).toEqual([
+      { sectionIndex: 0, itemIndex: 0, description: 'Excavate oversite', rate: 400, libraryRate: 450, libraryId: 'r1' },
+    ]);
+  });
+
+  it('finds nothing without a BOQ', () => {
+    expect(findRateDrift(null, rates)).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import type { BoqDocument, BoqItem } from '@/utils/boqPdfGenerator';
+import { boqItemKind } from '@/utils/boqTotals';
+import type { BOQRate } from '@/hooks/useDatabase';
+
+export interface BoqRateDrift {
+  sectionIndex: number;
+  itemIndex: number;
+  description: string;
+  rate: number;
+  libraryRate: number;
+  libraryId: string;
+}
+
+const key = (s?: string) => (s || '').trim().toLowerCase();
+
+/**
+ * Normalise a comma separated tag string: "Masonry, walling" -> ['masonry', 'walling']
+ */
+export function parseRateTags(text: string): string[] {
+  return Array.from(new Set((text || '').split(',').map(t => t.trim().toLowerCase()).filter(Boolean)));
+}
+
+/**
+ * Filter library rates by every word of the search term across description, tags, unit and linked product
+ */
+export function searchBoqRates<T extends BOQRate>(rates: T[] = [], term: string): T[] {
+  const words = key(term).split(/\s+/).filter(Boolean);
+  const active = rates.filter(r => r.is_active !== false);
+  if (words.length === 0) return active;
+  return active.filter(r => {
+    const haystack = [
+      r.description,
+      ...(r.tags || []),
+      r.units?.name,
+      r.units?.abbreviation,
+      r.products?.name,
+      r.products?.product_code,
+    ].map(key).join(' ');
+    return words.every(w => haystack.includes(w));
+  });
+}
+
+/**
+ * Library entry for a BOQ item: the linked entry first, otherwise the same description and unit
+ */
+export function findLibraryRate<T extends BOQRate>(item: BoqItem, rates: T[] = []): T | null {
+  if (item.rate_library_id) {
+    const linked = rates.find(r => r.id === item.rate_library_id);
+    if (linked) return linked;
+  }
+  return rates.find(r =>
+    r.is_active !== false &&
+    key(r.description) === key(item.description) &&
+    (r.unit_id || '') === (item.unit_id || '')
+  ) || null;
+}
+
+/**
+ * Measured items whose rate no longer matches the current library rate
+ */
+export function findRateDrift(doc: Pick<BoqDocument, 'sections'> | null | undefined, rates: BOQRate[] = []): BoqRateDrift[] {
+  const drift: BoqRateDrift[] = [];
+  (doc?.sections || []).forEach((section, sectionIndex) => {
+    (section.items || []).forEach((item, itemIndex) => {
+      if (boqItemKind(item) !== 'measured' || !item.description) return;
+      const library = findLibraryRate(item, rates);
+      if (!library) return;
+      const libraryRate = Number(library.default_rate || 0);
+      if (Math.abs(libraryRate - Number(item.rate || 0)) < 0.005) return;
+      drift.push({ sectionIndex, itemIndex, description: item.description, rate: Number(item.rate || 0), libraryRate, libraryId: library.id });
+    });
+  });
+  return drift;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { diffBoqRevisions, revisionLabel } from '@/utils/boqRevisions';
+import { boq } from '@/test/fixtures';
+
+describe('revisionLabel', () => {
+  it('letters revisions like spreadsheet columns', () => {
+    expect(revisionLabel(1)).toBe('Rev A');
+    expect(revisionLabel(26)).toBe('Rev Z');
+    expect(revisionLabel(27)).toBe('Rev AA');
+    expect(revisionLabel(0)).toBe('Rev A');
+  });
+});
+
+describe('diffBoqRevisions', () => {
+  it('reports added, removed, changed and unchanged items with their amount deltas', () => {
+    const before = boq([{ title: 'Bill 1', items: [
+      { description: 'Excavation', quantity: 10, rate: 100 },
+      { description: 'Hardcore', quantity: 5, rate: 200 },
+      { description: 'Blinding', quantity: 1, rate: 500 },
+    ] }]);
+    const after = boq([{ title: 'BILL 1', items: [
+      { description: 'excavation ', quantity: 12, rate: 100 },
+      { description: 'Hardcore', quantity: 5, rate: 200 },
+      { description: 'Termite treatment', quantity: 1, rate: 800 },
+    ] }]);
+
+    const [section] = diffBoqRevisions(before, after);
+
+    expect(section.type).toBe('changed');
+    expect(section.totalBefore).toBe(2500);
+    expect(section.totalAfter).toBe(3000);
+    expect(section.items.map(item => [item.type, item.description, item.amountDelta])).toEqual([
+      ['changed', 'excavation ', 200],
+      ['unchanged', 'Hardcore', 0],
+      ['added', 'Termite treatment', 800],
+      ['removed', 'Blinding', -500],
+    ]);
+    expect(section.items[0].changedFields).toEqual(['quantity']);
+  });
+
+  it('flags a percentage line whose basis moved even though the line is untouched', () => {
+    const before = boq([
+      { id: 's1', title: 'Works', items: [{ description: 'Walling', quantity: 10, rate: 100 }] },
+      { id: 's2', title: 'Contingency', items: [{ description: 'Contingency', kind: 'percentage', percentage: 10 }] },
+    ]);
+    const after = boq([
+      { id: 's1', title: 'Works', items: [{ description: 'Walling', quantity: 20, rate: 100 }] },
+      { id: 's2', title: 'Contingency', items: [{ description: 'Contingency', kind: 'percentage', percentage: 10 }] },
+    ]);
+
+    const contingency = diffBoqRevisions(before, after)[1].items[0];
+
+    expect(contingency.type).toBe('changed');
+    expect(contingency.changedFields).toEqual(['amount']);
+    expect(contingency.amountDelta).toBe(100);
+  });
+
+  it('lists sections missing from the new revision as removed', () => {
+    const before = boq([
+      { title: 'Bill 1', items: [{ description: 'A', quantity: 1, rate: 10 }] },
+      { title: 'Bill 2', items: [{ description: 'B', quantity: 1, rate: 20 }] },
+    ]);
+    const after = boq([{ title: 'Bill 1', items: [{ description: 'A', quantity: 1, rate: 10 }] }]);
+
+    const diff = diffBoqRevisions(before, after);
+
+    expect(diff.map(section => [section.type, section.title, section.totalBefore, section.totalAfter])).toEqual([
+      ['unchanged', 'Bill 1', 10, 10],
+      ['removed', 'Bill 2', 20, 0],
+    ]);
+    expect(diff[1].items[0]).toMatchObject({ type: 'removed', amountDelta: -20 });
+  });
+
+  it('treats everything as added when there is no earlier revision', () => {
+    const diff = diffBoqRevisions(null, boq([{ items: [{ description: 'A', quantity: 2, rate: 5 }] }]));
+
+    expect(diff).toEqual([expect.objectContaining({ type: 'added', title: 'Section 1', totalBefore: 0, totalAfter: 10 })]);
+  });
+});
@@ -0,0 +1,130 @@
+import type { BoqDocument, BoqItem } from '@/utils/boqPdfGenerator';
+import { boqItemKind, computeBoqTotals } from '@/utils/boqTotals';
+
+/**
+ * Convert a 1-based revision number into a letter label: 1 -> A, 26 -> Z, 27 -> AA
+ */
+export function revisionLabel(revisionNumber: number): string {
+  let n = Math.max(1, Math.floor(revisionNumber || 1));
+  let label = '';
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    label = String.fromCharCode(65 + rem) + label;
+    n = Math.floor((n - 1) / 26);
+  }
+  return `Rev ${label}`;
+}
+
+export type BoqChangeType = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface BoqItemDiff {
+  type: BoqChangeType;
+  description: string;
+  before?: BoqItem;
+  after?: BoqItem;
+  changedFields: Array<'quantity' | 'rate' | 'unit' | 'type' | 'percentage' | 'amount'>;
+  amountDelta: number;
+}
+
+export interface BoqSectionDiff {
+  type: BoqChangeType;
+  title: string;
+  items: BoqItemDiff[];
+  totalBefore: number;
+  totalAfter: number;
+}
+
+// Computed item amounts for both revisions; percentage lines depend on the whole document
+type AmountLookup = Map<BoqItem, number>;
+
+const buildAmounts = (doc: BoqDocument | null | undefined): AmountLookup => {
+  const amounts: AmountLookup = new Map();
+  const totals = computeBoqTotals({ sections: doc?.sections || [] });
+  (doc?.sections || []).forEach((sec, sIdx) => (sec.items || []).forEach((it, iIdx) => amounts.set(it, totals.sections[sIdx].itemAmounts[iIdx])));
+  return amounts;
+};
+
+const itemUnit = (it?: BoqItem) => (it ? it.unit_id || it.unit_name || it.unit || '' : '');
+
+const key = (s?: string) => (s || '').trim().toLowerCase();
+
+function diffItems(before: BoqItem[], after: BoqItem[], amounts: AmountLookup): BoqItemDiff[] {
+  const itemAmount = (it: BoqItem) => amounts.get(it) || 0;
+  const diffs: BoqItemDiff[] = [];
+  const remaining = [...before];
+
+  after.forEach((a) => {
+    const idx = remaining.findIndex(b => key(b.description) === key(a.description));
+    if (idx === -1) {
+      diffs.push({ type: 'added', description: a.description, after: a, changedFields: [], amountDelta: itemAmount(a) });
+      return;
+    }
+    const [b] = remaining.splice(idx, 1);
+    const changedFields: BoqItemDiff['changedFields'] = [];
+    if (Number(b.quantity ?? 1) !== Number(a.quantity ?? 1)) changedFields.push('quantity');
+    if (Number(b.rate ?? 0) !== Number(a.rate ?? 0)) changedFields.push('rate');
+    if (itemUnit(b) !== itemUnit(a)) changedFields.push('unit');
+    if (boqItemKind(b) !== boqItemKind(a)) changedFields.push('type');
+    if (Number(b.percentage ?? 0) !== Number(a.percentage ?? 0)) changedFields.push('percentage');
+    // A percentage line moves with the bills it is based on even when the line itself is untouched
+    if (changedFields.length === 0 && itemAmount(b) !== itemAmount(a)) changedFields.push('amount');
+    diffs.push({
+      type: changedFields.length > 0 ? 'changed' : 'unchanged',
+      description: a.description,
+      before: b,
+      after: a,
+      changedFields,
+      amountDelta: itemAmount(a) - itemAmount(b),
+    });
+  });
+
+  remaining.forEach((b) => {
+    diffs.push({ type: 'removed', description: b.description, before: b, changedFields: [], amountDelta: -itemAmount(b) });
+  });
+
+  return diffs;
+}
+
+/**
+ * Compare two BOQ revisions section by section. Sections are matched on title, falling back to position
+ * for untitled sections; items are matched on description within a section.
+ */
+export function diffBoqRevisions(before: BoqDocument | null | undefined, after: BoqDocument | null | undefined): BoqSectionDiff[] {
+  const beforeSections = [...(before?.sections || [])];
+  const afterSections = after?.sections || [];
+  const result: BoqSectionDiff[] = [];
+  // Items are distinct objects per revision, so one lookup serves both sides
+  const amounts = new Map([...buildAmounts(before), ...buildAmounts(after)]);
+  const itemAmount = (it: BoqItem) => amounts.get(it) || 0;
+
+  afterSections.forEach((section, index) => {
+    let idx = section.title ? beforeSections.findIndex(s => key(s.title) === key(section.title)) : -1;
+    if (idx === -1 && !section.title && beforeSections[index] && !beforeSections[index].title) idx = index;
+
+    const match = idx >= 0 ? beforeSections.splice(idx, 1)[0] : undefined;
+    const items = diffItems(match?.items || [], section.items || [], amounts);
+    const totalBefore = (match?.items || []).reduce((s, it) => s + itemAmount(it), 0);
+    const totalAfter = (section.items || []).reduce((s, it) => s + itemAmount(it), 0);
+
+    result.push({
+      type: !match ? 'added' : items.some(i => i.type !== 'unchanged') ? 'changed' : 'unchanged',
+      title: section.title || `Section ${index + 1}`,
+      items,
+      totalBefore,
+      totalAfter,
+    });
+  });
+
+  beforeSections.forEach((section, index) => {
+    const totalBefore = (section.items || []).reduce((s, it) => s + itemAmount(it), 0);
+    result.push({
+      type: 'removed',
+      title: section.title || `Removed section ${index + 1}`,
+      items: diffItems(section.items || [], [], amounts),
+      totalBefore,
+      totalAfter: 0,
+    });
+  });
+
+  return result;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { boqBaseAmount, boqItemKind, boqPercentageBasis, boqSectionLabel, computeBoqTotals } from '@/utils/boqTotals';
+import { boq } from '@/test/fixtures';
+
+describe('boq item helpers', () => {
+  it('treats items without a kind as measured', () => {
+    expect(boqItemKind({ description: 'Excavation' })).toBe('measured');
+    expect(boqItemKind({ description: 'Electrical', kind: 'provisional' })).toBe('provisional');
+  });
+
+  it('numbers untitled bills', () => {
+    expect(boqSectionLabel({ title: 'Substructure', items: [] }, 0)).toBe('Substructure');
+    expect(boqSectionLabel({ items: [] }, 2)).toBe('Bill 3');
+  });
+
+  it('prices from quantity and rate, or from the amount of a lump sum', () => {
+    expect(boqBaseAmount({ description: 'Walling', quantity: 4, rate: 125.5 })).toBe(502);
+    expect(boqBaseAmount({ description: 'Preliminaries', amount: 1500 })).toBe(1500);
+    expect(boqBaseAmount({ description: 'Rate wins', quantity: 2, rate: 100, amount: 999 })).toBe(200);
+    expect(boqBaseAmount({ description: 'Blank' })).toBe(0);
+  });
+});
+
+describe('boqPercentageBasis', () => {
+  const doc = boq([
+    { id: 's1', items: [{ description: 'Concrete', quantity: 10, rate: 100 }, { description: 'Overheads', kind: 'percentage', percentage: 5 }] },
+    { id: 's2', items: [{ description: 'Electrical', kind: 'provisional', amount: 500 }] },
+  ]);
+
+  it('sums the chosen bills and ignores other percentage lines', () => {
+    expect(boqPercentageBasis(doc, { description: 'Contingency', kind: 'percentage', percentage: 10, basis_section_ids: ['s1'] })).toBe(1000);
+  });
+
+  it('uses every bill when none are chosen', () => {
+    expect(boqPercentageBasis(doc, { description: 'Contingency', kind: 'percentage', percentage: 10 })).toBe(1500);
+  });
+});
+
+describe('computeBoqTotals', () => {
+  it('splits each bill by kind and builds the collection', () => {
+    const totals = computeBoqTotals(boq([
+      { id: 's1', title: 'Substructure', items: [
+        { description: 'Excavation', quantity: 3, rate: 333.33 },
+        { description: 'Electrical', kind: 'provisional', amount: 2000 },
+        { description: 'Sanitary fittings', kind: 'prime_cost', amount: 1500 },
+      ] },
+      { id: 's2', items: [
+        { description: 'Contingency', kind: 'percentage', percentage: 5, basis_section_ids: ['s1'] },
+      ] },
+    ]));
+
+    expect(totals.sections[0]).toMatchObject({
+      title: 'Substructure',
+      itemAmounts: [999.99, 2000, 1500],
+      measured: 999.99,
+      provisional: 2000,
+      primeCost: 1500,
+      percentage: 0,
+      subtotal: 4499.99,
+    });
+    expect(totals.sections[1]).toMatchObject({ title: 'Bill 2', itemAmounts: [225], percentage: 225, subtotal: 225 });
+    expect(totals).toMatchObject({ measured: 999.99, provisional: 2000, primeCost: 1500, percentage: 225, total: 4724.99 });
+  });
+
+  it('rounds percentage lines to the cent', () => {
+    const totals = computeBoqTotals(boq([
+      { items: [{ description: 'Roofing', quantity: 1, rate: 333.33 }, { description: 'Contingency', kind: 'percentage', percentage: 2.5 }] },
+    ]));
+
+    expect(totals.sections[0].itemAmounts).toEqual([333.33, 8.33]);
+    expect(totals.total).toBe(341.66);
+  });
+
+  it('is all zero for an empty BOQ', () => {
+    expect(computeBoqTotals(boq([]))).toEqual({ sections: [], measured: 0, provisional: 0, primeCost: 0, percentage: 0, total: 0 });
+  });
+});
@@ -0,0 +1,107 @@
+import type { BoqDocument, BoqItem, BoqItemKind, BoqSection } from '@/utils/boqPdfGenerator';
+
+export const BOQ_ITEM_KIND_LABELS: Record<BoqItemKind, string> = {
+  measured: 'Measured',
+  provisional: 'Provisional Sum',
+  prime_cost: 'PC Sum',
+  percentage: 'Percentage',
+};
+
+export interface BoqSectionTotals {
+  id?: string;
+  title: string;
+  itemAmounts: number[]; // same order as section.items
+  measured: number;
+  provisional: number;
+  primeCost: number;
+  percentage: number;
+  subtotal: number;
+}
+
+export interface BoqTotals {
+  sections: BoqSectionTotals[];
+  measured: number;
+  provisional: number;
+  primeCost: number;
+  percentage: number;
+  total: number;
+}
+
+const safeN = (v: unknown) => {
+  const n = Number(v);
+  return isNaN(n) ? 0 : n;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const boqItemKind = (item?: BoqItem): BoqItemKind => item?.kind || 'measured';
+
+export const boqSectionLabel = (section: BoqSection, index: number) => section.title || `Bill ${index + 1}`;
+
+/**
+ * Amount of a measured, provisional or PC item. Lump sums may only carry an amount.
+ */
+export function boqBaseAmount(item: BoqItem): number {
+  const qty = safeN(item.quantity ?? 1);
+  const rate = safeN(item.rate ?? 0);
+  if (item.amount !== undefined && item.amount !== null && !item.rate) return safeN(item.amount);
+  return qty * rate;
+}
+
+/**
+ * Sum of the non-percentage items in the bills a percentage line applies to; no selection means every bill
+ */
+export function boqPercentageBasis(doc: Pick<BoqDocument, 'sections'>, item: BoqItem): number {
+  const ids = item.basis_section_ids || [];
+  return (doc.sections || [])
+    .filter(sec => ids.length === 0 || (sec.id && ids.includes(sec.id)))
+    .reduce((sum, sec) => sum + (sec.items || [])
+      .filter(it => boqItemKind(it) !== 'percentage')
+      .reduce((s, it) => s + boqBaseAmount(it), 0), 0);
+}
+
+/**
+ * Compute per-bill subtotals and the collection totals. Percentage lines are computed from the
+ * measured, provisional and PC items of their chosen bills, never from other percentage lines.
+ */
+export function computeBoqTotals(doc: Pick<BoqDocument, 'sections'>): BoqTotals {
+  const sections = (doc?.sections || []).map((section, index) => {
+    const totals: BoqSectionTotals = {
+      id: section.id,
+      title: boqSectionLabel(section, index),
+      itemAmounts: [],
+      measured: 0,
+      provisional: 0,
+      primeCost: 0,
+      percentage: 0,
+      subtotal: 0,
+    };
+
+    (section.items || []).forEach((item) => {
+      const kind = boqItemKind(item);
+      const amount = round2(kind === 'percentage'
+        ? boqPercentageBasis(doc, item) * safeN(item.percentage) / 100
+        : boqBaseAmount(item));
+      totals.itemAmounts.push(amount);
+      if (kind === 'provisional') totals.provisional += amount;
+      else if (kind === 'prime_cost') totals.primeCost += amount;
+      else if (kind === 'percentage') totals.percentage += amount;
+      else totals.measured += amount;
+    });
+
+    totals.subtotal = round2(totals.measured + totals.provisional + totals.primeCost + totals.percentage);
+    return totals;
+  });
+
+  const sum = (key: keyof Pick<BoqSectionTotals, 'measured' | 'provisional' | 'primeCost' | 'percentage' | 'subtotal'>) =>
+    round2(sections.reduce((s, sec) => s + sec[key], 0));
+
+  return {
+    sections,
+    measured: sum('measured'),
+    provisional: sum('provisional'),
+    primeCost: sum('primeCost'),
+    percentage: sum('percentage'),
+    total: sum('subtotal'),
+  };
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildValuationLines,
+  certificateLabel,
+  computeCertificate,
+  valuationLineValue,
+  valuationLineWarning,
+  type ValuationLine,
+} from '@/utils/boqValuation';
+import { boq } from '@/test/fixtures';
+
+const line = (overrides: Partial<ValuationLine>): ValuationLine => ({
+  key: '0:0',
+  section_title: 'Bill 1',
+  description: 'Walling',
+  unit: 'm2',
+  contract_quantity: 100,
+  rate: 50,
+  contract_amount: 5000,
+  mode: 'quantity',
+  cumulative_quantity: 0,
+  cumulative_percent: 0,
+  previous_value: 0,
+  ...overrides,
+});
+
+describe('certificateLabel', () => {
+  it('pads the valuation number', () => {
+    expect(certificateLabel(3)).toBe('IPC No. 03');
+    expect(certificateLabel(12)).toBe('IPC No. 12');
+  });
+});
+
+describe('valuationLineValue', () => {
+  it('values by quantity at the rate or by percent of the contract amount', () => {
+    expect(valuationLineValue(line({ cumulative_quantity: 12.5 }))).toBe(625);
+    expect(valuationLineValue(line({ mode: 'percent', contract_amount: 3333.33, cumulative_percent: 33 }))).toBe(1100);
+  });
+});
+
+describe('buildValuationLines', () => {
+  const doc = boq([
+    { title: 'Substructure', items: [
+      { description: 'Excavation', quantity: 3, rate: 333.33, unit_name: 'm3' },
+      { description: '' },
+      { description: 'Electrical', kind: 'provisional', amount: 2000 },
+    ] },
+    { items: [{ description: 'Contingency', kind: 'percentage', percentage: 10 }] },
+  ]);
+
+  it('values measured items by quantity and sums and percentages by percent', () => {
+    expect(buildValuationLines(doc).map(l => [l.key, l.unit, l.mode, l.contract_quantity, l.rate, l.contract_amount])).toEqual([
+      ['0:0', 'm3', 'quantity', 3, 333.33, 999.99],
+      ['0:2', 'Sum', 'percent', 1, 2000, 2000],
+      ['1:0', '%', 'percent', 1, 300, 300],
+    ]);
+  });
+
+  it('carries progress and the previous value forward by item key', () => {
+    const previous = [
+      line({ key: '0:0', cumulative_quantity: 2, rate: 333.33 }),
+      line({ key: '0:2', mode: 'percent', contract_amount: 2000, cumulative_percent: 25 }),
+    ];
+
+    const lines = buildValuationLines(doc, [], previous);
+
+    expect(lines[0]).toMatchObject({ cumulative_quantity: 2, previous_value: 666.66 });
+    expect(lines[1]).toMatchObject({ cumulative_percent: 25, previous_value: 500 });
+    expect(lines[2]).toMatchObject({ cumulative_percent: 0, previous_value: 0 });
+  });
+});
+
+describe('computeCertificate', () => {
+  it('deducts retention and previous certificates from the value to date', () => {
+    const lines = [
+      line({ cumulative_quantity: 60, previous_value: 2000 }),
+      line({ key: '0:1', mode: 'percent', contract_amount: 10000, cumulative_percent: 50, previous_value: 2500 }),
+    ];
+
+    expect(computeCertificate(lines, 5, 4275)).toEqual({
+      gross_value: 8000,
+      period_value: 3500,
+      retention_amount: 400,
+      net_value: 7600,
+      previous_certified: 4275,
+      amount_due: 3325,
+    });
+  });
+
+  it('rounds retention to the cent', () => {
+    expect(computeCertificate([line({ cumulative_quantity: 3.33 })], 2.5, 0)).toMatchObject({
+      gross_value: 166.5,
+      retention_amount: 4.16,
+      net_value: 162.34,
+      amount_due: 162.34,
+    });
+  });
+});
+
+describe('valuationLineWarning', () => {
+  it('warns about over-valuation and going backwards', () => {
+    expect(valuationLineWarning(line({ mode: 'percent', cumulative_percent: 101 }))).toBe('Exceeds 100%');
+    expect(valuationLineWarning(line({ cumulative_quantity: 101 }))).toBe('Exceeds BOQ quantity');
+    expect(valuationLineWarning(line({ cumulative_quantity: 10, previous_value: 600 }))).toBe('Less than previous valuation');
+    expect(valuationLineWarning(line({ cumulative_quantity: 100, previous_value: 600 }))).toBeNull();
+  });
+});
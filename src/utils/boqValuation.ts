@@ -0,0 +1,112 @@
+import type { BoqDocument } from '@/utils/boqPdfGenerator';
+import type { Unit } from '@/hooks/useDatabase';
+import { resolveBoqUnit } from '@/utils/boqConverter';
+import { boqItemKind, computeBoqTotals } from '@/utils/boqTotals';
+
+// quantity: cumulative measured quantity; percent: cumulative percentage of the item's contract amount
+export type ValuationMode = 'quantity' | 'percent';
+
+// A type alias so the lines can be stored in the boq_valuations.items JSON column
+export type ValuationLine = {
+  key: string; // "<section index>:<item index>" in the BOQ the valuation was taken against
+  section_title: string;
+  description: string;
+  unit: string;
+  contract_quantity: number;
+  rate: number;
+  contract_amount: number;
+  mode: ValuationMode;
+  cumulative_quantity: number;
+  cumulative_percent: number;
+  previous_value: number; // value to date on the previous valuation
+};
+
+export interface CertificateTotals {
+  gross_value: number;
+  period_value: number;
+  retention_amount: number;
+  net_value: number;
+  previous_certified: number;
+  amount_due: number;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * IPC numbering shown on certificates: 1 -> "IPC No. 01"
+ */
+export const certificateLabel = (valuationNumber: number) => `IPC No. ${String(valuationNumber).padStart(2, '0')}`;
+
+/**
+ * Value of work done to date for a line
+ */
+export function valuationLineValue(line: ValuationLine): number {
+  if (line.mode === 'percent') return round2(line.contract_amount * (Number(line.cumulative_percent) || 0) / 100);
+  return round2((Number(line.cumulative_quantity) || 0) * line.rate);
+}
+
+/**
+ * Build valuation lines from a BOQ, carrying cumulative progress forward from the previous valuation.
+ * Measured items are valued by quantity; sums and percentage lines by percent complete.
+ */
+export function buildValuationLines(doc: BoqDocument | null | undefined, units: Pick<Unit, 'id' | 'name' | 'abbreviation'>[] = [], previous: ValuationLine[] = []): ValuationLine[] {
+  const totals = computeBoqTotals({ sections: doc?.sections || [] });
+  const prevByKey = new Map(previous.map(l => [l.key, l]));
+  const lines: ValuationLine[] = [];
+
+  (doc?.sections || []).forEach((section, sIdx) => {
+    (section.items || []).forEach((item, iIdx) => {
+      if (!item.description) return;
+      const key = `${sIdx}:${iIdx}`;
+      const kind = boqItemKind(item);
+      const contractAmount = totals.sections[sIdx].itemAmounts[iIdx];
+      const contractQuantity = kind === 'measured' ? Number(item.quantity ?? 1) : 1;
+      const prev = prevByKey.get(key);
+
+      lines.push({
+        key,
+        section_title: totals.sections[sIdx].title,
+        description: item.description,
+        unit: kind === 'measured' ? resolveBoqUnit(item, units) : kind === 'percentage' ? '%' : 'Sum',
+        contract_quantity: contractQuantity,
+        rate: contractQuantity ? round2(contractAmount / contractQuantity) : 0,
+        contract_amount: contractAmount,
+        mode: prev?.mode || (kind === 'measured' ? 'quantity' : 'percent'),
+        cumulative_quantity: prev ? Number(prev.cumulative_quantity) || 0 : 0,
+        cumulative_percent: prev ? Number(prev.cumulative_percent) || 0 : 0,
+        previous_value: prev ? valuationLineValue(prev) : 0,
+      });
+    });
+  });
+
+  return lines;
+}
+
+/**
+ * Certificate figures: gross value to date less retention gives the net certified to date;
+ * previous certificates are deducted to arrive at the amount due this period.
+ */
+export function computeCertificate(lines: ValuationLine[], retentionPercentage: number, previousCertified: number): CertificateTotals {
+  const gross = round2(lines.reduce((sum, l) => sum + valuationLineValue(l), 0));
+  const previousGross = round2(lines.reduce((sum, l) => sum + (Number(l.previous_value) || 0), 0));
+  const retention = round2(gross * (Number(retentionPercentage) || 0) / 100);
+  const net = round2(gross - retention);
+  return {
+    gross_value: gross,
+    period_value: round2(gross - previousGross),
+    retention_amount: retention,
+    net_value: net,
+    previous_certified: round2(previousCertified),
+    amount_due: round2(net - previousCertified),
+  };
+}
+
+/**
+ * Warnings for a line: over 100%, more than the contract quantity, or less than previously valued
+ */
+export function valuationLineWarning(line: ValuationLine): string | null {
+  if (line.mode === 'percent' && line.cumulative_percent > 100) return 'Exceeds 100%';
+  if (line.mode === 'quantity' && line.cumulative_quantity > line.contract_quantity) return 'Exceeds BOQ quantity';
+  if (valuationLineValue(line) < line.previous_value) return 'Less than previous valuation';
+  return null;
+}
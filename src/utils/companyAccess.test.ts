@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { accessibleCompanies, companyRole } from '@/utils/companyAccess';
+import type { Company } from '@/hooks/useDatabase';
+
+const companies = [{ id: 'c1', name: 'Layons' }, { id: 'c2', name: 'Layons Kisumu' }, { id: 'c3', name: 'Other' }] as Company[];
+
+describe('accessibleCompanies', () => {
+  it('lists the companies the user is a member of', () => {
+    expect(accessibleCompanies(companies, [{ company_id: 'c2' }, { company_id: 'c3' }], { company_id: 'c1' }).map(c => c.id)).toEqual(['c2', 'c3']);
+  });
+
+  it('falls back to the home company, then to every company', () => {
+    expect(accessibleCompanies(companies, [], { company_id: 'c1' }).map(c => c.id)).toEqual(['c1']);
+    expect(accessibleCompanies(companies, [], { company_id: null }).map(c => c.id)).toEqual(['c1', 'c2', 'c3']);
+    expect(accessibleCompanies(undefined, [], null)).toEqual([]);
+  });
+});
+
+describe('companyRole', () => {
+  const profile = { company_id: 'c1', role: 'admin' };
+
+  it('uses the membership role for the company', () => {
+    expect(companyRole('c1', [{ company_id: 'c1', role: 'accountant' }], profile)).toBe('accountant');
+    expect(companyRole('c2', [{ company_id: 'c2', role: 'stock_manager' }], profile)).toBe('stock_manager');
+  });
+
+  it('falls back to the profile role for the home company only', () => {
+    expect(companyRole('c1', [], profile)).toBe('admin');
+    expect(companyRole('c2', [], profile)).toBeNull();
+    expect(companyRole('c2', [{ company_id: 'c1', role: 'user' }], profile)).toBeNull();
+  });
+
+  it('has no role without a company', () => {
+    expect(companyRole(null, [], profile)).toBeNull();
+  });
+});
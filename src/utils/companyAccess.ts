@@ -0,0 +1,36 @@
+import type { Company, UserCompany } from '@/hooks/useDatabase';
+
+interface ProfileLike {
+  company_id?: string | null;
+  role?: string | null;
+}
+
+/**
+ * Companies the user can switch between. Users without membership rows fall back to their home
+ * company, or to every company on installs that have not assigned profiles to a company yet.
+ */
+export function accessibleCompanies(
+  allCompanies: Company[] = [],
+  memberships: Pick<UserCompany, 'company_id'>[] = [],
+  profile?: ProfileLike | null
+): Company[] {
+  const membershipIds = memberships.map(m => m.company_id);
+  if (membershipIds.length > 0) return allCompanies.filter(company => membershipIds.includes(company.id));
+  const homeCompanies = allCompanies.filter(company => company.id === profile?.company_id);
+  return homeCompanies.length > 0 ? homeCompanies : allCompanies;
+}
+
+/**
+ * Same rule as company_role() on the server: the membership role, else the profile role for the
+ * user's home company only. Any other company without a membership row gives no role.
+ */
+export function companyRole(
+  companyId: string | null | undefined,
+  memberships: Pick<UserCompany, 'company_id' | 'role'>[] = [],
+  profile?: ProfileLike | null
+): string | null {
+  if (!companyId) return null;
+  const membership = memberships.find(m => m.company_id === companyId);
+  if (membership) return membership.role || null;
+  return companyId === profile?.company_id ? profile?.role || null : null;
+}
@@ -1,4 +1,5 @@
 import type { CreditNote } from '@/hooks/useCreditNotes';
+import type { EtimsPrintDetails } from '@/utils/pdfGenerator';
 
 export interface CreditNotePDFData extends CreditNote {
   customers: {
@@ -52,7 +53,7 @@ const DEFAULT_COMPANY: CompanyData = {
   logo_url: 'https://cdn.builder.io/api/v1/image/assets%2Fb048b36350454e4dba55aefd37788f9c%2Fbd04dab542504461a2451b061741034c?format=webp&width=800'
 };
 
-export const generateCreditNotePDF = (creditNote: CreditNotePDFData, company?: CompanyData) => {
+export const generateCreditNotePDF = (creditNote: CreditNotePDFData, company?: CompanyData, etims?: EtimsPrintDetails) => {
   // Use company details from parameter or fall back to defaults
   const companyData = company || DEFAULT_COMPANY;
   
@@ -401,6 +402,28 @@ export const generateCreditNotePDF = (creditNote: CreditNotePDFData, company?: C
           white-space: pre-wrap;
         }
         
+        .etims-section {
+          margin-top: 15px;
+          display: flex;
+          align-items: center;
+          gap: 15px;
+          padding: 10px;
+          border: 1px solid #dee2e6;
+          font-size: 10px;
+          page-break-inside: avoid;
+        }
+
+        .etims-section img {
+          width: 90px;
+          height: 90px;
+        }
+
+        .etims-section .etims-title {
+          font-weight: bold;
+          font-size: 11px;
+          margin-bottom: 4px;
+        }
+
         .footer {
           position: absolute;
           bottom: 20mm;
@@ -595,6 +618,19 @@ export const generateCreditNotePDF = (creditNote: CreditNotePDFData, company?: C
           ` : ''}
         </div>
         ` : ''}
+
+        <!-- KRA eTIMS control unit details -->
+        ${etims ? `
+        <div class="etims-section">
+          ${etims.qr_image ? `<img src="${etims.qr_image}" alt="eTIMS QR code" />` : ''}
+          <div>
+            <div class="etims-title">KRA eTIMS</div>
+            <div>CU Serial No: ${etims.cu_serial_number}</div>
+            <div>CU Invoice No: ${etims.cu_invoice_number}</div>
+            <div>Signature: ${etims.signature}</div>
+          </div>
+        </div>
+        ` : ''}
         
         <!-- Footer -->
         <div class="footer">
@@ -98,3 +98,321 @@ export const exportCustomerStatementSummaryToCSV = (statements: CustomerStatemen
     document.body.removeChild(link);
   }
 };
+
+export interface SupplierAgingData {
+  supplierName: string;
+  supplierCode: string;
+  paymentTerms: number;
+  openBills: number;
+  unallocatedCredit: number;
+  netBalance: number;
+  agingAnalysis: {
+    current: number;
+    days30: number;
+    days60: number;
+    days90: number;
+    total: number;
+  };
+}
+
+export const exportSupplierAgingToCSV = (rows: SupplierAgingData[], filename?: string) => {
+  const headers = [
+    'Supplier Code',
+    'Supplier Name',
+    'Terms (days)',
+    'Open Bills',
+    'Current',
+    '1-30 Days',
+    '31-60 Days',
+    '60+ Days',
+    'Total Payable',
+    'Unallocated Credit',
+    'Net Balance'
+  ];
+
+  const csvData = rows.map(row => [
+    row.supplierCode,
+    row.supplierName,
+    row.paymentTerms.toString(),
+    row.openBills.toString(),
+    row.agingAnalysis.current.toFixed(2),
+    row.agingAnalysis.days30.toFixed(2),
+    row.agingAnalysis.days60.toFixed(2),
+    row.agingAnalysis.days90.toFixed(2),
+    row.agingAnalysis.total.toFixed(2),
+    row.unallocatedCredit.toFixed(2),
+    row.netBalance.toFixed(2)
+  ]);
+
+  const csvContent = [
+    headers.join(','),
+    ...csvData.map(row => row.map(field => `"${field}"`).join(','))
+  ].join('\n');
+
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+
+  if (link.download !== undefined) {
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', filename || `supplier-aging-${new Date().toISOString().split('T')[0]}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  }
+};
+
+export interface AuditLogExportRow {
+  timestamp: string;
+  user: string;
+  action: string;
+  entity: string;
+  entityId: string;
+  changes: string;
+}
+
+export const exportAuditLogToCSV = (rows: AuditLogExportRow[], filename?: string) => {
+  const headers = ['Timestamp', 'User', 'Action', 'Entity', 'Entity ID', 'Changes'];
+
+  const csvData = rows.map(row => [
+    row.timestamp,
+    row.user,
+    row.action,
+    row.entity,
+    row.entityId,
+    row.changes
+  ]);
+
+  const csvContent = [
+    headers.join(','),
+    ...csvData.map(row => row.map(field => `"${String(field).replace(/"/g, '""')}"`).join(','))
+  ].join('\n');
+
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+
+  if (link.download !== undefined) {
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', filename || `audit-log-${new Date().toISOString().split('T')[0]}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  }
+};
+
+export interface BankReconciliationExportLine {
+  date: string;
+  description: string;
+  reference: string;
+  amount: number;
+  status: string;
+  payment: string;
+  reconciled: boolean;
+}
+
+export const exportBankReconciliationToCSV = (
+  accountName: string,
+  summary: [string, number | null][],
+  lines: BankReconciliationExportLine[],
+  filename?: string
+) => {
+  const escape = (field: string) => `"${String(field).replace(/"/g, '""')}"`;
+
+  const summaryRows = summary.map(([label, value]) => [label, value === null ? '' : value.toFixed(2)]);
+  const headers = ['Date', 'Description', 'Reference', 'Amount', 'Status', 'Payment', 'Reconciled'];
+  const lineRows = lines.map(line => [
+    line.date,
+    line.description,
+    line.reference,
+    line.amount.toFixed(2),
+    line.status,
+    line.payment,
+    line.reconciled ? 'Yes' : 'No'
+  ]);
+
+  const csvContent = [
+    escape(`Bank Reconciliation - ${accountName}`),
+    ...summaryRows.map(row => row.map(escape).join(',')),
+    '',
+    headers.join(','),
+    ...lineRows.map(row => row.map(escape).join(','))
+  ].join('\n');
+
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+
+  if (link.download !== undefined) {
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', filename || `bank-reconciliation-${new Date().toISOString().split('T')[0]}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  }
+};
+
+// Column layout of the iTax VAT3 sales (section B) and purchases (section F) schedules
+const VAT3_HEADERS = {
+  sales: [
+    'PIN of Purchaser',
+    'Name of Purchaser',
+    'ETR Serial Number',
+    'Invoice Date',
+    'Invoice Number',
+    'Description of Goods / Services',
+    'Taxable Value (Ksh)',
+    'Amount of VAT (Ksh)',
+    'Relevant Invoice Number',
+    'Relevant Invoice Date'
+  ],
+  purchases: [
+    'Type of Purchases',
+    'PIN of Supplier',
+    'Name of Supplier',
+    'ETR Serial Number',
+    'Invoice Date',
+    'Invoice Number',
+    'Description of Goods / Services',
+    'Custom Entry Number',
+    'Taxable Value (Ksh)',
+    'Amount of VAT (Ksh)',
+    'Relevant Invoice Number',
+    'Relevant Invoice Date'
+  ],
+};
+
+export const exportVat3ScheduleToCSV = (schedule: 'sales' | 'purchases', rows: string[][], month: string) => {
+  const escape = (field: string) => `"${String(field).replace(/"/g, '""')}"`;
+
+  const csvContent = [
+    VAT3_HEADERS[schedule].map(escape).join(','),
+    ...rows.map(row => row.map(escape).join(','))
+  ].join('\n');
+
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+
+  if (link.download !== undefined) {
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `vat3-${schedule}-${month}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  }
+};
+
+// General ledger exports in the flat layouts accounting packages import: one row per journal
+// line, the trial balance and the chart of accounts
+export interface JournalExportLine {
+  date: string;
+  entry_number: string;
+  source: string;
+  source_number: string;
+  account_code: string;
+  account_name: string;
+  description: string;
+  contact: string;
+  debit: number;
+  credit: number;
+}
+
+export interface TrialBalanceExportRow {
+  code: string;
+  name: string;
+  account_type: string;
+  debit: number;
+  credit: number;
+}
+
+export interface ChartOfAccountsExportRow {
+  code: string;
+  name: string;
+  account_type: string;
+  description: string;
+  is_active: boolean;
+}
+
+const downloadLedgerCSV = (rows: string[][], filename: string) => {
+  const escape = (field: string) => `"${String(field).replace(/"/g, '""')}"`;
+  const csvContent = rows.map(row => row.map(escape).join(',')).join('\n');
+
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+
+  if (link.download !== undefined) {
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', filename);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  }
+};
+
+export const exportJournalToCSV = (lines: JournalExportLine[], filename?: string) => {
+  downloadLedgerCSV([
+    ['Date', 'Journal No', 'Source', 'Reference', 'Account Code', 'Account Name', 'Description', 'Customer/Supplier', 'Debit', 'Credit'],
+    ...lines.map(line => [
+      line.date,
+      line.entry_number,
+      line.source,
+      line.source_number,
+      line.account_code,
+      line.account_name,
+      line.description,
+      line.contact,
+      line.debit ? line.debit.toFixed(2) : '',
+      line.credit ? line.credit.toFixed(2) : ''
+    ])
+  ], filename || `journal-${new Date().toISOString().split('T')[0]}.csv`);
+};
+
+export const exportTrialBalanceToCSV = (rows: TrialBalanceExportRow[], asOf: string, filename?: string) => {
+  const totalDebit = rows.reduce((sum, row) => sum + row.debit, 0);
+  const totalCredit = rows.reduce((sum, row) => sum + row.credit, 0);
+  downloadLedgerCSV([
+    ['Account Code', 'Account Name', 'Type', 'Debit', 'Credit'],
+    ...rows.map(row => [
+      row.code,
+      row.name,
+      row.account_type,
+      row.debit ? row.debit.toFixed(2) : '',
+      row.credit ? row.credit.toFixed(2) : ''
+    ]),
+    ['', 'Total', '', totalDebit.toFixed(2), totalCredit.toFixed(2)]
+  ], filename || `trial-balance-${asOf}.csv`);
+};
+
+export const exportChartOfAccountsToCSV = (rows: ChartOfAccountsExportRow[], filename?: string) => {
+  downloadLedgerCSV([
+    ['Account Code', 'Account Name', 'Type', 'Description', 'Active'],
+    ...rows.map(row => [row.code, row.name, row.account_type, row.description, row.is_active ? 'Yes' : 'No'])
+  ], filename || 'chart-of-accounts.csv');
+};
+
+export interface FinancialStatementExport {
+  title: string;
+  period_label: string;
+  columns: string[];
+  rows: { label: string; kind: string; values: (number | null)[] }[];
+}
+
+export const exportFinancialStatementToCSV = (statement: FinancialStatementExport, filename?: string) => {
+  const value = (kind: string, amount: number | null) =>
+    amount === null || amount === undefined ? '' : kind === 'ratio' ? `${amount.toFixed(2)}%` : amount.toFixed(2);
+
+  downloadLedgerCSV([
+    [statement.title],
+    [statement.period_label],
+    [],
+    ['', ...statement.columns],
+    ...statement.rows.map(row => [row.label, ...row.values.map(amount => value(row.kind, amount))])
+  ], filename || `${statement.title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${new Date().toISOString().split('T')[0]}.csv`);
+};
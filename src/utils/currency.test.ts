@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import {
+  baseTotal,
+  fromBase,
+  parseExchangeRateCSV,
+  rateOn,
+  realisedFxGainLoss,
+  toBase,
+  type ExchangeRate,
+} from '@/utils/currency';
+
+const rate = (currency_code: string, rate_date: string, value: number): ExchangeRate => ({
+  id: `${currency_code}-${rate_date}`,
+  company_id: 'co-1',
+  currency_code,
+  rate_date,
+  rate: value,
+  source: 'manual',
+});
+
+describe('base currency conversion', () => {
+  it('treats a missing rate as already in base currency', () => {
+    expect(toBase(100, null)).toBe(100);
+    expect(toBase(100, '')).toBe(100);
+    expect(fromBase(100, 0)).toBe(100);
+  });
+
+  it('converts to and from base at the stored rate, to the cent', () => {
+    expect(toBase(10.01, '129.555')).toBe(1296.85);
+    expect(fromBase(1295.5, 129.55)).toBe(10);
+  });
+
+  it('prefers the stored base total over recalculating it', () => {
+    expect(baseTotal({ total_amount: 100, exchange_rate: 130, base_total_amount: 12950 })).toBe(12950);
+    expect(baseTotal({ total_amount: 100, exchange_rate: 130 })).toBe(13000);
+    expect(baseTotal({ total_amount: 100 })).toBe(100);
+  });
+});
+
+describe('rateOn', () => {
+  const rates = [rate('USD', '2026-03-01', 129), rate('USD', '2026-03-10', 130), rate('EUR', '2026-03-05', 140)];
+
+  it('uses the latest rate on or before the date', () => {
+    expect(rateOn(rates, 'USD', '2026-03-09', 'KES')).toBe(129);
+    expect(rateOn(rates, 'USD', '2026-03-10', 'KES')).toBe(130);
+  });
+
+  it('is 1 for the base currency and null before any rate is known', () => {
+    expect(rateOn(rates, 'KES', '2026-03-09', 'KES')).toBe(1);
+    expect(rateOn(rates, 'EUR', '2026-03-01', 'KES')).toBeNull();
+  });
+});
+
+describe('realisedFxGainLoss', () => {
+  it('is a gain when the customer pays at a higher rate than the invoice', () => {
+    expect(realisedFxGainLoss(100, 131.5, 129)).toBe(250);
+  });
+
+  it('is a loss when the rate has fallen', () => {
+    expect(realisedFxGainLoss(33.33, 128, 129)).toBe(-33.33);
+  });
+
+  it('is zero at the same rate', () => {
+    expect(realisedFxGainLoss(100, 129, 129)).toBe(0);
+  });
+});
+
+describe('parseExchangeRateCSV', () => {
+  it('reads the CBK layout, maps currency names and keeps the last rate per day', () => {
+    const result = parseExchangeRateCSV([
+      'Date,Currency,Mean',
+      '05/03/2026,US DOLLAR,129.50',
+      '05/03/2026,STG POUND,"165.20"',
+      '05/03/2026,US DOLLAR,129.75',
+      '',
+      '05/03/2026,KES,1',
+      '05/03/2026,YEN,0.86',
+      'soon,EURO,140',
+      '05/03/2026,EURO,-1',
+    ].join('\n'));
+
+    expect(result.rates).toEqual([
+      { currency_code: 'GBP', rate_date: '2026-03-05', rate: 165.2 },
+      { currency_code: 'USD', rate_date: '2026-03-05', rate: 129.75 },
+    ]);
+    expect(result.errors).toEqual([
+      { row: 6, reason: 'KES is the base currency' },
+      { row: 7, reason: '"YEN" is not a supported currency' },
+      { row: 8, reason: '"soon" is not a date' },
+      { row: 9, reason: '"-1" is not a valid rate' },
+    ]);
+  });
+
+  it('reports a file without the expected header', () => {
+    expect(parseExchangeRateCSV('a,b\n1,2').errors).toEqual([
+      { row: 1, reason: 'No header row with date, currency and rate columns was found' },
+    ]);
+  });
+});
@@ -0,0 +1,183 @@
+import { parseCsv } from '@/utils/boqImport';
+import { parseStatementAmount, parseStatementDate, type StatementImportError } from '@/utils/bankStatementImport';
+
+// Documents are raised in any of these currencies; amounts are also kept in the company's base
+// currency (companies.currency) at the document's exchange rate. A rate is the number of base
+// currency units per one unit of the document currency (1 USD = 129.50 KES is stored as 129.50).
+
+export const SUPPORTED_CURRENCIES = [
+  { code: 'KES', name: 'Kenyan Shilling' },
+  { code: 'USD', name: 'US Dollar' },
+  { code: 'EUR', name: 'Euro' },
+  { code: 'GBP', name: 'British Pound' },
+  { code: 'UGX', name: 'Ugandan Shilling' },
+  { code: 'TZS', name: 'Tanzanian Shilling' },
+] as const;
+
+export type ExchangeRateSource = 'manual' | 'csv';
+
+export interface ExchangeRate {
+  id: string;
+  company_id: string;
+  currency_code: string;
+  rate_date: string;    // YYYY-MM-DD
+  rate: number;
+  source: ExchangeRateSource;
+  created_at?: string;
+}
+
+export interface ParsedExchangeRate {
+  currency_code: string;
+  rate_date: string;
+  rate: number;
+}
+
+export interface ParsedExchangeRates {
+  rates: ParsedExchangeRate[];
+  errors: StatementImportError[];
+}
+
+export interface DocumentCurrencyValue {
+  currency: string;
+  exchange_rate: number | null;   // base currency units per unit; null until a rate is known
+}
+
+// Which of a report's amounts to show: as raised, or converted to the base currency
+export type CurrencyView = 'document' | 'base';
+
+export interface CurrencyAmounts {
+  currency?: string | null;
+  exchange_rate?: number | string | null;
+  total_amount?: number | string | null;
+  base_total_amount?: number | string | null;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const baseCurrencyOf = (company?: { currency?: string | null } | null) => company?.currency || 'KES';
+
+export const documentCurrency = (doc: { currency?: string | null } | null | undefined, baseCurrency: string) =>
+  doc?.currency || baseCurrency;
+
+export function formatMoney(amount: number, currency: string = 'KES'): string {
+  try {
+    return new Intl.NumberFormat('en-KE', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 2
+    }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+export const toBase = (amount: number, rate: number | string | null | undefined) =>
+  round2(Number(amount || 0) * Number(rate || 1));
+
+// A base-currency price in a document's currency, e.g. a product's selling price on a USD quote
+export const fromBase = (amount: number, rate: number | string | null | undefined) =>
+  Number(rate) > 0 ? round2(Number(amount || 0) / Number(rate)) : Number(amount || 0);
+
+// A document's total in base currency; documents saved before multi-currency are already in base
+export const baseTotal = (doc: CurrencyAmounts) =>
+  doc.base_total_amount !== null && doc.base_total_amount !== undefined
+    ? Number(doc.base_total_amount)
+    : toBase(Number(doc.total_amount || 0), doc.exchange_rate);
+
+/**
+ * The rate in force for a currency on a date: the latest one on or before it, as the database
+ * applies it (exchange_rate_on). The base currency is always 1; null when no rate is known yet.
+ */
+export function rateOn(rates: ExchangeRate[], currency: string, date: string, baseCurrency: string): number | null {
+  if (currency === baseCurrency) return 1;
+  let best: ExchangeRate | null = null;
+  for (const rate of rates) {
+    if (rate.currency_code !== currency || rate.rate_date > date) continue;
+    if (!best || rate.rate_date > best.rate_date) best = rate;
+  }
+  return best ? Number(best.rate) : null;
+}
+
+/**
+ * Realised exchange difference when a payment settles part of a document raised at another rate,
+ * in base currency. Positive is a gain for a customer payment; for a supplier payment swap the
+ * rates.
+ */
+export const realisedFxGainLoss = (amount: number, paymentRate: number, documentRate: number) =>
+  round2(toBase(amount, paymentRate) - toBase(amount, documentRate));
+
+const HEADER_ALIASES = {
+  date: /^(date|rate\s*date|effective\s*date|value\s*date)$/i,
+  currency: /^(currency|currency\s*code|ccy|code)$/i,
+  rate: /^(rate|exchange\s*rate|mean|mean\s*rate|kes|rate\s*\(kes\))$/i,
+};
+
+/**
+ * Read exchange rates from CSV: a header row with date, currency and rate columns (the CBK
+ * indicative rates download has these as Date, Currency and Mean). Dates are read day first;
+ * currency names like "US DOLLAR" are mapped to their codes. A later row for the same currency and
+ * date replaces an earlier one.
+ */
+export function parseExchangeRateCSV(text: string, baseCurrency: string = 'KES'): ParsedExchangeRates {
+  const rows = parseCsv(text);
+  const errors: StatementImportError[] = [];
+  const byKey = new Map<string, ParsedExchangeRate>();
+
+  const headerIndex = rows.findIndex(row =>
+    row.some(cell => HEADER_ALIASES.date.test((cell || '').trim()))
+    && row.some(cell => HEADER_ALIASES.currency.test((cell || '').trim()))
+    && row.some(cell => HEADER_ALIASES.rate.test((cell || '').trim())));
+  if (headerIndex < 0) {
+    return { rates: [], errors: [{ row: 1, reason: 'No header row with date, currency and rate columns was found' }] };
+  }
+
+  const header = rows[headerIndex].map(cell => (cell || '').trim());
+  const dateColumn = header.findIndex(cell => HEADER_ALIASES.date.test(cell));
+  const currencyColumn = header.findIndex(cell => HEADER_ALIASES.currency.test(cell));
+  const rateColumn = header.findIndex(cell => HEADER_ALIASES.rate.test(cell));
+
+  for (let r = headerIndex + 1; r < rows.length; r++) {
+    const row = rows[r];
+    if (row.every(cell => !(cell || '').trim())) continue;
+
+    const rateDate = parseStatementDate(row[dateColumn] || '');
+    const currency = currencyCode(row[currencyColumn] || '');
+    const rate = parseStatementAmount(row[rateColumn] || '');
+
+    if (!rateDate) {
+      errors.push({ row: r + 1, reason: `"${row[dateColumn] || ''}" is not a date` });
+    } else if (!currency) {
+      errors.push({ row: r + 1, reason: `"${row[currencyColumn] || ''}" is not a supported currency` });
+    } else if (currency === baseCurrency) {
+      errors.push({ row: r + 1, reason: `${currency} is the base currency` });
+    } else if (rate === null || isNaN(rate) || rate <= 0) {
+      errors.push({ row: r + 1, reason: `"${row[rateColumn] || ''}" is not a valid rate` });
+    } else {
+      byKey.set(`${currency}|${rateDate}`, { currency_code: currency, rate_date: rateDate, rate });
+    }
+  }
+
+  return {
+    rates: Array.from(byKey.values()).sort((a, b) =>
+      a.currency_code.localeCompare(b.currency_code) || a.rate_date.localeCompare(b.rate_date)),
+    errors,
+  };
+}
+
+// Currency names as the CBK indicative rates list prints them
+const CURRENCY_NAME_ALIASES: Record<string, string> = {
+  'US DOLLAR': 'USD',
+  'EURO': 'EUR',
+  'STG POUND': 'GBP',
+  'STERLING POUND': 'GBP',
+  'POUND STERLING': 'GBP',
+  'USHS': 'UGX',
+  'TSHS': 'TZS',
+};
+
+function currencyCode(value: string): string | null {
+  const text = value.trim().toUpperCase().replace(/\s+/g, ' ');
+  const byCode = SUPPORTED_CURRENCIES.find(c => c.code === text || c.name.toUpperCase() === text);
+  if (byCode) return byCode.code;
+  return CURRENCY_NAME_ALIASES[text] || null;
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import {
+  autoAllocateOldestFirst,
+  customerUnallocatedCredit,
+  invoiceOpenBalance,
+  openInvoicesForCredit,
+  paymentAllocatedAmount,
+  paymentUnallocatedAmount,
+  validateCreditAllocations,
+  validateSplitPayment,
+} from '@/utils/customerCredit';
+
+describe('payment credit', () => {
+  it('reads both the flattened and the raw allocation amount', () => {
+    const payment = { amount: '1000', payment_allocations: [{ allocated_amount: 250.25 }, { amount_allocated: '100' }] };
+
+    expect(paymentAllocatedAmount(payment)).toBe(350.25);
+    expect(paymentUnallocatedAmount(payment)).toBe(649.75);
+  });
+
+  it('never reports negative credit for an over-allocated payment', () => {
+    expect(paymentUnallocatedAmount({ amount: 100, payment_allocations: [{ allocated_amount: 120 }] })).toBe(0);
+  });
+
+  it('totals a deposit with no allocations and an overpayment', () => {
+    expect(customerUnallocatedCredit([
+      { amount: 500 },
+      { amount: 300, payment_allocations: [{ allocated_amount: 299.99 }] },
+      { amount: 100, payment_allocations: null },
+    ])).toBe(600.01);
+  });
+});
+
+describe('invoiceOpenBalance', () => {
+  it('uses balance_due when present, even when zero', () => {
+    expect(invoiceOpenBalance({ id: 'i1', total_amount: 100, paid_amount: 40, balance_due: 0 })).toBe(0);
+  });
+
+  it('falls back to total less paid', () => {
+    expect(invoiceOpenBalance({ id: 'i1', total_amount: '100.10', paid_amount: '40.05' })).toBe(60.05);
+  });
+});
+
+describe('openInvoicesForCredit', () => {
+  it('keeps posted invoices with a balance, oldest due first', () => {
+    const open = openInvoicesForCredit([
+      { id: 'late', status: 'sent', due_date: '2026-03-01', balance_due: 50 },
+      { id: 'void', status: 'void', due_date: '2026-01-01', balance_due: 50 },
+      { id: 'draft', status: 'draft', due_date: '2026-01-01', balance_due: 50 },
+      { id: 'paid', status: 'paid', due_date: '2026-01-01', balance_due: 0 },
+      { id: 'early', status: 'partial', invoice_date: '2026-02-01', balance_due: 10 },
+    ]);
+
+    expect(open.map(inv => inv.id)).toEqual(['early', 'late']);
+  });
+});
+
+describe('validateCreditAllocations', () => {
+  const invoices = [
+    { id: 'i1', balance_due: 100 },
+    { id: 'i2', balance_due: 50 },
+  ];
+
+  it('accepts allocations within the credit and each balance', () => {
+    expect(validateCreditAllocations([{ invoice_id: 'i1', amount: 100 }, { invoice_id: 'i2', amount: 25.5 }], 125.5, invoices)).toBeNull();
+  });
+
+  it('rejects empty, negative, over-credit and over-balance allocations', () => {
+    expect(validateCreditAllocations([{ invoice_id: 'i1', amount: 0 }], 100, invoices)).toBe('Enter an amount against at least one invoice');
+    expect(validateCreditAllocations([{ invoice_id: 'i1', amount: -5 }], 100, invoices)).toBe('Allocation amounts cannot be negative');
+    expect(validateCreditAllocations([{ invoice_id: 'i1', amount: 80 }, { invoice_id: 'i2', amount: 40 }], 100, invoices))
+      .toBe('Allocations total 120 but only 100 is unallocated');
+    expect(validateCreditAllocations([{ invoice_id: 'i2', amount: 60 }], 100, invoices)).toBe('An allocation is larger than the invoice balance');
+    expect(validateCreditAllocations([{ invoice_id: 'missing', amount: 10 }], 100, invoices)).toBe('One of the invoices could not be found');
+  });
+
+  it('compares totals after rounding to cents', () => {
+    expect(validateCreditAllocations([{ invoice_id: 'i1', amount: 0.1 }, { invoice_id: 'i2', amount: 0.2 }], 0.3, invoices)).toBeNull();
+  });
+});
+
+describe('validateSplitPayment', () => {
+  const invoices = [
+    { id: 'i1', customer_id: 'c1', status: 'sent', balance_due: 600 },
+    { id: 'i2', customer_id: 'c1', status: 'partial', total_amount: 500, paid_amount: 100 },
+    { id: 'other', customer_id: 'c2', status: 'sent', balance_due: 300 },
+    { id: 'void', customer_id: 'c1', status: 'void', balance_due: 300 },
+  ];
+
+  it('accepts a split within the payment, leaving the rest as credit', () => {
+    expect(validateSplitPayment(1000, [{ invoice_id: 'i1', amount: 600 }, { invoice_id: 'i2', amount: 400 }], invoices, 'c1')).toBeNull();
+    expect(validateSplitPayment(1000, [{ invoice_id: 'i1', amount: 250.25 }], invoices, 'c1')).toBeNull();
+  });
+
+  it('rejects a split over the payment amount or an invoice balance', () => {
+    expect(validateSplitPayment(900, [{ invoice_id: 'i1', amount: 600 }, { invoice_id: 'i2', amount: 400 }], invoices, 'c1'))
+      .toBe('Allocations total 1,000 but only 900 is unallocated');
+    expect(validateSplitPayment(1000, [{ invoice_id: 'i2', amount: 400.01 }], invoices, 'c1')).toBe('An allocation is larger than the invoice balance');
+  });
+
+  it("rejects void invoices, other customers' invoices and non-positive payments", () => {
+    expect(validateSplitPayment(100, [{ invoice_id: 'void', amount: 100 }], invoices, 'c1')).toBe('One of the invoices could not be found');
+    expect(validateSplitPayment(100, [{ invoice_id: 'other', amount: 100 }], invoices, 'c1')).toBe('One of the invoices could not be found');
+    expect(validateSplitPayment(0, [{ invoice_id: 'i1', amount: 100 }], invoices, 'c1')).toBe('A payment split across invoices must be a positive amount');
+  });
+});
+
+describe('autoAllocateOldestFirst', () => {
+  const invoices = [
+    { id: 'i1', balance_due: 100 },
+    { id: 'settled', balance_due: 0 },
+    { id: 'i2', balance_due: 50 },
+    { id: 'i3', balance_due: 75 },
+  ];
+
+  it('fills each invoice in order and stops when the amount runs out', () => {
+    expect(autoAllocateOldestFirst(120.5, invoices)).toEqual([
+      { invoice_id: 'i1', amount: 100 },
+      { invoice_id: 'i2', amount: 20.5 },
+    ]);
+  });
+
+  it('leaves any excess unallocated', () => {
+    const allocations = autoAllocateOldestFirst(500, invoices);
+
+    expect(allocations.reduce((sum, a) => sum + a.amount, 0)).toBe(225);
+  });
+
+  it('allocates nothing from a zero amount', () => {
+    expect(autoAllocateOldestFirst(0, invoices)).toEqual([]);
+  });
+});
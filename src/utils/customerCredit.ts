@@ -0,0 +1,94 @@
+// Customer credit is the part of a payment not allocated to any invoice: deposits taken before an
+// invoice exists, overpayments, and payments released by voiding an invoice. The database keeps
+// the same arithmetic in payment_unallocated_amount() (migrations/018_customer_credit.sql).
+
+interface AllocationLike {
+  allocated_amount?: number | string | null;
+  amount_allocated?: number | string | null;
+}
+
+interface PaymentLike {
+  amount?: number | string | null;
+  payment_allocations?: AllocationLike[] | null;
+}
+
+export interface InvoiceLike {
+  id: string;
+  customer_id?: string | null;
+  status?: string | null;
+  invoice_date?: string | null;
+  due_date?: string | null;
+  total_amount?: number | string | null;
+  paid_amount?: number | string | null;
+  balance_due?: number | string | null;
+}
+
+// A type alias so allocations can be passed as the p_allocations JSON argument
+export type CreditAllocation = {
+  invoice_id: string;
+  amount: number;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// usePayments flattens allocations to allocated_amount; raw rows use amount_allocated
+const allocationAmount = (allocation: AllocationLike) =>
+  Number(allocation.allocated_amount ?? allocation.amount_allocated ?? 0);
+
+export const paymentAllocatedAmount = (payment: PaymentLike) =>
+  round2((payment.payment_allocations || []).reduce((sum, a) => sum + allocationAmount(a), 0));
+
+export const paymentUnallocatedAmount = (payment: PaymentLike) =>
+  Math.max(0, round2(Number(payment.amount || 0) - paymentAllocatedAmount(payment)));
+
+export const customerUnallocatedCredit = (payments: PaymentLike[]) =>
+  round2(payments.reduce((sum, p) => sum + paymentUnallocatedAmount(p), 0));
+
+export const invoiceOpenBalance = (invoice: InvoiceLike) =>
+  round2(Number(invoice.balance_due ?? Number(invoice.total_amount || 0) - Number(invoice.paid_amount || 0)));
+
+// Invoices credit can be allocated to: not void, with something still owing, oldest first
+export const openInvoicesForCredit = <T extends InvoiceLike>(invoices: T[]) =>
+  invoices
+    .filter(inv => inv.status !== 'void' && inv.status !== 'draft' && invoiceOpenBalance(inv) > 0)
+    .sort((a, b) => (a.due_date || a.invoice_date || '').localeCompare(b.due_date || b.invoice_date || ''));
+
+// Checks allocations against the credit available and each invoice's balance; returns an error message or null
+export function validateCreditAllocations(allocations: CreditAllocation[], available: number, invoices: InvoiceLike[]) {
+  const lines = allocations.filter(a => a.amount !== 0);
+  if (lines.length === 0) return 'Enter an amount against at least one invoice';
+  if (lines.some(a => a.amount < 0)) return 'Allocation amounts cannot be negative';
+
+  const total = round2(lines.reduce((sum, a) => sum + a.amount, 0));
+  if (total > round2(available)) return `Allocations total ${total.toLocaleString()} but only ${round2(available).toLocaleString()} is unallocated`;
+
+  for (const line of lines) {
+    const invoice = invoices.find(inv => inv.id === line.invoice_id);
+    if (!invoice) return 'One of the invoices could not be found';
+    if (line.amount > invoiceOpenBalance(invoice)) return 'An allocation is larger than the invoice balance';
+  }
+  return null;
+}
+
+// The checks allocate_payment() makes when a new payment is split across invoices: a positive
+// amount, invoices of the paying customer that are not void, and no more than each balance or the
+// payment in total. Used by the client-side fallback when the RPC is not installed.
+export function validateSplitPayment(amount: number, allocations: CreditAllocation[], invoices: InvoiceLike[], customerId?: string | null) {
+  if (!(amount > 0)) return 'A payment split across invoices must be a positive amount';
+  const payable = invoices.filter(inv => inv.status !== 'void' && (!customerId || inv.customer_id === customerId));
+  return validateCreditAllocations(allocations, amount, payable);
+}
+
+// Spreads an amount over invoices in the order given (oldest first), up to each invoice's balance
+export function autoAllocateOldestFirst(amount: number, invoices: InvoiceLike[]): CreditAllocation[] {
+  let remaining = round2(amount);
+  const allocations: CreditAllocation[] = [];
+  for (const invoice of invoices) {
+    if (remaining <= 0) break;
+    const portion = Math.min(remaining, invoiceOpenBalance(invoice));
+    if (portion <= 0) continue;
+    allocations.push({ invoice_id: invoice.id, amount: round2(portion) });
+    remaining = round2(remaining - portion);
+  }
+  return allocations;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { canVoidInvoice, invoiceLockMessage, isCreditNoteLocked, isInvoicePosted, isInvoiceVoid, isLPOLocked } from '@/utils/documentLocks';
+
+describe('invoice posting', () => {
+  it('locks an invoice once it leaves draft or has been paid against', () => {
+    expect(isInvoicePosted({ status: 'draft' })).toBe(false);
+    expect(isInvoicePosted({ status: null })).toBe(false);
+    expect(isInvoicePosted({ status: 'sent' })).toBe(true);
+    expect(isInvoicePosted({ status: 'draft', paid_amount: '0.01' })).toBe(true);
+    expect(isInvoicePosted(null)).toBe(false);
+  });
+
+  it('can void anything not already void', () => {
+    expect(canVoidInvoice({ status: 'paid' })).toBe(true);
+    expect(canVoidInvoice({ status: 'void' })).toBe(false);
+    expect(canVoidInvoice(undefined)).toBe(false);
+  });
+
+  it('explains why the invoice is read-only', () => {
+    expect(isInvoiceVoid({ status: 'void' })).toBe(true);
+    expect(invoiceLockMessage({ invoice_number: 'INV-1', status: 'void' })).toBe('Invoice INV-1 is void and cannot be changed');
+    expect(invoiceLockMessage({ invoice_number: 'INV-2', status: 'sent' })).toMatch(/^Invoice INV-2 has been posted/);
+  });
+});
+
+describe('credit notes and LPOs', () => {
+  it('locks a credit note once any of it is applied', () => {
+    expect(isCreditNoteLocked({ status: 'issued', applied_amount: 0 })).toBe(false);
+    expect(isCreditNoteLocked({ status: 'issued', applied_amount: 50 })).toBe(true);
+    expect(isCreditNoteLocked({ status: 'applied' })).toBe(true);
+  });
+
+  it('locks an LPO once fully received', () => {
+    expect(isLPOLocked({ status: 'partially_received' })).toBe(false);
+    expect(isLPOLocked({ status: 'received' })).toBe(true);
+  });
+});
@@ -0,0 +1,43 @@
+// Posting rules for sales and purchase documents. The same rules are enforced by triggers in
+// migrations/016_document_posting.sql; these helpers let the UI hide actions the database would reject.
+
+interface InvoiceLike {
+  invoice_number?: string;
+  status?: string | null;
+  paid_amount?: number | string | null;
+}
+
+interface CreditNoteLike {
+  credit_note_number?: string;
+  status?: string | null;
+  applied_amount?: number | string | null;
+}
+
+interface LPOLike {
+  lpo_number?: string;
+  status?: string | null;
+}
+
+export const isInvoiceVoid = (invoice: InvoiceLike | null | undefined) => invoice?.status === 'void';
+
+// Sent, paid against, or void: the invoice can no longer be edited or deleted
+export const isInvoicePosted = (invoice: InvoiceLike | null | undefined) =>
+  !!invoice && ((invoice.status || 'draft') !== 'draft' || Number(invoice.paid_amount || 0) > 0);
+
+export const canVoidInvoice = (invoice: InvoiceLike | null | undefined) => !!invoice && !isInvoiceVoid(invoice);
+
+export const isCreditNoteLocked = (creditNote: CreditNoteLike | null | undefined) =>
+  !!creditNote && (creditNote.status === 'applied' || Number(creditNote.applied_amount || 0) > 0);
+
+export const isLPOLocked = (lpo: LPOLike | null | undefined) => lpo?.status === 'received';
+
+export const invoiceLockMessage = (invoice: InvoiceLike) =>
+  isInvoiceVoid(invoice)
+    ? `Invoice ${invoice.invoice_number} is void and cannot be changed`
+    : `Invoice ${invoice.invoice_number} has been posted and is read-only. Raise a credit note to correct it, or void it.`;
+
+export const creditNoteLockMessage = (creditNote: CreditNoteLike) =>
+  `Credit note ${creditNote.credit_note_number} has been applied and is read-only`;
+
+export const lpoLockMessage = (lpo: LPOLike) =>
+  `LPO ${lpo.lpo_number} has been received and is read-only`;
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { isSharedDocument, paymentInstructions, shareLinkExpiry, shareLinkStatus, sharedDocumentNumber } from '@/utils/documentPortal';
+
+describe('share link lifetime', () => {
+  const now = new Date('2026-03-15T12:00:00Z');
+
+  it('expires a set number of days after sharing', () => {
+    expect(shareLinkExpiry(30, now)).toBe('2026-04-14T12:00:00.000Z');
+  });
+
+  it('is revoked before anything else, then expired once past its date', () => {
+    expect(shareLinkStatus({ expires_at: '2026-03-16T00:00:00Z', revoked_at: null }, now)).toBe('active');
+    expect(shareLinkStatus({ expires_at: '2026-03-15T11:59:59Z', revoked_at: null }, now)).toBe('expired');
+    expect(shareLinkStatus({ expires_at: '2026-03-14T00:00:00Z', revoked_at: '2026-03-01T00:00:00Z' }, now)).toBe('revoked');
+  });
+});
+
+describe('shared documents', () => {
+  const shared = {
+    link: { document_type: 'invoice', expires_at: '2026-04-14T12:00:00Z' },
+    document: { id: 'i1', invoice_number: 'INV-0012', total_amount: 1160 },
+    items: [],
+    customer: null,
+    company: null,
+  };
+
+  it('accepts what get_shared_document returns and rejects anything else', () => {
+    expect(isSharedDocument(shared)).toBe(true);
+    expect(isSharedDocument({ ...shared, link: { document_type: 'credit_note' } })).toBe(false);
+    expect(isSharedDocument({ ...shared, items: null })).toBe(false);
+    expect(isSharedDocument([shared])).toBe(false);
+    expect(isSharedDocument(null)).toBe(false);
+  });
+
+  it('shows the number for the document type', () => {
+    const numbers = { quotation_number: 'Q-0001', proforma_number: 'PF-0001', invoice_number: 'INV-0012' };
+    expect(sharedDocumentNumber('quotation', numbers)).toBe('Q-0001');
+    expect(sharedDocumentNumber('proforma', numbers)).toBe('PF-0001');
+    expect(sharedDocumentNumber('invoice', null)).toBe('');
+  });
+});
+
+describe('paymentInstructions', () => {
+  it('gives the paybill with the invoice number as the account, then a contact', () => {
+    expect(paymentInstructions({ name: 'Layons', phone: '0700 000000', mpesa_paybill_number: '123456' }, 'INV-0012')).toEqual([
+      'M-Pesa: Lipa na M-Pesa, Pay Bill 123456, account number INV-0012.',
+      'For bank transfer details or any query, contact Layons on 0700 000000, quoting INV-0012.',
+    ]);
+  });
+
+  it('falls back to quoting the invoice number without contact details', () => {
+    expect(paymentInstructions(null, 'INV-0012')).toEqual(['Quote INV-0012 with your payment.']);
+  });
+});
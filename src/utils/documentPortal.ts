@@ -0,0 +1,139 @@
+import type { PrintableItem } from '@/utils/pdfGenerator';
+
+// Customer portal links. Tokens, expiry, revocation and the customer's answer are enforced in
+// migrations/028_document_portal.sql; the portal reads documents only through get_shared_document.
+
+export type SharedDocumentType = 'quotation' | 'proforma' | 'invoice';
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+export interface DocumentShareLink {
+  id: string;
+  company_id: string;
+  document_type: SharedDocumentType;
+  document_id: string;
+  token: string;
+  expires_at: string;
+  revoked_at?: string | null;
+  view_count: number;
+  last_viewed_at?: string | null;
+  response?: 'accepted' | 'declined' | null;
+  responder_name?: string | null;
+  response_comment?: string | null;
+  responded_at?: string | null;
+  created_at: string;
+}
+
+// The whitelisted header fields; which number and dates are present depends on the document type
+export interface SharedDocumentFields {
+  id: string;
+  status?: string | null;
+  currency?: string;
+  subtotal?: number;
+  tax_amount?: number;
+  total_amount: number;
+  notes?: string;
+  terms_and_conditions?: string;
+  quotation_number?: string;
+  quotation_date?: string;
+  revision_number?: number | null;
+  proforma_number?: string;
+  proforma_date?: string;
+  valid_until?: string;
+  invoice_number?: string;
+  invoice_date?: string;
+  due_date?: string;
+  lpo_number?: string;
+  paid_amount?: number;
+  balance_due?: number | null;
+  etims_cu_serial_number?: string | null;
+  etims_cu_invoice_number?: string | null;
+  etims_signature?: string | null;
+  etims_qr_code?: string | null;
+}
+
+// What get_shared_document returns for an active link
+export interface SharedDocument {
+  link: Pick<DocumentShareLink, 'document_type' | 'expires_at' | 'response' | 'responder_name' | 'response_comment' | 'responded_at'>;
+  document: SharedDocumentFields;
+  items: PrintableItem[];
+  customer: {
+    name: string;
+    email?: string;
+    phone?: string;
+    address?: string;
+    city?: string;
+    country?: string;
+  } | null;
+  company: {
+    name: string;
+    address?: string;
+    city?: string;
+    country?: string;
+    phone?: string;
+    email?: string;
+    tax_number?: string;
+    logo_url?: string;
+    currency?: string;
+    mpesa_paybill_number?: string | null;
+  } | null;
+}
+
+export const SHARE_LINK_EXPIRY_OPTIONS = [7, 14, 30, 60, 90];
+export const DEFAULT_SHARE_LINK_EXPIRY_DAYS = 30;
+
+export const SHARED_DOCUMENT_LABELS: Record<SharedDocumentType, string> = {
+  quotation: 'Quotation',
+  proforma: 'Proforma Invoice',
+  invoice: 'Invoice',
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Narrows the JSON returned by get_shared_document to a document the portal can render
+export const isSharedDocument = (value: unknown): value is SharedDocument =>
+  isRecord(value)
+  && isRecord(value.link)
+  && typeof value.link.document_type === 'string'
+  && Object.keys(SHARED_DOCUMENT_LABELS).includes(value.link.document_type)
+  && isRecord(value.document)
+  && Array.isArray(value.items);
+
+export const portalUrl = (token: string) => `${window.location.origin}/portal/${token}`;
+
+export const shareLinkExpiry = (days: number, from: Date = new Date()) => {
+  const expires = new Date(from);
+  expires.setDate(expires.getDate() + days);
+  return expires.toISOString();
+};
+
+export const shareLinkStatus = (link: Pick<DocumentShareLink, 'expires_at' | 'revoked_at'>, now: Date = new Date()): ShareLinkStatus => {
+  if (link.revoked_at) return 'revoked';
+  return new Date(link.expires_at) < now ? 'expired' : 'active';
+};
+
+export const sharedDocumentNumber = (
+  type: SharedDocumentType,
+  document: Pick<SharedDocumentFields, 'quotation_number' | 'proforma_number' | 'invoice_number'> | null,
+) => {
+  if (type === 'quotation') return document?.quotation_number || '';
+  if (type === 'proforma') return document?.proforma_number || '';
+  return document?.invoice_number || '';
+};
+
+/**
+ * How the customer pays an invoice: the company's M-Pesa paybill with the invoice number as
+ * the account, which is what the paybill import matches receipts against.
+ */
+export const paymentInstructions = (company: SharedDocument['company'], invoiceNumber: string): string[] => {
+  const lines: string[] = [];
+  if (company?.mpesa_paybill_number) {
+    lines.push(`M-Pesa: Lipa na M-Pesa, Pay Bill ${company.mpesa_paybill_number}, account number ${invoiceNumber}.`);
+  }
+  const contact = [company?.phone, company?.email].filter(Boolean).join(' or ');
+  lines.push(contact
+    ? `For bank transfer details or any query, contact ${company?.name || 'us'} on ${contact}, quoting ${invoiceNumber}.`
+    : `Quote ${invoiceNumber} with your payment.`);
+  return lines;
+};
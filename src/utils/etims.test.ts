@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildEtimsPayload,
+  etimsRetryDelayMinutes,
+  etimsTaxCategory,
+  signEtimsPayload,
+  type PayloadItemSource,
+} from '@/utils/etims';
+
+const company = { tax_number: 'P051234567X', etims_branch_id: null, etims_device_serial: 'KRACU0100000001' };
+
+const build = (items: PayloadItemSource[], customer: { name?: string; tax_number?: string } | null = { name: 'Acme Ltd', tax_number: 'P000111222Z' }) =>
+  buildEtimsPayload({
+    documentType: 'invoice',
+    documentNumber: 'INV-0001',
+    documentDate: '2026-03-05',
+    company,
+    customer,
+    items,
+  });
+
+describe('etimsTaxCategory', () => {
+  it('maps rates to eTIMS categories', () => {
+    expect(etimsTaxCategory(16, true)).toBe('B');
+    expect(etimsTaxCategory(8, true)).toBe('E');
+    expect(etimsTaxCategory(16, false)).toBe('A');
+    expect(etimsTaxCategory(0, true)).toBe('A');
+  });
+});
+
+describe('buildEtimsPayload', () => {
+  it('applies the discount stored in discount_before_vat before VAT', () => {
+    const payload = build([
+      { description: 'Cement', product_code: 'CEM-50', quantity: 2, unit_price: 1000, tax_percentage: 16, tax_inclusive: true, discount_before_vat: 10 },
+    ]);
+
+    expect(payload.items[0]).toEqual({
+      line: 1,
+      description: 'Cement',
+      item_code: 'CEM-50',
+      quantity: 2,
+      unit_price: 1000,
+      discount: 200,
+      taxable_amount: 1800,
+      tax_category: 'B',
+      tax_rate: 16,
+      tax_amount: 288,
+      total: 2088,
+    });
+    expect(payload.totals).toMatchObject({ subtotal: 2000, discount_total: 200, tax_total: 288, total_amount: 2088 });
+  });
+
+  it('prefers discount_percentage and falls back to a fixed discount amount', () => {
+    const payload = build([
+      { quantity: 1, unit_price: 1000, tax_percentage: 16, tax_inclusive: true, discount_percentage: 5, discount_before_vat: 10 },
+      { quantity: 1, unit_price: 1000, tax_percentage: 16, tax_inclusive: true, discount_amount: 50 },
+    ]);
+
+    expect(payload.items.map(item => item.discount)).toEqual([50, 50]);
+    expect(payload.items.map(item => item.tax_amount)).toEqual([152, 152]);
+  });
+
+  it('totals taxable amounts and VAT per category', () => {
+    const payload = build([
+      { description: 'Steel', quantity: 1, unit_price: 1000, tax_percentage: 16, tax_inclusive: true },
+      { description: 'Transport', quantity: 1, unit_price: 500, tax_percentage: 8, tax_inclusive: true },
+      { description: 'Consulting', quantity: 3, unit_price: 100, tax_percentage: 16, tax_inclusive: false },
+    ]);
+
+    expect(payload.items.map(item => [item.tax_category, item.tax_rate])).toEqual([['B', 16], ['E', 8], ['A', 0]]);
+    expect(payload.totals.taxable_by_category).toEqual({ A: 300, B: 1000, C: 0, D: 0, E: 500 });
+    expect(payload.totals.tax_by_category).toEqual({ A: 0, B: 160, C: 0, D: 0, E: 40 });
+    expect(payload.totals.total_amount).toBe(2000);
+  });
+
+  it('fills the header from the company and customer with defaults', () => {
+    const payload = build([{ products: { name: 'Sand', product_code: 'SND' }, quantity: 1, unit_price: 10, tax_percentage: 0 }], null);
+
+    expect(payload).toMatchObject({
+      seller_pin: 'P051234567X',
+      branch_id: '00',
+      device_serial: 'KRACU0100000001',
+      buyer_pin: null,
+      buyer_name: 'Walk-in Customer',
+      original_document_number: null,
+    });
+    expect(payload.items[0]).toMatchObject({ description: 'Sand', item_code: 'SND' });
+  });
+
+  it('refuses to build without a PIN, a control unit or items', () => {
+    const item = { quantity: 1, unit_price: 10, tax_percentage: 0 };
+    const base = { documentType: 'invoice' as const, documentNumber: 'INV-1', documentDate: '2026-03-05', customer: null };
+
+    expect(() => buildEtimsPayload({ ...base, company: { ...company, tax_number: null }, items: [item] })).toThrow(/KRA PIN/);
+    expect(() => buildEtimsPayload({ ...base, company: { ...company, etims_device_serial: '' }, items: [item] })).toThrow(/serial number/);
+    expect(() => buildEtimsPayload({ ...base, company, items: [] })).toThrow(/without items/);
+  });
+});
+
+describe('signEtimsPayload', () => {
+  it('gives the same digest whatever the property order', async () => {
+    const payload = build([{ quantity: 1, unit_price: 10, tax_percentage: 0 }]);
+    const reordered = Object.fromEntries(Object.entries(payload).reverse()) as typeof payload;
+
+    const [a, b] = await Promise.all([signEtimsPayload(payload), signEtimsPayload(reordered)]);
+
+    expect(a.digest).toMatch(/^[0-9a-f]{64}$/);
+    expect(b.digest).toBe(a.digest);
+  });
+});
+
+describe('etimsRetryDelayMinutes', () => {
+  it('backs off to hourly retries', () => {
+    expect([1, 2, 3, 4, 5, 12].map(etimsRetryDelayMinutes)).toEqual([1, 5, 15, 60, 60, 60]);
+  });
+});
@@ -0,0 +1,232 @@
+import QRCode from 'qrcode';
+import { calculateDocumentTotals, calculateItemTax, type TaxableItem } from '@/utils/taxCalculation';
+
+// KRA eTIMS submission. A payload is built from the document items with the same arithmetic as
+// taxCalculation.ts, hashed, and handed to the adapter configured for the company
+// (companies.etims_adapter). Adapters talk to a control unit (VSCU/OSCU) and return the CU
+// invoice number, signature and QR code printed on the document.
+
+export type EtimsDocumentType = 'invoice' | 'credit_note';
+
+// eTIMS tax categories: A exempt, B 16% standard, C zero rated, D non-VAT, E 8%
+export type EtimsTaxCategory = 'A' | 'B' | 'C' | 'D' | 'E';
+
+// Type aliases so a payload can be stored in the etims_submissions.payload JSON column
+export type EtimsPayloadItem = {
+  line: number;
+  description: string;
+  item_code: string;
+  quantity: number;
+  unit_price: number;
+  discount: number;
+  taxable_amount: number;
+  tax_category: EtimsTaxCategory;
+  tax_rate: number;
+  tax_amount: number;
+  total: number;
+};
+
+export type EtimsPayload = {
+  document_type: EtimsDocumentType;
+  document_number: string;
+  original_document_number: string | null;  // credit notes: the invoice being credited
+  document_date: string;
+  seller_pin: string;
+  branch_id: string;
+  device_serial: string;
+  buyer_pin: string | null;
+  buyer_name: string;
+  items: EtimsPayloadItem[];
+  totals: {
+    taxable_by_category: Record<EtimsTaxCategory, number>;
+    tax_by_category: Record<EtimsTaxCategory, number>;
+    subtotal: number;
+    discount_total: number;
+    tax_total: number;
+    total_amount: number;
+  };
+};
+
+export interface SignedEtimsPayload {
+  payload: EtimsPayload;
+  digest: string;   // SHA-256 hex of the canonical JSON
+}
+
+export interface EtimsSubmissionResult {
+  cu_serial_number: string;
+  cu_invoice_number: string;
+  signature: string;
+  qr_code: string;          // text encoded in the QR printed on the document
+  raw?: unknown;
+}
+
+export interface EtimsAdapter {
+  name: string;
+  label: string;
+  submit: (signed: SignedEtimsPayload) => Promise<EtimsSubmissionResult>;
+}
+
+export class EtimsSubmissionError extends Error {
+  constructor(message: string, public readonly queued: boolean) {
+    super(message);
+    this.name = 'EtimsSubmissionError';
+  }
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function etimsTaxCategory(rate: number, taxed: boolean): EtimsTaxCategory {
+  // An untaxed line cannot tell exempt from zero rated; it is reported as exempt
+  if (!taxed || rate === 0) return 'A';
+  if (rate === 8) return 'E';
+  return 'B';
+}
+
+export interface PayloadItemSource extends TaxableItem {
+  discount_before_vat?: number | null;   // the discount percentage as document lines store it
+  description?: string | null;
+  product_code?: string | null;
+  products?: { product_code?: string | null; name?: string | null } | null;
+}
+
+/**
+ * Build the payload for a document. Amounts are recalculated from the items rather than read
+ * from the stored totals, so what KRA receives always agrees line by line.
+ */
+export function buildEtimsPayload(params: {
+  documentType: EtimsDocumentType;
+  documentNumber: string;
+  originalDocumentNumber?: string | null;
+  documentDate: string;
+  company: { tax_number?: string | null; etims_branch_id?: string | null; etims_device_serial?: string | null };
+  customer: { name?: string | null; tax_number?: string | null } | null;
+  items: PayloadItemSource[];
+}): EtimsPayload {
+  const { company, customer } = params;
+  if (!company.tax_number) throw new Error('Set the company KRA PIN (tax number) before submitting to eTIMS');
+  if (!company.etims_device_serial) throw new Error('Set the eTIMS control unit serial number in Company Settings');
+  if (params.items.length === 0) throw new Error('A document without items cannot be submitted to eTIMS');
+
+  const taxable = { A: 0, B: 0, C: 0, D: 0, E: 0 } as Record<EtimsTaxCategory, number>;
+  const tax = { A: 0, B: 0, C: 0, D: 0, E: 0 } as Record<EtimsTaxCategory, number>;
+
+  const taxableItems: TaxableItem[] = params.items.map(item => {
+    const quantity = Number(item.quantity || 0);
+    const unitPrice = Number(item.unit_price || 0);
+    // Document lines keep their discount as a percentage in discount_before_vat
+    const discountPercentage = Number(item.discount_percentage || 0) || Number(item.discount_before_vat || 0);
+    return {
+      quantity,
+      unit_price: unitPrice,
+      tax_percentage: Number(item.tax_percentage || 0),
+      tax_inclusive: !!item.tax_inclusive,
+      discount_percentage: discountPercentage,
+      discount_amount: Number(item.discount_amount || 0) || round2(quantity * unitPrice * discountPercentage / 100),
+    };
+  });
+
+  const items = taxableItems.map((taxableItem, index) => {
+    const source = params.items[index];
+    const calculated = calculateItemTax(taxableItem);
+    const category = etimsTaxCategory(taxableItem.tax_percentage, calculated.tax_amount > 0);
+    taxable[category] = round2(taxable[category] + calculated.taxable_amount);
+    tax[category] = round2(tax[category] + calculated.tax_amount);
+    return {
+      line: index + 1,
+      description: source.description || source.products?.name || 'Item',
+      item_code: source.product_code || source.products?.product_code || '',
+      quantity: calculated.quantity,
+      unit_price: calculated.unit_price,
+      discount: calculated.discount_total,
+      taxable_amount: calculated.taxable_amount,
+      tax_category: category,
+      tax_rate: category === 'A' ? 0 : taxableItem.tax_percentage,
+      tax_amount: calculated.tax_amount,
+      total: calculated.line_total,
+    };
+  });
+
+  const totals = calculateDocumentTotals(taxableItems);
+
+  return {
+    document_type: params.documentType,
+    document_number: params.documentNumber,
+    original_document_number: params.originalDocumentNumber || null,
+    document_date: params.documentDate,
+    seller_pin: company.tax_number,
+    branch_id: company.etims_branch_id || '00',
+    device_serial: company.etims_device_serial,
+    buyer_pin: customer?.tax_number || null,
+    buyer_name: customer?.name || 'Walk-in Customer',
+    items,
+    totals: {
+      taxable_by_category: taxable,
+      tax_by_category: tax,
+      subtotal: totals.subtotal,
+      discount_total: totals.discount_total,
+      tax_total: totals.tax_total,
+      total_amount: totals.total_amount,
+    },
+  };
+}
+
+// Keys sorted at every level so the digest does not depend on property order
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value as object).sort().map(k => `${JSON.stringify(k)}:${canonicalJson((value as Record<string, unknown>)[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export async function signEtimsPayload(payload: EtimsPayload): Promise<SignedEtimsPayload> {
+  const bytes = new TextEncoder().encode(canonicalJson(payload));
+  const hash = await crypto.subtle.digest('SHA-256', bytes);
+  const digest = Array.from(new Uint8Array(hash)).map(b => b.toString(16).padStart(2, '0')).join('');
+  return { payload, digest };
+}
+
+/**
+ * Stand-in control unit for development and testing. Accepts every payload and derives the
+ * signature from its digest; set VITE_ETIMS_STUB_FAIL=true to make it refuse, which exercises
+ * the retry queue.
+ */
+export const stubEtimsAdapter: EtimsAdapter = {
+  name: 'stub',
+  label: 'Local stub (testing only)',
+  submit: async ({ payload, digest }) => {
+    if (import.meta.env.VITE_ETIMS_STUB_FAIL === 'true') {
+      throw new Error('Control unit unreachable (stub configured to fail)');
+    }
+    const signature = digest.slice(0, 16).toUpperCase().match(/.{4}/g)!.join('-');
+    const cuInvoiceNumber = `${payload.device_serial}/${payload.document_number}`;
+    return {
+      cu_serial_number: payload.device_serial,
+      cu_invoice_number: cuInvoiceNumber,
+      signature,
+      qr_code: `ETIMS-STUB|${payload.seller_pin}|${payload.branch_id}|${cuInvoiceNumber}|${signature}`,
+      raw: { stub: true, received_at: new Date().toISOString() },
+    };
+  },
+};
+
+const adapters = new Map<string, EtimsAdapter>([[stubEtimsAdapter.name, stubEtimsAdapter]]);
+
+// Integrations for a real VSCU/OSCU register themselves here and are chosen per company
+export function registerEtimsAdapter(adapter: EtimsAdapter) {
+  adapters.set(adapter.name, adapter);
+}
+
+export function getEtimsAdapter(name?: string | null): EtimsAdapter {
+  const adapter = adapters.get(name || 'stub');
+  if (!adapter) throw new Error(`eTIMS adapter "${name}" is not available`);
+  return adapter;
+}
+
+export const listEtimsAdapters = () => Array.from(adapters.values());
+
+// Image of the QR text returned by the control unit, for printing on the document
+export const etimsQrDataUrl = (qrCode: string) => QRCode.toDataURL(qrCode, { margin: 1, width: 180 });
+
+// Minutes to wait before retry n (1-based): 1, 5, 15, 60, then hourly
+export const etimsRetryDelayMinutes = (attempts: number) => [1, 5, 15, 60][Math.min(attempts, 4) - 1] ?? 60;
@@ -0,0 +1,101 @@
+import type { StatementReport } from '@/utils/financialStatements';
+
+export interface StatementCompany {
+  name: string;
+  address?: string;
+  city?: string;
+  country?: string;
+  tax_number?: string;
+  logo_url?: string;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Prints a financial statement through the browser's print dialog, like the document PDFs
+export const generateFinancialStatementPDF = (report: StatementReport, company: StatementCompany) => {
+  const formatAmount = (amount: number | null, kind: string) => {
+    if (amount === null || amount === undefined) return '';
+    if (kind === 'ratio') return `${amount.toFixed(1)}%`;
+    const formatted = new Intl.NumberFormat('en-KE', {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2
+    }).format(Math.abs(amount));
+    return amount < 0 ? `(${formatted})` : formatted;
+  };
+
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('Could not open print window. Please allow popups.');
+  }
+
+  const rowsHtml = report.rows.map(row => {
+    if (row.kind === 'heading') {
+      return `<tr class="heading"><td colspan="${report.columns.length + 1}">${escapeHtml(row.label)}</td></tr>`;
+    }
+    const cells = report.columns.map((_, index) => `<td class="amount">${formatAmount(row.values[index] ?? null, row.kind)}</td>`).join('');
+    return `<tr class="${row.kind}"><td class="label">${escapeHtml(row.label)}</td>${cells}</tr>`;
+  }).join('');
+
+  const address = [company.address, company.city, company.country].filter(Boolean).join(', ');
+
+  const htmlContent = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>${escapeHtml(report.title)} - ${escapeHtml(report.period_label)}</title>
+      <style>
+        @page { size: A4; margin: 15mm; }
+        body { font-family: Arial, sans-serif; font-size: 12px; color: #222; margin: 0; }
+        .header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #333; padding-bottom: 10px; margin-bottom: 16px; }
+        .header img { max-height: 60px; }
+        .company { text-align: right; }
+        .company h2 { margin: 0 0 4px 0; font-size: 16px; }
+        h1 { font-size: 20px; margin: 0 0 4px 0; }
+        .period { color: #555; margin-bottom: 16px; }
+        table { width: 100%; border-collapse: collapse; }
+        th { text-align: right; border-bottom: 1px solid #333; padding: 6px 4px; font-size: 11px; }
+        th:first-child { text-align: left; }
+        td { padding: 4px; }
+        td.amount { text-align: right; white-space: nowrap; width: 120px; }
+        tr.heading td { font-weight: bold; padding-top: 12px; text-transform: uppercase; font-size: 11px; color: #444; }
+        tr.line td.label { padding-left: 16px; }
+        tr.total td { font-weight: bold; border-top: 1px solid #999; }
+        tr.grand_total td { font-weight: bold; border-top: 1px solid #333; border-bottom: 3px double #333; }
+        tr.ratio td { font-style: italic; color: #555; }
+        .note { margin-top: 16px; color: #555; font-size: 11px; }
+        .footer { margin-top: 24px; font-size: 10px; color: #888; text-align: center; }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <div>${company.logo_url ? `<img src="${escapeHtml(company.logo_url)}" alt="${escapeHtml(company.name)}">` : ''}</div>
+        <div class="company">
+          <h2>${escapeHtml(company.name)}</h2>
+          ${address ? `<div>${escapeHtml(address)}</div>` : ''}
+          ${company.tax_number ? `<div>PIN: ${escapeHtml(company.tax_number)}</div>` : ''}
+        </div>
+      </div>
+      <h1>${escapeHtml(report.title)}</h1>
+      <div class="period">${escapeHtml(report.period_label)}</div>
+      <table>
+        <thead>
+          <tr><th></th>${report.columns.map(column => `<th>${escapeHtml(column)}</th>`).join('')}</tr>
+        </thead>
+        <tbody>${rowsHtml}</tbody>
+      </table>
+      ${report.note ? `<div class="note">${escapeHtml(report.note)}</div>` : ''}
+      <div class="footer">${escapeHtml(company.name)} • Generated on ${new Date().toLocaleDateString()}</div>
+    </body>
+    </html>
+  `;
+
+  printWindow.document.write(htmlContent);
+  printWindow.document.close();
+
+  printWindow.onload = () => setTimeout(() => printWindow.print(), 500);
+  setTimeout(() => { if (printWindow && !printWindow.closed) printWindow.print(); }, 1000);
+
+  return printWindow;
+};
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import {
+  asAtComparisonDate,
+  buildBalanceSheet,
+  buildProfitAndLoss,
+  buildTrialBalanceReport,
+  costOfSalesAccountIds,
+  fiscalYearOf,
+  fiscalYearPeriod,
+  pnlComparisonPeriod,
+  yearEarlier,
+} from '@/utils/financialStatements';
+import type { GlAccountMapping } from '@/utils/ledger';
+import { balance } from '@/test/fixtures';
+
+const row = (rows: { label: string; values: (number | null)[] }[], label: string) => rows.find(r => r.label === label)?.values;
+
+describe('statement periods', () => {
+  it('names fiscal years by the calendar year they start in', () => {
+    expect(fiscalYearOf('2026-03-15', 7)).toBe(2025);
+    expect(fiscalYearOf('2026-07-01', 7)).toBe(2026);
+    expect(fiscalYearPeriod(2025, 7)).toEqual({ start: '2025-07-01', end: '2026-06-30', label: 'FY 2025/26' });
+    expect(fiscalYearPeriod(2026)).toEqual({ start: '2026-01-01', end: '2026-12-31', label: 'FY 2026' });
+  });
+
+  it('falls back to 28 February a year before a leap day', () => {
+    expect(yearEarlier('2024-02-29')).toBe('2023-02-28');
+    expect(yearEarlier('2026-03-31')).toBe('2025-03-31');
+  });
+
+  it('compares with the previous period or the same period a year earlier', () => {
+    expect(pnlComparisonPeriod('fiscal_year', 'previous', fiscalYearPeriod(2025, 7), 7)).toMatchObject({ start: '2024-07-01', end: '2025-06-30' });
+    const month = { start: '2026-03-01', end: '2026-03-31', label: 'March 2026' };
+    expect(pnlComparisonPeriod('month', 'previous', month)).toMatchObject({ start: '2026-02-01', end: '2026-02-28' });
+    expect(pnlComparisonPeriod('month', 'prior_year', month)).toMatchObject({ start: '2025-03-01', end: '2025-03-31' });
+    expect(pnlComparisonPeriod('month', 'none', month)).toBeNull();
+  });
+
+  it('compares a balance sheet with the last fiscal year end or a year earlier', () => {
+    expect(asAtComparisonDate('previous', '2026-03-15', 7)).toBe('2025-06-30');
+    expect(asAtComparisonDate('prior_year', '2026-03-15', 7)).toBe('2025-03-15');
+    expect(asAtComparisonDate('none', '2026-03-15')).toBeNull();
+  });
+});
+
+describe('costOfSalesAccountIds', () => {
+  it('collects the control and category cost of goods sold accounts', () => {
+    const mappings = [
+      { mapping_type: 'control', mapping_key: 'cogs', account_id: '5000' },
+      { mapping_type: 'category_cogs', mapping_key: 'cat-1', account_id: '5010' },
+      { mapping_type: 'control', mapping_key: 'receivables', account_id: '1100' },
+    ] as GlAccountMapping[];
+
+    expect([...costOfSalesAccountIds(mappings)]).toEqual(['5000', '5010']);
+  });
+});
+
+describe('buildProfitAndLoss', () => {
+  const period = { start: '2026-03-01', end: '2026-03-31', label: 'March 2026' };
+  const comparisonPeriod = { start: '2026-02-01', end: '2026-02-28', label: 'February 2026' };
+
+  it('works out gross and net profit with a comparison column and change', () => {
+    const pnl = buildProfitAndLoss({
+      current: [balance('4000', 'income', 0, 0, 10000), balance('5000', 'expense', 0, 6000, 0), balance('6000', 'expense', 0, 1500, 0)],
+      comparison: [balance('4000', 'income', 0, 200, 8200), balance('5000', 'expense', 0, 5000, 0), balance('6000', 'expense', 0, 1500, 0)],
+      costOfSalesIds: new Set(['5000']),
+      period,
+      comparisonPeriod,
+    });
+
+    expect(pnl).toMatchObject({ revenue: 10000, cost_of_sales: 6000, gross_profit: 4000, gross_margin: 40, net_profit: 2500 });
+    expect(pnl.report.columns).toEqual(['March 2026', 'February 2026', 'Change']);
+    expect(row(pnl.report.rows, '4000 Account 4000')).toEqual([10000, 8000, 2000]);
+    expect(row(pnl.report.rows, 'Gross margin %')).toEqual([40, 37.5, null]);
+    expect(row(pnl.report.rows, 'Total operating expenses')).toEqual([1500, 1500, 0]);
+    expect(row(pnl.report.rows, 'Net profit')).toEqual([2500, 1500, 1000]);
+  });
+
+  it('has no margin without revenue and leaves out accounts that did not move', () => {
+    const pnl = buildProfitAndLoss({
+      current: [balance('6000', 'expense', 0, 300, 0), balance('6100', 'expense', 0, 0, 0)],
+      comparison: null,
+      costOfSalesIds: new Set(),
+      period,
+      comparisonPeriod: null,
+    });
+
+    expect(pnl.gross_margin).toBeNull();
+    expect(pnl.net_profit).toBe(-300);
+    expect(pnl.report.rows.filter(r => r.kind === 'line').map(r => r.account_id)).toEqual(['6000']);
+  });
+});
+
+describe('buildBalanceSheet', () => {
+  it('splits equity into prior years and this year and balances', () => {
+    const sheet = buildBalanceSheet({
+      current: [
+        balance('1100', 'asset', 4000, 3000, 500),
+        balance('2000', 'liability', -1000, 0, 500),
+        balance('3000', 'equity', -2000, 0, 0),
+        balance('4000', 'income', -3000, 0, 2000),
+        balance('5000', 'expense', 1000, 1000, 0),
+      ],
+      comparison: null,
+      asAt: '2026-03-31',
+      comparisonAsAt: null,
+    });
+
+    expect(row(sheet.report.rows, 'Retained earnings (prior years)')).toEqual([2000]);
+    expect(row(sheet.report.rows, 'Profit for the year to date')).toEqual([1000]);
+    expect(row(sheet.report.rows, 'Total equity')).toEqual([5000]);
+    expect(sheet).toMatchObject({ total_assets: 6500, total_liabilities_and_equity: 6500, balanced: true });
+  });
+});
+
+describe('buildTrialBalanceReport', () => {
+  it('sets debit and credit columns for both dates side by side', () => {
+    const { report, balanced } = buildTrialBalanceReport({
+      current: [balance('1100', 'asset', 0, 500, 0), balance('4000', 'income', 0, 0, 500)],
+      comparison: [balance('1100', 'asset', 0, 200, 0), balance('2000', 'liability', 0, 0, 200)],
+      asAt: '2026-03-31',
+      comparisonAsAt: '2025-03-31',
+    });
+
+    expect(balanced).toBe(true);
+    expect(report.rows.map(r => [r.label, r.values])).toEqual([
+      ['1100 Account 1100', [500, 0, 200, 0]],
+      ['2000 Account 2000', [0, 0, 0, 200]],
+      ['4000 Account 4000', [0, 500, 0, 0]],
+      ['Total', [500, 500, 200, 200]],
+    ]);
+  });
+});
@@ -0,0 +1,344 @@
+// Financial statements built from ledger balances (gl_account_balances). Profit and loss reads the
+// movement in a period; the balance sheet and trial balance read closing balances at a date.
+import { monthPeriod } from '@/utils/vatReturn';
+import { buildTrialBalance, type AccountBalance, type GlAccountMapping } from '@/utils/ledger';
+
+export interface StatementPeriod {
+  start: string;
+  end: string;
+  label: string;
+}
+
+export type PnlPeriodMode = 'month' | 'fiscal_year';
+export type ComparisonMode = 'none' | 'previous' | 'prior_year';
+
+export type StatementRowKind = 'heading' | 'line' | 'total' | 'grand_total' | 'ratio';
+
+export interface StatementRow {
+  label: string;
+  kind: StatementRowKind;
+  values: (number | null)[];
+  account_id?: string;   // set on account lines, which drill down to their journals
+}
+
+export interface StatementReport {
+  title: string;
+  period_label: string;
+  columns: string[];
+  rows: StatementRow[];
+  note?: string;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const isoDate = (d: Date) =>
+  `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, '0')}-${String(d.getUTCDate()).padStart(2, '0')}`;
+
+const shiftMonths = (month: string, by: number) => {
+  const [year, m] = month.split('-').map(Number);
+  const d = new Date(Date.UTC(year, m - 1 + by, 1));
+  return `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, '0')}`;
+};
+
+const dayBefore = (date: string) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - 1);
+  return isoDate(d);
+};
+
+// Same day a year earlier; 29 February falls back to the 28th
+export const yearEarlier = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year - 1, month, 0)).getUTCDate();
+  return `${year - 1}-${String(month).padStart(2, '0')}-${String(Math.min(day, lastDay)).padStart(2, '0')}`;
+};
+
+export const monthStatementPeriod = (month: string): StatementPeriod => ({
+  ...monthPeriod(month),
+  label: new Date(`${month}-01T00:00:00`).toLocaleDateString('en-KE', { month: 'long', year: 'numeric' }),
+});
+
+// companies.fiscal_year_start is the month (1-12) the fiscal year opens in. A fiscal year is
+// identified by the calendar year it starts in.
+export const fiscalYearOf = (date: string, startMonth = 1) => {
+  const [year, month] = date.split('-').map(Number);
+  return month >= startMonth ? year : year - 1;
+};
+
+export const fiscalYearPeriod = (startYear: number, startMonth = 1): StatementPeriod => {
+  const start = `${startYear}-${String(startMonth).padStart(2, '0')}-01`;
+  const end = monthPeriod(shiftMonths(`${startYear}-${String(startMonth).padStart(2, '0')}`, 11)).end;
+  const label = startMonth === 1 ? `FY ${startYear}` : `FY ${startYear}/${String(startYear + 1).slice(-2)}`;
+  return { start, end, label };
+};
+
+export const fiscalYearStartDate = (date: string, startMonth = 1) =>
+  fiscalYearPeriod(fiscalYearOf(date, startMonth), startMonth).start;
+
+// The period a profit and loss is compared with: the one before it, or the same one a year earlier
+export function pnlComparisonPeriod(
+  mode: PnlPeriodMode,
+  comparison: ComparisonMode,
+  period: StatementPeriod,
+  startMonth = 1
+): StatementPeriod | null {
+  if (comparison === 'none') return null;
+  if (mode === 'fiscal_year') {
+    return fiscalYearPeriod(fiscalYearOf(period.start, startMonth) - 1, startMonth);
+  }
+  const month = period.start.slice(0, 7);
+  return monthStatementPeriod(shiftMonths(month, comparison === 'previous' ? -1 : -12));
+}
+
+// The date a balance sheet or trial balance is compared with: the end of the previous fiscal
+// year, or the same date a year earlier
+export function asAtComparisonDate(comparison: ComparisonMode, asAt: string, startMonth = 1): string | null {
+  if (comparison === 'none') return null;
+  if (comparison === 'previous') return dayBefore(fiscalYearStartDate(asAt, startMonth));
+  return yearEarlier(asAt);
+}
+
+export const formatStatementDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-KE', { day: 'numeric', month: 'long', year: 'numeric' });
+
+// Cost of sales is whatever the cost of goods sold mappings point at; stock leaves inventory into
+// those accounts at the movement's cost_per_unit
+export const costOfSalesAccountIds = (mappings: GlAccountMapping[]) =>
+  new Set(
+    mappings
+      .filter(m => (m.mapping_type === 'control' && m.mapping_key === 'cogs') || m.mapping_type === 'category_cogs')
+      .map(m => m.account_id)
+  );
+
+const movement = (balance: AccountBalance) => Number(balance.debit || 0) - Number(balance.credit || 0);
+const closing = (balance: AccountBalance) => Number(balance.opening_balance || 0) + movement(balance);
+
+// Account lines for one section across the current and comparison balances. `amount` turns a
+// balance into the figure shown (credit-normal sections flip the sign).
+function sectionLines(
+  current: AccountBalance[],
+  comparison: AccountBalance[] | null,
+  include: (balance: AccountBalance) => boolean,
+  amount: (balance: AccountBalance) => number
+) {
+  const accounts = new Map<string, { code: string; name: string; current: number; comparison: number }>();
+  const add = (balances: AccountBalance[], key: 'current' | 'comparison') => {
+    balances.filter(include).forEach(balance => {
+      const row = accounts.get(balance.account_id) || { code: balance.code, name: balance.name, current: 0, comparison: 0 };
+      row[key] = round2(amount(balance));
+      accounts.set(balance.account_id, row);
+    });
+  };
+  add(current, 'current');
+  if (comparison) add(comparison, 'comparison');
+
+  const lines = Array.from(accounts.entries())
+    .filter(([, row]) => row.current !== 0 || row.comparison !== 0)
+    .sort(([, a], [, b]) => a.code.localeCompare(b.code));
+  return {
+    lines,
+    current: round2(lines.reduce((sum, [, row]) => sum + row.current, 0)),
+    comparison: round2(lines.reduce((sum, [, row]) => sum + row.comparison, 0)),
+  };
+}
+
+const withChange = (current: number, comparison: number | null) =>
+  comparison === null ? [current] : [current, comparison, round2(current - comparison)];
+
+const lineRows = (section: ReturnType<typeof sectionLines>, hasComparison: boolean): StatementRow[] =>
+  section.lines.map(([accountId, row]) => ({
+    label: `${row.code} ${row.name}`,
+    kind: 'line',
+    values: withChange(row.current, hasComparison ? row.comparison : null),
+    account_id: accountId,
+  }));
+
+export interface ProfitAndLoss {
+  report: StatementReport;
+  revenue: number;
+  cost_of_sales: number;
+  gross_profit: number;
+  gross_margin: number | null;   // percent of revenue
+  net_profit: number;
+}
+
+export function buildProfitAndLoss(params: {
+  current: AccountBalance[];
+  comparison: AccountBalance[] | null;
+  costOfSalesIds: Set<string>;
+  period: StatementPeriod;
+  comparisonPeriod: StatementPeriod | null;
+}): ProfitAndLoss {
+  const { current, comparison, costOfSalesIds, period, comparisonPeriod } = params;
+  const hasComparison = !!comparison;
+  const credit = (balance: AccountBalance) => -movement(balance);
+
+  const income = sectionLines(current, comparison, b => b.account_type === 'income', credit);
+  const costOfSales = sectionLines(current, comparison, b => b.account_type === 'expense' && costOfSalesIds.has(b.account_id), movement);
+  const expenses = sectionLines(current, comparison, b => b.account_type === 'expense' && !costOfSalesIds.has(b.account_id), movement);
+
+  const gross = round2(income.current - costOfSales.current);
+  const grossComparison = round2(income.comparison - costOfSales.comparison);
+  const net = round2(gross - expenses.current);
+  const netComparison = round2(grossComparison - expenses.comparison);
+  const margin = (profit: number, revenue: number) => (revenue !== 0 ? round2((profit / revenue) * 100) : null);
+
+  const rows: StatementRow[] = [
+    { label: 'Revenue', kind: 'heading', values: [] },
+    ...lineRows(income, hasComparison),
+    { label: 'Total revenue', kind: 'total', values: withChange(income.current, hasComparison ? income.comparison : null) },
+    { label: 'Cost of sales', kind: 'heading', values: [] },
+    ...lineRows(costOfSales, hasComparison),
+    { label: 'Total cost of sales', kind: 'total', values: withChange(costOfSales.current, hasComparison ? costOfSales.comparison : null) },
+    { label: 'Gross profit', kind: 'grand_total', values: withChange(gross, hasComparison ? grossComparison : null) },
+    {
+      label: 'Gross margin %',
+      kind: 'ratio',
+      values: hasComparison
+        ? [margin(gross, income.current), margin(grossComparison, income.comparison), null]
+        : [margin(gross, income.current)],
+    },
+    { label: 'Operating expenses', kind: 'heading', values: [] },
+    ...lineRows(expenses, hasComparison),
+    { label: 'Total operating expenses', kind: 'total', values: withChange(expenses.current, hasComparison ? expenses.comparison : null) },
+    { label: 'Net profit', kind: 'grand_total', values: withChange(net, hasComparison ? netComparison : null) },
+  ];
+
+  return {
+    report: {
+      title: 'Profit and Loss',
+      period_label: period.label,
+      columns: comparisonPeriod ? [period.label, comparisonPeriod.label, 'Change'] : [period.label],
+      rows,
+    },
+    revenue: income.current,
+    cost_of_sales: costOfSales.current,
+    gross_profit: gross,
+    gross_margin: margin(gross, income.current),
+    net_profit: net,
+  };
+}
+
+export interface BalanceSheet {
+  report: StatementReport;
+  total_assets: number;
+  total_liabilities_and_equity: number;
+  balanced: boolean;
+}
+
+// Balances must be read from the start of the fiscal year containing the as-at date, so that
+// income and expense openings are prior years' earnings and their movement is this year's profit
+export function buildBalanceSheet(params: {
+  current: AccountBalance[];
+  comparison: AccountBalance[] | null;
+  asAt: string;
+  comparisonAsAt: string | null;
+}): BalanceSheet {
+  const { current, comparison, asAt, comparisonAsAt } = params;
+  const hasComparison = !!comparison;
+  const debitBalance = closing;
+  const creditBalance = (balance: AccountBalance) => -closing(balance);
+
+  const assets = sectionLines(current, comparison, b => b.account_type === 'asset', debitBalance);
+  const liabilities = sectionLines(current, comparison, b => b.account_type === 'liability', creditBalance);
+  const equity = sectionLines(current, comparison, b => b.account_type === 'equity', creditBalance);
+
+  const isResult = (balance: AccountBalance) => balance.account_type === 'income' || balance.account_type === 'expense';
+  const priorEarnings = (balances: AccountBalance[]) =>
+    round2(-balances.filter(isResult).reduce((sum, b) => sum + Number(b.opening_balance || 0), 0));
+  const yearProfit = (balances: AccountBalance[]) =>
+    round2(-balances.filter(isResult).reduce((sum, b) => sum + movement(b), 0));
+
+  const retained = priorEarnings(current);
+  const profit = yearProfit(current);
+  const retainedComparison = comparison ? priorEarnings(comparison) : 0;
+  const profitComparison = comparison ? yearProfit(comparison) : 0;
+
+  const totalEquity = round2(equity.current + retained + profit);
+  const totalEquityComparison = round2(equity.comparison + retainedComparison + profitComparison);
+  const totalLiabilitiesAndEquity = round2(liabilities.current + totalEquity);
+  const totalLiabilitiesAndEquityComparison = round2(liabilities.comparison + totalEquityComparison);
+
+  const pair = (value: number, comparisonValue: number) => withChange(value, hasComparison ? comparisonValue : null);
+
+  const rows: StatementRow[] = [
+    { label: 'Assets', kind: 'heading', values: [] },
+    ...lineRows(assets, hasComparison),
+    { label: 'Total assets', kind: 'grand_total', values: pair(assets.current, assets.comparison) },
+    { label: 'Liabilities', kind: 'heading', values: [] },
+    ...lineRows(liabilities, hasComparison),
+    { label: 'Total liabilities', kind: 'total', values: pair(liabilities.current, liabilities.comparison) },
+    { label: 'Equity', kind: 'heading', values: [] },
+    ...lineRows(equity, hasComparison),
+    { label: 'Retained earnings (prior years)', kind: 'line', values: pair(retained, retainedComparison) },
+    { label: 'Profit for the year to date', kind: 'line', values: pair(profit, profitComparison) },
+    { label: 'Total equity', kind: 'total', values: pair(totalEquity, totalEquityComparison) },
+    { label: 'Total liabilities and equity', kind: 'grand_total', values: pair(totalLiabilitiesAndEquity, totalLiabilitiesAndEquityComparison) },
+  ];
+
+  return {
+    report: {
+      title: 'Balance Sheet',
+      period_label: `As at ${formatStatementDate(asAt)}`,
+      columns: comparisonAsAt ? [formatStatementDate(asAt), formatStatementDate(comparisonAsAt), 'Change'] : [formatStatementDate(asAt)],
+      rows,
+    },
+    total_assets: assets.current,
+    total_liabilities_and_equity: totalLiabilitiesAndEquity,
+    balanced: assets.current === totalLiabilitiesAndEquity,
+  };
+}
+
+// Trial balance at a date with an optional comparison date, debit and credit columns side by side
+export function buildTrialBalanceReport(params: {
+  current: AccountBalance[];
+  comparison: AccountBalance[] | null;
+  asAt: string;
+  comparisonAsAt: string | null;
+}): { report: StatementReport; balanced: boolean } {
+  const { current, comparison, asAt, comparisonAsAt } = params;
+  const currentTb = buildTrialBalance(current);
+  const comparisonTb = comparison ? buildTrialBalance(comparison) : null;
+
+  const accounts = new Map<string, { code: string; name: string; values: number[] }>();
+  currentTb.rows.forEach(row => {
+    accounts.set(row.account_id, { code: row.code, name: row.name, values: [row.closing_debit, row.closing_credit, 0, 0] });
+  });
+  comparisonTb?.rows.forEach(row => {
+    const existing = accounts.get(row.account_id) || { code: row.code, name: row.name, values: [0, 0, 0, 0] };
+    existing.values[2] = row.closing_debit;
+    existing.values[3] = row.closing_credit;
+    accounts.set(row.account_id, existing);
+  });
+
+  const width = comparisonTb ? 4 : 2;
+  const rows: StatementRow[] = Array.from(accounts.entries())
+    .sort(([, a], [, b]) => a.code.localeCompare(b.code))
+    .map(([accountId, row]) => ({
+      label: `${row.code} ${row.name}`,
+      kind: 'line' as const,
+      values: row.values.slice(0, width),
+      account_id: accountId,
+    }));
+  rows.push({
+    label: 'Total',
+    kind: 'grand_total',
+    values: comparisonTb
+      ? [currentTb.total_debit, currentTb.total_credit, comparisonTb.total_debit, comparisonTb.total_credit]
+      : [currentTb.total_debit, currentTb.total_credit],
+  });
+
+  const currentLabel = formatStatementDate(asAt);
+  const comparisonLabel = comparisonAsAt ? formatStatementDate(comparisonAsAt) : '';
+  return {
+    report: {
+      title: 'Trial Balance',
+      period_label: `As at ${currentLabel}`,
+      columns: comparisonTb
+        ? [`Debit ${currentLabel}`, `Credit ${currentLabel}`, `Debit ${comparisonLabel}`, `Credit ${comparisonLabel}`]
+        : ['Debit', 'Credit'],
+      rows,
+    },
+    balanced: currentTb.balanced && (!comparisonTb || comparisonTb.balanced),
+  };
+}
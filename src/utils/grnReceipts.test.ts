@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { lpoReceiptStatus, previouslyReceivedFor, summarizeLpoReceipts } from '@/utils/grnReceipts';
+import type { GoodsReceivedNote, GRNItem } from '@/hooks/useDatabase';
+
+const lpoItems = [
+  { id: 'li-2', description: 'Cement', quantity: 10, unit_price: 750, sort_order: 2 },
+  { id: 'li-1', product_id: 'p-1', quantity: 2.5, unit_price: 1200, sort_order: 1, products: { name: 'Steel bar', unit_of_measure: 'tonne' } },
+];
+
+const grnItem = (lpo_item_id: string, quantity_received: number) => ({ lpo_item_id, quantity_received } as GRNItem);
+
+const grn = (id: string, created_at: string, items: GRNItem[], lpo_id = 'lpo-1'): GoodsReceivedNote => ({
+  id,
+  lpo_id,
+  grn_number: id,
+  received_date: created_at.slice(0, 10),
+  created_at,
+  grn_items: items,
+});
+
+describe('summarizeLpoReceipts', () => {
+  it('works out received and outstanding quantities in LPO order', () => {
+    const receipts = summarizeLpoReceipts(lpoItems, [
+      { lpo_item_id: 'li-1', quantity_received: 1.2 },
+      { lpo_item_id: 'li-1', quantity_received: 1.1 },
+      { lpo_item_id: 'li-2', quantity_received: 12 },
+    ]);
+
+    expect(receipts).toEqual([
+      { lpo_item_id: 'li-1', product_id: 'p-1', description: 'Steel bar', unit_of_measure: 'tonne', unit_cost: 1200, ordered: 2.5, received: 2.3, outstanding: 0.2 },
+      { lpo_item_id: 'li-2', product_id: undefined, description: 'Cement', unit_of_measure: undefined, unit_cost: 750, ordered: 10, received: 12, outstanding: 0 },
+    ]);
+  });
+});
+
+describe('lpoReceiptStatus', () => {
+  it('is null until something arrives, then partial until nothing is outstanding', () => {
+    expect(lpoReceiptStatus(summarizeLpoReceipts(lpoItems, []))).toBeNull();
+    expect(lpoReceiptStatus(summarizeLpoReceipts(lpoItems, [{ lpo_item_id: 'li-2', quantity_received: 10 }]))).toBe('partially_received');
+    expect(lpoReceiptStatus(summarizeLpoReceipts(lpoItems, [
+      { lpo_item_id: 'li-2', quantity_received: 10 },
+      { lpo_item_id: 'li-1', quantity_received: 2.5 },
+    ]))).toBe('received');
+  });
+});
+
+describe('previouslyReceivedFor', () => {
+  it('adds up earlier GRNs on the same LPO only', () => {
+    const grns = [
+      grn('GRN-1', '2026-03-01T09:00:00Z', [grnItem('li-1', 0.1), grnItem('li-2', 4)]),
+      grn('GRN-2', '2026-03-02T09:00:00Z', [grnItem('li-1', 0.2)]),
+      grn('GRN-3', '2026-03-03T09:00:00Z', [grnItem('li-1', 1)]),
+      grn('GRN-X', '2026-02-01T09:00:00Z', [grnItem('li-1', 50)], 'lpo-2'),
+    ];
+
+    expect(previouslyReceivedFor(grns[2], grns)).toEqual({ 'li-1': 0.3, 'li-2': 4 });
+    expect(previouslyReceivedFor(grns[0], grns)).toEqual({});
+  });
+});
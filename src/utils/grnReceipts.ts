@@ -0,0 +1,86 @@
+import type { GoodsReceivedNote } from '@/hooks/useDatabase';
+
+export interface LpoItemReceipt {
+  lpo_item_id: string;
+  product_id?: string;
+  description: string;
+  unit_of_measure?: string;
+  unit_cost: number;
+  ordered: number;
+  received: number;
+  outstanding: number;
+}
+
+// The LPO item fields that receipts are worked out from
+export interface ReceivableLpoItem {
+  id: string;
+  product_id?: string | null;
+  description?: string | null;
+  quantity: number;
+  unit_price: number;
+  sort_order?: number | null;
+  products?: { name?: string | null; unit_of_measure?: string | null } | null;
+}
+
+export type LpoReceiptStatus = 'partially_received' | 'received';
+
+// LPO statuses that goods can be received against
+export const RECEIVABLE_LPO_STATUSES = ['approved', 'partially_received'];
+
+const round3 = (n: number) => Math.round(n * 1000) / 1000;
+
+/**
+ * Ordered, received-to-date and outstanding quantities per LPO item.
+ * receivedItems are grn_items rows from every GRN raised against the LPO.
+ */
+export function summarizeLpoReceipts(
+  lpoItems: ReceivableLpoItem[] = [],
+  receivedItems: Array<{ lpo_item_id: string; quantity_received: number }> = []
+): LpoItemReceipt[] {
+  const receivedByItem = new Map<string, number>();
+  receivedItems.forEach(r => {
+    receivedByItem.set(r.lpo_item_id, (receivedByItem.get(r.lpo_item_id) || 0) + Number(r.quantity_received || 0));
+  });
+
+  return [...lpoItems]
+    .sort((a, b) => (a.sort_order || 0) - (b.sort_order || 0))
+    .map(item => {
+      const ordered = Number(item.quantity || 0);
+      const received = round3(receivedByItem.get(item.id) || 0);
+      return {
+        lpo_item_id: item.id,
+        product_id: item.product_id || undefined,
+        description: item.description || item.products?.name || '',
+        unit_of_measure: item.products?.unit_of_measure || undefined,
+        unit_cost: Number(item.unit_price || 0),
+        ordered,
+        received,
+        outstanding: Math.max(0, round3(ordered - received)),
+      };
+    });
+}
+
+/**
+ * LPO status after receipts: received once nothing is outstanding, partially received otherwise.
+ * Returns null when nothing has been received yet.
+ */
+export function lpoReceiptStatus(receipts: LpoItemReceipt[]): LpoReceiptStatus | null {
+  if (!receipts.some(r => r.received > 0)) return null;
+  return receipts.every(r => r.outstanding <= 0) ? 'received' : 'partially_received';
+}
+
+/**
+ * Quantity per LPO item received on GRNs recorded before this one, for the GRN printout.
+ */
+export function previouslyReceivedFor(
+  grn: Pick<GoodsReceivedNote, 'id' | 'lpo_id' | 'created_at'>,
+  allGrns: GoodsReceivedNote[] = []
+): Record<string, number> {
+  const previous: Record<string, number> = {};
+  allGrns
+    .filter(g => g.lpo_id === grn.lpo_id && g.id !== grn.id && new Date(g.created_at) < new Date(grn.created_at))
+    .forEach(g => (g.grn_items || []).forEach(item => {
+      previous[item.lpo_item_id] = round3((previous[item.lpo_item_id] || 0) + Number(item.quantity_received || 0));
+    }));
+  return previous;
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildTrialBalance,
+  isDebitNormal,
+  journalEntryTotal,
+  reconcileReceivables,
+  taxRateKey,
+  type AccountBalance,
+  type JournalEntry,
+} from '@/utils/ledger';
+import { balance } from '@/test/fixtures';
+
+describe('ledger helpers', () => {
+  it('normalises tax rate keys', () => {
+    expect(taxRateKey('16.00')).toBe('16');
+    expect(taxRateKey(0)).toBe('0');
+  });
+
+  it('treats assets and expenses as debit normal', () => {
+    expect(['asset', 'liability', 'equity', 'income', 'expense'].filter(type => isDebitNormal(type as AccountBalance['account_type'])))
+      .toEqual(['asset', 'expense']);
+  });
+
+  it('totals an entry from its debits', () => {
+    const entry = {
+      journal_lines: [
+        { debit: 100.1, credit: 0 },
+        { debit: 0.2, credit: 0 },
+        { debit: 0, credit: 100.3 },
+      ],
+    } as JournalEntry;
+
+    expect(journalEntryTotal(entry)).toBe(100.3);
+  });
+});
+
+describe('buildTrialBalance', () => {
+  const balances = [
+    balance('1100', 'asset', 1000, 500, 200),
+    balance('2000', 'liability', -300, 0, 100),
+    balance('4000', 'income', -700, 0, 400.5),
+    balance('5000', 'expense', 0, 200.5, 0),
+    balance('1200', 'asset', 0, 0, 0),
+  ];
+
+  it('shows closing balances on their natural side and balances', () => {
+    const tb = buildTrialBalance(balances);
+
+    expect(tb.rows.map(row => [row.code, row.closing_debit, row.closing_credit])).toEqual([
+      ['1100', 1300, 0],
+      ['2000', 0, 400],
+      ['4000', 0, 1100.5],
+      ['5000', 200.5, 0],
+    ]);
+    expect(tb).toMatchObject({ total_debit: 1500.5, total_credit: 1500.5, balanced: true });
+  });
+
+  it('keeps untouched accounts only when asked', () => {
+    expect(buildTrialBalance(balances, true).rows).toHaveLength(5);
+  });
+
+  it('keeps an account that moved back to zero', () => {
+    expect(buildTrialBalance([balance('1300', 'asset', 0, 50, 50)]).rows).toHaveLength(1);
+  });
+
+  it('flags a trial balance that does not balance', () => {
+    expect(buildTrialBalance([balance('1100', 'asset', 0, 10, 0)]).balanced).toBe(false);
+  });
+});
+
+describe('reconcileReceivables', () => {
+  it('lists only customers whose ledger and statement balances disagree, largest first', () => {
+    const result = reconcileReceivables({
+      ledger: [
+        { customer_id: 'c1', balance: 1000 },
+        { customer_id: 'c2', balance: 500 },
+        { customer_id: 'c3', balance: 0 },
+        { customer_id: null, balance: 25 },
+      ],
+      invoices: [
+        { customer_id: 'c1', open_balance: 1200 },
+        { customer_id: 'c2', open_balance: 500 },
+        { customer_id: 'c3', open_balance: 50 },
+      ],
+      unallocatedPayments: [{ customer_id: 'c1', amount: 150 }],
+      creditNotes: [{ customer_id: 'c1', balance: 50 }],
+      customerNames: { c1: 'Acme Ltd', c2: 'Beta Ltd' },
+    });
+
+    expect(result.customers).toEqual([
+      { customer_id: 'c3', customer_name: 'Unknown customer', ledger_balance: 0, statement_balance: 50, difference: -50 },
+      { customer_id: null, customer_name: 'No customer', ledger_balance: 25, statement_balance: 0, difference: 25 },
+    ]);
+    expect(result).toMatchObject({ ledger_total: 1525, statement_total: 1550, difference: -25 });
+  });
+});
@@ -0,0 +1,250 @@
+// General ledger helpers. Journals are posted by the database (migrations/024_general_ledger.sql);
+// this module only shapes what the ledger pages read back.
+
+export type GlAccountType = 'asset' | 'liability' | 'equity' | 'income' | 'expense';
+
+export type GlMappingType =
+  | 'control'
+  | 'tax_rate'
+  | 'payment_method'
+  | 'category_sales'
+  | 'category_inventory'
+  | 'category_cogs';
+
+export type JournalSourceType =
+  | 'invoice'
+  | 'credit_note'
+  | 'payment'
+  | 'stock_movement'
+  | 'supplier_bill'
+  | 'supplier_payment'
+  | 'payment_allocation'
+  | 'supplier_payment_allocation';
+
+export interface GlAccount {
+  id: string;
+  company_id: string;
+  code: string;
+  name: string;
+  account_type: GlAccountType;
+  description?: string | null;
+  is_active: boolean;
+  is_system: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GlAccountMapping {
+  id: string;
+  company_id: string;
+  mapping_type: GlMappingType;
+  mapping_key: string;
+  account_id: string;
+}
+
+export interface JournalLine {
+  id: string;
+  entry_id: string;
+  account_id: string;
+  debit: number;
+  credit: number;
+  description?: string | null;
+  customer_id?: string | null;
+  supplier_id?: string | null;
+  sort_order: number;
+  gl_accounts?: { code: string; name: string } | null;
+  customers?: { name: string } | null;
+  suppliers?: { name: string } | null;
+}
+
+export interface JournalEntry {
+  id: string;
+  company_id: string;
+  entry_number: string;
+  entry_date: string;
+  description?: string | null;
+  source_type: JournalSourceType;
+  source_id: string;
+  source_number?: string | null;
+  status: 'posted' | 'reversed';
+  reverses_entry_id?: string | null;
+  created_at: string;
+  journal_lines?: JournalLine[];
+}
+
+// One row of gl_account_balances(): movement before the period and within it
+export interface AccountBalance {
+  account_id: string;
+  code: string;
+  name: string;
+  account_type: GlAccountType;
+  is_active: boolean;
+  opening_balance: number;
+  debit: number;
+  credit: number;
+}
+
+export const ACCOUNT_TYPE_LABELS: Record<GlAccountType, string> = {
+  asset: 'Asset',
+  liability: 'Liability',
+  equity: 'Equity',
+  income: 'Income',
+  expense: 'Expense',
+};
+
+export const JOURNAL_SOURCE_LABELS: Record<JournalSourceType, string> = {
+  invoice: 'Invoice',
+  credit_note: 'Credit Note',
+  payment: 'Payment',
+  stock_movement: 'Stock Movement',
+  supplier_bill: 'Supplier Bill',
+  supplier_payment: 'Supplier Payment',
+  payment_allocation: 'Exchange Difference',
+  supplier_payment_allocation: 'Supplier Exchange Difference',
+};
+
+// Control accounts every posting falls back to; the keys the database looks up
+export const CONTROL_ACCOUNTS: { key: string; label: string }[] = [
+  { key: 'receivables', label: 'Accounts receivable' },
+  { key: 'payables', label: 'Accounts payable' },
+  { key: 'sales', label: 'Sales' },
+  { key: 'sales_returns', label: 'Sales returns (credit notes)' },
+  { key: 'vat_output', label: 'VAT output' },
+  { key: 'vat_input', label: 'VAT input' },
+  { key: 'inventory', label: 'Inventory' },
+  { key: 'cogs', label: 'Cost of goods sold' },
+  { key: 'purchases', label: 'Purchases (bills without an LPO)' },
+  { key: 'grni', label: 'Goods received not invoiced' },
+  { key: 'stock_adjustment', label: 'Stock adjustments' },
+  { key: 'fx_gain_loss', label: 'Foreign exchange gain/loss' },
+  { key: 'bank', label: 'Bank (unmapped payment methods)' },
+];
+
+// Stored payment_method values: customer payments use mobile_money, supplier payments mpesa
+export const PAYMENT_METHOD_MAPPINGS: { key: string; label: string }[] = [
+  { key: 'cash', label: 'Cash' },
+  { key: 'bank_transfer', label: 'Bank transfer' },
+  { key: 'cheque', label: 'Cheque' },
+  { key: 'card', label: 'Card' },
+  { key: 'mobile_money', label: 'M-Pesa (customer payments)' },
+  { key: 'mpesa', label: 'M-Pesa (supplier payments)' },
+];
+
+export const CATEGORY_MAPPING_TYPES: { type: GlMappingType; label: string; fallback: string }[] = [
+  { type: 'category_sales', label: 'Sales', fallback: 'sales' },
+  { type: 'category_inventory', label: 'Inventory', fallback: 'inventory' },
+  { type: 'category_cogs', label: 'Cost of sales', fallback: 'cogs' },
+];
+
+// Same key as gl_rate_key() in the migration: 16, 8, 0 (no trailing zeros)
+export const taxRateKey = (rate: number | string) => String(Number(rate || 0));
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Assets and expenses carry debit balances; the rest carry credit balances
+export const isDebitNormal = (type: GlAccountType) => type === 'asset' || type === 'expense';
+
+export interface TrialBalanceRow extends AccountBalance {
+  closing_balance: number;   // debit positive
+  closing_debit: number;
+  closing_credit: number;
+}
+
+export interface TrialBalance {
+  rows: TrialBalanceRow[];
+  total_debit: number;
+  total_credit: number;
+  balanced: boolean;
+}
+
+// Closing balances shown on their natural side. Accounts that never moved are left out unless
+// includeZero is set.
+export function buildTrialBalance(balances: AccountBalance[], includeZero = false): TrialBalance {
+  const rows = balances
+    .map(balance => {
+      const closing = round2(Number(balance.opening_balance || 0) + Number(balance.debit || 0) - Number(balance.credit || 0));
+      return {
+        ...balance,
+        opening_balance: Number(balance.opening_balance || 0),
+        debit: Number(balance.debit || 0),
+        credit: Number(balance.credit || 0),
+        closing_balance: closing,
+        closing_debit: closing > 0 ? closing : 0,
+        closing_credit: closing < 0 ? -closing : 0,
+      };
+    })
+    .filter(row => includeZero || row.closing_balance !== 0 || row.debit !== 0 || row.credit !== 0);
+
+  const total_debit = round2(rows.reduce((sum, row) => sum + row.closing_debit, 0));
+  const total_credit = round2(rows.reduce((sum, row) => sum + row.closing_credit, 0));
+  return { rows, total_debit, total_credit, balanced: total_debit === total_credit };
+}
+
+export const journalEntryTotal = (entry: JournalEntry) =>
+  round2((entry.journal_lines || []).reduce((sum, line) => sum + Number(line.debit || 0), 0));
+
+export interface ReceivablesCustomerRow {
+  customer_id: string | null;
+  customer_name: string;
+  ledger_balance: number;
+  statement_balance: number;
+  difference: number;
+}
+
+export interface ReceivablesReconciliation {
+  ledger_total: number;
+  statement_total: number;
+  difference: number;
+  customers: ReceivablesCustomerRow[];   // only customers that disagree
+}
+
+// Compares the receivables control account, customer by customer, with what the customer
+// statements say is owed: open invoice balances less unallocated payments and unused credit notes
+export function reconcileReceivables(input: {
+  ledger: { customer_id: string | null; balance: number }[];
+  invoices: { customer_id: string | null; open_balance: number }[];
+  unallocatedPayments: { customer_id: string | null; amount: number }[];
+  creditNotes: { customer_id: string | null; balance: number }[];
+  customerNames: Record<string, string>;
+}): ReceivablesReconciliation {
+  const byCustomer = new Map<string, { ledger: number; statement: number }>();
+  const row = (customerId: string | null) => {
+    const key = customerId || '';
+    if (!byCustomer.has(key)) byCustomer.set(key, { ledger: 0, statement: 0 });
+    return byCustomer.get(key)!;
+  };
+
+  input.ledger.forEach(l => { row(l.customer_id).ledger += Number(l.balance || 0); });
+  input.invoices.forEach(i => { row(i.customer_id).statement += Number(i.open_balance || 0); });
+  input.unallocatedPayments.forEach(p => { row(p.customer_id).statement -= Number(p.amount || 0); });
+  input.creditNotes.forEach(c => { row(c.customer_id).statement -= Number(c.balance || 0); });
+
+  const customers: ReceivablesCustomerRow[] = [];
+  let ledger_total = 0;
+  let statement_total = 0;
+  byCustomer.forEach((totals, key) => {
+    const ledger_balance = round2(totals.ledger);
+    const statement_balance = round2(totals.statement);
+    ledger_total += ledger_balance;
+    statement_total += statement_balance;
+    const difference = round2(ledger_balance - statement_balance);
+    if (difference !== 0) {
+      customers.push({
+        customer_id: key || null,
+        customer_name: key ? input.customerNames[key] || 'Unknown customer' : 'No customer',
+        ledger_balance,
+        statement_balance,
+        difference,
+      });
+    }
+  });
+
+  ledger_total = round2(ledger_total);
+  statement_total = round2(statement_total);
+  return {
+    ledger_total,
+    statement_total,
+    difference: round2(ledger_total - statement_total),
+    customers: customers.sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference)),
+  };
+}
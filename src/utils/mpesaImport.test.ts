@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { matchAccountReference, parseMpesaStatement, parseMpesaTime, splitOtherParty } from '@/utils/mpesaImport';
+
+describe('parseMpesaTime', () => {
+  it('reads statement times and C2B TransTime in East Africa Time', () => {
+    expect(parseMpesaTime('2024-03-05 14:22:10')).toBe('2024-03-05T14:22:10+03:00');
+    expect(parseMpesaTime('05/03/2024 2:22 PM')).toBe('2024-03-05T14:22:00+03:00');
+    expect(parseMpesaTime('05/03/2024 12:05 am')).toBe('2024-03-05T00:05:00+03:00');
+    expect(parseMpesaTime('20240305142210')).toBe('2024-03-05T14:22:10+03:00');
+    expect(parseMpesaTime('yesterday')).toBeNull();
+  });
+
+  it('splits the other party into phone and name', () => {
+    expect(splitOtherParty('254712***678 - JANE WANJIKU')).toEqual({ payer_phone: '254712***678', payer_name: 'JANE WANJIKU' });
+    expect(splitOtherParty('KCB Bank')).toEqual({ payer_phone: '', payer_name: 'KCB Bank' });
+  });
+});
+
+describe('parseMpesaStatement', () => {
+  const rows = [
+    ['Short Code', '', '123456'],
+    ['Organisation', 'Layons Construction'],
+    [],
+    ['Receipt No.', 'Completion Time', 'Details', 'Transaction Status', 'Paid In', 'Withdrawn', 'A/C No.', 'Other Party Info'],
+    ['sbc1xyz', '2024-03-05 14:22:10', 'Pay Bill Online', 'Completed', '1,500.00', '', 'INV-0012', '254712***678 - JANE WANJIKU'],
+    ['SBC2XYZ', '2024-03-05 15:00:00', 'Pay Bill from 254722***111 - JOHN OTIENO Acc. CUST-7', 'Completed', '200', '', '', ''],
+    ['SBC3XYZ', '2024-03-05 16:00:00', 'Business Charge', 'Completed', '', '-30.00', '', ''],
+    ['SBC4XYZ', '2024-03-05 16:30:00', 'Pay Bill Online', 'Failed', '999', '', 'INV-0013', ''],
+    ['SBC1XYZ', '2024-03-05 14:22:10', 'Pay Bill Online', 'Completed', '1,500.00', '', 'INV-0012', ''],
+    ['SBC5XYZ', 'not a date', 'Pay Bill Online', 'Completed', '50', '', '', ''],
+    ['SBC6XYZ', '2024-03-05 17:00:00', 'Pay Bill Online', 'Completed', 'abc', '', '', ''],
+  ];
+
+  it('keeps completed money-in rows and reads the account from the column or the details', () => {
+    const statement = parseMpesaStatement(rows);
+
+    expect(statement.paybill_number).toBe('123456');
+    expect(statement.receipts).toEqual([
+      { receipt_number: 'SBC1XYZ', transaction_time: '2024-03-05T14:22:10+03:00', amount: 1500, account_reference: 'INV-0012', payer_name: 'JANE WANJIKU', payer_phone: '254712***678' },
+      { receipt_number: 'SBC2XYZ', transaction_time: '2024-03-05T15:00:00+03:00', amount: 200, account_reference: 'CUST-7', payer_name: 'JOHN OTIENO', payer_phone: '254722***111' },
+    ]);
+  });
+
+  it('reports duplicate receipts and unreadable rows by row number', () => {
+    const statement = parseMpesaStatement(rows);
+
+    expect(statement.duplicate_receipts).toEqual(['SBC1XYZ']);
+    expect(statement.errors).toEqual([
+      { row: 10, reason: 'Unrecognised completion time "not a date"' },
+      { row: 11, reason: 'Paid In "abc" is not a number' },
+    ]);
+  });
+
+  it('needs the receipt, time and paid in columns', () => {
+    expect(() => parseMpesaStatement([['Date', 'Amount']])).toThrow(/Could not find the statement header/);
+  });
+});
+
+describe('matchAccountReference', () => {
+  const customers = [{ id: 'c1', customer_code: 'CUST-7' }, { id: 'c2', customer_code: 'CUST-8' }];
+  const invoices = [
+    { id: 'i12', invoice_number: 'INV-0012', customer_id: 'c1', status: 'sent', balance_due: 1500 },
+    { id: 'i13', invoice_number: 'INV-0013', customer_id: 'c2', status: 'paid', balance_due: 0 },
+    { id: 'i14', invoice_number: 'INV-0014', customer_id: 'c2', status: 'void', balance_due: 900 },
+  ];
+
+  it('matches an invoice number however it is typed', () => {
+    expect(matchAccountReference('inv 0012', invoices, customers)).toMatchObject({ invoice: { id: 'i12' }, customer: { id: 'c1' }, reason: 'invoice_number' });
+    expect(matchAccountReference('12', invoices, customers)).toMatchObject({ invoice: { id: 'i12' }, reason: 'invoice_number' });
+  });
+
+  it('names only the customer for a settled invoice or a customer code', () => {
+    expect(matchAccountReference('INV-0013', invoices, customers)).toMatchObject({ invoice: null, customer: { id: 'c2' }, reason: 'invoice_number' });
+    expect(matchAccountReference('cust7', invoices, customers)).toMatchObject({ invoice: null, customer: { id: 'c1' }, reason: 'customer_code' });
+  });
+
+  it('never matches void invoices or blank references', () => {
+    expect(matchAccountReference('INV-0014', invoices, customers).reason).toBe('none');
+    expect(matchAccountReference('', invoices, customers).reason).toBe('none');
+  });
+});
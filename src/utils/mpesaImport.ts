@@ -0,0 +1,216 @@
+import { parseCsv } from '@/utils/boqImport';
+import { parseStatementAmount, parseStatementDate, type StatementImportError } from '@/utils/bankStatementImport';
+import { invoiceOpenBalance } from '@/utils/customerCredit';
+
+// M-Pesa paybill receipts, read from the statement CSV exported from the M-Pesa org portal.
+// C2B confirmation callbacks (scripts/mpesa_c2b_mock.cjs) store the same fields, so both end up
+// as mpesa_transactions rows that are matched and recorded the same way.
+
+export type MpesaTransactionSource = 'statement' | 'c2b';
+export type MpesaTransactionStatus = 'pending' | 'recorded' | 'duplicate' | 'ignored';
+
+export interface ParsedMpesaReceipt {
+  receipt_number: string;
+  transaction_time: string;       // ISO timestamp in East Africa Time
+  amount: number;
+  account_reference: string;
+  payer_name: string;
+  payer_phone: string;
+}
+
+export interface ParsedMpesaStatement {
+  receipts: ParsedMpesaReceipt[];
+  errors: StatementImportError[];
+  paybill_number: string | null;
+  duplicate_receipts: string[];   // receipt numbers that appear more than once in the file
+}
+
+interface ColumnMap {
+  receipt: number;
+  time: number;
+  paid_in: number;
+  details?: number;
+  account?: number;
+  status?: number;
+  other_party?: number;
+}
+
+const HEADER_ALIASES: Record<keyof ColumnMap, RegExp> = {
+  receipt: /^(receipt\s*no\.?|receipt\s*number|receipt|transaction\s*id|trans\s*id)$/i,
+  time: /^(completion\s*time|transaction\s*time|completion\s*date|date)$/i,
+  paid_in: /^(paid\s*in|amount|paid\s*in\s*\(kes\))$/i,
+  details: /^(details|description)$/i,
+  account: /^(a\/c\s*no\.?|account\s*(no\.?|number|reference)|bill\s*ref(erence)?(\s*no\.?)?|acc\.?\s*no\.?)$/i,
+  status: /^(transaction\s*status|status)$/i,
+  other_party: /^(other\s*party\s*info|other\s*party|customer|sender)$/i,
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Parse an M-Pesa completion time ("2024-03-05 14:22:10", "05/03/2024 2:22 PM") or a C2B
+ * TransTime ("20240305142210"). M-Pesa reports East Africa Time, which is kept in the offset.
+ */
+export function parseMpesaTime(value: string): string | null {
+  const text = (value || '').trim();
+  const compact = text.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/);
+  if (compact) {
+    const date = parseStatementDate(text.slice(0, 8));
+    return date ? `${date}T${compact[4]}:${compact[5]}:${compact[6]}+03:00` : null;
+  }
+
+  const [datePart, ...rest] = text.split(/[\sT]+/);
+  const date = parseStatementDate(datePart);
+  if (!date) return null;
+
+  const time = rest.join(' ').match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?/i);
+  if (!time) return `${date}T00:00:00+03:00`;
+  let hours = Number(time[1]);
+  if (time[4]) hours = (hours % 12) + (time[4].toLowerCase() === 'pm' ? 12 : 0);
+  return `${date}T${pad(hours)}:${time[2]}:${time[3] || '00'}+03:00`;
+}
+
+// "254712***678 - JANE WANJIKU" (statement) into phone and name
+export function splitOtherParty(value: string): { payer_phone: string; payer_name: string } {
+  const text = (value || '').trim();
+  const m = text.match(/^([\d*+]{6,})\s*-\s*(.*)$/);
+  return m ? { payer_phone: m[1], payer_name: m[2].trim() } : { payer_phone: '', payer_name: text };
+}
+
+// Statement details read "Pay Bill from 254712***678 - JANE WANJIKU Acc. INV-0012"
+const accountFromDetails = (details: string) => details.match(/\bacc(?:ount)?\.?\s*(?:no\.?)?\s*[:-]?\s*(\S+)\s*$/i)?.[1] || '';
+
+function detectColumns(rows: string[][]): { columns: ColumnMap; headerIndex: number } | null {
+  for (let r = 0; r < Math.min(rows.length, 25); r++) {
+    const found: Partial<ColumnMap> = {};
+    rows[r].forEach((cell, c) => {
+      const text = (cell || '').trim();
+      (Object.keys(HEADER_ALIASES) as Array<keyof ColumnMap>).forEach((k) => {
+        if (found[k] === undefined && HEADER_ALIASES[k].test(text)) found[k] = c;
+      });
+    });
+    if (found.receipt !== undefined && found.time !== undefined && found.paid_in !== undefined) {
+      return { columns: found as ColumnMap, headerIndex: r };
+    }
+  }
+  return null;
+}
+
+/**
+ * Turn the rows of an M-Pesa paybill statement into receipts. Only completed money-in rows are
+ * kept; withdrawals, charges and failed transactions are skipped without an error. The portal puts
+ * a few lines (short code, organisation, period) above the header, which is found by its columns.
+ */
+export function parseMpesaStatement(rows: string[][]): ParsedMpesaStatement {
+  const detected = detectColumns(rows);
+  if (!detected) {
+    throw new Error('Could not find the statement header. The file needs Receipt No., Completion Time and Paid In columns.');
+  }
+
+  const { columns, headerIndex } = detected;
+  const cell = (row: string[], index?: number) => (index === undefined ? '' : (row[index] || '').trim());
+
+  const shortCodeRow = rows.slice(0, headerIndex).find(row => /short\s*code/i.test(row[0] || ''));
+  const paybill_number = shortCodeRow ? (shortCodeRow.slice(1).find(c => /\d/.test(c || '')) || '').trim() || null : null;
+
+  const receipts: ParsedMpesaReceipt[] = [];
+  const errors: StatementImportError[] = [];
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+
+  rows.slice(headerIndex + 1).forEach((row, i) => {
+    const rowNumber = headerIndex + i + 2;
+    if (row.every(c => !(c || '').trim())) return;
+
+    const status = cell(row, columns.status);
+    if (status && !/^completed$/i.test(status)) return;
+
+    const paidIn = parseStatementAmount(cell(row, columns.paid_in));
+    if (paidIn === null || paidIn === 0) return;
+    if (isNaN(paidIn)) { errors.push({ row: rowNumber, reason: `Paid In "${cell(row, columns.paid_in)}" is not a number` }); return; }
+    if (paidIn < 0) return;
+
+    const receipt = cell(row, columns.receipt).toUpperCase();
+    if (!receipt) { errors.push({ row: rowNumber, reason: 'Missing receipt number' }); return; }
+
+    const time = parseMpesaTime(cell(row, columns.time));
+    if (!time) { errors.push({ row: rowNumber, reason: `Unrecognised completion time "${cell(row, columns.time)}"` }); return; }
+
+    if (seen.has(receipt)) { duplicates.add(receipt); return; }
+    seen.add(receipt);
+
+    const details = cell(row, columns.details);
+    const party = splitOtherParty(cell(row, columns.other_party) || (details.match(/from\s+(.+?)(?:\s+acc\.?.*)?$/i)?.[1] || ''));
+
+    receipts.push({
+      receipt_number: receipt,
+      transaction_time: time,
+      amount: Math.round(paidIn * 100) / 100,
+      account_reference: cell(row, columns.account) || accountFromDetails(details),
+      payer_name: party.payer_name,
+      payer_phone: party.payer_phone,
+    });
+  });
+
+  return { receipts, errors, paybill_number, duplicate_receipts: Array.from(duplicates) };
+}
+
+export async function readMpesaStatementFile(file: File): Promise<ParsedMpesaStatement> {
+  if (!file.name.toLowerCase().endsWith('.csv') && file.type !== 'text/csv') {
+    throw new Error('Unsupported file type. Please upload the M-Pesa statement as a .csv file.');
+  }
+  const text = await file.text();
+  return parseMpesaStatement(parseCsv(text.replace(/^\uFEFF/, '')));
+}
+
+const normalize = (text?: string | null) => (text || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// "INV-0012", "inv 12" and "12" all name invoice INV-0012
+const numberPart = (text: string) => {
+  const digits = text.match(/(\d+)$/)?.[1];
+  return digits ? String(Number(digits)) : '';
+};
+
+export interface MpesaMatch<I, C> {
+  invoice: I | null;
+  customer: C | null;
+  reason: 'invoice_number' | 'customer_code' | 'none';
+}
+
+export type MatchInvoice = { id: string; invoice_number?: string | null; customer_id?: string | null; status?: string | null; total_amount?: number | string | null; paid_amount?: number | string | null; balance_due?: number | string | null };
+export type MatchCustomer = { id: string; customer_code?: string | null };
+
+/**
+ * Resolve the paybill account reference. An exact invoice number wins, then a customer code, then
+ * a bare number that identifies exactly one invoice. Void invoices are never matched; a matched
+ * invoice that is already paid still names the customer, so the receipt becomes their credit.
+ */
+export function matchAccountReference<I extends MatchInvoice, C extends MatchCustomer>(
+  reference: string | null | undefined,
+  invoices: I[],
+  customers: C[]
+): MpesaMatch<I, C> {
+  const ref = normalize(reference);
+  const none: MpesaMatch<I, C> = { invoice: null, customer: null, reason: 'none' };
+  if (!ref) return none;
+
+  const live = invoices.filter(inv => inv.status !== 'void' && inv.status !== 'draft');
+  const customerOf = (invoice: I) => customers.find(c => c.id === invoice.customer_id) || null;
+  const asInvoice = (invoice: I): MpesaMatch<I, C> => invoiceOpenBalance(invoice) > 0
+    ? { invoice, customer: customerOf(invoice), reason: 'invoice_number' }
+    : { invoice: null, customer: customerOf(invoice), reason: 'invoice_number' };
+
+  const exact = live.find(inv => normalize(inv.invoice_number) === ref);
+  if (exact) return asInvoice(exact);
+
+  const customer = customers.find(c => normalize(c.customer_code) === ref);
+  if (customer) return { invoice: null, customer, reason: 'customer_code' };
+
+  const refNumber = numberPart(ref);
+  if (refNumber && /^(INV)?\d+$/.test(ref)) {
+    const byNumber = live.filter(inv => numberPart(normalize(inv.invoice_number)) === refNumber);
+    if (byNumber.length === 1) return asInvoice(byNumber[0]);
+  }
+
+  return none;
+}
@@ -2,8 +2,13 @@
 // Since we don't have jsPDF installed, I'll create a simple HTML-to-print function
 // In a real app, you'd want to use a proper PDF library like jsPDF or react-pdf
 
+import { customerUnallocatedCredit } from '@/utils/customerCredit';
+import { etimsQrDataUrl } from '@/utils/etims';
+import { quotationDisplayNumber } from '@/utils/quotationLifecycle';
+import type { GoodsReceivedNote } from '@/hooks/useDatabase';
+
 export interface DocumentData {
-  type: 'quotation' | 'invoice' | 'remittance' | 'proforma' | 'delivery' | 'statement' | 'receipt' | 'lpo' | 'boq';
+  type: 'quotation' | 'invoice' | 'remittance' | 'proforma' | 'delivery' | 'statement' | 'receipt' | 'lpo' | 'boq' | 'certificate' | 'grn';
   number: string;
   date: string;
   lpo_number?: string;
@@ -19,6 +24,23 @@ export interface DocumentData {
   // BOQ-specific structured fields
   project_title?: string;
   contractor?: string;
+  // Interim payment certificate figures
+  certificate?: {
+    boq_number: string;
+    valuation_date: string;
+    gross_value: number;
+    retention_percentage: number;
+    retention_amount: number;
+    net_value: number;
+    previous_certified: number;
+    amount_due: number;
+  };
+  boq_summary?: {
+    bills: Array<{ title: string; amount: number }>;
+    provisional: number;
+    prime_cost: number;
+    percentage: number;
+  };
   items?: Array<{
     description: string;
     quantity: number;
@@ -31,6 +53,17 @@ export interface DocumentData {
     tax_inclusive?: boolean;
     line_total: number;
     unit_of_measure?: string;
+    unit_abbreviation?: string;
+    // BOQ rows: bill headings and bill totals are rendered differently from items
+    row_type?: 'section' | 'section_total' | 'item';
+    // Certificate rows: contract value, progress text and value on the previous certificate
+    contract_amount?: number;
+    progress?: string;
+    previous_value?: number;
+    // GRN rows: quantity on the LPO and quantity received on earlier GRNs
+    quantity_ordered?: number;
+    quantity_previous?: number;
+    item_kind?: 'measured' | 'provisional' | 'prime_cost' | 'percentage';
     transaction_date?: string;
     reference?: string;
     debit?: number;
@@ -43,8 +76,10 @@ export interface DocumentData {
   subtotal?: number;
   tax_amount?: number;
   total_amount: number;
+  currency?: string; // Document currency; amounts print in KES when it is not given
   paid_amount?: number;
   balance_due?: number;
+  unallocated_credit?: number; // Statements: customer payments not yet allocated to an invoice
   notes?: string;
   terms_and_conditions?: string;
   valid_until?: string; // For proforma invoices
@@ -57,6 +92,75 @@ export interface DocumentData {
   tracking_number?: string;
   delivered_by?: string;
   received_by?: string;
+  // GRN specific fields
+  supplier_delivery_note?: string;
+  // KRA eTIMS control unit details, printed on fiscalised invoices
+  etims?: EtimsPrintDetails;
+}
+
+export interface EtimsPrintDetails {
+  cu_serial_number: string;
+  cu_invoice_number: string;
+  signature: string;
+  qr_image?: string; // data URL of the QR code
+}
+
+// An invoice, proforma or quotation line as stored, or as returned by get_shared_document
+export interface PrintableItem {
+  description?: string | null;
+  product_name?: string | null;
+  quantity?: number | string | null;
+  unit_price?: number | string | null;
+  discount_percentage?: number | string | null;
+  discount_before_vat?: number | string | null;
+  discount_amount?: number | string | null;
+  tax_percentage?: number | string | null;
+  tax_amount?: number | string | null;
+  tax_inclusive?: boolean | null;
+  line_total?: number | string | null;
+  unit_of_measure?: string | null;
+  products?: { name?: string | null; unit_of_measure?: string | null } | null;
+}
+
+interface PrintableCustomer {
+  name?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  city?: string;
+  country?: string;
+}
+
+interface PrintableTotals {
+  subtotal?: number;
+  tax_amount?: number;
+  total_amount: number;
+  currency?: string;
+  notes?: string;
+  terms_and_conditions?: string;
+  customers?: PrintableCustomer | null;
+}
+
+export interface PrintableInvoice extends PrintableTotals {
+  invoice_number?: string;
+  invoice_date?: string;
+  due_date?: string;
+  lpo_number?: string;
+  paid_amount?: number;
+  balance_due?: number;
+  etims_cu_serial_number?: string | null;
+  etims_cu_invoice_number?: string | null;
+  etims_signature?: string | null;
+  etims_qr_code?: string | null;
+  invoice_items?: PrintableItem[];
+}
+
+export interface PrintableQuotation extends PrintableTotals {
+  quotation_number?: string;
+  quotation_date?: string;
+  valid_until?: string;
+  revision_number?: number | null;
+  quotation_items?: PrintableItem[];
 }
 
 // Company details interface
@@ -116,7 +220,8 @@ const analyzeColumns = (items: DocumentData['items']) => {
   return columns;
 };
 
-export const generatePDF = (data: DocumentData) => {
+// The printable HTML of a document; generatePDF prints it and the customer portal displays it
+export const buildDocumentHTML = (data: DocumentData): string => {
   // Extract theme color variables from the main document so PDFs match the app theme
   const computed = typeof window !== 'undefined' ? getComputedStyle(document.documentElement) : null;
   const primaryVar = computed ? (computed.getPropertyValue('--primary') || '46 65% 53%').trim() : '46 65% 53%';
@@ -135,7 +240,7 @@ export const generatePDF = (data: DocumentData) => {
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-KE', {
       style: 'currency',
-      currency: 'KES',
+      currency: data.currency || 'KES',
       minimumFractionDigits: 2,
       maximumFractionDigits: 2
     }).format(amount);
@@ -149,12 +254,6 @@ export const generatePDF = (data: DocumentData) => {
     });
   };
 
-  // Create a new window with the document content
-  const printWindow = window.open('', '_blank');
-  if (!printWindow) {
-    throw new Error('Could not open print window. Please allow popups.');
-  }
-
   const documentTitle = data.type === 'proforma' ? 'Proforma Invoice' :
                        data.type === 'delivery' ? 'Delivery Note' :
                        data.type === 'statement' ? 'Customer Statement' :
@@ -162,6 +261,8 @@ export const generatePDF = (data: DocumentData) => {
                        data.type === 'remittance' ? 'Remittance Advice' :
                        data.type === 'lpo' ? 'Purchase Order' :
                        data.type === 'boq' ? 'Bill of Quantities' :
+                       data.type === 'certificate' ? 'Interim Payment Certificate' :
+                       data.type === 'grn' ? 'Goods Received Note' :
                        data.type.charAt(0).toUpperCase() + data.type.slice(1);
   
   // Prefer structured fields if present, otherwise fall back to parsing notes
@@ -178,14 +279,28 @@ export const generatePDF = (data: DocumentData) => {
 
   // If this is a BOQ, render a dedicated BOQ-style layout
   if (data.type === 'boq') {
-    // Build table rows grouped by section markers (we used '➤ ' prefix for section rows)
+    // Build table rows grouped by section markers (older callers used a '➤ ' prefix and zero qty/price for section rows)
+    const kindLabels = { provisional: 'Provisional Sum', prime_cost: 'PC Sum' };
     const rowsHtml = (data.items || []).map((it) => {
-      const isSection = (it.quantity === 0 && it.unit_price === 0);
+      const isSection = it.row_type ? it.row_type === 'section' : (it.quantity === 0 && it.unit_price === 0);
       if (isSection) {
         return `<tr class="section-row"><td colspan="5" class="section-title">${it.description.replace(/^➤\s*/, '')}</td></tr>`;
       }
-      return `<tr class="item-row">
+      if (it.row_type === 'section_total') {
+        return `<tr class="section-total-row"><td colspan="4">${it.description}</td><td class="amount">${formatCurrency(it.line_total || 0)}</td></tr>`;
+      }
+      if (it.item_kind === 'percentage') {
+        return `<tr class="item-row">
         <td class="desc">${it.description}</td>
+        <td class="qty">${it.quantity}%</td>
+        <td class="unit"></td>
+        <td class="rate"></td>
+        <td class="amount">${formatCurrency(it.line_total || 0)}</td>
+      </tr>`;
+      }
+      const kindLabel = kindLabels[it.item_kind as keyof typeof kindLabels];
+      return `<tr class="item-row">
+        <td class="desc">${it.description}${kindLabel ? ` <span class="kind-tag">${kindLabel}</span>` : ''}</td>
         <td class="qty">${it.quantity || ''}</td>
         <td class="unit">${it.unit_abbreviation || it.unit_of_measure || ''}</td>
         <td class="rate">${formatCurrency(it.unit_price || 0)}</td>
@@ -193,6 +308,38 @@ export const generatePDF = (data: DocumentData) => {
       </tr>`;
     }).join('');
 
+    // Collection / summary page listing each bill's total
+    const summary = data.boq_summary;
+    const summaryHtml = summary && summary.bills.length > 0 ? `
+        <div class="collection">
+          <div class="title">COLLECTION / SUMMARY</div>
+          <table class="items">
+            <thead>
+              <tr>
+                <th style="width:10%">BILL</th>
+                <th style="width:65%; text-align:left">DESCRIPTION</th>
+                <th style="width:25%">AMOUNT (KSHS)</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${summary.bills.map((bill, i) => `<tr class="item-row">
+                <td style="text-align:center">${i + 1}</td>
+                <td class="desc">${bill.title}</td>
+                <td class="amount">${formatCurrency(bill.amount || 0)}</td>
+              </tr>`).join('')}
+              <tr class="section-total-row"><td colspan="2">TOTAL CARRIED TO FORM OF TENDER</td><td class="amount">${formatCurrency(data.total_amount || 0)}</td></tr>
+            </tbody>
+          </table>
+          ${summary.provisional || summary.prime_cost || summary.percentage ? `
+          <table class="collection-notes">
+            <tr><td colspan="2"><strong>The above total includes:</strong></td></tr>
+            ${summary.provisional ? `<tr><td>Provisional sums</td><td class="amount">${formatCurrency(summary.provisional)}</td></tr>` : ''}
+            ${summary.prime_cost ? `<tr><td>Prime cost sums</td><td class="amount">${formatCurrency(summary.prime_cost)}</td></tr>` : ''}
+            ${summary.percentage ? `<tr><td>Percentage additions (contingency, preliminaries)</td><td class="amount">${formatCurrency(summary.percentage)}</td></tr>` : ''}
+          </table>` : ''}
+        </div>
+    ` : '';
+
     const htmlContentBOQ = `
     <!DOCTYPE html>
     <html>
@@ -224,6 +371,11 @@ export const generatePDF = (data: DocumentData) => {
         .section-row td.section-title { background:#f4f4f4; font-weight:700; padding:8px; }
         .item-row td.desc { width:60%; }
         .item-row td.qty, .item-row td.unit, .item-row td.rate, .item-row td.amount { text-align:right; }
+        .section-total-row td { font-weight:700; text-align:right; border-top:2px solid #999; }
+        .kind-tag { font-size:9px; font-weight:700; color:hsl(var(--primary)); text-transform:uppercase; margin-left:4px; }
+        .collection { page-break-before: always; }
+        .collection-notes { width:60%; margin:12px 0 0 auto; font-size:11px; }
+        .collection-notes td.amount { text-align:right; }
         .totals { margin-top:12px; width:100%; }
         .totals .label { text-align:right; padding-right:12px; }
         .footer { margin-top:30px; display:flex; justify-content:space-between; gap:20px; }
@@ -308,6 +460,8 @@ export const generatePDF = (data: DocumentData) => {
           </table>
         </div>
 
+        ${summaryHtml}
+
         <div class="footer">
           <div class="sig">SIGNED: (CONTRACTOR)</div>
           <div class="sig">SIGNED: (EMPLOYER)</div>
@@ -318,13 +472,7 @@ export const generatePDF = (data: DocumentData) => {
     </html>
     `;
 
-    printWindow.document.write(htmlContentBOQ);
-    printWindow.document.close();
-
-    printWindow.onload = () => setTimeout(() => printWindow.print(), 500);
-    setTimeout(() => { if (printWindow && !printWindow.closed) printWindow.print(); }, 1000);
-
-    return printWindow;
+    return htmlContentBOQ;
   }
 
   // Fallback generic document HTML (existing template)
@@ -599,6 +747,28 @@ export const generatePDF = (data: DocumentData) => {
           font-weight: bold;
           color: hsl(var(--primary));
         }
+
+        .etims-section {
+          margin-top: 15px;
+          display: flex;
+          align-items: center;
+          gap: 15px;
+          padding: 10px;
+          border: 1px solid #dee2e6;
+          font-size: 10px;
+          page-break-inside: avoid;
+        }
+
+        .etims-section img {
+          width: 90px;
+          height: 90px;
+        }
+
+        .etims-section .etims-title {
+          font-weight: bold;
+          font-size: 11px;
+          margin-bottom: 4px;
+        }
         
         
         .footer {
@@ -758,7 +928,7 @@ export const generatePDF = (data: DocumentData) => {
 
             <!-- Client Details Section -->
             <div style="margin-top: 20px; padding-top: 15px; border-top: 1px solid #e9ecef;">
-              <div class="section-title" style="font-size: 12px; font-weight: bold; color: hsl(var(--primary)); margin-bottom: 8px; text-transform: uppercase;">${data.type === 'lpo' ? 'Supplier' : 'Client'}</div>
+              <div class="section-title" style="font-size: 12px; font-weight: bold; color: hsl(var(--primary)); margin-bottom: 8px; text-transform: uppercase;">${data.type === 'lpo' || data.type === 'grn' ? 'Supplier' : 'Client'}</div>
               <div class="customer-name" style="font-size: 14px; font-weight: bold; margin-bottom: 5px; color: #212529;">${data.customer.name}</div>
               <div class="customer-details" style="font-size: 10px; color: #666; line-height: 1.4;">
                 ${data.customer.email ? `${data.customer.email}<br>` : ''}
@@ -775,11 +945,11 @@ export const generatePDF = (data: DocumentData) => {
             <div class="document-details">
               <table>
                 <tr>
-                  <td class="label">${data.type === 'receipt' ? 'Receipt #' : data.type === 'remittance' ? 'Advice #' : data.type === 'lpo' ? 'LPO #' : documentTitle + ' #'}:</td>
+                  <td class="label">${data.type === 'receipt' ? 'Receipt #' : data.type === 'remittance' ? 'Advice #' : data.type === 'lpo' ? 'LPO #' : data.type === 'grn' ? 'GRN #' : documentTitle + ' #'}:</td>
                   <td class="value">${data.number}</td>
                 </tr>
                 <tr>
-                  <td class="label">${data.type === 'lpo' ? 'Order Date' : 'Date'}:</td>
+                  <td class="label">${data.type === 'lpo' ? 'Order Date' : data.type === 'grn' ? 'Received Date' : 'Date'}:</td>
                   <td class="value">${formatDate(data.date)}</td>
                 </tr>
                 ${data.due_date ? `
@@ -794,6 +964,24 @@ export const generatePDF = (data: DocumentData) => {
                   <td class="value">${formatDate(data.valid_until)}</td>
                 </tr>
                 ` : ''}
+                ${data.type === 'certificate' && data.certificate ? `
+                <tr>
+                  <td class="label">BOQ #:</td>
+                  <td class="value">${data.certificate.boq_number}</td>
+                </tr>
+                ${data.project_title ? `
+                <tr>
+                  <td class="label">Project:</td>
+                  <td class="value">${data.project_title}</td>
+                </tr>
+                ` : ''}
+                ` : ''}
+                ${data.type === 'grn' && data.supplier_delivery_note ? `
+                <tr>
+                  <td class="label">Supplier DN #:</td>
+                  <td class="value">${data.supplier_delivery_note}</td>
+                </tr>
+                ` : ''}
                 ${data.lpo_number && data.type !== 'lpo' ? `
                 <tr>
                   <td class="label">LPO Number:</td>
@@ -801,7 +989,7 @@ export const generatePDF = (data: DocumentData) => {
                 </tr>
                 ` : ''}
                 <tr>
-                  <td class="label">${data.type === 'receipt' ? 'Amount Paid' : data.type === 'remittance' ? 'Total Payment' : data.type === 'lpo' ? 'Order Total' : 'Amount'}:</td>
+                  <td class="label">${data.type === 'receipt' ? 'Amount Paid' : data.type === 'remittance' ? 'Total Payment' : data.type === 'lpo' ? 'Order Total' : data.type === 'certificate' ? 'Amount Due' : data.type === 'grn' ? 'Value Received' : 'Amount'}:</td>
                   <td class="value" style="font-weight: bold; color: ${data.type === 'receipt' ? 'hsl(var(--primary))' : 'hsl(var(--primary))'};">${formatCurrency(data.total_amount)}</td>
                 </tr>
               </table>
@@ -898,6 +1086,23 @@ export const generatePDF = (data: DocumentData) => {
                 <th style="width: 16%;">Invoice Amount</th>
                 <th style="width: 16%;">Credit Amount</th>
                 <th style="width: 18%;">Payment Amount</th>
+                ` : data.type === 'certificate' ? `
+                <th style="width: 5%;">#</th>
+                <th style="width: 35%;">Item Description</th>
+                <th style="width: 13%;">Contract Amount</th>
+                <th style="width: 10%;">Progress</th>
+                <th style="width: 12%;">Previous</th>
+                <th style="width: 12%;">This Period</th>
+                <th style="width: 13%;">To Date</th>
+                ` : data.type === 'grn' ? `
+                <th style="width: 5%;">#</th>
+                <th style="width: 31%;">Item Description</th>
+                <th style="width: 9%;">Ordered</th>
+                <th style="width: 11%;">Previously Received</th>
+                <th style="width: 10%;">Received Now</th>
+                <th style="width: 8%;">Unit</th>
+                <th style="width: 12%;">Unit Cost</th>
+                <th style="width: 14%;">Value</th>
                 ` : data.type === 'boq' ? `
                 <th style="width: 5%;">#</th>
                 <th style="width: 45%;">Item Description</th>
@@ -949,6 +1154,19 @@ export const generatePDF = (data: DocumentData) => {
                       '<span style="color: #F59E0B; font-weight: bold;">⚠ Partial</span>'
                     }
                   </td>
+                  ` : data.type === 'certificate' ? `
+                  <td class="amount-cell">${formatCurrency(item.contract_amount || 0)}</td>
+                  <td>${item.progress || ''}</td>
+                  <td class="amount-cell">${formatCurrency(item.previous_value || 0)}</td>
+                  <td class="amount-cell">${formatCurrency((item.line_total || 0) - (item.previous_value || 0))}</td>
+                  <td class="amount-cell">${formatCurrency(item.line_total)}</td>
+                  ` : data.type === 'grn' ? `
+                  <td>${item.quantity_ordered ?? ''}</td>
+                  <td>${item.quantity_previous || 0}</td>
+                  <td style="font-weight: bold;">${item.quantity}</td>
+                  <td>${item.unit_of_measure || 'pcs'}</td>
+                  <td class="amount-cell">${formatCurrency(item.unit_price)}</td>
+                  <td class="amount-cell">${formatCurrency(item.line_total)}</td>
                   ` : data.type === 'boq' ? `
                   <td>${item.quantity}</td>
                   <td>${(item as any).unit_of_measure || (item as any).unit || 'Item'}</td>
@@ -972,16 +1190,64 @@ export const generatePDF = (data: DocumentData) => {
         </div>
         ` : ''}
         
-        <!-- Totals Section (not for delivery notes) -->
-        ${data.type !== 'delivery' ? `
+        <!-- Certificate Section (interim payment certificates) -->
+        ${data.type === 'certificate' && data.certificate ? `
+        <div class="totals-section">
+          <table class="totals-table">
+            <tr class="subtotal-row">
+              <td class="label">Gross Value of Work Done to ${formatDate(data.certificate.valuation_date)}:</td>
+              <td class="amount">${formatCurrency(data.certificate.gross_value)}</td>
+            </tr>
+            <tr>
+              <td class="label">Less Retention (${data.certificate.retention_percentage}%):</td>
+              <td class="amount">(${formatCurrency(data.certificate.retention_amount)})</td>
+            </tr>
+            <tr class="subtotal-row">
+              <td class="label">Net Value Certified to Date:</td>
+              <td class="amount">${formatCurrency(data.certificate.net_value)}</td>
+            </tr>
+            <tr>
+              <td class="label">Less Previous Certificates:</td>
+              <td class="amount">(${formatCurrency(data.certificate.previous_certified)})</td>
+            </tr>
+            <tr class="total-row">
+              <td class="label">AMOUNT DUE THIS CERTIFICATE:</td>
+              <td class="amount">${formatCurrency(data.certificate.amount_due)}</td>
+            </tr>
+          </table>
+        </div>
+        <div class="signature-section">
+          <div class="signature-row">
+            <div class="signature-box">
+              <div class="signature-label">Certified By (Quantity Surveyor):</div>
+              <div class="signature-line">_________________________</div>
+              <div class="signature-date">Date: __________</div>
+            </div>
+            <div class="signature-box">
+              <div class="signature-label">Approved By (Employer):</div>
+              <div class="signature-line">_________________________</div>
+              <div class="signature-date">Date: __________</div>
+            </div>
+          </div>
+        </div>
+        ` : ''}
+
+        <!-- Totals Section (not for delivery notes, certificates or GRNs) -->
+        ${data.type !== 'delivery' && data.type !== 'certificate' && data.type !== 'grn' ? `
         <div class="totals-section">
           <table class="totals-table">
             ${data.subtotal ? `
             <tr class="subtotal-row">
-              <td class="label">Subtotal:</td>
+              <td class="label">${data.type === 'statement' ? 'Invoices Outstanding:' : 'Subtotal:'}</td>
               <td class="amount">${formatCurrency(data.subtotal)}</td>
             </tr>
             ` : ''}
+            ${data.type === 'statement' && data.unallocated_credit ? `
+            <tr>
+              <td class="label">Less Unallocated Credit:</td>
+              <td class="amount">(${formatCurrency(data.unallocated_credit)})</td>
+            </tr>
+            ` : ''}
             ${data.tax_amount ? `
             <tr>
               <td class="label">Tax Amount:</td>
@@ -1006,6 +1272,19 @@ export const generatePDF = (data: DocumentData) => {
         </div>
         ` : ''}
 
+        <!-- KRA eTIMS control unit details -->
+        ${data.etims ? `
+        <div class="etims-section">
+          ${data.etims.qr_image ? `<img src="${data.etims.qr_image}" alt="eTIMS QR code" />` : ''}
+          <div>
+            <div class="etims-title">KRA eTIMS</div>
+            <div>CU Serial No: ${data.etims.cu_serial_number}</div>
+            <div>CU Invoice No: ${data.etims.cu_invoice_number}</div>
+            <div>Signature: ${data.etims.signature}</div>
+          </div>
+        </div>
+        ` : ''}
+
         <!-- Signature Section (for delivery notes) -->
         ${data.type === 'delivery' ? `
         <div class="signature-section">
@@ -1024,6 +1303,37 @@ export const generatePDF = (data: DocumentData) => {
         </div>
         ` : ''}
 
+        <!-- Signature Section (for goods received notes) -->
+        ${data.type === 'grn' ? `
+        <div class="totals-section">
+          <table class="totals-table">
+            <tr class="total-row">
+              <td class="label">VALUE RECEIVED:</td>
+              <td class="amount">${formatCurrency(data.total_amount)}</td>
+            </tr>
+          </table>
+        </div>
+        <div class="signature-section">
+          <div class="signature-row">
+            <div class="signature-box">
+              <div class="signature-label">Delivered By (Supplier):</div>
+              <div class="signature-line">${data.delivered_by || '_________________________'}</div>
+              <div class="signature-date">Date: __________</div>
+            </div>
+            <div class="signature-box">
+              <div class="signature-label">Received By:</div>
+              <div class="signature-line">${data.received_by || '_________________________'}</div>
+              <div class="signature-date">Date: ${formatDate(data.date)}</div>
+            </div>
+            <div class="signature-box">
+              <div class="signature-label">Checked By (Stores):</div>
+              <div class="signature-line">_________________________</div>
+              <div class="signature-date">Date: __________</div>
+            </div>
+          </div>
+        </div>
+        ` : ''}
+
         
         <!-- Bank Details (only for invoices and quotations) -->
         ${(data.type === 'invoice' || data.type === 'quotation') ? `
@@ -1042,13 +1352,25 @@ export const generatePDF = (data: DocumentData) => {
           ${data.type === 'receipt' ? '<br><em>This receipt serves as proof of payment received</em>' : ''}
           ${data.type === 'remittance' ? '<br><em>This remittance advice details payments made to your account</em>' : ''}
           ${data.type === 'lpo' ? '<br><em>This Local Purchase Order serves as an official request for goods/services</em>' : ''}
+          ${data.type === 'certificate' ? `<br><em>Interim payment certificate against BOQ ${data.certificate?.boq_number || ''}</em>` : ''}
+          ${data.type === 'grn' ? `<br><em>This goods received note confirms the items received against ${data.lpo_number || 'the purchase order'}</em>` : ''}
         </div>
       </div>
     </body>
     </html>
   `;
 
-  printWindow.document.write(htmlContent);
+  return htmlContent;
+};
+
+export const generatePDF = (data: DocumentData) => {
+  // Create a new window with the document content
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('Could not open print window. Please allow popups.');
+  }
+
+  printWindow.document.write(buildDocumentHTML(data));
   printWindow.document.close();
 
   // Wait for content to load before printing
@@ -1068,9 +1390,9 @@ export const generatePDF = (data: DocumentData) => {
   return printWindow;
 };
 
-// Specific function for invoice PDF generation
-export const downloadInvoicePDF = async (invoice: any, documentType: 'INVOICE' | 'PROFORMA' = 'INVOICE', company?: CompanyDetails) => {
-  const documentData: DocumentData = {
+// Invoice or proforma as printed
+export const invoiceDocumentData = async (invoice: PrintableInvoice, documentType: 'INVOICE' | 'PROFORMA' = 'INVOICE', company?: CompanyDetails): Promise<DocumentData> => {
+  return {
     type: documentType === 'PROFORMA' ? 'proforma' : 'invoice',
     number: invoice.invoice_number,
     date: invoice.invoice_date,
@@ -1085,7 +1407,7 @@ export const downloadInvoicePDF = async (invoice: any, documentType: 'INVOICE' |
       city: invoice.customers?.city,
       country: invoice.customers?.country,
     },
-    items: invoice.invoice_items?.map((item: any) => {
+    items: invoice.invoice_items?.map(item => {
       const quantity = Number(item.quantity || 0);
       const unitPrice = Number(item.unit_price || 0);
       const taxAmount = Number(item.tax_amount || 0);
@@ -1109,20 +1431,30 @@ export const downloadInvoicePDF = async (invoice: any, documentType: 'INVOICE' |
     subtotal: invoice.subtotal,
     tax_amount: invoice.tax_amount,
     total_amount: invoice.total_amount,
+    currency: invoice.currency,
     paid_amount: invoice.paid_amount || 0,
     balance_due: invoice.balance_due || (invoice.total_amount - (invoice.paid_amount || 0)),
     notes: invoice.notes,
     terms_and_conditions: invoice.terms_and_conditions,
+    etims: documentType === 'INVOICE' && invoice.etims_cu_invoice_number ? {
+      cu_serial_number: invoice.etims_cu_serial_number,
+      cu_invoice_number: invoice.etims_cu_invoice_number,
+      signature: invoice.etims_signature,
+      qr_image: invoice.etims_qr_code ? await etimsQrDataUrl(invoice.etims_qr_code) : undefined,
+    } : undefined,
   };
+};
 
-  return generatePDF(documentData);
+// Specific function for invoice PDF generation
+export const downloadInvoicePDF = async (invoice: any, documentType: 'INVOICE' | 'PROFORMA' = 'INVOICE', company?: CompanyDetails) => {
+  return generatePDF(await invoiceDocumentData(invoice, documentType, company));
 };
 
-// Function for quotation PDF generation
-export const downloadQuotationPDF = async (quotation: any, company?: CompanyDetails) => {
-  const documentData: DocumentData = {
+// Quotation as printed
+export const quotationDocumentData = (quotation: PrintableQuotation, company?: CompanyDetails): DocumentData => {
+  return {
     type: 'quotation',
-    number: quotation.quotation_number,
+    number: quotationDisplayNumber(quotation),
     date: quotation.quotation_date,
     valid_until: quotation.valid_until,
     company: company, // Pass company details
@@ -1134,7 +1466,7 @@ export const downloadQuotationPDF = async (quotation: any, company?: CompanyDeta
       city: quotation.customers?.city,
       country: quotation.customers?.country,
     },
-    items: quotation.quotation_items?.map((item: any) => {
+    items: quotation.quotation_items?.map(item => {
       const quantity = Number(item.quantity || 0);
       const unitPrice = Number(item.unit_price || 0);
       const taxAmount = Number(item.tax_amount || 0);
@@ -1157,23 +1489,33 @@ export const downloadQuotationPDF = async (quotation: any, company?: CompanyDeta
     subtotal: quotation.subtotal,
     tax_amount: quotation.tax_amount,
     total_amount: quotation.total_amount,
+    currency: quotation.currency,
     notes: quotation.notes,
     terms_and_conditions: quotation.terms_and_conditions,
   };
+};
 
-  return generatePDF(documentData);
+// Function for quotation PDF generation
+export const downloadQuotationPDF = async (quotation: any, company?: CompanyDetails) => {
+  return generatePDF(quotationDocumentData(quotation, company));
 };
 
 // Function for generating customer statement PDF
-export const generateCustomerStatementPDF = async (customer: any, invoices: any[], payments: any[], statementData?: any, company?: CompanyDetails) => {
+export const generateCustomerStatementPDF = async (customer: any, allInvoices: any[], payments: any[], statementData?: any, company?: CompanyDetails) => {
   const today = new Date();
   const statementDate = statementData?.statement_date || today.toISOString().split('T')[0];
 
+  // Void invoices are not owed; payments released by voiding show up as unallocated credit instead
+  const invoices = allInvoices.filter(inv => inv.status !== 'void');
+
   // Calculate outstanding amounts
   const totalOutstanding = invoices.reduce((sum, inv) =>
     sum + ((inv.total_amount || 0) - (inv.paid_amount || 0)), 0
   );
 
+  // Deposits and overpayments held on account (only payments loaded with their allocations can be measured)
+  const unallocatedCredit = customerUnallocatedCredit(payments.filter(pay => Array.isArray(pay.payment_allocations)));
+
   // Calculate aging buckets
   const current = invoices.filter(inv => {
     const dueDate = new Date(inv.due_date);
@@ -1273,10 +1615,11 @@ export const generateCustomerStatementPDF = async (customer: any, invoices: any[
       country: customer.country,
     },
     items: statementItems,
-    subtotal: finalBalance,
+    subtotal: unallocatedCredit > 0 ? totalOutstanding : finalBalance,
+    unallocated_credit: unallocatedCredit,
     tax_amount: 0,
-    total_amount: finalBalance,
-    notes: `Statement of Account as of ${new Date(statementDate).toLocaleDateString()}\n\nThis statement shows all transactions including invoices (debits) and payments (credits) with running balance.\n\nAging Summary for Outstanding Invoices:\nCurrent: $${current.toFixed(2)}\n1-30 Days: $${days30.toFixed(2)}\n31-60 Days: $${days60.toFixed(2)}\n61-90 Days: $${days90.toFixed(2)}\nOver 90 Days: $${over90.toFixed(2)}`,
+    total_amount: unallocatedCredit > 0 ? totalOutstanding - unallocatedCredit : finalBalance,
+    notes: `Statement of Account as of ${new Date(statementDate).toLocaleDateString()}\n\nThis statement shows all transactions including invoices (debits) and payments (credits) with running balance.\n\nAging Summary for Outstanding Invoices:\nCurrent: $${current.toFixed(2)}\n1-30 Days: $${days30.toFixed(2)}\n31-60 Days: $${days60.toFixed(2)}\n61-90 Days: $${days90.toFixed(2)}\nOver 90 Days: $${over90.toFixed(2)}${unallocatedCredit > 0 ? `\n\nUnallocated Credit on Account: $${unallocatedCredit.toFixed(2)} (payments received and not yet applied to an invoice)` : ''}`,
     terms_and_conditions: 'Please remit payment for any outstanding amounts. Contact us if you have any questions about this statement.',
   };
 
@@ -1298,6 +1641,7 @@ export const generatePaymentReceiptPDF = async (payment: any, company?: CompanyD
     total_amount: typeof payment.amount === 'string' ?
       parseFloat(payment.amount.replace('$', '').replace(',', '')) :
       payment.amount,
+    currency: payment.currency,
     notes: `Payment received via ${payment.payment_method?.replace('_', ' ') || payment.method?.replace('_', ' ') || 'Unknown method'}\n\nReference: ${payment.reference_number || 'N/A'}\nInvoice: ${payment.payment_allocations?.[0]?.invoice_number || 'N/A'}`,
     terms_and_conditions: 'Thank you for your payment. This receipt confirms that payment has been received and processed.',
   };
@@ -1435,9 +1779,55 @@ export const downloadLPOPDF = async (lpo: any, company?: CompanyDetails) => {
     subtotal: lpo.subtotal,
     tax_amount: lpo.tax_amount,
     total_amount: lpo.total_amount,
+    currency: lpo.currency,
     notes: `${lpo.notes || ''}${lpo.contact_person ? `\n\nContact Person: ${lpo.contact_person}` : ''}${lpo.contact_phone ? `\nContact Phone: ${lpo.contact_phone}` : ''}`.trim(),
     terms_and_conditions: lpo.terms_and_conditions,
   };
 
   return generatePDF(documentData);
 };
+
+// Function for goods received note PDF generation
+export const downloadGRNPDF = async (
+  grn: GoodsReceivedNote & { previously_received?: Record<string, number> },
+  company?: CompanyDetails
+) => {
+  const lpoItems = grn.lpos?.lpo_items || [];
+  const previousByItem: Record<string, number> = grn.previously_received || {};
+
+  const documentData: DocumentData = {
+    type: 'grn',
+    number: grn.grn_number,
+    date: grn.received_date,
+    lpo_number: grn.lpos?.lpo_number,
+    supplier_delivery_note: grn.supplier_delivery_note,
+    received_by: grn.received_by,
+    company: company, // Pass company details
+    customer: {
+      name: grn.suppliers?.name || 'Unknown Supplier',
+      email: grn.suppliers?.email,
+      phone: grn.suppliers?.phone,
+      address: grn.suppliers?.address,
+      city: grn.suppliers?.city,
+      country: grn.suppliers?.country,
+    },
+    items: [...(grn.grn_items || [])]
+      .sort((a, b) => (a.sort_order || 0) - (b.sort_order || 0))
+      .map(item => {
+        const lpoItem = lpoItems.find(li => li.id === item.lpo_item_id);
+        return {
+          description: item.description || item.products?.name || 'Unknown Item',
+          quantity: Number(item.quantity_received || 0),
+          unit_price: Number(item.unit_cost || 0),
+          line_total: Number(item.line_total || 0),
+          unit_of_measure: item.products?.unit_of_measure || 'pcs',
+          quantity_ordered: lpoItem ? Number(lpoItem.quantity || 0) : undefined,
+          quantity_previous: previousByItem[item.lpo_item_id] || 0,
+        };
+      }),
+    total_amount: Number(grn.total_value || 0),
+    notes: grn.notes,
+  };
+
+  return generatePDF(documentData);
+};
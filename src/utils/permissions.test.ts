@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { hasPermission, isPermission, permissionGroups, roleChangeError, roleHasPermission, PERMISSIONS } from '@/utils/permissions';
+
+describe('role defaults', () => {
+  it('treats an unknown or missing role as a plain user', () => {
+    expect(roleHasPermission(null, 'quotation.create')).toBe(true);
+    expect(roleHasPermission('nobody', 'invoice.void')).toBe(false);
+    expect(roleHasPermission('accountant', 'invoice.void')).toBe(true);
+  });
+
+  it('recognises catalogue permissions only', () => {
+    expect(isPermission('invoice.void')).toBe(true);
+    expect(isPermission('invoice.shred')).toBe(false);
+  });
+
+  it('groups every permission once', () => {
+    expect(Object.values(permissionGroups()).flat()).toHaveLength(PERMISSIONS.length);
+  });
+});
+
+describe('hasPermission', () => {
+  it('gives admins everything, whatever the overrides', () => {
+    expect(hasPermission('admin', { 'invoice.void': false }, 'invoice.void')).toBe(true);
+  });
+
+  it('lets an override grant or revoke over the role default', () => {
+    expect(hasPermission('user', { 'invoice.void': true }, 'invoice.void')).toBe(true);
+    expect(hasPermission('accountant', { 'invoice.void': false }, 'invoice.void')).toBe(false);
+    expect(hasPermission('accountant', {}, 'invoice.void')).toBe(true);
+  });
+});
+
+describe('roleChangeError', () => {
+  it('stops anyone changing their own role', () => {
+    expect(roleChangeError('admin', true, 'admin', 'user')).toBe('You cannot change your own role');
+  });
+
+  it('lets only admins grant the admin role or change an admin', () => {
+    expect(roleChangeError('accountant', false, 'user', 'admin')).toBe('Only an admin can grant or change the admin role');
+    expect(roleChangeError('accountant', false, 'admin', 'user')).toBe('Only an admin can grant or change the admin role');
+    expect(roleChangeError('admin', false, 'user', 'admin')).toBeNull();
+    expect(roleChangeError('accountant', false, 'user', 'stock_manager')).toBeNull();
+  });
+});
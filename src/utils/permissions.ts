@@ -0,0 +1,128 @@
+// Permission catalogue and role defaults. The same role defaults are seeded into the
+// role_permissions table (migrations/014_permissions.sql) so RLS policies agree with the UI.
+
+export interface PermissionDefinition {
+  name: string;
+  label: string;
+  group: string;
+}
+
+export const PERMISSIONS = [
+  { name: 'quotation.view', label: 'View quotations', group: 'Sales' },
+  { name: 'quotation.create', label: 'Create and edit quotations', group: 'Sales' },
+  { name: 'quotation.delete', label: 'Delete quotations', group: 'Sales' },
+  { name: 'invoice.view', label: 'View invoices and proformas', group: 'Sales' },
+  { name: 'invoice.create', label: 'Create and edit invoices and proformas', group: 'Sales' },
+  { name: 'invoice.void', label: 'Void invoices', group: 'Sales' },
+  { name: 'invoice.delete', label: 'Delete invoices', group: 'Sales' },
+  { name: 'credit_note.view', label: 'View credit notes', group: 'Sales' },
+  { name: 'credit_note.create', label: 'Create and apply credit notes', group: 'Sales' },
+  { name: 'payment.view', label: 'View payments and remittances', group: 'Payments' },
+  { name: 'payment.record', label: 'Record payments and remittances', group: 'Payments' },
+  { name: 'payment.delete', label: 'Delete payments', group: 'Payments' },
+  { name: 'customer.view', label: 'View customers', group: 'Customers' },
+  { name: 'customer.manage', label: 'Create and edit customers', group: 'Customers' },
+  { name: 'inventory.view', label: 'View inventory', group: 'Inventory' },
+  { name: 'inventory.manage', label: 'Create and edit products', group: 'Inventory' },
+  { name: 'inventory.adjust', label: 'Restock and adjust stock levels', group: 'Inventory' },
+  { name: 'delivery_note.view', label: 'View delivery notes', group: 'Inventory' },
+  { name: 'delivery_note.create', label: 'Create delivery notes', group: 'Inventory' },
+  { name: 'boq.view', label: 'View BOQs and the rate library', group: 'BOQs' },
+  { name: 'boq.create', label: 'Create BOQs and valuations', group: 'BOQs' },
+  { name: 'purchase.view', label: 'View LPOs, goods received and suppliers', group: 'Purchasing' },
+  { name: 'purchase.create', label: 'Raise LPOs, receive goods and manage suppliers', group: 'Purchasing' },
+  { name: 'payable.view', label: 'View supplier bills and payments', group: 'Purchasing' },
+  { name: 'payable.manage', label: 'Enter and approve supplier bills', group: 'Purchasing' },
+  { name: 'payable.pay', label: 'Pay suppliers', group: 'Purchasing' },
+  { name: 'report.sales', label: 'Sales reports and customer statements', group: 'Reports' },
+  { name: 'report.inventory', label: 'Inventory reports', group: 'Reports' },
+  { name: 'report.payables', label: 'Supplier aging', group: 'Reports' },
+  { name: 'report.tax', label: 'VAT returns', group: 'Reports' },
+  { name: 'ledger.view', label: 'View the general ledger and trial balance', group: 'Accounting' },
+  { name: 'ledger.manage', label: 'Manage the chart of accounts and account mappings', group: 'Accounting' },
+  { name: 'settings.view', label: 'View company settings', group: 'Settings' },
+  { name: 'settings.edit', label: 'Edit company settings, taxes and units', group: 'Settings' },
+  { name: 'user.manage', label: 'Manage users and permissions', group: 'Settings' },
+  { name: 'audit.view', label: 'View the audit log', group: 'Settings' },
+] as const satisfies readonly PermissionDefinition[];
+
+export type Permission = typeof PERMISSIONS[number]['name'];
+
+export type PermissionOverrides = Partial<Record<Permission, boolean>>;
+
+const ALL_PERMISSIONS = PERMISSIONS.map(p => p.name) as Permission[];
+
+export const ROLE_DEFAULT_PERMISSIONS: Record<string, Permission[]> = {
+  admin: ALL_PERMISSIONS,
+  accountant: [
+    'quotation.view', 'quotation.create',
+    'invoice.view', 'invoice.create', 'invoice.void',
+    'credit_note.view', 'credit_note.create',
+    'payment.view', 'payment.record', 'payment.delete',
+    'customer.view', 'customer.manage',
+    'inventory.view', 'delivery_note.view',
+    'boq.view',
+    'purchase.view', 'payable.view', 'payable.manage', 'payable.pay',
+    'report.sales', 'report.inventory', 'report.payables', 'report.tax',
+    'ledger.view', 'ledger.manage',
+    'settings.view',
+  ],
+  stock_manager: [
+    'quotation.view', 'invoice.view',
+    'customer.view',
+    'inventory.view', 'inventory.manage', 'inventory.adjust',
+    'delivery_note.view', 'delivery_note.create',
+    'boq.view',
+    'purchase.view', 'purchase.create', 'payable.view',
+    'report.inventory',
+  ],
+  user: [
+    'quotation.view', 'quotation.create',
+    'invoice.view', 'invoice.create',
+    'credit_note.view',
+    'payment.view',
+    'customer.view', 'customer.manage',
+    'inventory.view', 'delivery_note.view',
+    'boq.view', 'boq.create',
+    'report.sales',
+  ],
+};
+
+export const isPermission = (name: string): name is Permission =>
+  (ALL_PERMISSIONS as string[]).includes(name);
+
+export const roleHasPermission = (role: string | null | undefined, permission: Permission) =>
+  (ROLE_DEFAULT_PERMISSIONS[role || 'user'] || []).includes(permission);
+
+// Effective permission: admins always have everything, otherwise a per-user override wins
+// over the role default
+export const hasPermission = (
+  role: string | null | undefined,
+  overrides: PermissionOverrides,
+  permission: Permission
+) => {
+  if (role === 'admin') return true;
+  const override = overrides[permission];
+  return override !== undefined ? override : roleHasPermission(role, permission);
+};
+
+export const permissionGroups = () =>
+  PERMISSIONS.reduce<Record<string, PermissionDefinition[]>>((groups, permission) => {
+    (groups[permission.group] = groups[permission.group] || []).push(permission);
+    return groups;
+  }, {});
+
+// Why the caller may not give a user a role in the company, mirroring the user_companies policies:
+// nobody changes their own role, and only admins grant the admin role or change an admin's
+export const roleChangeError = (
+  callerRole: string | null | undefined,
+  isSelf: boolean,
+  currentRole: string | null | undefined,
+  newRole: string
+): string | null => {
+  if (isSelf) return 'You cannot change your own role';
+  if (callerRole !== 'admin' && (newRole === 'admin' || currentRole === 'admin')) {
+    return 'Only an admin can grant or change the admin role';
+  }
+  return null;
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildQuotationConversionReport,
+  canRecordQuotationOutcome,
+  canReviseQuotation,
+  effectiveQuotationStatus,
+  isQuotationEditable,
+  quotationDisplayNumber,
+  quotationStatusLabel,
+} from '@/utils/quotationLifecycle';
+
+const today = '2026-03-15';
+
+describe('quotation status', () => {
+  it('expires open quotations past their valid until date', () => {
+    expect(effectiveQuotationStatus({ status: 'sent', valid_until: '2026-03-14' }, today)).toBe('expired');
+    expect(effectiveQuotationStatus({ status: 'draft', valid_until: '2026-03-15' }, today)).toBe('draft');
+    expect(effectiveQuotationStatus({ status: 'accepted', valid_until: '2026-01-01' }, today)).toBe('accepted');
+    expect(effectiveQuotationStatus({ status: 'rejected' }, today)).toBe('declined');
+  });
+
+  it('labels unknown statuses as they are', () => {
+    expect(quotationStatusLabel('lost')).toBe('Lost');
+    expect(quotationStatusLabel('on_hold')).toBe('On_hold');
+    expect(quotationStatusLabel(null)).toBe('Draft');
+  });
+
+  it('numbers revisions after the first', () => {
+    expect(quotationDisplayNumber({ quotation_number: 'Q-0012', revision_number: 1 })).toBe('Q-0012');
+    expect(quotationDisplayNumber({ quotation_number: 'Q-0012', revision_number: 3 })).toBe('Q-0012 Rev 3');
+    expect(quotationDisplayNumber({ quotation_number: 'Q-0012', revision_number: 3 }, 2)).toBe('Q-0012 Rev 2');
+  });
+});
+
+describe('quotation actions', () => {
+  it('edits drafts in place and revises anything sent that is not converted', () => {
+    expect(isQuotationEditable({ status: 'draft' })).toBe(true);
+    expect(isQuotationEditable({ status: 'sent' })).toBe(false);
+    expect(canReviseQuotation({ status: 'sent' })).toBe(true);
+    expect(canReviseQuotation({ status: 'converted' })).toBe(false);
+    expect(canReviseQuotation({ status: 'draft' })).toBe(false);
+  });
+
+  it('records an outcome on open, accepted or expired quotations only', () => {
+    expect(canRecordQuotationOutcome({ status: 'sent', valid_until: '2026-01-01' })).toBe(true);
+    expect(canRecordQuotationOutcome({ status: 'accepted' })).toBe(true);
+    expect(canRecordQuotationOutcome({ status: 'converted' })).toBe(false);
+    expect(canRecordQuotationOutcome({ status: 'lost' })).toBe(false);
+  });
+});
+
+describe('buildQuotationConversionReport', () => {
+  const quotations = [
+    { id: 'q1', customer_id: 'c1', customers: { name: 'Acme' }, quotation_date: '2026-01-10', status: 'converted', amount: 1000 },
+    { id: 'q2', customer_id: 'c1', customers: { name: 'Acme' }, quotation_date: '2026-02-05', status: 'lost', amount: 500 },
+    { id: 'q3', customer_id: 'c2', customers: { name: 'Beta' }, quotation_date: '2026-02-20', status: 'sent', valid_until: '2026-03-01', amount: 2000 },
+    { id: 'q4', customer_id: 'c2', customers: { name: 'Beta' }, quotation_date: '2026-03-01', status: 'sent', valid_until: '2026-04-01', amount: 300 },
+  ];
+
+  it('counts outcomes per customer, largest quoted value first', () => {
+    const { rows, total } = buildQuotationConversionReport(quotations, 'customer', q => q.amount, today);
+
+    expect(rows.map(r => [r.label, r.quoted, r.won, r.lost, r.expired, r.open, r.quotedValue, r.conversionRate])).toEqual([
+      ['Beta', 2, 0, 0, 1, 1, 2300, 0],
+      ['Acme', 2, 1, 1, 0, 0, 1500, 0.5],
+    ]);
+    expect(total).toMatchObject({ quoted: 4, won: 1, wonValue: 1000, conversionRate: 1 / 3 });
+  });
+
+  it('lists months oldest first and leaves the rate empty until something is decided', () => {
+    const { rows } = buildQuotationConversionReport(quotations, 'month', q => q.amount, today);
+
+    expect(rows.map(r => [r.key, r.conversionRate])).toEqual([['2026-01', 1], ['2026-02', 0], ['2026-03', null]]);
+  });
+});
@@ -0,0 +1,172 @@
+// Quotation statuses, revisions and win/loss reporting. Status rules are enforced by triggers in
+// migrations/027_quotation_lifecycle.sql; these helpers let the UI offer only the moves it accepts.
+
+export type QuotationStatus = 'draft' | 'sent' | 'accepted' | 'declined' | 'lost' | 'expired' | 'converted';
+
+// The outcome recorded when a quotation is closed by hand
+export type QuotationOutcome = 'accepted' | 'declined' | 'lost';
+
+export const QUOTATION_STATUSES: { value: QuotationStatus; label: string; className: string }[] = [
+  { value: 'draft', label: 'Draft', className: 'bg-muted text-muted-foreground border-muted-foreground/20' },
+  { value: 'sent', label: 'Sent', className: 'bg-warning-light text-warning border-warning/20' },
+  { value: 'accepted', label: 'Accepted', className: 'bg-success-light text-success border-success/20' },
+  { value: 'converted', label: 'Converted', className: 'bg-success-light text-success border-success/20' },
+  { value: 'declined', label: 'Declined', className: 'bg-destructive-light text-destructive border-destructive/20' },
+  { value: 'lost', label: 'Lost', className: 'bg-destructive-light text-destructive border-destructive/20' },
+  { value: 'expired', label: 'Expired', className: 'bg-destructive-light text-destructive border-destructive/20' },
+];
+
+export const QUOTATION_LOSS_REASONS = [
+  'Price too high',
+  'Went with a competitor',
+  'Delivery or lead time',
+  'Scope or specification changed',
+  'Project cancelled or postponed',
+  'No response from customer',
+  'Other',
+];
+
+interface QuotationLike {
+  quotation_number?: string;
+  quotation_date?: string;
+  valid_until?: string | null;
+  status?: string | null;
+  revision_number?: number | null;
+}
+
+const statusInfo = (status?: string | null) =>
+  QUOTATION_STATUSES.find(s => s.value === status) || QUOTATION_STATUSES[0];
+
+export const quotationStatusLabel = (status?: string | null) =>
+  status && !QUOTATION_STATUSES.some(s => s.value === status)
+    ? status.charAt(0).toUpperCase() + status.slice(1)
+    : statusInfo(status).label;
+
+export const quotationStatusColor = (status?: string | null) => statusInfo(status).className;
+
+// Q-0012 for the first version, Q-0012 Rev 2 once it has been revised
+export const quotationDisplayNumber = (quotation: QuotationLike, revisionNumber?: number) => {
+  const revision = revisionNumber ?? Number(quotation.revision_number || 1);
+  return revision > 1 ? `${quotation.quotation_number} Rev ${revision}` : quotation.quotation_number || '';
+};
+
+const todayString = () => new Date().toISOString().split('T')[0];
+
+/**
+ * Status as of today. Draft and sent quotations past their valid until date are expired even
+ * before expire_quotations has run for the company.
+ */
+export const effectiveQuotationStatus = (quotation: QuotationLike, today: string = todayString()): QuotationStatus => {
+  const status = (quotation.status === 'rejected' ? 'declined' : quotation.status || 'draft') as QuotationStatus;
+  if ((status === 'draft' || status === 'sent') && quotation.valid_until && quotation.valid_until < today) {
+    return 'expired';
+  }
+  return status;
+};
+
+// Only drafts are edited in place; anything else is changed by saving a new revision
+export const isQuotationEditable = (quotation: QuotationLike | null | undefined) =>
+  !!quotation && (quotation.status || 'draft') === 'draft';
+
+export const canReviseQuotation = (quotation: QuotationLike | null | undefined) =>
+  !!quotation && !isQuotationEditable(quotation) && quotation.status !== 'converted';
+
+// Open quotations can be closed with an outcome; accepted ones can still be declined or lost
+export const canRecordQuotationOutcome = (quotation: QuotationLike | null | undefined) =>
+  !!quotation && ['draft', 'sent', 'accepted', 'expired'].includes(effectiveQuotationStatus(quotation));
+
+export const quotationOutcomeNeedsReason = (outcome: QuotationOutcome) => outcome !== 'accepted';
+
+export type QuotationConversionGroupBy = 'customer' | 'salesperson' | 'month';
+
+export interface QuotationConversionRow {
+  key: string;
+  label: string;
+  quoted: number;
+  won: number;
+  lost: number;
+  expired: number;
+  open: number;
+  quotedValue: number;
+  wonValue: number;
+  conversionRate: number | null;   // won / (won + lost + expired), null while none are decided
+}
+
+interface ReportQuotation extends QuotationLike {
+  customer_id?: string | null;
+  created_by?: string | null;
+  customers?: { name?: string | null } | null;
+  salesperson?: { full_name?: string | null; email?: string | null } | null;
+}
+
+const WON: QuotationStatus[] = ['accepted', 'converted'];
+const LOST: QuotationStatus[] = ['declined', 'lost'];
+
+const groupOf = (quotation: ReportQuotation, groupBy: QuotationConversionGroupBy) => {
+  if (groupBy === 'customer') {
+    return { key: quotation.customer_id || 'none', label: quotation.customers?.name || 'Unknown Customer' };
+  }
+  if (groupBy === 'salesperson') {
+    return {
+      key: quotation.created_by || 'none',
+      label: quotation.salesperson?.full_name || quotation.salesperson?.email || 'Unassigned',
+    };
+  }
+  const month = (quotation.quotation_date || '').slice(0, 7);
+  const [year, m] = month.split('-').map(Number);
+  return {
+    key: month || 'none',
+    label: month ? new Date(year, m - 1, 1).toLocaleDateString('en-GB', { month: 'short', year: 'numeric' }) : 'No date',
+  };
+};
+
+const conversionRate = (row: Pick<QuotationConversionRow, 'won' | 'lost' | 'expired'>) => {
+  const decided = row.won + row.lost + row.expired;
+  return decided > 0 ? row.won / decided : null;
+};
+
+/**
+ * Win/loss counts and values per customer, salesperson (whoever raised the quotation) or month
+ * of the quotation date. Each quotation counts once at its current revision. Months are listed
+ * oldest first; customers and salespeople by quoted value.
+ */
+export function buildQuotationConversionReport<T extends ReportQuotation>(
+  quotations: T[],
+  groupBy: QuotationConversionGroupBy,
+  amountOf: (quotation: T) => number,
+  today: string = todayString()
+): { rows: QuotationConversionRow[]; total: QuotationConversionRow } {
+  const groups = new Map<string, QuotationConversionRow>();
+  const total: QuotationConversionRow = {
+    key: 'total', label: 'Total', quoted: 0, won: 0, lost: 0, expired: 0, open: 0, quotedValue: 0, wonValue: 0, conversionRate: null,
+  };
+
+  quotations.forEach(quotation => {
+    const { key, label } = groupOf(quotation, groupBy);
+    if (!groups.has(key)) {
+      groups.set(key, { key, label, quoted: 0, won: 0, lost: 0, expired: 0, open: 0, quotedValue: 0, wonValue: 0, conversionRate: null });
+    }
+    const status = effectiveQuotationStatus(quotation, today);
+    const amount = amountOf(quotation);
+
+    [groups.get(key)!, total].forEach(row => {
+      row.quoted += 1;
+      row.quotedValue += amount;
+      if (WON.includes(status)) {
+        row.won += 1;
+        row.wonValue += amount;
+      } else if (LOST.includes(status)) {
+        row.lost += 1;
+      } else if (status === 'expired') {
+        row.expired += 1;
+      } else {
+        row.open += 1;
+      }
+    });
+  });
+
+  const rows = Array.from(groups.values()).map(row => ({ ...row, conversionRate: conversionRate(row) }));
+  rows.sort((a, b) => groupBy === 'month' ? a.key.localeCompare(b.key) : b.quotedValue - a.quotedValue);
+
+  return { rows, total: { ...total, conversionRate: conversionRate(total) } };
+}
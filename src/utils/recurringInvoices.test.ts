@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import {
+  dueRunDates,
+  existingRunAction,
+  firstRunOnOrAfter,
+  frequencyLabel,
+  nextRunAfter,
+  recurringTotals,
+  scheduleDate,
+  upcomingRunDates,
+} from '@/utils/recurringInvoices';
+
+const monthly = { frequency: 'monthly' as const, interval_count: 1, start_date: '2026-01-31' };
+
+describe('schedule dates', () => {
+  it('bills month-end schedules on the last day of shorter months without drifting', () => {
+    expect([0, 1, 2, 3].map(n => scheduleDate(monthly, n))).toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30']);
+    expect(scheduleDate({ ...monthly, start_date: '2024-01-31' }, 1)).toBe('2024-02-29');
+  });
+
+  it('steps weeks, quarters and years by the interval', () => {
+    expect(scheduleDate({ frequency: 'weekly', interval_count: 2, start_date: '2026-12-28' }, 1)).toBe('2027-01-11');
+    expect(scheduleDate({ frequency: 'quarterly', interval_count: 1, start_date: '2026-11-15' }, 1)).toBe('2027-02-15');
+    expect(scheduleDate({ frequency: 'yearly', interval_count: 1, start_date: '2024-02-29' }, 1)).toBe('2025-02-28');
+  });
+
+  it('finds the next run and stops at the end date', () => {
+    expect(nextRunAfter(monthly, '2026-02-28')).toBe('2026-03-31');
+    expect(firstRunOnOrAfter(monthly, '2026-02-28')).toBe('2026-02-28');
+    expect(nextRunAfter({ ...monthly, end_date: '2026-03-30' }, '2026-02-28')).toBeNull();
+  });
+});
+
+describe('dueRunDates', () => {
+  it('returns every missed period up to today, within the schedule', () => {
+    expect(dueRunDates({ ...monthly, next_run_date: '2026-02-28' }, '2026-05-15')).toEqual(['2026-02-28', '2026-03-31', '2026-04-30']);
+    expect(dueRunDates({ ...monthly, end_date: '2026-03-31', next_run_date: '2026-02-28' }, '2026-05-15')).toEqual(['2026-02-28', '2026-03-31']);
+    expect(dueRunDates({ ...monthly, next_run_date: null }, '2026-05-15')).toEqual([]);
+  });
+
+  it('previews upcoming dates from the next run', () => {
+    expect(upcomingRunDates({ ...monthly, next_run_date: '2026-03-31' }, 2)).toEqual(['2026-03-31', '2026-04-30']);
+  });
+});
+
+describe('existingRunAction', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+
+  it('passes over billed periods and retries failed runs', () => {
+    expect(existingRunAction({ status: 'generated', invoice_id: 'inv-1' }, now)).toBe('billed');
+    expect(existingRunAction({ status: 'skipped' }, now)).toBe('billed');
+    expect(existingRunAction({ status: 'failed' }, now)).toBe('retry');
+  });
+
+  it('takes over a pending run only once it is stale and has no invoice', () => {
+    expect(existingRunAction({ status: 'pending', claimed_at: '2026-03-01T11:50:00Z' }, now)).toBe('busy');
+    expect(existingRunAction({ status: 'pending', claimed_at: '2026-03-01T11:45:00Z' }, now)).toBe('retry');
+    expect(existingRunAction({ status: 'pending', claimed_at: null }, now)).toBe('retry');
+    expect(existingRunAction({ status: 'pending', invoice_id: 'inv-1', claimed_at: '2026-02-01T00:00:00Z' }, now)).toBe('busy');
+  });
+});
+
+describe('totals and labels', () => {
+  it('discounts before tax and adds tax on top for VAT lines', () => {
+    expect(recurringTotals([
+      { quantity: 2, unit_price: 500, discount_before_vat: 10, tax_percentage: 16, tax_inclusive: true },
+      { quantity: 1, unit_price: 99.99, tax_percentage: 16, tax_inclusive: false },
+    ])).toEqual({ subtotal: 999.99, tax_amount: 144, total_amount: 1143.99 });
+  });
+
+  it('describes the frequency', () => {
+    expect(frequencyLabel('monthly')).toBe('Monthly');
+    expect(frequencyLabel('quarterly', 2)).toBe('Every 2 quarters');
+  });
+});
@@ -0,0 +1,160 @@
+export type RecurringFrequency = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+export type RecurringInvoiceStatus = 'active' | 'paused' | 'ended';
+export type RecurringRunStatus = 'pending' | 'generated' | 'failed' | 'skipped';
+
+export const RECURRING_FREQUENCIES: { value: RecurringFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+export interface RecurringSchedule {
+  frequency: RecurringFrequency;
+  interval_count: number;
+  start_date: string;
+  end_date?: string | null;
+}
+
+export interface RecurringLineInput {
+  quantity: number;
+  unit_price: number;
+  discount_before_vat?: number;
+  tax_percentage: number;
+  tax_inclusive: boolean;
+}
+
+// Safety net against a malformed schedule looping forever
+const MAX_PERIODS = 5000;
+
+// A pending run older than this was abandoned (tab closed, request lost) and may be claimed again
+export const STALE_RUN_MINUTES = 15;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const parseDate = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+};
+
+export const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+export const todayString = () => toDateString(new Date());
+
+export const addDays = (date: string, days: number) => {
+  const d = parseDate(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return toDateString(d);
+};
+
+/**
+ * The n-th billing date of a schedule (n = 0 is the start date). Months are counted from the
+ * start date rather than from the previous run, so a schedule starting on the 31st bills on the
+ * last day of shorter months without drifting to the 28th for the rest of the year.
+ */
+export function scheduleDate(schedule: RecurringSchedule, n: number) {
+  const start = parseDate(schedule.start_date);
+  const step = Math.max(1, Number(schedule.interval_count || 1));
+
+  if (schedule.frequency === 'weekly') {
+    start.setUTCDate(start.getUTCDate() + n * 7 * step);
+    return toDateString(start);
+  }
+
+  const monthsPerPeriod = schedule.frequency === 'yearly' ? 12 : schedule.frequency === 'quarterly' ? 3 : 1;
+  const totalMonths = start.getUTCMonth() + n * monthsPerPeriod * step;
+  const year = start.getUTCFullYear() + Math.floor(totalMonths / 12);
+  const month = totalMonths % 12;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return toDateString(new Date(Date.UTC(year, month, Math.min(start.getUTCDate(), lastDay))));
+}
+
+const isWithinSchedule = (schedule: RecurringSchedule, date: string) =>
+  !schedule.end_date || date <= schedule.end_date;
+
+// First billing date strictly after `after`, or null once the schedule has ended
+export function nextRunAfter(schedule: RecurringSchedule, after: string): string | null {
+  for (let n = 0; n < MAX_PERIODS; n++) {
+    const date = scheduleDate(schedule, n);
+    if (!isWithinSchedule(schedule, date)) return null;
+    if (date > after) return date;
+  }
+  return null;
+}
+
+// First billing date on or after `from` (used when a template is created or edited)
+export function firstRunOnOrAfter(schedule: RecurringSchedule, from: string): string | null {
+  return nextRunAfter(schedule, addDays(from, -1));
+}
+
+/**
+ * Billing dates that are due as of `asOf`, starting at the template's next run date.
+ * Missed periods (e.g. nobody opened the app for two months) are all returned so each is billed.
+ */
+export function dueRunDates(schedule: RecurringSchedule & { next_run_date?: string | null }, asOf: string) {
+  const dates: string[] = [];
+  let date = schedule.next_run_date || null;
+  while (date && date <= asOf && isWithinSchedule(schedule, date) && dates.length < MAX_PERIODS) {
+    dates.push(date);
+    date = nextRunAfter(schedule, date);
+  }
+  return dates;
+}
+
+export type ExistingRunAction = 'billed' | 'retry' | 'busy';
+
+/**
+ * What a generator does with a period whose run row already exists: billed periods are passed
+ * over, failed or abandoned runs are claimed again, and a run another generator is still working
+ * on is left alone (and the schedule is not advanced past it).
+ */
+export function existingRunAction(
+  run: { status: RecurringRunStatus; invoice_id?: string | null; claimed_at?: string | null },
+  now: Date = new Date()
+): ExistingRunAction {
+  if (run.status === 'generated' || run.status === 'skipped') return 'billed';
+  if (run.status === 'failed') return 'retry';
+  if (run.invoice_id) return 'busy';
+  const claimedAt = run.claimed_at ? new Date(run.claimed_at).getTime() : 0;
+  return now.getTime() - claimedAt >= STALE_RUN_MINUTES * 60 * 1000 ? 'retry' : 'busy';
+}
+
+// Upcoming billing dates for the schedule preview
+export function upcomingRunDates(schedule: RecurringSchedule & { next_run_date?: string | null }, count: number) {
+  const dates: string[] = [];
+  let date = schedule.next_run_date || null;
+  while (date && dates.length < count) {
+    dates.push(date);
+    date = nextRunAfter(schedule, date);
+  }
+  return dates;
+}
+
+export const frequencyLabel = (frequency: string, intervalCount = 1) => {
+  const label = RECURRING_FREQUENCIES.find(f => f.value === frequency)?.label || frequency;
+  if (intervalCount <= 1) return label;
+  const unit = { weekly: 'weeks', monthly: 'months', quarterly: 'quarters', yearly: 'years' }[frequency] || frequency;
+  return `Every ${intervalCount} ${unit}`;
+};
+
+// Same line arithmetic as CreateInvoiceModal: discount is a percentage and tax is added on top
+// when the line is marked VAT inclusive
+export function recurringLineTotals(line: RecurringLineInput) {
+  const base = Number(line.quantity || 0) * Number(line.unit_price || 0);
+  const afterDiscount = base - base * (Number(line.discount_before_vat || 0) / 100);
+  const tax = line.tax_inclusive && Number(line.tax_percentage || 0) > 0
+    ? afterDiscount * (Number(line.tax_percentage) / 100)
+    : 0;
+  return { net: round2(afterDiscount), tax_amount: round2(tax), line_total: round2(afterDiscount + tax) };
+}
+
+export function recurringTotals(lines: RecurringLineInput[]) {
+  return lines.reduce((acc, line) => {
+    const t = recurringLineTotals(line);
+    return {
+      subtotal: round2(acc.subtotal + t.net),
+      tax_amount: round2(acc.tax_amount + t.tax_amount),
+      total_amount: round2(acc.total_amount + t.line_total),
+    };
+  }, { subtotal: 0, tax_amount: 0, total_amount: 0 });
+}
@@ -0,0 +1,94 @@
+import type { Supplier, SupplierContact } from '@/hooks/useDatabase';
+
+/**
+ * Next supplier code for a company: SUP001, SUP002, ... continuing from the highest existing number
+ * so deleted suppliers never cause a code to be reused.
+ */
+export const nextSupplierCode = (suppliers: Array<{ supplier_code?: string }> = []) => {
+  const highest = suppliers.reduce((max, s) => {
+    const match = /^SUP-?(\d+)$/i.exec(s.supplier_code || '');
+    return match ? Math.max(max, parseInt(match[1], 10)) : max;
+  }, 0);
+  return `SUP${(highest + 1).toString().padStart(3, '0')}`;
+};
+
+export interface SupplierFormData {
+  name: string;
+  email: string;
+  phone: string;
+  address: string;
+  city: string;
+  country: string;
+  contacts: SupplierContact[];
+  payment_terms: number;
+  tax_pin: string;
+  bank_name: string;
+  bank_branch: string;
+  bank_account_name: string;
+  bank_account_number: string;
+  bank_swift_code: string;
+  category_ids: string[];
+  notes: string;
+  is_active: boolean;
+}
+
+export const emptySupplierForm = (): SupplierFormData => ({
+  name: '',
+  email: '',
+  phone: '',
+  address: '',
+  city: '',
+  country: 'Kenya',
+  contacts: [],
+  payment_terms: 30,
+  tax_pin: '',
+  bank_name: '',
+  bank_branch: '',
+  bank_account_name: '',
+  bank_account_number: '',
+  bank_swift_code: '',
+  category_ids: [],
+  notes: '',
+  is_active: true,
+});
+
+export const supplierToForm = (supplier: Supplier): SupplierFormData => ({
+  name: supplier.name || '',
+  email: supplier.email || '',
+  phone: supplier.phone || '',
+  address: supplier.address || '',
+  city: supplier.city || '',
+  country: supplier.country || 'Kenya',
+  contacts: supplier.contacts || [],
+  payment_terms: supplier.payment_terms ?? 30,
+  tax_pin: supplier.tax_pin || '',
+  bank_name: supplier.bank_name || '',
+  bank_branch: supplier.bank_branch || '',
+  bank_account_name: supplier.bank_account_name || '',
+  bank_account_number: supplier.bank_account_number || '',
+  bank_swift_code: supplier.bank_swift_code || '',
+  category_ids: supplier.category_ids || [],
+  notes: supplier.notes || '',
+  is_active: supplier.is_active !== false,
+});
+
+// Blank strings are stored as null; contacts without a name are dropped
+export const supplierFormPayload = (form: SupplierFormData) => ({
+  name: form.name.trim(),
+  email: form.email.trim() || null,
+  phone: form.phone.trim() || null,
+  address: form.address.trim() || null,
+  city: form.city.trim() || null,
+  country: form.country || null,
+  contacts: form.contacts.filter(c => c.name.trim()),
+  payment_terms: form.payment_terms,
+  tax_pin: form.tax_pin.trim().toUpperCase() || null,
+  bank_name: form.bank_name.trim() || null,
+  bank_branch: form.bank_branch.trim() || null,
+  bank_account_name: form.bank_account_name.trim() || null,
+  bank_account_number: form.bank_account_number.trim() || null,
+  bank_swift_code: form.bank_swift_code.trim() || null,
+  category_ids: form.category_ids,
+  notes: form.notes.trim() || null,
+  is_active: form.is_active,
+});
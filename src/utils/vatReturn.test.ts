@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { buildVatReturn, classifyVatLine, documentsForRow, monthPeriod, vat3PurchaseRows, vat3SalesRows } from '@/utils/vatReturn';
+
+const taxSettings = [
+  { id: 'vat16', name: 'VAT 16%', rate: 16 },
+  { id: 'zero', name: 'Zero rated', rate: 0 },
+  { id: 'exempt', name: 'Exempt', rate: 0 },
+];
+
+const vatLine = (unitPrice: number, quantity = 1, rate = 16) => ({
+  description: 'Taxed item',
+  quantity,
+  unit_price: unitPrice,
+  tax_percentage: rate,
+  tax_amount: quantity * unitPrice * rate / 100,
+  line_total: quantity * unitPrice * (1 + rate / 100),
+  tax_setting_id: 'vat16',
+});
+
+const untaxedLine = (unitPrice: number, taxSettingId: string) => ({
+  description: 'Untaxed item',
+  quantity: 1,
+  unit_price: unitPrice,
+  tax_percentage: 0,
+  tax_amount: 0,
+  line_total: unitPrice,
+  tax_setting_id: taxSettingId,
+});
+
+const invoice = (id: string, date: string, status: string, items: ReturnType<typeof vatLine>[], extra = {}) => ({
+  id,
+  invoice_number: id,
+  invoice_date: date,
+  status,
+  customers: { name: 'Acme Ltd', tax_number: 'P051111111A' },
+  invoice_items: items,
+  ...extra,
+});
+
+const period = monthPeriod('2026-03');
+
+const vatReturn = buildVatReturn({
+  period,
+  invoices: [
+    invoice('INV-1', '2026-03-05', 'sent', [vatLine(100, 10), untaxedLine(500, 'zero'), untaxedLine(200, 'exempt')], { etims_cu_serial_number: 'KRACU01' }),
+    invoice('INV-2', '2026-03-06', 'draft', [vatLine(999)]),
+    invoice('INV-3', '2026-03-07', 'void', [vatLine(999)]),
+    invoice('INV-4', '2026-03-10', 'sent', [vatLine(100)], { exchange_rate: 130, customers: { name: 'Walk-in', tax_number: null } }),
+    invoice('INV-5', '2026-04-01', 'sent', [vatLine(999)]),
+  ],
+  creditNotes: [
+    {
+      id: 'CN-1', credit_note_number: 'CN-1', credit_note_date: '2026-03-20', status: 'sent', reason: 'Damaged bags',
+      customers: { name: 'Acme Ltd', tax_number: 'P051111111A' },
+      invoices: { invoice_number: 'INV-1', invoice_date: '2026-03-05' },
+      credit_note_items: [vatLine(100)],
+    },
+    { id: 'CN-2', credit_note_number: 'CN-2', credit_note_date: '2026-03-21', status: 'draft', credit_note_items: [vatLine(999)] },
+  ],
+  bills: [
+    {
+      id: 'B-1', bill_number: 'BILL-1', supplier_invoice_number: 'SUP-9', bill_date: '2026-03-12', status: 'approved',
+      suppliers: { name: 'Hardware Ltd', tax_pin: 'P052222222B' }, supplier_bill_items: [vatLine(1000)],
+    },
+    { id: 'B-2', bill_number: 'BILL-2', bill_date: '2026-03-13', status: 'draft', supplier_bill_items: [vatLine(999)] },
+    // An earlier month's bill for an LPO raised this month
+    { id: 'B-0', lpo_id: 'L-2', status: 'paid' },
+  ],
+  lpos: [
+    { id: 'L-1', lpo_number: 'LPO-1', lpo_date: '2026-03-02', status: 'received', subtotal: 500, tax_amount: 80, exchange_rate: 2, suppliers: { name: 'Timber Co' } },
+    { id: 'L-2', lpo_number: 'LPO-2', lpo_date: '2026-03-03', status: 'received', subtotal: 100, tax_amount: 16 },
+    { id: 'L-3', lpo_number: 'LPO-3', lpo_date: '2026-03-04', status: 'draft', subtotal: 100, tax_amount: 16 },
+  ],
+  taxSettings,
+});
+
+describe('monthPeriod', () => {
+  it('ends on the last day of the month', () => {
+    expect(monthPeriod('2024-02')).toEqual({ start: '2024-02-01', end: '2024-02-29' });
+    expect(period).toEqual({ start: '2026-03-01', end: '2026-03-31' });
+  });
+});
+
+describe('classifyVatLine', () => {
+  const settings = new Map(taxSettings.map(setting => [setting.id, setting]));
+
+  it('rates taxed lines as standard at their rate', () => {
+    expect(classifyVatLine({ tax_percentage: 8, tax_amount: 8 }, settings)).toEqual({ category: 'standard', rate: 8 });
+  });
+
+  it('splits untaxed lines into zero rated and exempt by their tax setting', () => {
+    expect(classifyVatLine({ tax_amount: 0, tax_setting_id: 'zero' }, settings)).toEqual({ category: 'zero_rated', rate: 0 });
+    expect(classifyVatLine({ tax_amount: 0, tax_setting_id: 'exempt' }, settings)).toEqual({ category: 'exempt', rate: 0 });
+    expect(classifyVatLine({ tax_percentage: 16, tax_amount: 0 }, settings)).toEqual({ category: 'exempt', rate: 0 });
+  });
+});
+
+describe('buildVatReturn', () => {
+  it('counts posted invoices and issued credit notes in the period only', () => {
+    expect(vatReturn.output.documents.map(document => document.number)).toEqual(['INV-1', 'INV-4', 'CN-1']);
+    expect(vatReturn.input.documents.map(document => document.number)).toEqual(['SUP-9']);
+  });
+
+  it('converts foreign currency documents at their exchange rate', () => {
+    const usdInvoice = vatReturn.output.documents.find(document => document.id === 'INV-4');
+
+    expect(usdInvoice).toMatchObject({ taxable: 13000, vat: 2080, counterparty_pin: null });
+  });
+
+  it('subtracts credit notes and links them to the credited invoice', () => {
+    const creditNote = vatReturn.output.documents.find(document => document.id === 'CN-1');
+
+    expect(creditNote).toMatchObject({ taxable: -100, vat: -16, description: 'Damaged bags', related_number: 'INV-1' });
+  });
+
+  it('summarises by side, category and rate and nets input against output VAT', () => {
+    expect(vatReturn.rows.map(row => [row.side, row.category, row.rate, row.taxable, row.vat, row.documents])).toEqual([
+      ['output', 'standard', 16, 13900, 2224, 3],
+      ['output', 'zero_rated', 0, 500, 0, 1],
+      ['output', 'exempt', 0, 200, 0, 1],
+      ['input', 'standard', 16, 1000, 160, 1],
+    ]);
+    expect(vatReturn.output).toMatchObject({ taxable: 14600, vat: 2224 });
+    expect(vatReturn.net_vat).toBe(2064);
+  });
+
+  it('lists received LPOs without a bill, at base currency', () => {
+    expect(vatReturn.unbilled_lpos).toEqual([
+      { id: 'L-1', number: 'LPO-1', date: '2026-03-02', supplier: 'Timber Co', taxable: 1000, vat: 160 },
+    ]);
+  });
+
+  it('finds the documents behind a summary row', () => {
+    expect(documentsForRow(vatReturn, { side: 'output', category: 'zero_rated', rate: 0 }).map(document => document.id)).toEqual(['INV-1']);
+  });
+});
+
+describe('VAT3 schedules', () => {
+  it('lists registered customers per document and totals the rest per rate', () => {
+    expect(vat3SalesRows(vatReturn)).toEqual([
+      ['P051111111A', 'Acme Ltd', 'KRACU01', '05/03/2026', 'INV-1', 'Taxed item and 2 more', '1000.00', '160.00', '', ''],
+      ['P051111111A', 'Acme Ltd', '', '20/03/2026', 'CN-1', 'Damaged bags', '-100.00', '-16.00', 'INV-1', '05/03/2026'],
+      ['', 'Sales to non-registered persons (16%)', '', '31/03/2026', '', '', '13000.00', '2080.00', '', ''],
+    ]);
+  });
+
+  it('lists supplier bills with the supplier invoice number', () => {
+    expect(vat3PurchaseRows(vatReturn)).toEqual([
+      ['Local', 'P052222222B', 'Hardware Ltd', '', '12/03/2026', 'SUP-9', 'Taxed item', '', '1000.00', '160.00', '', ''],
+    ]);
+  });
+});
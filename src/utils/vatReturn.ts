@@ -0,0 +1,376 @@
+import { isCreditNoteLocked, isInvoicePosted, isInvoiceVoid } from '@/utils/documentLocks';
+
+// Monthly VAT return: output VAT on posted invoices less credit notes, against input VAT on
+// approved supplier bills. Figures come from the stored item lines, so the return agrees with
+// the documents as issued. Received LPOs without a supplier bill are listed separately; their
+// VAT cannot be claimed until the supplier's invoice is entered as a bill.
+
+export type VatCategory = 'standard' | 'zero_rated' | 'exempt';
+export type VatSide = 'output' | 'input';
+export type VatDocumentKind = 'invoice' | 'credit_note' | 'supplier_bill';
+
+export interface VatDocumentLine {
+  category: VatCategory;
+  rate: number;
+  taxable: number;
+  vat: number;
+}
+
+export interface VatDocument {
+  kind: VatDocumentKind;
+  id: string;
+  number: string;
+  date: string;
+  counterparty: string;
+  counterparty_pin: string | null;
+  etr_serial: string | null;
+  description: string;
+  related_number: string | null;  // credit notes: the invoice being credited
+  related_date: string | null;
+  lines: VatDocumentLine[];       // one per category and rate, negative for credit notes
+  taxable: number;
+  vat: number;
+}
+
+export interface VatRateRow {
+  side: VatSide;
+  category: VatCategory;
+  rate: number;
+  taxable: number;
+  vat: number;
+  documents: number;
+}
+
+export interface UnbilledLpo {
+  id: string;
+  number: string;
+  date: string;
+  supplier: string;
+  taxable: number;
+  vat: number;
+}
+
+export interface VatReturn {
+  period: { start: string; end: string };
+  rows: VatRateRow[];
+  output: { taxable: number; vat: number; documents: VatDocument[] };
+  input: { taxable: number; vat: number; documents: VatDocument[] };
+  net_vat: number;   // positive: payable to KRA, negative: credit carried forward
+  unbilled_lpos: UnbilledLpo[];
+}
+
+interface TaxSettingLike {
+  id: string;
+  name: string;
+  rate: number;
+}
+
+interface ItemLike {
+  description?: string | null;
+  quantity?: number | string | null;
+  unit_price?: number | string | null;
+  tax_percentage?: number | string | null;
+  tax_rate?: number | string | null;
+  tax_amount?: number | string | null;
+  line_total?: number | string | null;
+  tax_setting_id?: string | null;
+}
+
+type Rated = { exchange_rate?: number | string | null };
+type Counterparty = { name?: string | null; tax_number?: string | null } | null;
+
+interface VatInvoiceSource extends Rated {
+  id: string;
+  invoice_number: string;
+  invoice_date: string;
+  status?: string | null;
+  paid_amount?: number | string | null;
+  etims_cu_serial_number?: string | null;
+  customers?: Counterparty;
+  invoice_items?: ItemLike[];
+}
+
+interface VatCreditNoteSource extends Rated {
+  id: string;
+  credit_note_number: string;
+  credit_note_date: string;
+  status?: string | null;
+  applied_amount?: number | string | null;
+  reason?: string | null;
+  etims_cu_serial_number?: string | null;
+  customers?: Counterparty;
+  invoices?: { invoice_number?: string | null; invoice_date?: string | null } | null;
+  credit_note_items?: ItemLike[];
+}
+
+// Bills for LPOs raised in earlier months are passed with only id, lpo_id and status
+interface VatBillSource extends Rated {
+  id: string;
+  bill_number?: string;
+  supplier_invoice_number?: string | null;
+  bill_date?: string;
+  status?: string | null;
+  lpo_id?: string | null;
+  suppliers?: { name?: string | null; tax_pin?: string | null } | null;
+  supplier_bill_items?: ItemLike[];
+}
+
+interface VatLpoSource extends Rated {
+  id: string;
+  lpo_number: string;
+  lpo_date: string;
+  status?: string | null;
+  subtotal?: number | string | null;
+  tax_amount?: number | string | null;
+  suppliers?: { name?: string | null } | null;
+}
+
+export const VAT_CATEGORY_LABELS: Record<VatCategory, string> = {
+  standard: 'Standard rated',
+  zero_rated: 'Zero rated',
+  exempt: 'Exempt',
+};
+
+const BILL_VAT_STATUSES = ['approved', 'partial', 'paid'];
+const RECEIVED_LPO_STATUSES = ['received', 'partially_received'];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const num = (value: unknown) => Number(value || 0);
+
+/**
+ * Category of an item line. Taxed lines are standard rated at their rate. An untaxed line is zero
+ * rated when its tax setting says so ("Zero rated", or any 0% setting not named exempt) and
+ * exempt otherwise, matching how eTIMS reports untaxed lines.
+ */
+export function classifyVatLine(item: ItemLike, taxSettings: Map<string, TaxSettingLike>): { category: VatCategory; rate: number } {
+  const rate = num(item.tax_percentage ?? item.tax_rate);
+  if (num(item.tax_amount) !== 0) return { category: 'standard', rate };
+
+  const setting = item.tax_setting_id ? taxSettings.get(item.tax_setting_id) : undefined;
+  if (setting && !/exempt/i.test(setting.name) && (/zero/i.test(setting.name) || num(setting.rate) === 0)) {
+    return { category: 'zero_rated', rate: 0 };
+  }
+  return { category: 'exempt', rate: 0 };
+}
+
+// The return is in base currency: a document in another currency counts at its exchange rate
+const rateOf = (document: { exchange_rate?: number | string | null }) => num(document.exchange_rate) || 1;
+
+// Item lines grouped by category and rate, in base currency. line_total already includes the
+// line's VAT.
+function documentLines(items: ItemLike[], taxSettings: Map<string, TaxSettingLike>, sign: 1 | -1, exchangeRate = 1): VatDocumentLine[] {
+  const lines = new Map<string, VatDocumentLine>();
+  for (const item of items) {
+    const { category, rate } = classifyVatLine(item, taxSettings);
+    const vat = round2(num(item.tax_amount) * exchangeRate);
+    const lineTotal = round2((item.line_total !== null && item.line_total !== undefined
+      ? num(item.line_total)
+      : num(item.quantity) * num(item.unit_price) + num(item.tax_amount)) * exchangeRate);
+    const key = `${category}:${rate}`;
+    const line = lines.get(key) || { category, rate, taxable: 0, vat: 0 };
+    line.taxable = round2(line.taxable + sign * (lineTotal - vat));
+    line.vat = round2(line.vat + sign * vat);
+    lines.set(key, line);
+  }
+  return Array.from(lines.values());
+}
+
+const describe = (items: ItemLike[]) => {
+  const first = items.find(item => item.description)?.description || '';
+  return items.length > 1 ? `${first} and ${items.length - 1} more` : first;
+};
+
+const toDocument = (base: Omit<VatDocument, 'taxable' | 'vat'>): VatDocument => ({
+  ...base,
+  taxable: round2(base.lines.reduce((sum, line) => sum + line.taxable, 0)),
+  vat: round2(base.lines.reduce((sum, line) => sum + line.vat, 0)),
+});
+
+export const inPeriod = (date: string | null | undefined, start: string, end: string) =>
+  !!date && date.slice(0, 10) >= start && date.slice(0, 10) <= end;
+
+// First and last day of a YYYY-MM month
+export function monthPeriod(month: string) {
+  const [year, m] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, m, 0)).getUTCDate();
+  return { start: `${month}-01`, end: `${month}-${String(lastDay).padStart(2, '0')}` };
+}
+
+export function buildVatReturn(params: {
+  period: { start: string; end: string };
+  invoices: VatInvoiceSource[];
+  creditNotes: VatCreditNoteSource[];
+  bills: VatBillSource[];
+  lpos: VatLpoSource[];
+  taxSettings: TaxSettingLike[];
+}): VatReturn {
+  const { start, end } = params.period;
+  const settings = new Map(params.taxSettings.map(setting => [setting.id, setting]));
+
+  const sales = params.invoices
+    .filter(inv => inPeriod(inv.invoice_date, start, end) && isInvoicePosted(inv) && !isInvoiceVoid(inv))
+    .map(inv => toDocument({
+      kind: 'invoice',
+      id: inv.id,
+      number: inv.invoice_number,
+      date: inv.invoice_date,
+      counterparty: inv.customers?.name || 'Unknown Customer',
+      counterparty_pin: inv.customers?.tax_number || null,
+      etr_serial: inv.etims_cu_serial_number || null,
+      description: describe(inv.invoice_items || []),
+      related_number: null,
+      related_date: null,
+      lines: documentLines(inv.invoice_items || [], settings, 1, rateOf(inv)),
+    }));
+
+  // Credit notes count once issued: sent, applied or partly applied. Drafts can still change.
+  const credits = params.creditNotes
+    .filter(cn => inPeriod(cn.credit_note_date, start, end) && cn.status !== 'cancelled' &&
+      (cn.status === 'sent' || isCreditNoteLocked(cn)))
+    .map(cn => toDocument({
+      kind: 'credit_note',
+      id: cn.id,
+      number: cn.credit_note_number,
+      date: cn.credit_note_date,
+      counterparty: cn.customers?.name || 'Unknown Customer',
+      counterparty_pin: cn.customers?.tax_number || null,
+      etr_serial: cn.etims_cu_serial_number || null,
+      description: cn.reason || describe(cn.credit_note_items || []),
+      related_number: cn.invoices?.invoice_number || null,
+      related_date: cn.invoices?.invoice_date || null,
+      lines: documentLines(cn.credit_note_items || [], settings, -1, rateOf(cn)),
+    }));
+
+  const purchases = params.bills
+    .filter(bill => inPeriod(bill.bill_date, start, end) && BILL_VAT_STATUSES.includes(bill.status))
+    .map(bill => toDocument({
+      kind: 'supplier_bill',
+      id: bill.id,
+      number: bill.supplier_invoice_number || bill.bill_number,
+      date: bill.bill_date,
+      counterparty: bill.suppliers?.name || 'Unknown Supplier',
+      counterparty_pin: bill.suppliers?.tax_pin || null,
+      etr_serial: null,
+      description: describe(bill.supplier_bill_items || []),
+      related_number: null,
+      related_date: null,
+      lines: documentLines(bill.supplier_bill_items || [], settings, 1, rateOf(bill)),
+    }));
+
+  const billedLpoIds = new Set(params.bills.filter(bill => bill.lpo_id && bill.status !== 'cancelled').map(bill => bill.lpo_id));
+  const unbilledLpos = params.lpos
+    .filter(lpo => inPeriod(lpo.lpo_date, start, end) && RECEIVED_LPO_STATUSES.includes(lpo.status) && !billedLpoIds.has(lpo.id))
+    .map(lpo => ({
+      id: lpo.id,
+      number: lpo.lpo_number,
+      date: lpo.lpo_date,
+      supplier: lpo.suppliers?.name || 'Unknown Supplier',
+      taxable: round2(num(lpo.subtotal) * rateOf(lpo)),
+      vat: round2(num(lpo.tax_amount) * rateOf(lpo)),
+    }));
+
+  const rows = new Map<string, VatRateRow>();
+  const addRows = (side: VatSide, documents: VatDocument[]) => {
+    for (const document of documents) {
+      for (const line of document.lines) {
+        const key = `${side}:${line.category}:${line.rate}`;
+        const row = rows.get(key) || { side, category: line.category, rate: line.rate, taxable: 0, vat: 0, documents: 0 };
+        row.taxable = round2(row.taxable + line.taxable);
+        row.vat = round2(row.vat + line.vat);
+        row.documents += 1;
+        rows.set(key, row);
+      }
+    }
+  };
+  const outputDocuments = [...sales, ...credits].sort((a, b) => a.date.localeCompare(b.date) || a.number.localeCompare(b.number));
+  const inputDocuments = purchases.sort((a, b) => a.date.localeCompare(b.date) || a.number.localeCompare(b.number));
+  addRows('output', outputDocuments);
+  addRows('input', inputDocuments);
+
+  const categoryOrder: VatCategory[] = ['standard', 'zero_rated', 'exempt'];
+  const total = (documents: VatDocument[], field: 'taxable' | 'vat') =>
+    round2(documents.reduce((sum, document) => sum + document[field], 0));
+  const outputVat = total(outputDocuments, 'vat');
+  const inputVat = total(inputDocuments, 'vat');
+
+  return {
+    period: { start, end },
+    rows: Array.from(rows.values()).sort((a, b) =>
+      a.side.localeCompare(b.side) === 0
+        ? categoryOrder.indexOf(a.category) - categoryOrder.indexOf(b.category) || b.rate - a.rate
+        : a.side === 'output' ? -1 : 1),
+    output: { taxable: total(outputDocuments, 'taxable'), vat: outputVat, documents: outputDocuments },
+    input: { taxable: total(inputDocuments, 'taxable'), vat: inputVat, documents: inputDocuments },
+    net_vat: round2(outputVat - inputVat),
+    unbilled_lpos: unbilledLpos,
+  };
+}
+
+// Documents behind one row of the summary
+export const documentsForRow = (vatReturn: VatReturn, row: Pick<VatRateRow, 'side' | 'category' | 'rate'>) =>
+  (row.side === 'output' ? vatReturn.output.documents : vatReturn.input.documents)
+    .filter(document => document.lines.some(line => line.category === row.category && line.rate === row.rate));
+
+const dmy = (date: string | null) => {
+  if (!date) return '';
+  const [y, m, d] = date.slice(0, 10).split('-');
+  return `${d}/${m}/${y}`;
+};
+
+/**
+ * Rows for the iTax VAT3 sales schedule (standard rated supplies), one per document and rate.
+ * Customers without a PIN are reported together per rate, as VAT3 asks for sales to
+ * non-registered persons in total.
+ */
+export function vat3SalesRows(vatReturn: VatReturn): string[][] {
+  const registered: string[][] = [];
+  const unregistered = new Map<number, { taxable: number; vat: number }>();
+
+  for (const document of vatReturn.output.documents) {
+    for (const line of document.lines.filter(l => l.category === 'standard')) {
+      if (!document.counterparty_pin) {
+        const sum = unregistered.get(line.rate) || { taxable: 0, vat: 0 };
+        unregistered.set(line.rate, { taxable: round2(sum.taxable + line.taxable), vat: round2(sum.vat + line.vat) });
+        continue;
+      }
+      registered.push([
+        document.counterparty_pin,
+        document.counterparty,
+        document.etr_serial || '',
+        dmy(document.date),
+        document.number,
+        document.description,
+        line.taxable.toFixed(2),
+        line.vat.toFixed(2),
+        document.related_number || '',
+        dmy(document.related_date),
+      ]);
+    }
+  }
+
+  const totals = Array.from(unregistered.entries()).map(([rate, sum]) => [
+    '', `Sales to non-registered persons (${rate}%)`, '', dmy(vatReturn.period.end), '', '',
+    sum.taxable.toFixed(2), sum.vat.toFixed(2), '', '',
+  ]);
+  return [...registered, ...totals];
+}
+
+// Rows for the iTax VAT3 purchases schedule, one per supplier bill and rate
+export function vat3PurchaseRows(vatReturn: VatReturn): string[][] {
+  return vatReturn.input.documents.flatMap(document =>
+    document.lines.filter(line => line.category === 'standard').map(line => [
+      'Local',
+      document.counterparty_pin || '',
+      document.counterparty,
+      document.etr_serial || '',
+      dmy(document.date),
+      document.number,
+      document.description,
+      '',
+      line.taxable.toFixed(2),
+      line.vat.toFixed(2),
+      '',
+      '',
+    ])
+  );
+}